@@ -17,6 +17,7 @@ import { VendorListingProvider } from "@/lib/vendor-listing-context";
 import { LocationProvider } from "@/lib/location-context";
 import { SubscriptionProvider } from "@/lib/subscription-context";
 import { GamificationProvider } from "@/lib/gamification-context";
+import { InboxProvider } from "@/lib/inbox-context";
 import { OfflineProvider } from "@/lib/offline-context";
 import RootStackNavigator from "@/navigation/RootStackNavigator";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
@@ -35,20 +36,22 @@ export default function App() {
                   <LocationProvider>
                     <SubscriptionProvider>
                       <GamificationProvider>
-                        <OfflineProvider>
-                          <LocationNotificationBridge />
-                          <SafeAreaProvider>
-                            <GestureHandlerRootView style={styles.root}>
-                              <KeyboardProvider>
-                                <NavigationContainer>
-                                  <RootStackNavigator />
-                                </NavigationContainer>
-                                <NetworkStatusBanner />
-                                <ThemedStatusBar />
-                              </KeyboardProvider>
-                            </GestureHandlerRootView>
-                          </SafeAreaProvider>
-                        </OfflineProvider>
+                        <InboxProvider>
+                          <OfflineProvider>
+                            <LocationNotificationBridge />
+                            <SafeAreaProvider>
+                              <GestureHandlerRootView style={styles.root}>
+                                <KeyboardProvider>
+                                  <NavigationContainer>
+                                    <RootStackNavigator />
+                                  </NavigationContainer>
+                                  <NetworkStatusBanner />
+                                  <ThemedStatusBar />
+                                </KeyboardProvider>
+                              </GestureHandlerRootView>
+                            </SafeAreaProvider>
+                          </OfflineProvider>
+                        </InboxProvider>
                       </GamificationProvider>
                     </SubscriptionProvider>
                   </LocationProvider>
@@ -1,5 +1,11 @@
 import React, { useState, useEffect } from "react";
-import { View, StyleSheet, Pressable, Alert, ActivityIndicator } from "react-native";
+import {
+  View,
+  StyleSheet,
+  Pressable,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
 import { Feather } from "@expo/vector-icons";
 import { LinearGradient } from "expo-linear-gradient";
 import { ThemedText } from "./ThemedText";
@@ -9,20 +15,18 @@ import { useTheme } from "@/hooks/useTheme";
 import { useAuth } from "@/lib/auth-context";
 import { useSubscription } from "@/lib/subscription-context";
 import {
-  foodTruckService,
-  BOOST_PRICING,
-  FeaturedListing,
-} from "@/lib/food-truck-service";
+  useData,
+  BoostLevel,
+  BoostPlan,
+  VendorBoost,
+} from "@/lib/data-context";
+import { openStripeCheckout } from "@/lib/stripe-service";
 import { Colors, Spacing, BorderRadius } from "@/constants/theme";
 import * as Haptics from "expo-haptics";
 
-type BoostLevel = "basic" | "premium" | "spotlight";
-
 interface BoostOption {
   id: BoostLevel;
   name: string;
-  price: number;
-  duration: number;
   description: string;
   features: string[];
   gradient: readonly [string, string];
@@ -34,8 +38,6 @@ const BOOST_OPTIONS: BoostOption[] = [
   {
     id: "basic",
     name: "Basic Boost",
-    price: 0,
-    duration: 24,
     description: "24 hours of increased visibility",
     features: ["Priority in search", "Boost badge"],
     gradient: ["#6366F1", "#818CF8"] as const,
@@ -44,10 +46,13 @@ const BOOST_OPTIONS: BoostOption[] = [
   {
     id: "premium",
     name: "Premium Boost",
-    price: 0,
-    duration: 72,
     description: "3 days of maximum exposure",
-    features: ["Top of search", "Featured badge", "Push notifications", "Analytics"],
+    features: [
+      "Top of search",
+      "Featured badge",
+      "Push notifications",
+      "Analytics",
+    ],
     gradient: ["#F59E0B", "#FBBF24"] as const,
     icon: "zap",
     popular: true,
@@ -55,10 +60,13 @@ const BOOST_OPTIONS: BoostOption[] = [
   {
     id: "spotlight",
     name: "Spotlight",
-    price: 0,
-    duration: 168,
     description: "Be the featured truck of the week",
-    features: ["Homepage feature", "Spotlight banner", "Social shoutout", "Premium analytics"],
+    features: [
+      "Homepage feature",
+      "Spotlight banner",
+      "Social shoutout",
+      "Premium analytics",
+    ],
     gradient: ["#EC4899", "#F472B6"] as const,
     icon: "star",
   },
@@ -68,50 +76,76 @@ export function BoostListing() {
   const { theme } = useTheme();
   const { user } = useAuth();
   const { formatPrice } = useSubscription();
+  const { fetchBoostPlans, fetchMyBoosts, startBoostCheckout } = useData();
   const [selectedBoost, setSelectedBoost] = useState<BoostLevel | null>(null);
-  const [activeBoost, setActiveBoost] = useState<FeaturedListing | null>(null);
+  const [plans, setPlans] = useState<BoostPlan[]>([]);
+  const [activeBoost, setActiveBoost] = useState<VendorBoost | null>(null);
   const [loading, setLoading] = useState(false);
 
+  useEffect(() => {
+    fetchBoostPlans()
+      .then(setPlans)
+      .catch((error) => console.error("Error loading boost plans:", error));
+  }, [fetchBoostPlans]);
+
   useEffect(() => {
     if (user?.id) {
-      const boost = foodTruckService.getActiveBoost(user.id);
-      setActiveBoost(boost);
+      fetchMyBoosts()
+        .then((result) => setActiveBoost(result.activeBoost))
+        .catch((error) => console.error("Error loading boosts:", error));
     }
-  }, [user?.id]);
+  }, [user?.id, fetchMyBoosts]);
+
+  const planFor = (level: BoostLevel) => plans.find((p) => p.level === level);
 
   const handlePurchase = async () => {
     if (!selectedBoost || !user?.id) return;
 
     const option = BOOST_OPTIONS.find((o) => o.id === selectedBoost);
-    if (!option) return;
+    const plan = planFor(selectedBoost);
+    if (!option || !plan) return;
 
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
 
     Alert.alert(
       "Boost Your Listing",
-      `Activate ${option.name}? This feature is included with your Pro subscription.`,
+      `Buy ${plan.name} for ${formatPrice(plan.price)}? You'll finish payment with Stripe.`,
       [
         { text: "Cancel", style: "cancel" },
         {
-          text: "Activate",
+          text: "Continue",
           onPress: async () => {
             setLoading(true);
             try {
-              const listing = await foodTruckService.purchaseBoost(user.id, selectedBoost);
-              if (listing) {
-                setActiveBoost(listing);
-                Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-                Alert.alert("Success!", `Your ${option.name} is now active!`);
+              const { url } = await startBoostCheckout(selectedBoost);
+              await openStripeCheckout(url);
+
+              // The server activates the boost once Stripe confirms the payment
+              const { activeBoost: boost } = await fetchMyBoosts();
+              setActiveBoost(boost);
+              if (boost) {
+                Haptics.notificationAsync(
+                  Haptics.NotificationFeedbackType.Success,
+                );
+                Alert.alert("Success!", `Your ${plan.name} is now active!`);
+              } else {
+                Alert.alert(
+                  "Payment Processing",
+                  "Your boost starts as soon as Stripe confirms the payment.",
+                );
               }
-            } catch (error) {
-              Alert.alert("Error", "Failed to purchase boost. Please try again.");
+            } catch (error: any) {
+              Alert.alert(
+                "Error",
+                error.message || "Failed to purchase boost. Please try again.",
+              );
             } finally {
               setLoading(false);
               setSelectedBoost(null);
             }
           },
         },
-      ]
+      ],
     );
   };
 
@@ -126,7 +160,7 @@ export function BoostListing() {
 
   // If there's an active boost, show the status
   if (activeBoost) {
-    const boostInfo = BOOST_OPTIONS.find((o) => o.id === activeBoost.boostLevel);
+    const boostInfo = BOOST_OPTIONS.find((o) => o.id === activeBoost.level);
 
     return (
       <Card style={styles.activeBoostCard}>
@@ -140,10 +174,13 @@ export function BoostListing() {
             <Feather name={boostInfo?.icon || "zap"} size={24} color="#fff" />
             <View style={styles.activeBoostInfo}>
               <ThemedText type="h4" style={{ color: "#fff" }}>
-                {boostInfo?.name} Active
+                {activeBoost.name} Active
               </ThemedText>
-              <ThemedText type="small" style={{ color: "rgba(255,255,255,0.8)" }}>
-                {getTimeRemaining(activeBoost.endDate)}
+              <ThemedText
+                type="small"
+                style={{ color: "rgba(255,255,255,0.8)" }}
+              >
+                {activeBoost.endsAt ? getTimeRemaining(activeBoost.endsAt) : ""}
               </ThemedText>
             </View>
           </View>
@@ -153,30 +190,27 @@ export function BoostListing() {
           <View style={styles.boostStats}>
             <View style={styles.boostStatItem}>
               <ThemedText type="h3" style={{ color: "#fff" }}>
-                {activeBoost.impressions}
-              </ThemedText>
-              <ThemedText type="caption" style={{ color: "rgba(255,255,255,0.8)" }}>
-                Impressions
+                {activeBoost.endsAt
+                  ? new Date(activeBoost.endsAt).toLocaleDateString()
+                  : "-"}
               </ThemedText>
-            </View>
-            <View style={styles.boostStatDivider} />
-            <View style={styles.boostStatItem}>
-              <ThemedText type="h3" style={{ color: "#fff" }}>
-                {activeBoost.clicks}
-              </ThemedText>
-              <ThemedText type="caption" style={{ color: "rgba(255,255,255,0.8)" }}>
-                Clicks
+              <ThemedText
+                type="caption"
+                style={{ color: "rgba(255,255,255,0.8)" }}
+              >
+                Ends
               </ThemedText>
             </View>
             <View style={styles.boostStatDivider} />
             <View style={styles.boostStatItem}>
               <ThemedText type="h3" style={{ color: "#fff" }}>
-                {activeBoost.impressions > 0
-                  ? ((activeBoost.clicks / activeBoost.impressions) * 100).toFixed(1)
-                  : 0}%
+                {formatPrice(activeBoost.amount)}
               </ThemedText>
-              <ThemedText type="caption" style={{ color: "rgba(255,255,255,0.8)" }}>
-                CTR
+              <ThemedText
+                type="caption"
+                style={{ color: "rgba(255,255,255,0.8)" }}
+              >
+                Paid
               </ThemedText>
             </View>
           </View>
@@ -199,10 +233,7 @@ export function BoostListing() {
       <Spacer size="xl" />
 
       {BOOST_OPTIONS.map((option) => (
-        <Pressable
-          key={option.id}
-          onPress={() => setSelectedBoost(option.id)}
-        >
+        <Pressable key={option.id} onPress={() => setSelectedBoost(option.id)}>
           <Card
             style={{
               ...styles.optionCard,
@@ -213,8 +244,16 @@ export function BoostListing() {
             }}
           >
             {option.popular && (
-              <View style={[styles.popularBadge, { backgroundColor: Colors.warning }]}>
-                <ThemedText type="caption" style={{ color: "#fff", fontWeight: "700" }}>
+              <View
+                style={[
+                  styles.popularBadge,
+                  { backgroundColor: Colors.warning },
+                ]}
+              >
+                <ThemedText
+                  type="caption"
+                  style={{ color: "#fff", fontWeight: "700" }}
+                >
                   POPULAR
                 </ThemedText>
               </View>
@@ -237,10 +276,14 @@ export function BoostListing() {
               </View>
               <View style={styles.optionPrice}>
                 <ThemedText type="h4" style={{ color: Colors.primary }}>
-                  {formatPrice(option.price)}
+                  {planFor(option.id)
+                    ? formatPrice(planFor(option.id)!.price)
+                    : "--"}
                 </ThemedText>
                 <ThemedText type="caption" secondary>
-                  {option.duration}h
+                  {planFor(option.id)
+                    ? `${planFor(option.id)!.durationHours}h`
+                    : ""}
                 </ThemedText>
               </View>
             </View>
@@ -259,7 +302,12 @@ export function BoostListing() {
             </View>
 
             {selectedBoost === option.id && (
-              <View style={[styles.selectedIndicator, { backgroundColor: Colors.primary }]}>
+              <View
+                style={[
+                  styles.selectedIndicator,
+                  { backgroundColor: Colors.primary },
+                ]}
+              >
                 <Feather name="check" size={14} color="#fff" />
               </View>
             )}
@@ -272,7 +320,11 @@ export function BoostListing() {
       <Pressable
         style={[
           styles.purchaseButton,
-          { backgroundColor: selectedBoost ? Colors.primary : theme.backgroundTertiary },
+          {
+            backgroundColor: selectedBoost
+              ? Colors.primary
+              : theme.backgroundTertiary,
+          },
         ]}
         onPress={handlePurchase}
         disabled={!selectedBoost || loading}
@@ -294,7 +346,7 @@ export function BoostListing() {
                 fontWeight: "600",
               }}
             >
-              {selectedBoost ? "Activate Boost" : "Select a Boost"}
+              {selectedBoost ? "Buy Boost" : "Select a Boost"}
             </ThemedText>
           </>
         )}
@@ -305,7 +357,7 @@ export function BoostListing() {
       <View style={styles.securityNote}>
         <Feather name="lock" size={14} color={theme.textSecondary} />
         <ThemedText type="caption" secondary style={{ marginLeft: Spacing.xs }}>
-          Included with your Pro subscription
+          Secure payment with Stripe
         </ThemedText>
       </View>
     </View>
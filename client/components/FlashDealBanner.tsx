@@ -1,5 +1,5 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { View, StyleSheet, Pressable, Platform } from 'react-native';
+import React, { useState, useEffect, useRef } from "react";
+import { View, StyleSheet, Pressable, Platform } from "react-native";
 import Animated, {
   useSharedValue,
   useAnimatedStyle,
@@ -10,12 +10,12 @@ import Animated, {
   interpolateColor,
   Easing,
   runOnJS,
-} from 'react-native-reanimated';
-import * as Haptics from 'expo-haptics';
-import { Feather } from '@expo/vector-icons';
-import { ThemedText } from './ThemedText';
-import { Colors } from '@/constants/Colors';
-import { Shadows } from '@/constants/theme';
+} from "react-native-reanimated";
+import * as Haptics from "expo-haptics";
+import { Feather } from "@expo/vector-icons";
+import { ThemedText } from "./ThemedText";
+import { Colors } from "@/constants/Colors";
+import { Shadows } from "@/constants/theme";
 
 interface FlashDealBannerProps {
   deal: {
@@ -33,7 +33,11 @@ interface FlashDealBannerProps {
   onDismiss: () => void;
 }
 
-export function FlashDealBanner({ deal, onPress, onDismiss }: FlashDealBannerProps) {
+export function FlashDealBanner({
+  deal,
+  onPress,
+  onDismiss,
+}: FlashDealBannerProps) {
   const [timeLeft, setTimeLeft] = useState(deal.expiresIn);
   const [isExpanded, setIsExpanded] = useState(false);
 
@@ -52,24 +56,24 @@ export function FlashDealBanner({ deal, onPress, onDismiss }: FlashDealBannerPro
     pulseAnim.value = withRepeat(
       withSequence(
         withTiming(1.05, { duration: 500 }),
-        withTiming(1, { duration: 500 })
+        withTiming(1, { duration: 500 }),
       ),
       -1,
-      true
+      true,
     );
 
     // Glow effect
     glowAnim.value = withRepeat(
       withSequence(
         withTiming(1, { duration: 1000 }),
-        withTiming(0, { duration: 1000 })
+        withTiming(0, { duration: 1000 }),
       ),
       -1,
-      true
+      true,
     );
 
     // Haptic feedback on appear
-    if (Platform.OS !== 'web') {
+    if (Platform.OS !== "web") {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
     }
   }, []);
@@ -79,7 +83,7 @@ export function FlashDealBanner({ deal, onPress, onDismiss }: FlashDealBannerPro
     if (timeLeft <= 0) return;
 
     const timer = setInterval(() => {
-      setTimeLeft(prev => {
+      setTimeLeft((prev) => {
         if (prev <= 1) {
           clearInterval(timer);
           onDismiss();
@@ -93,9 +97,9 @@ export function FlashDealBanner({ deal, onPress, onDismiss }: FlashDealBannerPro
             withTiming(5, { duration: 50 }),
             withTiming(-5, { duration: 50 }),
             withTiming(5, { duration: 50 }),
-            withTiming(0, { duration: 50 })
+            withTiming(0, { duration: 50 }),
           );
-          if (Platform.OS !== 'web') {
+          if (Platform.OS !== "web") {
             Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
           }
         }
@@ -116,7 +120,7 @@ export function FlashDealBanner({ deal, onPress, onDismiss }: FlashDealBannerPro
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
-    return `${mins}:${secs.toString().padStart(2, '0')}`;
+    return `${mins}:${secs.toString().padStart(2, "0")}`;
   };
 
   const containerStyle = useAnimatedStyle(() => ({
@@ -136,18 +140,25 @@ export function FlashDealBanner({ deal, onPress, onDismiss }: FlashDealBannerPro
     transform: [{ scale: 1 + glowAnim.value * 0.1 }],
   }));
 
-  const urgencyColor = timeLeft <= 30 ? Colors.error : timeLeft <= 60 ? Colors.accent : Colors.primary;
-  const remainingPercent = ((deal.totalAvailable - deal.claimedCount) / deal.totalAvailable) * 100;
+  const urgencyColor =
+    timeLeft <= 30
+      ? Colors.error
+      : timeLeft <= 60
+        ? Colors.accent
+        : Colors.primary;
+  const remainingCount = Math.max(deal.totalAvailable - deal.claimedCount, 0);
 
   return (
     <Animated.View style={[styles.container, containerStyle]}>
       {/* Glow effect */}
-      <Animated.View style={[styles.glow, glowStyle, { backgroundColor: urgencyColor }]} />
+      <Animated.View
+        style={[styles.glow, glowStyle, { backgroundColor: urgencyColor }]}
+      />
 
       <Pressable
         style={styles.content}
         onPress={() => {
-          if (Platform.OS !== 'web') {
+          if (Platform.OS !== "web") {
             Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
           }
           onPress();
@@ -162,9 +173,13 @@ export function FlashDealBanner({ deal, onPress, onDismiss }: FlashDealBannerPro
         <View style={styles.info}>
           <View style={styles.header}>
             <ThemedText style={styles.flashLabel}>FLASH DEAL</ThemedText>
-            <View style={[styles.timerBadge, { backgroundColor: urgencyColor }]}>
+            <View
+              style={[styles.timerBadge, { backgroundColor: urgencyColor }]}
+            >
               <Feather name="clock" size={12} color="#fff" />
-              <ThemedText style={styles.timerText}>{formatTime(timeLeft)}</ThemedText>
+              <ThemedText style={styles.timerText}>
+                {formatTime(timeLeft)}
+              </ThemedText>
             </View>
           </View>
 
@@ -174,16 +189,24 @@ export function FlashDealBanner({ deal, onPress, onDismiss }: FlashDealBannerPro
           </ThemedText>
 
           <View style={styles.priceRow}>
-            <ThemedText style={styles.discountBadge}>{deal.discount}</ThemedText>
-            <ThemedText style={styles.originalPrice}>${deal.originalPrice.toFixed(2)}</ThemedText>
-            <ThemedText style={styles.discountedPrice}>${deal.discountedPrice.toFixed(2)}</ThemedText>
+            <ThemedText style={styles.discountBadge}>
+              {deal.discount}
+            </ThemedText>
+            <ThemedText style={styles.originalPrice}>
+              ${deal.originalPrice.toFixed(2)}
+            </ThemedText>
+            <ThemedText style={styles.discountedPrice}>
+              ${deal.discountedPrice.toFixed(2)}
+            </ThemedText>
           </View>
 
           {/* Social proof */}
           <View style={styles.socialProof}>
             <Feather name="users" size={12} color={Colors.textSecondary} />
             <ThemedText style={styles.claimedText}>
-              {deal.claimedCount} claimed ({Math.round(remainingPercent)}% left)
+              {remainingCount > 0
+                ? `${remainingCount} of ${deal.totalAvailable} left (${deal.claimedCount} claimed)`
+                : `Sold out (${deal.claimedCount} claimed)`}
             </ThemedText>
           </View>
         </View>
@@ -202,7 +225,13 @@ export function FlashDealBanner({ deal, onPress, onDismiss }: FlashDealBannerPro
 
       {/* Progress bar */}
       <View style={styles.progressContainer}>
-        <Animated.View style={[styles.progressBar, progressStyle, { backgroundColor: urgencyColor }]} />
+        <Animated.View
+          style={[
+            styles.progressBar,
+            progressStyle,
+            { backgroundColor: urgencyColor },
+          ]}
+        />
       </View>
     </Animated.View>
   );
@@ -210,19 +239,19 @@ export function FlashDealBanner({ deal, onPress, onDismiss }: FlashDealBannerPro
 
 const styles = StyleSheet.create({
   container: {
-    position: 'absolute',
+    position: "absolute",
     top: 0,
     left: 0,
     right: 0,
     zIndex: 1000,
     margin: 16,
     borderRadius: 16,
-    overflow: 'hidden',
+    overflow: "hidden",
     backgroundColor: Colors.dark.card,
     ...Shadows.xl,
   },
   glow: {
-    position: 'absolute',
+    position: "absolute",
     top: -50,
     left: -50,
     right: -50,
@@ -230,36 +259,36 @@ const styles = StyleSheet.create({
     borderRadius: 100,
   },
   content: {
-    flexDirection: 'row',
+    flexDirection: "row",
     padding: 16,
-    alignItems: 'flex-start',
+    alignItems: "flex-start",
   },
   iconContainer: {
     width: 48,
     height: 48,
     borderRadius: 12,
-    justifyContent: 'center',
-    alignItems: 'center',
+    justifyContent: "center",
+    alignItems: "center",
     marginRight: 12,
   },
   info: {
     flex: 1,
   },
   header: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    justifyContent: 'space-between',
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
     marginBottom: 4,
   },
   flashLabel: {
     fontSize: 10,
-    fontWeight: '800',
+    fontWeight: "800",
     color: Colors.accent,
     letterSpacing: 1,
   },
   timerBadge: {
-    flexDirection: 'row',
-    alignItems: 'center',
+    flexDirection: "row",
+    alignItems: "center",
     paddingHorizontal: 8,
     paddingVertical: 4,
     borderRadius: 12,
@@ -267,12 +296,12 @@ const styles = StyleSheet.create({
   },
   timerText: {
     fontSize: 12,
-    fontWeight: '700',
-    color: '#fff',
+    fontWeight: "700",
+    color: "#fff",
   },
   vendorName: {
     fontSize: 14,
-    fontWeight: '600',
+    fontWeight: "600",
     color: Colors.dark.text,
     marginBottom: 2,
   },
@@ -282,16 +311,16 @@ const styles = StyleSheet.create({
     marginBottom: 8,
   },
   priceRow: {
-    flexDirection: 'row',
-    alignItems: 'center',
+    flexDirection: "row",
+    alignItems: "center",
     gap: 8,
     marginBottom: 8,
   },
   discountBadge: {
     backgroundColor: Colors.success,
-    color: '#fff',
+    color: "#fff",
     fontSize: 12,
-    fontWeight: '700',
+    fontWeight: "700",
     paddingHorizontal: 8,
     paddingVertical: 2,
     borderRadius: 4,
@@ -299,16 +328,16 @@ const styles = StyleSheet.create({
   originalPrice: {
     fontSize: 14,
     color: Colors.textSecondary,
-    textDecorationLine: 'line-through',
+    textDecorationLine: "line-through",
   },
   discountedPrice: {
     fontSize: 16,
-    fontWeight: '700',
+    fontWeight: "700",
     color: Colors.success,
   },
   socialProof: {
-    flexDirection: 'row',
-    alignItems: 'center',
+    flexDirection: "row",
+    alignItems: "center",
     gap: 4,
   },
   claimedText: {
@@ -320,10 +349,10 @@ const styles = StyleSheet.create({
   },
   progressContainer: {
     height: 3,
-    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    backgroundColor: "rgba(255, 255, 255, 0.1)",
   },
   progressBar: {
-    height: '100%',
+    height: "100%",
     borderRadius: 2,
   },
 });
@@ -1,15 +1,23 @@
-import React, { useState, useEffect } from "react";
-import { View, StyleSheet, Pressable, FlatList, Switch, Alert } from "react-native";
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  View,
+  StyleSheet,
+  Pressable,
+  FlatList,
+  Switch,
+  Alert,
+} from "react-native";
 import { Feather } from "@expo/vector-icons";
 import { ThemedText } from "./ThemedText";
 import { Card } from "./Card";
 import { Spacer } from "./Spacer";
 import { useTheme } from "@/hooks/useTheme";
+import { foodTruckService, GeoFenceZone } from "@/lib/food-truck-service";
 import {
-  foodTruckService,
-  GeoFenceZone,
-  POPULAR_ZONES,
-} from "@/lib/food-truck-service";
+  subscribeToZone,
+  unsubscribeFromZone,
+} from "@/lib/notification-service";
+import { useAuth, useAuthFetch } from "@/lib/auth-context";
 import { Colors, Spacing, BorderRadius } from "@/constants/theme";
 import * as Haptics from "expo-haptics";
 
@@ -19,47 +27,70 @@ interface GeoFenceAlertsProps {
 
 export function GeoFenceAlerts({ onZoneToggle }: GeoFenceAlertsProps) {
   const { theme } = useTheme();
-  const [subscribedZones, setSubscribedZones] = useState<Set<string>>(new Set());
+  const { isAuthenticated } = useAuth();
+  const authFetch = useAuthFetch();
+  const [zones, setZones] = useState<GeoFenceZone[]>([]);
+  const [subscribedZones, setSubscribedZones] = useState<Set<string>>(
+    new Set(),
+  );
   const [expandedCity, setExpandedCity] = useState<string | null>(null);
 
+  const loadZones = useCallback(async () => {
+    const serverZones = await foodTruckService.getZones(authFetch);
+    setZones(serverZones);
+    setSubscribedZones(
+      new Set(serverZones.filter((z) => z.subscribed).map((z) => z.id)),
+    );
+  }, [authFetch]);
+
   useEffect(() => {
-    // Load subscribed zones
-    const zones = foodTruckService.getSubscribedZones();
-    setSubscribedZones(new Set(zones.map((z) => z.id)));
-  }, []);
+    loadZones();
+  }, [loadZones]);
 
-  // Group zones by city
-  const zonesByCity = POPULAR_ZONES.reduce((acc, zone) => {
-    const city = zone.name.split(" ").slice(-1)[0] || zone.name;
-    const cityKey = zone.id.split("_")[1]; // e.g., "miami" from "zone_miami_downtown"
-    if (!acc[cityKey]) {
-      acc[cityKey] = [];
-    }
-    acc[cityKey].push(zone);
-    return acc;
-  }, {} as Record<string, GeoFenceZone[]>);
+  // Group zones by city; the server returns them sorted by city, then name
+  const zonesByCity = zones.reduce(
+    (acc, zone) => {
+      if (!acc[zone.city]) {
+        acc[zone.city] = [];
+      }
+      acc[zone.city].push(zone);
+      return acc;
+    },
+    {} as Record<string, GeoFenceZone[]>,
+  );
 
-  const cities = Object.entries(zonesByCity).map(([key, zones]) => ({
-    id: key,
-    name: key.charAt(0).toUpperCase() + key.slice(1),
-    zones,
-    subscribedCount: zones.filter((z) => subscribedZones.has(z.id)).length,
+  const cities = Object.entries(zonesByCity).map(([city, cityZones]) => ({
+    id: city,
+    name: cityZones[0].state ? `${city}, ${cityZones[0].state}` : city,
+    zones: cityZones,
+    subscribedCount: cityZones.filter((z) => subscribedZones.has(z.id)).length,
   }));
 
+  // Alerts are sent by the server, so watching a zone needs an account
+  const ensureSignedIn = (): boolean => {
+    if (isAuthenticated) return true;
+    Alert.alert(
+      "Sign in required",
+      "Sign in to get alerts when your favorite trucks arrive in a zone.",
+    );
+    return false;
+  };
+
   const handleToggleZone = async (zone: GeoFenceZone) => {
+    if (!ensureSignedIn()) return;
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
 
     const isSubscribed = subscribedZones.has(zone.id);
 
     if (isSubscribed) {
-      await foodTruckService.unsubscribeFromZone(zone.id);
+      if (!(await unsubscribeFromZone(zone.id, authFetch))) return;
       setSubscribedZones((prev) => {
         const next = new Set(prev);
         next.delete(zone.id);
         return next;
       });
     } else {
-      await foodTruckService.subscribeToZone(zone);
+      if (!(await subscribeToZone(zone.id, authFetch))) return;
       setSubscribedZones((prev) => new Set(prev).add(zone.id));
     }
 
@@ -67,34 +98,39 @@ export function GeoFenceAlerts({ onZoneToggle }: GeoFenceAlertsProps) {
   };
 
   const handleToggleAllInCity = async (cityZones: GeoFenceZone[]) => {
+    if (!ensureSignedIn()) return;
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
 
     const allSubscribed = cityZones.every((z) => subscribedZones.has(z.id));
+    const saved: string[] = [];
 
     for (const zone of cityZones) {
       if (allSubscribed) {
-        await foodTruckService.unsubscribeFromZone(zone.id);
+        if (await unsubscribeFromZone(zone.id, authFetch)) saved.push(zone.id);
       } else if (!subscribedZones.has(zone.id)) {
-        await foodTruckService.subscribeToZone(zone);
+        if (await subscribeToZone(zone.id, authFetch)) saved.push(zone.id);
       }
     }
 
     setSubscribedZones((prev) => {
       const next = new Set(prev);
       if (allSubscribed) {
-        cityZones.forEach((z) => next.delete(z.id));
+        saved.forEach((id) => next.delete(id));
       } else {
-        cityZones.forEach((z) => next.add(z.id));
+        saved.forEach((id) => next.add(id));
       }
       return next;
     });
   };
 
-  const formatRadius = (meters: number): string => {
-    if (meters >= 1000) {
-      return `${(meters / 1000).toFixed(1)}km`;
+  const formatArea = (zone: GeoFenceZone): string => {
+    if (zone.radiusMeters === null) {
+      return "Custom area";
+    }
+    if (zone.radiusMeters >= 1000) {
+      return `${(zone.radiusMeters / 1000).toFixed(1)}km radius`;
     }
-    return `${meters}m`;
+    return `${zone.radiusMeters}m radius`;
   };
 
   const renderZone = (zone: GeoFenceZone) => {
@@ -115,7 +151,9 @@ export function GeoFenceAlerts({ onZoneToggle }: GeoFenceAlertsProps) {
             style={[
               styles.zoneIcon,
               {
-                backgroundColor: isSubscribed ? Colors.primary + "20" : theme.backgroundSecondary,
+                backgroundColor: isSubscribed
+                  ? Colors.primary + "20"
+                  : theme.backgroundSecondary,
               },
             ]}
           >
@@ -130,21 +168,24 @@ export function GeoFenceAlerts({ onZoneToggle }: GeoFenceAlertsProps) {
               {zone.name}
             </ThemedText>
             <ThemedText type="caption" secondary>
-              {formatRadius(zone.radiusMeters)} radius
+              {formatArea(zone)}
             </ThemedText>
           </View>
         </View>
         <Switch
           value={isSubscribed}
           onValueChange={() => handleToggleZone(zone)}
-          trackColor={{ false: theme.backgroundTertiary, true: Colors.primary + "50" }}
+          trackColor={{
+            false: theme.backgroundTertiary,
+            true: Colors.primary + "50",
+          }}
           thumbColor={isSubscribed ? Colors.primary : theme.textSecondary}
         />
       </Pressable>
     );
   };
 
-  const renderCity = ({ item }: { item: typeof cities[0] }) => {
+  const renderCity = ({ item }: { item: (typeof cities)[0] }) => {
     const isExpanded = expandedCity === item.id;
     const allSubscribed = item.zones.every((z) => subscribedZones.has(z.id));
 
@@ -155,7 +196,12 @@ export function GeoFenceAlerts({ onZoneToggle }: GeoFenceAlertsProps) {
           onPress={() => setExpandedCity(isExpanded ? null : item.id)}
         >
           <View style={styles.cityInfo}>
-            <View style={[styles.cityIcon, { backgroundColor: Colors.secondary + "20" }]}>
+            <View
+              style={[
+                styles.cityIcon,
+                { backgroundColor: Colors.secondary + "20" },
+              ]}
+            >
               <Feather name="map" size={18} color={Colors.secondary} />
             </View>
             <View>
@@ -169,9 +215,17 @@ export function GeoFenceAlerts({ onZoneToggle }: GeoFenceAlertsProps) {
           </View>
           <View style={styles.cityActions}>
             {item.subscribedCount > 0 && (
-              <View style={[styles.activeBadge, { backgroundColor: Colors.success + "20" }]}>
+              <View
+                style={[
+                  styles.activeBadge,
+                  { backgroundColor: Colors.success + "20" },
+                ]}
+              >
                 <Feather name="bell" size={12} color={Colors.success} />
-                <ThemedText type="caption" style={{ color: Colors.success, marginLeft: 4 }}>
+                <ThemedText
+                  type="caption"
+                  style={{ color: Colors.success, marginLeft: 4 }}
+                >
                   {item.subscribedCount}
                 </ThemedText>
               </View>
@@ -189,7 +243,10 @@ export function GeoFenceAlerts({ onZoneToggle }: GeoFenceAlertsProps) {
             <Spacer size="md" />
 
             <Pressable
-              style={[styles.toggleAllButton, { backgroundColor: theme.backgroundDefault }]}
+              style={[
+                styles.toggleAllButton,
+                { backgroundColor: theme.backgroundDefault },
+              ]}
               onPress={() => handleToggleAllInCity(item.zones)}
             >
               <Feather
@@ -221,14 +278,19 @@ export function GeoFenceAlerts({ onZoneToggle }: GeoFenceAlertsProps) {
   return (
     <View style={styles.container}>
       <View style={styles.header}>
-        <View style={[styles.headerIcon, { backgroundColor: Colors.warning + "20" }]}>
+        <View
+          style={[
+            styles.headerIcon,
+            { backgroundColor: Colors.warning + "20" },
+          ]}
+        >
           <Feather name="bell" size={24} color={Colors.warning} />
         </View>
         <Spacer size="md" />
         <ThemedText type="h4">Location Alerts</ThemedText>
         <Spacer size="xs" />
         <ThemedText type="small" secondary style={{ textAlign: "center" }}>
-          Get notified when food trucks arrive in your favorite areas
+          Get notified when your favorite food trucks arrive in these areas
         </ThemedText>
       </View>
 
@@ -236,10 +298,19 @@ export function GeoFenceAlerts({ onZoneToggle }: GeoFenceAlertsProps) {
 
       {subscribedZones.size > 0 && (
         <>
-          <View style={[styles.summaryCard, { backgroundColor: Colors.success + "10" }]}>
+          <View
+            style={[
+              styles.summaryCard,
+              { backgroundColor: Colors.success + "10" },
+            ]}
+          >
             <Feather name="check-circle" size={20} color={Colors.success} />
-            <ThemedText type="small" style={{ marginLeft: Spacing.sm, color: Colors.success }}>
-              You'll be notified for {subscribedZones.size} zone{subscribedZones.size !== 1 ? "s" : ""}
+            <ThemedText
+              type="small"
+              style={{ marginLeft: Spacing.sm, color: Colors.success }}
+            >
+              You'll be notified for {subscribedZones.size} zone
+              {subscribedZones.size !== 1 ? "s" : ""}
             </ThemedText>
           </View>
           <Spacer size="lg" />
@@ -257,11 +328,17 @@ export function GeoFenceAlerts({ onZoneToggle }: GeoFenceAlertsProps) {
 
       <Spacer size="lg" />
 
-      <View style={[styles.infoBox, { backgroundColor: theme.backgroundSecondary }]}>
+      <View
+        style={[styles.infoBox, { backgroundColor: theme.backgroundSecondary }]}
+      >
         <Feather name="info" size={16} color={Colors.primary} />
-        <ThemedText type="caption" secondary style={{ marginLeft: Spacing.sm, flex: 1 }}>
-          Alerts are sent when a food truck goes live within the zone radius. You can unsubscribe
-          anytime.
+        <ThemedText
+          type="caption"
+          secondary
+          style={{ marginLeft: Spacing.sm, flex: 1 }}
+        >
+          Alerts are sent when one of your favorite trucks goes live in or
+          drives into a zone. You can unsubscribe anytime.
         </ThemedText>
       </View>
     </View>
@@ -24,15 +24,21 @@ interface GoLiveToggleProps {
   onStatusChange?: (isLive: boolean) => void;
 }
 
-export function GoLiveToggle({ compact = false, onStatusChange }: GoLiveToggleProps) {
+export function GoLiveToggle({
+  compact = false,
+  onStatusChange,
+}: GoLiveToggleProps) {
   const { theme } = useTheme();
-  const { user } = useAuth();
+  const { user, accessToken } = useAuth();
   const [isLive, setIsLive] = useState(false);
   const [loading, setLoading] = useState(false);
   const [showEndModal, setShowEndModal] = useState(false);
   const [customersServed, setCustomersServed] = useState("");
   const [revenue, setRevenue] = useState("");
-  const [currentLocation, setCurrentLocation] = useState<TruckLocation | null>(null);
+  const [notes, setNotes] = useState("");
+  const [currentLocation, setCurrentLocation] = useState<TruckLocation | null>(
+    null,
+  );
   const [liveTime, setLiveTime] = useState(0);
 
   const pulseAnim = useRef(new Animated.Value(1)).current;
@@ -72,7 +78,7 @@ export function GoLiveToggle({ compact = false, onStatusChange }: GoLiveTogglePr
             duration: 1000,
             useNativeDriver: true,
           }),
-        ])
+        ]),
       );
       pulse.start();
       return () => pulse.stop();
@@ -103,7 +109,7 @@ export function GoLiveToggle({ compact = false, onStatusChange }: GoLiveTogglePr
   };
 
   const handleToggle = async () => {
-    if (!user?.id || !user?.name) {
+    if (!user?.id || !user?.name || !accessToken) {
       Alert.alert("Error", "Please sign in to go live");
       return;
     }
@@ -118,7 +124,11 @@ export function GoLiveToggle({ compact = false, onStatusChange }: GoLiveTogglePr
         setLoading(false);
       } else {
         // Go live
-        const success = await foodTruckService.goLive(user.id, user.name);
+        const success = await foodTruckService.goLive(
+          user.id,
+          user.name,
+          accessToken,
+        );
         if (success) {
           setIsLive(true);
           onStatusChange?.(true);
@@ -130,7 +140,10 @@ export function GoLiveToggle({ compact = false, onStatusChange }: GoLiveTogglePr
             useNativeDriver: true,
           }).start();
         } else {
-          Alert.alert("Error", "Could not access your location. Please enable location services.");
+          Alert.alert(
+            "Error",
+            "Could not go live. Check that location services are enabled and you have a vendor listing.",
+          );
         }
         setLoading(false);
       }
@@ -141,18 +154,20 @@ export function GoLiveToggle({ compact = false, onStatusChange }: GoLiveTogglePr
   };
 
   const handleEndSession = async () => {
-    if (!user?.id) return;
+    if (!user?.id || !accessToken) return;
 
     setLoading(true);
-    await foodTruckService.goOffline(user.id, {
+    await foodTruckService.goOffline(user.id, accessToken, {
       customersServed: customersServed ? parseInt(customersServed) : undefined,
       revenue: revenue ? parseFloat(revenue) : undefined,
+      notes: notes.trim() || undefined,
     });
 
     setIsLive(false);
     setShowEndModal(false);
     setCustomersServed("");
     setRevenue("");
+    setNotes("");
     onStatusChange?.(false);
     Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     setLoading(false);
@@ -169,13 +184,19 @@ export function GoLiveToggle({ compact = false, onStatusChange }: GoLiveTogglePr
       <Pressable
         style={[
           styles.compactContainer,
-          { backgroundColor: isLive ? Colors.success : theme.backgroundSecondary },
+          {
+            backgroundColor: isLive
+              ? Colors.success
+              : theme.backgroundSecondary,
+          },
         ]}
         onPress={handleToggle}
         disabled={loading}
       >
         {isLive && (
-          <Animated.View style={[styles.liveDot, { transform: [{ scale: pulseAnim }] }]} />
+          <Animated.View
+            style={[styles.liveDot, { transform: [{ scale: pulseAnim }] }]}
+          />
         )}
         <ThemedText
           type="small"
@@ -206,7 +227,11 @@ export function GoLiveToggle({ compact = false, onStatusChange }: GoLiveTogglePr
             <View
               style={[
                 styles.statusDot,
-                { backgroundColor: isLive ? Colors.success : theme.textSecondary },
+                {
+                  backgroundColor: isLive
+                    ? Colors.success
+                    : theme.textSecondary,
+                },
               ]}
             />
             <ThemedText type="body" style={{ fontWeight: "600" }}>
@@ -214,9 +239,17 @@ export function GoLiveToggle({ compact = false, onStatusChange }: GoLiveTogglePr
             </ThemedText>
           </View>
           {isLive && (
-            <View style={[styles.timeBadge, { backgroundColor: Colors.success + "20" }]}>
+            <View
+              style={[
+                styles.timeBadge,
+                { backgroundColor: Colors.success + "20" },
+              ]}
+            >
               <Feather name="clock" size={12} color={Colors.success} />
-              <ThemedText type="caption" style={{ color: Colors.success, marginLeft: 4 }}>
+              <ThemedText
+                type="caption"
+                style={{ color: Colors.success, marginLeft: 4 }}
+              >
                 {formatLiveTime(liveTime)}
               </ThemedText>
             </View>
@@ -226,9 +259,18 @@ export function GoLiveToggle({ compact = false, onStatusChange }: GoLiveTogglePr
         {isLive && currentLocation && (
           <>
             <Spacer size="md" />
-            <View style={[styles.locationInfo, { backgroundColor: theme.backgroundDefault }]}>
+            <View
+              style={[
+                styles.locationInfo,
+                { backgroundColor: theme.backgroundDefault },
+              ]}
+            >
               <Feather name="map-pin" size={16} color={Colors.primary} />
-              <ThemedText type="small" style={{ marginLeft: Spacing.sm, flex: 1 }} numberOfLines={2}>
+              <ThemedText
+                type="small"
+                style={{ marginLeft: Spacing.sm, flex: 1 }}
+                numberOfLines={2}
+              >
                 {currentLocation.address || "Location detected"}
               </ThemedText>
             </View>
@@ -287,7 +329,8 @@ export function GoLiveToggle({ compact = false, onStatusChange }: GoLiveTogglePr
             <Spacer size="lg" />
 
             <ThemedText type="body" secondary>
-              Add some stats to track your performance at this location (optional):
+              Add some stats to track your performance at this location
+              (optional):
             </ThemedText>
 
             <Spacer size="lg" />
@@ -300,7 +343,10 @@ export function GoLiveToggle({ compact = false, onStatusChange }: GoLiveTogglePr
               <TextInput
                 style={[
                   styles.input,
-                  { backgroundColor: theme.backgroundDefault, color: theme.text },
+                  {
+                    backgroundColor: theme.backgroundDefault,
+                    color: theme.text,
+                  },
                 ]}
                 placeholder="e.g., 45"
                 placeholderTextColor={theme.textSecondary}
@@ -320,7 +366,10 @@ export function GoLiveToggle({ compact = false, onStatusChange }: GoLiveTogglePr
               <TextInput
                 style={[
                   styles.input,
-                  { backgroundColor: theme.backgroundDefault, color: theme.text },
+                  {
+                    backgroundColor: theme.backgroundDefault,
+                    color: theme.text,
+                  },
                 ]}
                 placeholder="e.g., 350.00"
                 placeholderTextColor={theme.textSecondary}
@@ -330,11 +379,37 @@ export function GoLiveToggle({ compact = false, onStatusChange }: GoLiveTogglePr
               />
             </View>
 
+            <Spacer size="md" />
+
+            <View style={styles.inputGroup}>
+              <ThemedText type="small" style={{ fontWeight: "600" }}>
+                Notes
+              </ThemedText>
+              <Spacer size="xs" />
+              <TextInput
+                style={[
+                  styles.input,
+                  {
+                    backgroundColor: theme.backgroundDefault,
+                    color: theme.text,
+                  },
+                ]}
+                placeholder="e.g., Busy lunch rush, parking was easy"
+                placeholderTextColor={theme.textSecondary}
+                value={notes}
+                onChangeText={setNotes}
+                maxLength={500}
+              />
+            </View>
+
             <Spacer size="xl" />
 
             <View style={styles.modalButtons}>
               <Pressable
-                style={[styles.modalButton, { backgroundColor: theme.backgroundSecondary }]}
+                style={[
+                  styles.modalButton,
+                  { backgroundColor: theme.backgroundSecondary },
+                ]}
                 onPress={() => setShowEndModal(false)}
               >
                 <ThemedText type="body">Cancel</ThemedText>
@@ -1,28 +1,35 @@
-import React, { useEffect } from 'react';
-import { View, StyleSheet, FlatList, Image, Pressable, Platform } from 'react-native';
+import React, { useEffect } from "react";
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  Image,
+  Pressable,
+  Platform,
+} from "react-native";
 import Animated, {
   useSharedValue,
   useAnimatedStyle,
   withDelay,
   withSpring,
   interpolate,
-} from 'react-native-reanimated';
-import * as Haptics from 'expo-haptics';
-import { Feather } from '@expo/vector-icons';
-import { LinearGradient } from 'expo-linear-gradient';
-import { ThemedText } from './ThemedText';
-import { Colors } from '@/constants/Colors';
+} from "react-native-reanimated";
+import * as Haptics from "expo-haptics";
+import { Feather } from "@expo/vector-icons";
+import { LinearGradient } from "expo-linear-gradient";
+import { ThemedText } from "./ThemedText";
+import { Colors } from "@/constants/Colors";
 
-interface LeaderboardEntry {
+export interface LeaderboardEntry {
   id: string;
   rank: number;
   name: string;
   avatar?: string;
-  points: number;
+  points: number; // Or dollars saved, with valueFormat="savings"
   level: number;
   badge?: string;
   isCurrentUser?: boolean;
-  change?: 'up' | 'down' | 'same';
+  change?: "up" | "down" | "same";
   changeAmount?: number;
 }
 
@@ -30,25 +37,39 @@ interface LeaderboardProps {
   data: LeaderboardEntry[];
   title?: string;
   subtitle?: string;
-  type?: 'customers' | 'vendors';
+  type?: "customers" | "vendors";
+  valueFormat?: "points" | "savings";
   onEntryPress?: (entry: LeaderboardEntry) => void;
 }
 
 const RANK_COLORS: Record<number, readonly [string, string]> = {
-  1: ['#FFD700', '#FFA500'] as const, // Gold
-  2: ['#C0C0C0', '#A0A0A0'] as const, // Silver
-  3: ['#CD7F32', '#8B4513'] as const, // Bronze
+  1: ["#FFD700", "#FFA500"] as const, // Gold
+  2: ["#C0C0C0", "#A0A0A0"] as const, // Silver
+  3: ["#CD7F32", "#8B4513"] as const, // Bronze
 };
 
 const AnimatedPressable = Animated.createAnimatedComponent(Pressable);
 
+function formatValue(
+  value: number,
+  valueFormat: "points" | "savings",
+  short = false,
+): string {
+  if (valueFormat === "savings") {
+    return `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}${short ? "" : " saved"}`;
+  }
+  return `${value.toLocaleString()}${short ? "" : " pts"}`;
+}
+
 function LeaderboardItem({
   item,
   index,
+  valueFormat,
   onPress,
 }: {
   item: LeaderboardEntry;
   index: number;
+  valueFormat: "points" | "savings";
   onPress?: () => void;
 }) {
   const animValue = useSharedValue(0);
@@ -66,10 +87,12 @@ function LeaderboardItem({
   }));
 
   const isTopThree = item.rank <= 3;
-  const gradientColors = RANK_COLORS[item.rank as 1 | 2 | 3] || ([Colors.dark.card, Colors.dark.card] as const);
+  const gradientColors =
+    RANK_COLORS[item.rank as 1 | 2 | 3] ||
+    ([Colors.dark.card, Colors.dark.card] as const);
 
   const handlePress = () => {
-    if (Platform.OS !== 'web') {
+    if (Platform.OS !== "web") {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     }
     onPress?.();
@@ -91,7 +114,9 @@ function LeaderboardItem({
           end={{ x: 1, y: 1 }}
           style={styles.rankBadge}
         >
-          {item.rank === 1 && <ThemedText style={styles.crownEmoji}>👑</ThemedText>}
+          {item.rank === 1 && (
+            <ThemedText style={styles.crownEmoji}>👑</ThemedText>
+          )}
           <ThemedText style={styles.rankText}>{item.rank}</ThemedText>
         </LinearGradient>
       ) : (
@@ -105,7 +130,12 @@ function LeaderboardItem({
         {item.avatar ? (
           <Image source={{ uri: item.avatar }} style={styles.avatar} />
         ) : (
-          <View style={[styles.avatarPlaceholder, { backgroundColor: Colors.primary }]}>
+          <View
+            style={[
+              styles.avatarPlaceholder,
+              { backgroundColor: Colors.primary },
+            ]}
+          >
             <ThemedText style={styles.avatarInitial}>
               {item.name.charAt(0).toUpperCase()}
             </ThemedText>
@@ -136,22 +166,24 @@ function LeaderboardItem({
         <View style={styles.statsRow}>
           <ThemedText style={styles.level}>Level {item.level}</ThemedText>
           <View style={styles.dot} />
-          <ThemedText style={styles.points}>{item.points.toLocaleString()} pts</ThemedText>
+          <ThemedText style={styles.points}>
+            {formatValue(item.points, valueFormat)}
+          </ThemedText>
         </View>
       </View>
 
       {/* Change indicator */}
-      {item.change && item.change !== 'same' && (
+      {item.change && item.change !== "same" && (
         <View style={styles.changeContainer}>
           <Feather
-            name={item.change === 'up' ? 'arrow-up' : 'arrow-down'}
+            name={item.change === "up" ? "arrow-up" : "arrow-down"}
             size={14}
-            color={item.change === 'up' ? Colors.success : Colors.error}
+            color={item.change === "up" ? Colors.success : Colors.error}
           />
           <ThemedText
             style={[
               styles.changeAmount,
-              { color: item.change === 'up' ? Colors.success : Colors.error },
+              { color: item.change === "up" ? Colors.success : Colors.error },
             ]}
           >
             {item.changeAmount}
@@ -162,9 +194,16 @@ function LeaderboardItem({
   );
 }
 
-export function Leaderboard({ data, title, subtitle, type = 'customers', onEntryPress }: LeaderboardProps) {
+export function Leaderboard({
+  data,
+  title,
+  subtitle,
+  type = "customers",
+  valueFormat = "points",
+  onEntryPress,
+}: LeaderboardProps) {
   // Get current user for highlighting
-  const currentUser = data.find(d => d.isCurrentUser);
+  const currentUser = data.find((d) => d.isCurrentUser);
 
   return (
     <View style={styles.container}>
@@ -177,7 +216,9 @@ export function Leaderboard({ data, title, subtitle, type = 'customers', onEntry
               <ThemedText style={styles.title}>{title}</ThemedText>
             </View>
           )}
-          {subtitle && <ThemedText style={styles.subtitle}>{subtitle}</ThemedText>}
+          {subtitle && (
+            <ThemedText style={styles.subtitle}>{subtitle}</ThemedText>
+          )}
         </View>
       )}
 
@@ -221,14 +262,18 @@ export function Leaderboard({ data, title, subtitle, type = 'customers', onEntry
                 {actualEntry.name}
               </ThemedText>
               <ThemedText style={styles.podiumPoints}>
-                {actualEntry.points.toLocaleString()}
+                {formatValue(actualEntry.points, valueFormat, true)}
               </ThemedText>
               <LinearGradient
-                colors={RANK_COLORS[(position === 1 ? 1 : position === 0 ? 2 : 3) as 1 | 2 | 3]}
+                colors={
+                  RANK_COLORS[
+                    (position === 1 ? 1 : position === 0 ? 2 : 3) as 1 | 2 | 3
+                  ]
+                }
                 style={[styles.podiumBar, { height: heights[position] }]}
               >
                 <ThemedText style={styles.podiumRank}>
-                  {position === 1 ? '1' : position === 0 ? '2' : '3'}
+                  {position === 1 ? "1" : position === 0 ? "2" : "3"}
                 </ThemedText>
               </LinearGradient>
             </View>
@@ -244,6 +289,7 @@ export function Leaderboard({ data, title, subtitle, type = 'customers', onEntry
           <LeaderboardItem
             item={item}
             index={index}
+            valueFormat={valueFormat}
             onPress={() => onEntryPress?.(item)}
           />
         )}
@@ -255,7 +301,8 @@ export function Leaderboard({ data, title, subtitle, type = 'customers', onEntry
       {currentUser && currentUser.rank > 10 && (
         <View style={styles.currentUserSummary}>
           <ThemedText style={styles.currentUserSummaryText}>
-            Your rank: #{currentUser.rank} with {currentUser.points.toLocaleString()} points
+            Your rank: #{currentUser.rank} with{" "}
+            {formatValue(currentUser.points, valueFormat)}
           </ThemedText>
           <Feather name="chevron-up" size={16} color={Colors.primary} />
         </View>
@@ -273,13 +320,13 @@ const styles = StyleSheet.create({
     paddingVertical: 12,
   },
   titleRow: {
-    flexDirection: 'row',
-    alignItems: 'center',
+    flexDirection: "row",
+    alignItems: "center",
     gap: 8,
   },
   title: {
     fontSize: 24,
-    fontWeight: '800',
+    fontWeight: "800",
     color: Colors.dark.text,
   },
   subtitle: {
@@ -288,20 +335,20 @@ const styles = StyleSheet.create({
     marginTop: 4,
   },
   podium: {
-    flexDirection: 'row',
-    justifyContent: 'center',
-    alignItems: 'flex-end',
+    flexDirection: "row",
+    justifyContent: "center",
+    alignItems: "flex-end",
     paddingHorizontal: 24,
     paddingVertical: 16,
     marginBottom: 16,
   },
   podiumItem: {
-    alignItems: 'center',
+    alignItems: "center",
     flex: 1,
     maxWidth: 100,
   },
   podiumAvatarContainer: {
-    position: 'relative',
+    position: "relative",
     marginBottom: 8,
   },
   podiumAvatar: {
@@ -316,33 +363,33 @@ const styles = StyleSheet.create({
     height: 64,
     borderRadius: 32,
     borderWidth: 3,
-    borderColor: '#FFD700',
+    borderColor: "#FFD700",
   },
   podiumAvatarPlaceholder: {
     width: 48,
     height: 48,
     borderRadius: 24,
     backgroundColor: Colors.primary,
-    justifyContent: 'center',
-    alignItems: 'center',
+    justifyContent: "center",
+    alignItems: "center",
   },
   podiumInitial: {
     fontSize: 20,
-    fontWeight: '700',
-    color: '#fff',
+    fontWeight: "700",
+    color: "#fff",
   },
   podiumCrown: {
-    position: 'absolute',
+    position: "absolute",
     top: -16,
-    left: '50%',
+    left: "50%",
     marginLeft: -10,
     fontSize: 20,
   },
   podiumName: {
     fontSize: 12,
-    fontWeight: '600',
+    fontWeight: "600",
     color: Colors.dark.text,
-    textAlign: 'center',
+    textAlign: "center",
     marginBottom: 2,
   },
   podiumPoints: {
@@ -351,30 +398,30 @@ const styles = StyleSheet.create({
     marginBottom: 8,
   },
   podiumBar: {
-    width: '80%',
+    width: "80%",
     borderTopLeftRadius: 8,
     borderTopRightRadius: 8,
-    justifyContent: 'center',
-    alignItems: 'center',
+    justifyContent: "center",
+    alignItems: "center",
   },
   podiumRank: {
     fontSize: 24,
-    fontWeight: '900',
-    color: '#fff',
+    fontWeight: "900",
+    color: "#fff",
   },
   listContent: {
     paddingHorizontal: 16,
   },
   itemContainer: {
-    flexDirection: 'row',
-    alignItems: 'center',
+    flexDirection: "row",
+    alignItems: "center",
     backgroundColor: Colors.dark.card,
     borderRadius: 12,
     padding: 12,
     marginBottom: 8,
   },
   currentUserContainer: {
-    backgroundColor: 'rgba(255, 107, 53, 0.15)',
+    backgroundColor: "rgba(255, 107, 53, 0.15)",
     borderWidth: 1,
     borderColor: Colors.primary,
   },
@@ -382,36 +429,36 @@ const styles = StyleSheet.create({
     width: 36,
     height: 36,
     borderRadius: 18,
-    justifyContent: 'center',
-    alignItems: 'center',
+    justifyContent: "center",
+    alignItems: "center",
     marginRight: 12,
   },
   crownEmoji: {
-    position: 'absolute',
+    position: "absolute",
     top: -8,
     fontSize: 12,
   },
   rankText: {
     fontSize: 14,
-    fontWeight: '800',
-    color: '#fff',
+    fontWeight: "800",
+    color: "#fff",
   },
   rankBadgeNormal: {
     width: 36,
     height: 36,
     borderRadius: 18,
     backgroundColor: Colors.dark.background,
-    justifyContent: 'center',
-    alignItems: 'center',
+    justifyContent: "center",
+    alignItems: "center",
     marginRight: 12,
   },
   rankTextNormal: {
     fontSize: 14,
-    fontWeight: '700',
+    fontWeight: "700",
     color: Colors.textSecondary,
   },
   avatarContainer: {
-    position: 'relative',
+    position: "relative",
     marginRight: 12,
   },
   avatar: {
@@ -423,24 +470,24 @@ const styles = StyleSheet.create({
     width: 44,
     height: 44,
     borderRadius: 22,
-    justifyContent: 'center',
-    alignItems: 'center',
+    justifyContent: "center",
+    alignItems: "center",
   },
   avatarInitial: {
     fontSize: 18,
-    fontWeight: '700',
-    color: '#fff',
+    fontWeight: "700",
+    color: "#fff",
   },
   badgeContainer: {
-    position: 'absolute',
+    position: "absolute",
     bottom: -4,
     right: -4,
     width: 20,
     height: 20,
     borderRadius: 10,
     backgroundColor: Colors.dark.card,
-    justifyContent: 'center',
-    alignItems: 'center',
+    justifyContent: "center",
+    alignItems: "center",
   },
   badgeEmoji: {
     fontSize: 12,
@@ -449,13 +496,13 @@ const styles = StyleSheet.create({
     flex: 1,
   },
   nameRow: {
-    flexDirection: 'row',
-    alignItems: 'center',
+    flexDirection: "row",
+    alignItems: "center",
     gap: 8,
   },
   name: {
     fontSize: 15,
-    fontWeight: '600',
+    fontWeight: "600",
     color: Colors.dark.text,
   },
   currentUserName: {
@@ -469,12 +516,12 @@ const styles = StyleSheet.create({
   },
   youText: {
     fontSize: 10,
-    fontWeight: '700',
-    color: '#fff',
+    fontWeight: "700",
+    color: "#fff",
   },
   statsRow: {
-    flexDirection: 'row',
-    alignItems: 'center',
+    flexDirection: "row",
+    alignItems: "center",
     marginTop: 4,
   },
   level: {
@@ -491,21 +538,21 @@ const styles = StyleSheet.create({
   points: {
     fontSize: 12,
     color: Colors.accent,
-    fontWeight: '600',
+    fontWeight: "600",
   },
   changeContainer: {
-    flexDirection: 'row',
-    alignItems: 'center',
+    flexDirection: "row",
+    alignItems: "center",
     gap: 2,
   },
   changeAmount: {
     fontSize: 12,
-    fontWeight: '600',
+    fontWeight: "600",
   },
   currentUserSummary: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    justifyContent: 'center',
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
     padding: 12,
     backgroundColor: Colors.dark.card,
     borderTopWidth: 1,
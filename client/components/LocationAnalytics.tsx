@@ -1,13 +1,19 @@
 import React, { useState, useEffect } from "react";
-import { View, StyleSheet, Pressable, FlatList, ScrollView } from "react-native";
+import {
+  View,
+  StyleSheet,
+  Pressable,
+  FlatList,
+  ScrollView,
+  ActivityIndicator,
+} from "react-native";
 import { Feather } from "@expo/vector-icons";
 import { ThemedText } from "./ThemedText";
 import { Card } from "./Card";
 import { Spacer } from "./Spacer";
 import { useTheme } from "@/hooks/useTheme";
-import { useAuth } from "@/lib/auth-context";
+import { useData } from "@/lib/data-context";
 import {
-  foodTruckService,
   LocationAnalytics as LocationAnalyticsType,
   LocationHistoryEntry,
 } from "@/lib/food-truck-service";
@@ -17,17 +23,35 @@ type TabType = "best" | "history";
 
 export function LocationAnalytics() {
   const { theme } = useTheme();
-  const { user } = useAuth();
+  const { fetchLocationAnalytics, fetchLocationHistory } = useData();
   const [activeTab, setActiveTab] = useState<TabType>("best");
-  const [bestLocations, setBestLocations] = useState<LocationAnalyticsType[]>([]);
+  const [bestLocations, setBestLocations] = useState<LocationAnalyticsType[]>(
+    [],
+  );
   const [history, setHistory] = useState<LocationHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    if (user?.id) {
-      setBestLocations(foodTruckService.getBestLocations(user.id, 10));
-      setHistory(foodTruckService.getLocationHistory(user.id));
-    }
-  }, [user?.id]);
+    let cancelled = false;
+    Promise.all([fetchLocationAnalytics(10), fetchLocationHistory()])
+      .then(([spots, sessions]) => {
+        if (cancelled) return;
+        setBestLocations(spots);
+        setHistory(sessions);
+        setError(null);
+      })
+      .catch((err: any) => {
+        if (!cancelled)
+          setError(err?.message || "Failed to load location data");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [fetchLocationAnalytics, fetchLocationHistory]);
 
   const renderStars = (rating: number) => {
     return (
@@ -71,7 +95,13 @@ export function LocationAnalytics() {
     return `${mins}m`;
   };
 
-  const renderBestLocation = ({ item, index }: { item: LocationAnalyticsType; index: number }) => (
+  const renderBestLocation = ({
+    item,
+    index,
+  }: {
+    item: LocationAnalyticsType;
+    index: number;
+  }) => (
     <Card style={styles.locationCard}>
       <View style={styles.rankBadge}>
         <ThemedText type="caption" style={{ color: "#fff", fontWeight: "700" }}>
@@ -80,11 +110,20 @@ export function LocationAnalytics() {
       </View>
 
       <View style={styles.locationHeader}>
-        <View style={[styles.locationIcon, { backgroundColor: Colors.primary + "20" }]}>
+        <View
+          style={[
+            styles.locationIcon,
+            { backgroundColor: Colors.primary + "20" },
+          ]}
+        >
           <Feather name="map-pin" size={20} color={Colors.primary} />
         </View>
         <View style={styles.locationInfo}>
-          <ThemedText type="body" style={{ fontWeight: "600" }} numberOfLines={1}>
+          <ThemedText
+            type="body"
+            style={{ fontWeight: "600" }}
+            numberOfLines={1}
+          >
             {item.address}
           </ThemedText>
           <ThemedText type="caption" secondary>
@@ -105,7 +144,10 @@ export function LocationAnalytics() {
         </View>
         <View style={styles.statItem}>
           <Feather name="dollar-sign" size={14} color={Colors.success} />
-          <ThemedText type="small" style={{ marginLeft: 4, color: Colors.success }}>
+          <ThemedText
+            type="small"
+            style={{ marginLeft: 4, color: Colors.success }}
+          >
             {formatCurrency(item.avgRevenue)} avg
           </ThemedText>
         </View>
@@ -113,7 +155,12 @@ export function LocationAnalytics() {
 
       <Spacer size="md" />
 
-      <View style={[styles.insightBox, { backgroundColor: theme.backgroundDefault }]}>
+      <View
+        style={[
+          styles.insightBox,
+          { backgroundColor: theme.backgroundDefault },
+        ]}
+      >
         <View style={styles.insightRow}>
           <Feather name="calendar" size={14} color={Colors.primary} />
           <ThemedText type="caption" style={{ marginLeft: Spacing.sm }}>
@@ -137,9 +184,17 @@ export function LocationAnalytics() {
           <ThemedText type="small" style={{ fontWeight: "600" }}>
             {formatDate(item.startTime)}
           </ThemedText>
-          <View style={[styles.durationBadge, { backgroundColor: Colors.secondary + "20" }]}>
+          <View
+            style={[
+              styles.durationBadge,
+              { backgroundColor: Colors.secondary + "20" },
+            ]}
+          >
             <Feather name="clock" size={10} color={Colors.secondary} />
-            <ThemedText type="caption" style={{ marginLeft: 2, color: Colors.secondary }}>
+            <ThemedText
+              type="caption"
+              style={{ marginLeft: 2, color: Colors.secondary }}
+            >
               {formatDuration(item.startTime, item.endTime)}
             </ThemedText>
           </View>
@@ -157,8 +212,14 @@ export function LocationAnalytics() {
 
       <View style={styles.historyLocation}>
         <Feather name="map-pin" size={14} color={theme.textSecondary} />
-        <ThemedText type="small" secondary style={{ marginLeft: Spacing.xs, flex: 1 }} numberOfLines={1}>
-          {item.address || `${item.latitude.toFixed(4)}, ${item.longitude.toFixed(4)}`}
+        <ThemedText
+          type="small"
+          secondary
+          style={{ marginLeft: Spacing.xs, flex: 1 }}
+          numberOfLines={1}
+        >
+          {item.address ||
+            `${item.latitude.toFixed(4)}, ${item.longitude.toFixed(4)}`}
         </ThemedText>
       </View>
 
@@ -177,7 +238,10 @@ export function LocationAnalytics() {
             {item.revenue && (
               <View style={styles.historyStatItem}>
                 <Feather name="dollar-sign" size={12} color={Colors.success} />
-                <ThemedText type="caption" style={{ marginLeft: 4, color: Colors.success }}>
+                <ThemedText
+                  type="caption"
+                  style={{ marginLeft: 4, color: Colors.success }}
+                >
                   {formatCurrency(item.revenue)}
                 </ThemedText>
               </View>
@@ -190,7 +254,7 @@ export function LocationAnalytics() {
         <>
           <Spacer size="sm" />
           <ThemedText type="caption" secondary style={{ fontStyle: "italic" }}>
-            "{item.notes}"
+            {`"${item.notes}"`}
           </ThemedText>
         </>
       )}
@@ -251,7 +315,17 @@ export function LocationAnalytics() {
 
       <Spacer size="lg" />
 
-      {activeTab === "best" ? (
+      {loading ? (
+        <ActivityIndicator color={Colors.primary} />
+      ) : error ? (
+        <Card style={styles.emptyCard}>
+          <Feather name="alert-circle" size={40} color={theme.textSecondary} />
+          <Spacer size="md" />
+          <ThemedText type="caption" secondary style={{ textAlign: "center" }}>
+            {error}
+          </ThemedText>
+        </Card>
+      ) : activeTab === "best" ? (
         bestLocations.length > 0 ? (
           <FlatList
             data={bestLocations}
@@ -268,7 +342,11 @@ export function LocationAnalytics() {
             <ThemedText type="body" secondary>
               No location data yet
             </ThemedText>
-            <ThemedText type="caption" secondary style={{ textAlign: "center" }}>
+            <ThemedText
+              type="caption"
+              secondary
+              style={{ textAlign: "center" }}
+            >
               Go live at different spots to see your best performing locations
             </ThemedText>
           </Card>
@@ -0,0 +1,140 @@
+import React from "react";
+import { View, StyleSheet, Image, ScrollView, Pressable } from "react-native";
+import { Feather } from "@expo/vector-icons";
+import { ThemedText } from "@/components/ThemedText";
+import { Card } from "@/components/Card";
+import { useTheme } from "@/hooks/useTheme";
+import { VendorReview } from "@/lib/data-context";
+import { Colors, Spacing, BorderRadius } from "@/constants/theme";
+
+interface StarRatingProps {
+  rating: number;
+  size?: number;
+  // When set, stars become tappable (review form)
+  onChange?: (rating: number) => void;
+}
+
+export function StarRating({ rating, size = 14, onChange }: StarRatingProps) {
+  const { theme } = useTheme();
+
+  return (
+    <View style={styles.starRow}>
+      {[1, 2, 3, 4, 5].map((star) => {
+        const icon = (
+          <Feather
+            name="star"
+            size={size}
+            color={
+              star <= Math.round(rating) ? Colors.accent : theme.textSecondary
+            }
+            style={{ opacity: star <= Math.round(rating) ? 1 : 0.3 }}
+          />
+        );
+        return onChange ? (
+          <Pressable
+            key={star}
+            onPress={() => onChange(star)}
+            hitSlop={6}
+            style={styles.starButton}
+          >
+            {icon}
+          </Pressable>
+        ) : (
+          <View key={star}>{icon}</View>
+        );
+      })}
+    </View>
+  );
+}
+
+interface ReviewCardProps {
+  review: VendorReview;
+  // Extra content under the review, e.g. the vendor's reply form
+  footer?: React.ReactNode;
+}
+
+export function ReviewCard({ review, footer }: ReviewCardProps) {
+  const { theme } = useTheme();
+
+  return (
+    <Card style={styles.card}>
+      <View style={styles.header}>
+        <ThemedText type="body" style={{ fontWeight: "600" }}>
+          {review.authorName}
+        </ThemedText>
+        <ThemedText type="caption" secondary>
+          {new Date(review.createdAt).toLocaleDateString()}
+        </ThemedText>
+      </View>
+      <StarRating rating={review.rating} />
+      <ThemedText type="body" style={styles.text}>
+        {review.text}
+      </ThemedText>
+
+      {review.photoUrls.length > 0 ? (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.photoRow}
+        >
+          {review.photoUrls.map((url) => (
+            <Image key={url} source={{ uri: url }} style={styles.photo} />
+          ))}
+        </ScrollView>
+      ) : null}
+
+      {review.reply ? (
+        <View
+          style={[styles.reply, { backgroundColor: theme.backgroundSecondary }]}
+        >
+          <ThemedText
+            type="caption"
+            style={{ color: Colors.primary, fontWeight: "600" }}
+          >
+            Response from the vendor
+          </ThemedText>
+          <ThemedText type="small">{review.reply}</ThemedText>
+        </View>
+      ) : null}
+
+      {footer}
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  starRow: {
+    flexDirection: "row",
+    gap: 2,
+  },
+  starButton: {
+    paddingHorizontal: Spacing.xs,
+  },
+  card: {
+    marginBottom: Spacing.md,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: Spacing.xs,
+  },
+  text: {
+    marginTop: Spacing.sm,
+  },
+  photoRow: {
+    marginTop: Spacing.sm,
+  },
+  photo: {
+    width: 72,
+    height: 72,
+    borderRadius: BorderRadius.xs,
+    marginRight: Spacing.sm,
+  },
+  reply: {
+    marginTop: Spacing.md,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.xs,
+    gap: Spacing.xs,
+  },
+});
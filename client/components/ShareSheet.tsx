@@ -71,9 +71,16 @@ interface ShareSheetProps {
   onClose: () => void;
   truckData: FoodTruckShareData;
   title?: string;
+  onShared?: (platform: SharePlatform) => void;
 }
 
-export function ShareSheet({ visible, onClose, truckData, title = "Share this food truck" }: ShareSheetProps) {
+export function ShareSheet({
+  visible,
+  onClose,
+  truckData,
+  title = "Share this food truck",
+  onShared,
+}: ShareSheetProps) {
   const { theme } = useTheme();
   const insets = useSafeAreaInsets();
 
@@ -82,17 +89,26 @@ export function ShareSheet({ visible, onClose, truckData, title = "Share this fo
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     }
 
-    await socialShareService.shareFoodTruck(truckData, platform);
+    const shared = await socialShareService.shareFoodTruck(truckData, platform);
+    if (shared) onShared?.(platform);
     onClose();
   };
 
   return (
-    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent
+      onRequestClose={onClose}
+    >
       <Pressable style={styles.overlay} onPress={onClose}>
         <Pressable
           style={[
             styles.sheet,
-            { backgroundColor: theme.backgroundDefault, paddingBottom: insets.bottom + Spacing.lg },
+            {
+              backgroundColor: theme.backgroundDefault,
+              paddingBottom: insets.bottom + Spacing.lg,
+            },
           ]}
           onPress={(e) => e.stopPropagation()}
         >
@@ -110,12 +126,21 @@ export function ShareSheet({ visible, onClose, truckData, title = "Share this fo
           </View>
 
           {/* Preview */}
-          <View style={[styles.preview, { backgroundColor: theme.backgroundSecondary }]}>
+          <View
+            style={[
+              styles.preview,
+              { backgroundColor: theme.backgroundSecondary },
+            ]}
+          >
             <View style={styles.previewIcon}>
               <Feather name="truck" size={24} color={Colors.primary} />
             </View>
             <View style={styles.previewContent}>
-              <ThemedText type="body" style={{ fontWeight: "600" }} numberOfLines={1}>
+              <ThemedText
+                type="body"
+                style={{ fontWeight: "600" }}
+                numberOfLines={1}
+              >
                 {truckData.truckName}
               </ThemedText>
               {truckData.location && (
@@ -127,18 +152,28 @@ export function ShareSheet({ visible, onClose, truckData, title = "Share this fo
             <View
               style={[
                 styles.statusBadge,
-                { backgroundColor: truckData.isOpen ? Colors.success + "20" : Colors.error + "20" },
+                {
+                  backgroundColor: truckData.isOpen
+                    ? Colors.success + "20"
+                    : Colors.error + "20",
+                },
               ]}
             >
               <View
                 style={[
                   styles.statusDot,
-                  { backgroundColor: truckData.isOpen ? Colors.success : Colors.error },
+                  {
+                    backgroundColor: truckData.isOpen
+                      ? Colors.success
+                      : Colors.error,
+                  },
                 ]}
               />
               <ThemedText
                 type="caption"
-                style={{ color: truckData.isOpen ? Colors.success : Colors.error }}
+                style={{
+                  color: truckData.isOpen ? Colors.success : Colors.error,
+                }}
               >
                 {truckData.isOpen ? "Open" : "Closed"}
               </ThemedText>
@@ -155,8 +190,17 @@ export function ShareSheet({ visible, onClose, truckData, title = "Share this fo
                 style={styles.optionItem}
                 onPress={() => handleShare(option.id)}
               >
-                <View style={[styles.optionIcon, { backgroundColor: option.bgColor }]}>
-                  <Feather name={option.icon as any} size={24} color={option.color} />
+                <View
+                  style={[
+                    styles.optionIcon,
+                    { backgroundColor: option.bgColor },
+                  ]}
+                >
+                  <Feather
+                    name={option.icon as any}
+                    size={24}
+                    color={option.color}
+                  />
                 </View>
                 <ThemedText type="caption" style={{ marginTop: Spacing.xs }}>
                   {option.label}
@@ -169,7 +213,10 @@ export function ShareSheet({ visible, onClose, truckData, title = "Share this fo
 
           {/* Copy Link */}
           <Pressable
-            style={[styles.copyButton, { backgroundColor: theme.backgroundSecondary }]}
+            style={[
+              styles.copyButton,
+              { backgroundColor: theme.backgroundSecondary },
+            ]}
             onPress={() => handleShare("native")}
           >
             <Feather name="link" size={18} color={theme.text} />
@@ -190,7 +237,11 @@ interface ShareButtonProps {
   style?: any;
 }
 
-export function ShareButton({ onPress, size = "medium", style }: ShareButtonProps) {
+export function ShareButton({
+  onPress,
+  size = "medium",
+  style,
+}: ShareButtonProps) {
   const { theme } = useTheme();
 
   const iconSize = size === "small" ? 18 : size === "large" ? 28 : 22;
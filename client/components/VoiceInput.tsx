@@ -1,42 +1,108 @@
 import React, { useState, useCallback } from "react";
-import { View, StyleSheet, Pressable, Platform, ActivityIndicator, TextInput, Modal, KeyboardAvoidingView, ScrollView, Keyboard } from "react-native";
+import {
+  View,
+  StyleSheet,
+  Pressable,
+  Platform,
+  ActivityIndicator,
+  TextInput,
+  Modal,
+  KeyboardAvoidingView,
+  ScrollView,
+  Keyboard,
+} from "react-native";
 import { ThemedText } from "./ThemedText";
 import { Feather } from "@expo/vector-icons";
 import { Colors, Spacing, BorderRadius, Shadows } from "@/constants/theme";
 import { useTheme } from "@/hooks/useTheme";
 import * as Haptics from "expo-haptics";
 import { getApiBaseUrl } from "@/lib/api-config";
+import { useAuthFetch } from "@/lib/auth-context";
 
 // Demo promo suggestions for fallback when API is unavailable
 const DEMO_PROMOS = [
-  { title: "Happy Hour Special", description: "50% off all appetizers from 3-6pm!" },
-  { title: "Taco Tuesday", description: "Buy 2 tacos, get 1 free all day Tuesday" },
-  { title: "Weekend Brunch Deal", description: "Free mimosa with any brunch entree" },
-  { title: "Family Meal Bundle", description: "Feed the whole family - includes sides!" },
-  { title: "Flash Lunch Special", description: "20% off all orders between 11am-2pm" },
-  { title: "First-Timer Discount", description: "New customers get 25% off their first order" },
+  {
+    title: "Happy Hour Special",
+    description: "50% off all appetizers from 3-6pm!",
+  },
+  {
+    title: "Taco Tuesday",
+    description: "Buy 2 tacos, get 1 free all day Tuesday",
+  },
+  {
+    title: "Weekend Brunch Deal",
+    description: "Free mimosa with any brunch entree",
+  },
+  {
+    title: "Family Meal Bundle",
+    description: "Feed the whole family - includes sides!",
+  },
+  {
+    title: "Flash Lunch Special",
+    description: "20% off all orders between 11am-2pm",
+  },
+  {
+    title: "First-Timer Discount",
+    description: "New customers get 25% off their first order",
+  },
 ];
 
+// Response from /api/voice/search: what was heard, how it was parsed, and ranked matches
+export interface VoiceSearchResults {
+  transcription: string;
+  params: {
+    cuisine?: string | null;
+    keywords?: string[];
+    priceRange?: string | null;
+    distance?: string | null;
+  };
+  vendors: {
+    id: string;
+    businessName: string;
+    score: number;
+    distanceMiles: number | null;
+  }[];
+  deals: {
+    id: string;
+    vendorId: string;
+    title: string;
+    score: number;
+    distanceMiles: number | null;
+  }[];
+  count: number;
+  truncated: boolean; // Only the nearest or most recently updated vendors were searched
+}
+
 interface VoiceInputProps {
   onTranscription: (text: string) => void;
-  onPromoGenerated?: (promo: { title: string; description: string; suggestedDiscount?: string }) => void;
+  onPromoGenerated?: (promo: {
+    title: string;
+    description: string;
+    suggestedDiscount?: string;
+  }) => void;
+  onSearchResults?: (results: VoiceSearchResults) => void;
   onError?: (error: string) => void;
   placeholder?: string;
-  mode?: "transcribe" | "generate-promo";
+  mode?: "transcribe" | "generate-promo" | "search";
   businessType?: string;
   dealType?: string;
+  // Origin for distance filters in search mode ("tacos within walking distance")
+  searchOrigin?: { latitude: number; longitude: number } | null;
 }
 
 export function VoiceInput({
   onTranscription,
   onPromoGenerated,
+  onSearchResults,
   onError,
   placeholder = "Tap to speak",
   mode = "transcribe",
   businessType = "restaurant",
-  dealType = "discount"
+  dealType = "discount",
+  searchOrigin,
 }: VoiceInputProps) {
   const { theme } = useTheme();
+  const authFetch = useAuthFetch();
   const [isRecording, setIsRecording] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [showTextInput, setShowTextInput] = useState(false);
@@ -55,22 +121,59 @@ export function VoiceInput({
   };
 
   // Generate promo using backend API
-  const generatePromo = useCallback(async (description: string): Promise<{ title: string; description: string; suggestedDiscount?: string }> => {
-    try {
-      const response = await fetch(`${getApiBaseUrl()}/api/voice/generate-promo`, {
+  const generatePromo = useCallback(
+    async (
+      description: string,
+    ): Promise<{
+      title: string;
+      description: string;
+      suggestedDiscount?: string;
+    }> => {
+      try {
+        const response = await fetch(
+          `${getApiBaseUrl()}/api/voice/generate-promo`,
+          {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ description, businessType, dealType }),
+          },
+        );
+        if (!response.ok) throw new Error("Promo generation failed");
+        return await response.json();
+      } catch (error) {
+        console.error("Promo generation API error:", error);
+        // Fallback to demo promo
+        const randomPromo =
+          DEMO_PROMOS[Math.floor(Math.random() * DEMO_PROMOS.length)];
+        return { ...randomPromo, suggestedDiscount: "15%" };
+      }
+    },
+    [businessType, dealType],
+  );
+
+  // Run the whole pipeline server-side: transcription (for audio), parsing and search
+  const runVoiceSearch = useCallback(
+    async (input: {
+      query?: string;
+      audioData?: string;
+      mimeType?: string;
+    }): Promise<VoiceSearchResults> => {
+      const response = await authFetch("/api/voice/search", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ description, businessType, dealType }),
+        body: JSON.stringify({
+          ...input,
+          lat: searchOrigin?.latitude,
+          lng: searchOrigin?.longitude,
+        }),
       });
-      if (!response.ok) throw new Error("Promo generation failed");
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Voice search failed");
+      }
       return await response.json();
-    } catch (error) {
-      console.error("Promo generation API error:", error);
-      // Fallback to demo promo
-      const randomPromo = DEMO_PROMOS[Math.floor(Math.random() * DEMO_PROMOS.length)];
-      return { ...randomPromo, suggestedDiscount: "15%" };
-    }
-  }, [businessType, dealType]);
+    },
+    [authFetch, searchOrigin],
+  );
 
   const startRecording = async () => {
     // For now, show text input modal for all platforms
@@ -89,10 +192,11 @@ export function VoiceInput({
 
     try {
       // Demo mode fallback
-      await new Promise(resolve => setTimeout(resolve, 500));
+      await new Promise((resolve) => setTimeout(resolve, 500));
 
       if (mode === "generate-promo") {
-        const randomPromo = DEMO_PROMOS[Math.floor(Math.random() * DEMO_PROMOS.length)];
+        const randomPromo =
+          DEMO_PROMOS[Math.floor(Math.random() * DEMO_PROMOS.length)];
         onTranscription(randomPromo.title);
         onPromoGenerated?.(randomPromo);
       } else {
@@ -111,6 +215,20 @@ export function VoiceInput({
       const text = textInputValue.trim();
       onTranscription(text);
 
+      if (mode === "search" && onSearchResults) {
+        setIsProcessing(true);
+        setShowTextInput(false);
+        setTextInputValue("");
+        try {
+          onSearchResults(await runVoiceSearch({ query: text }));
+        } catch (error: any) {
+          onError?.(error?.message || "Search failed. Please try again.");
+        } finally {
+          setIsProcessing(false);
+        }
+        return;
+      }
+
       // If in promo mode, also generate a promo from the text
       if (mode === "generate-promo" && onPromoGenerated) {
         setIsProcessing(true);
@@ -121,7 +239,8 @@ export function VoiceInput({
           onPromoGenerated(promo);
         } catch {
           // Fallback to demo promo
-          const randomPromo = DEMO_PROMOS[Math.floor(Math.random() * DEMO_PROMOS.length)];
+          const randomPromo =
+            DEMO_PROMOS[Math.floor(Math.random() * DEMO_PROMOS.length)];
           onPromoGenerated(randomPromo);
         } finally {
           setIsProcessing(false);
@@ -138,8 +257,12 @@ export function VoiceInput({
       <Pressable
         style={[
           styles.voiceButton,
-          { backgroundColor: isRecording ? Colors.error + "20" : theme.backgroundSecondary },
-          isRecording && styles.recording
+          {
+            backgroundColor: isRecording
+              ? Colors.error + "20"
+              : theme.backgroundSecondary,
+          },
+          isRecording && styles.recording,
         ]}
         onPress={handlePress}
         disabled={isProcessing}
@@ -157,16 +280,22 @@ export function VoiceInput({
           type="small"
           style={[
             styles.buttonText,
-            { color: isRecording ? Colors.error : theme.text }
+            { color: isRecording ? Colors.error : theme.text },
           ]}
         >
-          {isProcessing ? "Processing..." : isRecording ? "Tap to stop" : placeholder}
+          {isProcessing
+            ? "Processing..."
+            : isRecording
+              ? "Tap to stop"
+              : placeholder}
         </ThemedText>
       </Pressable>
 
       {isRecording && (
         <View style={styles.recordingIndicator}>
-          <View style={[styles.recordingDot, { backgroundColor: Colors.error }]} />
+          <View
+            style={[styles.recordingDot, { backgroundColor: Colors.error }]}
+          />
           <ThemedText type="caption" style={{ color: Colors.error }}>
             Recording...
           </ThemedText>
@@ -203,16 +332,30 @@ export function VoiceInput({
               onPress={(e) => e.stopPropagation()}
             >
               <ThemedText type="h4" style={styles.modalTitle}>
-                {mode === "generate-promo" ? "Describe Your Promotion" : "Enter Your Message"}
+                {mode === "generate-promo"
+                  ? "Describe Your Promotion"
+                  : mode === "search"
+                    ? "What are you craving?"
+                    : "Enter Your Message"}
               </ThemedText>
               <TextInput
                 style={[
                   styles.textInput,
-                  { backgroundColor: theme.backgroundSecondary, color: theme.text, borderColor: theme.border }
+                  {
+                    backgroundColor: theme.backgroundSecondary,
+                    color: theme.text,
+                    borderColor: theme.border,
+                  },
                 ]}
                 value={textInputValue}
                 onChangeText={setTextInputValue}
-                placeholder={mode === "generate-promo" ? "e.g., 20% off all tacos today" : "Type your message..."}
+                placeholder={
+                  mode === "generate-promo"
+                    ? "e.g., 20% off all tacos today"
+                    : mode === "search"
+                      ? "e.g., cheap tacos within walking distance"
+                      : "Type your message..."
+                }
                 placeholderTextColor={theme.textSecondary}
                 multiline
                 numberOfLines={3}
@@ -226,7 +369,10 @@ export function VoiceInput({
               />
               <View style={styles.modalButtons}>
                 <Pressable
-                  style={[styles.modalButton, { backgroundColor: theme.backgroundSecondary }]}
+                  style={[
+                    styles.modalButton,
+                    { backgroundColor: theme.backgroundSecondary },
+                  ]}
                   onPress={() => {
                     Keyboard.dismiss();
                     setShowTextInput(false);
@@ -235,14 +381,21 @@ export function VoiceInput({
                   <ThemedText type="body">Cancel</ThemedText>
                 </Pressable>
                 <Pressable
-                  style={[styles.modalButton, { backgroundColor: Colors.primary }]}
+                  style={[
+                    styles.modalButton,
+                    { backgroundColor: Colors.primary },
+                  ]}
                   onPress={() => {
                     Keyboard.dismiss();
                     handleTextSubmit();
                   }}
                 >
                   <ThemedText type="body" style={{ color: "#fff" }}>
-                    {mode === "generate-promo" ? "Generate" : "Submit"}
+                    {mode === "generate-promo"
+                      ? "Generate"
+                      : mode === "search"
+                        ? "Search"
+                        : "Submit"}
                   </ThemedText>
                 </Pressable>
               </View>
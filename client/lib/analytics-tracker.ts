@@ -0,0 +1,102 @@
+import { AppState } from "react-native";
+import { getApiBaseUrl } from "./api-config";
+
+// Redemptions are recorded by the server when the vendor verifies the code
+export type TrackedEventType =
+  | "impression"
+  | "page_view"
+  | "directions"
+  | "share";
+
+interface TrackedEvent {
+  type: TrackedEventType;
+  vendorId: string; // vendor_listings.id
+  dealId?: string;
+  occurredAt: string;
+}
+
+const FLUSH_INTERVAL_MS = 15 * 1000;
+// The server accepts up to 100 events per request
+const BATCH_SIZE = 100;
+// While offline, the oldest events are dropped past this
+const MAX_QUEUED = 1000;
+// A card scrolled past again within this window isn't a new impression
+const IMPRESSION_WINDOW_MS = 30 * 60 * 1000;
+
+/**
+ * Queues engagement events and posts them to /api/analytics/events in
+ * batches, every few seconds and whenever the app goes to the background.
+ */
+class AnalyticsTracker {
+  private queue: TrackedEvent[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private flushing = false;
+  private lastImpressions: Map<string, number> = new Map();
+
+  constructor() {
+    AppState.addEventListener("change", (state) => {
+      if (state !== "active") this.flush();
+    });
+  }
+
+  track(type: TrackedEventType, vendorId: string, dealId?: string): void {
+    this.queue.push({
+      type,
+      vendorId,
+      dealId,
+      occurredAt: new Date().toISOString(),
+    });
+    if (this.queue.length > MAX_QUEUED) {
+      this.queue = this.queue.slice(-MAX_QUEUED);
+    }
+
+    if (this.queue.length >= BATCH_SIZE) {
+      this.flush();
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), FLUSH_INTERVAL_MS);
+    }
+  }
+
+  trackImpression(vendorId: string, dealId?: string): void {
+    const key = `${vendorId}:${dealId ?? ""}`;
+    const now = Date.now();
+    const last = this.lastImpressions.get(key);
+    if (last !== undefined && now - last < IMPRESSION_WINDOW_MS) return;
+
+    this.lastImpressions.set(key, now);
+    this.track("impression", vendorId, dealId);
+  }
+
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.flushing || this.queue.length === 0) return;
+
+    this.flushing = true;
+    const batch = this.queue.splice(0, BATCH_SIZE);
+    try {
+      const response = await fetch(`${getApiBaseUrl()}/api/analytics/events`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ events: batch }),
+      });
+      // A rejected batch would be rejected again, so only server errors are retried
+      if (response.status >= 500) {
+        throw new Error(`Analytics upload failed with ${response.status}`);
+      }
+    } catch (error) {
+      if (__DEV__) console.log("Analytics upload failed, will retry:", error);
+      this.queue = [...batch, ...this.queue].slice(-MAX_QUEUED);
+    } finally {
+      this.flushing = false;
+    }
+
+    if (this.queue.length > 0 && !this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), FLUSH_INTERVAL_MS);
+    }
+  }
+}
+
+export const analyticsTracker = new AnalyticsTracker();
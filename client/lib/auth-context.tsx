@@ -1,10 +1,21 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback } from "react";
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  ReactNode,
+  useCallback,
+} from "react";
 import { Platform } from "react-native";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import * as AppleAuthentication from "expo-apple-authentication";
 import * as AuthSession from "expo-auth-session";
 import * as WebBrowser from "expo-web-browser";
 import { getApiBaseUrl } from "@/lib/api-config";
+import {
+  clearPushRegistration,
+  getStoredPushToken,
+} from "@/lib/notification-service";
 
 // Required for Google Sign-In web redirect
 WebBrowser.maybeCompleteAuthSession();
@@ -16,7 +27,7 @@ const DEMO_MODE_ENABLED = __DEV__;
 
 // Apple review fallback — always available so reviewers can sign in
 // even if the server is momentarily unreachable during App Store review.
-const APPLE_REVIEW_ACCOUNT: { password: string; user: Omit<User, 'name'> } = {
+const APPLE_REVIEW_ACCOUNT: { password: string; user: Omit<User, "name"> } = {
   password: "review123!",
   user: {
     id: "apple_review_1",
@@ -34,7 +45,10 @@ const APPLE_REVIEW_ACCOUNT: { password: string; user: Omit<User, 'name'> } = {
 export type UserRole = "customer" | "vendor" | "admin";
 
 // Demo users for testing without backend
-const DEMO_USERS: Record<string, { password: string; user: Omit<User, 'name'> }> = {
+const DEMO_USERS: Record<
+  string,
+  { password: string; user: Omit<User, "name"> }
+> = {
   "customer@demo.com": {
     password: "demo1234",
     user: {
@@ -76,6 +90,8 @@ export interface User {
   avatarUrl?: string;
   emailVerified: boolean;
   authProvider?: string; // "email" | "apple" | "google"
+  shareWithVendors?: boolean; // false hides the customer from vendors' customer lists
+  profileHidden?: boolean; // true shows the customer as "Anonymous" on leaderboards
   createdAt: string;
   updatedAt: string;
   // Computed display name for backward compatibility
@@ -99,11 +115,18 @@ interface AuthContextType {
   signInWithGoogle: (role?: UserRole) => Promise<{ needsRole?: boolean }>;
   logout: () => Promise<void>;
   updateUser: (updates: Partial<User>) => Promise<void>;
-  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  changePassword: (
+    currentPassword: string,
+    newPassword: string,
+  ) => Promise<void>;
   deleteAccount: (password: string, confirmed?: boolean) => Promise<void>;
   refreshAuth: () => Promise<boolean>;
   requestPasswordReset: (email: string) => Promise<string>;
-  confirmPasswordReset: (email: string, code: string, newPassword: string) => Promise<string>;
+  confirmPasswordReset: (
+    email: string,
+    code: string,
+    newPassword: string,
+  ) => Promise<string>;
 }
 
 interface SignupData {
@@ -119,21 +142,27 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 const AUTH_STORAGE_KEY = "@smartdealsiq_auth";
 const TOKENS_STORAGE_KEY = "@smartdealsiq_tokens";
+const UPLOAD_TIMEOUT_MS = 60000;
 
 // Helper to make authenticated API requests with timeout
 async function authFetch(
   endpoint: string,
   options: RequestInit = {},
   accessToken?: string | null,
-  timeoutMs: number = 5000
+  timeoutMs: number = 5000,
 ): Promise<Response> {
+  // Multipart uploads set their own boundary header and need longer than JSON calls
+  const isUpload =
+    typeof FormData !== "undefined" && options.body instanceof FormData;
   const headers: HeadersInit = {
-    "Content-Type": "application/json",
+    ...(isUpload ? {} : { "Content-Type": "application/json" }),
     ...options.headers,
   };
+  if (isUpload) timeoutMs = Math.max(timeoutMs, UPLOAD_TIMEOUT_MS);
 
   if (accessToken) {
-    (headers as Record<string, string>)["Authorization"] = `Bearer ${accessToken}`;
+    (headers as Record<string, string>)["Authorization"] =
+      `Bearer ${accessToken}`;
   }
 
   // Add timeout for mobile - prevents hanging on unreachable server
@@ -151,8 +180,8 @@ async function authFetch(
     return response;
   } catch (error: any) {
     clearTimeout(timeoutId);
-    if (error.name === 'AbortError') {
-      throw new Error('Request timeout - server not responding');
+    if (error.name === "AbortError") {
+      throw new Error("Request timeout - server not responding");
     }
     throw error;
   }
@@ -162,7 +191,11 @@ async function authFetch(
 function addDisplayName(userData: any): User {
   const firstName = userData.firstName || "";
   const lastName = userData.lastName || "";
-  const name = [firstName, lastName].filter(Boolean).join(" ") || userData.username || userData.email?.split("@")[0] || "User";
+  const name =
+    [firstName, lastName].filter(Boolean).join(" ") ||
+    userData.username ||
+    userData.email?.split("@")[0] ||
+    "User";
   return { ...userData, name };
 }
 
@@ -189,16 +222,22 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
         // Verify token is still valid by fetching current user
         try {
-          const response = await authFetch("/api/auth/me", {}, parsedTokens.accessToken);
+          const response = await authFetch(
+            "/api/auth/me",
+            {},
+            parsedTokens.accessToken,
+          );
 
           if (response.ok) {
             const data = await response.json();
             setUser(addDisplayName(data.user));
             setTokens(parsedTokens);
-            if (__DEV__) console.log("[Auth] Token verified, user loaded from server");
+            if (__DEV__)
+              console.log("[Auth] Token verified, user loaded from server");
           } else if (response.status === 401) {
             // Token expired - try to refresh
-            if (__DEV__) console.log("[Auth] Token expired, attempting refresh");
+            if (__DEV__)
+              console.log("[Auth] Token expired, attempting refresh");
             const refreshed = await refreshTokens(parsedTokens.refreshToken);
             if (!refreshed) {
               if (__DEV__) console.log("[Auth] Refresh failed, clearing auth");
@@ -207,7 +246,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           } else {
             // Server returned other error (404, 500, etc.)
             // Use stored user data - don't log out just because server had an issue
-            if (__DEV__) console.log("[Auth] Server returned", response.status, "- using stored user");
+            if (__DEV__)
+              console.log(
+                "[Auth] Server returned",
+                response.status,
+                "- using stored user",
+              );
             setUser(parsedUser);
             setTokens(parsedTokens);
           }
@@ -235,15 +279,25 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       if (response.ok) {
         const newTokens = await response.json();
         setTokens(newTokens);
-        await AsyncStorage.setItem(TOKENS_STORAGE_KEY, JSON.stringify(newTokens));
+        await AsyncStorage.setItem(
+          TOKENS_STORAGE_KEY,
+          JSON.stringify(newTokens),
+        );
 
         // Fetch updated user
-        const userResponse = await authFetch("/api/auth/me", {}, newTokens.accessToken);
+        const userResponse = await authFetch(
+          "/api/auth/me",
+          {},
+          newTokens.accessToken,
+        );
         if (userResponse.ok) {
           const userData = await userResponse.json();
           const userWithName = addDisplayName(userData.user);
           setUser(userWithName);
-          await AsyncStorage.setItem(AUTH_STORAGE_KEY, JSON.stringify(userWithName));
+          await AsyncStorage.setItem(
+            AUTH_STORAGE_KEY,
+            JSON.stringify(userWithName),
+          );
         }
 
         return true;
@@ -268,7 +322,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const saveAuth = async (userData: any, authTokens: AuthTokens) => {
     const userWithName = addDisplayName(userData);
-    if (__DEV__) console.log("[Auth] saveAuth called - setting user:", userWithName.email, "role:", userWithName.role);
+    if (__DEV__)
+      console.log(
+        "[Auth] saveAuth called - setting user:",
+        userWithName.email,
+        "role:",
+        userWithName.role,
+      );
     setUser(userWithName);
     setTokens(authTokens);
     await Promise.all([
@@ -278,7 +338,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     if (__DEV__) console.log("[Auth] saveAuth complete - user and tokens set");
   };
 
-  const loginWithRole = async (email: string, password: string, intendedRole: UserRole = "customer") => {
+  const loginWithRole = async (
+    email: string,
+    password: string,
+    intendedRole: UserRole = "customer",
+  ) => {
     let response: Response;
     try {
       response = await authFetch("/api/auth/login", {
@@ -289,7 +353,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       console.error("[Auth] Network error during login:", networkError);
 
       // Always allow Apple review account fallback (all environments)
-      if (email.toLowerCase() === APPLE_REVIEW_ACCOUNT.user.email && password === APPLE_REVIEW_ACCOUNT.password) {
+      if (
+        email.toLowerCase() === APPLE_REVIEW_ACCOUNT.user.email &&
+        password === APPLE_REVIEW_ACCOUNT.password
+      ) {
         console.log("[Auth] Server unavailable, using Apple review fallback");
         const userWithName = addDisplayName(APPLE_REVIEW_ACCOUNT.user);
         await saveAuth(userWithName, {
@@ -301,7 +368,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
       // Fallback to demo mode if enabled
       if (DEMO_MODE_ENABLED) {
-        if (__DEV__) console.log("[Auth] Server unavailable, using demo mode...");
+        if (__DEV__)
+          console.log("[Auth] Server unavailable, using demo mode...");
         const demoUser = DEMO_USERS[email.toLowerCase()];
 
         if (demoUser && demoUser.password === password) {
@@ -316,7 +384,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         throw new Error("Invalid email or password.");
       }
 
-      throw new Error("Unable to connect to server. Please check your internet connection and try again.");
+      throw new Error(
+        "Unable to connect to server. Please check your internet connection and try again.",
+      );
     }
 
     let data: any;
@@ -330,8 +400,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     if (!response.ok) {
       // If the server rejected the Apple review credentials, fall back to local account
       // This handles the case where the server is up but the review account wasn't seeded
-      if (email.toLowerCase() === APPLE_REVIEW_ACCOUNT.user.email && password === APPLE_REVIEW_ACCOUNT.password) {
-        console.log("[Auth] Server rejected review credentials, using Apple review fallback");
+      if (
+        email.toLowerCase() === APPLE_REVIEW_ACCOUNT.user.email &&
+        password === APPLE_REVIEW_ACCOUNT.password
+      ) {
+        console.log(
+          "[Auth] Server rejected review credentials, using Apple review fallback",
+        );
         const userWithName = addDisplayName(APPLE_REVIEW_ACCOUNT.user);
         await saveAuth(userWithName, {
           accessToken: `review_token_${Date.now()}`,
@@ -339,7 +414,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         });
         return;
       }
-      throw new Error(data?.error || "Login failed. Please check your credentials.");
+      throw new Error(
+        data?.error || "Login failed. Please check your credentials.",
+      );
     }
 
     // Save auth with whatever role the server returns - RootStackNavigator handles routing
@@ -348,7 +425,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       refreshToken: data.refreshToken,
     });
 
-    if (__DEV__) console.log("[Auth] Login successful:", data.user.email, "role:", data.user.role);
+    if (__DEV__)
+      console.log(
+        "[Auth] Login successful:",
+        data.user.email,
+        "role:",
+        data.user.role,
+      );
   };
 
   const login = async (email: string, password: string) => {
@@ -371,7 +454,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
       // Fallback to demo mode if enabled
       if (DEMO_MODE_ENABLED) {
-        if (__DEV__) console.log("[Auth] Server unavailable, creating demo account...");
+        if (__DEV__)
+          console.log("[Auth] Server unavailable, creating demo account...");
         const newDemoUser = {
           id: `demo_${Date.now()}`,
           email: signupData.email.toLowerCase(),
@@ -388,11 +472,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           accessToken: `demo_token_${Date.now()}`,
           refreshToken: `demo_refresh_${Date.now()}`,
         });
-        if (__DEV__) console.log("[Auth] Demo signup successful:", signupData.email);
+        if (__DEV__)
+          console.log("[Auth] Demo signup successful:", signupData.email);
         return;
       }
 
-      throw new Error("Unable to connect to server. Please check your internet connection and try again.");
+      throw new Error(
+        "Unable to connect to server. Please check your internet connection and try again.",
+      );
     }
 
     let responseData: any;
@@ -404,7 +491,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
 
     if (!response.ok) {
-      throw new Error(responseData?.error || "Registration failed. Please try again.");
+      throw new Error(
+        responseData?.error || "Registration failed. Please try again.",
+      );
     }
 
     await saveAuth(responseData.user, {
@@ -412,25 +501,32 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       refreshToken: responseData.refreshToken,
     });
 
-    if (__DEV__) console.log("[Auth] Signup successful:", responseData.user.email);
+    if (__DEV__)
+      console.log("[Auth] Signup successful:", responseData.user.email);
   };
 
   const logout = async () => {
     try {
       if (tokens?.refreshToken) {
+        // Passing the push token stops this device getting the signed-out user's notifications
+        const pushToken = await getStoredPushToken();
         await authFetch(
           "/api/auth/logout",
           {
             method: "POST",
-            body: JSON.stringify({ refreshToken: tokens.refreshToken }),
+            body: JSON.stringify({
+              refreshToken: tokens.refreshToken,
+              pushToken,
+            }),
           },
-          tokens.accessToken
+          tokens.accessToken,
         );
       }
     } catch (error) {
       console.error("[Auth] Logout API call failed:", error);
     }
 
+    await clearPushRegistration();
     await clearAuth();
     if (__DEV__) console.log("[Auth] Logged out");
   };
@@ -446,7 +542,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         method: "PUT",
         body: JSON.stringify(updates),
       },
-      tokens.accessToken
+      tokens.accessToken,
     );
 
     const data = await response.json();
@@ -460,7 +556,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     await AsyncStorage.setItem(AUTH_STORAGE_KEY, JSON.stringify(userWithName));
   };
 
-  const changePassword = async (currentPassword: string, newPassword: string) => {
+  const changePassword = async (
+    currentPassword: string,
+    newPassword: string,
+  ) => {
     if (!tokens?.accessToken) {
       throw new Error("Not authenticated");
     }
@@ -471,7 +570,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         method: "POST",
         body: JSON.stringify({ currentPassword, newPassword }),
       },
-      tokens.accessToken
+      tokens.accessToken,
     );
 
     const data = await response.json();
@@ -496,7 +595,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         method: "DELETE",
         body: JSON.stringify(body),
       },
-      tokens.accessToken
+      tokens.accessToken,
     );
 
     const data = await response.json();
@@ -508,7 +607,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     await clearAuth();
   };
 
-  const signInWithApple = async (role?: UserRole): Promise<{ needsRole?: boolean }> => {
+  const signInWithApple = async (
+    role?: UserRole,
+  ): Promise<{ needsRole?: boolean }> => {
     if (Platform.OS !== "ios") {
       throw new Error("Sign in with Apple is only available on iOS");
     }
@@ -550,11 +651,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       refreshToken: data.refreshToken,
     });
 
-    if (__DEV__) console.log("[Auth] Apple Sign-In successful:", data.user.email);
+    if (__DEV__)
+      console.log("[Auth] Apple Sign-In successful:", data.user.email);
     return { needsRole: false };
   };
 
-  const signInWithGoogle = async (role?: UserRole): Promise<{ needsRole?: boolean }> => {
+  const signInWithGoogle = async (
+    role?: UserRole,
+  ): Promise<{ needsRole?: boolean }> => {
     // Google Sign-In uses expo-auth-session OAuth flow
     // This requires a Google OAuth Client ID configured in the Google Cloud Console
     const googleClientId = process.env.EXPO_PUBLIC_GOOGLE_OAUTH_CLIENT_ID;
@@ -608,7 +712,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       refreshToken: data.refreshToken,
     });
 
-    if (__DEV__) console.log("[Auth] Google Sign-In successful:", data.user.email);
+    if (__DEV__)
+      console.log("[Auth] Google Sign-In successful:", data.user.email);
     return { needsRole: false };
   };
 
@@ -627,14 +732,23 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
       return data.message;
     } catch (error: any) {
-      if (error.message?.includes("timeout") || error.message?.includes("network")) {
-        throw new Error("Unable to connect to server. Please check your internet connection.");
+      if (
+        error.message?.includes("timeout") ||
+        error.message?.includes("network")
+      ) {
+        throw new Error(
+          "Unable to connect to server. Please check your internet connection.",
+        );
       }
       throw error;
     }
   };
 
-  const confirmPasswordReset = async (email: string, code: string, newPassword: string): Promise<string> => {
+  const confirmPasswordReset = async (
+    email: string,
+    code: string,
+    newPassword: string,
+  ): Promise<string> => {
     try {
       const response = await authFetch("/api/auth/reset-password", {
         method: "POST",
@@ -649,8 +763,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
       return data.message;
     } catch (error: any) {
-      if (error.message?.includes("timeout") || error.message?.includes("network")) {
-        throw new Error("Unable to connect to server. Please check your internet connection.");
+      if (
+        error.message?.includes("timeout") ||
+        error.message?.includes("network")
+      ) {
+        throw new Error(
+          "Unable to connect to server. Please check your internet connection.",
+        );
       }
       throw error;
     }
@@ -719,6 +838,6 @@ export function useAuthFetch() {
 
       return response;
     },
-    [accessToken, refreshAuth]
+    [accessToken, refreshAuth],
   );
 }
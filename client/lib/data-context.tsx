@@ -1,10 +1,32 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from "react";
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  ReactNode,
+} from "react";
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Linking from "expo-linking";
+import { useAuth, useAuthFetch } from "./auth-context";
+import { usePreferences, isInQuietHours } from "./preferences-context";
+import { getApiBaseUrl } from "./api-config";
+import { buildPhotoForm, PhotoOwnerType, UploadedPhoto } from "./photo-upload";
+import type {
+  LocationAnalytics,
+  LocationHistoryEntry,
+} from "./food-truck-service";
 import {
   requestNotificationPermission,
   scheduleNearbyVendorNotification,
-  sendFlashDealNotification,
   scheduleFlashDealReminder,
+  registerPushToken,
+  getNotificationSettings,
+  syncNotificationSubscriptions,
+  subscribeToVendor,
+  unsubscribeFromVendor,
+  saveFavoriteVendor,
+  syncFavoriteVendors,
   FlashDeal,
 } from "./notification-service";
 
@@ -63,7 +85,12 @@ export type FoodCategory =
   // Cannabis
   | "Dispensary";
 
-export const FOOD_CATEGORIES: { id: FoodCategory; label: string; icon: string; color: string }[] = [
+export const FOOD_CATEGORIES: {
+  id: FoodCategory;
+  label: string;
+  icon: string;
+  color: string;
+}[] = [
   { id: "All", label: "All", icon: "grid", color: "#6366F1" },
   // Food & Beverage
   { id: "Mexican", label: "Mexican", icon: "sun", color: "#F59E0B" },
@@ -89,8 +116,18 @@ export const FOOD_CATEGORIES: { id: FoodCategory; label: string; icon: string; c
   // Retail & Shopping
   { id: "Boutique", label: "Boutique", icon: "shopping-bag", color: "#DB2777" },
   { id: "Jewelry", label: "Jewelry", icon: "star", color: "#CA8A04" },
-  { id: "Electronics", label: "Electronics", icon: "smartphone", color: "#2563EB" },
-  { id: "Thrift & Vintage", label: "Thrift", icon: "refresh-cw", color: "#65A30D" },
+  {
+    id: "Electronics",
+    label: "Electronics",
+    icon: "smartphone",
+    color: "#2563EB",
+  },
+  {
+    id: "Thrift & Vintage",
+    label: "Thrift",
+    icon: "refresh-cw",
+    color: "#65A30D",
+  },
   { id: "Smoke & Vape", label: "Smoke/Vape", icon: "wind", color: "#64748B" },
   { id: "Pet Store", label: "Pets", icon: "heart", color: "#E11D48" },
   // Health & Beauty
@@ -99,9 +136,19 @@ export const FOOD_CATEGORIES: { id: FoodCategory; label: string; icon: string; c
   { id: "Nail & Spa", label: "Nail/Spa", icon: "feather", color: "#E879F9" },
   { id: "Massage", label: "Massage", icon: "smile", color: "#14B8A6" },
   { id: "Gym & Fitness", label: "Gym", icon: "activity", color: "#EF4444" },
-  { id: "Tattoo & Piercing", label: "Tattoo", icon: "edit-3", color: "#1E293B" },
+  {
+    id: "Tattoo & Piercing",
+    label: "Tattoo",
+    icon: "edit-3",
+    color: "#1E293B",
+  },
   // Auto & Services
-  { id: "Auto Detailing", label: "Detailing", icon: "droplet", color: "#0284C7" },
+  {
+    id: "Auto Detailing",
+    label: "Detailing",
+    icon: "droplet",
+    color: "#0284C7",
+  },
   { id: "Auto Repair", label: "Auto Repair", icon: "tool", color: "#B91C1C" },
   { id: "Tire Shop", label: "Tires", icon: "disc", color: "#374151" },
   // Home & Professional
@@ -115,7 +162,12 @@ export const FOOD_CATEGORIES: { id: FoodCategory; label: string; icon: string; c
   { id: "Escape Room", label: "Escape Room", icon: "lock", color: "#DC2626" },
   { id: "Event Venue", label: "Events", icon: "calendar", color: "#0369A1" },
   // Cannabis
-  { id: "Dispensary", label: "Dispensary", icon: "plus-circle", color: "#15803D" },
+  {
+    id: "Dispensary",
+    label: "Dispensary",
+    icon: "plus-circle",
+    color: "#15803D",
+  },
 ];
 
 // Location/City data for search
@@ -129,66 +181,402 @@ export interface CityLocation {
 
 export const MAJOR_CITIES: CityLocation[] = [
   // Florida Cities
-  { city: "Miami", state: "FL", zipCode: "33101", latitude: 25.7617, longitude: -80.1918 },
-  { city: "Orlando", state: "FL", zipCode: "32801", latitude: 28.5383, longitude: -81.3792 },
-  { city: "Tampa", state: "FL", zipCode: "33602", latitude: 27.9506, longitude: -82.4572 },
-  { city: "Jacksonville", state: "FL", zipCode: "32202", latitude: 30.3322, longitude: -81.6557 },
-  { city: "Fort Lauderdale", state: "FL", zipCode: "33301", latitude: 26.1224, longitude: -80.1373 },
-  { city: "West Palm Beach", state: "FL", zipCode: "33401", latitude: 26.7153, longitude: -80.0534 },
-  { city: "St. Petersburg", state: "FL", zipCode: "33701", latitude: 27.7676, longitude: -82.6403 },
-  { city: "Tallahassee", state: "FL", zipCode: "32301", latitude: 30.4383, longitude: -84.2807 },
-  { city: "Pensacola", state: "FL", zipCode: "32501", latitude: 30.4213, longitude: -87.2169 },
-  { city: "Gainesville", state: "FL", zipCode: "32601", latitude: 29.6516, longitude: -82.3248 },
-  { city: "Naples", state: "FL", zipCode: "34102", latitude: 26.1420, longitude: -81.7948 },
-  { city: "Sarasota", state: "FL", zipCode: "34236", latitude: 27.3364, longitude: -82.5307 },
-  { city: "Fort Myers", state: "FL", zipCode: "33901", latitude: 26.6406, longitude: -81.8723 },
-  { city: "Clearwater", state: "FL", zipCode: "33755", latitude: 27.9659, longitude: -82.8001 },
-  { city: "Boca Raton", state: "FL", zipCode: "33432", latitude: 26.3587, longitude: -80.0831 },
+  {
+    city: "Miami",
+    state: "FL",
+    zipCode: "33101",
+    latitude: 25.7617,
+    longitude: -80.1918,
+  },
+  {
+    city: "Orlando",
+    state: "FL",
+    zipCode: "32801",
+    latitude: 28.5383,
+    longitude: -81.3792,
+  },
+  {
+    city: "Tampa",
+    state: "FL",
+    zipCode: "33602",
+    latitude: 27.9506,
+    longitude: -82.4572,
+  },
+  {
+    city: "Jacksonville",
+    state: "FL",
+    zipCode: "32202",
+    latitude: 30.3322,
+    longitude: -81.6557,
+  },
+  {
+    city: "Fort Lauderdale",
+    state: "FL",
+    zipCode: "33301",
+    latitude: 26.1224,
+    longitude: -80.1373,
+  },
+  {
+    city: "West Palm Beach",
+    state: "FL",
+    zipCode: "33401",
+    latitude: 26.7153,
+    longitude: -80.0534,
+  },
+  {
+    city: "St. Petersburg",
+    state: "FL",
+    zipCode: "33701",
+    latitude: 27.7676,
+    longitude: -82.6403,
+  },
+  {
+    city: "Tallahassee",
+    state: "FL",
+    zipCode: "32301",
+    latitude: 30.4383,
+    longitude: -84.2807,
+  },
+  {
+    city: "Pensacola",
+    state: "FL",
+    zipCode: "32501",
+    latitude: 30.4213,
+    longitude: -87.2169,
+  },
+  {
+    city: "Gainesville",
+    state: "FL",
+    zipCode: "32601",
+    latitude: 29.6516,
+    longitude: -82.3248,
+  },
+  {
+    city: "Naples",
+    state: "FL",
+    zipCode: "34102",
+    latitude: 26.142,
+    longitude: -81.7948,
+  },
+  {
+    city: "Sarasota",
+    state: "FL",
+    zipCode: "34236",
+    latitude: 27.3364,
+    longitude: -82.5307,
+  },
+  {
+    city: "Fort Myers",
+    state: "FL",
+    zipCode: "33901",
+    latitude: 26.6406,
+    longitude: -81.8723,
+  },
+  {
+    city: "Clearwater",
+    state: "FL",
+    zipCode: "33755",
+    latitude: 27.9659,
+    longitude: -82.8001,
+  },
+  {
+    city: "Boca Raton",
+    state: "FL",
+    zipCode: "33432",
+    latitude: 26.3587,
+    longitude: -80.0831,
+  },
   // California Cities
-  { city: "San Francisco", state: "CA", zipCode: "94102", latitude: 37.7749, longitude: -122.4194 },
-  { city: "Los Angeles", state: "CA", zipCode: "90001", latitude: 34.0522, longitude: -118.2437 },
-  { city: "San Diego", state: "CA", zipCode: "92101", latitude: 32.7157, longitude: -117.1611 },
-  { city: "San Jose", state: "CA", zipCode: "95101", latitude: 37.3382, longitude: -121.8863 },
-  { city: "Sacramento", state: "CA", zipCode: "95814", latitude: 38.5816, longitude: -121.4944 },
-  { city: "Oakland", state: "CA", zipCode: "94612", latitude: 37.8044, longitude: -122.2712 },
-  { city: "Fresno", state: "CA", zipCode: "93721", latitude: 36.7378, longitude: -119.7871 },
-  { city: "Long Beach", state: "CA", zipCode: "90802", latitude: 33.7701, longitude: -118.1937 },
+  {
+    city: "San Francisco",
+    state: "CA",
+    zipCode: "94102",
+    latitude: 37.7749,
+    longitude: -122.4194,
+  },
+  {
+    city: "Los Angeles",
+    state: "CA",
+    zipCode: "90001",
+    latitude: 34.0522,
+    longitude: -118.2437,
+  },
+  {
+    city: "San Diego",
+    state: "CA",
+    zipCode: "92101",
+    latitude: 32.7157,
+    longitude: -117.1611,
+  },
+  {
+    city: "San Jose",
+    state: "CA",
+    zipCode: "95101",
+    latitude: 37.3382,
+    longitude: -121.8863,
+  },
+  {
+    city: "Sacramento",
+    state: "CA",
+    zipCode: "95814",
+    latitude: 38.5816,
+    longitude: -121.4944,
+  },
+  {
+    city: "Oakland",
+    state: "CA",
+    zipCode: "94612",
+    latitude: 37.8044,
+    longitude: -122.2712,
+  },
+  {
+    city: "Fresno",
+    state: "CA",
+    zipCode: "93721",
+    latitude: 36.7378,
+    longitude: -119.7871,
+  },
+  {
+    city: "Long Beach",
+    state: "CA",
+    zipCode: "90802",
+    latitude: 33.7701,
+    longitude: -118.1937,
+  },
   // Texas Cities
-  { city: "Houston", state: "TX", zipCode: "77001", latitude: 29.7604, longitude: -95.3698 },
-  { city: "Austin", state: "TX", zipCode: "78701", latitude: 30.2672, longitude: -97.7431 },
-  { city: "Dallas", state: "TX", zipCode: "75201", latitude: 32.7767, longitude: -96.7970 },
-  { city: "San Antonio", state: "TX", zipCode: "78205", latitude: 29.4241, longitude: -98.4936 },
-  { city: "Fort Worth", state: "TX", zipCode: "76102", latitude: 32.7555, longitude: -97.3308 },
-  { city: "El Paso", state: "TX", zipCode: "79901", latitude: 31.7619, longitude: -106.4850 },
+  {
+    city: "Houston",
+    state: "TX",
+    zipCode: "77001",
+    latitude: 29.7604,
+    longitude: -95.3698,
+  },
+  {
+    city: "Austin",
+    state: "TX",
+    zipCode: "78701",
+    latitude: 30.2672,
+    longitude: -97.7431,
+  },
+  {
+    city: "Dallas",
+    state: "TX",
+    zipCode: "75201",
+    latitude: 32.7767,
+    longitude: -96.797,
+  },
+  {
+    city: "San Antonio",
+    state: "TX",
+    zipCode: "78205",
+    latitude: 29.4241,
+    longitude: -98.4936,
+  },
+  {
+    city: "Fort Worth",
+    state: "TX",
+    zipCode: "76102",
+    latitude: 32.7555,
+    longitude: -97.3308,
+  },
+  {
+    city: "El Paso",
+    state: "TX",
+    zipCode: "79901",
+    latitude: 31.7619,
+    longitude: -106.485,
+  },
   // New York
-  { city: "New York", state: "NY", zipCode: "10001", latitude: 40.7128, longitude: -74.0060 },
-  { city: "Brooklyn", state: "NY", zipCode: "11201", latitude: 40.6892, longitude: -73.9857 },
-  { city: "Buffalo", state: "NY", zipCode: "14202", latitude: 42.8864, longitude: -78.8784 },
+  {
+    city: "New York",
+    state: "NY",
+    zipCode: "10001",
+    latitude: 40.7128,
+    longitude: -74.006,
+  },
+  {
+    city: "Brooklyn",
+    state: "NY",
+    zipCode: "11201",
+    latitude: 40.6892,
+    longitude: -73.9857,
+  },
+  {
+    city: "Buffalo",
+    state: "NY",
+    zipCode: "14202",
+    latitude: 42.8864,
+    longitude: -78.8784,
+  },
   // Other Major Cities
-  { city: "Chicago", state: "IL", zipCode: "60601", latitude: 41.8781, longitude: -87.6298 },
-  { city: "Seattle", state: "WA", zipCode: "98101", latitude: 47.6062, longitude: -122.3321 },
-  { city: "Denver", state: "CO", zipCode: "80202", latitude: 39.7392, longitude: -104.9903 },
-  { city: "Boston", state: "MA", zipCode: "02101", latitude: 42.3601, longitude: -71.0589 },
-  { city: "Atlanta", state: "GA", zipCode: "30301", latitude: 33.7490, longitude: -84.3880 },
-  { city: "Phoenix", state: "AZ", zipCode: "85001", latitude: 33.4484, longitude: -112.0740 },
-  { city: "Las Vegas", state: "NV", zipCode: "89101", latitude: 36.1699, longitude: -115.1398 },
-  { city: "Portland", state: "OR", zipCode: "97201", latitude: 45.5152, longitude: -122.6784 },
-  { city: "Detroit", state: "MI", zipCode: "48201", latitude: 42.3314, longitude: -83.0458 },
-  { city: "Minneapolis", state: "MN", zipCode: "55401", latitude: 44.9778, longitude: -93.2650 },
-  { city: "Philadelphia", state: "PA", zipCode: "19102", latitude: 39.9526, longitude: -75.1652 },
-  { city: "Charlotte", state: "NC", zipCode: "28202", latitude: 35.2271, longitude: -80.8431 },
-  { city: "Nashville", state: "TN", zipCode: "37201", latitude: 36.1627, longitude: -86.7816 },
-  { city: "New Orleans", state: "LA", zipCode: "70112", latitude: 29.9511, longitude: -90.0715 },
-  { city: "Kansas City", state: "MO", zipCode: "64101", latitude: 39.0997, longitude: -94.5786 },
-  { city: "Indianapolis", state: "IN", zipCode: "46204", latitude: 39.7684, longitude: -86.1581 },
-  { city: "Columbus", state: "OH", zipCode: "43215", latitude: 39.9612, longitude: -82.9988 },
-  { city: "Cleveland", state: "OH", zipCode: "44113", latitude: 41.4993, longitude: -81.6944 },
-  { city: "Pittsburgh", state: "PA", zipCode: "15222", latitude: 40.4406, longitude: -79.9959 },
-  { city: "Baltimore", state: "MD", zipCode: "21201", latitude: 39.2904, longitude: -76.6122 },
-  { city: "Washington", state: "DC", zipCode: "20001", latitude: 38.9072, longitude: -77.0369 },
-  { city: "Salt Lake City", state: "UT", zipCode: "84101", latitude: 40.7608, longitude: -111.8910 },
-  { city: "Honolulu", state: "HI", zipCode: "96813", latitude: 21.3069, longitude: -157.8583 },
-  { city: "Anchorage", state: "AK", zipCode: "99501", latitude: 61.2181, longitude: -149.9003 },
+  {
+    city: "Chicago",
+    state: "IL",
+    zipCode: "60601",
+    latitude: 41.8781,
+    longitude: -87.6298,
+  },
+  {
+    city: "Seattle",
+    state: "WA",
+    zipCode: "98101",
+    latitude: 47.6062,
+    longitude: -122.3321,
+  },
+  {
+    city: "Denver",
+    state: "CO",
+    zipCode: "80202",
+    latitude: 39.7392,
+    longitude: -104.9903,
+  },
+  {
+    city: "Boston",
+    state: "MA",
+    zipCode: "02101",
+    latitude: 42.3601,
+    longitude: -71.0589,
+  },
+  {
+    city: "Atlanta",
+    state: "GA",
+    zipCode: "30301",
+    latitude: 33.749,
+    longitude: -84.388,
+  },
+  {
+    city: "Phoenix",
+    state: "AZ",
+    zipCode: "85001",
+    latitude: 33.4484,
+    longitude: -112.074,
+  },
+  {
+    city: "Las Vegas",
+    state: "NV",
+    zipCode: "89101",
+    latitude: 36.1699,
+    longitude: -115.1398,
+  },
+  {
+    city: "Portland",
+    state: "OR",
+    zipCode: "97201",
+    latitude: 45.5152,
+    longitude: -122.6784,
+  },
+  {
+    city: "Detroit",
+    state: "MI",
+    zipCode: "48201",
+    latitude: 42.3314,
+    longitude: -83.0458,
+  },
+  {
+    city: "Minneapolis",
+    state: "MN",
+    zipCode: "55401",
+    latitude: 44.9778,
+    longitude: -93.265,
+  },
+  {
+    city: "Philadelphia",
+    state: "PA",
+    zipCode: "19102",
+    latitude: 39.9526,
+    longitude: -75.1652,
+  },
+  {
+    city: "Charlotte",
+    state: "NC",
+    zipCode: "28202",
+    latitude: 35.2271,
+    longitude: -80.8431,
+  },
+  {
+    city: "Nashville",
+    state: "TN",
+    zipCode: "37201",
+    latitude: 36.1627,
+    longitude: -86.7816,
+  },
+  {
+    city: "New Orleans",
+    state: "LA",
+    zipCode: "70112",
+    latitude: 29.9511,
+    longitude: -90.0715,
+  },
+  {
+    city: "Kansas City",
+    state: "MO",
+    zipCode: "64101",
+    latitude: 39.0997,
+    longitude: -94.5786,
+  },
+  {
+    city: "Indianapolis",
+    state: "IN",
+    zipCode: "46204",
+    latitude: 39.7684,
+    longitude: -86.1581,
+  },
+  {
+    city: "Columbus",
+    state: "OH",
+    zipCode: "43215",
+    latitude: 39.9612,
+    longitude: -82.9988,
+  },
+  {
+    city: "Cleveland",
+    state: "OH",
+    zipCode: "44113",
+    latitude: 41.4993,
+    longitude: -81.6944,
+  },
+  {
+    city: "Pittsburgh",
+    state: "PA",
+    zipCode: "15222",
+    latitude: 40.4406,
+    longitude: -79.9959,
+  },
+  {
+    city: "Baltimore",
+    state: "MD",
+    zipCode: "21201",
+    latitude: 39.2904,
+    longitude: -76.6122,
+  },
+  {
+    city: "Washington",
+    state: "DC",
+    zipCode: "20001",
+    latitude: 38.9072,
+    longitude: -77.0369,
+  },
+  {
+    city: "Salt Lake City",
+    state: "UT",
+    zipCode: "84101",
+    latitude: 40.7608,
+    longitude: -111.891,
+  },
+  {
+    city: "Honolulu",
+    state: "HI",
+    zipCode: "96813",
+    latitude: 21.3069,
+    longitude: -157.8583,
+  },
+  {
+    city: "Anchorage",
+    state: "AK",
+    zipCode: "99501",
+    latitude: 61.2181,
+    longitude: -149.9003,
+  },
 ];
 
 export interface Vendor {
@@ -210,6 +598,8 @@ export interface Vendor {
   zipCode?: string;
   phone?: string;
   hours?: string;
+  // Computed from posted hours, e.g. "Closes in 45 min" or "Opens at 11 AM"
+  statusLabel?: string;
   isFoodTruck?: boolean;
 }
 
@@ -222,6 +612,166 @@ export interface Deal {
   discountedPrice: number;
   expiresAt: string;
   image?: string;
+  // Menu items this deal applies to, e.g. "20% off tacos"
+  menuItemIds?: string[];
+}
+
+// A claimed deal: shown to the vendor as a QR code or the numeric code
+export interface RedemptionPass {
+  id: string;
+  dealId: string;
+  code: string | null; // Cleared once the pass expires unused
+  token: string | null;
+  expiresAt: string;
+  verifiedAt: string | null;
+}
+
+export interface VerifiedRedemption {
+  dealTitle: string;
+  customerName: string;
+  verifiedAt: string;
+}
+
+export interface VendorReview {
+  id: string;
+  vendorId: string;
+  rating: number;
+  text: string;
+  photoUrls: string[];
+  reply: string | null;
+  repliedAt: string | null;
+  createdAt: string;
+  authorName: string;
+}
+
+export interface RatingStats {
+  averageRating: number | null;
+  reviewCount: number;
+  distribution: Record<1 | 2 | 3 | 4 | 5, number>;
+}
+
+export interface ReviewPage {
+  reviews: VendorReview[];
+  stats: RatingStats;
+  hasMore: boolean;
+}
+
+export interface ReviewEligibility {
+  canReview: boolean;
+  reason?: "already_reviewed" | "not_customer" | "no_verified_redemption";
+}
+
+export interface NewReview {
+  vendorId: string;
+  rating: number;
+  text: string;
+  photoUrls?: string[];
+}
+
+export type DietaryTag =
+  | "Vegetarian"
+  | "Vegan"
+  | "Gluten-Free"
+  | "Halal"
+  | "Organic"
+  | "Spicy";
+
+export const DIETARY_TAGS: DietaryTag[] = [
+  "Vegetarian",
+  "Vegan",
+  "Gluten-Free",
+  "Halal",
+  "Organic",
+  "Spicy",
+];
+
+export interface MenuItem {
+  id: string;
+  sectionId: string;
+  name: string;
+  description: string | null;
+  price: number;
+  photoUrl: string | null;
+  dietaryTags: DietaryTag[];
+  isSoldOut: boolean;
+  position: number;
+}
+
+export interface MenuSection {
+  id: string;
+  name: string;
+  position: number;
+  items: MenuItem[];
+}
+
+export interface VendorMenu {
+  sections: MenuSection[];
+  // Summary in the same format as Vendor.dietary, e.g. "Vegan Options"
+  dietary: string[];
+}
+
+export type MenuItemInput = Omit<
+  MenuItem,
+  "id" | "position" | "description" | "photoUrl"
+> & {
+  description?: string | null;
+  photoUrl?: string | null;
+};
+
+export interface VendorShift {
+  dayOfWeek: number; // 0 = Sunday
+  opensAt: string; // "HH:MM", 24-hour
+  closesAt: string;
+}
+
+export interface SpecialHours {
+  id: string;
+  date: string; // "YYYY-MM-DD" in the vendor's timezone
+  isClosed: boolean;
+  opensAt: string | null;
+  closesAt: string | null;
+  note: string | null;
+}
+
+export interface VendorHours {
+  timezone: string;
+  shifts: VendorShift[];
+  specialHours: SpecialHours[];
+  isOpen: boolean | null;
+  statusLabel: string | null;
+}
+
+export type NewSpecialHours = Omit<
+  SpecialHours,
+  "id" | "opensAt" | "closesAt" | "note"
+> & {
+  opensAt?: string;
+  closesAt?: string;
+  note?: string;
+};
+
+export type BoostLevel = "basic" | "premium" | "spotlight";
+
+// Prices come from the server, which is what Stripe charges
+export interface BoostPlan {
+  level: BoostLevel;
+  name: string;
+  description: string;
+  price: number;
+  currency: string;
+  durationHours: number;
+}
+
+export interface VendorBoost {
+  id: string;
+  level: BoostLevel;
+  name: string;
+  status: "pending" | "active" | "expired";
+  amount: number;
+  currency: string;
+  startsAt: string | null;
+  endsAt: string | null;
+  createdAt: string;
 }
 
 export interface Favorite {
@@ -240,24 +790,67 @@ export interface Promotion {
   isActive: boolean;
   category?: FoodCategory;
   image?: string;
+  menuItemIds?: string[];
 }
 
+// Computed by the server: top 10% by spend, no visit in 30 days, first visit in the last 30 days
+export type CustomerSegment = "top" | "at_risk" | "new";
+
+// From /api/vendors/listing/my/customers; customers who opted out of sharing aren't listed
 export interface CustomerRecord {
   id: string;
   name: string;
   email: string;
   visitCount: number;
+  firstVisit: string;
   lastVisit: string;
   totalSpent: number;
+  totalSaved: number;
+  redemptionCount: number;
+  checkInCount: number;
+  segments: CustomerSegment[];
   avatar?: string;
 }
 
+export interface AnalyticsCounts {
+  impressions: number;
+  pageViews: number;
+  directions: number;
+  shares: number;
+  redemptions: number;
+  clicks: number; // Page views plus direction taps
+  revenue: number;
+}
+
+// From /api/vendors/analytics; buckets are dates (or date + hour) in the vendor's timezone
+export interface AnalyticsReport {
+  from: string;
+  to: string;
+  timezone: string;
+  granularity: "day" | "hour";
+  dealId: string | null;
+  totals: AnalyticsCounts;
+  trend: (AnalyticsCounts & { bucket: string })[];
+}
+
+export interface AnalyticsQuery {
+  from?: string; // YYYY-MM-DD
+  to?: string;
+  granularity?: "day" | "hour";
+  dealId?: string;
+}
+
+type AnalyticsKpi = "impressions" | "clicks" | "redemptions" | "revenue";
+
 export interface VendorAnalytics {
   impressions: number;
   clicks: number;
   redemptions: number;
   revenue: number;
-  trend: number[];
+  trend: number[]; // Clicks per day, oldest first
+  trendDates: string[];
+  // Percent change from the period before; null when there's nothing to compare with
+  change: Record<AnalyticsKpi, number | null>;
 }
 
 interface DataContextType {
@@ -268,6 +861,8 @@ interface DataContextType {
   customers: CustomerRecord[];
   analytics: VendorAnalytics;
   flashDeals: FlashDeal[];
+  vendorFlashDeals: FlashDeal[];
+  redemptions: RedemptionPass[];
   selectedCategory: FoodCategory;
   searchLocation: CityLocation | null;
   setSelectedCategory: (category: FoodCategory) => void;
@@ -280,23 +875,96 @@ interface DataContextType {
   removeFavorite: (vendorId: string) => Promise<void>;
   toggleNotifyNearby: (vendorId: string) => Promise<void>;
   isFavorite: (vendorId: string) => boolean;
+  flashDealVendorIds: string[]; // Vendors the customer gets flash deal pushes for
+  toggleFlashDealAlerts: (vendorId: string) => Promise<void>;
   getVendorById: (id: string) => Vendor | undefined;
   getDealsByVendor: (vendorId: string) => Deal[];
+  refreshDeals: () => Promise<void>;
+  refreshPromotions: () => Promise<void>;
+  refreshAnalytics: () => Promise<void>;
+  refreshCustomers: () => Promise<void>;
+  checkIn: (
+    vendorId: string,
+    latitude: number,
+    longitude: number,
+  ) => Promise<string>;
+  fetchVendorAnalytics: (query?: AnalyticsQuery) => Promise<AnalyticsReport>;
+  refreshRedemptions: () => Promise<void>;
   addPromotion: (promo: Omit<Promotion, "id">) => Promise<void>;
   updatePromotion: (id: string, updates: Partial<Promotion>) => Promise<void>;
   deletePromotion: (id: string) => Promise<void>;
-  createFlashDeal: (deal: Omit<FlashDeal, "id" | "createdAt" | "currentRedemptions" | "isFlash">) => Promise<FlashDeal>;
-  redeemFlashDeal: (dealId: string) => Promise<boolean>;
+  createFlashDeal: (
+    deal: Omit<
+      FlashDeal,
+      "id" | "createdAt" | "currentRedemptions" | "isFlash"
+    >,
+  ) => Promise<FlashDeal>;
+  redeemDeal: (dealId: string) => Promise<RedemptionPass>;
+  getRedemptionForDeal: (dealId: string) => RedemptionPass | undefined;
+  verifyRedemption: (input: {
+    token?: string;
+    code?: string;
+  }) => Promise<VerifiedRedemption>;
   deleteFlashDeal: (dealId: string) => Promise<void>;
-  checkNearbyVendorsForNotifications: (userLat: number, userLon: number, alertRadiusMiles?: number) => Promise<void>;
+  fetchVendorReviews: (
+    vendorId: string,
+    offset?: number,
+  ) => Promise<ReviewPage>;
+  fetchMyListingReviews: (offset?: number) => Promise<ReviewPage>;
+  getReviewEligibility: (vendorId: string) => Promise<ReviewEligibility>;
+  submitReview: (review: NewReview) => Promise<VendorReview>;
+  replyToReview: (reviewId: string, reply: string) => Promise<VendorReview>;
+  fetchVendorMenu: (vendorId: string) => Promise<VendorMenu>;
+  fetchMyMenu: () => Promise<VendorMenu>;
+  createMenuSection: (name: string) => Promise<void>;
+  renameMenuSection: (sectionId: string, name: string) => Promise<void>;
+  deleteMenuSection: (sectionId: string) => Promise<void>;
+  createMenuItem: (item: MenuItemInput) => Promise<MenuItem>;
+  updateMenuItem: (
+    itemId: string,
+    updates: Partial<MenuItemInput>,
+  ) => Promise<MenuItem>;
+  deleteMenuItem: (itemId: string) => Promise<void>;
+  fetchVendorHours: (vendorId: string) => Promise<VendorHours>;
+  fetchMyHours: () => Promise<VendorHours>;
+  saveWeeklyHours: (
+    shifts: VendorShift[],
+    timezone?: string,
+  ) => Promise<VendorHours>;
+  addSpecialHours: (entry: NewSpecialHours) => Promise<VendorHours>;
+  removeSpecialHours: (id: string) => Promise<VendorHours>;
+  fetchPhotos: (
+    ownerType: PhotoOwnerType,
+    ownerId: string,
+  ) => Promise<UploadedPhoto[]>;
+  uploadPhoto: (
+    ownerType: PhotoOwnerType,
+    ownerId: string,
+    uri: string,
+    caption?: string,
+  ) => Promise<UploadedPhoto>;
+  deletePhoto: (photoId: string) => Promise<UploadedPhoto[]>;
+  fetchLocationHistory: () => Promise<LocationHistoryEntry[]>;
+  fetchLocationAnalytics: (limit?: number) => Promise<LocationAnalytics[]>;
+  fetchBoostPlans: () => Promise<BoostPlan[]>;
+  fetchMyBoosts: () => Promise<{
+    activeBoost: VendorBoost | null;
+    boosts: VendorBoost[];
+  }>;
+  startBoostCheckout: (
+    level: BoostLevel,
+  ) => Promise<{ url: string; boost: VendorBoost }>;
+  checkNearbyVendorsForNotifications: (
+    userLat: number,
+    userLon: number,
+    alertRadiusMiles?: number,
+  ) => Promise<void>;
   isLoading: boolean;
 }
 
 const DataContext = createContext<DataContextType | undefined>(undefined);
 
 const FAVORITES_KEY = "@smartdealsiq_favorites";
-const PROMOTIONS_KEY = "@smartdealsiq_promotions";
-const FLASH_DEALS_KEY = "@smartdealsiq_flash_deals";
 
 // Re-export FlashDeal for convenience
 export type { FlashDeal };
@@ -331,7 +999,7 @@ const mockVendors: Vendor[] = [
     reviewCount: 89,
     image: "https://images.unsplash.com/photo-1498654896293-37aacf113fd9?w=400",
     latitude: 37.7751,
-    longitude: -122.4180,
+    longitude: -122.418,
     isOpen: true,
     priceRange: "$$",
     dietary: ["Spicy Options"],
@@ -343,12 +1011,13 @@ const mockVendors: Vendor[] = [
     name: "Napoli Pizzeria",
     cuisine: "Italian",
     category: "Italian",
-    description: "Family-owned restaurant serving authentic wood-fired pizza since 1985",
+    description:
+      "Family-owned restaurant serving authentic wood-fired pizza since 1985",
     rating: 4.9,
     reviewCount: 203,
     image: "https://images.unsplash.com/photo-1574071318508-1cdbab80d002?w=400",
     latitude: 37.7755,
-    longitude: -122.4200,
+    longitude: -122.42,
     isOpen: false,
     priceRange: "$$",
     dietary: ["Vegetarian"],
@@ -365,7 +1034,7 @@ const mockVendors: Vendor[] = [
     reviewCount: 178,
     image: "https://images.unsplash.com/photo-1529193591184-b1d58069ecdd?w=400",
     latitude: 37.7745,
-    longitude: -122.4210,
+    longitude: -122.421,
     isOpen: true,
     priceRange: "$$$",
     dietary: [],
@@ -378,11 +1047,12 @@ const mockVendors: Vendor[] = [
     name: "Green Bowl Cafe",
     cuisine: "Healthy",
     category: "Healthy",
-    description: "Neighborhood cafe with fresh salads, smoothie bowls, and cold-pressed juices",
+    description:
+      "Neighborhood cafe with fresh salads, smoothie bowls, and cold-pressed juices",
     rating: 4.5,
     reviewCount: 67,
     image: "https://images.unsplash.com/photo-1512621776951-a57141f2eefd?w=400",
-    latitude: 37.7760,
+    latitude: 37.776,
     longitude: -122.4185,
     isOpen: true,
     priceRange: "$$",
@@ -395,11 +1065,12 @@ const mockVendors: Vendor[] = [
     name: "Sweet Delights Bakery",
     cuisine: "Desserts",
     category: "Desserts",
-    description: "Local bakery with gourmet ice cream sandwiches, pastries, and churros",
+    description:
+      "Local bakery with gourmet ice cream sandwiches, pastries, and churros",
     rating: 4.8,
     reviewCount: 134,
     image: "https://images.unsplash.com/photo-1551024506-0bccd828d307?w=400",
-    latitude: 37.7740,
+    latitude: 37.774,
     longitude: -122.4175,
     isOpen: true,
     priceRange: "$",
@@ -413,7 +1084,8 @@ const mockVendors: Vendor[] = [
     name: "Kogi BBQ Truck",
     cuisine: "Korean-Mexican Fusion",
     category: "Food Truck",
-    description: "Famous Korean-Mexican fusion tacos from the original food truck",
+    description:
+      "Famous Korean-Mexican fusion tacos from the original food truck",
     rating: 4.9,
     reviewCount: 892,
     image: "https://images.unsplash.com/photo-1565123409695-7b5ef63a2efb?w=400",
@@ -436,7 +1108,7 @@ const mockVendors: Vendor[] = [
     reviewCount: 245,
     image: "https://images.unsplash.com/photo-1579871494447-9811cf80d66c?w=400",
     latitude: 34.0525,
-    longitude: -118.2440,
+    longitude: -118.244,
     isOpen: true,
     priceRange: "$$$",
     dietary: ["Gluten-Free Options"],
@@ -452,7 +1124,7 @@ const mockVendors: Vendor[] = [
     rating: 4.7,
     reviewCount: 1523,
     image: "https://images.unsplash.com/photo-1568901346375-23c9450c58cd?w=400",
-    latitude: 34.0530,
+    latitude: 34.053,
     longitude: -118.2435,
     isOpen: true,
     priceRange: "$",
@@ -471,7 +1143,7 @@ const mockVendors: Vendor[] = [
     reviewCount: 2156,
     image: "https://images.unsplash.com/photo-1513104890138-7c749659a591?w=400",
     latitude: 40.7128,
-    longitude: -74.0060,
+    longitude: -74.006,
     isOpen: true,
     priceRange: "$",
     dietary: ["Vegetarian"],
@@ -487,7 +1159,7 @@ const mockVendors: Vendor[] = [
     rating: 4.5,
     reviewCount: 3421,
     image: "https://images.unsplash.com/photo-1529006557810-274b9b2fc783?w=400",
-    latitude: 40.7130,
+    latitude: 40.713,
     longitude: -74.0065,
     isOpen: true,
     priceRange: "$",
@@ -610,8 +1282,8 @@ const mockVendors: Vendor[] = [
     rating: 4.8,
     reviewCount: 2789,
     image: "https://images.unsplash.com/photo-1559737558-2f5a35f4523b?w=400",
-    latitude: 25.7620,
-    longitude: -80.1920,
+    latitude: 25.762,
+    longitude: -80.192,
     isOpen: true,
     priceRange: "$$$",
     dietary: ["Gluten-Free Options"],
@@ -646,8 +1318,8 @@ const mockVendors: Vendor[] = [
     rating: 4.7,
     reviewCount: 876,
     image: "https://images.unsplash.com/photo-1504754524776-8f4f37790ca0?w=400",
-    latitude: 28.5390,
-    longitude: -81.3800,
+    latitude: 28.539,
+    longitude: -81.38,
     isOpen: true,
     priceRange: "$",
     dietary: ["Vegetarian Options"],
@@ -678,7 +1350,8 @@ const mockVendors: Vendor[] = [
     name: "Columbia Restaurant",
     cuisine: "Spanish",
     category: "Mexican",
-    description: "Florida's oldest restaurant, serving Spanish-Cuban cuisine since 1905",
+    description:
+      "Florida's oldest restaurant, serving Spanish-Cuban cuisine since 1905",
     rating: 4.7,
     reviewCount: 3456,
     image: "https://images.unsplash.com/photo-1414235077428-338989a2e8c0?w=400",
@@ -699,8 +1372,8 @@ const mockVendors: Vendor[] = [
     rating: 4.9,
     reviewCount: 2876,
     image: "https://images.unsplash.com/photo-1546833999-b9f581a1996d?w=400",
-    latitude: 27.9510,
-    longitude: -82.4580,
+    latitude: 27.951,
+    longitude: -82.458,
     isOpen: true,
     priceRange: "$$$",
     dietary: [],
@@ -716,7 +1389,7 @@ const mockVendors: Vendor[] = [
     rating: 4.5,
     reviewCount: 1234,
     image: "https://images.unsplash.com/photo-1552332386-f8dd00dc2f85?w=400",
-    latitude: 27.9500,
+    latitude: 27.95,
     longitude: -82.4565,
     isOpen: true,
     priceRange: "$",
@@ -752,8 +1425,8 @@ const mockVendors: Vendor[] = [
     rating: 4.7,
     reviewCount: 987,
     image: "https://images.unsplash.com/photo-1615141982883-c7ad0e69fd62?w=400",
-    latitude: 30.3330,
-    longitude: -81.6560,
+    latitude: 30.333,
+    longitude: -81.656,
     isOpen: true,
     priceRange: "$$",
     dietary: ["Gluten-Free Options"],
@@ -787,8 +1460,8 @@ const mockVendors: Vendor[] = [
     rating: 4.6,
     reviewCount: 1876,
     image: "https://images.unsplash.com/photo-1517248135467-4c7edcad34c4?w=400",
-    latitude: 26.1230,
-    longitude: -80.1380,
+    latitude: 26.123,
+    longitude: -80.138,
     isOpen: true,
     priceRange: "$$$",
     dietary: ["Vegetarian", "Gluten-Free Options"],
@@ -840,8 +1513,8 @@ const mockVendors: Vendor[] = [
     rating: 4.5,
     reviewCount: 876,
     image: "https://images.unsplash.com/photo-1555992336-03a23c7b20ee?w=400",
-    latitude: 27.7680,
-    longitude: -82.6410,
+    latitude: 27.768,
+    longitude: -82.641,
     isOpen: true,
     priceRange: "$$",
     dietary: ["Vegetarian Options"],
@@ -858,7 +1531,7 @@ const mockVendors: Vendor[] = [
     rating: 4.7,
     reviewCount: 654,
     image: "https://images.unsplash.com/photo-1559339352-11d035aa65de?w=400",
-    latitude: 26.1420,
+    latitude: 26.142,
     longitude: -81.7948,
     isOpen: true,
     priceRange: "$$",
@@ -984,8 +1657,8 @@ const mockVendors: Vendor[] = [
     rating: 4.8,
     reviewCount: 1654,
     image: "https://images.unsplash.com/photo-1509042239860-f550ce710b93?w=400",
-    latitude: 25.7900,
-    longitude: -80.1300,
+    latitude: 25.79,
+    longitude: -80.13,
     isOpen: true,
     priceRange: "$",
     dietary: ["Vegetarian Options"],
@@ -1003,374 +1676,531 @@ const mockVendors: Vendor[] = [
     rating: 4.6,
     reviewCount: 432,
     image: "https://images.unsplash.com/photo-1586511925558-a4c6376fe65f?w=400",
-    latitude: 28.5400,
-    longitude: -81.3810,
+    latitude: 28.54,
+    longitude: -81.381,
     isOpen: true,
     priceRange: "$",
     dietary: ["Vegetarian", "Vegan Options"],
     city: "Orlando",
     zipCode: "32803",
-    isFoodTruck: true,
-  },
-];
-
-const mockDeals: Deal[] = [
-  {
-    id: "d1",
-    vendorId: "1",
-    title: "Taco Tuesday Special",
-    description: "Buy 2 tacos, get 1 free! Valid until 2pm",
-    originalPrice: 12,
-    discountedPrice: 8,
-    expiresAt: new Date(Date.now() + 3600000 * 2).toISOString(),
-  },
-  {
-    id: "d2",
-    vendorId: "2",
-    title: "Lunch Combo Deal",
-    description: "Korean BBQ bowl + drink for special price",
-    originalPrice: 18,
-    discountedPrice: 14,
-    expiresAt: new Date(Date.now() + 3600000 * 4).toISOString(),
-  },
-  {
-    id: "d3",
-    vendorId: "4",
-    title: "Happy Hour BBQ",
-    description: "15% off all platters between 3-5pm",
-    originalPrice: 25,
-    discountedPrice: 21.25,
-    expiresAt: new Date(Date.now() + 3600000 * 5).toISOString(),
-  },
-  {
-    id: "d4",
-    vendorId: "5",
-    title: "Morning Boost",
-    description: "Free smoothie shot with any bowl purchase",
-    originalPrice: 15,
-    discountedPrice: 12,
-    expiresAt: new Date(Date.now() + 3600000 * 1).toISOString(),
-  },
-  {
-    id: "d5",
-    vendorId: "6",
-    title: "Sweet Deal",
-    description: "2 churros for the price of 1",
-    originalPrice: 8,
-    discountedPrice: 4,
-    expiresAt: new Date(Date.now() + 3600000 * 3).toISOString(),
-  },
-  // Florida Deals - Miami
-  {
-    id: "d6",
-    vendorId: "17",
-    title: "Cuban Feast Special",
-    description: "Complete Cuban dinner for 2 with appetizer, entrees & dessert",
-    originalPrice: 65,
-    discountedPrice: 49,
-    expiresAt: new Date(Date.now() + 3600000 * 6).toISOString(),
-  },
-  {
-    id: "d7",
-    vendorId: "18",
-    title: "Stone Crab Season Deal",
-    description: "1 lb of stone crab claws with mustard sauce - 20% off",
-    originalPrice: 75,
-    discountedPrice: 60,
-    expiresAt: new Date(Date.now() + 3600000 * 8).toISOString(),
-  },
-  {
-    id: "d8",
-    vendorId: "39",
-    title: "Cafecito Combo",
-    description: "Cuban coffee + 2 pastelitos for breakfast special",
-    originalPrice: 8,
-    discountedPrice: 5,
-    expiresAt: new Date(Date.now() + 3600000 * 3).toISOString(),
-  },
-  // Orlando Deals
-  {
-    id: "d9",
-    vendorId: "19",
-    title: "Smokehouse Sampler",
-    description: "Try our brisket, ribs & pulled pork sampler plate",
-    originalPrice: 32,
-    discountedPrice: 24,
-    expiresAt: new Date(Date.now() + 3600000 * 5).toISOString(),
-  },
-  {
-    id: "d10",
-    vendorId: "20",
-    title: "Biscuit Breakfast Bundle",
-    description: "2 signature biscuits + coffee + side for brunch",
-    originalPrice: 22,
-    discountedPrice: 16,
-    expiresAt: new Date(Date.now() + 3600000 * 4).toISOString(),
-  },
-  {
-    id: "d11",
-    vendorId: "21",
-    title: "Taco Flight",
-    description: "Try 4 different tacos at a special price",
-    originalPrice: 18,
-    discountedPrice: 14,
-    expiresAt: new Date(Date.now() + 3600000 * 6).toISOString(),
-  },
-  {
-    id: "d12",
-    vendorId: "40",
-    title: "Tamale Tuesday",
-    description: "Buy 3 tamales, get 1 free!",
-    originalPrice: 16,
-    discountedPrice: 12,
-    expiresAt: new Date(Date.now() + 3600000 * 5).toISOString(),
-  },
-  // Tampa Deals
-  {
-    id: "d13",
-    vendorId: "22",
-    title: "Columbia 1905 Salad Special",
-    description: "Famous 1905 Salad + entree combo",
-    originalPrice: 38,
-    discountedPrice: 29,
-    expiresAt: new Date(Date.now() + 3600000 * 7).toISOString(),
-  },
-  {
-    id: "d14",
-    vendorId: "23",
-    title: "Steak & Dessert Experience",
-    description: "Any steak + dessert room visit with wine pairing",
-    originalPrice: 120,
-    discountedPrice: 95,
-    expiresAt: new Date(Date.now() + 3600000 * 10).toISOString(),
-  },
-  {
-    id: "d15",
-    vendorId: "24",
-    title: "Taco Bus Party Pack",
-    description: "12 tacos + chips & salsa for groups",
-    originalPrice: 36,
-    discountedPrice: 28,
-    expiresAt: new Date(Date.now() + 3600000 * 4).toISOString(),
-  },
-  // Jacksonville Deals
-  {
-    id: "d16",
-    vendorId: "25",
-    title: "Fried Chicken & Waffles",
-    description: "Famous chicken & waffles with bottomless coffee",
-    originalPrice: 19,
-    discountedPrice: 14,
-    expiresAt: new Date(Date.now() + 3600000 * 5).toISOString(),
-  },
-  {
-    id: "d17",
-    vendorId: "26",
-    title: "Fresh Catch Special",
-    description: "Today's fresh catch with 2 sides - dock to table",
-    originalPrice: 28,
-    discountedPrice: 22,
-    expiresAt: new Date(Date.now() + 3600000 * 6).toISOString(),
-  },
-  // Fort Lauderdale Deals
-  {
-    id: "d18",
-    vendorId: "27",
-    title: "Tableside Guac + Margaritas",
-    description: "Fresh guacamole + 2 house margaritas",
-    originalPrice: 32,
-    discountedPrice: 24,
-    expiresAt: new Date(Date.now() + 3600000 * 4).toISOString(),
-  },
-  {
-    id: "d19",
-    vendorId: "28",
-    title: "Oceanfront Sunset Dinner",
-    description: "3-course dinner with ocean view seating",
-    originalPrice: 65,
-    discountedPrice: 52,
-    expiresAt: new Date(Date.now() + 3600000 * 8).toISOString(),
-  },
-  // West Palm Beach
-  {
-    id: "d20",
-    vendorId: "29",
-    title: "Farm-to-Table Prix Fixe",
-    description: "Chef's 3-course seasonal tasting menu",
-    originalPrice: 55,
-    discountedPrice: 42,
-    expiresAt: new Date(Date.now() + 3600000 * 6).toISOString(),
-  },
-  // St. Petersburg Deals
-  {
-    id: "d21",
-    vendorId: "30",
-    title: "Comfort Food Combo",
-    description: "Burger + loaded fries + craft beer",
-    originalPrice: 28,
-    discountedPrice: 21,
-    expiresAt: new Date(Date.now() + 3600000 * 5).toISOString(),
-  },
-  {
-    id: "d22",
-    vendorId: "31",
-    title: "Cuban Brunch Special",
-    description: "Brunch platter + Cuban coffee + mimosa",
-    originalPrice: 26,
-    discountedPrice: 19,
-    expiresAt: new Date(Date.now() + 3600000 * 4).toISOString(),
-  },
-  // Naples
-  {
-    id: "d23",
-    vendorId: "32",
-    title: "Local Favorites Sampler",
-    description: "Try 3 local favorites + craft beer flight",
-    originalPrice: 38,
-    discountedPrice: 29,
-    expiresAt: new Date(Date.now() + 3600000 * 6).toISOString(),
-  },
-  // Sarasota
-  {
-    id: "d24",
-    vendorId: "33",
-    title: "James Beard Tasting Menu",
-    description: "5-course tasting menu with wine pairings",
-    originalPrice: 95,
-    discountedPrice: 75,
-    expiresAt: new Date(Date.now() + 3600000 * 8).toISOString(),
-  },
-  // Boca Raton
-  {
-    id: "d25",
-    vendorId: "34",
-    title: "Healthy Power Lunch",
-    description: "Organic bowl + fresh juice + superfood smoothie",
-    originalPrice: 32,
-    discountedPrice: 24,
-    expiresAt: new Date(Date.now() + 3600000 * 4).toISOString(),
-  },
-  // Gainesville
-  {
-    id: "d26",
-    vendorId: "35",
-    title: "Gator Game Day Special",
-    description: "Appetizer platter + pitchers for game watching",
-    originalPrice: 45,
-    discountedPrice: 35,
-    expiresAt: new Date(Date.now() + 3600000 * 5).toISOString(),
-  },
-  // Tallahassee
-  {
-    id: "d27",
-    vendorId: "36",
-    title: "Creative Lunch Special",
-    description: "Chef's daily special + soup + drink",
-    originalPrice: 24,
-    discountedPrice: 18,
-    expiresAt: new Date(Date.now() + 3600000 * 4).toISOString(),
-  },
-  // Clearwater
-  {
-    id: "d28",
-    vendorId: "37",
-    title: "Grouper Sandwich Combo",
-    description: "Famous grouper sandwich + fries + sunset view",
-    originalPrice: 22,
-    discountedPrice: 17,
-    expiresAt: new Date(Date.now() + 3600000 * 6).toISOString(),
-  },
-  // Fort Myers
-  {
-    id: "d29",
-    vendorId: "38",
-    title: "Southern Sunday Brunch",
-    description: "Brunch buffet with champagne in historic setting",
-    originalPrice: 48,
-    discountedPrice: 38,
-    expiresAt: new Date(Date.now() + 3600000 * 8).toISOString(),
+    isFoodTruck: true,
   },
 ];
 
-const mockCustomers: CustomerRecord[] = [
-  { id: "c1", name: "Sarah Johnson", email: "sarah@email.com", visitCount: 12, lastVisit: "2024-12-28", totalSpent: 156.50 },
-  { id: "c2", name: "Mike Chen", email: "mike@email.com", visitCount: 8, lastVisit: "2024-12-27", totalSpent: 98.00 },
-  { id: "c3", name: "Emily Davis", email: "emily@email.com", visitCount: 23, lastVisit: "2024-12-29", totalSpent: 287.25 },
-  { id: "c4", name: "James Wilson", email: "james@email.com", visitCount: 5, lastVisit: "2024-12-20", totalSpent: 62.00 },
-  { id: "c5", name: "Lisa Garcia", email: "lisa@email.com", visitCount: 15, lastVisit: "2024-12-28", totalSpent: 198.75 },
-];
-
-const mockAnalytics: VendorAnalytics = {
-  impressions: 2847,
-  clicks: 456,
-  redemptions: 89,
-  revenue: 1234.50,
-  trend: [120, 145, 132, 178, 165, 189, 210],
+// Server listing category -> customer-facing category
+const LISTING_CATEGORY_MAP: Record<string, FoodCategory> = {
+  food_truck: "Food Truck",
+  restaurant: "American",
+  vendor: "Food Truck",
+  bakery: "Bakery",
+  cafe: "Coffee",
+  bar_lounge: "Bar & Lounge",
+  juice_smoothie: "Juice & Smoothie",
+  catering: "Catering",
+  food_delivery: "Delivery",
+  boutique: "Boutique",
+  jewelry: "Jewelry",
+  electronics: "Electronics",
+  thrift_vintage: "Thrift & Vintage",
+  smoke_vape: "Smoke & Vape",
+  pet_store: "Pet Store",
+  salon: "Salon",
+  barbershop: "Barbershop",
+  nail_spa: "Nail & Spa",
+  massage: "Massage",
+  gym_fitness: "Gym & Fitness",
+  tattoo_piercing: "Tattoo & Piercing",
+  auto_detailing: "Auto Detailing",
+  auto_repair: "Auto Repair",
+  tire_shop: "Tire Shop",
+  cleaning: "Cleaning",
+  handyman: "Handyman",
+  landscaping: "Landscaping",
+  photography: "Photography",
+  printing: "Printing",
+  nightclub: "Nightclub",
+  escape_room: "Escape Room",
+  event_venue: "Event Venue",
+  dispensary: "Dispensary",
 };
 
-const initialFlashDeals: FlashDeal[] = [
-  {
-    id: "flash1",
-    vendorId: "1",
-    vendorName: "Taco Loco",
-    title: "50% OFF All Burritos",
-    description: "Flash sale! Get any burrito at half price. Limited time only!",
-    originalPrice: 12.99,
-    discountedPrice: 6.49,
-    discountPercent: 50,
-    expiresAt: new Date(Date.now() + 1800000).toISOString(), // 30 mins from now
-    createdAt: new Date().toISOString(),
-    category: "Mexican",
-    isFlash: true,
-    maxRedemptions: 50,
-    currentRedemptions: 23,
-  },
-  {
-    id: "flash2",
-    vendorId: "4",
-    vendorName: "BBQ Boss",
-    title: "BOGO Ribs Special",
-    description: "Buy one rack of ribs, get one FREE! While supplies last.",
-    originalPrice: 28.99,
-    discountedPrice: 14.49,
-    discountPercent: 50,
-    expiresAt: new Date(Date.now() + 3600000).toISOString(), // 1 hour from now
-    createdAt: new Date().toISOString(),
-    category: "BBQ",
-    isFlash: true,
-    maxRedemptions: 30,
-    currentRedemptions: 12,
-  },
-  {
-    id: "flash3",
-    vendorId: "7",
-    vendorName: "Kogi BBQ Truck",
-    title: "Lightning Deal: 40% OFF",
-    description: "All fusion tacos 40% off for the next hour!",
-    originalPrice: 15.99,
-    discountedPrice: 9.59,
-    discountPercent: 40,
-    expiresAt: new Date(Date.now() + 2700000).toISOString(), // 45 mins from now
-    createdAt: new Date().toISOString(),
-    category: "Food Truck",
+// Deal as returned by the server's /api/deals endpoints
+interface ServerDeal {
+  id: string;
+  vendorId: string;
+  title: string;
+  description: string;
+  originalPrice: number;
+  discountedPrice: number;
+  category?: string | null;
+  imageUrl?: string | null;
+  startDate: string;
+  endDate: string;
+  isActive?: boolean;
+  isFlash?: boolean;
+  maxRedemptions?: number | null;
+  currentRedemptions?: number;
+  menuItemIds?: string[];
+  vendor?: {
+    id: string;
+    businessName: string;
+    category: string;
+    description?: string | null;
+    locationLat: number;
+    locationLng: number;
+    city: string;
+    state: string;
+    isOpen?: boolean | null;
+    statusLabel?: string | null;
+  };
+}
+
+function toDeal(deal: ServerDeal): Deal {
+  return {
+    id: deal.id,
+    vendorId: deal.vendorId,
+    title: deal.title,
+    description: deal.description,
+    originalPrice: deal.originalPrice,
+    discountedPrice: deal.discountedPrice,
+    expiresAt: deal.endDate,
+    image: deal.imageUrl || undefined,
+    menuItemIds: deal.menuItemIds || [],
+  };
+}
+
+function toFlashDeal(deal: ServerDeal, vendorName?: string): FlashDeal {
+  return {
+    id: deal.id,
+    vendorId: deal.vendorId,
+    vendorName: deal.vendor?.businessName || vendorName || "",
+    title: deal.title,
+    description: deal.description,
+    originalPrice: deal.originalPrice,
+    discountedPrice: deal.discountedPrice,
+    discountPercent: Math.round(
+      (1 - deal.discountedPrice / deal.originalPrice) * 100,
+    ),
+    expiresAt: deal.endDate,
+    createdAt: deal.startDate,
+    category: deal.category || undefined,
+    image: deal.imageUrl || undefined,
     isFlash: true,
-    maxRedemptions: 100,
-    currentRedemptions: 67,
-  },
-];
+    maxRedemptions: deal.maxRedemptions ?? undefined,
+    currentRedemptions: deal.currentRedemptions ?? 0,
+  };
+}
+
+function toVendor(vendor: NonNullable<ServerDeal["vendor"]>): Vendor {
+  const category = LISTING_CATEGORY_MAP[vendor.category] || "Food Truck";
+  return {
+    id: vendor.id,
+    name: vendor.businessName,
+    cuisine: category,
+    category,
+    description: vendor.description || "",
+    rating: 0,
+    reviewCount: 0,
+    image: "",
+    latitude: vendor.locationLat,
+    longitude: vendor.locationLng,
+    // Vendors without posted hours can't be confirmed open
+    isOpen: vendor.isOpen === true,
+    statusLabel: vendor.statusLabel || undefined,
+    priceRange: "$$",
+    dietary: [],
+    city: vendor.city,
+    isFoodTruck: vendor.category === "food_truck",
+  };
+}
+
+function toPromotion(deal: ServerDeal): Promotion {
+  return {
+    id: deal.id,
+    title: deal.title,
+    description: deal.description,
+    originalPrice: deal.originalPrice,
+    discountedPrice: deal.discountedPrice,
+    startDate: deal.startDate,
+    endDate: deal.endDate,
+    isActive: deal.isActive ?? true,
+    category: (deal.category as FoodCategory) || undefined,
+    image: deal.imageUrl || undefined,
+    menuItemIds: deal.menuItemIds || [],
+  };
+}
+
+// Map client promotion fields to the server deal payload
+function toDealPayload(promo: Partial<Promotion>) {
+  const { image, id: _id, ...rest } = promo;
+  return image !== undefined ? { ...rest, imageUrl: image } : rest;
+}
+
+const REVIEW_PAGE_SIZE = 10;
+
+interface ServerReview {
+  id: string;
+  vendorId: string;
+  rating: number;
+  text: string;
+  photoUrls: string[];
+  reply: string | null;
+  repliedAt: string | null;
+  createdAt: string;
+  author: { name: string };
+}
+
+function toReview(review: ServerReview): VendorReview {
+  return {
+    id: review.id,
+    vendorId: review.vendorId,
+    rating: review.rating,
+    text: review.text,
+    photoUrls: review.photoUrls || [],
+    reply: review.reply,
+    repliedAt: review.repliedAt,
+    createdAt: review.createdAt,
+    authorName: review.author?.name || "Customer",
+  };
+}
+
+async function toReviewPage(response: Response): Promise<ReviewPage> {
+  const data: {
+    reviews: ServerReview[];
+    stats: RatingStats;
+    hasMore: boolean;
+  } = await response.json();
+  return {
+    reviews: data.reviews.map(toReview),
+    stats: data.stats,
+    hasMore: data.hasMore,
+  };
+}
+
+interface ServerLocationSession {
+  id: string;
+  latitude: number;
+  longitude: number;
+  address: string | null;
+  startedAt: string;
+  endedAt: string | null;
+  customersServed: number | null;
+  revenue: number | null;
+  notes: string | null;
+}
+
+function toLocationHistoryEntry(
+  session: ServerLocationSession,
+): LocationHistoryEntry {
+  return {
+    id: session.id,
+    latitude: session.latitude,
+    longitude: session.longitude,
+    address: session.address ?? undefined,
+    startTime: session.startedAt,
+    endTime: session.endedAt ?? undefined,
+    customersServed: session.customersServed ?? undefined,
+    revenue: session.revenue ?? undefined,
+    notes: session.notes ?? undefined,
+  };
+}
+
+interface ServerLocationSpot {
+  spotId: string;
+  address: string;
+  visitCount: number;
+  avgCustomers: number;
+  avgRevenue: number;
+  bestDays: string[];
+  bestTimeSlot: string;
+  rating: number;
+}
+
+function toLocationAnalytics(spot: ServerLocationSpot): LocationAnalytics {
+  return {
+    locationId: spot.spotId,
+    address: spot.address,
+    visitCount: spot.visitCount,
+    avgCustomers: spot.avgCustomers,
+    avgRevenue: spot.avgRevenue,
+    bestDays: spot.bestDays,
+    bestTimeSlot: spot.bestTimeSlot,
+    rating: spot.rating,
+  };
+}
+
+async function readError(response: Response, fallback: string): Promise<Error> {
+  try {
+    const data = await response.json();
+    return new Error(data.error || fallback);
+  } catch {
+    return new Error(fallback);
+  }
+}
+
+type ServerCustomer = Omit<CustomerRecord, "avatar"> & {
+  avatarUrl: string | null;
+};
+
+function toCustomerRecord(customer: ServerCustomer): CustomerRecord {
+  const { avatarUrl, ...rest } = customer;
+  return { ...rest, avatar: avatarUrl ?? undefined };
+}
+
+// The dashboard shows this many days, compared with the same number before them
+const ANALYTICS_DAYS = 7;
+
+const emptyAnalytics: VendorAnalytics = {
+  impressions: 0,
+  clicks: 0,
+  redemptions: 0,
+  revenue: 0,
+  trend: [],
+  trendDates: [],
+  change: { impressions: null, clicks: null, redemptions: null, revenue: null },
+};
+
+function toLocalDateString(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Split a report covering two periods into the latest one and its change from the one before
+function toVendorAnalytics(
+  report: AnalyticsReport,
+  days: number,
+): VendorAnalytics {
+  const current = report.trend.slice(-days);
+  const previous = report.trend.slice(0, -days);
+  const sum = (points: AnalyticsReport["trend"], key: AnalyticsKpi) =>
+    points.reduce((total, p) => total + p[key], 0);
+  const changeOf = (key: AnalyticsKpi) => {
+    const before = sum(previous, key);
+    return before > 0
+      ? Math.round(((sum(current, key) - before) / before) * 100)
+      : null;
+  };
+
+  return {
+    impressions: sum(current, "impressions"),
+    clicks: sum(current, "clicks"),
+    redemptions: sum(current, "redemptions"),
+    revenue: Math.round(sum(current, "revenue") * 100) / 100,
+    trend: current.map((p) => p.clicks),
+    trendDates: current.map((p) => p.bucket),
+    change: {
+      impressions: changeOf("impressions"),
+      clicks: changeOf("clicks"),
+      redemptions: changeOf("redemptions"),
+      revenue: changeOf("revenue"),
+    },
+  };
+}
 
 export function DataProvider({ children }: { children: ReactNode }) {
+  const { user, isAuthenticated } = useAuth();
+  const authFetch = useAuthFetch();
+  const { notifications: notificationPrefs } = usePreferences();
   const [favorites, setFavorites] = useState<Favorite[]>([]);
+  const [flashDealVendorIds, setFlashDealVendorIds] = useState<string[]>([]);
   const [promotions, setPromotions] = useState<Promotion[]>([]);
-  const [flashDeals, setFlashDeals] = useState<FlashDeal[]>(initialFlashDeals);
+  const [deals, setDeals] = useState<Deal[]>([]);
+  const [dealVendors, setDealVendors] = useState<Vendor[]>([]);
+  const [flashDeals, setFlashDeals] = useState<FlashDeal[]>([]);
+  const [vendorFlashDeals, setVendorFlashDeals] = useState<FlashDeal[]>([]);
+  const [redemptions, setRedemptions] = useState<RedemptionPass[]>([]);
+  const [analytics, setAnalytics] = useState<VendorAnalytics>(emptyAnalytics);
+  const [customers, setCustomers] = useState<CustomerRecord[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [selectedCategory, setSelectedCategory] = useState<FoodCategory>("All");
-  const [searchLocation, setSearchLocation] = useState<CityLocation | null>(null);
+  const [searchLocation, setSearchLocation] = useState<CityLocation | null>(
+    null,
+  );
 
   useEffect(() => {
     loadData();
   }, []);
 
+  // Vendors from the mock catalog plus any server vendors that have published deals
+  const vendors = React.useMemo(
+    () => [
+      ...dealVendors.filter((v) => !mockVendors.some((m) => m.id === v.id)),
+      ...mockVendors,
+    ],
+    [dealVendors],
+  );
+
+  const refreshDeals = useCallback(async () => {
+    try {
+      const response = await fetch(`${getApiBaseUrl()}/api/deals`);
+      if (!response.ok) {
+        console.warn("[Data] Failed to fetch deals:", response.status);
+        return;
+      }
+
+      const data: { deals: ServerDeal[] } = await response.json();
+      const serverVendors = new Map<string, Vendor>();
+      for (const deal of data.deals) {
+        if (deal.vendor)
+          serverVendors.set(deal.vendor.id, toVendor(deal.vendor));
+      }
+
+      setDeals(data.deals.map(toDeal));
+      setFlashDeals(
+        data.deals.filter((d) => d.isFlash).map((d) => toFlashDeal(d)),
+      );
+      setDealVendors(Array.from(serverVendors.values()));
+    } catch (error) {
+      console.warn("[Data] Deals unavailable (server may be offline):", error);
+    }
+  }, []);
+
+  const refreshPromotions = useCallback(async () => {
+    try {
+      const response = await authFetch("/api/deals/my");
+      if (!response.ok) return;
+
+      const data: { deals: ServerDeal[] } = await response.json();
+      setPromotions(data.deals.filter((d) => !d.isFlash).map(toPromotion));
+      setVendorFlashDeals(
+        data.deals.filter((d) => d.isFlash).map((d) => toFlashDeal(d)),
+      );
+    } catch (error) {
+      console.warn(
+        "[Data] Promotions unavailable (server may be offline):",
+        error,
+      );
+    }
+  }, [authFetch]);
+
+  const fetchVendorAnalytics = useCallback(
+    async (query: AnalyticsQuery = {}): Promise<AnalyticsReport> => {
+      const params = new URLSearchParams();
+      Object.entries(query).forEach(([key, value]) => {
+        if (value) params.set(key, value);
+      });
+      const response = await authFetch(`/api/vendors/analytics?${params}`);
+      if (!response.ok) {
+        throw await readError(response, "Failed to load analytics");
+      }
+      return response.json();
+    },
+    [authFetch],
+  );
+
+  const refreshAnalytics = useCallback(async () => {
+    const today = new Date();
+    const from = new Date(today);
+    from.setDate(today.getDate() - (ANALYTICS_DAYS * 2 - 1));
+    try {
+      const report = await fetchVendorAnalytics({
+        from: toLocalDateString(from),
+        to: toLocalDateString(today),
+      });
+      setAnalytics(toVendorAnalytics(report, ANALYTICS_DAYS));
+    } catch (error) {
+      console.warn(
+        "[Data] Analytics unavailable (server may be offline):",
+        error,
+      );
+    }
+  }, [fetchVendorAnalytics]);
+
+  const refreshCustomers = useCallback(async () => {
+    try {
+      const response = await authFetch("/api/vendors/listing/my/customers");
+      if (!response.ok) return;
+
+      const data: { customers: ServerCustomer[] } = await response.json();
+      setCustomers(data.customers.map(toCustomerRecord));
+    } catch (error) {
+      console.warn(
+        "[Data] Customers unavailable (server may be offline):",
+        error,
+      );
+    }
+  }, [authFetch]);
+
+  const refreshRedemptions = useCallback(async () => {
+    try {
+      const response = await authFetch("/api/redemptions/my");
+      if (!response.ok) return;
+
+      const data: { redemptions: RedemptionPass[] } = await response.json();
+      setRedemptions(data.redemptions);
+    } catch (error) {
+      console.warn(
+        "[Data] Redemptions unavailable (server may be offline):",
+        error,
+      );
+    }
+  }, [authFetch]);
+
+  useEffect(() => {
+    refreshDeals();
+  }, [refreshDeals]);
+
+  useEffect(() => {
+    if (isAuthenticated && user?.role === "customer") {
+      refreshRedemptions();
+    } else {
+      setRedemptions([]);
+    }
+  }, [isAuthenticated, user?.role, refreshRedemptions]);
+
+  // Flash deal pushes come from the server, which needs this device's token and the customer's subscriptions
+  useEffect(() => {
+    if (!isAuthenticated || user?.role !== "customer") {
+      setFlashDealVendorIds([]);
+      return;
+    }
+    registerPushToken(authFetch);
+    syncNotificationSubscriptions(authFetch)
+      .then(getNotificationSettings)
+      .then((settings) => setFlashDealVendorIds(settings.subscribedVendors));
+  }, [isAuthenticated, user?.role, authFetch]);
+
+  // Zone alerts only go out for favorite trucks, so the server keeps a copy of the customer's favorites
+  useEffect(() => {
+    if (!isAuthenticated || user?.role !== "customer") return;
+
+    (async () => {
+      const stored = await AsyncStorage.getItem(FAVORITES_KEY);
+      const local: Favorite[] = stored ? JSON.parse(stored) : [];
+      const missing = await syncFavoriteVendors(
+        local.map((f) => f.vendorId),
+        authFetch,
+      );
+      if (missing.length === 0) return;
+
+      const merged = [
+        ...local,
+        ...missing.map((vendorId) => ({ vendorId, notifyWhenNearby: false })),
+      ];
+      setFavorites(merged);
+      await AsyncStorage.setItem(FAVORITES_KEY, JSON.stringify(merged));
+    })();
+  }, [isAuthenticated, user?.role, authFetch]);
+
+  useEffect(() => {
+    if (isAuthenticated && user?.role === "vendor") {
+      refreshPromotions();
+      refreshAnalytics();
+      refreshCustomers();
+    } else {
+      setPromotions([]);
+      setVendorFlashDeals([]);
+      setAnalytics(emptyAnalytics);
+      setCustomers([]);
+    }
+  }, [
+    isAuthenticated,
+    user?.role,
+    refreshPromotions,
+    refreshAnalytics,
+    refreshCustomers,
+  ]);
+
   const searchByZipCode = (zipCode: string): CityLocation | null => {
     const location = MAJOR_CITIES.find((c) => c.zipCode === zipCode);
     if (location) {
@@ -1380,7 +2210,7 @@ export function DataProvider({ children }: { children: ReactNode }) {
   };
 
   const getFilteredVendors = (): Vendor[] => {
-    let filtered = mockVendors;
+    let filtered = vendors;
 
     // Filter by category
     if (selectedCategory !== "All") {
@@ -1401,17 +2231,13 @@ export function DataProvider({ children }: { children: ReactNode }) {
 
   const getFilteredDeals = (): Deal[] => {
     const filteredVendorIds = getFilteredVendors().map((v) => v.id);
-    return mockDeals.filter((d) => filteredVendorIds.includes(d.vendorId));
+    return deals.filter((d) => filteredVendorIds.includes(d.vendorId));
   };
 
   const loadData = async () => {
     try {
-      const [storedFavorites, storedPromotions] = await Promise.all([
-        AsyncStorage.getItem(FAVORITES_KEY),
-        AsyncStorage.getItem(PROMOTIONS_KEY),
-      ]);
+      const storedFavorites = await AsyncStorage.getItem(FAVORITES_KEY);
       if (storedFavorites) setFavorites(JSON.parse(storedFavorites));
-      if (storedPromotions) setPromotions(JSON.parse(storedPromotions));
     } catch (error) {
       console.error("Failed to load data:", error);
     } finally {
@@ -1423,12 +2249,18 @@ export function DataProvider({ children }: { children: ReactNode }) {
     const newFavorites = [...favorites, { vendorId, notifyWhenNearby: false }];
     setFavorites(newFavorites);
     await AsyncStorage.setItem(FAVORITES_KEY, JSON.stringify(newFavorites));
+    if (isAuthenticated && user?.role === "customer") {
+      saveFavoriteVendor(vendorId, true, authFetch);
+    }
   };
 
   const removeFavorite = async (vendorId: string) => {
     const newFavorites = favorites.filter((f) => f.vendorId !== vendorId);
     setFavorites(newFavorites);
     await AsyncStorage.setItem(FAVORITES_KEY, JSON.stringify(newFavorites));
+    if (isAuthenticated && user?.role === "customer") {
+      saveFavoriteVendor(vendorId, false, authFetch);
+    }
   };
 
   const toggleNotifyNearby = async (vendorId: string) => {
@@ -1443,7 +2275,7 @@ export function DataProvider({ children }: { children: ReactNode }) {
     }
 
     const newFavorites = favorites.map((f) =>
-      f.vendorId === vendorId ? { ...f, notifyWhenNearby: newValue } : f
+      f.vendorId === vendorId ? { ...f, notifyWhenNearby: newValue } : f,
     );
     setFavorites(newFavorites);
     await AsyncStorage.setItem(FAVORITES_KEY, JSON.stringify(newFavorites));
@@ -1455,9 +2287,14 @@ export function DataProvider({ children }: { children: ReactNode }) {
   const checkNearbyVendorsForNotifications = async (
     userLat: number,
     userLon: number,
-    alertRadiusMiles: number = 0.5
+    alertRadiusMiles: number = 0.5,
   ) => {
-    const haversineDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+    const haversineDistance = (
+      lat1: number,
+      lon1: number,
+      lat2: number,
+      lon2: number,
+    ): number => {
       const R = 3959;
       const dLat = ((lat2 - lat1) * Math.PI) / 180;
       const dLon = ((lon2 - lon1) * Math.PI) / 180;
@@ -1471,11 +2308,15 @@ export function DataProvider({ children }: { children: ReactNode }) {
       return R * c;
     };
 
+    // Nearby alerts are raised on the device, so the push settings are checked here
+    if (!notificationPrefs.pushEnabled || isInQuietHours(notificationPrefs))
+      return;
+
     const now = Date.now();
 
     for (const fav of favorites) {
       if (!fav.notifyWhenNearby) continue;
-      const vendor = mockVendors.find((v) => v.id === fav.vendorId);
+      const vendor = vendors.find((v) => v.id === fav.vendorId);
       if (!vendor) continue;
 
       const lastNotified = notifiedVendorsRef.current.get(vendor.id);
@@ -1483,7 +2324,12 @@ export function DataProvider({ children }: { children: ReactNode }) {
         continue;
       }
 
-      const distance = haversineDistance(userLat, userLon, vendor.latitude, vendor.longitude);
+      const distance = haversineDistance(
+        userLat,
+        userLon,
+        vendor.latitude,
+        vendor.longitude,
+      );
       if (distance <= alertRadiusMiles) {
         await scheduleNearbyVendorNotification(vendor.name, distance);
         notifiedVendorsRef.current.set(vendor.id, now);
@@ -1491,29 +2337,70 @@ export function DataProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const isFavorite = (vendorId: string) => favorites.some((f) => f.vendorId === vendorId);
+  const isFavorite = (vendorId: string) =>
+    favorites.some((f) => f.vendorId === vendorId);
+
+  const toggleFlashDealAlerts = async (vendorId: string) => {
+    const enable = !flashDealVendorIds.includes(vendorId);
+    if (enable) {
+      const hasPermission = await requestNotificationPermission();
+      if (!hasPermission) {
+        return;
+      }
+      await registerPushToken(authFetch);
+      await subscribeToVendor(vendorId, authFetch);
+    } else {
+      await unsubscribeFromVendor(vendorId, authFetch);
+    }
+
+    const settings = await getNotificationSettings();
+    setFlashDealVendorIds(settings.subscribedVendors);
+  };
 
-  const getVendorById = (id: string) => mockVendors.find((v) => v.id === id);
+  const getVendorById = (id: string) => vendors.find((v) => v.id === id);
 
-  const getDealsByVendor = (vendorId: string) => mockDeals.filter((d) => d.vendorId === vendorId);
+  const getDealsByVendor = (vendorId: string) =>
+    deals.filter((d) => d.vendorId === vendorId);
 
+  // Promotions are deals on the server; publishing one makes it visible to customers
   const addPromotion = async (promo: Omit<Promotion, "id">) => {
-    const newPromo = { ...promo, id: Date.now().toString() };
-    const newPromotions = [...promotions, newPromo];
-    setPromotions(newPromotions);
-    await AsyncStorage.setItem(PROMOTIONS_KEY, JSON.stringify(newPromotions));
+    const response = await authFetch("/api/deals", {
+      method: "POST",
+      body: JSON.stringify(toDealPayload(promo)),
+    });
+    if (!response.ok) {
+      throw await readError(response, "Failed to create promotion");
+    }
+
+    const data: { deal: ServerDeal } = await response.json();
+    setPromotions((prev) => [toPromotion(data.deal), ...prev]);
+    await refreshDeals();
   };
 
   const updatePromotion = async (id: string, updates: Partial<Promotion>) => {
-    const newPromotions = promotions.map((p) => (p.id === id ? { ...p, ...updates } : p));
-    setPromotions(newPromotions);
-    await AsyncStorage.setItem(PROMOTIONS_KEY, JSON.stringify(newPromotions));
+    const response = await authFetch(`/api/deals/${id}`, {
+      method: "PUT",
+      body: JSON.stringify(toDealPayload(updates)),
+    });
+    if (!response.ok) {
+      throw await readError(response, "Failed to update promotion");
+    }
+
+    const data: { deal: ServerDeal } = await response.json();
+    setPromotions((prev) =>
+      prev.map((p) => (p.id === id ? toPromotion(data.deal) : p)),
+    );
+    await refreshDeals();
   };
 
   const deletePromotion = async (id: string) => {
-    const newPromotions = promotions.filter((p) => p.id !== id);
-    setPromotions(newPromotions);
-    await AsyncStorage.setItem(PROMOTIONS_KEY, JSON.stringify(newPromotions));
+    const response = await authFetch(`/api/deals/${id}`, { method: "DELETE" });
+    if (!response.ok) {
+      throw await readError(response, "Failed to delete promotion");
+    }
+
+    setPromotions((prev) => prev.filter((p) => p.id !== id));
+    await refreshDeals();
   };
 
   // Flash Deal Functions
@@ -1521,28 +2408,43 @@ export function DataProvider({ children }: { children: ReactNode }) {
     const now = new Date();
     return flashDeals.filter((deal) => {
       const expiresAt = new Date(deal.expiresAt);
-      const hasCapacity = !deal.maxRedemptions || deal.currentRedemptions < deal.maxRedemptions;
+      const hasCapacity =
+        !deal.maxRedemptions || deal.currentRedemptions < deal.maxRedemptions;
       return expiresAt > now && hasCapacity;
     });
   };
 
+  // Flash deals are server deals with a redemption cap enforced atomically by the server
   const createFlashDeal = async (
-    deal: Omit<FlashDeal, "id" | "createdAt" | "currentRedemptions" | "isFlash">
+    deal: Omit<
+      FlashDeal,
+      "id" | "createdAt" | "currentRedemptions" | "isFlash"
+    >,
   ): Promise<FlashDeal> => {
-    const newDeal: FlashDeal = {
-      ...deal,
-      id: `flash_${Date.now()}`,
-      createdAt: new Date().toISOString(),
-      currentRedemptions: 0,
-      isFlash: true,
-    };
+    const response = await authFetch("/api/deals", {
+      method: "POST",
+      body: JSON.stringify({
+        title: deal.title,
+        description: deal.description,
+        originalPrice: deal.originalPrice,
+        discountedPrice: deal.discountedPrice,
+        category: deal.category,
+        imageUrl: deal.image,
+        endDate: deal.expiresAt,
+        isFlash: true,
+        maxRedemptions: deal.maxRedemptions,
+      }),
+    });
+    if (!response.ok) {
+      throw await readError(response, "Failed to create flash deal");
+    }
 
-    const updatedDeals = [...flashDeals, newDeal];
-    setFlashDeals(updatedDeals);
-    await AsyncStorage.setItem(FLASH_DEALS_KEY, JSON.stringify(updatedDeals));
+    const data: { deal: ServerDeal } = await response.json();
+    const newDeal = toFlashDeal(data.deal, deal.vendorName);
+    setVendorFlashDeals((prev) => [newDeal, ...prev]);
+    await refreshDeals();
 
-    // Send push notification to subscribed users
-    await sendFlashDealNotification(newDeal);
+    // The server pushes the deal to subscribed customers
 
     // Schedule a reminder 5 minutes before expiration
     await scheduleFlashDealReminder(newDeal, 5);
@@ -1550,46 +2452,429 @@ export function DataProvider({ children }: { children: ReactNode }) {
     return newDeal;
   };
 
-  const redeemFlashDeal = async (dealId: string): Promise<boolean> => {
-    const deal = flashDeals.find((d) => d.id === dealId);
-    if (!deal) return false;
+  // Claims a deal for the signed-in customer; the server rejects expired,
+  // sold out and repeat redemptions
+  const redeemDeal = async (dealId: string): Promise<RedemptionPass> => {
+    const response = await authFetch(`/api/deals/${dealId}/redeem`, {
+      method: "POST",
+    });
+    if (!response.ok) {
+      const error = await readError(response, "Failed to redeem deal");
+      // Capacity may have changed since the last fetch
+      await refreshDeals();
+      throw error;
+    }
 
-    // Check if deal is still valid
-    const now = new Date();
-    const expiresAt = new Date(deal.expiresAt);
-    if (expiresAt <= now) return false;
+    const data: { redemption: RedemptionPass; currentRedemptions: number } =
+      await response.json();
+    setFlashDeals((prev) =>
+      prev.map((d) =>
+        d.id === dealId
+          ? { ...d, currentRedemptions: data.currentRedemptions }
+          : d,
+      ),
+    );
+    setRedemptions((prev) => [data.redemption, ...prev]);
+    return data.redemption;
+  };
 
-    // Check capacity
-    if (deal.maxRedemptions && deal.currentRedemptions >= deal.maxRedemptions) {
-      return false;
+  const getRedemptionForDeal = (dealId: string) =>
+    redemptions.find((r) => r.dealId === dealId);
+
+  // Vendor side: marks a customer's code as used at this vendor's listing
+  const verifyRedemption = async (input: {
+    token?: string;
+    code?: string;
+  }): Promise<VerifiedRedemption> => {
+    const response = await authFetch("/api/redemptions/verify", {
+      method: "POST",
+      body: JSON.stringify(input),
+    });
+    if (!response.ok) {
+      throw await readError(response, "Failed to verify code");
     }
 
-    // Update redemption count
-    const updatedDeals = flashDeals.map((d) =>
-      d.id === dealId ? { ...d, currentRedemptions: d.currentRedemptions + 1 } : d
+    // Rewards vouchers are verified through the same endpoint and come back as voucher/reward
+    const data = await response.json();
+    return {
+      dealTitle: data.deal?.title || data.reward?.title || "Deal",
+      customerName: data.customer?.name || "Customer",
+      verifiedAt: (data.redemption ?? data.voucher).verifiedAt,
+    };
+  };
+
+  // Customer side: the server checks they're at the truck and allows one check-in a day
+  const checkIn = async (
+    vendorId: string,
+    latitude: number,
+    longitude: number,
+  ): Promise<string> => {
+    const response = await authFetch(
+      `/api/vendors/public/${vendorId}/check-in`,
+      {
+        method: "POST",
+        body: JSON.stringify({ latitude, longitude }),
+      },
     );
-    setFlashDeals(updatedDeals);
-    await AsyncStorage.setItem(FLASH_DEALS_KEY, JSON.stringify(updatedDeals));
+    if (!response.ok) {
+      throw await readError(response, "Failed to check in");
+    }
 
-    return true;
+    const data = await response.json();
+    return data.pointsEarned > 0
+      ? `${data.message}. +${data.pointsEarned} XP`
+      : data.message;
   };
 
   const deleteFlashDeal = async (dealId: string): Promise<void> => {
-    const updatedDeals = flashDeals.filter((d) => d.id !== dealId);
-    setFlashDeals(updatedDeals);
-    await AsyncStorage.setItem(FLASH_DEALS_KEY, JSON.stringify(updatedDeals));
+    const response = await authFetch(`/api/deals/${dealId}`, {
+      method: "DELETE",
+    });
+    if (!response.ok) {
+      throw await readError(response, "Failed to end flash deal");
+    }
+
+    setVendorFlashDeals((prev) => prev.filter((d) => d.id !== dealId));
+    await refreshDeals();
+  };
+
+  const fetchVendorReviews = useCallback(
+    async (vendorId: string, offset = 0): Promise<ReviewPage> => {
+      const response = await fetch(
+        `${getApiBaseUrl()}/api/vendors/public/${vendorId}/reviews?limit=${REVIEW_PAGE_SIZE}&offset=${offset}`,
+      );
+      if (!response.ok) {
+        throw await readError(response, "Failed to load reviews");
+      }
+      return toReviewPage(response);
+    },
+    [],
+  );
+
+  const fetchMyListingReviews = useCallback(
+    async (offset = 0): Promise<ReviewPage> => {
+      const response = await authFetch(
+        `/api/vendors/listing/my/reviews?limit=${REVIEW_PAGE_SIZE}&offset=${offset}`,
+      );
+      if (!response.ok) {
+        throw await readError(response, "Failed to load reviews");
+      }
+      return toReviewPage(response);
+    },
+    [authFetch],
+  );
+
+  const getReviewEligibility = useCallback(
+    async (vendorId: string): Promise<ReviewEligibility> => {
+      const response = await authFetch(
+        `/api/reviews/eligibility?vendorId=${encodeURIComponent(vendorId)}`,
+      );
+      if (!response.ok) {
+        throw await readError(response, "Failed to check review eligibility");
+      }
+      const data = await response.json();
+      return { canReview: data.canReview, reason: data.reason };
+    },
+    [authFetch],
+  );
+
+  const submitReview = async (review: NewReview): Promise<VendorReview> => {
+    const response = await authFetch("/api/reviews", {
+      method: "POST",
+      body: JSON.stringify(review),
+    });
+    if (!response.ok) {
+      throw await readError(response, "Failed to submit review");
+    }
+    const data = await response.json();
+    return toReview(data.review);
+  };
+
+  const replyToReview = async (
+    reviewId: string,
+    reply: string,
+  ): Promise<VendorReview> => {
+    const response = await authFetch(`/api/reviews/${reviewId}/reply`, {
+      method: "POST",
+      body: JSON.stringify({ reply }),
+    });
+    if (!response.ok) {
+      throw await readError(response, "Failed to post reply");
+    }
+    const data = await response.json();
+    return toReview(data.review);
+  };
+
+  const fetchVendorMenu = useCallback(
+    async (vendorId: string): Promise<VendorMenu> => {
+      const response = await fetch(
+        `${getApiBaseUrl()}/api/vendors/public/${vendorId}/menu`,
+      );
+      if (!response.ok) {
+        throw await readError(response, "Failed to load menu");
+      }
+      return response.json();
+    },
+    [],
+  );
+
+  const fetchMyMenu = useCallback(async (): Promise<VendorMenu> => {
+    const response = await authFetch("/api/vendors/listing/my/menu");
+    if (!response.ok) {
+      throw await readError(response, "Failed to load menu");
+    }
+    return response.json();
+  }, [authFetch]);
+
+  const createMenuSection = async (name: string) => {
+    const response = await authFetch("/api/menu/sections", {
+      method: "POST",
+      body: JSON.stringify({ name }),
+    });
+    if (!response.ok) {
+      throw await readError(response, "Failed to add section");
+    }
+  };
+
+  const renameMenuSection = async (sectionId: string, name: string) => {
+    const response = await authFetch(`/api/menu/sections/${sectionId}`, {
+      method: "PUT",
+      body: JSON.stringify({ name }),
+    });
+    if (!response.ok) {
+      throw await readError(response, "Failed to rename section");
+    }
+  };
+
+  const deleteMenuSection = async (sectionId: string) => {
+    const response = await authFetch(`/api/menu/sections/${sectionId}`, {
+      method: "DELETE",
+    });
+    if (!response.ok) {
+      throw await readError(response, "Failed to delete section");
+    }
+  };
+
+  const createMenuItem = async (item: MenuItemInput): Promise<MenuItem> => {
+    const response = await authFetch("/api/menu/items", {
+      method: "POST",
+      body: JSON.stringify(item),
+    });
+    if (!response.ok) {
+      throw await readError(response, "Failed to add menu item");
+    }
+    const data = await response.json();
+    return data.item;
+  };
+
+  const updateMenuItem = async (
+    itemId: string,
+    updates: Partial<MenuItemInput>,
+  ): Promise<MenuItem> => {
+    const response = await authFetch(`/api/menu/items/${itemId}`, {
+      method: "PUT",
+      body: JSON.stringify(updates),
+    });
+    if (!response.ok) {
+      throw await readError(response, "Failed to update menu item");
+    }
+    const data = await response.json();
+    return data.item;
+  };
+
+  const deleteMenuItem = async (itemId: string) => {
+    const response = await authFetch(`/api/menu/items/${itemId}`, {
+      method: "DELETE",
+    });
+    if (!response.ok) {
+      throw await readError(response, "Failed to delete menu item");
+    }
+  };
+
+  const fetchVendorHours = useCallback(
+    async (vendorId: string): Promise<VendorHours> => {
+      const response = await fetch(
+        `${getApiBaseUrl()}/api/vendors/public/${vendorId}/hours`,
+      );
+      if (!response.ok) {
+        throw await readError(response, "Failed to load hours");
+      }
+      return response.json();
+    },
+    [],
+  );
+
+  const fetchMyHours = useCallback(async (): Promise<VendorHours> => {
+    const response = await authFetch("/api/vendors/listing/my/hours");
+    if (!response.ok) {
+      throw await readError(response, "Failed to load hours");
+    }
+    return response.json();
+  }, [authFetch]);
+
+  const saveWeeklyHours = async (
+    shifts: VendorShift[],
+    timezone?: string,
+  ): Promise<VendorHours> => {
+    const response = await authFetch("/api/vendors/listing/my/hours", {
+      method: "PUT",
+      body: JSON.stringify({ shifts, timezone }),
+    });
+    if (!response.ok) {
+      throw await readError(response, "Failed to save hours");
+    }
+    const data = await response.json();
+    return data.hours;
+  };
+
+  const addSpecialHours = async (
+    entry: NewSpecialHours,
+  ): Promise<VendorHours> => {
+    const response = await authFetch("/api/vendors/listing/my/special-hours", {
+      method: "POST",
+      body: JSON.stringify(entry),
+    });
+    if (!response.ok) {
+      throw await readError(response, "Failed to add special hours");
+    }
+    const data = await response.json();
+    return data.hours;
+  };
+
+  const removeSpecialHours = async (id: string): Promise<VendorHours> => {
+    const response = await authFetch(
+      `/api/vendors/listing/my/special-hours/${id}`,
+      { method: "DELETE" },
+    );
+    if (!response.ok) {
+      throw await readError(response, "Failed to remove special hours");
+    }
+    const data = await response.json();
+    return data.hours;
+  };
+
+  const fetchPhotos = useCallback(
+    async (
+      ownerType: PhotoOwnerType,
+      ownerId: string,
+    ): Promise<UploadedPhoto[]> => {
+      const params = new URLSearchParams({ ownerType, ownerId });
+      const response = await fetch(`${getApiBaseUrl()}/api/photos?${params}`);
+      if (!response.ok) {
+        throw await readError(response, "Failed to load photos");
+      }
+      const data = await response.json();
+      return data.photos;
+    },
+    [],
+  );
+
+  const uploadPhoto = async (
+    ownerType: PhotoOwnerType,
+    ownerId: string,
+    uri: string,
+    caption?: string,
+  ): Promise<UploadedPhoto> => {
+    const response = await authFetch("/api/photos", {
+      method: "POST",
+      body: await buildPhotoForm(ownerType, ownerId, uri, caption),
+    });
+    if (!response.ok) {
+      throw await readError(response, "Failed to upload photo");
+    }
+    const data = await response.json();
+    return data.photo;
+  };
+
+  const deletePhoto = async (photoId: string): Promise<UploadedPhoto[]> => {
+    const response = await authFetch(`/api/photos/${photoId}`, {
+      method: "DELETE",
+    });
+    if (!response.ok) {
+      throw await readError(response, "Failed to delete photo");
+    }
+    const data = await response.json();
+    return data.photos;
+  };
+
+  const fetchLocationHistory = useCallback(async (): Promise<
+    LocationHistoryEntry[]
+  > => {
+    const response = await authFetch(
+      "/api/vendors/listing/my/location-history",
+    );
+    if (!response.ok) {
+      throw await readError(response, "Failed to load location history");
+    }
+    const data: { sessions: ServerLocationSession[] } = await response.json();
+    return data.sessions.map(toLocationHistoryEntry);
+  }, [authFetch]);
+
+  const fetchLocationAnalytics = useCallback(
+    async (limit = 10): Promise<LocationAnalytics[]> => {
+      const response = await authFetch(
+        `/api/vendors/listing/my/location-analytics?limit=${limit}`,
+      );
+      if (!response.ok) {
+        throw await readError(response, "Failed to load location analytics");
+      }
+      const data: { spots: ServerLocationSpot[] } = await response.json();
+      return data.spots.map(toLocationAnalytics);
+    },
+    [authFetch],
+  );
+
+  const fetchBoostPlans = useCallback(async (): Promise<BoostPlan[]> => {
+    const response = await fetch(`${getApiBaseUrl()}/api/boosts/plans`);
+    if (!response.ok) {
+      throw await readError(response, "Failed to load boost plans");
+    }
+    const data = await response.json();
+    return data.plans;
+  }, []);
+
+  const fetchMyBoosts = useCallback(async (): Promise<{
+    activeBoost: VendorBoost | null;
+    boosts: VendorBoost[];
+  }> => {
+    const response = await authFetch("/api/boosts/my");
+    if (!response.ok) {
+      throw await readError(response, "Failed to load boosts");
+    }
+    return response.json();
+  }, [authFetch]);
+
+  // The boost stays pending until Stripe confirms payment through the webhook
+  const startBoostCheckout = async (
+    level: BoostLevel,
+  ): Promise<{ url: string; boost: VendorBoost }> => {
+    const response = await authFetch("/api/payments/boost-checkout", {
+      method: "POST",
+      body: JSON.stringify({
+        level,
+        successUrl: Linking.createURL("/payment-success"),
+        cancelUrl: Linking.createURL("/payment-cancelled"),
+      }),
+    });
+    if (!response.ok) {
+      throw await readError(response, "Failed to start checkout");
+    }
+    const data = await response.json();
+    return { url: data.url, boost: data.boost };
   };
 
   return (
     <DataContext.Provider
       value={{
-        vendors: mockVendors,
-        deals: mockDeals,
+        vendors,
+        deals,
         favorites,
         promotions,
-        customers: mockCustomers,
-        analytics: mockAnalytics,
+        customers,
+        analytics,
         flashDeals,
+        vendorFlashDeals,
+        redemptions,
         selectedCategory,
         searchLocation,
         setSelectedCategory,
@@ -1602,14 +2887,51 @@ export function DataProvider({ children }: { children: ReactNode }) {
         removeFavorite,
         toggleNotifyNearby,
         isFavorite,
+        flashDealVendorIds,
+        toggleFlashDealAlerts,
         getVendorById,
         getDealsByVendor,
+        refreshDeals,
+        refreshPromotions,
+        refreshAnalytics,
+        refreshCustomers,
+        checkIn,
+        fetchVendorAnalytics,
+        refreshRedemptions,
         addPromotion,
         updatePromotion,
         deletePromotion,
         createFlashDeal,
-        redeemFlashDeal,
+        redeemDeal,
+        getRedemptionForDeal,
+        verifyRedemption,
         deleteFlashDeal,
+        fetchVendorReviews,
+        fetchMyListingReviews,
+        getReviewEligibility,
+        submitReview,
+        replyToReview,
+        fetchVendorMenu,
+        fetchMyMenu,
+        createMenuSection,
+        renameMenuSection,
+        deleteMenuSection,
+        createMenuItem,
+        updateMenuItem,
+        deleteMenuItem,
+        fetchVendorHours,
+        fetchMyHours,
+        saveWeeklyHours,
+        addSpecialHours,
+        removeSpecialHours,
+        fetchPhotos,
+        uploadPhoto,
+        deletePhoto,
+        fetchLocationHistory,
+        fetchLocationAnalytics,
+        fetchBoostPlans,
+        fetchMyBoosts,
+        startBoostCheckout,
         checkNearbyVendorsForNotifications,
         isLoading,
       }}
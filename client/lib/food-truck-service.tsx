@@ -2,6 +2,9 @@ import * as Location from "expo-location";
 import * as Notifications from "expo-notifications";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { Platform } from "react-native";
+import { getApiBaseUrl } from "@/lib/api-config";
+import type { MapBounds } from "@/lib/vendor-listing-context";
+import type { AuthFetch } from "@/lib/notification-service";
 
 // ============================================
 // TYPES & INTERFACES
@@ -14,11 +17,34 @@ export interface TruckLocation {
   address?: string;
   timestamp: string;
   isLive: boolean;
+  // Set on trucks from the live feed, where vendorId is the listing id
+  businessName?: string;
+  category?: string;
+  heading?: number | null;
 }
 
+// A truck as the live feed socket sends it
+interface FeedTruck {
+  vendorId: string;
+  businessName: string;
+  category: string;
+  latitude: number;
+  longitude: number;
+  heading: number | null;
+  address: string | null;
+  startedAt: string;
+  updatedAt: string;
+}
+
+type FeedMessage =
+  | { type: "snapshot"; trucks: FeedTruck[] }
+  | { type: "update"; truck: FeedTruck }
+  | { type: "remove"; vendorId: string }
+  | { type: "error"; error: string };
+
+// A go-live session, from /api/vendors/listing/my/location-history
 export interface LocationHistoryEntry {
   id: string;
-  vendorId: string;
   latitude: number;
   longitude: number;
   address?: string;
@@ -29,6 +55,7 @@ export interface LocationHistoryEntry {
   notes?: string;
 }
 
+// A spot nearby sessions are grouped into, from /api/vendors/listing/my/location-analytics
 export interface LocationAnalytics {
   locationId: string;
   address: string;
@@ -40,97 +67,44 @@ export interface LocationAnalytics {
   rating: number; // 1-5 based on performance
 }
 
-export interface FeaturedListing {
-  vendorId: string;
-  startDate: string;
-  endDate: string;
-  boostLevel: "basic" | "premium" | "spotlight";
-  impressions: number;
-  clicks: number;
-}
-
+// Zones are managed by admins; the server alerts subscribers when a favorite truck enters one
 export interface GeoFenceZone {
   id: string;
   name: string;
-  latitude: number;
+  city: string;
+  state: string | null;
+  shape: "circle" | "polygon";
+  latitude: number; // Center; the bounding box center for polygons
   longitude: number;
-  radiusMeters: number;
+  radiusMeters: number | null; // Circles only
+  polygon: { latitude: number; longitude: number }[] | null; // Polygons only
   notifyOnEnter: boolean;
   notifyOnExit: boolean;
-}
-
-export interface GeoFenceAlert {
-  id: string;
-  zoneId: string;
-  zoneName: string;
-  vendorId: string;
-  vendorName: string;
-  eventType: "enter" | "exit";
-  timestamp: string;
+  subscribed: boolean;
 }
 
 // ============================================
 // STORAGE KEYS
 // ============================================
 
-const STORAGE_KEYS = {
-  LIVE_TRUCKS: "@smartdealsiq_live_trucks",
-  LOCATION_HISTORY: "@smartdealsiq_location_history",
-  GEOFENCE_ZONES: "@smartdealsiq_geofence_zones",
-  FAVORITE_ZONES: "@smartdealsiq_favorite_zones",
-  FEATURED_LISTINGS: "@smartdealsiq_featured_listings",
-};
-
 // ============================================
-// FEATURED LISTING PRICING
+// LIVE FEED
 // ============================================
 
-export const BOOST_PRICING = {
-  basic: {
-    id: "boost_basic",
-    name: "Basic Boost",
-    price: 0,
-    duration: 24, // hours
-    description: "Appear higher in search results for 24 hours",
-    multiplier: 1.5,
-    features: ["Priority in search", "Badge on listing"],
-  },
-  premium: {
-    id: "boost_premium",
-    name: "Premium Boost",
-    price: 0,
-    duration: 72, // hours
-    description: "Maximum visibility for 3 days",
-    multiplier: 2.5,
-    features: ["Top of search", "Featured badge", "Push to nearby users", "Analytics"],
-  },
-  spotlight: {
-    id: "boost_spotlight",
-    name: "Spotlight",
-    price: 0,
-    duration: 168, // hours (1 week)
-    description: "Be the featured truck of the week",
-    multiplier: 5,
-    features: ["Homepage feature", "Spotlight banner", "Social media shoutout", "Premium analytics", "Priority support"],
-  },
-};
+// Heartbeats keep a truck on the map; the server drops it after 2 minutes of silence
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+// Send a GPS fix when the truck moves this far, between heartbeats
+const LOCATION_DISTANCE_INTERVAL_M = 25;
+const RECONNECT_MAX_DELAY_MS = 30 * 1000;
 
-// ============================================
-// POPULAR GEOFENCE ZONES (Pre-configured)
-// ============================================
+function liveSocketUrl(): string {
+  return `${getApiBaseUrl().replace(/^http/, "ws")}/api/live/ws`;
+}
 
-export const POPULAR_ZONES: GeoFenceZone[] = [
-  // Miami
-  { id: "zone_miami_downtown", name: "Downtown Miami", latitude: 25.7617, longitude: -80.1918, radiusMeters: 2000, notifyOnEnter: true, notifyOnExit: false },
-  { id: "zone_miami_beach", name: "Miami Beach", latitude: 25.7907, longitude: -80.1300, radiusMeters: 3000, notifyOnEnter: true, notifyOnExit: false },
-  { id: "zone_miami_wynwood", name: "Wynwood", latitude: 25.8010, longitude: -80.1993, radiusMeters: 1500, notifyOnEnter: true, notifyOnExit: false },
-  // Orlando
-  { id: "zone_orlando_downtown", name: "Downtown Orlando", latitude: 28.5383, longitude: -81.3792, radiusMeters: 2500, notifyOnEnter: true, notifyOnExit: false },
-  { id: "zone_orlando_mills", name: "Mills 50", latitude: 28.5570, longitude: -81.3650, radiusMeters: 1500, notifyOnEnter: true, notifyOnExit: false },
-  // Tampa
-  { id: "zone_tampa_downtown", name: "Downtown Tampa", latitude: 27.9506, longitude: -82.4572, radiusMeters: 2000, notifyOnEnter: true, notifyOnExit: false },
-  { id: "zone_tampa_ybor", name: "Ybor City", latitude: 27.9600, longitude: -82.4380, radiusMeters: 1500, notifyOnEnter: true, notifyOnExit: false },
-];
+const STORAGE_KEYS = {
+  LIVE_TRUCKS: "@smartdealsiq_live_trucks",
+  FAVORITE_ZONES: "@smartdealsiq_favorite_zones",
+};
 
 // ============================================
 // LOCATION TRACKING SERVICE
@@ -138,12 +112,17 @@ export const POPULAR_ZONES: GeoFenceZone[] = [
 
 class FoodTruckService {
   private liveTrucks: Map<string, TruckLocation> = new Map();
-  private locationHistory: LocationHistoryEntry[] = [];
-  private featuredListings: FeaturedListing[] = [];
-  private userGeoFenceZones: GeoFenceZone[] = [];
   private locationSubscription: Location.LocationSubscription | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
   private listeners: Set<(trucks: TruckLocation[]) => void> = new Set();
 
+  // Trucks other vendors have live inside the watched viewport, keyed by listing id
+  private feedTrucks: Map<string, TruckLocation> = new Map();
+  private feedSocket: WebSocket | null = null;
+  private feedBounds: MapBounds | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempts = 0;
+
   // ============================================
   // INITIALIZATION
   // ============================================
@@ -155,29 +134,14 @@ class FoodTruckService {
 
   private async loadFromStorage(): Promise<void> {
     try {
-      const [liveTrucksData, historyData, zonesData, featuredData] = await Promise.all([
-        AsyncStorage.getItem(STORAGE_KEYS.LIVE_TRUCKS),
-        AsyncStorage.getItem(STORAGE_KEYS.LOCATION_HISTORY),
-        AsyncStorage.getItem(STORAGE_KEYS.GEOFENCE_ZONES),
-        AsyncStorage.getItem(STORAGE_KEYS.FEATURED_LISTINGS),
-      ]);
+      const liveTrucksData = await AsyncStorage.getItem(
+        STORAGE_KEYS.LIVE_TRUCKS,
+      );
 
       if (liveTrucksData) {
         const trucks = JSON.parse(liveTrucksData) as TruckLocation[];
         trucks.forEach((t) => this.liveTrucks.set(t.vendorId, t));
       }
-
-      if (historyData) {
-        this.locationHistory = JSON.parse(historyData);
-      }
-
-      if (zonesData) {
-        this.userGeoFenceZones = JSON.parse(zonesData);
-      }
-
-      if (featuredData) {
-        this.featuredListings = JSON.parse(featuredData);
-      }
     } catch (error) {
       console.error("Failed to load food truck data:", error);
     }
@@ -186,12 +150,10 @@ class FoodTruckService {
   private async saveToStorage(): Promise<void> {
     try {
       const liveTrucksArray = Array.from(this.liveTrucks.values());
-      await Promise.all([
-        AsyncStorage.setItem(STORAGE_KEYS.LIVE_TRUCKS, JSON.stringify(liveTrucksArray)),
-        AsyncStorage.setItem(STORAGE_KEYS.LOCATION_HISTORY, JSON.stringify(this.locationHistory)),
-        AsyncStorage.setItem(STORAGE_KEYS.GEOFENCE_ZONES, JSON.stringify(this.userGeoFenceZones)),
-        AsyncStorage.setItem(STORAGE_KEYS.FEATURED_LISTINGS, JSON.stringify(this.featuredListings)),
-      ]);
+      await AsyncStorage.setItem(
+        STORAGE_KEYS.LIVE_TRUCKS,
+        JSON.stringify(liveTrucksArray),
+      );
     } catch (error) {
       console.error("Failed to save food truck data:", error);
     }
@@ -201,7 +163,11 @@ class FoodTruckService {
   // TRUCK IS LIVE TOGGLE
   // ============================================
 
-  async goLive(vendorId: string, vendorName: string): Promise<boolean> {
+  async goLive(
+    vendorId: string,
+    vendorName: string,
+    accessToken: string,
+  ): Promise<boolean> {
     try {
       const { status } = await Location.requestForegroundPermissionsAsync();
       if (status !== "granted") {
@@ -232,12 +198,22 @@ class FoodTruckService {
         isLive: true,
       };
 
+      // Publish to the server so customers see the truck on their maps
+      const response = await this.postLive("/api/live/start", accessToken, {
+        latitude: truckLocation.latitude,
+        longitude: truckLocation.longitude,
+        heading: location.coords.heading ?? undefined,
+        address: address?.trim().slice(0, 200),
+      });
+      if (!response.ok) {
+        console.error("Failed to go live:", response.status);
+        return false;
+      }
+
       this.liveTrucks.set(vendorId, truckLocation);
       await this.saveToStorage();
       this.notifyListeners();
-
-      // Start location history entry
-      await this.startLocationSession(vendorId, truckLocation);
+      await this.startTracking(vendorId, accessToken);
 
       // Notify nearby users
       await this.notifyNearbyUsers(vendorId, vendorName, truckLocation);
@@ -249,43 +225,146 @@ class FoodTruckService {
     }
   }
 
-  async goOffline(vendorId: string, sessionStats?: { customersServed?: number; revenue?: number }): Promise<void> {
+  async goOffline(
+    vendorId: string,
+    accessToken: string,
+    sessionStats?: {
+      customersServed?: number;
+      revenue?: number;
+      notes?: string;
+    },
+  ): Promise<void> {
+    this.stopTracking();
+    try {
+      // The server closes the location history session with these stats
+      await this.postLive("/api/live/stop", accessToken, sessionStats);
+    } catch (error) {
+      // The server drops the truck once heartbeats stop anyway
+      console.error("Failed to go offline:", error);
+    }
+
     const truck = this.liveTrucks.get(vendorId);
     if (truck) {
       truck.isLive = false;
       this.liveTrucks.set(vendorId, truck);
       await this.saveToStorage();
       this.notifyListeners();
-
-      // End location history session
-      await this.endLocationSession(vendorId, sessionStats);
     }
   }
 
-  async updateLiveLocation(vendorId: string): Promise<void> {
+  async updateLiveLocation(
+    vendorId: string,
+    accessToken: string,
+  ): Promise<void> {
     try {
       const location = await Location.getCurrentPositionAsync({
         accuracy: Location.Accuracy.High,
       });
-
-      const truck = this.liveTrucks.get(vendorId);
-      if (truck && truck.isLive) {
-        truck.latitude = location.coords.latitude;
-        truck.longitude = location.coords.longitude;
-        truck.timestamp = new Date().toISOString();
-        this.liveTrucks.set(vendorId, truck);
-        await this.saveToStorage();
-        this.notifyListeners();
-      }
+      await this.applyLocation(vendorId, accessToken, location);
     } catch (error) {
       console.error("Failed to update location:", error);
     }
   }
 
+  private async applyLocation(
+    vendorId: string,
+    accessToken: string,
+    location: Location.LocationObject,
+  ): Promise<void> {
+    const truck = this.liveTrucks.get(vendorId);
+    if (!truck || !truck.isLive) return;
+
+    truck.latitude = location.coords.latitude;
+    truck.longitude = location.coords.longitude;
+    truck.timestamp = new Date().toISOString();
+    this.liveTrucks.set(vendorId, truck);
+    await this.saveToStorage();
+    this.notifyListeners();
+
+    const response = await this.postLive("/api/live/heartbeat", accessToken, {
+      latitude: truck.latitude,
+      longitude: truck.longitude,
+      heading:
+        location.coords.heading != null && location.coords.heading >= 0
+          ? location.coords.heading
+          : undefined,
+    });
+    if (response.status === 404) {
+      // The server timed us out (e.g. the app was backgrounded); go live again
+      await this.postLive("/api/live/start", accessToken, {
+        latitude: truck.latitude,
+        longitude: truck.longitude,
+        address: truck.address?.trim().slice(0, 200),
+      });
+    }
+  }
+
+  private postLive(
+    path: string,
+    accessToken: string,
+    body?: object,
+  ): Promise<Response> {
+    return fetch(`${getApiBaseUrl()}${path}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${accessToken}`,
+      },
+      body: JSON.stringify(body ?? {}),
+    });
+  }
+
+  // Follow the truck while it's live: GPS fixes on movement, heartbeats while parked
+  private async startTracking(
+    vendorId: string,
+    accessToken: string,
+  ): Promise<void> {
+    this.stopTracking();
+
+    this.heartbeatTimer = setInterval(() => {
+      this.postLive("/api/live/heartbeat", accessToken)
+        .then((response) => {
+          // Timed out on the server; a fresh fix puts the truck back on the map
+          if (response.status === 404)
+            this.updateLiveLocation(vendorId, accessToken);
+        })
+        .catch((error) => console.error("Live heartbeat failed:", error));
+    }, HEARTBEAT_INTERVAL_MS);
+
+    try {
+      this.locationSubscription = await Location.watchPositionAsync(
+        {
+          accuracy: Location.Accuracy.High,
+          distanceInterval: LOCATION_DISTANCE_INTERVAL_M,
+        },
+        (location) => {
+          this.applyLocation(vendorId, accessToken, location).catch((error) =>
+            console.error("Failed to publish location:", error),
+          );
+        },
+      );
+    } catch (error) {
+      // Heartbeats still keep the truck live at its starting point
+      console.error("Failed to watch location:", error);
+    }
+  }
+
+  private stopTracking(): void {
+    this.locationSubscription?.remove();
+    this.locationSubscription = null;
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    this.heartbeatTimer = null;
+  }
+
   getLiveTrucks(): TruckLocation[] {
     return Array.from(this.liveTrucks.values()).filter((t) => t.isLive);
   }
 
+  // Trucks live inside the viewport passed to watchViewport
+  getViewportTrucks(): TruckLocation[] {
+    return Array.from(this.feedTrucks.values());
+  }
+
   isVendorLive(vendorId: string): boolean {
     const truck = this.liveTrucks.get(vendorId);
     return truck?.isLive ?? false;
@@ -303,293 +382,143 @@ class FoodTruckService {
   }
 
   // ============================================
-  // LOCATION HISTORY
+  // LIVE FEED (customer maps)
   // ============================================
 
-  private async startLocationSession(vendorId: string, location: TruckLocation): Promise<void> {
-    const entry: LocationHistoryEntry = {
-      id: `loc_${Date.now()}`,
-      vendorId,
-      latitude: location.latitude,
-      longitude: location.longitude,
-      address: location.address,
-      startTime: new Date().toISOString(),
-    };
-    this.locationHistory.push(entry);
-    await this.saveToStorage();
-  }
-
-  private async endLocationSession(
-    vendorId: string,
-    stats?: { customersServed?: number; revenue?: number }
-  ): Promise<void> {
-    const entry = this.locationHistory.find(
-      (e) => e.vendorId === vendorId && !e.endTime
-    );
-    if (entry) {
-      entry.endTime = new Date().toISOString();
-      entry.customersServed = stats?.customersServed;
-      entry.revenue = stats?.revenue;
-      await this.saveToStorage();
+  /**
+   * Stream trucks going live, moving and dropping off inside a map viewport.
+   * Call again whenever the map moves; listeners are notified on every change.
+   */
+  watchViewport(bounds: MapBounds): void {
+    this.feedBounds = bounds;
+    if (this.feedSocket?.readyState === WebSocket.OPEN) {
+      this.sendSubscribe();
+    } else if (!this.feedSocket && !this.reconnectTimer) {
+      this.connectFeed();
     }
   }
 
-  getLocationHistory(vendorId: string): LocationHistoryEntry[] {
-    return this.locationHistory
-      .filter((e) => e.vendorId === vendorId)
-      .sort((a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime());
-  }
-
-  async addLocationNote(entryId: string, notes: string): Promise<void> {
-    const entry = this.locationHistory.find((e) => e.id === entryId);
-    if (entry) {
-      entry.notes = notes;
-      await this.saveToStorage();
-    }
-  }
-
-  // ============================================
-  // LOCATION ANALYTICS
-  // ============================================
-
-  getLocationAnalytics(vendorId: string): LocationAnalytics[] {
-    const history = this.getLocationHistory(vendorId);
-    const locationMap = new Map<string, LocationHistoryEntry[]>();
-
-    // Group by approximate location (rounded to 3 decimal places ~111m)
-    history.forEach((entry) => {
-      const key = `${entry.latitude.toFixed(3)},${entry.longitude.toFixed(3)}`;
-      if (!locationMap.has(key)) {
-        locationMap.set(key, []);
-      }
-      locationMap.get(key)!.push(entry);
-    });
-
-    const analytics: LocationAnalytics[] = [];
-
-    locationMap.forEach((entries, key) => {
-      const [lat, lng] = key.split(",");
-      const customers = entries.filter((e) => e.customersServed).map((e) => e.customersServed!);
-      const revenues = entries.filter((e) => e.revenue).map((e) => e.revenue!);
+  stopWatching(): void {
+    this.feedBounds = null;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.reconnectAttempts = 0;
 
-      // Calculate best days
-      const dayCount: Record<string, number> = {};
-      entries.forEach((e) => {
-        const day = new Date(e.startTime).toLocaleDateString("en-US", { weekday: "long" });
-        dayCount[day] = (dayCount[day] || 0) + 1;
-      });
-      const bestDays = Object.entries(dayCount)
-        .sort((a, b) => b[1] - a[1])
-        .slice(0, 3)
-        .map(([day]) => day);
-
-      // Calculate best time slot
-      const hourCount: Record<number, number> = {};
-      entries.forEach((e) => {
-        const hour = new Date(e.startTime).getHours();
-        hourCount[hour] = (hourCount[hour] || 0) + 1;
-      });
-      const bestHour = Object.entries(hourCount).sort((a, b) => b[1] - a[1])[0];
-      const bestTimeSlot = bestHour ? `${bestHour[0]}:00 - ${parseInt(bestHour[0]) + 1}:00` : "N/A";
-
-      // Calculate rating based on performance
-      const avgRev = revenues.length ? revenues.reduce((a, b) => a + b, 0) / revenues.length : 0;
-      const rating = Math.min(5, Math.max(1, Math.round(avgRev / 100)));
-
-      analytics.push({
-        locationId: key,
-        address: entries[0].address || `${lat}, ${lng}`,
-        visitCount: entries.length,
-        avgCustomers: customers.length ? Math.round(customers.reduce((a, b) => a + b, 0) / customers.length) : 0,
-        avgRevenue: avgRev,
-        bestDays,
-        bestTimeSlot,
-        rating,
-      });
-    });
+    const socket = this.feedSocket;
+    this.feedSocket = null;
+    socket?.close();
 
-    return analytics.sort((a, b) => b.avgRevenue - a.avgRevenue);
+    if (this.feedTrucks.size > 0) {
+      this.feedTrucks.clear();
+      this.notifyListeners();
+    }
   }
 
-  getBestLocations(vendorId: string, limit: number = 5): LocationAnalytics[] {
-    return this.getLocationAnalytics(vendorId).slice(0, limit);
-  }
+  private connectFeed(): void {
+    const socket = new WebSocket(liveSocketUrl());
+    this.feedSocket = socket;
 
-  // ============================================
-  // FEATURED LISTINGS
-  // ============================================
-
-  async purchaseBoost(
-    vendorId: string,
-    boostLevel: "basic" | "premium" | "spotlight"
-  ): Promise<FeaturedListing | null> {
-    const boost = BOOST_PRICING[boostLevel];
-    const now = new Date();
-    const endDate = new Date(now.getTime() + boost.duration * 60 * 60 * 1000);
-
-    const listing: FeaturedListing = {
-      vendorId,
-      startDate: now.toISOString(),
-      endDate: endDate.toISOString(),
-      boostLevel,
-      impressions: 0,
-      clicks: 0,
+    socket.onopen = () => {
+      this.reconnectAttempts = 0;
+      this.sendSubscribe();
+    };
+    socket.onmessage = (event) => this.handleFeedMessage(event.data);
+    socket.onerror = () => {
+      if (__DEV__) console.log("Live feed socket error");
+    };
+    socket.onclose = () => {
+      // Ignore sockets we closed ourselves
+      if (this.feedSocket !== socket) return;
+      this.feedSocket = null;
+      if (!this.feedBounds) return;
+
+      const delay = Math.min(
+        RECONNECT_MAX_DELAY_MS,
+        1000 * 2 ** this.reconnectAttempts,
+      );
+      this.reconnectAttempts++;
+      this.reconnectTimer = setTimeout(() => {
+        this.reconnectTimer = null;
+        if (this.feedBounds) this.connectFeed();
+      }, delay);
     };
-
-    // Remove any existing listing for this vendor
-    this.featuredListings = this.featuredListings.filter((l) => l.vendorId !== vendorId);
-    this.featuredListings.push(listing);
-    await this.saveToStorage();
-
-    return listing;
   }
 
-  getActiveBoost(vendorId: string): FeaturedListing | null {
-    const now = new Date();
-    return (
-      this.featuredListings.find(
-        (l) => l.vendorId === vendorId && new Date(l.endDate) > now
-      ) || null
+  private sendSubscribe(): void {
+    if (!this.feedBounds || this.feedSocket?.readyState !== WebSocket.OPEN)
+      return;
+    this.feedSocket.send(
+      JSON.stringify({ type: "subscribe", bounds: this.feedBounds }),
     );
   }
 
-  getFeaturedVendors(): string[] {
-    const now = new Date();
-    return this.featuredListings
-      .filter((l) => new Date(l.endDate) > now)
-      .sort((a, b) => {
-        const boostOrder = { spotlight: 3, premium: 2, basic: 1 };
-        return boostOrder[b.boostLevel] - boostOrder[a.boostLevel];
-      })
-      .map((l) => l.vendorId);
-  }
-
-  getBoostMultiplier(vendorId: string): number {
-    const boost = this.getActiveBoost(vendorId);
-    if (!boost) return 1;
-    return BOOST_PRICING[boost.boostLevel].multiplier;
-  }
+  private handleFeedMessage(data: unknown): void {
+    let message: FeedMessage;
+    try {
+      message = JSON.parse(String(data));
+    } catch {
+      return;
+    }
 
-  async recordImpression(vendorId: string): Promise<void> {
-    const listing = this.featuredListings.find((l) => l.vendorId === vendorId);
-    if (listing) {
-      listing.impressions++;
-      await this.saveToStorage();
+    if (message.type === "snapshot") {
+      this.feedTrucks = new Map(
+        message.trucks.map((t) => [t.vendorId, this.fromFeedTruck(t)] as const),
+      );
+    } else if (message.type === "update") {
+      this.feedTrucks.set(
+        message.truck.vendorId,
+        this.fromFeedTruck(message.truck),
+      );
+    } else if (message.type === "remove") {
+      this.feedTrucks.delete(message.vendorId);
+    } else {
+      if (message.type === "error")
+        console.error("Live feed error:", message.error);
+      return;
     }
+    this.notifyListeners();
   }
 
-  async recordClick(vendorId: string): Promise<void> {
-    const listing = this.featuredListings.find((l) => l.vendorId === vendorId);
-    if (listing) {
-      listing.clicks++;
-      await this.saveToStorage();
-    }
+  private fromFeedTruck(truck: FeedTruck): TruckLocation {
+    return {
+      vendorId: truck.vendorId,
+      latitude: truck.latitude,
+      longitude: truck.longitude,
+      address: truck.address ?? undefined,
+      timestamp: truck.updatedAt,
+      isLive: true,
+      businessName: truck.businessName,
+      category: truck.category,
+      heading: truck.heading,
+    };
   }
 
   // ============================================
   // GEO-FENCE ALERTS
   // ============================================
 
-  async subscribeToZone(zone: GeoFenceZone): Promise<void> {
-    if (!this.userGeoFenceZones.find((z) => z.id === zone.id)) {
-      this.userGeoFenceZones.push(zone);
-      await this.saveToStorage();
-    }
-  }
-
-  async unsubscribeFromZone(zoneId: string): Promise<void> {
-    this.userGeoFenceZones = this.userGeoFenceZones.filter((z) => z.id !== zoneId);
-    await this.saveToStorage();
-  }
-
-  getSubscribedZones(): GeoFenceZone[] {
-    return this.userGeoFenceZones;
-  }
-
-  // Check if a truck entered any subscribed zones
-  async checkGeoFences(
-    vendorId: string,
-    vendorName: string,
-    latitude: number,
-    longitude: number
-  ): Promise<GeoFenceAlert[]> {
-    const alerts: GeoFenceAlert[] = [];
-
-    for (const zone of this.userGeoFenceZones) {
-      const distance = this.calculateDistance(
-        latitude,
-        longitude,
-        zone.latitude,
-        zone.longitude
-      );
-
-      if (distance <= zone.radiusMeters && zone.notifyOnEnter) {
-        const alert: GeoFenceAlert = {
-          id: `alert_${Date.now()}`,
-          zoneId: zone.id,
-          zoneName: zone.name,
-          vendorId,
-          vendorName,
-          eventType: "enter",
-          timestamp: new Date().toISOString(),
-        };
-        alerts.push(alert);
-
-        // Send notification
-        await this.sendGeoFenceNotification(alert);
-      }
-    }
-
-    return alerts;
-  }
-
-  private calculateDistance(
-    lat1: number,
-    lon1: number,
-    lat2: number,
-    lon2: number
-  ): number {
-    const R = 6371e3; // Earth's radius in meters
-    const φ1 = (lat1 * Math.PI) / 180;
-    const φ2 = (lat2 * Math.PI) / 180;
-    const Δφ = ((lat2 - lat1) * Math.PI) / 180;
-    const Δλ = ((lon2 - lon1) * Math.PI) / 180;
-
-    const a =
-      Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-      Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-    return R * c;
-  }
-
-  private async sendGeoFenceNotification(alert: GeoFenceAlert): Promise<void> {
-    // Skip notifications on web
-    if (Platform.OS === "web") return;
-
+  // Active zones, with which ones the signed-in user watches; pass useAuthFetch()
+  async getZones(authFetch: AuthFetch, city?: string): Promise<GeoFenceZone[]> {
     try {
-      await Notifications.scheduleNotificationAsync({
-        content: {
-          title: `${alert.vendorName} is nearby!`,
-          body: `${alert.vendorName} just arrived in ${alert.zoneName}`,
-          data: {
-            type: "geofence_alert",
-            vendorId: alert.vendorId,
-            zoneId: alert.zoneId,
-          },
-          sound: "default",
-        },
-        trigger: null, // Immediate
-      });
+      const query = city ? `?city=${encodeURIComponent(city)}` : "";
+      const response = await authFetch(`/api/geofences${query}`);
+      if (!response.ok) return [];
+
+      const data: { zones: GeoFenceZone[] } = await response.json();
+      return data.zones;
     } catch (error) {
-      console.error("Failed to send geofence notification:", error);
+      console.warn(
+        "Geofence zones unavailable (server may be offline):",
+        error,
+      );
+      return [];
     }
   }
 
   private async notifyNearbyUsers(
     vendorId: string,
     vendorName: string,
-    location: TruckLocation
+    location: TruckLocation,
   ): Promise<void> {
     // Skip notifications on web
     if (Platform.OS === "web") return;
@@ -1,33 +1,26 @@
-import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import * as Haptics from 'expo-haptics';
-
-// Badge definitions
-export type BadgeId =
-  | 'first_deal'
-  | 'deal_hunter'
-  | 'deal_master'
-  | 'early_bird'
-  | 'night_owl'
-  | 'explorer'
-  | 'loyal_customer'
-  | 'social_butterfly'
-  | 'streak_starter'
-  | 'streak_warrior'
-  | 'streak_legend'
-  | 'big_spender'
-  | 'penny_pincher'
-  | 'variety_seeker'
-  | 'foodie'
-  | 'local_hero';
-
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  useRef,
+  ReactNode,
+} from "react";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Haptics from "expo-haptics";
+import { useAuth, useAuthFetch } from "./auth-context";
+import { getApiBaseUrl } from "./api-config";
+
+// Badges are defined on the server, so new and seasonal ones appear without an app update
 interface Badge {
-  id: BadgeId;
+  id: string; // Badge definition id, or "challenge:<id>" for challenge badges
   name: string;
   description: string;
   icon: string;
-  rarity: 'common' | 'rare' | 'epic' | 'legendary';
+  rarity: "common" | "rare" | "epic" | "legendary";
   requirement: number;
+  progress: number;
   unlockedAt?: Date;
 }
 
@@ -42,8 +35,10 @@ interface Achievement {
 }
 
 interface GamificationStats {
-  totalPoints: number;
+  totalPoints: number; // Spendable balance
+  lifetimePoints: number; // Everything ever earned; drives the level
   level: number;
+  levelTitle: string;
   currentXP: number;
   xpToNextLevel: number;
   dealsRedeemed: number;
@@ -51,8 +46,114 @@ interface GamificationStats {
   currentStreak: number;
   longestStreak: number;
   lastActivityDate: string | null;
-  vendorsVisited: string[];
-  categoriesExplored: string[];
+  vendorsVisited: number;
+  categoriesExplored: number;
+}
+
+export interface PointsHistoryEntry {
+  id: string;
+  amount: number;
+  reason:
+    | "redemption"
+    | "check_in"
+    | "share"
+    | "achievement"
+    | "challenge"
+    | "voucher"; // voucher entries are negative (points spent)
+  vendorId: string | null;
+  createdAt: string;
+}
+
+export type RewardItemKind = "discount" | "add_on" | "raffle";
+
+export interface RewardCatalogItem {
+  id: string;
+  vendorId: string | null; // null: usable at any truck that accepts reward vouchers
+  vendorName: string | null;
+  kind: RewardItemKind;
+  title: string;
+  description: string | null;
+  pointsCost: number;
+  discountAmount: number | null; // Dollars off, for discounts
+  remaining: number | null; // null when unlimited
+  voucherValidDays: number;
+  drawAt: string | null; // Raffles only
+}
+
+export interface RewardVoucherPass {
+  id: string;
+  itemId: string;
+  vendorId: string | null;
+  vendorName: string | null;
+  title: string | null;
+  kind: RewardItemKind | null;
+  discountAmount: number | null;
+  status: "active" | "used" | "entered" | "lost";
+  code: string | null; // Only while the voucher can be used
+  token: string | null;
+  pointsSpent: number;
+  expiresAt: string;
+  usedAt: string | null;
+  drawAt: string | null;
+  createdAt: string;
+}
+
+export type ChallengeAction = "redeem" | "check_in" | "visit" | "share";
+
+// Shape of an entry in GET /api/challenges
+export interface Challenge {
+  id: string;
+  title: string;
+  description: string | null;
+  action: ChallengeAction;
+  target: number;
+  countBy: "event" | "vendor" | "day"; // What counts as a step: each visit, each different truck, or each day
+  cuisine: string | null;
+  vendorCategory: string | null;
+  city: string | null;
+  state: string | null;
+  areaName: string | null;
+  startsAt: string;
+  endsAt: string;
+  status: "upcoming" | "running";
+  rewardPoints: number;
+  badgeName: string | null;
+  badgeIcon: string | null;
+  sponsor: { vendorId: string; name: string | null } | null; // null for platform challenges
+  progress: number;
+  completed: boolean;
+}
+
+export type LeaderboardMetric = "points" | "savings";
+export type LeaderboardWindow = "week" | "month" | "all";
+
+export interface LeaderboardQuery {
+  metric: LeaderboardMetric;
+  window: LeaderboardWindow;
+  city?: string;
+  state?: string;
+  limit?: number;
+}
+
+export interface LeaderboardRanking {
+  rank: number;
+  userId: string | null; // null when the customer chose to appear anonymously
+  name: string;
+  avatarUrl: string | null;
+  level: number;
+  value: number; // Points, or dollars saved
+  isCurrentUser: boolean;
+}
+
+// Shape of GET /api/rewards/leaderboard
+export interface LeaderboardResult {
+  metric: LeaderboardMetric;
+  window: LeaderboardWindow;
+  city: string | null;
+  state: string | null;
+  entries: LeaderboardRanking[];
+  me: LeaderboardRanking | null; // The caller's own rank, even outside the top entries
+  totalRanked: number;
 }
 
 interface GamificationContextType {
@@ -61,244 +162,279 @@ interface GamificationContextType {
   achievements: Achievement[];
   unlockedBadges: Badge[];
   recentUnlocks: Badge[];
+  history: PointsHistoryEntry[];
+  catalog: RewardCatalogItem[];
+  vouchers: RewardVoucherPass[];
+  challenges: Challenge[];
+  isLoading: boolean;
   // Actions
-  addPoints: (points: number, reason: string) => void;
-  redeemDeal: (dealId: string, vendorId: string, category: string, savings: number) => void;
-  checkIn: () => void;
-  shareOnSocial: () => void;
+  refreshRewards: () => Promise<void>;
+  recordShare: (vendorId: string, dealId?: string) => Promise<void>;
   clearRecentUnlocks: () => void;
+  fetchLeaderboard: (
+    query: LeaderboardQuery,
+  ) => Promise<LeaderboardResult | null>;
+  refreshCatalog: () => Promise<void>;
+  redeemReward: (itemId: string) => Promise<RewardVoucherPass>;
+  refreshChallenges: () => Promise<void>;
   // Computed
   getProgressToNextLevel: () => number;
   getLevelTitle: () => string;
 }
 
-const BADGES: Badge[] = [
-  { id: 'first_deal', name: 'First Steps', description: 'Redeem your first deal', icon: '🎯', rarity: 'common', requirement: 1 },
-  { id: 'deal_hunter', name: 'Deal Hunter', description: 'Redeem 10 deals', icon: '🎪', rarity: 'common', requirement: 10 },
-  { id: 'deal_master', name: 'Deal Master', description: 'Redeem 50 deals', icon: '👑', rarity: 'epic', requirement: 50 },
-  { id: 'early_bird', name: 'Early Bird', description: 'Redeem 5 deals before 9 AM', icon: '🌅', rarity: 'rare', requirement: 5 },
-  { id: 'night_owl', name: 'Night Owl', description: 'Redeem 5 deals after 9 PM', icon: '🦉', rarity: 'rare', requirement: 5 },
-  { id: 'explorer', name: 'Explorer', description: 'Visit 20 different vendors', icon: '🗺️', rarity: 'rare', requirement: 20 },
-  { id: 'loyal_customer', name: 'Loyal Customer', description: 'Visit the same vendor 10 times', icon: '💎', rarity: 'epic', requirement: 10 },
-  { id: 'social_butterfly', name: 'Social Butterfly', description: 'Share 10 deals with friends', icon: '🦋', rarity: 'common', requirement: 10 },
-  { id: 'streak_starter', name: 'Streak Starter', description: 'Maintain a 7-day streak', icon: '🔥', rarity: 'common', requirement: 7 },
-  { id: 'streak_warrior', name: 'Streak Warrior', description: 'Maintain a 30-day streak', icon: '⚡', rarity: 'epic', requirement: 30 },
-  { id: 'streak_legend', name: 'Streak Legend', description: 'Maintain a 100-day streak', icon: '🏆', rarity: 'legendary', requirement: 100 },
-  { id: 'big_spender', name: 'Big Spender', description: 'Save $500 total', icon: '💰', rarity: 'rare', requirement: 500 },
-  { id: 'penny_pincher', name: 'Penny Pincher', description: 'Save $1000 total', icon: '🤑', rarity: 'epic', requirement: 1000 },
-  { id: 'variety_seeker', name: 'Variety Seeker', description: 'Try deals from 10 categories', icon: '🎨', rarity: 'rare', requirement: 10 },
-  { id: 'foodie', name: 'Foodie', description: 'Redeem 25 restaurant deals', icon: '🍽️', rarity: 'rare', requirement: 25 },
-  { id: 'local_hero', name: 'Local Hero', description: 'Support 30 local businesses', icon: '🦸', rarity: 'epic', requirement: 30 },
-];
-
-const ACHIEVEMENTS: Achievement[] = [
-  { id: 'welcome', title: 'Welcome!', description: 'Create your account', progress: 1, target: 1, reward: 100, completed: true },
-  { id: 'first_save', title: 'First Save', description: 'Save your first favorite vendor', progress: 0, target: 1, reward: 50, completed: false },
-  { id: 'deal_streak_3', title: 'Hot Streak', description: 'Redeem deals 3 days in a row', progress: 0, target: 3, reward: 150, completed: false },
-  { id: 'savings_100', title: 'Smart Saver', description: 'Save $100 on deals', progress: 0, target: 100, reward: 200, completed: false },
-  { id: 'explore_5', title: 'Explorer', description: 'Visit 5 different vendors', progress: 0, target: 5, reward: 100, completed: false },
-];
-
-const LEVEL_TITLES = [
-  'Newcomer', 'Browser', 'Shopper', 'Bargain Hunter', 'Deal Seeker',
-  'Savings Pro', 'Deal Expert', 'Master Saver', 'Deal Champion', 'Savings Legend'
-];
+// Shape of GET /api/rewards/me
+interface RewardsSummary {
+  points: number;
+  lifetimePoints: number;
+  level: number;
+  levelTitle: string;
+  currentXP: number;
+  xpToNextLevel: number;
+  stats: Omit<
+    GamificationStats,
+    | "totalPoints"
+    | "lifetimePoints"
+    | "level"
+    | "levelTitle"
+    | "currentXP"
+    | "xpToNextLevel"
+  >;
+  badges: (Omit<Badge, "unlockedAt"> & { unlockedAt: string | null })[];
+  achievements: Achievement[];
+  history: PointsHistoryEntry[];
+}
 
 const GamificationContext = createContext<GamificationContextType | null>(null);
 
-const STORAGE_KEY = '@smartdealsiq_gamification';
+// Points used to live on the device under this key; the server ledger replaces them
+const LEGACY_STORAGE_KEY = "@smartdealsiq_gamification";
 
 const XP_PER_LEVEL = 1000;
 
+const emptyStats: GamificationStats = {
+  totalPoints: 0,
+  lifetimePoints: 0,
+  level: 1,
+  levelTitle: "Newcomer",
+  currentXP: 0,
+  xpToNextLevel: XP_PER_LEVEL,
+  dealsRedeemed: 0,
+  totalSavings: 0,
+  currentStreak: 0,
+  longestStreak: 0,
+  lastActivityDate: null,
+  vendorsVisited: 0,
+  categoriesExplored: 0,
+};
+
+/**
+ * Read-only view of the customer's rewards. Points, streaks, levels and badge
+ * unlocks are all decided by the server when a redemption, check-in or share
+ * is recorded; this context only fetches the summary.
+ */
 export function GamificationProvider({ children }: { children: ReactNode }) {
-  const [stats, setStats] = useState<GamificationStats>({
-    totalPoints: 0,
-    level: 1,
-    currentXP: 0,
-    xpToNextLevel: XP_PER_LEVEL,
-    dealsRedeemed: 0,
-    totalSavings: 0,
-    currentStreak: 0,
-    longestStreak: 0,
-    lastActivityDate: null,
-    vendorsVisited: [],
-    categoriesExplored: [],
-  });
-
-  const [badges, setBadges] = useState<Badge[]>(BADGES);
-  const [achievements, setAchievements] = useState<Achievement[]>(ACHIEVEMENTS);
+  const { user, isAuthenticated } = useAuth();
+  const authFetch = useAuthFetch();
+  const [stats, setStats] = useState<GamificationStats>(emptyStats);
+  const [badges, setBadges] = useState<Badge[]>([]);
+  const [achievements, setAchievements] = useState<Achievement[]>([]);
+  const [history, setHistory] = useState<PointsHistoryEntry[]>([]);
   const [recentUnlocks, setRecentUnlocks] = useState<Badge[]>([]);
+  const [catalog, setCatalog] = useState<RewardCatalogItem[]>([]);
+  const [vouchers, setVouchers] = useState<RewardVoucherPass[]>([]);
+  const [challenges, setChallenges] = useState<Challenge[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  // Badges unlocked as of the last fetch; null until the first one so existing badges don't celebrate
+  const knownUnlocks = useRef<Set<string> | null>(null);
 
-  // Load saved data
   useEffect(() => {
-    loadData();
+    AsyncStorage.removeItem(LEGACY_STORAGE_KEY).catch(() => {});
   }, []);
 
-  // Save data on changes
-  useEffect(() => {
-    saveData();
-  }, [stats, badges, achievements]);
-
-  const loadData = async () => {
+  const refreshRewards = useCallback(async () => {
+    setIsLoading(true);
     try {
-      const saved = await AsyncStorage.getItem(STORAGE_KEY);
-      if (saved) {
-        const data = JSON.parse(saved);
-        setStats(data.stats);
-        setBadges(data.badges);
-        setAchievements(data.achievements);
+      const response = await authFetch("/api/rewards/me");
+      if (!response.ok) return;
+
+      const data: RewardsSummary = await response.json();
+      const nextBadges: Badge[] = data.badges.map((badge) => ({
+        ...badge,
+        unlockedAt: badge.unlockedAt ? new Date(badge.unlockedAt) : undefined,
+      }));
+
+      const newUnlocks = knownUnlocks.current
+        ? nextBadges.filter(
+            (b) => b.unlockedAt && !knownUnlocks.current!.has(b.id),
+          )
+        : [];
+      knownUnlocks.current = new Set(
+        nextBadges.filter((b) => b.unlockedAt).map((b) => b.id),
+      );
+      if (newUnlocks.length > 0) {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        setRecentUnlocks((prev) => [...newUnlocks, ...prev].slice(0, 5));
       }
+
+      setStats({
+        ...data.stats,
+        totalPoints: data.points,
+        lifetimePoints: data.lifetimePoints,
+        level: data.level,
+        levelTitle: data.levelTitle,
+        currentXP: data.currentXP,
+        xpToNextLevel: data.xpToNextLevel,
+      });
+      setBadges(nextBadges);
+      setAchievements(data.achievements);
+      setHistory(data.history);
     } catch (error) {
-      console.error('Failed to load gamification data:', error);
+      console.warn(
+        "[Rewards] Summary unavailable (server may be offline):",
+        error,
+      );
+    } finally {
+      setIsLoading(false);
     }
-  };
+  }, [authFetch]);
 
-  const saveData = async () => {
+  // The catalog is public; vouchers are the customer's own
+  const refreshCatalog = useCallback(async () => {
     try {
-      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify({ stats, badges, achievements }));
+      const [catalogResponse, vouchersResponse] = await Promise.all([
+        fetch(`${getApiBaseUrl()}/api/rewards/catalog`),
+        authFetch("/api/rewards/vouchers/my"),
+      ]);
+      if (catalogResponse.ok) {
+        const data: { items: RewardCatalogItem[] } =
+          await catalogResponse.json();
+        setCatalog(data.items);
+      }
+      if (vouchersResponse.ok) {
+        const data: { vouchers: RewardVoucherPass[] } =
+          await vouchersResponse.json();
+        setVouchers(data.vouchers);
+      }
     } catch (error) {
-      console.error('Failed to save gamification data:', error);
+      console.warn(
+        "[Rewards] Catalog unavailable (server may be offline):",
+        error,
+      );
     }
-  };
-
-  const addPoints = useCallback((points: number, reason: string) => {
-    setStats(prev => {
-      let newXP = prev.currentXP + points;
-      let newLevel = prev.level;
-      let xpToNext = prev.xpToNextLevel;
-
-      // Level up check
-      while (newXP >= xpToNext) {
-        newXP -= xpToNext;
-        newLevel++;
-        xpToNext = XP_PER_LEVEL * newLevel; // Progressive XP requirements
-        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+  }, [authFetch]);
+
+  // The server deducts the points and issues the voucher in one step
+  const redeemReward = useCallback(
+    async (itemId: string) => {
+      const response = await authFetch(
+        `/api/rewards/catalog/${itemId}/redeem`,
+        { method: "POST" },
+      );
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to redeem reward");
       }
 
-      return {
-        ...prev,
-        totalPoints: prev.totalPoints + points,
-        currentXP: newXP,
-        level: newLevel,
-        xpToNextLevel: xpToNext,
+      const item = catalog.find((i) => i.id === itemId);
+      const voucher: RewardVoucherPass = {
+        ...data.voucher,
+        vendorName: item?.vendorName ?? null,
+        discountAmount: item?.discountAmount ?? null,
+        drawAt: item?.drawAt ?? null,
       };
-    });
-  }, []);
-
-  const checkBadgeUnlocks = useCallback((newStats: GamificationStats) => {
-    const newUnlocks: Badge[] = [];
-
-    setBadges(prevBadges => {
-      return prevBadges.map(badge => {
-        if (badge.unlockedAt) return badge;
-
-        let shouldUnlock = false;
-
-        switch (badge.id) {
-          case 'first_deal':
-            shouldUnlock = newStats.dealsRedeemed >= 1;
-            break;
-          case 'deal_hunter':
-            shouldUnlock = newStats.dealsRedeemed >= 10;
-            break;
-          case 'deal_master':
-            shouldUnlock = newStats.dealsRedeemed >= 50;
-            break;
-          case 'explorer':
-            shouldUnlock = newStats.vendorsVisited.length >= 20;
-            break;
-          case 'streak_starter':
-            shouldUnlock = newStats.currentStreak >= 7;
-            break;
-          case 'streak_warrior':
-            shouldUnlock = newStats.currentStreak >= 30;
-            break;
-          case 'streak_legend':
-            shouldUnlock = newStats.currentStreak >= 100;
-            break;
-          case 'big_spender':
-            shouldUnlock = newStats.totalSavings >= 500;
-            break;
-          case 'penny_pincher':
-            shouldUnlock = newStats.totalSavings >= 1000;
-            break;
-          case 'variety_seeker':
-            shouldUnlock = newStats.categoriesExplored.length >= 10;
-            break;
-          case 'local_hero':
-            shouldUnlock = newStats.vendorsVisited.length >= 30;
-            break;
-        }
-
-        if (shouldUnlock) {
-          const unlockedBadge = { ...badge, unlockedAt: new Date() };
-          newUnlocks.push(unlockedBadge);
-          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-          return unlockedBadge;
-        }
-
-        return badge;
-      });
-    });
+      setVouchers((prev) => [voucher, ...prev]);
+      setStats((prev) => ({ ...prev, totalPoints: data.points }));
+      await Promise.all([refreshRewards(), refreshCatalog()]);
+      return voucher;
+    },
+    [authFetch, catalog, refreshRewards, refreshCatalog],
+  );
 
-    if (newUnlocks.length > 0) {
-      setRecentUnlocks(prev => [...newUnlocks, ...prev].slice(0, 5));
+  // Progress is counted by the server from the customer's redemptions, check-ins and shares
+  const refreshChallenges = useCallback(async () => {
+    try {
+      const response = await authFetch("/api/challenges");
+      if (!response.ok) return;
+      const data: { challenges: Challenge[] } = await response.json();
+      setChallenges(data.challenges);
+    } catch (error) {
+      console.warn(
+        "[Rewards] Challenges unavailable (server may be offline):",
+        error,
+      );
     }
-  }, []);
+  }, [authFetch]);
 
-  const redeemDeal = useCallback((dealId: string, vendorId: string, category: string, savings: number) => {
-    setStats(prev => {
-      const today = new Date().toDateString();
-      const lastActivity = prev.lastActivityDate;
-
-      // Calculate streak
-      let newStreak = prev.currentStreak;
-      if (lastActivity) {
-        const lastDate = new Date(lastActivity);
-        const daysDiff = Math.floor((new Date().getTime() - lastDate.getTime()) / (1000 * 60 * 60 * 24));
-        if (daysDiff === 1) {
-          newStreak++;
-        } else if (daysDiff > 1) {
-          newStreak = 1;
-        }
-      } else {
-        newStreak = 1;
+  useEffect(() => {
+    if (isAuthenticated && user?.role === "customer") {
+      refreshRewards();
+      refreshCatalog();
+      refreshChallenges();
+    } else {
+      knownUnlocks.current = null;
+      setStats(emptyStats);
+      setBadges([]);
+      setAchievements([]);
+      setHistory([]);
+      setRecentUnlocks([]);
+      setVouchers([]);
+      setChallenges([]);
+    }
+  }, [
+    isAuthenticated,
+    user?.role,
+    refreshRewards,
+    refreshCatalog,
+    refreshChallenges,
+  ]);
+
+  // The server awards share points once per vendor per day
+  const recordShare = useCallback(
+    async (vendorId: string, dealId?: string) => {
+      if (!isAuthenticated || user?.role !== "customer") return;
+      try {
+        const response = await authFetch("/api/rewards/share", {
+          method: "POST",
+          body: JSON.stringify({ vendorId, dealId }),
+        });
+        if (!response.ok) return;
+
+        const data: { pointsEarned: number } = await response.json();
+        if (data.pointsEarned > 0)
+          await Promise.all([refreshRewards(), refreshChallenges()]);
+      } catch (error) {
+        console.warn("[Rewards] Share not recorded:", error);
       }
+    },
+    [authFetch, isAuthenticated, user?.role, refreshRewards, refreshChallenges],
+  );
 
-      const newStats = {
-        ...prev,
-        dealsRedeemed: prev.dealsRedeemed + 1,
-        totalSavings: prev.totalSavings + savings,
-        currentStreak: newStreak,
-        longestStreak: Math.max(prev.longestStreak, newStreak),
-        lastActivityDate: today,
-        vendorsVisited: prev.vendorsVisited.includes(vendorId)
-          ? prev.vendorsVisited
-          : [...prev.vendorsVisited, vendorId],
-        categoriesExplored: prev.categoriesExplored.includes(category)
-          ? prev.categoriesExplored
-          : [...prev.categoriesExplored, category],
-      };
-
-      // Award points
-      const pointsEarned = Math.round(50 + savings * 2);
-      addPoints(pointsEarned, 'Deal redeemed');
-
-      // Check for badge unlocks
-      checkBadgeUnlocks(newStats);
-
-      return newStats;
-    });
-  }, [addPoints, checkBadgeUnlocks]);
-
-  const checkIn = useCallback(() => {
-    addPoints(25, 'Daily check-in');
-    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-  }, [addPoints]);
-
-  const shareOnSocial = useCallback(() => {
-    addPoints(15, 'Social share');
-  }, [addPoints]);
+  const fetchLeaderboard = useCallback(
+    async (query: LeaderboardQuery) => {
+      const params = new URLSearchParams({
+        metric: query.metric,
+        window: query.window,
+      });
+      if (query.city) params.set("city", query.city);
+      if (query.state) params.set("state", query.state);
+      if (query.limit) params.set("limit", String(query.limit));
+      try {
+        const response = await authFetch(
+          `/api/rewards/leaderboard?${params.toString()}`,
+        );
+        if (!response.ok) return null;
+        const data: LeaderboardResult = await response.json();
+        return data;
+      } catch (error) {
+        console.warn(
+          "[Rewards] Leaderboard unavailable (server may be offline):",
+          error,
+        );
+        return null;
+      }
+    },
+    [authFetch],
+  );
 
   const clearRecentUnlocks = useCallback(() => {
     setRecentUnlocks([]);
@@ -309,11 +445,10 @@ export function GamificationProvider({ children }: { children: ReactNode }) {
   }, [stats.currentXP, stats.xpToNextLevel]);
 
   const getLevelTitle = useCallback(() => {
-    const index = Math.min(stats.level - 1, LEVEL_TITLES.length - 1);
-    return LEVEL_TITLES[index];
-  }, [stats.level]);
+    return stats.levelTitle;
+  }, [stats.levelTitle]);
 
-  const unlockedBadges = badges.filter(b => b.unlockedAt);
+  const unlockedBadges = badges.filter((b) => b.unlockedAt);
 
   return (
     <GamificationContext.Provider
@@ -323,11 +458,18 @@ export function GamificationProvider({ children }: { children: ReactNode }) {
         achievements,
         unlockedBadges,
         recentUnlocks,
-        addPoints,
-        redeemDeal,
-        checkIn,
-        shareOnSocial,
+        history,
+        catalog,
+        vouchers,
+        challenges,
+        isLoading,
+        refreshRewards,
+        recordShare,
         clearRecentUnlocks,
+        fetchLeaderboard,
+        refreshCatalog,
+        redeemReward,
+        refreshChallenges,
         getProgressToNextLevel,
         getLevelTitle,
       }}
@@ -340,7 +482,9 @@ export function GamificationProvider({ children }: { children: ReactNode }) {
 export function useGamification() {
   const context = useContext(GamificationContext);
   if (!context) {
-    throw new Error('useGamification must be used within a GamificationProvider');
+    throw new Error(
+      "useGamification must be used within a GamificationProvider",
+    );
   }
   return context;
 }
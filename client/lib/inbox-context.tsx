@@ -0,0 +1,270 @@
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  useRef,
+  ReactNode,
+} from "react";
+import { Platform } from "react-native";
+import * as Notifications from "expo-notifications";
+import { useAuth, useAuthFetch } from "./auth-context";
+import { usePreferences, NotificationPreferences } from "./preferences-context";
+
+export type NotificationCategory =
+  | "flash_deal"
+  | "deal_alert"
+  | "price_drop"
+  | "new_store"
+  | "weekly_digest"
+  | "zone_alert"
+  | "rewards";
+
+export interface InboxNotification {
+  id: string;
+  category: NotificationCategory;
+  title: string;
+  body: string;
+  data: Record<string, unknown> | null; // Deep link, e.g. { type: "flash_deal", dealId, vendorId }
+  pushed: boolean; // false when quiet hours or the daily cap held the push back
+  readAt: string | null;
+  createdAt: string;
+}
+
+// What the server checks before sending; sound and vibration only matter on the device
+interface ServerNotificationPreferences {
+  pushEnabled: boolean;
+  dealAlerts: boolean;
+  flashDeals: boolean;
+  priceDrops: boolean;
+  newStores: boolean;
+  weeklyDigest: boolean;
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+  timezone: string;
+  maxPromoPushesPerDay: number | null;
+}
+
+function toServerPreferences(
+  prefs: NotificationPreferences,
+): ServerNotificationPreferences {
+  return {
+    pushEnabled: prefs.pushEnabled,
+    dealAlerts: prefs.dealAlerts,
+    flashDeals: prefs.flashDeals,
+    priceDrops: prefs.priceDrops,
+    newStores: prefs.newStores,
+    weeklyDigest: prefs.weeklyDigest,
+    quietHoursStart: prefs.quietHoursEnabled ? prefs.quietHoursStart : null,
+    quietHoursEnd: prefs.quietHoursEnabled ? prefs.quietHoursEnd : null,
+    // Quiet hours follow the phone's clock, including when the user travels
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    maxPromoPushesPerDay: prefs.maxPromoPushesPerDay,
+  };
+}
+
+function fromServerPreferences(
+  prefs: ServerNotificationPreferences,
+): Partial<NotificationPreferences> {
+  return {
+    pushEnabled: prefs.pushEnabled,
+    dealAlerts: prefs.dealAlerts,
+    flashDeals: prefs.flashDeals,
+    priceDrops: prefs.priceDrops,
+    newStores: prefs.newStores,
+    weeklyDigest: prefs.weeklyDigest,
+    quietHoursEnabled: prefs.quietHoursStart !== null,
+    // Keep the times the user last picked when quiet hours are off
+    ...(prefs.quietHoursStart && prefs.quietHoursEnd
+      ? {
+          quietHoursStart: prefs.quietHoursStart,
+          quietHoursEnd: prefs.quietHoursEnd,
+        }
+      : {}),
+    maxPromoPushesPerDay: prefs.maxPromoPushesPerDay,
+  };
+}
+
+function samePreferences(
+  a: ServerNotificationPreferences,
+  b: ServerNotificationPreferences,
+): boolean {
+  return (Object.keys(a) as (keyof ServerNotificationPreferences)[]).every(
+    (key) => a[key] === b[key],
+  );
+}
+
+interface InboxContextType {
+  notifications: InboxNotification[];
+  unreadCount: number;
+  isLoading: boolean;
+  refreshInbox: () => Promise<void>;
+  markRead: (id: string) => Promise<void>;
+  markAllRead: () => Promise<void>;
+}
+
+const InboxContext = createContext<InboxContextType | undefined>(undefined);
+
+export function InboxProvider({ children }: { children: ReactNode }) {
+  const { isAuthenticated } = useAuth();
+  const authFetch = useAuthFetch();
+  const {
+    notifications: preferences,
+    updateNotifications,
+    isLoaded,
+  } = usePreferences();
+  const [notifications, setNotifications] = useState<InboxNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [preferencesSynced, setPreferencesSynced] = useState(false);
+  // Settings the server has, so each change is only sent once
+  const serverPreferences = useRef<ServerNotificationPreferences | null>(null);
+
+  const refreshInbox = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await authFetch("/api/notifications");
+      if (!response.ok) return;
+
+      const data: { notifications: InboxNotification[]; unreadCount: number } =
+        await response.json();
+      setNotifications(data.notifications);
+      setUnreadCount(data.unreadCount);
+    } catch (error) {
+      console.warn(
+        "[Inbox] Notifications unavailable (server may be offline):",
+        error,
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, [authFetch]);
+
+  // On sign-in, adopt the settings saved on the server, or upload this device's if there are none yet
+  useEffect(() => {
+    serverPreferences.current = null;
+    setPreferencesSynced(false);
+    if (!isAuthenticated) {
+      setNotifications([]);
+      setUnreadCount(0);
+      return;
+    }
+    if (!isLoaded) return;
+
+    refreshInbox();
+    (async () => {
+      try {
+        const response = await authFetch("/api/notifications/preferences");
+        if (!response.ok) return;
+
+        const data: {
+          preferences: ServerNotificationPreferences;
+          updatedAt: string | null;
+        } = await response.json();
+        if (data.updatedAt) {
+          serverPreferences.current = data.preferences;
+          await updateNotifications(fromServerPreferences(data.preferences));
+        }
+        setPreferencesSynced(true);
+      } catch (error) {
+        console.warn(
+          "[Inbox] Notification preferences unavailable (server may be offline):",
+          error,
+        );
+      }
+    })();
+  }, [isAuthenticated, isLoaded, authFetch, refreshInbox, updateNotifications]);
+
+  // The server decides what to push, so it needs every change made in Preferences
+  useEffect(() => {
+    if (!isAuthenticated || !preferencesSynced) return;
+
+    const next = toServerPreferences(preferences);
+    if (
+      serverPreferences.current &&
+      samePreferences(serverPreferences.current, next)
+    )
+      return;
+
+    (async () => {
+      try {
+        const response = await authFetch("/api/notifications/preferences", {
+          method: "PUT",
+          body: JSON.stringify(next),
+        });
+        if (response.ok) {
+          serverPreferences.current = next;
+        }
+      } catch (error) {
+        console.warn("[Inbox] Failed to save notification preferences:", error);
+      }
+    })();
+  }, [preferences, preferencesSynced, isAuthenticated, authFetch]);
+
+  // Pushes that arrive while the app is open are already in the server inbox
+  useEffect(() => {
+    if (!isAuthenticated || Platform.OS === "web") return;
+
+    const subscription = Notifications.addNotificationReceivedListener(() => {
+      refreshInbox();
+    });
+    return () => subscription.remove();
+  }, [isAuthenticated, refreshInbox]);
+
+  const markRead = useCallback(
+    async (id: string) => {
+      const target = notifications.find((n) => n.id === id);
+      if (!target || target.readAt) return;
+
+      setNotifications((prev) =>
+        prev.map((n) =>
+          n.id === id ? { ...n, readAt: new Date().toISOString() } : n,
+        ),
+      );
+      setUnreadCount((count) => Math.max(0, count - 1));
+      try {
+        await authFetch(`/api/notifications/${id}/read`, { method: "POST" });
+      } catch (error) {
+        console.warn("[Inbox] Failed to mark notification read:", error);
+      }
+    },
+    [notifications, authFetch],
+  );
+
+  const markAllRead = useCallback(async () => {
+    const now = new Date().toISOString();
+    setNotifications((prev) =>
+      prev.map((n) => (n.readAt ? n : { ...n, readAt: now })),
+    );
+    setUnreadCount(0);
+    try {
+      await authFetch("/api/notifications/read-all", { method: "POST" });
+    } catch (error) {
+      console.warn("[Inbox] Failed to mark notifications read:", error);
+    }
+  }, [authFetch]);
+
+  return (
+    <InboxContext.Provider
+      value={{
+        notifications,
+        unreadCount,
+        isLoading,
+        refreshInbox,
+        markRead,
+        markAllRead,
+      }}
+    >
+      {children}
+    </InboxContext.Provider>
+  );
+}
+
+export function useInbox() {
+  const context = useContext(InboxContext);
+  if (context === undefined) {
+    throw new Error("useInbox must be used within an InboxProvider");
+  }
+  return context;
+}
@@ -1,5 +1,6 @@
 import * as Notifications from "expo-notifications";
 import { Platform } from "react-native";
+import Constants from "expo-constants";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 
 const NOTIFICATION_PERMISSION_KEY = "@smartdealsiq_notification_permission";
@@ -7,6 +8,13 @@ const NEARBY_ALERT_RADIUS_KEY = "@smartdealsiq_nearby_radius";
 const FLASH_DEALS_ENABLED_KEY = "@smartdealsiq_flash_deals_enabled";
 const SUBSCRIBED_CATEGORIES_KEY = "@smartdealsiq_subscribed_categories";
 const SUBSCRIBED_VENDORS_KEY = "@smartdealsiq_subscribed_vendors";
+const PUSH_TOKEN_KEY = "@smartdealsiq_push_token";
+
+// useAuthFetch() from auth-context; subscriptions live on the server so pushes reach every device
+export type AuthFetch = (
+  endpoint: string,
+  options?: RequestInit,
+) => Promise<Response>;
 
 // Only set notification handler on native platforms
 if (Platform.OS !== "web") {
@@ -53,7 +61,8 @@ export async function requestNotificationPermission(): Promise<boolean> {
       return false;
     }
 
-    const { status: existingStatus } = await Notifications.getPermissionsAsync();
+    const { status: existingStatus } =
+      await Notifications.getPermissionsAsync();
     let finalStatus = existingStatus;
 
     if (existingStatus !== "granted") {
@@ -62,7 +71,10 @@ export async function requestNotificationPermission(): Promise<boolean> {
     }
 
     const hasPermission = finalStatus === "granted";
-    await AsyncStorage.setItem(NOTIFICATION_PERMISSION_KEY, JSON.stringify(hasPermission));
+    await AsyncStorage.setItem(
+      NOTIFICATION_PERMISSION_KEY,
+      JSON.stringify(hasPermission),
+    );
     return hasPermission;
   } catch (error) {
     console.error("Error requesting notification permission:", error);
@@ -70,15 +82,64 @@ export async function requestNotificationPermission(): Promise<boolean> {
   }
 }
 
+/**
+ * Register this device's Expo push token with the server so it can send
+ * flash deal alerts. Only runs once notification permission is granted.
+ */
+export async function registerPushToken(
+  authFetch: AuthFetch,
+): Promise<string | null> {
+  try {
+    if (Platform.OS === "web") return null;
+
+    const { status } = await Notifications.getPermissionsAsync();
+    if (status !== "granted") return null;
+
+    const projectId = Constants.expoConfig?.extra?.eas?.projectId;
+    const { data: token } = await Notifications.getExpoPushTokenAsync({
+      projectId,
+    });
+    const response = await authFetch("/api/notifications/tokens", {
+      method: "POST",
+      body: JSON.stringify({ token, platform: Platform.OS }),
+    });
+    if (!response.ok) return null;
+
+    await AsyncStorage.setItem(PUSH_TOKEN_KEY, token);
+    return token;
+  } catch (error) {
+    console.error("Error registering push token:", error);
+    return null;
+  }
+}
+
+export async function getStoredPushToken(): Promise<string | null> {
+  try {
+    return await AsyncStorage.getItem(PUSH_TOKEN_KEY);
+  } catch {
+    return null;
+  }
+}
+
+// Forget the token and the signed-out user's subscriptions; the server drops the token as part of logout
+export async function clearPushRegistration(): Promise<void> {
+  await AsyncStorage.multiRemove([
+    PUSH_TOKEN_KEY,
+    SUBSCRIBED_CATEGORIES_KEY,
+    SUBSCRIBED_VENDORS_KEY,
+  ]).catch(() => {});
+}
+
 export async function getNotificationSettings(): Promise<NotificationSettings> {
   try {
-    const [permissionStr, radiusStr, flashStr, categoriesStr, vendorsStr] = await Promise.all([
-      AsyncStorage.getItem(NOTIFICATION_PERMISSION_KEY),
-      AsyncStorage.getItem(NEARBY_ALERT_RADIUS_KEY),
-      AsyncStorage.getItem(FLASH_DEALS_ENABLED_KEY),
-      AsyncStorage.getItem(SUBSCRIBED_CATEGORIES_KEY),
-      AsyncStorage.getItem(SUBSCRIBED_VENDORS_KEY),
-    ]);
+    const [permissionStr, radiusStr, flashStr, categoriesStr, vendorsStr] =
+      await Promise.all([
+        AsyncStorage.getItem(NOTIFICATION_PERMISSION_KEY),
+        AsyncStorage.getItem(NEARBY_ALERT_RADIUS_KEY),
+        AsyncStorage.getItem(FLASH_DEALS_ENABLED_KEY),
+        AsyncStorage.getItem(SUBSCRIBED_CATEGORIES_KEY),
+        AsyncStorage.getItem(SUBSCRIBED_VENDORS_KEY),
+      ]);
 
     return {
       hasPermission: permissionStr ? JSON.parse(permissionStr) : false,
@@ -107,7 +168,10 @@ export async function setNearbyAlertRadius(radius: number): Promise<void> {
   }
 }
 
-export async function scheduleNearbyVendorNotification(vendorName: string, distance: number): Promise<void> {
+export async function scheduleNearbyVendorNotification(
+  vendorName: string,
+  distance: number,
+): Promise<void> {
   try {
     if (Platform.OS === "web") return;
 
@@ -137,50 +201,129 @@ export async function cancelAllNotifications(): Promise<void> {
 
 export async function setFlashDealsEnabled(enabled: boolean): Promise<void> {
   try {
-    await AsyncStorage.setItem(FLASH_DEALS_ENABLED_KEY, JSON.stringify(enabled));
+    await AsyncStorage.setItem(
+      FLASH_DEALS_ENABLED_KEY,
+      JSON.stringify(enabled),
+    );
   } catch (error) {
     console.error("Error saving flash deals setting:", error);
   }
 }
 
-export async function subscribeToCategory(category: string): Promise<void> {
+/**
+ * Replace the local copy of the user's vendor and category subscriptions
+ * with the server's.
+ */
+export async function syncNotificationSubscriptions(
+  authFetch: AuthFetch,
+): Promise<void> {
+  try {
+    const response = await authFetch("/api/notifications/subscriptions");
+    if (!response.ok) return;
+
+    const data: { vendors: string[]; categories: string[] } =
+      await response.json();
+    await AsyncStorage.multiSet([
+      [SUBSCRIBED_VENDORS_KEY, JSON.stringify(data.vendors)],
+      [SUBSCRIBED_CATEGORIES_KEY, JSON.stringify(data.categories)],
+    ]);
+  } catch (error) {
+    console.error("Error syncing notification subscriptions:", error);
+  }
+}
+
+async function saveSubscription(
+  authFetch: AuthFetch,
+  kind: "vendor" | "category" | "zone" | "favorite",
+  target: string,
+  subscribed: boolean,
+): Promise<boolean> {
+  const response = subscribed
+    ? await authFetch("/api/notifications/subscriptions", {
+        method: "POST",
+        body: JSON.stringify({ kind, target }),
+      })
+    : await authFetch(
+        `/api/notifications/subscriptions/${kind}/${encodeURIComponent(target)}`,
+        {
+          method: "DELETE",
+        },
+      );
+  // Unsubscribing from something the server never had still counts
+  return response.ok || (!subscribed && response.status === 404);
+}
+
+export async function subscribeToCategory(
+  category: string,
+  authFetch: AuthFetch,
+): Promise<void> {
   try {
+    if (!(await saveSubscription(authFetch, "category", category, true)))
+      return;
+
     const settings = await getNotificationSettings();
     const categories = [...settings.subscribedCategories];
     if (!categories.includes(category)) {
       categories.push(category);
-      await AsyncStorage.setItem(SUBSCRIBED_CATEGORIES_KEY, JSON.stringify(categories));
+      await AsyncStorage.setItem(
+        SUBSCRIBED_CATEGORIES_KEY,
+        JSON.stringify(categories),
+      );
     }
   } catch (error) {
     console.error("Error subscribing to category:", error);
   }
 }
 
-export async function unsubscribeFromCategory(category: string): Promise<void> {
+export async function unsubscribeFromCategory(
+  category: string,
+  authFetch: AuthFetch,
+): Promise<void> {
   try {
+    if (!(await saveSubscription(authFetch, "category", category, false)))
+      return;
+
     const settings = await getNotificationSettings();
-    const categories = settings.subscribedCategories.filter((c) => c !== category);
-    await AsyncStorage.setItem(SUBSCRIBED_CATEGORIES_KEY, JSON.stringify(categories));
+    const categories = settings.subscribedCategories.filter(
+      (c) => c !== category,
+    );
+    await AsyncStorage.setItem(
+      SUBSCRIBED_CATEGORIES_KEY,
+      JSON.stringify(categories),
+    );
   } catch (error) {
     console.error("Error unsubscribing from category:", error);
   }
 }
 
-export async function subscribeToVendor(vendorId: string): Promise<void> {
+export async function subscribeToVendor(
+  vendorId: string,
+  authFetch: AuthFetch,
+): Promise<void> {
   try {
+    if (!(await saveSubscription(authFetch, "vendor", vendorId, true))) return;
+
     const settings = await getNotificationSettings();
     const vendors = [...settings.subscribedVendors];
     if (!vendors.includes(vendorId)) {
       vendors.push(vendorId);
-      await AsyncStorage.setItem(SUBSCRIBED_VENDORS_KEY, JSON.stringify(vendors));
+      await AsyncStorage.setItem(
+        SUBSCRIBED_VENDORS_KEY,
+        JSON.stringify(vendors),
+      );
     }
   } catch (error) {
     console.error("Error subscribing to vendor:", error);
   }
 }
 
-export async function unsubscribeFromVendor(vendorId: string): Promise<void> {
+export async function unsubscribeFromVendor(
+  vendorId: string,
+  authFetch: AuthFetch,
+): Promise<void> {
   try {
+    if (!(await saveSubscription(authFetch, "vendor", vendorId, false))) return;
+
     const settings = await getNotificationSettings();
     const vendors = settings.subscribedVendors.filter((v) => v !== vendorId);
     await AsyncStorage.setItem(SUBSCRIBED_VENDORS_KEY, JSON.stringify(vendors));
@@ -189,60 +332,80 @@ export async function unsubscribeFromVendor(vendorId: string): Promise<void> {
   }
 }
 
-export async function sendFlashDealNotification(flashDeal: FlashDeal): Promise<void> {
+// Zone alerts only cover favorite trucks, so the server needs the customer's favorites too
+export async function subscribeToZone(
+  zoneId: string,
+  authFetch: AuthFetch,
+): Promise<boolean> {
   try {
-    if (Platform.OS === "web") {
-      // For web, use browser notifications if available
-      if ("Notification" in window && Notification.permission === "granted") {
-        new Notification(`Flash Deal: ${flashDeal.title}`, {
-          body: `${flashDeal.discountPercent}% OFF at ${flashDeal.vendorName}! Expires soon.`,
-          icon: "/icon.png",
-          tag: flashDeal.id,
-        });
-      }
-      return;
-    }
-
-    const settings = await getNotificationSettings();
-    if (!settings.flashDealsEnabled) return;
-
-    // Check if user is subscribed to this vendor or category
-    const isSubscribedToVendor = settings.subscribedVendors.includes(flashDeal.vendorId);
-    const isSubscribedToCategory = flashDeal.category && settings.subscribedCategories.includes(flashDeal.category);
+    return await saveSubscription(authFetch, "zone", zoneId, true);
+  } catch (error) {
+    console.error("Error subscribing to zone:", error);
+    return false;
+  }
+}
 
-    // Send notification if subscribed to "all" (empty arrays mean all) or specifically subscribed
-    const shouldNotify =
-      (settings.subscribedVendors.length === 0 && settings.subscribedCategories.length === 0) ||
-      isSubscribedToVendor ||
-      isSubscribedToCategory;
+export async function unsubscribeFromZone(
+  zoneId: string,
+  authFetch: AuthFetch,
+): Promise<boolean> {
+  try {
+    return await saveSubscription(authFetch, "zone", zoneId, false);
+  } catch (error) {
+    console.error("Error unsubscribing from zone:", error);
+    return false;
+  }
+}
 
-    if (!shouldNotify) return;
+export async function saveFavoriteVendor(
+  vendorId: string,
+  favorite: boolean,
+  authFetch: AuthFetch,
+): Promise<void> {
+  try {
+    await saveSubscription(authFetch, "favorite", vendorId, favorite);
+  } catch (error) {
+    console.error("Error saving favorite vendor:", error);
+  }
+}
 
-    await Notifications.scheduleNotificationAsync({
-      content: {
-        title: `⚡ Flash Deal: ${flashDeal.discountPercent}% OFF!`,
-        body: `${flashDeal.title} at ${flashDeal.vendorName}. Was $${flashDeal.originalPrice}, now $${flashDeal.discountedPrice}!`,
-        data: {
-          type: "flash_deal",
-          dealId: flashDeal.id,
-          vendorId: flashDeal.vendorId,
-        },
-        sound: "default",
-        badge: 1,
-      },
-      trigger: null, // Send immediately
-    });
+/**
+ * Upload favorites the server doesn't have yet, and return the ones saved
+ * from another device that this one is missing.
+ */
+export async function syncFavoriteVendors(
+  vendorIds: string[],
+  authFetch: AuthFetch,
+): Promise<string[]> {
+  try {
+    const response = await authFetch("/api/notifications/subscriptions");
+    if (!response.ok) return [];
+
+    const data: { favorites: string[] } = await response.json();
+    const onServer = new Set(data.favorites);
+    await Promise.all(
+      vendorIds
+        .filter((id) => !onServer.has(id))
+        .map((id) => saveSubscription(authFetch, "favorite", id, true)),
+    );
+    return data.favorites.filter((id) => !vendorIds.includes(id));
   } catch (error) {
-    console.error("Error sending flash deal notification:", error);
+    console.error("Error syncing favorite vendors:", error);
+    return [];
   }
 }
 
-export async function scheduleFlashDealReminder(flashDeal: FlashDeal, minutesBefore: number = 5): Promise<string | null> {
+export async function scheduleFlashDealReminder(
+  flashDeal: FlashDeal,
+  minutesBefore: number = 5,
+): Promise<string | null> {
   try {
     if (Platform.OS === "web") return null;
 
     const expiresAt = new Date(flashDeal.expiresAt);
-    const reminderTime = new Date(expiresAt.getTime() - minutesBefore * 60 * 1000);
+    const reminderTime = new Date(
+      expiresAt.getTime() - minutesBefore * 60 * 1000,
+    );
     const now = new Date();
 
     if (reminderTime <= now) return null;
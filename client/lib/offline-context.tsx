@@ -1,7 +1,15 @@
-import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import NetInfo from '@react-native-community/netinfo';
-import { Platform } from 'react-native';
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  ReactNode,
+} from "react";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import NetInfo from "@react-native-community/netinfo";
+import { Platform } from "react-native";
+import { useAuthFetch } from "./auth-context";
 
 interface CachedDeal {
   id: string;
@@ -33,7 +41,7 @@ interface CachedVendor {
 
 interface PendingAction {
   id: string;
-  type: 'favorite' | 'redeem' | 'review';
+  type: "favorite" | "redeem" | "review";
   payload: any;
   createdAt: string;
   retryCount: number;
@@ -52,7 +60,9 @@ interface OfflineContextType {
   getCachedData: () => { deals: CachedDeal[]; vendors: CachedVendor[] };
   clearCache: () => Promise<void>;
   // Offline actions
-  queueAction: (action: Omit<PendingAction, 'id' | 'createdAt' | 'retryCount'>) => Promise<void>;
+  queueAction: (
+    action: Omit<PendingAction, "id" | "createdAt" | "retryCount">,
+  ) => Promise<void>;
   syncPendingActions: () => Promise<void>;
   // Stats
   lastSyncTime: Date | null;
@@ -62,10 +72,10 @@ interface OfflineContextType {
 const OfflineContext = createContext<OfflineContextType | null>(null);
 
 const CACHE_KEYS = {
-  DEALS: '@smartdealsiq_cached_deals',
-  VENDORS: '@smartdealsiq_cached_vendors',
-  PENDING_ACTIONS: '@smartdealsiq_pending_actions',
-  LAST_SYNC: '@smartdealsiq_last_sync',
+  DEALS: "@smartdealsiq_cached_deals",
+  VENDORS: "@smartdealsiq_cached_vendors",
+  PENDING_ACTIONS: "@smartdealsiq_pending_actions",
+  LAST_SYNC: "@smartdealsiq_last_sync",
 };
 
 const MAX_CACHE_AGE_HOURS = 24;
@@ -78,27 +88,28 @@ export function OfflineProvider({ children }: { children: ReactNode }) {
   const [cachedVendors, setCachedVendors] = useState<CachedVendor[]>([]);
   const [pendingActions, setPendingActions] = useState<PendingAction[]>([]);
   const [lastSyncTime, setLastSyncTime] = useState<Date | null>(null);
+  const authFetch = useAuthFetch();
 
   // Initialize and monitor network status
   useEffect(() => {
     loadCachedData();
 
-    if (Platform.OS === 'web') {
+    if (Platform.OS === "web") {
       // Web-based offline detection
       const handleOnline = () => setIsOnline(true);
       const handleOffline = () => setIsOnline(false);
 
-      window.addEventListener('online', handleOnline);
-      window.addEventListener('offline', handleOffline);
+      window.addEventListener("online", handleOnline);
+      window.addEventListener("offline", handleOffline);
       setIsOnline(navigator.onLine);
 
       return () => {
-        window.removeEventListener('online', handleOnline);
-        window.removeEventListener('offline', handleOffline);
+        window.removeEventListener("online", handleOnline);
+        window.removeEventListener("offline", handleOffline);
       };
     } else {
       // Native network monitoring
-      const unsubscribe = NetInfo.addEventListener(state => {
+      const unsubscribe = NetInfo.addEventListener((state) => {
         setIsOnline(state.isConnected ?? true);
       });
 
@@ -115,19 +126,21 @@ export function OfflineProvider({ children }: { children: ReactNode }) {
 
   const loadCachedData = async () => {
     try {
-      const [dealsJson, vendorsJson, actionsJson, lastSyncJson] = await Promise.all([
-        AsyncStorage.getItem(CACHE_KEYS.DEALS),
-        AsyncStorage.getItem(CACHE_KEYS.VENDORS),
-        AsyncStorage.getItem(CACHE_KEYS.PENDING_ACTIONS),
-        AsyncStorage.getItem(CACHE_KEYS.LAST_SYNC),
-      ]);
+      const [dealsJson, vendorsJson, actionsJson, lastSyncJson] =
+        await Promise.all([
+          AsyncStorage.getItem(CACHE_KEYS.DEALS),
+          AsyncStorage.getItem(CACHE_KEYS.VENDORS),
+          AsyncStorage.getItem(CACHE_KEYS.PENDING_ACTIONS),
+          AsyncStorage.getItem(CACHE_KEYS.LAST_SYNC),
+        ]);
 
       if (dealsJson) {
         const deals = JSON.parse(dealsJson);
         // Filter out expired cache
         const validDeals = deals.filter((d: CachedDeal) => {
           const cachedAt = new Date(d.cachedAt);
-          const hoursSinceCached = (Date.now() - cachedAt.getTime()) / (1000 * 60 * 60);
+          const hoursSinceCached =
+            (Date.now() - cachedAt.getTime()) / (1000 * 60 * 60);
           return hoursSinceCached < MAX_CACHE_AGE_HOURS;
         });
         setCachedDeals(validDeals);
@@ -137,7 +150,8 @@ export function OfflineProvider({ children }: { children: ReactNode }) {
         const vendors = JSON.parse(vendorsJson);
         const validVendors = vendors.filter((v: CachedVendor) => {
           const cachedAt = new Date(v.cachedAt);
-          const hoursSinceCached = (Date.now() - cachedAt.getTime()) / (1000 * 60 * 60);
+          const hoursSinceCached =
+            (Date.now() - cachedAt.getTime()) / (1000 * 60 * 60);
           return hoursSinceCached < MAX_CACHE_AGE_HOURS;
         });
         setCachedVendors(validVendors);
@@ -151,51 +165,60 @@ export function OfflineProvider({ children }: { children: ReactNode }) {
         setLastSyncTime(new Date(lastSyncJson));
       }
     } catch (error) {
-      console.error('Failed to load cached data:', error);
+      console.error("Failed to load cached data:", error);
     }
   };
 
-  const cacheDeals = useCallback(async (deals: CachedDeal[]) => {
-    try {
-      const timestamp = new Date().toISOString();
-      const dealsWithTimestamp = deals.map(d => ({
-        ...d,
-        cachedAt: timestamp,
-      }));
-
-      // Merge with existing, keeping most recent, limit total
-      const merged = [...dealsWithTimestamp, ...cachedDeals]
-        .filter((d, i, arr) => arr.findIndex(x => x.id === d.id) === i)
-        .slice(0, MAX_CACHED_DEALS);
-
-      setCachedDeals(merged);
-      await AsyncStorage.setItem(CACHE_KEYS.DEALS, JSON.stringify(merged));
-
-      setLastSyncTime(new Date());
-      await AsyncStorage.setItem(CACHE_KEYS.LAST_SYNC, new Date().toISOString());
-    } catch (error) {
-      console.error('Failed to cache deals:', error);
-    }
-  }, [cachedDeals]);
+  const cacheDeals = useCallback(
+    async (deals: CachedDeal[]) => {
+      try {
+        const timestamp = new Date().toISOString();
+        const dealsWithTimestamp = deals.map((d) => ({
+          ...d,
+          cachedAt: timestamp,
+        }));
+
+        // Merge with existing, keeping most recent, limit total
+        const merged = [...dealsWithTimestamp, ...cachedDeals]
+          .filter((d, i, arr) => arr.findIndex((x) => x.id === d.id) === i)
+          .slice(0, MAX_CACHED_DEALS);
+
+        setCachedDeals(merged);
+        await AsyncStorage.setItem(CACHE_KEYS.DEALS, JSON.stringify(merged));
+
+        setLastSyncTime(new Date());
+        await AsyncStorage.setItem(
+          CACHE_KEYS.LAST_SYNC,
+          new Date().toISOString(),
+        );
+      } catch (error) {
+        console.error("Failed to cache deals:", error);
+      }
+    },
+    [cachedDeals],
+  );
 
-  const cacheVendors = useCallback(async (vendors: CachedVendor[]) => {
-    try {
-      const timestamp = new Date().toISOString();
-      const vendorsWithTimestamp = vendors.map(v => ({
-        ...v,
-        cachedAt: timestamp,
-      }));
-
-      const merged = [...vendorsWithTimestamp, ...cachedVendors]
-        .filter((v, i, arr) => arr.findIndex(x => x.id === v.id) === i)
-        .slice(0, MAX_CACHED_VENDORS);
-
-      setCachedVendors(merged);
-      await AsyncStorage.setItem(CACHE_KEYS.VENDORS, JSON.stringify(merged));
-    } catch (error) {
-      console.error('Failed to cache vendors:', error);
-    }
-  }, [cachedVendors]);
+  const cacheVendors = useCallback(
+    async (vendors: CachedVendor[]) => {
+      try {
+        const timestamp = new Date().toISOString();
+        const vendorsWithTimestamp = vendors.map((v) => ({
+          ...v,
+          cachedAt: timestamp,
+        }));
+
+        const merged = [...vendorsWithTimestamp, ...cachedVendors]
+          .filter((v, i, arr) => arr.findIndex((x) => x.id === v.id) === i)
+          .slice(0, MAX_CACHED_VENDORS);
+
+        setCachedVendors(merged);
+        await AsyncStorage.setItem(CACHE_KEYS.VENDORS, JSON.stringify(merged));
+      } catch (error) {
+        console.error("Failed to cache vendors:", error);
+      }
+    },
+    [cachedVendors],
+  );
 
   const getCachedData = useCallback(() => {
     return { deals: cachedDeals, vendors: cachedVendors };
@@ -210,22 +233,28 @@ export function OfflineProvider({ children }: { children: ReactNode }) {
       setCachedDeals([]);
       setCachedVendors([]);
     } catch (error) {
-      console.error('Failed to clear cache:', error);
+      console.error("Failed to clear cache:", error);
     }
   }, []);
 
-  const queueAction = useCallback(async (action: Omit<PendingAction, 'id' | 'createdAt' | 'retryCount'>) => {
-    const newAction: PendingAction = {
-      ...action,
-      id: Math.random().toString(36).substr(2, 9),
-      createdAt: new Date().toISOString(),
-      retryCount: 0,
-    };
+  const queueAction = useCallback(
+    async (action: Omit<PendingAction, "id" | "createdAt" | "retryCount">) => {
+      const newAction: PendingAction = {
+        ...action,
+        id: Math.random().toString(36).substr(2, 9),
+        createdAt: new Date().toISOString(),
+        retryCount: 0,
+      };
 
-    const updatedActions = [...pendingActions, newAction];
-    setPendingActions(updatedActions);
-    await AsyncStorage.setItem(CACHE_KEYS.PENDING_ACTIONS, JSON.stringify(updatedActions));
-  }, [pendingActions]);
+      const updatedActions = [...pendingActions, newAction];
+      setPendingActions(updatedActions);
+      await AsyncStorage.setItem(
+        CACHE_KEYS.PENDING_ACTIONS,
+        JSON.stringify(updatedActions),
+      );
+    },
+    [pendingActions],
+  );
 
   const syncPendingActions = useCallback(async () => {
     if (!isOnline || pendingActions.length === 0) return;
@@ -237,18 +266,29 @@ export function OfflineProvider({ children }: { children: ReactNode }) {
       try {
         // Process action based on type
         switch (action.type) {
-          case 'favorite':
+          case "favorite":
             // await api.addFavorite(action.payload);
-            if (__DEV__) console.log('Syncing favorite:', action.payload);
+            if (__DEV__) console.log("Syncing favorite:", action.payload);
             break;
-          case 'redeem':
+          case "redeem":
             // await api.redeemDeal(action.payload);
-            if (__DEV__) console.log('Syncing redemption:', action.payload);
+            if (__DEV__) console.log("Syncing redemption:", action.payload);
             break;
-          case 'review':
-            // await api.submitReview(action.payload);
-            if (__DEV__) console.log('Syncing review:', action.payload);
+          case "review": {
+            const response = await authFetch("/api/reviews", {
+              method: "POST",
+              body: JSON.stringify(action.payload),
+            });
+            // Client errors (already reviewed, not eligible) won't succeed on retry
+            if (response.status >= 500) {
+              throw new Error(
+                `Review sync failed with status ${response.status}`,
+              );
+            }
+            if (!response.ok && __DEV__)
+              console.log("Dropping queued review:", response.status);
             break;
+          }
         }
       } catch (error) {
         // Retry up to 3 times
@@ -259,10 +299,14 @@ export function OfflineProvider({ children }: { children: ReactNode }) {
     }
 
     setPendingActions(failedActions);
-    await AsyncStorage.setItem(CACHE_KEYS.PENDING_ACTIONS, JSON.stringify(failedActions));
-  }, [isOnline, pendingActions]);
+    await AsyncStorage.setItem(
+      CACHE_KEYS.PENDING_ACTIONS,
+      JSON.stringify(failedActions),
+    );
+  }, [isOnline, pendingActions, authFetch]);
 
-  const cacheSize = JSON.stringify(cachedDeals).length + JSON.stringify(cachedVendors).length;
+  const cacheSize =
+    JSON.stringify(cachedDeals).length + JSON.stringify(cachedVendors).length;
 
   return (
     <OfflineContext.Provider
@@ -290,7 +334,7 @@ export function OfflineProvider({ children }: { children: ReactNode }) {
 export function useOffline() {
   const context = useContext(OfflineContext);
   if (!context) {
-    throw new Error('useOffline must be used within an OfflineProvider');
+    throw new Error("useOffline must be used within an OfflineProvider");
   }
   return context;
 }
@@ -0,0 +1,64 @@
+import { Platform } from "react-native";
+
+export type PhotoOwnerType = "listing" | "menu_item" | "deal";
+
+// A photo stored by /api/photos; every size is a re-encoded JPEG with EXIF stripped
+export interface UploadedPhoto {
+  id: string;
+  url: string;
+  mediumUrl: string;
+  thumbnailUrl: string;
+  width: number;
+  height: number;
+  caption: string | null;
+  position: number;
+  createdAt: string;
+}
+
+// Local camera/picker URIs still need uploading; server photos are plain http(s) URLs
+export function isUploadedPhotoUri(uri: string): boolean {
+  return /^https?:\/\//.test(uri);
+}
+
+function guessImageType(uri: string): string {
+  if (/\.png$/i.test(uri)) return "image/png";
+  if (/\.webp$/i.test(uri)) return "image/webp";
+  return "image/jpeg";
+}
+
+interface NativeFormFile {
+  uri: string;
+  name: string;
+  type: string;
+}
+
+/**
+ * Multipart body for POST /api/photos from a local image URI.
+ */
+export async function buildPhotoForm(
+  ownerType: PhotoOwnerType,
+  ownerId: string,
+  uri: string,
+  caption?: string,
+): Promise<FormData> {
+  const form = new FormData();
+  form.append("ownerType", ownerType);
+  form.append("ownerId", ownerId);
+  if (caption) form.append("caption", caption);
+
+  if (Platform.OS === "web") {
+    // Pickers on web return blob: or data: URLs
+    const blob = await (await fetch(uri)).blob();
+    form.append("photo", blob, "photo");
+  } else {
+    // React Native's FormData takes a file descriptor in place of a Blob; the DOM typings only know Blob
+    const type = guessImageType(uri);
+    const file: NativeFormFile = {
+      uri,
+      name: `photo.${type.split("/")[1]}`,
+      type,
+    };
+    form.append("photo", file as unknown as Blob);
+  }
+  return form;
+}
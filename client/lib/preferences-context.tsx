@@ -1,4 +1,12 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from "react";
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  useRef,
+  ReactNode,
+} from "react";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 
 export interface NotificationPreferences {
@@ -10,6 +18,10 @@ export interface NotificationPreferences {
   weeklyDigest: boolean;
   soundEnabled: boolean;
   vibrationEnabled: boolean;
+  quietHoursEnabled: boolean;
+  quietHoursStart: string; // "HH:MM", 24-hour
+  quietHoursEnd: string; // May be earlier than the start to span midnight
+  maxPromoPushesPerDay: number | null; // null for no limit
 }
 
 export interface LocationPreferences {
@@ -23,7 +35,9 @@ export interface LocationPreferences {
 interface PreferencesContextType {
   notifications: NotificationPreferences;
   location: LocationPreferences;
-  updateNotifications: (updates: Partial<NotificationPreferences>) => Promise<void>;
+  updateNotifications: (
+    updates: Partial<NotificationPreferences>,
+  ) => Promise<void>;
   updateLocation: (updates: Partial<LocationPreferences>) => Promise<void>;
   isLoaded: boolean;
 }
@@ -37,8 +51,32 @@ const defaultNotifications: NotificationPreferences = {
   weeklyDigest: true,
   soundEnabled: true,
   vibrationEnabled: true,
+  quietHoursEnabled: false,
+  quietHoursStart: "22:00",
+  quietHoursEnd: "08:00",
+  maxPromoPushesPerDay: null,
 };
 
+function toMinutes(time: string): number {
+  const [h, m] = time.split(":").map(Number);
+  return h * 60 + m;
+}
+
+// Whether the device clock is inside the user's quiet hours
+export function isInQuietHours(
+  prefs: NotificationPreferences,
+  now: Date = new Date(),
+): boolean {
+  if (!prefs.quietHoursEnabled) return false;
+
+  const minutes = now.getHours() * 60 + now.getMinutes();
+  const start = toMinutes(prefs.quietHoursStart);
+  const end = toMinutes(prefs.quietHoursEnd);
+  return start <= end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
 const defaultLocation: LocationPreferences = {
   locationEnabled: true,
   searchRadius: 10,
@@ -47,20 +85,30 @@ const defaultLocation: LocationPreferences = {
   defaultCity: "",
 };
 
-const PreferencesContext = createContext<PreferencesContextType | undefined>(undefined);
+const PreferencesContext = createContext<PreferencesContextType | undefined>(
+  undefined,
+);
 
 const NOTIFICATIONS_KEY = "@smartdealsiq_notifications";
 const LOCATION_KEY = "@smartdealsiq_location_prefs";
 
 export function PreferencesProvider({ children }: { children: ReactNode }) {
-  const [notifications, setNotifications] = useState<NotificationPreferences>(defaultNotifications);
-  const [location, setLocation] = useState<LocationPreferences>(defaultLocation);
+  const [notifications, setNotifications] =
+    useState<NotificationPreferences>(defaultNotifications);
+  const [location, setLocation] =
+    useState<LocationPreferences>(defaultLocation);
   const [isLoaded, setIsLoaded] = useState(false);
+  // Lets updateNotifications stay stable for effects that depend on it
+  const notificationsRef = useRef(notifications);
 
   useEffect(() => {
     loadPreferences();
   }, []);
 
+  useEffect(() => {
+    notificationsRef.current = notifications;
+  }, [notifications]);
+
   const loadPreferences = async () => {
     try {
       const [savedNotifications, savedLocation] = await Promise.all([
@@ -69,7 +117,10 @@ export function PreferencesProvider({ children }: { children: ReactNode }) {
       ]);
 
       if (savedNotifications) {
-        setNotifications({ ...defaultNotifications, ...JSON.parse(savedNotifications) });
+        setNotifications({
+          ...defaultNotifications,
+          ...JSON.parse(savedNotifications),
+        });
       }
       if (savedLocation) {
         setLocation({ ...defaultLocation, ...JSON.parse(savedLocation) });
@@ -81,15 +132,25 @@ export function PreferencesProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const updateNotifications = async (updates: Partial<NotificationPreferences>) => {
-    try {
-      const newNotifications = { ...notifications, ...updates };
-      await AsyncStorage.setItem(NOTIFICATIONS_KEY, JSON.stringify(newNotifications));
-      setNotifications(newNotifications);
-    } catch (error) {
-      console.error("[Preferences] Failed to save notification preferences:", error);
-    }
-  };
+  const updateNotifications = useCallback(
+    async (updates: Partial<NotificationPreferences>) => {
+      try {
+        const newNotifications = { ...notificationsRef.current, ...updates };
+        await AsyncStorage.setItem(
+          NOTIFICATIONS_KEY,
+          JSON.stringify(newNotifications),
+        );
+        notificationsRef.current = newNotifications;
+        setNotifications(newNotifications);
+      } catch (error) {
+        console.error(
+          "[Preferences] Failed to save notification preferences:",
+          error,
+        );
+      }
+    },
+    [],
+  );
 
   const updateLocation = async (updates: Partial<LocationPreferences>) => {
     try {
@@ -97,7 +158,10 @@ export function PreferencesProvider({ children }: { children: ReactNode }) {
       await AsyncStorage.setItem(LOCATION_KEY, JSON.stringify(newLocation));
       setLocation(newLocation);
     } catch (error) {
-      console.error("[Preferences] Failed to save location preferences:", error);
+      console.error(
+        "[Preferences] Failed to save location preferences:",
+        error,
+      );
     }
   };
 
@@ -1,7 +1,15 @@
-import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from "react";
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  ReactNode,
+} from "react";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { useAuth } from "./auth-context";
 import { getApiBaseUrl } from "./api-config";
+import { buildPhotoForm, UploadedPhoto } from "./photo-upload";
 
 // Demo mode - matches auth-context setting
 const DEMO_MODE_ENABLED = true;
@@ -9,20 +17,43 @@ const DEMO_MODE_ENABLED = true;
 // Vendor listing types matching server schema
 export type VendorCategory =
   // Food & Beverage
-  | "food_truck" | "restaurant" | "vendor" | "bakery" | "cafe"
-  | "bar_lounge" | "juice_smoothie" | "catering" | "food_delivery"
+  | "food_truck"
+  | "restaurant"
+  | "vendor"
+  | "bakery"
+  | "cafe"
+  | "bar_lounge"
+  | "juice_smoothie"
+  | "catering"
+  | "food_delivery"
   // Retail & Shopping
-  | "boutique" | "jewelry" | "electronics" | "thrift_vintage"
-  | "smoke_vape" | "pet_store"
+  | "boutique"
+  | "jewelry"
+  | "electronics"
+  | "thrift_vintage"
+  | "smoke_vape"
+  | "pet_store"
   // Health & Beauty
-  | "salon" | "barbershop" | "nail_spa" | "massage"
-  | "gym_fitness" | "tattoo_piercing"
+  | "salon"
+  | "barbershop"
+  | "nail_spa"
+  | "massage"
+  | "gym_fitness"
+  | "tattoo_piercing"
   // Auto & Services
-  | "auto_detailing" | "auto_repair" | "tire_shop"
+  | "auto_detailing"
+  | "auto_repair"
+  | "tire_shop"
   // Home & Professional
-  | "cleaning" | "handyman" | "landscaping" | "photography" | "printing"
+  | "cleaning"
+  | "handyman"
+  | "landscaping"
+  | "photography"
+  | "printing"
   // Entertainment
-  | "nightclub" | "escape_room" | "event_venue"
+  | "nightclub"
+  | "escape_room"
+  | "event_venue"
   // Cannabis
   | "dispensary";
 export type VendorTier = "free";
@@ -30,10 +61,30 @@ export type VendorTier = "free";
 export interface ProductPhoto {
   id: string;
   uri: string;
+  // Set once the photo has been uploaded
+  thumbnailUri?: string;
   caption?: string;
   createdAt: string;
 }
 
+function toProductPhoto(photo: UploadedPhoto): ProductPhoto {
+  return {
+    id: photo.id,
+    uri: photo.mediumUrl,
+    thumbnailUri: photo.thumbnailUrl,
+    caption: photo.caption ?? undefined,
+    createdAt: photo.createdAt,
+  };
+}
+
+// Listings from the server carry uploaded photos in the /api/photos shape
+function fromServerListing<T extends { productPhotos?: unknown }>(
+  listing: T,
+): T & { productPhotos: ProductPhoto[] } {
+  const photos = (listing.productPhotos as UploadedPhoto[] | undefined) || [];
+  return { ...listing, productPhotos: photos.map(toProductPhoto) };
+}
+
 export interface VendorListing {
   id: string;
   userId: string;
@@ -46,6 +97,7 @@ export interface VendorListing {
   city: string;
   state: string;
   vendorTier: VendorTier;
+  acceptsRewardVouchers?: boolean; // Honors platform-wide rewards vouchers
   productPhotos?: ProductPhoto[];
   createdAt: string;
   updatedAt: string;
@@ -65,6 +117,21 @@ export interface PublicVendorListing {
   state: string;
   productPhotos?: ProductPhoto[];
   lastLocationUpdate: string;
+  // Computed from posted hours; null when the vendor hasn't posted any
+  isOpen?: boolean | null;
+  statusLabel?: string | null;
+  // Set while the vendor has a paid boost running
+  featured?: { level: string; endsAt: string } | null;
+  // Present on nearby / in-bounds results
+  distanceMiles?: number;
+}
+
+// Map viewport in degrees; west > east when it crosses the antimeridian
+export interface MapBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
 }
 
 export interface CreateListingData {
@@ -77,6 +144,7 @@ export interface CreateListingData {
   city: string;
   state: string;
   productPhotos?: ProductPhoto[];
+  acceptsRewardVouchers?: boolean;
 }
 
 export interface UpdateLocationData {
@@ -92,6 +160,8 @@ interface TierLimits {
   noRealTimeTracking: boolean;
   noPromotions: boolean;
   noPriorityPlacement: boolean;
+  // Uploaded photos allowed per listing / menu item / deal
+  maxPhotos: { listing: number; menu_item: number; deal: number };
 }
 
 interface VendorListingContextType {
@@ -123,10 +193,21 @@ interface VendorListingContextType {
 
   // Actions for map display
   fetchPublicVendors: () => Promise<void>;
+  fetchNearbyVendors: (
+    lat: number,
+    lng: number,
+    radiusMiles: number,
+  ) => Promise<void>;
+  fetchVendorsInBounds: (
+    bounds: MapBounds,
+    origin?: { lat: number; lng: number },
+  ) => Promise<void>;
   getVendorById: (id: string) => PublicVendorListing | undefined;
 }
 
-const VendorListingContext = createContext<VendorListingContextType | undefined>(undefined);
+const VendorListingContext = createContext<
+  VendorListingContextType | undefined
+>(undefined);
 
 // API_BASE_URL is now dynamically resolved via getApiBaseUrl()
 const VENDOR_LISTING_CACHE_KEY = "@smartdealsiq_vendor_listing";
@@ -138,6 +219,7 @@ const DEFAULT_TIER_LIMITS: TierLimits = {
   noRealTimeTracking: true,
   noPromotions: true,
   noPriorityPlacement: true,
+  maxPhotos: { listing: 3, menu_item: 1, deal: 1 },
 };
 
 export function VendorListingProvider({ children }: { children: ReactNode }) {
@@ -195,12 +277,15 @@ export function VendorListingProvider({ children }: { children: ReactNode }) {
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), 5000); // 5 second timeout
 
-      const response = await fetch(`${getApiBaseUrl()}/api/vendors/listing/my`, {
-        headers: {
-          "Authorization": `Bearer ${accessToken}`,
+      const response = await fetch(
+        `${getApiBaseUrl()}/api/vendors/listing/my`,
+        {
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+          },
+          signal: controller.signal,
         },
-        signal: controller.signal,
-      });
+      );
 
       clearTimeout(timeoutId);
 
@@ -213,7 +298,8 @@ export function VendorListingProvider({ children }: { children: ReactNode }) {
       }
 
       if (response.ok) {
-        setMyListing(data.listing || null);
+        const listing = data.listing ? fromServerListing(data.listing) : null;
+        setMyListing(listing);
         setHasListing(data.hasListing || false);
         setCanUpdateLocation(data.canUpdateLocation ?? true);
         setLocationUpdateWaitMinutes(data.locationUpdateWaitMinutes || 0);
@@ -222,10 +308,13 @@ export function VendorListingProvider({ children }: { children: ReactNode }) {
 
         // Cache the listing
         try {
-          await AsyncStorage.setItem(VENDOR_LISTING_CACHE_KEY, JSON.stringify({
-            listing: data.listing,
-            hasListing: data.hasListing,
-          }));
+          await AsyncStorage.setItem(
+            VENDOR_LISTING_CACHE_KEY,
+            JSON.stringify({
+              listing,
+              hasListing: data.hasListing,
+            }),
+          );
         } catch {
           // Ignore storage errors
         }
@@ -247,7 +336,10 @@ export function VendorListingProvider({ children }: { children: ReactNode }) {
     } catch (err) {
       // Network error (server not running, connection refused, etc.)
       // This is NON-BLOCKING - treat as "no listing yet" for new vendors
-      console.warn("[VendorListing] Network error (server may be offline):", err);
+      console.warn(
+        "[VendorListing] Network error (server may be offline):",
+        err,
+      );
       // Don't set error state - allow app to continue
       // If we had cached data, it's still valid
       // If no cached data, vendor simply has no listing yet
@@ -268,7 +360,10 @@ export function VendorListingProvider({ children }: { children: ReactNode }) {
       // Try to fetch listing, but don't block app if server is down
       refreshMyListing().catch(() => {
         // Server not running - that's OK for local dev
-        if (__DEV__) console.log("[VendorListing] Server not available - using local mode");
+        if (__DEV__)
+          console.log(
+            "[VendorListing] Server not available - using local mode",
+          );
       });
     } else {
       setMyListing(null);
@@ -313,10 +408,13 @@ export function VendorListingProvider({ children }: { children: ReactNode }) {
       setCanUpdateLocation(false);
       setLocationUpdateWaitMinutes(60);
 
-      await AsyncStorage.setItem(VENDOR_LISTING_CACHE_KEY, JSON.stringify({
-        listing: localListing,
-        hasListing: true,
-      }));
+      await AsyncStorage.setItem(
+        VENDOR_LISTING_CACHE_KEY,
+        JSON.stringify({
+          listing: localListing,
+          hasListing: true,
+        }),
+      );
 
       return true;
     };
@@ -339,9 +437,13 @@ export function VendorListingProvider({ children }: { children: ReactNode }) {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
-          "Authorization": `Bearer ${accessToken}`,
+          Authorization: `Bearer ${accessToken}`,
         },
-        body: JSON.stringify(data),
+        // Operating hours are interpreted in the timezone the vendor signs up from
+        body: JSON.stringify({
+          ...data,
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        }),
         signal: controller.signal,
       });
 
@@ -349,15 +451,35 @@ export function VendorListingProvider({ children }: { children: ReactNode }) {
       const result = await response.json();
 
       if (response.ok) {
-        setMyListing(result.listing);
+        let listing: VendorListing = { ...result.listing, productPhotos: [] };
+        if (data.productPhotos?.length) {
+          try {
+            listing = {
+              ...listing,
+              productPhotos: await syncListingPhotos(
+                listing.id,
+                [],
+                data.productPhotos,
+              ),
+            };
+          } catch (err) {
+            // The listing exists either way; photos can be added again from My Listing
+            console.warn("[VendorListing] Failed to upload photos:", err);
+          }
+        }
+
+        setMyListing(listing);
         setHasListing(true);
         setCanUpdateLocation(false);
         setLocationUpdateWaitMinutes(60);
 
-        await AsyncStorage.setItem(VENDOR_LISTING_CACHE_KEY, JSON.stringify({
-          listing: result.listing,
-          hasListing: true,
-        }));
+        await AsyncStorage.setItem(
+          VENDOR_LISTING_CACHE_KEY,
+          JSON.stringify({
+            listing,
+            hasListing: true,
+          }),
+        );
 
         return true;
       } else {
@@ -372,7 +494,9 @@ export function VendorListingProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const updateListing = async (updates: Partial<CreateListingData>): Promise<boolean> => {
+  const updateListing = async (
+    updates: Partial<CreateListingData>,
+  ): Promise<boolean> => {
     if (!user?.id || !myListing?.id) {
       setError("No listing to update");
       return false;
@@ -385,26 +509,37 @@ export function VendorListingProvider({ children }: { children: ReactNode }) {
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), 5000);
 
-      const response = await fetch(`${getApiBaseUrl()}/api/vendors/listing/${myListing.id}`, {
-        method: "PUT",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${accessToken}`,
+      const response = await fetch(
+        `${getApiBaseUrl()}/api/vendors/listing/${myListing.id}`,
+        {
+          method: "PUT",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${accessToken}`,
+          },
+          body: JSON.stringify(updates),
+          signal: controller.signal,
         },
-        body: JSON.stringify(updates),
-        signal: controller.signal,
-      });
+      );
 
       clearTimeout(timeoutId);
       const result = await response.json();
 
       if (response.ok) {
-        setMyListing(result.listing);
-
-        await AsyncStorage.setItem(VENDOR_LISTING_CACHE_KEY, JSON.stringify({
-          listing: result.listing,
-          hasListing: true,
-        }));
+        // Photos are managed through /api/photos and aren't part of the listing update
+        const listing: VendorListing = {
+          ...result.listing,
+          productPhotos: myListing.productPhotos,
+        };
+        setMyListing(listing);
+
+        await AsyncStorage.setItem(
+          VENDOR_LISTING_CACHE_KEY,
+          JSON.stringify({
+            listing,
+            hasListing: true,
+          }),
+        );
 
         return true;
       } else {
@@ -413,7 +548,10 @@ export function VendorListingProvider({ children }: { children: ReactNode }) {
       }
     } catch (err) {
       // Server not available - update locally
-      if (__DEV__) console.log("[VendorListing] Server not available - updating listing locally");
+      if (__DEV__)
+        console.log(
+          "[VendorListing] Server not available - updating listing locally",
+        );
 
       const updatedListing: VendorListing = {
         ...myListing,
@@ -423,10 +561,13 @@ export function VendorListingProvider({ children }: { children: ReactNode }) {
 
       setMyListing(updatedListing);
 
-      await AsyncStorage.setItem(VENDOR_LISTING_CACHE_KEY, JSON.stringify({
-        listing: updatedListing,
-        hasListing: true,
-      }));
+      await AsyncStorage.setItem(
+        VENDOR_LISTING_CACHE_KEY,
+        JSON.stringify({
+          listing: updatedListing,
+          hasListing: true,
+        }),
+      );
 
       return true;
     } finally {
@@ -441,7 +582,9 @@ export function VendorListingProvider({ children }: { children: ReactNode }) {
     }
 
     if (!canUpdateLocation) {
-      setError(`Please wait ${locationUpdateWaitMinutes} minutes before updating location again.`);
+      setError(
+        `Please wait ${locationUpdateWaitMinutes} minutes before updating location again.`,
+      );
       return false;
     }
 
@@ -452,15 +595,18 @@ export function VendorListingProvider({ children }: { children: ReactNode }) {
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), 5000);
 
-      const response = await fetch(`${getApiBaseUrl()}/api/vendors/listing/${myListing.id}/location`, {
-        method: "PATCH",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${accessToken}`,
+      const response = await fetch(
+        `${getApiBaseUrl()}/api/vendors/listing/${myListing.id}/location`,
+        {
+          method: "PATCH",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${accessToken}`,
+          },
+          body: JSON.stringify(data),
+          signal: controller.signal,
         },
-        body: JSON.stringify(data),
-        signal: controller.signal,
-      });
+      );
 
       clearTimeout(timeoutId);
       const result = await response.json();
@@ -470,10 +616,13 @@ export function VendorListingProvider({ children }: { children: ReactNode }) {
         setCanUpdateLocation(false);
         setLocationUpdateWaitMinutes(60);
 
-        await AsyncStorage.setItem(VENDOR_LISTING_CACHE_KEY, JSON.stringify({
-          listing: result.listing,
-          hasListing: true,
-        }));
+        await AsyncStorage.setItem(
+          VENDOR_LISTING_CACHE_KEY,
+          JSON.stringify({
+            listing: result.listing,
+            hasListing: true,
+          }),
+        );
 
         return true;
       } else if (response.status === 429) {
@@ -487,7 +636,10 @@ export function VendorListingProvider({ children }: { children: ReactNode }) {
       }
     } catch (err) {
       // Server not available - update locally
-      if (__DEV__) console.log("[VendorListing] Server not available - updating location locally");
+      if (__DEV__)
+        console.log(
+          "[VendorListing] Server not available - updating location locally",
+        );
 
       const now = new Date().toISOString();
       const updatedListing: VendorListing = {
@@ -504,10 +656,13 @@ export function VendorListingProvider({ children }: { children: ReactNode }) {
       setCanUpdateLocation(false);
       setLocationUpdateWaitMinutes(60);
 
-      await AsyncStorage.setItem(VENDOR_LISTING_CACHE_KEY, JSON.stringify({
-        listing: updatedListing,
-        hasListing: true,
-      }));
+      await AsyncStorage.setItem(
+        VENDOR_LISTING_CACHE_KEY,
+        JSON.stringify({
+          listing: updatedListing,
+          hasListing: true,
+        }),
+      );
 
       return true;
     } finally {
@@ -515,7 +670,69 @@ export function VendorListingProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const updateProductPhotos = async (photos: ProductPhoto[]): Promise<boolean> => {
+  // Upload new local photos, delete removed ones and save the order; returns the server's list
+  const syncListingPhotos = async (
+    listingId: string,
+    previous: ProductPhoto[],
+    next: ProductPhoto[],
+  ): Promise<ProductPhoto[]> => {
+    const apiUrl = getApiBaseUrl();
+    const headers = { Authorization: `Bearer ${accessToken}` };
+
+    const nextIds = new Set(next.map((p) => p.id));
+    for (const photo of previous.filter((p) => !nextIds.has(p.id))) {
+      const response = await fetch(`${apiUrl}/api/photos/${photo.id}`, {
+        method: "DELETE",
+        headers,
+      });
+      if (!response.ok && response.status !== 404) {
+        throw new Error("Failed to remove photo");
+      }
+    }
+
+    const previousIds = new Set(previous.map((p) => p.id));
+    const photoIds: string[] = [];
+    for (const photo of next) {
+      if (previousIds.has(photo.id)) {
+        photoIds.push(photo.id);
+        continue;
+      }
+      const response = await fetch(`${apiUrl}/api/photos`, {
+        method: "POST",
+        headers,
+        body: await buildPhotoForm(
+          "listing",
+          listingId,
+          photo.uri,
+          photo.caption,
+        ),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to upload photo");
+      }
+      photoIds.push(result.photo.id);
+    }
+
+    const response = await fetch(`${apiUrl}/api/photos/order`, {
+      method: "PUT",
+      headers: { ...headers, "Content-Type": "application/json" },
+      body: JSON.stringify({
+        ownerType: "listing",
+        ownerId: listingId,
+        photoIds,
+      }),
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || "Failed to save photo order");
+    }
+    return (result.photos as UploadedPhoto[]).map(toProductPhoto);
+  };
+
+  const updateProductPhotos = async (
+    photos: ProductPhoto[],
+  ): Promise<boolean> => {
     if (!user?.id || !myListing?.id) {
       setError("No listing to update");
       return false;
@@ -525,25 +742,36 @@ export function VendorListingProvider({ children }: { children: ReactNode }) {
     setError(null);
 
     try {
-      // For now, photos are stored locally since we don't have a file upload backend
-      // In production, you would upload to cloud storage (S3, Cloudinary, etc.)
+      // Listings created offline only exist on this device, so their photos stay local
+      const productPhotos = myListing.id.startsWith("local_")
+        ? photos
+        : await syncListingPhotos(
+            myListing.id,
+            myListing.productPhotos || [],
+            photos,
+          );
       const updatedListing: VendorListing = {
         ...myListing,
-        productPhotos: photos,
+        productPhotos,
         updatedAt: new Date().toISOString(),
       };
 
       setMyListing(updatedListing);
 
-      await AsyncStorage.setItem(VENDOR_LISTING_CACHE_KEY, JSON.stringify({
-        listing: updatedListing,
-        hasListing: true,
-      }));
+      await AsyncStorage.setItem(
+        VENDOR_LISTING_CACHE_KEY,
+        JSON.stringify({
+          listing: updatedListing,
+          hasListing: true,
+        }),
+      );
 
       return true;
-    } catch (err) {
+    } catch (err: any) {
       console.error("[VendorListing] Failed to update photos:", err);
-      setError("Failed to update photos");
+      setError(err?.message || "Failed to update photos");
+      // Some uploads may have gone through before the failure
+      refreshMyListing();
       return false;
     } finally {
       setIsSaving(false);
@@ -563,13 +791,16 @@ export function VendorListingProvider({ children }: { children: ReactNode }) {
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), 5000);
 
-      const response = await fetch(`${getApiBaseUrl()}/api/vendors/listing/${myListing.id}`, {
-        method: "DELETE",
-        headers: {
-          "Authorization": `Bearer ${accessToken}`,
+      const response = await fetch(
+        `${getApiBaseUrl()}/api/vendors/listing/${myListing.id}`,
+        {
+          method: "DELETE",
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+          },
+          signal: controller.signal,
         },
-        signal: controller.signal,
-      });
+      );
 
       clearTimeout(timeoutId);
 
@@ -589,7 +820,10 @@ export function VendorListingProvider({ children }: { children: ReactNode }) {
       }
     } catch (err) {
       // Server not available - delete locally
-      if (__DEV__) console.log("[VendorListing] Server not available - deleting listing locally");
+      if (__DEV__)
+        console.log(
+          "[VendorListing] Server not available - deleting listing locally",
+        );
 
       setMyListing(null);
       setHasListing(false);
@@ -604,11 +838,11 @@ export function VendorListingProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const fetchPublicVendors = useCallback(async () => {
+  const loadPublicVendors = useCallback(async (path: string) => {
     setIsLoadingPublicVendors(true);
 
     try {
-      const response = await fetch(`${getApiBaseUrl()}/api/vendors/public`);
+      const response = await fetch(`${getApiBaseUrl()}${path}`);
 
       if (response.ok) {
         const data = await response.json();
@@ -616,7 +850,10 @@ export function VendorListingProvider({ children }: { children: ReactNode }) {
 
         // Cache the public vendors
         try {
-          await AsyncStorage.setItem(PUBLIC_VENDORS_CACHE_KEY, JSON.stringify(data.vendors || []));
+          await AsyncStorage.setItem(
+            PUBLIC_VENDORS_CACHE_KEY,
+            JSON.stringify(data.vendors || []),
+          );
         } catch {
           // Ignore storage errors
         }
@@ -625,15 +862,56 @@ export function VendorListingProvider({ children }: { children: ReactNode }) {
     } catch (err) {
       // Network error - server offline, connection refused, etc.
       // NON-BLOCKING: keep using cached data or empty array
-      console.warn("[VendorListing] Could not fetch public vendors (server may be offline):", err);
+      console.warn(
+        "[VendorListing] Could not fetch public vendors (server may be offline):",
+        err,
+      );
     } finally {
       setIsLoadingPublicVendors(false);
     }
   }, []);
 
-  const getVendorById = useCallback((id: string): PublicVendorListing | undefined => {
-    return publicVendors.find((v) => v.id === id);
-  }, [publicVendors]);
+  const fetchPublicVendors = useCallback(
+    () => loadPublicVendors("/api/vendors/public"),
+    [loadPublicVendors],
+  );
+
+  // Results come back sorted nearest first with distanceMiles set
+  const fetchNearbyVendors = useCallback(
+    (lat: number, lng: number, radiusMiles: number) => {
+      const params = new URLSearchParams({
+        lat: String(lat),
+        lng: String(lng),
+        radiusMiles: String(radiusMiles),
+      });
+      return loadPublicVendors(`/api/vendors/nearby?${params}`);
+    },
+    [loadPublicVendors],
+  );
+
+  const fetchVendorsInBounds = useCallback(
+    (bounds: MapBounds, origin?: { lat: number; lng: number }) => {
+      const params = new URLSearchParams({
+        north: String(bounds.north),
+        south: String(bounds.south),
+        east: String(bounds.east),
+        west: String(bounds.west),
+      });
+      if (origin) {
+        params.set("lat", String(origin.lat));
+        params.set("lng", String(origin.lng));
+      }
+      return loadPublicVendors(`/api/vendors/in-bounds?${params}`);
+    },
+    [loadPublicVendors],
+  );
+
+  const getVendorById = useCallback(
+    (id: string): PublicVendorListing | undefined => {
+      return publicVendors.find((v) => v.id === id);
+    },
+    [publicVendors],
+  );
 
   return (
     <VendorListingContext.Provider
@@ -655,6 +933,8 @@ export function VendorListingProvider({ children }: { children: ReactNode }) {
         deleteListing,
         refreshMyListing,
         fetchPublicVendors,
+        fetchNearbyVendors,
+        fetchVendorsInBounds,
         getVendorById,
       }}
     >
@@ -666,7 +946,9 @@ export function VendorListingProvider({ children }: { children: ReactNode }) {
 export function useVendorListing() {
   const context = useContext(VendorListingContext);
   if (context === undefined) {
-    throw new Error("useVendorListing must be used within a VendorListingProvider");
+    throw new Error(
+      "useVendorListing must be used within a VendorListingProvider",
+    );
   }
   return context;
 }
@@ -15,6 +15,7 @@ import FavoritesScreen from "@/screens/customer/FavoritesScreen";
 import RewardsScreen from "@/screens/customer/RewardsScreen";
 import VendorDetailScreen from "@/screens/customer/VendorDetailScreen";
 import DealDetailScreen from "@/screens/customer/DealDetailScreen";
+import NotificationsScreen from "@/screens/customer/NotificationsScreen";
 import ProfileScreen from "@/screens/ProfileScreen";
 import PreferencesScreen from "@/screens/PreferencesScreen";
 import HelpCenterScreen from "@/screens/HelpCenterScreen";
@@ -30,6 +31,7 @@ export type CustomerStackParamList = {
   VendorDetail: { vendorId: string };
   DealDetail: { dealId: string };
   Profile: undefined;
+  Notifications: undefined;
   Preferences: undefined;
   HelpCenter: undefined;
   Contact: undefined;
@@ -156,6 +158,29 @@ function ProfileStack() {
           headerTitle: "Profile",
         }}
       />
+      <Stack.Screen
+        name="Notifications"
+        component={NotificationsScreen}
+        options={{
+          headerTitle: "Notifications",
+        }}
+      />
+      <Stack.Screen
+        name="DealDetail"
+        component={DealDetailScreen}
+        options={{
+          headerTitle: "Deal Details",
+          headerTransparent: false,
+        }}
+      />
+      <Stack.Screen
+        name="VendorDetail"
+        component={VendorDetailScreen}
+        options={{
+          headerTitle: "Vendor Details",
+          headerTransparent: false,
+        }}
+      />
       <Stack.Screen
         name="Preferences"
         component={PreferencesScreen}
@@ -10,11 +10,15 @@ import { HeaderTitle } from "@/components/HeaderTitle";
 import { Colors } from "@/constants/theme";
 
 import DashboardScreen from "@/screens/vendor/DashboardScreen";
+import VerifyRedemptionScreen from "@/screens/vendor/VerifyRedemptionScreen";
+import VendorReviewsScreen from "@/screens/vendor/VendorReviewsScreen";
 import PromotionsScreen from "@/screens/vendor/PromotionsScreen";
 import CustomersScreen from "@/screens/vendor/CustomersScreen";
 import ToolsScreen from "@/screens/vendor/ToolsScreen";
 import PricingScreen from "@/screens/vendor/PricingScreen";
 import MyListingScreen from "@/screens/vendor/MyListingScreen";
+import MenuEditorScreen from "@/screens/vendor/MenuEditorScreen";
+import HoursEditorScreen from "@/screens/vendor/HoursEditorScreen";
 import ProfileScreen from "@/screens/ProfileScreen";
 import PreferencesScreen from "@/screens/PreferencesScreen";
 import HelpCenterScreen from "@/screens/HelpCenterScreen";
@@ -24,11 +28,15 @@ import TermsOfServiceScreen from "@/screens/TermsOfServiceScreen";
 
 export type VendorStackParamList = {
   Dashboard: undefined;
+  VerifyRedemption: undefined;
+  VendorReviews: undefined;
   Promotions: undefined;
   Customers: undefined;
   Tools: undefined;
   Pricing: undefined;
   MyListing: undefined;
+  MenuEditor: undefined;
+  HoursEditor: undefined;
   Profile: undefined;
   Preferences: undefined;
   HelpCenter: undefined;
@@ -62,6 +70,16 @@ function DashboardStack() {
           headerTitle: () => <HeaderTitle />,
         }}
       />
+      <Stack.Screen
+        name="VerifyRedemption"
+        component={VerifyRedemptionScreen}
+        options={{ title: "Redeem Code" }}
+      />
+      <Stack.Screen
+        name="VendorReviews"
+        component={VendorReviewsScreen}
+        options={{ title: "Reviews" }}
+      />
     </Stack.Navigator>
   );
 }
@@ -142,6 +160,16 @@ function MyListingStack() {
           headerTitle: "My Listing",
         }}
       />
+      <Stack.Screen
+        name="MenuEditor"
+        component={MenuEditorScreen}
+        options={{ title: "Menu" }}
+      />
+      <Stack.Screen
+        name="HoursEditor"
+        component={HoursEditorScreen}
+        options={{ title: "Hours" }}
+      />
     </Stack.Navigator>
   );
 }
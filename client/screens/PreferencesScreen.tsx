@@ -17,6 +17,7 @@ import { Card } from "@/components/Card";
 import { Spacer } from "@/components/Spacer";
 import { useTheme } from "@/hooks/useTheme";
 import { usePreferences } from "@/lib/preferences-context";
+import { useAuth } from "@/lib/auth-context";
 import { Colors, Spacing, BorderRadius } from "@/constants/theme";
 import { Feather } from "@expo/vector-icons";
 import type { ThemeMode } from "@/lib/theme-context";
@@ -31,21 +32,57 @@ const THEME_OPTIONS: { value: ThemeMode; label: string; icon: string }[] = [
 
 const RADIUS_OPTIONS = [5, 10, 15, 25, 50];
 
+const QUIET_START_OPTIONS = ["20:00", "21:00", "22:00", "23:00"];
+const QUIET_END_OPTIONS = ["06:00", "07:00", "08:00", "09:00"];
+// null means no limit
+const PROMO_CAP_OPTIONS: (number | null)[] = [1, 3, 5, 10, null];
+
+function formatHour(time: string) {
+  const hour = Number(time.split(":")[0]);
+  const suffix = hour < 12 ? "AM" : "PM";
+  return `${hour % 12 === 0 ? 12 : hour % 12} ${suffix}`;
+}
+
 export default function PreferencesScreen() {
   const { theme, isDark, themeMode, setThemeMode } = useTheme();
-  const { notifications, location, updateNotifications, updateLocation } = usePreferences();
+  const { notifications, location, updateNotifications, updateLocation } =
+    usePreferences();
+  const { user, updateUser } = useAuth();
   const navigation = useNavigation();
   const headerHeight = useHeaderHeight();
   const [activeTab, setActiveTab] = useState<PreferencesTab>("notifications");
 
-  const handleNotificationToggle = async (key: keyof typeof notifications, value: boolean) => {
+  const handleNotificationToggle = async (
+    key: keyof typeof notifications,
+    value: boolean,
+  ) => {
     await updateNotifications({ [key]: value });
   };
 
-  const handleLocationToggle = async (key: keyof typeof location, value: boolean) => {
+  const handleLocationToggle = async (
+    key: keyof typeof location,
+    value: boolean,
+  ) => {
     await updateLocation({ [key]: value });
   };
 
+  // Stored on the account, so vendors' customer lists respect it on every device
+  const handleShareWithVendorsToggle = async (value: boolean) => {
+    try {
+      await updateUser({ shareWithVendors: value });
+    } catch (error: any) {
+      Alert.alert("Error", error.message || "Failed to update privacy setting");
+    }
+  };
+
+  const handleProfileHiddenToggle = async (value: boolean) => {
+    try {
+      await updateUser({ profileHidden: value });
+    } catch (error: any) {
+      Alert.alert("Error", error.message || "Failed to update privacy setting");
+    }
+  };
+
   const handleRadiusChange = async (radius: number) => {
     await updateLocation({ searchRadius: radius });
   };
@@ -58,7 +95,10 @@ export default function PreferencesScreen() {
     <Pressable
       style={[
         styles.tab,
-        activeTab === tab && { backgroundColor: Colors.primary + "20", borderColor: Colors.primary },
+        activeTab === tab && {
+          backgroundColor: Colors.primary + "20",
+          borderColor: Colors.primary,
+        },
       ]}
       onPress={() => setActiveTab(tab)}
     >
@@ -84,10 +124,12 @@ export default function PreferencesScreen() {
     description: string,
     value: boolean,
     onToggle: (value: boolean) => void,
-    icon: string
+    icon: string,
   ) => (
     <View style={[styles.settingRow, { borderBottomColor: theme.border }]}>
-      <View style={[styles.settingIcon, { backgroundColor: Colors.primary + "15" }]}>
+      <View
+        style={[styles.settingIcon, { backgroundColor: Colors.primary + "15" }]}
+      >
         <Feather name={icon as any} size={18} color={Colors.primary} />
       </View>
       <View style={styles.settingContent}>
@@ -106,6 +148,47 @@ export default function PreferencesScreen() {
     </View>
   );
 
+  const renderChoices = <T,>(
+    label: string,
+    options: T[],
+    selected: T,
+    format: (option: T) => string,
+    onSelect: (option: T) => void,
+  ) => (
+    <View style={[styles.choiceContainer, { borderBottomColor: theme.border }]}>
+      <ThemedText type="small" secondary>
+        {label}
+      </ThemedText>
+      <View style={styles.choiceRow}>
+        {options.map((option) => {
+          const isSelected = option === selected;
+          return (
+            <Pressable
+              key={format(option)}
+              style={[
+                styles.choiceChip,
+                { borderColor: isSelected ? Colors.primary : theme.border },
+                isSelected && { backgroundColor: Colors.primary + "20" },
+              ]}
+              onPress={() => onSelect(option)}
+            >
+              <ThemedText
+                type="small"
+                style={
+                  isSelected
+                    ? { color: Colors.primary, fontWeight: "600" }
+                    : undefined
+                }
+              >
+                {format(option)}
+              </ThemedText>
+            </Pressable>
+          );
+        })}
+      </View>
+    </View>
+  );
+
   const renderNotificationsContent = () => (
     <View>
       <ThemedText type="caption" secondary style={styles.sectionHeader}>
@@ -117,35 +200,77 @@ export default function PreferencesScreen() {
           "Receive push notifications on your device",
           notifications.pushEnabled,
           (v) => handleNotificationToggle("pushEnabled", v),
-          "bell"
+          "bell",
         )}
         {renderSwitch(
           "Deal Alerts",
           "Get notified about deals from saved stores",
           notifications.dealAlerts,
           (v) => handleNotificationToggle("dealAlerts", v),
-          "tag"
+          "tag",
         )}
         {renderSwitch(
           "Flash Deals",
           "Instant alerts for time-limited offers",
           notifications.flashDeals,
           (v) => handleNotificationToggle("flashDeals", v),
-          "zap"
+          "zap",
         )}
         {renderSwitch(
           "Price Drops",
           "Alerts when prices drop on saved items",
           notifications.priceDrops,
           (v) => handleNotificationToggle("priceDrops", v),
-          "trending-down"
+          "trending-down",
         )}
         {renderSwitch(
           "New Stores Nearby",
           "Discover new stores in your area",
           notifications.newStores,
           (v) => handleNotificationToggle("newStores", v),
-          "map-pin"
+          "map-pin",
+        )}
+      </Card>
+
+      <Spacer size="xl" />
+
+      <ThemedText type="caption" secondary style={styles.sectionHeader}>
+        QUIET HOURS & LIMITS
+      </ThemedText>
+      <Card style={styles.card}>
+        {renderSwitch(
+          "Quiet Hours",
+          notifications.quietHoursEnabled
+            ? `No pushes from ${formatHour(notifications.quietHoursStart)} to ${formatHour(notifications.quietHoursEnd)}. They still reach your inbox`
+            : "Hold pushes overnight. They still reach your inbox",
+          notifications.quietHoursEnabled,
+          (v) => handleNotificationToggle("quietHoursEnabled", v),
+          "moon",
+        )}
+        {notifications.quietHoursEnabled && (
+          <>
+            {renderChoices(
+              "Starts",
+              QUIET_START_OPTIONS,
+              notifications.quietHoursStart,
+              formatHour,
+              (time) => updateNotifications({ quietHoursStart: time }),
+            )}
+            {renderChoices(
+              "Ends",
+              QUIET_END_OPTIONS,
+              notifications.quietHoursEnd,
+              formatHour,
+              (time) => updateNotifications({ quietHoursEnd: time }),
+            )}
+          </>
+        )}
+        {renderChoices(
+          "Most promotional pushes per day",
+          PROMO_CAP_OPTIONS,
+          notifications.maxPromoPushesPerDay,
+          (cap) => (cap === null ? "No limit" : String(cap)),
+          (cap) => updateNotifications({ maxPromoPushesPerDay: cap }),
         )}
       </Card>
 
@@ -160,7 +285,7 @@ export default function PreferencesScreen() {
           "Summary of best deals every week",
           notifications.weeklyDigest,
           (v) => handleNotificationToggle("weeklyDigest", v),
-          "mail"
+          "mail",
         )}
       </Card>
 
@@ -175,14 +300,14 @@ export default function PreferencesScreen() {
           "Play sound for notifications",
           notifications.soundEnabled,
           (v) => handleNotificationToggle("soundEnabled", v),
-          "volume-2"
+          "volume-2",
         )}
         {renderSwitch(
           "Vibration",
           "Vibrate for notifications",
           notifications.vibrationEnabled,
           (v) => handleNotificationToggle("vibrationEnabled", v),
-          "smartphone"
+          "smartphone",
         )}
       </Card>
     </View>
@@ -199,14 +324,14 @@ export default function PreferencesScreen() {
           "Allow app to access your location",
           location.locationEnabled,
           (v) => handleLocationToggle("locationEnabled", v),
-          "navigation"
+          "navigation",
         )}
         {renderSwitch(
           "Auto-Update Location",
           "Automatically update your location",
           location.autoUpdateLocation,
           (v) => handleLocationToggle("autoUpdateLocation", v),
-          "refresh-cw"
+          "refresh-cw",
         )}
       </Card>
 
@@ -236,8 +361,12 @@ export default function PreferencesScreen() {
             thumbTintColor={Colors.primary}
           />
           <View style={styles.radiusLabels}>
-            <ThemedText type="caption" secondary>5 {location.showDistanceInKm ? "km" : "mi"}</ThemedText>
-            <ThemedText type="caption" secondary>50 {location.showDistanceInKm ? "km" : "mi"}</ThemedText>
+            <ThemedText type="caption" secondary>
+              5 {location.showDistanceInKm ? "km" : "mi"}
+            </ThemedText>
+            <ThemedText type="caption" secondary>
+              50 {location.showDistanceInKm ? "km" : "mi"}
+            </ThemedText>
           </View>
         </View>
       </Card>
@@ -253,7 +382,7 @@ export default function PreferencesScreen() {
           "Show distances in kilometers instead of miles",
           location.showDistanceInKm,
           (v) => handleLocationToggle("showDistanceInKm", v),
-          "globe"
+          "globe",
         )}
       </Card>
 
@@ -282,16 +411,21 @@ export default function PreferencesScreen() {
                     },
                   ],
                   "plain-text",
-                  location.defaultCity || ""
+                  location.defaultCity || "",
                 )
               : Alert.alert(
                   "Set Default City",
                   "Enter your default city in Preferences settings.",
-                  [{ text: "OK" }]
+                  [{ text: "OK" }],
                 );
           }}
         >
-          <View style={[styles.settingIcon, { backgroundColor: Colors.secondary + "15" }]}>
+          <View
+            style={[
+              styles.settingIcon,
+              { backgroundColor: Colors.secondary + "15" },
+            ]}
+          >
             <Feather name="home" size={18} color={Colors.secondary} />
           </View>
           <View style={styles.settingContent}>
@@ -303,6 +437,32 @@ export default function PreferencesScreen() {
           <Feather name="chevron-right" size={20} color={theme.textSecondary} />
         </Pressable>
       </Card>
+
+      {user?.role === "customer" && (
+        <>
+          <Spacer size="xl" />
+
+          <ThemedText type="caption" secondary style={styles.sectionHeader}>
+            PRIVACY
+          </ThemedText>
+          <Card style={styles.card}>
+            {renderSwitch(
+              "Share Visits With Vendors",
+              "Let trucks you visit see your name, visits and spending in their customer list",
+              user.shareWithVendors ?? true,
+              handleShareWithVendorsToggle,
+              "eye",
+            )}
+            {renderSwitch(
+              "Hide Me On Leaderboards",
+              'Appear as "Anonymous" in the rankings. You still see your own rank',
+              user.profileHidden ?? false,
+              handleProfileHiddenToggle,
+              "eye-off",
+            )}
+          </Card>
+        </>
+      )}
     </View>
   );
 
@@ -317,12 +477,24 @@ export default function PreferencesScreen() {
             key={option.value}
             style={[
               styles.themeOption,
-              index < THEME_OPTIONS.length - 1 && { borderBottomWidth: 1, borderBottomColor: theme.border },
+              index < THEME_OPTIONS.length - 1 && {
+                borderBottomWidth: 1,
+                borderBottomColor: theme.border,
+              },
             ]}
             onPress={() => handleThemeChange(option.value)}
           >
-            <View style={[styles.settingIcon, { backgroundColor: Colors.primary + "15" }]}>
-              <Feather name={option.icon as any} size={18} color={Colors.primary} />
+            <View
+              style={[
+                styles.settingIcon,
+                { backgroundColor: Colors.primary + "15" },
+              ]}
+            >
+              <Feather
+                name={option.icon as any}
+                size={18}
+                color={Colors.primary}
+              />
             </View>
             <View style={styles.settingContent}>
               <ThemedText type="body">{option.label}</ThemedText>
@@ -330,18 +502,26 @@ export default function PreferencesScreen() {
                 {option.value === "system"
                   ? "Match device settings"
                   : option.value === "dark"
-                  ? "Always use dark theme"
-                  : "Always use light theme"}
+                    ? "Always use dark theme"
+                    : "Always use light theme"}
               </ThemedText>
             </View>
             <View
               style={[
                 styles.radioOuter,
-                { borderColor: themeMode === option.value ? Colors.primary : theme.border },
+                {
+                  borderColor:
+                    themeMode === option.value ? Colors.primary : theme.border,
+                },
               ]}
             >
               {themeMode === option.value && (
-                <View style={[styles.radioInner, { backgroundColor: Colors.primary }]} />
+                <View
+                  style={[
+                    styles.radioInner,
+                    { backgroundColor: Colors.primary },
+                  ]}
+                />
               )}
             </View>
           </Pressable>
@@ -355,14 +535,44 @@ export default function PreferencesScreen() {
       </ThemedText>
       <Card style={styles.card}>
         <View style={styles.previewContainer}>
-          <View style={[styles.previewBox, { backgroundColor: isDark ? "#1F2123" : "#FFFFFF" }]}>
-            <View style={[styles.previewHeader, { backgroundColor: isDark ? "#2A2C2E" : "#F5F5F5" }]}>
-              <View style={[styles.previewDot, { backgroundColor: Colors.primary }]} />
-              <View style={[styles.previewLine, { backgroundColor: isDark ? "#404244" : "#E0E0E0" }]} />
+          <View
+            style={[
+              styles.previewBox,
+              { backgroundColor: isDark ? "#1F2123" : "#FFFFFF" },
+            ]}
+          >
+            <View
+              style={[
+                styles.previewHeader,
+                { backgroundColor: isDark ? "#2A2C2E" : "#F5F5F5" },
+              ]}
+            >
+              <View
+                style={[styles.previewDot, { backgroundColor: Colors.primary }]}
+              />
+              <View
+                style={[
+                  styles.previewLine,
+                  { backgroundColor: isDark ? "#404244" : "#E0E0E0" },
+                ]}
+              />
             </View>
             <View style={styles.previewContent}>
-              <View style={[styles.previewCard, { backgroundColor: isDark ? "#353739" : "#EDEDED" }]} />
-              <View style={[styles.previewCard, { backgroundColor: isDark ? "#353739" : "#EDEDED", width: "60%" }]} />
+              <View
+                style={[
+                  styles.previewCard,
+                  { backgroundColor: isDark ? "#353739" : "#EDEDED" },
+                ]}
+              />
+              <View
+                style={[
+                  styles.previewCard,
+                  {
+                    backgroundColor: isDark ? "#353739" : "#EDEDED",
+                    width: "60%",
+                  },
+                ]}
+              />
             </View>
           </View>
           <ThemedText type="small" style={styles.previewLabel}>
@@ -381,7 +591,8 @@ export default function PreferencesScreen() {
               About Dark Mode
             </ThemedText>
             <ThemedText type="caption" secondary style={{ marginTop: 4 }}>
-              Dark mode reduces eye strain in low-light conditions and can help save battery on OLED screens.
+              Dark mode reduces eye strain in low-light conditions and can help
+              save battery on OLED screens.
             </ThemedText>
           </View>
         </View>
@@ -399,7 +610,12 @@ export default function PreferencesScreen() {
         ]}
       >
         {/* Tab Selector */}
-        <View style={[styles.tabContainer, { backgroundColor: theme.backgroundSecondary }]}>
+        <View
+          style={[
+            styles.tabContainer,
+            { backgroundColor: theme.backgroundSecondary },
+          ]}
+        >
           {renderTab("notifications", "bell", "Notifications")}
           {renderTab("location", "map-pin", "Location")}
           {renderTab("appearance", "moon", "Appearance")}
@@ -475,6 +691,22 @@ const styles = StyleSheet.create({
   settingDescription: {
     marginTop: 2,
   },
+  choiceContainer: {
+    padding: Spacing.md,
+    borderBottomWidth: 1,
+  },
+  choiceRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+    marginTop: Spacing.sm,
+  },
+  choiceChip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+  },
   themeOption: {
     flexDirection: "row",
     alignItems: "center",
@@ -1,5 +1,15 @@
 import React, { useState, useEffect } from "react";
-import { View, StyleSheet, ScrollView, Pressable, Alert, Image, TextInput, Modal, Platform } from "react-native";
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  Alert,
+  Image,
+  TextInput,
+  Modal,
+  Platform,
+} from "react-native";
 import { useNavigation } from "@react-navigation/native";
 import { useHeaderHeight } from "@react-navigation/elements";
 import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
@@ -11,6 +21,7 @@ import { Spacer } from "@/components/Spacer";
 import { useTheme } from "@/hooks/useTheme";
 import { useAuth } from "@/lib/auth-context";
 import { usePreferences } from "@/lib/preferences-context";
+import { useInbox } from "@/lib/inbox-context";
 import { Colors, Spacing, BorderRadius } from "@/constants/theme";
 import { Feather } from "@expo/vector-icons";
 
@@ -44,6 +55,7 @@ export default function ProfileScreen() {
   const headerHeight = useHeaderHeight();
   const tabBarHeight = useBottomTabBarHeight();
   const { user, logout, deleteAccount, isAuthenticated } = useAuth();
+  const { unreadCount } = useInbox();
 
   // Guest email state
   const [guestEmail, setGuestEmail] = useState<string | null>(null);
@@ -86,7 +98,10 @@ export default function ProfileScreen() {
       await AsyncStorage.setItem(GUEST_EMAIL_KEY, emailInput);
       setGuestEmail(emailInput);
       setShowEmailModal(false);
-      showAlert("Success", "Email saved! You'll receive deal alerts and updates.");
+      showAlert(
+        "Success",
+        "Email saved! You'll receive deal alerts and updates.",
+      );
     } catch (error) {
       showAlert("Error", "Failed to save email. Please try again.");
     }
@@ -97,11 +112,7 @@ export default function ProfileScreen() {
   };
 
   const handleLogout = () => {
-    confirmAction(
-      "Log Out",
-      "Are you sure you want to log out?",
-      logout
-    );
+    confirmAction("Log Out", "Are you sure you want to log out?", logout);
   };
 
   const isSocialAuthUser = user?.authProvider && user.authProvider !== "email";
@@ -116,13 +127,16 @@ export default function ProfileScreen() {
           setIsDeleting(true);
           try {
             await deleteAccount("", true);
-            showAlert("Account Deleted", "Your account has been permanently deleted.");
+            showAlert(
+              "Account Deleted",
+              "Your account has been permanently deleted.",
+            );
           } catch (error: any) {
             showAlert("Error", error?.message || "Failed to delete account.");
           } finally {
             setIsDeleting(false);
           }
-        }
+        },
       );
     } else {
       confirmAction(
@@ -132,7 +146,7 @@ export default function ProfileScreen() {
           setDeletePassword("");
           setDeleteError("");
           setShowDeleteModal(true);
-        }
+        },
       );
     }
   };
@@ -147,13 +161,22 @@ export default function ProfileScreen() {
     try {
       await deleteAccount(deletePassword.trim());
       setShowDeleteModal(false);
-      showAlert("Account Deleted", "Your account has been permanently deleted.");
+      showAlert(
+        "Account Deleted",
+        "Your account has been permanently deleted.",
+      );
     } catch (error: any) {
       const msg = error?.message?.toLowerCase() || "";
-      if (msg.includes("incorrect") || msg.includes("password") || msg.includes("invalid")) {
+      if (
+        msg.includes("incorrect") ||
+        msg.includes("password") ||
+        msg.includes("invalid")
+      ) {
         setDeleteError("Incorrect password. Please try again.");
       } else {
-        setDeleteError(error?.message || "Failed to delete account. Please try again.");
+        setDeleteError(
+          error?.message || "Failed to delete account. Please try again.",
+        );
       }
     } finally {
       setIsDeleting(false);
@@ -161,76 +184,172 @@ export default function ProfileScreen() {
   };
 
   // Settings sections - adjusted for guest vs authenticated users
-  const settingsSections: { title: string; items: SettingsItem[] }[] = isAuthenticated ? [
-    {
-      title: "Account",
-      items: [
-        { icon: "user", label: "Display Name", value: user?.name },
-        { icon: "mail", label: "Email", value: user?.email },
-        { icon: "shield", label: "Account Type", value: user?.role === "vendor" ? "Vendor" : "Customer" },
-      ],
-    },
-    {
-      title: "Preferences",
-      items: [
-        { icon: "bell", label: "Notifications", action: () => navigation.navigate("Preferences") },
-        { icon: "map-pin", label: "Location Settings", action: () => navigation.navigate("Preferences") },
-        { icon: "moon", label: "Appearance", value: themeMode === "system" ? "System" : themeMode === "dark" ? "Dark" : "Light", action: () => navigation.navigate("Preferences") },
-      ],
-    },
-    {
-      title: "Support",
-      items: [
-        { icon: "help-circle", label: "Help Center", action: () => navigation.navigate("HelpCenter") },
-        { icon: "message-circle", label: "Contact Us", action: () => navigation.navigate("Contact") },
-        { icon: "file-text", label: "Privacy Policy", action: () => navigation.navigate("PrivacyPolicy") },
-        { icon: "book-open", label: "Terms of Service", action: () => navigation.navigate("TermsOfService") },
-      ],
-    },
-    {
-      title: "Account Actions",
-      items: [
-        { icon: "log-out", label: "Log Out", action: handleLogout },
-        { icon: "trash-2", label: "Delete Account", action: handleDeleteAccount, danger: true },
-      ],
-    },
-  ] : [
-    // Guest user sections
-    {
-      title: "Your Info",
-      items: [
-        {
-          icon: "mail",
-          label: guestEmail ? "Email" : "Add Your Email",
-          value: guestEmail || undefined,
-          action: () => setShowEmailModal(true)
-        },
-      ],
-    },
-    {
-      title: "Preferences",
-      items: [
-        { icon: "bell", label: "Notifications", action: () => navigation.navigate("Preferences") },
-        { icon: "map-pin", label: "Location Settings", action: () => navigation.navigate("Preferences") },
-        { icon: "moon", label: "Appearance", value: themeMode === "system" ? "System" : themeMode === "dark" ? "Dark" : "Light", action: () => navigation.navigate("Preferences") },
-      ],
-    },
-    {
-      title: "For Vendors",
-      items: [
-        { icon: "briefcase", label: "Vendor Sign In", action: handleVendorLogin },
-      ],
-    },
-    {
-      title: "Support",
-      items: [
-        { icon: "help-circle", label: "Help Center", action: () => navigation.navigate("HelpCenter") },
-        { icon: "message-circle", label: "Contact Us", action: () => navigation.navigate("Contact") },
-        { icon: "file-text", label: "Privacy Policy", action: () => navigation.navigate("PrivacyPolicy") },
-        { icon: "book-open", label: "Terms of Service", action: () => navigation.navigate("TermsOfService") },
-      ],
-    },
-  ];
+  const settingsSections: { title: string; items: SettingsItem[] }[] =
+    isAuthenticated
+      ? [
+          {
+            title: "Account",
+            items: [
+              { icon: "user", label: "Display Name", value: user?.name },
+              { icon: "mail", label: "Email", value: user?.email },
+              {
+                icon: "shield",
+                label: "Account Type",
+                value: user?.role === "vendor" ? "Vendor" : "Customer",
+              },
+            ],
+          },
+          {
+            title: "Preferences",
+            items: [
+              // Only customers receive notifications, so vendors have no inbox
+              ...(user?.role === "vendor"
+                ? []
+                : [
+                    {
+                      icon: "inbox",
+                      label: "Inbox",
+                      value:
+                        unreadCount > 0 ? `${unreadCount} unread` : undefined,
+                      action: () => navigation.navigate("Notifications"),
+                    },
+                  ]),
+              {
+                icon: "bell",
+                label: "Notifications",
+                action: () => navigation.navigate("Preferences"),
+              },
+              {
+                icon: "map-pin",
+                label: "Location Settings",
+                action: () => navigation.navigate("Preferences"),
+              },
+              {
+                icon: "moon",
+                label: "Appearance",
+                value:
+                  themeMode === "system"
+                    ? "System"
+                    : themeMode === "dark"
+                      ? "Dark"
+                      : "Light",
+                action: () => navigation.navigate("Preferences"),
+              },
+            ],
+          },
+          {
+            title: "Support",
+            items: [
+              {
+                icon: "help-circle",
+                label: "Help Center",
+                action: () => navigation.navigate("HelpCenter"),
+              },
+              {
+                icon: "message-circle",
+                label: "Contact Us",
+                action: () => navigation.navigate("Contact"),
+              },
+              {
+                icon: "file-text",
+                label: "Privacy Policy",
+                action: () => navigation.navigate("PrivacyPolicy"),
+              },
+              {
+                icon: "book-open",
+                label: "Terms of Service",
+                action: () => navigation.navigate("TermsOfService"),
+              },
+            ],
+          },
+          {
+            title: "Account Actions",
+            items: [
+              { icon: "log-out", label: "Log Out", action: handleLogout },
+              {
+                icon: "trash-2",
+                label: "Delete Account",
+                action: handleDeleteAccount,
+                danger: true,
+              },
+            ],
+          },
+        ]
+      : [
+          // Guest user sections
+          {
+            title: "Your Info",
+            items: [
+              {
+                icon: "mail",
+                label: guestEmail ? "Email" : "Add Your Email",
+                value: guestEmail || undefined,
+                action: () => setShowEmailModal(true),
+              },
+            ],
+          },
+          {
+            title: "Preferences",
+            items: [
+              {
+                icon: "bell",
+                label: "Notifications",
+                action: () => navigation.navigate("Preferences"),
+              },
+              {
+                icon: "map-pin",
+                label: "Location Settings",
+                action: () => navigation.navigate("Preferences"),
+              },
+              {
+                icon: "moon",
+                label: "Appearance",
+                value:
+                  themeMode === "system"
+                    ? "System"
+                    : themeMode === "dark"
+                      ? "Dark"
+                      : "Light",
+                action: () => navigation.navigate("Preferences"),
+              },
+            ],
+          },
+          {
+            title: "For Vendors",
+            items: [
+              {
+                icon: "briefcase",
+                label: "Vendor Sign In",
+                action: handleVendorLogin,
+              },
+            ],
+          },
+          {
+            title: "Support",
+            items: [
+              {
+                icon: "help-circle",
+                label: "Help Center",
+                action: () => navigation.navigate("HelpCenter"),
+              },
+              {
+                icon: "message-circle",
+                label: "Contact Us",
+                action: () => navigation.navigate("Contact"),
+              },
+              {
+                icon: "file-text",
+                label: "Privacy Policy",
+                action: () => navigation.navigate("PrivacyPolicy"),
+              },
+              {
+                icon: "book-open",
+                label: "Terms of Service",
+                action: () => navigation.navigate("TermsOfService"),
+              },
+            ],
+          },
+        ];
 
   const getInitials = (name: string) => {
     return name
@@ -247,34 +366,97 @@ export default function ProfileScreen() {
         showsVerticalScrollIndicator={false}
         contentContainerStyle={[
           styles.scrollContent,
-          { paddingTop: headerHeight + Spacing.lg, paddingBottom: tabBarHeight + Spacing.xl },
+          {
+            paddingTop: headerHeight + Spacing.lg,
+            paddingBottom: tabBarHeight + Spacing.xl,
+          },
         ]}
       >
         <View style={styles.profileHeader}>
-          <View style={[styles.avatar, { backgroundColor: isAuthenticated ? Colors.primary + "20" : Colors.secondary + "20" }]}>
-            <ThemedText type="h2" style={{ color: isAuthenticated ? Colors.primary : Colors.secondary }}>
-              {isAuthenticated && user?.name ? getInitials(user.name) : (guestEmail ? guestEmail[0].toUpperCase() : "G")}
+          <View
+            style={[
+              styles.avatar,
+              {
+                backgroundColor: isAuthenticated
+                  ? Colors.primary + "20"
+                  : Colors.secondary + "20",
+              },
+            ]}
+          >
+            <ThemedText
+              type="h2"
+              style={{
+                color: isAuthenticated ? Colors.primary : Colors.secondary,
+              }}
+            >
+              {isAuthenticated && user?.name
+                ? getInitials(user.name)
+                : guestEmail
+                  ? guestEmail[0].toUpperCase()
+                  : "G"}
             </ThemedText>
           </View>
           <ThemedText type="h3" style={styles.userName}>
-            {isAuthenticated ? user?.name : (guestEmail ? guestEmail.split("@")[0] : "Guest User")}
+            {isAuthenticated
+              ? user?.name
+              : guestEmail
+                ? guestEmail.split("@")[0]
+                : "Guest User"}
           </ThemedText>
           {guestEmail && !isAuthenticated && (
-            <ThemedText type="small" secondary style={{ marginTop: Spacing.xs }}>
+            <ThemedText
+              type="small"
+              secondary
+              style={{ marginTop: Spacing.xs }}
+            >
               {guestEmail}
             </ThemedText>
           )}
-          <View style={[styles.roleBadge, { backgroundColor: isAuthenticated ? (user?.role === "vendor" ? Colors.primary + "20" : Colors.secondary + "20") : Colors.secondary + "20" }]}>
+          <View
+            style={[
+              styles.roleBadge,
+              {
+                backgroundColor: isAuthenticated
+                  ? user?.role === "vendor"
+                    ? Colors.primary + "20"
+                    : Colors.secondary + "20"
+                  : Colors.secondary + "20",
+              },
+            ]}
+          >
             <Feather
-              name={isAuthenticated ? (user?.role === "vendor" ? "truck" : "user") : "user"}
+              name={
+                isAuthenticated
+                  ? user?.role === "vendor"
+                    ? "truck"
+                    : "user"
+                  : "user"
+              }
               size={14}
-              color={isAuthenticated ? (user?.role === "vendor" ? Colors.primary : Colors.secondary) : Colors.secondary}
+              color={
+                isAuthenticated
+                  ? user?.role === "vendor"
+                    ? Colors.primary
+                    : Colors.secondary
+                  : Colors.secondary
+              }
             />
             <ThemedText
               type="caption"
-              style={{ color: isAuthenticated ? (user?.role === "vendor" ? Colors.primary : Colors.secondary) : Colors.secondary, marginLeft: Spacing.xs }}
+              style={{
+                color: isAuthenticated
+                  ? user?.role === "vendor"
+                    ? Colors.primary
+                    : Colors.secondary
+                  : Colors.secondary,
+                marginLeft: Spacing.xs,
+              }}
             >
-              {isAuthenticated ? (user?.role === "vendor" ? "Vendor Account" : "Customer Account") : "Customer"}
+              {isAuthenticated
+                ? user?.role === "vendor"
+                  ? "Vendor Account"
+                  : "Customer Account"
+                : "Customer"}
             </ThemedText>
           </View>
         </View>
@@ -292,12 +474,24 @@ export default function ProfileScreen() {
                   key={item.label}
                   style={[
                     styles.settingsItem,
-                    index < section.items.length - 1 && { borderBottomWidth: 1, borderBottomColor: theme.border },
+                    index < section.items.length - 1 && {
+                      borderBottomWidth: 1,
+                      borderBottomColor: theme.border,
+                    },
                   ]}
                   onPress={item.action}
                   disabled={!item.action}
                 >
-                  <View style={[styles.iconContainer, { backgroundColor: (item.danger ? Colors.error : theme.textSecondary) + "15" }]}>
+                  <View
+                    style={[
+                      styles.iconContainer,
+                      {
+                        backgroundColor:
+                          (item.danger ? Colors.error : theme.textSecondary) +
+                          "15",
+                      },
+                    ]}
+                  >
                     <Feather
                       name={item.icon as any}
                       size={18}
@@ -306,14 +500,23 @@ export default function ProfileScreen() {
                   </View>
                   <ThemedText
                     type="body"
-                    style={[styles.itemLabel, item.danger && { color: Colors.error }]}
+                    style={[
+                      styles.itemLabel,
+                      item.danger && { color: Colors.error },
+                    ]}
                   >
                     {item.label}
                   </ThemedText>
                   {item.value ? (
-                    <ThemedText type="small" secondary>{item.value}</ThemedText>
+                    <ThemedText type="small" secondary>
+                      {item.value}
+                    </ThemedText>
                   ) : item.action ? (
-                    <Feather name="chevron-right" size={20} color={theme.textSecondary} />
+                    <Feather
+                      name="chevron-right"
+                      size={20}
+                      color={theme.textSecondary}
+                    />
                   ) : null}
                 </Pressable>
               ))}
@@ -329,18 +532,32 @@ export default function ProfileScreen() {
             style={styles.footerLogo}
             resizeMode="contain"
           />
-          <ThemedText type="caption" secondary>SmartDealsIQ™</ThemedText>
-          <ThemedText type="caption" secondary>Version 1.0.0</ThemedText>
+          <ThemedText type="caption" secondary>
+            SmartDealsIQ™
+          </ThemedText>
+          <ThemedText type="caption" secondary>
+            Version 1.0.0
+          </ThemedText>
         </View>
       </ScrollView>
 
       {/* Delete Account Password Modal */}
       <Modal visible={showDeleteModal} animationType="slide" transparent>
         <View style={styles.modalOverlay}>
-          <View style={[styles.modalContent, { backgroundColor: theme.backgroundDefault }]}>
+          <View
+            style={[
+              styles.modalContent,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
+          >
             <View style={styles.modalHeader}>
               <ThemedText type="h4">Confirm Account Deletion</ThemedText>
-              <Pressable onPress={() => { setShowDeleteModal(false); setDeleteError(""); }}>
+              <Pressable
+                onPress={() => {
+                  setShowDeleteModal(false);
+                  setDeleteError("");
+                }}
+              >
                 <Feather name="x" size={24} color={theme.text} />
               </Pressable>
             </View>
@@ -348,17 +565,28 @@ export default function ProfileScreen() {
             <Spacer size="md" />
 
             <ThemedText type="small" secondary>
-              This will permanently delete your account and all associated data. Enter your password to confirm.
+              This will permanently delete your account and all associated data.
+              Enter your password to confirm.
             </ThemedText>
 
             <Spacer size="lg" />
 
             <TextInput
-              style={[styles.emailInput, { backgroundColor: theme.backgroundSecondary, color: theme.text, borderColor: deleteError ? Colors.error : theme.border }]}
+              style={[
+                styles.emailInput,
+                {
+                  backgroundColor: theme.backgroundSecondary,
+                  color: theme.text,
+                  borderColor: deleteError ? Colors.error : theme.border,
+                },
+              ]}
               placeholder="Enter your password"
               placeholderTextColor={theme.textSecondary}
               value={deletePassword}
-              onChangeText={(text) => { setDeletePassword(text); setDeleteError(""); }}
+              onChangeText={(text) => {
+                setDeletePassword(text);
+                setDeleteError("");
+              }}
               secureTextEntry
               autoComplete="password"
               editable={!isDeleting}
@@ -367,26 +595,45 @@ export default function ProfileScreen() {
             {deleteError ? (
               <>
                 <Spacer size="sm" />
-                <ThemedText type="small" style={{ color: Colors.error }}>{deleteError}</ThemedText>
+                <ThemedText type="small" style={{ color: Colors.error }}>
+                  {deleteError}
+                </ThemedText>
               </>
             ) : null}
 
             <Spacer size="lg" />
 
             <Pressable
-              style={[styles.saveButton, { backgroundColor: Colors.error, opacity: isDeleting ? 0.6 : 1 }]}
+              style={[
+                styles.saveButton,
+                {
+                  backgroundColor: Colors.error,
+                  opacity: isDeleting ? 0.6 : 1,
+                },
+              ]}
               onPress={handleConfirmDelete}
               disabled={isDeleting}
             >
-              <ThemedText type="body" style={{ color: "#fff", fontWeight: "600" }}>
+              <ThemedText
+                type="body"
+                style={{ color: "#fff", fontWeight: "600" }}
+              >
                 {isDeleting ? "Deleting..." : "Delete My Account"}
               </ThemedText>
             </Pressable>
 
             <Spacer size="md" />
 
-            <Pressable onPress={() => { setShowDeleteModal(false); setDeleteError(""); }}>
-              <ThemedText type="body" style={{ color: Colors.primary, textAlign: "center" }}>
+            <Pressable
+              onPress={() => {
+                setShowDeleteModal(false);
+                setDeleteError("");
+              }}
+            >
+              <ThemedText
+                type="body"
+                style={{ color: Colors.primary, textAlign: "center" }}
+              >
                 Cancel
               </ThemedText>
             </Pressable>
@@ -397,7 +644,12 @@ export default function ProfileScreen() {
       {/* Email Modal for Guest Users */}
       <Modal visible={showEmailModal} animationType="slide" transparent>
         <View style={styles.modalOverlay}>
-          <View style={[styles.modalContent, { backgroundColor: theme.backgroundDefault }]}>
+          <View
+            style={[
+              styles.modalContent,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
+          >
             <View style={styles.modalHeader}>
               <ThemedText type="h4">Add Your Email</ThemedText>
               <Pressable onPress={() => setShowEmailModal(false)}>
@@ -414,7 +666,14 @@ export default function ProfileScreen() {
             <Spacer size="lg" />
 
             <TextInput
-              style={[styles.emailInput, { backgroundColor: theme.backgroundSecondary, color: theme.text, borderColor: theme.border }]}
+              style={[
+                styles.emailInput,
+                {
+                  backgroundColor: theme.backgroundSecondary,
+                  color: theme.text,
+                  borderColor: theme.border,
+                },
+              ]}
               placeholder="your@email.com"
               placeholderTextColor={theme.textSecondary}
               value={emailInput}
@@ -430,14 +689,21 @@ export default function ProfileScreen() {
               style={[styles.saveButton, { backgroundColor: Colors.primary }]}
               onPress={saveGuestEmail}
             >
-              <ThemedText type="body" style={{ color: "#fff", fontWeight: "600" }}>
+              <ThemedText
+                type="body"
+                style={{ color: "#fff", fontWeight: "600" }}
+              >
                 Save Email
               </ThemedText>
             </Pressable>
 
             <Spacer size="md" />
 
-            <ThemedText type="caption" secondary style={{ textAlign: "center" }}>
+            <ThemedText
+              type="caption"
+              secondary
+              style={{ textAlign: "center" }}
+            >
               We respect your privacy. No spam, ever.
             </ThemedText>
           </View>
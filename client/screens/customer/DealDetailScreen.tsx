@@ -1,10 +1,24 @@
-import React, { useState } from "react";
-import { View, StyleSheet, ScrollView, Pressable, Image, Alert, Platform } from "react-native";
-import { useRoute, useNavigation, RouteProp } from "@react-navigation/native";
+import React, { useCallback, useEffect } from "react";
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  Image,
+  Alert,
+  Platform,
+} from "react-native";
+import {
+  useRoute,
+  useNavigation,
+  useFocusEffect,
+  RouteProp,
+} from "@react-navigation/native";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import * as Haptics from "expo-haptics";
 import * as Linking from "expo-linking";
+import QRCode from "react-native-qrcode-svg";
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { Card } from "@/components/Card";
@@ -13,6 +27,7 @@ import { Button } from "@/components/Button";
 import { useTheme } from "@/hooks/useTheme";
 import { useData } from "@/lib/data-context";
 import { useLocation } from "@/lib/location-context";
+import { analyticsTracker } from "@/lib/analytics-tracker";
 import { Colors, Spacing, BorderRadius } from "@/constants/theme";
 import { Feather } from "@expo/vector-icons";
 import { CustomerStackParamList } from "@/navigation/CustomerTabNavigator";
@@ -25,13 +40,35 @@ export default function DealDetailScreen() {
   const route = useRoute<RouteParams>();
   const navigation = useNavigation<NavigationProp>();
   const insets = useSafeAreaInsets();
-  const { deals, vendors, isFavorite, addFavorite, removeFavorite } = useData();
+  const {
+    deals,
+    vendors,
+    isFavorite,
+    addFavorite,
+    removeFavorite,
+    redeemDeal,
+    getRedemptionForDeal,
+    refreshRedemptions,
+  } = useData();
   const { calculateDistance } = useLocation();
-  
+
+  // Pick up the vendor marking the code as used
+  useFocusEffect(
+    useCallback(() => {
+      refreshRedemptions();
+    }, [refreshRedemptions]),
+  );
+
   const { dealId } = route.params;
   const deal = deals.find((d) => d.id === dealId);
   const vendor = deal ? vendors.find((v) => v.id === deal.vendorId) : null;
-  
+
+  const dealVendorId = deal?.vendorId;
+
+  useEffect(() => {
+    if (dealVendorId) analyticsTracker.track("page_view", dealVendorId, dealId);
+  }, [dealVendorId, dealId]);
+
   if (!deal || !vendor) {
     return (
       <ThemedView style={[styles.container, { paddingTop: insets.top }]}>
@@ -45,12 +82,12 @@ export default function DealDetailScreen() {
       </ThemedView>
     );
   }
-  
+
   const favorited = isFavorite(vendor.id);
   const distance = calculateDistance(vendor.latitude, vendor.longitude);
   const savings = deal.originalPrice - deal.discountedPrice;
   const savingsPercent = Math.round((savings / deal.originalPrice) * 100);
-  
+
   const handleToggleFavorite = () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
     if (favorited) {
@@ -59,22 +96,33 @@ export default function DealDetailScreen() {
       addFavorite(vendor.id);
     }
   };
-  
-  const [dealClaimed, setDealClaimed] = useState(false);
 
-  const handleGetDeal = () => {
+  // Each claim gets a single-use code the vendor scans or types in
+  const redemption = getRedemptionForDeal(deal.id);
+  const dealClaimed = !!redemption;
+
+  const handleGetDeal = async () => {
+    if (dealClaimed) return;
+
+    try {
+      await redeemDeal(deal.id);
+    } catch (error: any) {
+      Alert.alert("Couldn't Claim Deal", error?.message || "Please try again.");
+      return;
+    }
+
     if (Platform.OS !== "web") {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     }
-    setDealClaimed(true);
     Alert.alert(
       "Deal Claimed!",
-      `Show this screen at ${vendor.name} to redeem your ${savingsPercent}% discount.`,
-      [{ text: "Got it" }]
+      `Show your code at ${vendor.name} to redeem your ${savingsPercent}% discount. It can only be used once.`,
+      [{ text: "Got it" }],
     );
   };
 
   const handleGetDirections = () => {
+    analyticsTracker.track("directions", vendor.id, deal.id);
     const lat = vendor.latitude;
     const lng = vendor.longitude;
     const label = encodeURIComponent(vendor.name);
@@ -109,41 +157,59 @@ export default function DealDetailScreen() {
             Save ${savings.toFixed(2)}
           </ThemedText>
         </View>
-        
+
         <View style={styles.content}>
           <ThemedText type="h2">{deal.title}</ThemedText>
           <Spacer size="sm" />
-          <ThemedText type="body" secondary>{deal.description}</ThemedText>
-          
+          <ThemedText type="body" secondary>
+            {deal.description}
+          </ThemedText>
+
           <Spacer size="xl" />
-          
+
           <View style={styles.priceContainer}>
             <View>
-              <ThemedText type="caption" secondary>Original Price</ThemedText>
+              <ThemedText type="caption" secondary>
+                Original Price
+              </ThemedText>
               <ThemedText type="h4" style={styles.originalPrice}>
                 ${deal.originalPrice.toFixed(2)}
               </ThemedText>
             </View>
             <Feather name="arrow-right" size={24} color={theme.textSecondary} />
             <View>
-              <ThemedText type="caption" secondary>Deal Price</ThemedText>
+              <ThemedText type="caption" secondary>
+                Deal Price
+              </ThemedText>
               <ThemedText type="h3" style={{ color: Colors.success }}>
                 ${deal.discountedPrice.toFixed(2)}
               </ThemedText>
             </View>
           </View>
-          
+
           <Spacer size="xl" />
-          
+
           <Card style={styles.vendorCard}>
             <Pressable onPress={handleViewVendor} style={styles.vendorRow}>
-              <Image source={{ uri: vendor.image }} style={styles.vendorImage} />
+              <Image
+                source={{ uri: vendor.image }}
+                style={styles.vendorImage}
+              />
               <View style={styles.vendorInfo}>
-                <ThemedText type="body" style={{ fontWeight: "600" }}>{vendor.name}</ThemedText>
-                <ThemedText type="small" secondary>{vendor.cuisine}</ThemedText>
+                <ThemedText type="body" style={{ fontWeight: "600" }}>
+                  {vendor.name}
+                </ThemedText>
+                <ThemedText type="small" secondary>
+                  {vendor.cuisine}
+                </ThemedText>
                 <View style={styles.metaRow}>
                   {distance !== null ? (
-                    <View style={[styles.distanceBadge, { backgroundColor: Colors.secondary }]}>
+                    <View
+                      style={[
+                        styles.distanceBadge,
+                        { backgroundColor: Colors.secondary },
+                      ]}
+                    >
                       <Feather name="map-pin" size={12} color="#fff" />
                       <ThemedText type="caption" style={styles.distanceText}>
                         {distance.toFixed(1)} mi
@@ -152,50 +218,128 @@ export default function DealDetailScreen() {
                   ) : null}
                   <View style={styles.ratingContainer}>
                     <Feather name="star" size={14} color={Colors.accent} />
-                    <ThemedText type="small" style={styles.ratingText}>{vendor.rating}</ThemedText>
+                    <ThemedText type="small" style={styles.ratingText}>
+                      {vendor.rating}
+                    </ThemedText>
                   </View>
                 </View>
               </View>
-              <Feather name="chevron-right" size={24} color={theme.textSecondary} />
+              <Feather
+                name="chevron-right"
+                size={24}
+                color={theme.textSecondary}
+              />
             </Pressable>
           </Card>
-          
+
           <Spacer size="xl" />
-          
+
           <View style={styles.detailsSection}>
-            <ThemedText type="body" style={{ fontWeight: "600" }}>Deal Details</ThemedText>
+            <ThemedText type="body" style={{ fontWeight: "600" }}>
+              Deal Details
+            </ThemedText>
             <Spacer size="md" />
-            
+
             <View style={styles.detailRow}>
               <Feather name="clock" size={18} color={theme.textSecondary} />
               <ThemedText type="body" secondary style={styles.detailText}>
-                Valid until {new Date(deal.expiresAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                Valid until{" "}
+                {new Date(deal.expiresAt).toLocaleTimeString([], {
+                  hour: "2-digit",
+                  minute: "2-digit",
+                })}
               </ThemedText>
             </View>
-            
+
             <View style={styles.detailRow}>
               <Feather name="tag" size={18} color={theme.textSecondary} />
               <ThemedText type="body" secondary style={styles.detailText}>
                 Limited time offer
               </ThemedText>
             </View>
-            
+
             <View style={styles.detailRow}>
               <Feather name="map-pin" size={18} color={theme.textSecondary} />
               <ThemedText type="body" secondary style={styles.detailText}>
-                {distance !== null ? `${distance.toFixed(1)} miles away` : "Location available"}
+                {distance !== null
+                  ? `${distance.toFixed(1)} miles away`
+                  : "Location available"}
               </ThemedText>
             </View>
           </View>
-          
+
           <Spacer size="2xl" />
-          
+
+          {redemption ? (
+            <>
+              <Card style={styles.redemptionCard}>
+                {redemption.verifiedAt ? (
+                  <View style={styles.redemptionUsed}>
+                    <Feather
+                      name="check-circle"
+                      size={40}
+                      color={Colors.success}
+                    />
+                    <Spacer size="sm" />
+                    <ThemedText type="h4">Redeemed</ThemedText>
+                    <ThemedText type="small" secondary>
+                      Used{" "}
+                      {new Date(redemption.verifiedAt).toLocaleString([], {
+                        dateStyle: "medium",
+                        timeStyle: "short",
+                      })}
+                    </ThemedText>
+                  </View>
+                ) : (
+                  <>
+                    <ThemedText
+                      type="small"
+                      secondary
+                      style={styles.redemptionHint}
+                    >
+                      Show this code at {vendor.name}
+                    </ThemedText>
+                    <Spacer size="md" />
+                    {redemption.token ? (
+                      <View style={styles.qrContainer}>
+                        <QRCode
+                          value={redemption.token}
+                          size={180}
+                          backgroundColor="#fff"
+                          color="#000"
+                        />
+                      </View>
+                    ) : null}
+                    <Spacer size="md" />
+                    {redemption.code ? (
+                      <ThemedText type="h2" style={styles.redemptionCode}>
+                        {redemption.code.slice(0, 3)} {redemption.code.slice(3)}
+                      </ThemedText>
+                    ) : null}
+                    <ThemedText type="caption" secondary>
+                      Single use · valid until{" "}
+                      {new Date(redemption.expiresAt).toLocaleTimeString([], {
+                        hour: "2-digit",
+                        minute: "2-digit",
+                      })}
+                    </ThemedText>
+                  </>
+                )}
+              </Card>
+              <Spacer size="xl" />
+            </>
+          ) : null}
+
           <View style={styles.actionButtons}>
             <Pressable
               onPress={handleGetDeal}
               style={[
                 styles.getDealButton,
-                { backgroundColor: dealClaimed ? Colors.success : Colors.primary },
+                {
+                  backgroundColor: dealClaimed
+                    ? Colors.success
+                    : Colors.primary,
+                },
               ]}
             >
               <Feather
@@ -203,7 +347,10 @@ export default function DealDetailScreen() {
                 size={22}
                 color="#fff"
               />
-              <ThemedText type="h4" style={{ color: "#fff", marginLeft: Spacing.sm }}>
+              <ThemedText
+                type="h4"
+                style={{ color: "#fff", marginLeft: Spacing.sm }}
+              >
                 {dealClaimed ? "Deal Claimed!" : "Get This Deal"}
               </ThemedText>
             </Pressable>
@@ -211,19 +358,31 @@ export default function DealDetailScreen() {
             <View style={styles.secondaryActions}>
               <Pressable
                 onPress={handleGetDirections}
-                style={[styles.secondaryButton, { backgroundColor: theme.backgroundSecondary }]}
+                style={[
+                  styles.secondaryButton,
+                  { backgroundColor: theme.backgroundSecondary },
+                ]}
               >
                 <Feather name="navigation" size={18} color={Colors.secondary} />
-                <ThemedText type="small" style={{ color: Colors.secondary, marginLeft: Spacing.xs }}>
+                <ThemedText
+                  type="small"
+                  style={{ color: Colors.secondary, marginLeft: Spacing.xs }}
+                >
                   Directions
                 </ThemedText>
               </Pressable>
               <Pressable
                 onPress={handleViewVendor}
-                style={[styles.secondaryButton, { backgroundColor: theme.backgroundSecondary }]}
+                style={[
+                  styles.secondaryButton,
+                  { backgroundColor: theme.backgroundSecondary },
+                ]}
               >
                 <Feather name="shopping-bag" size={18} color={Colors.primary} />
-                <ThemedText type="small" style={{ color: Colors.primary, marginLeft: Spacing.xs }}>
+                <ThemedText
+                  type="small"
+                  style={{ color: Colors.primary, marginLeft: Spacing.xs }}
+                >
                   View Vendor
                 </ThemedText>
               </Pressable>
@@ -231,7 +390,11 @@ export default function DealDetailScreen() {
                 onPress={handleToggleFavorite}
                 style={[
                   styles.secondaryButton,
-                  { backgroundColor: favorited ? Colors.primary + "20" : theme.backgroundSecondary },
+                  {
+                    backgroundColor: favorited
+                      ? Colors.primary + "20"
+                      : theme.backgroundSecondary,
+                  },
                 ]}
               >
                 <Feather
@@ -241,7 +404,10 @@ export default function DealDetailScreen() {
                 />
                 <ThemedText
                   type="small"
-                  style={{ color: favorited ? Colors.primary : theme.text, marginLeft: Spacing.xs }}
+                  style={{
+                    color: favorited ? Colors.primary : theme.text,
+                    marginLeft: Spacing.xs,
+                  }}
                 >
                   {favorited ? "Saved" : "Save"}
                 </ThemedText>
@@ -302,6 +468,24 @@ const styles = StyleSheet.create({
   vendorCard: {
     padding: 0,
   },
+  redemptionCard: {
+    alignItems: "center",
+    paddingVertical: Spacing.xl,
+  },
+  redemptionHint: {
+    textAlign: "center",
+  },
+  qrContainer: {
+    padding: Spacing.md,
+    backgroundColor: "#fff",
+    borderRadius: BorderRadius.md,
+  },
+  redemptionCode: {
+    letterSpacing: 4,
+  },
+  redemptionUsed: {
+    alignItems: "center",
+  },
   vendorRow: {
     flexDirection: "row",
     alignItems: "center",
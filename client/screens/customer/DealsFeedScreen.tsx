@@ -1,5 +1,17 @@
-import React, { useState, useMemo, useEffect } from "react";
-import { View, StyleSheet, FlatList, RefreshControl, Pressable, Image, TextInput, Platform, ScrollView } from "react-native";
+import React, { useState, useMemo, useEffect, useRef } from "react";
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  RefreshControl,
+  Pressable,
+  Image,
+  TextInput,
+  Platform,
+  ScrollView,
+  Alert,
+  ViewToken,
+} from "react-native";
 import { useHeaderHeight } from "@react-navigation/elements";
 import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
 import { useNavigation } from "@react-navigation/native";
@@ -13,10 +25,12 @@ import { Spacer } from "@/components/Spacer";
 import { Button } from "@/components/Button";
 import { CategoryFilter } from "@/components/CategoryFilter";
 import { LocationSearch } from "@/components/LocationSearch";
+import { VoiceInput, VoiceSearchResults } from "@/components/VoiceInput";
 import { useTheme } from "@/hooks/useTheme";
 import { useData, FlashDeal } from "@/lib/data-context";
 import { useLocation } from "@/lib/location-context";
 import { useOffline } from "@/lib/offline-context";
+import { analyticsTracker } from "@/lib/analytics-tracker";
 import { Colors, Spacing, BorderRadius } from "@/constants/theme";
 import { Feather } from "@expo/vector-icons";
 import { CustomerStackParamList } from "@/navigation/CustomerTabNavigator";
@@ -38,13 +52,25 @@ export default function DealsFeedScreen() {
     searchLocation,
     selectedCategory,
     getActiveFlashDeals,
-    redeemFlashDeal,
+    refreshDeals,
   } = useData();
   const locationContext = useLocation();
-  const { userLocation, locationPermission, requestPermission, calculateDistance, refreshLocation, isLoading: locationLoading } = locationContext;
+  const {
+    userLocation,
+    locationPermission,
+    requestPermission,
+    calculateDistance,
+    refreshLocation,
+    isLoading: locationLoading,
+  } = locationContext;
   const { isOnline } = useOffline();
   const [refreshing, setRefreshing] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
+  // Server-ranked results from a voice search; replaces the text filter while set
+  const [voiceResults, setVoiceResults] = useState<VoiceSearchResults | null>(
+    null,
+  );
+  const [openNowOnly, setOpenNowOnly] = useState(false);
 
   // Flash deals with countdown timer
   const [, setTick] = useState(0);
@@ -53,62 +79,118 @@ export default function DealsFeedScreen() {
     return () => clearInterval(timer);
   }, []);
 
-  const activeFlashDeals = useMemo(() => getActiveFlashDeals(), [getActiveFlashDeals]);
+  const activeFlashDeals = useMemo(
+    () => getActiveFlashDeals(),
+    [getActiveFlashDeals],
+  );
+
+  // A deal card counts as an impression once at least half of it is on screen
+  const viewabilityConfig = useRef({ itemVisiblePercentThreshold: 50 }).current;
+  const onViewableItemsChanged = useRef(
+    ({ viewableItems }: { viewableItems: ViewToken[] }) => {
+      viewableItems.forEach(({ item }) =>
+        analyticsTracker.trackImpression(item.vendorId, item.id),
+      );
+    },
+  ).current;
 
   const dealsWithVendors = useMemo(() => {
     const filteredDeals = getFilteredDeals();
     const filteredVendors = getFilteredVendors();
 
-    return filteredDeals.map((deal) => {
-      const vendor = filteredVendors.find((v) => v.id === deal.vendorId);
-      let distance: string;
-      if (vendor && userLocation) {
-        const dist = calculateDistance(vendor.latitude, vendor.longitude);
-        distance = dist != null ? dist.toFixed(1) : "?";
-      } else if (vendor && searchLocation) {
-        // Use city location if user location not available
-        distance = "< 5";
-      } else {
-        distance = "?";
-      }
-      return { ...deal, vendor, distance };
-    }).filter((deal) => {
-      if (!deal.vendor) return false;
-      const matchesSearch = searchQuery === "" ||
-        deal.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        deal.vendor.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        deal.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        (deal.vendor.city && deal.vendor.city.toLowerCase().includes(searchQuery.toLowerCase()));
-      return matchesSearch;
-    }).sort((a, b) => {
-      const distA = parseFloat(a.distance) || 999;
-      const distB = parseFloat(b.distance) || 999;
-      return distA - distB;
-    });
-  }, [getFilteredDeals, getFilteredVendors, userLocation, calculateDistance, searchQuery, searchLocation]);
+    return filteredDeals
+      .map((deal) => {
+        const vendor = filteredVendors.find((v) => v.id === deal.vendorId);
+        let distance: string;
+        if (vendor && userLocation) {
+          const dist = calculateDistance(vendor.latitude, vendor.longitude);
+          distance = dist != null ? dist.toFixed(1) : "?";
+        } else if (vendor && searchLocation) {
+          // Use city location if user location not available
+          distance = "< 5";
+        } else {
+          distance = "?";
+        }
+        return { ...deal, vendor, distance };
+      })
+      .filter((deal) => {
+        if (!deal.vendor) return false;
+        if (openNowOnly && !deal.vendor.isOpen) return false;
+        if (voiceResults)
+          return voiceResults.deals.some((d) => d.id === deal.id);
+        const matchesSearch =
+          searchQuery === "" ||
+          deal.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
+          deal.vendor.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
+          deal.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
+          (deal.vendor.city &&
+            deal.vendor.city.toLowerCase().includes(searchQuery.toLowerCase()));
+        return matchesSearch;
+      })
+      .sort((a, b) => {
+        if (voiceResults) {
+          const rank = (id: string) =>
+            voiceResults.deals.findIndex((d) => d.id === id);
+          return rank(a.id) - rank(b.id);
+        }
+        const distA = parseFloat(a.distance) || 999;
+        const distB = parseFloat(b.distance) || 999;
+        return distA - distB;
+      });
+  }, [
+    getFilteredDeals,
+    getFilteredVendors,
+    userLocation,
+    calculateDistance,
+    searchQuery,
+    searchLocation,
+    voiceResults,
+    openNowOnly,
+  ]);
+
+  const voiceSearchOrigin = useMemo(
+    () =>
+      userLocation
+        ? {
+            latitude: userLocation.coords.latitude,
+            longitude: userLocation.coords.longitude,
+          }
+        : null,
+    [userLocation],
+  );
 
   const onRefresh = async () => {
-    if (Platform.OS !== 'web') {
+    if (Platform.OS !== "web") {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     }
     setRefreshing(true);
-    await refreshLocation();
-    await new Promise((resolve) => setTimeout(resolve, 500));
+    await Promise.all([refreshLocation(), refreshDeals()]);
     setRefreshing(false);
   };
 
-  if (locationPermission !== LocationModule.PermissionStatus.GRANTED && !locationLoading) {
+  if (
+    locationPermission !== LocationModule.PermissionStatus.GRANTED &&
+    !locationLoading
+  ) {
     return (
       <ThemedView style={styles.container}>
-        <View style={[styles.permissionContainer, { paddingTop: headerHeight }]}>
-          <View style={[styles.permissionCard, { backgroundColor: theme.backgroundSecondary }]}>
+        <View
+          style={[styles.permissionContainer, { paddingTop: headerHeight }]}
+        >
+          <View
+            style={[
+              styles.permissionCard,
+              { backgroundColor: theme.backgroundSecondary },
+            ]}
+          >
             <Feather name="map-pin" size={48} color={Colors.primary} />
             <Spacer size="lg" />
             <ThemedText type="h3" style={styles.permissionTitle}>
               Enable Location
             </ThemedText>
             <ThemedText type="body" secondary style={styles.permissionText}>
-              SmartDealsIQ™ needs your location to show nearby deals from restaurants and local businesses
+              SmartDealsIQ™ needs your location to show nearby deals from
+              restaurants and local businesses
             </ThemedText>
             <Spacer size="xl" />
             <Button onPress={requestPermission}>Enable Location</Button>
@@ -166,7 +248,7 @@ export default function DealsFeedScreen() {
   };
 
   const toggleFavorite = async (vendorId: string) => {
-    if (Platform.OS !== 'web') {
+    if (Platform.OS !== "web") {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
     }
     if (isFavorite(vendorId)) {
@@ -176,9 +258,9 @@ export default function DealsFeedScreen() {
     }
   };
 
-  const renderDealCard = ({ item }: { item: typeof dealsWithVendors[0] }) => {
+  const renderDealCard = ({ item }: { item: (typeof dealsWithVendors)[0] }) => {
     if (!item.vendor) return null;
-    
+
     const expiringSoon = isExpiringSoon(item.expiresAt);
     const timeRemaining = getTimeRemaining(item.expiresAt);
 
@@ -189,7 +271,9 @@ export default function DealsFeedScreen() {
       >
         <View style={styles.dealHeader}>
           <Image
-            source={{ uri: item.vendor.image || "https://via.placeholder.com/64" }}
+            source={{
+              uri: item.vendor.image || "https://via.placeholder.com/64",
+            }}
             style={styles.vendorImage}
           />
           <View style={styles.dealInfo}>
@@ -205,13 +289,22 @@ export default function DealsFeedScreen() {
                 <Feather
                   name={isFavorite(item.vendor.id) ? "heart" : "heart"}
                   size={20}
-                  color={isFavorite(item.vendor.id) ? Colors.error : theme.textSecondary}
+                  color={
+                    isFavorite(item.vendor.id)
+                      ? Colors.error
+                      : theme.textSecondary
+                  }
                   style={{ opacity: isFavorite(item.vendor.id) ? 1 : 0.5 }}
                 />
               </Pressable>
             </View>
             <View style={styles.metaRow}>
-              <View style={[styles.distanceBadge, { backgroundColor: Colors.secondary }]}>
+              <View
+                style={[
+                  styles.distanceBadge,
+                  { backgroundColor: Colors.secondary },
+                ]}
+              >
                 <Feather name="map-pin" size={12} color="#fff" />
                 <ThemedText type="caption" style={styles.distanceText}>
                   {item.distance} mi
@@ -224,35 +317,71 @@ export default function DealsFeedScreen() {
                 </ThemedText>
               </View>
               {item.vendor.isOpen ? (
-                <View style={[styles.statusBadge, { backgroundColor: Colors.success + "20" }]}>
-                  <ThemedText type="caption" style={{ color: Colors.success }}>Open</ThemedText>
+                <View
+                  style={[
+                    styles.statusBadge,
+                    { backgroundColor: Colors.success + "20" },
+                  ]}
+                >
+                  <ThemedText type="caption" style={{ color: Colors.success }}>
+                    {item.vendor.statusLabel || "Open"}
+                  </ThemedText>
                 </View>
               ) : (
-                <View style={[styles.statusBadge, { backgroundColor: Colors.error + "20" }]}>
-                  <ThemedText type="caption" style={{ color: Colors.error }}>Closed</ThemedText>
+                <View
+                  style={[
+                    styles.statusBadge,
+                    { backgroundColor: Colors.error + "20" },
+                  ]}
+                >
+                  <ThemedText type="caption" style={{ color: Colors.error }}>
+                    {item.vendor.statusLabel || "Closed"}
+                  </ThemedText>
                 </View>
               )}
             </View>
           </View>
         </View>
 
-        <View style={[styles.dealContent, { backgroundColor: theme.backgroundSecondary }]}>
+        <View
+          style={[
+            styles.dealContent,
+            { backgroundColor: theme.backgroundSecondary },
+          ]}
+        >
           <View style={styles.dealTitleRow}>
-            <ThemedText type="body" style={styles.dealTitle}>{item.title}</ThemedText>
-            <View style={[
-              styles.timeBadge,
-              { backgroundColor: expiringSoon ? Colors.accent : theme.backgroundTertiary }
-            ]}>
-              <Feather name="clock" size={12} color={expiringSoon ? "#000" : theme.textSecondary} />
+            <ThemedText type="body" style={styles.dealTitle}>
+              {item.title}
+            </ThemedText>
+            <View
+              style={[
+                styles.timeBadge,
+                {
+                  backgroundColor: expiringSoon
+                    ? Colors.accent
+                    : theme.backgroundTertiary,
+                },
+              ]}
+            >
+              <Feather
+                name="clock"
+                size={12}
+                color={expiringSoon ? "#000" : theme.textSecondary}
+              />
               <ThemedText
                 type="caption"
-                style={{ color: expiringSoon ? "#000" : theme.textSecondary, marginLeft: 4 }}
+                style={{
+                  color: expiringSoon ? "#000" : theme.textSecondary,
+                  marginLeft: 4,
+                }}
               >
                 {timeRemaining}
               </ThemedText>
             </View>
           </View>
-          <ThemedText type="small" secondary numberOfLines={2}>{item.description}</ThemedText>
+          <ThemedText type="small" secondary numberOfLines={2}>
+            {item.description}
+          </ThemedText>
           <View style={styles.priceRow}>
             <ThemedText type="small" style={styles.originalPrice}>
               ${item.originalPrice.toFixed(2)}
@@ -260,7 +389,9 @@ export default function DealsFeedScreen() {
             <ThemedText type="h4" style={{ color: Colors.success }}>
               ${item.discountedPrice.toFixed(2)}
             </ThemedText>
-            <View style={[styles.savingsBadge, { backgroundColor: Colors.primary }]}>
+            <View
+              style={[styles.savingsBadge, { backgroundColor: Colors.primary }]}
+            >
               <ThemedText type="caption" style={styles.savingsText}>
                 Save ${(item.originalPrice - item.discountedPrice).toFixed(2)}
               </ThemedText>
@@ -281,7 +412,10 @@ export default function DealsFeedScreen() {
     return (
       <Pressable
         key={deal.id}
-        style={[styles.flashDealCard, { backgroundColor: theme.backgroundSecondary }]}
+        style={[
+          styles.flashDealCard,
+          { backgroundColor: theme.backgroundSecondary },
+        ]}
         onPress={() => {
           if (Platform.OS !== "web") {
             Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
@@ -291,37 +425,60 @@ export default function DealsFeedScreen() {
       >
         <View style={[styles.flashBadge, { backgroundColor: Colors.error }]}>
           <Feather name="zap" size={10} color="#fff" />
-          <ThemedText type="caption" style={styles.flashBadgeText}>FLASH</ThemedText>
+          <ThemedText type="caption" style={styles.flashBadgeText}>
+            FLASH
+          </ThemedText>
         </View>
 
         <View style={styles.flashDealDiscount}>
-          <ThemedText type="h3" style={{ color: Colors.error }}>{deal.discountPercent}%</ThemedText>
-          <ThemedText type="caption" style={{ color: Colors.error }}>OFF</ThemedText>
+          <ThemedText type="h3" style={{ color: Colors.error }}>
+            {deal.discountPercent}%
+          </ThemedText>
+          <ThemedText type="caption" style={{ color: Colors.error }}>
+            OFF
+          </ThemedText>
         </View>
 
         <View style={styles.flashDealInfo}>
-          <ThemedText type="small" style={{ fontWeight: "600" }} numberOfLines={1}>
+          <ThemedText
+            type="small"
+            style={{ fontWeight: "600" }}
+            numberOfLines={1}
+          >
             {deal.vendorName}
           </ThemedText>
-          <ThemedText type="caption" secondary numberOfLines={1}>{deal.title}</ThemedText>
+          <ThemedText type="caption" secondary numberOfLines={1}>
+            {deal.title}
+          </ThemedText>
         </View>
 
-        <View style={[styles.flashTimer, { backgroundColor: timeColor + "15" }]}>
+        <View
+          style={[styles.flashTimer, { backgroundColor: timeColor + "15" }]}
+        >
           <Feather name="clock" size={12} color={timeColor} />
-          <ThemedText type="caption" style={{ color: timeColor, fontWeight: "700", marginLeft: 4 }}>
+          <ThemedText
+            type="caption"
+            style={{ color: timeColor, fontWeight: "700", marginLeft: 4 }}
+          >
             {timeRemaining}
           </ThemedText>
         </View>
 
         {deal.maxRedemptions && (
           <View style={styles.flashProgress}>
-            <View style={[styles.flashProgressBar, { backgroundColor: theme.backgroundTertiary }]}>
+            <View
+              style={[
+                styles.flashProgressBar,
+                { backgroundColor: theme.backgroundTertiary },
+              ]}
+            >
               <View
                 style={[
                   styles.flashProgressFill,
                   {
                     width: `${redemptionPercent}%`,
-                    backgroundColor: redemptionPercent >= 80 ? Colors.error : Colors.success,
+                    backgroundColor:
+                      redemptionPercent >= 80 ? Colors.error : Colors.success,
                   },
                 ]}
               />
@@ -347,16 +504,29 @@ export default function DealsFeedScreen() {
           <View style={styles.flashDealsHeader}>
             <View style={styles.flashDealsTitle}>
               <Feather name="zap" size={18} color={Colors.error} />
-              <ThemedText type="h4" style={{ marginLeft: 8, color: Colors.error }}>
+              <ThemedText
+                type="h4"
+                style={{ marginLeft: 8, color: Colors.error }}
+              >
                 Flash Deals
               </ThemedText>
-              <View style={[styles.flashCountBadge, { backgroundColor: Colors.error }]}>
-                <ThemedText type="caption" style={{ color: "#fff", fontWeight: "700" }}>
+              <View
+                style={[
+                  styles.flashCountBadge,
+                  { backgroundColor: Colors.error },
+                ]}
+              >
+                <ThemedText
+                  type="caption"
+                  style={{ color: "#fff", fontWeight: "700" }}
+                >
                   {activeFlashDeals.length}
                 </ThemedText>
               </View>
             </View>
-            <ThemedText type="caption" secondary>Limited time offers</ThemedText>
+            <ThemedText type="caption" secondary>
+              Limited time offers
+            </ThemedText>
           </View>
           <ScrollView
             horizontal
@@ -370,21 +540,52 @@ export default function DealsFeedScreen() {
       )}
 
       {/* Search Bar */}
-      <View style={[styles.searchContainer, { backgroundColor: theme.backgroundSecondary, borderColor: theme.border }]}>
+      <View
+        style={[
+          styles.searchContainer,
+          {
+            backgroundColor: theme.backgroundSecondary,
+            borderColor: theme.border,
+          },
+        ]}
+      >
         <Feather name="search" size={20} color={theme.textSecondary} />
         <TextInput
           style={[styles.searchInput, { color: theme.text }]}
           placeholder="Search deals, vendors, cities..."
           placeholderTextColor={theme.textSecondary}
-          value={searchQuery}
-          onChangeText={setSearchQuery}
+          value={voiceResults ? voiceResults.transcription : searchQuery}
+          onChangeText={(text) => {
+            setVoiceResults(null);
+            setSearchQuery(text);
+          }}
         />
-        {searchQuery.length > 0 ? (
-          <Pressable onPress={() => setSearchQuery("")} hitSlop={8}>
+        {searchQuery.length > 0 || voiceResults ? (
+          <Pressable
+            onPress={() => {
+              setSearchQuery("");
+              setVoiceResults(null);
+            }}
+            hitSlop={8}
+          >
             <Feather name="x" size={18} color={theme.textSecondary} />
           </Pressable>
         ) : null}
       </View>
+      <Spacer size="md" />
+
+      {/* Voice Search */}
+      <VoiceInput
+        mode="search"
+        placeholder="Search by voice"
+        searchOrigin={voiceSearchOrigin}
+        onTranscription={() => {}}
+        onSearchResults={(results) => {
+          setSearchQuery("");
+          setVoiceResults(results);
+        }}
+        onError={(message) => Alert.alert("Voice Search", message)}
+      />
       <Spacer size="lg" />
 
       {/* Category Filter */}
@@ -394,16 +595,53 @@ export default function DealsFeedScreen() {
       {/* Results count */}
       <View style={styles.resultsRow}>
         <ThemedText type="body" style={{ fontWeight: "600" }}>
-          {dealsWithVendors.length} Deal{dealsWithVendors.length !== 1 ? "s" : ""} Available
+          {dealsWithVendors.length} Deal
+          {dealsWithVendors.length !== 1 ? "s" : ""} Available
         </ThemedText>
-        {searchLocation && (
-          <View style={[styles.locationBadge, { backgroundColor: Colors.primary + "15" }]}>
-            <Feather name="map-pin" size={12} color={Colors.primary} />
-            <ThemedText type="caption" style={{ color: Colors.primary, marginLeft: 4 }}>
-              {searchLocation.city}
+        <View style={styles.resultsFilters}>
+          {searchLocation && (
+            <View
+              style={[
+                styles.locationBadge,
+                { backgroundColor: Colors.primary + "15" },
+              ]}
+            >
+              <Feather name="map-pin" size={12} color={Colors.primary} />
+              <ThemedText
+                type="caption"
+                style={{ color: Colors.primary, marginLeft: 4 }}
+              >
+                {searchLocation.city}
+              </ThemedText>
+            </View>
+          )}
+          <Pressable
+            style={[
+              styles.locationBadge,
+              {
+                backgroundColor: openNowOnly
+                  ? Colors.success
+                  : Colors.success + "15",
+              },
+            ]}
+            onPress={() => setOpenNowOnly((prev) => !prev)}
+          >
+            <Feather
+              name="clock"
+              size={12}
+              color={openNowOnly ? "#fff" : Colors.success}
+            />
+            <ThemedText
+              type="caption"
+              style={{
+                color: openNowOnly ? "#fff" : Colors.success,
+                marginLeft: 4,
+              }}
+            >
+              Open now
             </ThemedText>
-          </View>
-        )}
+          </Pressable>
+        </View>
       </View>
     </View>
   );
@@ -414,27 +652,45 @@ export default function DealsFeedScreen() {
         data={dealsWithVendors}
         renderItem={renderDealCard}
         keyExtractor={(item) => item.id}
+        viewabilityConfig={viewabilityConfig}
+        onViewableItemsChanged={onViewableItemsChanged}
         contentContainerStyle={[
           styles.listContent,
-          { paddingTop: headerHeight + Spacing.lg, paddingBottom: tabBarHeight + Spacing.xl },
+          {
+            paddingTop: headerHeight + Spacing.lg,
+            paddingBottom: tabBarHeight + Spacing.xl,
+          },
         ]}
         showsVerticalScrollIndicator={false}
         ListHeaderComponent={renderHeader}
         refreshControl={
-          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={Colors.primary} />
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            tintColor={Colors.primary}
+          />
         }
         ItemSeparatorComponent={() => <Spacer size="md" />}
         ListEmptyComponent={
           <View style={styles.emptyContainer}>
-            <Feather name={!isOnline ? "wifi-off" : "map-pin"} size={48} color={theme.textSecondary} />
+            <Feather
+              name={!isOnline ? "wifi-off" : "map-pin"}
+              size={48}
+              color={theme.textSecondary}
+            />
             <Spacer size="lg" />
-            <ThemedText type="h4">{!isOnline ? "You're Offline" : "No deals found"}</ThemedText>
+            <ThemedText type="h4">
+              {!isOnline ? "You're Offline" : "No deals found"}
+            </ThemedText>
             <ThemedText type="body" secondary style={styles.emptyText}>
               {!isOnline
                 ? "Check your internet connection and pull down to refresh"
-                : searchQuery || selectedCategory !== "All"
-                ? "Try adjusting your search or filters"
-                : "Check back later for new deals"}
+                : searchQuery ||
+                    voiceResults ||
+                    openNowOnly ||
+                    selectedCategory !== "All"
+                  ? "Try adjusting your search or filters"
+                  : "Check back later for new deals"}
             </ThemedText>
           </View>
         }
@@ -602,6 +858,11 @@ const styles = StyleSheet.create({
     justifyContent: "space-between",
     paddingHorizontal: Spacing.lg,
   },
+  resultsFilters: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
   locationBadge: {
     flexDirection: "row",
     alignItems: "center",
@@ -1,5 +1,12 @@
 import React from "react";
-import { View, StyleSheet, FlatList, Pressable, Image, Switch } from "react-native";
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  Pressable,
+  Image,
+  Switch,
+} from "react-native";
 import { useHeaderHeight } from "@react-navigation/elements";
 import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
 import { useNavigation } from "@react-navigation/native";
@@ -23,46 +30,89 @@ export default function FavoritesScreen() {
   const headerHeight = useHeaderHeight();
   const tabBarHeight = useBottomTabBarHeight();
   const navigation = useNavigation<NavigationProp>();
-  const { vendors, deals, favorites, toggleNotifyNearby, removeFavorite } = useData();
+  const {
+    vendors,
+    deals,
+    favorites,
+    toggleNotifyNearby,
+    removeFavorite,
+    flashDealVendorIds,
+    toggleFlashDealAlerts,
+  } = useData();
   const { isOnline } = useOffline();
 
-  const favoriteVendors = favorites.map((fav) => {
-    const vendor = vendors.find((v) => v.id === fav.vendorId);
-    const vendorDeals = deals.filter((d) => d.vendorId === fav.vendorId);
-    return { ...fav, vendor, dealCount: vendorDeals.length };
-  }).filter((f) => f.vendor);
+  const favoriteVendors = favorites
+    .map((fav) => {
+      const vendor = vendors.find((v) => v.id === fav.vendorId);
+      const vendorDeals = deals.filter((d) => d.vendorId === fav.vendorId);
+      return { ...fav, vendor, dealCount: vendorDeals.length };
+    })
+    .filter((f) => f.vendor);
 
-  const renderFavoriteItem = ({ item }: { item: typeof favoriteVendors[0] }) => {
+  const renderFavoriteItem = ({
+    item,
+  }: {
+    item: (typeof favoriteVendors)[0];
+  }) => {
     if (!item.vendor) return null;
 
     return (
       <Card
         style={styles.favoriteCard}
-        onPress={() => navigation.navigate("VendorDetail", { vendorId: item.vendor!.id })}
+        onPress={() =>
+          navigation.navigate("VendorDetail", { vendorId: item.vendor!.id })
+        }
       >
         <View style={styles.cardContent}>
-          <Image source={{ uri: item.vendor.image }} style={styles.vendorImage} />
+          <Image
+            source={{ uri: item.vendor.image }}
+            style={styles.vendorImage}
+          />
           <View style={styles.vendorInfo}>
-            <ThemedText type="h4" numberOfLines={1}>{item.vendor.name}</ThemedText>
+            <ThemedText type="h4" numberOfLines={1}>
+              {item.vendor.name}
+            </ThemedText>
             <View style={styles.metaRow}>
               <Feather name="star" size={14} color={Colors.accent} />
               <ThemedText type="small" style={styles.ratingText}>
                 {item.vendor.rating}
               </ThemedText>
-              <ThemedText type="small" secondary> • {item.vendor.cuisine}</ThemedText>
+              <ThemedText type="small" secondary>
+                {" "}
+                • {item.vendor.cuisine}
+              </ThemedText>
             </View>
             <View style={styles.statusRow}>
               {item.vendor.isOpen ? (
-                <View style={[styles.statusBadge, { backgroundColor: Colors.success + "20" }]}>
-                  <ThemedText type="caption" style={{ color: Colors.success }}>Open</ThemedText>
+                <View
+                  style={[
+                    styles.statusBadge,
+                    { backgroundColor: Colors.success + "20" },
+                  ]}
+                >
+                  <ThemedText type="caption" style={{ color: Colors.success }}>
+                    Open
+                  </ThemedText>
                 </View>
               ) : (
-                <View style={[styles.statusBadge, { backgroundColor: Colors.error + "20" }]}>
-                  <ThemedText type="caption" style={{ color: Colors.error }}>Closed</ThemedText>
+                <View
+                  style={[
+                    styles.statusBadge,
+                    { backgroundColor: Colors.error + "20" },
+                  ]}
+                >
+                  <ThemedText type="caption" style={{ color: Colors.error }}>
+                    Closed
+                  </ThemedText>
                 </View>
               )}
               {item.dealCount > 0 ? (
-                <View style={[styles.dealBadge, { backgroundColor: Colors.primary + "20" }]}>
+                <View
+                  style={[
+                    styles.dealBadge,
+                    { backgroundColor: Colors.primary + "20" },
+                  ]}
+                >
                   <ThemedText type="caption" style={{ color: Colors.primary }}>
                     {item.dealCount} deal{item.dealCount !== 1 ? "s" : ""}
                   </ThemedText>
@@ -85,7 +135,9 @@ export default function FavoritesScreen() {
         <View style={[styles.notifyRow, { borderTopColor: theme.border }]}>
           <View style={styles.notifyContent}>
             <Feather name="bell" size={18} color={theme.textSecondary} />
-            <ThemedText type="small" style={styles.notifyText}>Notify when nearby</ThemedText>
+            <ThemedText type="small" style={styles.notifyText}>
+              Notify when nearby
+            </ThemedText>
           </View>
           <Switch
             value={item.notifyWhenNearby}
@@ -93,8 +145,38 @@ export default function FavoritesScreen() {
               Haptics.selectionAsync();
               toggleNotifyNearby(item.vendorId);
             }}
-            trackColor={{ false: theme.backgroundTertiary, true: Colors.primary + "60" }}
-            thumbColor={item.notifyWhenNearby ? Colors.primary : theme.backgroundSecondary}
+            trackColor={{
+              false: theme.backgroundTertiary,
+              true: Colors.primary + "60",
+            }}
+            thumbColor={
+              item.notifyWhenNearby ? Colors.primary : theme.backgroundSecondary
+            }
+          />
+        </View>
+
+        <View style={[styles.notifyRow, { borderTopColor: theme.border }]}>
+          <View style={styles.notifyContent}>
+            <Feather name="zap" size={18} color={theme.textSecondary} />
+            <ThemedText type="small" style={styles.notifyText}>
+              Flash deal alerts
+            </ThemedText>
+          </View>
+          <Switch
+            value={flashDealVendorIds.includes(item.vendorId)}
+            onValueChange={() => {
+              Haptics.selectionAsync();
+              toggleFlashDealAlerts(item.vendorId);
+            }}
+            trackColor={{
+              false: theme.backgroundTertiary,
+              true: Colors.primary + "60",
+            }}
+            thumbColor={
+              flashDealVendorIds.includes(item.vendorId)
+                ? Colors.primary
+                : theme.backgroundSecondary
+            }
           />
         </View>
       </Card>
@@ -109,19 +191,28 @@ export default function FavoritesScreen() {
         keyExtractor={(item) => item.vendorId}
         contentContainerStyle={[
           styles.listContent,
-          { paddingTop: headerHeight + Spacing.lg, paddingBottom: tabBarHeight + Spacing.xl },
+          {
+            paddingTop: headerHeight + Spacing.lg,
+            paddingBottom: tabBarHeight + Spacing.xl,
+          },
         ]}
         showsVerticalScrollIndicator={false}
         ItemSeparatorComponent={() => <Spacer size="md" />}
         ListEmptyComponent={
           <View style={styles.emptyContainer}>
-            <View style={[styles.emptyIcon, { backgroundColor: Colors.error + "15" }]}>
+            <View
+              style={[
+                styles.emptyIcon,
+                { backgroundColor: Colors.error + "15" },
+              ]}
+            >
               <Feather name="heart" size={40} color={Colors.error} />
             </View>
             <Spacer size="lg" />
             <ThemedText type="h4">No favorites yet</ThemedText>
             <ThemedText type="body" secondary style={styles.emptyText}>
-              Follow your favorite vendors to see them here and get notified when they're nearby
+              Follow your favorite vendors to see them here and get notified
+              when they're nearby
             </ThemedText>
           </View>
         }
@@ -1,5 +1,13 @@
-import React, { useState, useEffect, useRef } from "react";
-import { View, StyleSheet, Pressable, Platform, Dimensions, Image, Linking } from "react-native";
+import React, { useState, useEffect, useRef, useMemo } from "react";
+import {
+  View,
+  StyleSheet,
+  Pressable,
+  Platform,
+  Dimensions,
+  Image,
+  Linking,
+} from "react-native";
 import { useHeaderHeight } from "@react-navigation/elements";
 import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
 import { useNavigation } from "@react-navigation/native";
@@ -13,8 +21,15 @@ import { Spacer } from "@/components/Spacer";
 import { Button } from "@/components/Button";
 import { useTheme } from "@/hooks/useTheme";
 import { useData, Vendor } from "@/lib/data-context";
-import { useVendorListing, PublicVendorListing } from "@/lib/vendor-listing-context";
+import {
+  useVendorListing,
+  PublicVendorListing,
+  MapBounds,
+} from "@/lib/vendor-listing-context";
+import { usePreferences } from "@/lib/preferences-context";
 import { useOffline } from "@/lib/offline-context";
+import { foodTruckService, TruckLocation } from "@/lib/food-truck-service";
+import { analyticsTracker } from "@/lib/analytics-tracker";
 import { Colors, Spacing, BorderRadius, Shadows } from "@/constants/theme";
 import { Feather } from "@expo/vector-icons";
 import { CustomerStackParamList } from "@/navigation/CustomerTabNavigator";
@@ -47,6 +62,39 @@ type NavigationProp = NativeStackNavigationProp<CustomerStackParamList>;
 const { width } = Dimensions.get("window");
 
 const RADIUS_OPTIONS = [1, 5, 10];
+const MILES_PER_DEGREE_LAT = 69;
+
+// Region that fits a circle of radiusMiles around the center
+function regionForRadius(
+  latitude: number,
+  longitude: number,
+  radiusMiles: number,
+): Region {
+  const latitudeDelta = (radiusMiles * 2) / MILES_PER_DEGREE_LAT;
+  const longitudeDelta =
+    latitudeDelta / Math.max(Math.cos((latitude * Math.PI) / 180), 0.01);
+  return {
+    latitude,
+    longitude,
+    latitudeDelta,
+    longitudeDelta: Math.min(longitudeDelta, 360),
+  };
+}
+
+function wrapLongitude(lng: number): number {
+  if (lng > 180) return lng - 360;
+  if (lng < -180) return lng + 360;
+  return lng;
+}
+
+function regionToBounds(region: Region): MapBounds {
+  return {
+    north: Math.min(region.latitude + region.latitudeDelta / 2, 90),
+    south: Math.max(region.latitude - region.latitudeDelta / 2, -90),
+    east: wrapLongitude(region.longitude + region.longitudeDelta / 2),
+    west: wrapLongitude(region.longitude - region.longitudeDelta / 2),
+  };
+}
 
 // Category labels for display
 const CATEGORY_LABELS: Record<string, string> = {
@@ -98,22 +146,51 @@ export default function MapScreen() {
   const tabBarHeight = useBottomTabBarHeight();
   const navigation = useNavigation<NavigationProp>();
   const { vendors, deals, isFavorite } = useData();
-  const { publicVendors, fetchPublicVendors } = useVendorListing();
+  const { publicVendors, fetchNearbyVendors, fetchVendorsInBounds } =
+    useVendorListing();
+  const { location: locationPrefs } = usePreferences();
   const { isOnline } = useOffline();
   const mapRef = useRef<any>(null);
 
   const [permission, requestPermission] = Location.useForegroundPermissions();
-  const [userLocation, setUserLocation] = useState<{ latitude: number; longitude: number } | null>(null);
+  const [userLocation, setUserLocation] = useState<{
+    latitude: number;
+    longitude: number;
+  } | null>(null);
   const [selectedVendor, setSelectedVendor] = useState<Vendor | null>(null);
-  const [selectedFreeVendor, setSelectedFreeVendor] = useState<PublicVendorListing | null>(null);
-  const [radiusIndex, setRadiusIndex] = useState(1);
+  const [selectedFreeVendor, setSelectedFreeVendor] =
+    useState<PublicVendorListing | null>(null);
+  const [radius, setRadius] = useState(locationPrefs.searchRadius);
+  const [liveTrucks, setLiveTrucks] = useState<TruckLocation[]>([]);
+
+  // Live trucks replace their static listing pin
+  const liveTruckIds = useMemo(
+    () => new Set(liveTrucks.map((t) => t.vendorId)),
+    [liveTrucks],
+  );
+  const selectedLiveTruck = selectedFreeVendor
+    ? liveTrucks.find((t) => t.vendorId === selectedFreeVendor.id)
+    : undefined;
+
+  // Always offer the radius from the user's preferences
+  const radiusOptions = useMemo(
+    () =>
+      Array.from(new Set([...RADIUS_OPTIONS, locationPrefs.searchRadius])).sort(
+        (a, b) => a - b,
+      ),
+    [locationPrefs.searchRadius],
+  );
 
-  // Fetch free vendors on mount (only if online)
   useEffect(() => {
-    if (isOnline) {
-      fetchPublicVendors();
+    setRadius(locationPrefs.searchRadius);
+  }, [locationPrefs.searchRadius]);
+
+  // Fetch free vendors within the search radius (only if online)
+  useEffect(() => {
+    if (isOnline && userLocation) {
+      fetchNearbyVendors(userLocation.latitude, userLocation.longitude, radius);
     }
-  }, [isOnline]);
+  }, [isOnline, userLocation, radius, fetchNearbyVendors]);
 
   useEffect(() => {
     if (permission?.granted) {
@@ -121,6 +198,31 @@ export default function MapScreen() {
     }
   }, [permission]);
 
+  // Stream trucks going live and moving while the map is open
+  useEffect(() => {
+    const unsubscribe = foodTruckService.subscribe(() => {
+      setLiveTrucks(foodTruckService.getViewportTrucks());
+    });
+    return () => {
+      unsubscribe();
+      foodTruckService.stopWatching();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (isOnline && userLocation) {
+      foodTruckService.watchViewport(
+        regionToBounds(
+          regionForRadius(
+            userLocation.latitude,
+            userLocation.longitude,
+            radius,
+          ),
+        ),
+      );
+    }
+  }, [isOnline, userLocation, radius]);
+
   const getCurrentLocation = async () => {
     try {
       const location = await Location.getCurrentPositionAsync({
@@ -135,6 +237,23 @@ export default function MapScreen() {
     }
   };
 
+  // Load vendors for whatever the user has panned / zoomed to
+  const handleRegionChangeComplete = (
+    region: Region,
+    details?: { isGesture?: boolean },
+  ) => {
+    if (!isOnline) return;
+    foodTruckService.watchViewport(regionToBounds(region));
+    // Google Maps reports programmatic moves (marker taps, recenter); the radius fetch covers those
+    if (details?.isGesture === false) return;
+    fetchVendorsInBounds(
+      regionToBounds(region),
+      userLocation
+        ? { lat: userLocation.latitude, lng: userLocation.longitude }
+        : undefined,
+    );
+  };
+
   const handleMarkerPress = (vendor: Vendor) => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     setSelectedVendor(vendor);
@@ -159,6 +278,26 @@ export default function MapScreen() {
     });
   };
 
+  const handleLiveTruckPress = (truck: TruckLocation) => {
+    // Trucks outside the fetched listings still get a sheet from the feed's details
+    const vendor = publicVendors.find((v) => v.id === truck.vendorId) ?? {
+      id: truck.vendorId,
+      businessName: truck.businessName ?? "Food Truck",
+      category: (truck.category ??
+        "food_truck") as PublicVendorListing["category"],
+      locationLat: truck.latitude,
+      locationLng: truck.longitude,
+      city: "",
+      state: "",
+      lastLocationUpdate: truck.timestamp,
+    };
+    handleFreeVendorMarkerPress({
+      ...vendor,
+      locationLat: truck.latitude,
+      locationLng: truck.longitude,
+    });
+  };
+
   const getVendorDeals = (vendorId: string) => {
     return deals.filter((d) => d.vendorId === vendorId);
   };
@@ -176,7 +315,13 @@ export default function MapScreen() {
     return `${diffDays}d ago`;
   };
 
-  const openDirections = (lat: number, lng: number, name: string) => {
+  const openDirections = (
+    vendorId: string,
+    lat: number,
+    lng: number,
+    name: string,
+  ) => {
+    analyticsTracker.track("directions", vendorId);
     const url = Platform.select({
       ios: `maps://app?daddr=${lat},${lng}&q=${encodeURIComponent(name)}`,
       android: `google.navigation:q=${lat},${lng}`,
@@ -198,15 +343,23 @@ export default function MapScreen() {
   if (!permission.granted) {
     return (
       <ThemedView style={styles.container}>
-        <View style={[styles.permissionContainer, { paddingTop: headerHeight }]}>
-          <View style={[styles.permissionCard, { backgroundColor: theme.backgroundDefault }]}>
+        <View
+          style={[styles.permissionContainer, { paddingTop: headerHeight }]}
+        >
+          <View
+            style={[
+              styles.permissionCard,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
+          >
             <Feather name="map-pin" size={48} color={Colors.primary} />
             <Spacer size="lg" />
             <ThemedText type="h3" style={styles.permissionTitle}>
               Enable Location
             </ThemedText>
             <ThemedText type="body" secondary style={styles.permissionText}>
-              SmartDealsIQ™ needs your location to show nearby restaurants and local businesses
+              SmartDealsIQ™ needs your location to show nearby restaurants and
+              local businesses
             </ThemedText>
             <Spacer size="xl" />
             <Button onPress={requestPermission}>Enable Location</Button>
@@ -217,12 +370,7 @@ export default function MapScreen() {
   }
 
   const initialRegion: Region = userLocation
-    ? {
-        latitude: userLocation.latitude,
-        longitude: userLocation.longitude,
-        latitudeDelta: 0.05,
-        longitudeDelta: 0.05,
-      }
+    ? regionForRadius(userLocation.latitude, userLocation.longitude, radius)
     : {
         latitude: 37.7749,
         longitude: -122.4194,
@@ -233,15 +381,23 @@ export default function MapScreen() {
   if (Platform.OS === "web" || !MapView) {
     return (
       <ThemedView style={styles.container}>
-        <View style={[styles.permissionContainer, { paddingTop: headerHeight }]}>
-          <View style={[styles.permissionCard, { backgroundColor: theme.backgroundDefault }]}>
+        <View
+          style={[styles.permissionContainer, { paddingTop: headerHeight }]}
+        >
+          <View
+            style={[
+              styles.permissionCard,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
+          >
             <Feather name="map" size={48} color={Colors.primary} />
             <Spacer size="lg" />
             <ThemedText type="h3" style={styles.permissionTitle}>
               Map View
             </ThemedText>
             <ThemedText type="body" secondary style={styles.permissionText}>
-              The interactive map is available in Expo Go on your mobile device. Scan the QR code to experience the full map features.
+              The interactive map is available in Expo Go on your mobile device.
+              Scan the QR code to experience the full map features.
             </ThemedText>
             <Spacer size="lg" />
             <View style={styles.vendorListWeb}>
@@ -249,13 +405,22 @@ export default function MapScreen() {
                 <Card
                   key={vendor.id}
                   style={styles.vendorCardWeb}
-                  onPress={() => navigation.navigate("VendorDetail", { vendorId: vendor.id })}
+                  onPress={() =>
+                    navigation.navigate("VendorDetail", { vendorId: vendor.id })
+                  }
                 >
                   <View style={styles.vendorCardContent}>
-                    <Image source={{ uri: vendor.image }} style={styles.vendorImage} />
+                    <Image
+                      source={{ uri: vendor.image }}
+                      style={styles.vendorImage}
+                    />
                     <View style={styles.vendorInfo}>
-                      <ThemedText type="h4" numberOfLines={1}>{vendor.name}</ThemedText>
-                      <ThemedText type="small" secondary>{vendor.cuisine}</ThemedText>
+                      <ThemedText type="h4" numberOfLines={1}>
+                        {vendor.name}
+                      </ThemedText>
+                      <ThemedText type="small" secondary>
+                        {vendor.cuisine}
+                      </ThemedText>
                     </View>
                   </View>
                 </Card>
@@ -274,6 +439,7 @@ export default function MapScreen() {
         style={styles.map}
         provider={Platform.OS === "android" ? PROVIDER_GOOGLE : undefined}
         initialRegion={initialRegion}
+        onRegionChangeComplete={handleRegionChangeComplete}
         showsUserLocation
         showsMyLocationButton={false}
         onPress={() => {
@@ -285,14 +451,23 @@ export default function MapScreen() {
         {vendors.map((vendor) => (
           <Marker
             key={vendor.id}
-            coordinate={{ latitude: vendor.latitude, longitude: vendor.longitude }}
+            coordinate={{
+              latitude: vendor.latitude,
+              longitude: vendor.longitude,
+            }}
             onPress={() => handleMarkerPress(vendor)}
           >
-            <View style={[
-              styles.markerContainer,
-              { backgroundColor: vendor.isOpen ? Colors.primary : theme.backgroundSecondary },
-              selectedVendor?.id === vendor.id && styles.markerSelected,
-            ]}>
+            <View
+              style={[
+                styles.markerContainer,
+                {
+                  backgroundColor: vendor.isOpen
+                    ? Colors.primary
+                    : theme.backgroundSecondary,
+                },
+                selectedVendor?.id === vendor.id && styles.markerSelected,
+              ]}
+            >
               <Feather
                 name="map-pin"
                 size={16}
@@ -303,53 +478,98 @@ export default function MapScreen() {
         ))}
 
         {/* Free tier vendor listings (neutral gray pins) */}
-        {publicVendors.map((vendor) => (
+        {publicVendors
+          .filter((vendor) => !liveTruckIds.has(vendor.id))
+          .map((vendor) => (
+            <Marker
+              key={`free-${vendor.id}`}
+              coordinate={{
+                latitude: vendor.locationLat,
+                longitude: vendor.locationLng,
+              }}
+              onPress={() => handleFreeVendorMarkerPress(vendor)}
+            >
+              <View
+                style={[
+                  styles.freeVendorMarker,
+                  {
+                    backgroundColor: theme.backgroundSecondary,
+                    borderColor: theme.border,
+                  },
+                  selectedFreeVendor?.id === vendor.id && styles.markerSelected,
+                ]}
+              >
+                <Feather name="map-pin" size={16} color={theme.textSecondary} />
+              </View>
+            </Marker>
+          ))}
+
+        {/* Trucks live right now (green pins that follow the truck) */}
+        {liveTrucks.map((truck) => (
           <Marker
-            key={`free-${vendor.id}`}
-            coordinate={{ latitude: vendor.locationLat, longitude: vendor.locationLng }}
-            onPress={() => handleFreeVendorMarkerPress(vendor)}
+            key={`live-${truck.vendorId}`}
+            coordinate={{
+              latitude: truck.latitude,
+              longitude: truck.longitude,
+            }}
+            onPress={() => handleLiveTruckPress(truck)}
           >
-            <View style={[
-              styles.freeVendorMarker,
-              { backgroundColor: theme.backgroundSecondary, borderColor: theme.border },
-              selectedFreeVendor?.id === vendor.id && styles.markerSelected,
-            ]}>
-              <Feather
-                name="map-pin"
-                size={16}
-                color={theme.textSecondary}
-              />
+            <View
+              style={[
+                styles.liveTruckMarker,
+                selectedFreeVendor?.id === truck.vendorId &&
+                  styles.markerSelected,
+              ]}
+            >
+              <Feather name="truck" size={16} color="#fff" />
             </View>
           </Marker>
         ))}
       </MapView>
 
       <View style={[styles.radiusSelector, { top: headerHeight + Spacing.lg }]}>
-        {RADIUS_OPTIONS.map((radius, index) => (
+        {radiusOptions.map((option) => (
           <Pressable
-            key={radius}
+            key={option}
             style={[
               styles.radiusButton,
               { backgroundColor: theme.backgroundDefault },
-              radiusIndex === index && { backgroundColor: Colors.primary },
+              radius === option && { backgroundColor: Colors.primary },
             ]}
             onPress={() => {
               Haptics.selectionAsync();
-              setRadiusIndex(index);
+              setRadius(option);
+              if (userLocation) {
+                mapRef.current?.animateToRegion(
+                  regionForRadius(
+                    userLocation.latitude,
+                    userLocation.longitude,
+                    option,
+                  ),
+                );
+              }
             }}
           >
             <ThemedText
               type="small"
-              style={{ color: radiusIndex === index ? "#fff" : theme.text }}
+              style={{ color: radius === option ? "#fff" : theme.text }}
             >
-              {radius} mi
+              {option} mi
             </ThemedText>
           </Pressable>
         ))}
       </View>
 
       <Pressable
-        style={[styles.locationButton, { backgroundColor: theme.backgroundDefault, bottom: tabBarHeight + ((selectedVendor || selectedFreeVendor) ? 180 : Spacing.xl) }]}
+        style={[
+          styles.locationButton,
+          {
+            backgroundColor: theme.backgroundDefault,
+            bottom:
+              tabBarHeight +
+              (selectedVendor || selectedFreeVendor ? 180 : Spacing.xl),
+          },
+        ]}
         onPress={() => {
           Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
           if (userLocation) {
@@ -367,16 +587,32 @@ export default function MapScreen() {
 
       {/* Selected vendor with deals (full info) */}
       {selectedVendor ? (
-        <View style={[styles.vendorSheet, { paddingBottom: tabBarHeight + Spacing.lg }]}>
+        <View
+          style={[
+            styles.vendorSheet,
+            { paddingBottom: tabBarHeight + Spacing.lg },
+          ]}
+        >
           <Card
             style={styles.vendorCard}
-            onPress={() => navigation.navigate("VendorDetail", { vendorId: selectedVendor.id })}
+            onPress={() =>
+              navigation.navigate("VendorDetail", {
+                vendorId: selectedVendor.id,
+              })
+            }
           >
             <View style={styles.vendorCardContent}>
-              <Image source={{ uri: selectedVendor.image }} style={styles.vendorImage} />
+              <Image
+                source={{ uri: selectedVendor.image }}
+                style={styles.vendorImage}
+              />
               <View style={styles.vendorInfo}>
                 <View style={styles.vendorHeader}>
-                  <ThemedText type="h4" numberOfLines={1} style={styles.vendorName}>
+                  <ThemedText
+                    type="h4"
+                    numberOfLines={1}
+                    style={styles.vendorName}
+                  >
                     {selectedVendor.name}
                   </ThemedText>
                   {isFavorite(selectedVendor.id) ? (
@@ -388,22 +624,47 @@ export default function MapScreen() {
                   <ThemedText type="small" style={styles.ratingText}>
                     {selectedVendor.rating} ({selectedVendor.reviewCount})
                   </ThemedText>
-                  <ThemedText type="small" secondary> • {selectedVendor.cuisine}</ThemedText>
+                  <ThemedText type="small" secondary>
+                    {" "}
+                    • {selectedVendor.cuisine}
+                  </ThemedText>
                 </View>
                 <View style={styles.dealsRow}>
-                  <View style={[styles.dealsBadge, { backgroundColor: Colors.success + "20" }]}>
-                    <ThemedText type="caption" style={{ color: Colors.success }}>
-                      {getVendorDeals(selectedVendor.id).length} active deal{getVendorDeals(selectedVendor.id).length !== 1 ? "s" : ""}
+                  <View
+                    style={[
+                      styles.dealsBadge,
+                      { backgroundColor: Colors.success + "20" },
+                    ]}
+                  >
+                    <ThemedText
+                      type="caption"
+                      style={{ color: Colors.success }}
+                    >
+                      {getVendorDeals(selectedVendor.id).length} active deal
+                      {getVendorDeals(selectedVendor.id).length !== 1
+                        ? "s"
+                        : ""}
                     </ThemedText>
                   </View>
                   {selectedVendor.isOpen ? (
-                    <ThemedText type="caption" style={{ color: Colors.success }}>Open Now</ThemedText>
+                    <ThemedText
+                      type="caption"
+                      style={{ color: Colors.success }}
+                    >
+                      Open Now
+                    </ThemedText>
                   ) : (
-                    <ThemedText type="caption" style={{ color: Colors.error }}>Closed</ThemedText>
+                    <ThemedText type="caption" style={{ color: Colors.error }}>
+                      Closed
+                    </ThemedText>
                   )}
                 </View>
               </View>
-              <Feather name="chevron-right" size={24} color={theme.textSecondary} />
+              <Feather
+                name="chevron-right"
+                size={24}
+                color={theme.textSecondary}
+              />
             </View>
           </Card>
         </View>
@@ -411,10 +672,20 @@ export default function MapScreen() {
 
       {/* Selected free vendor (simplified info) */}
       {selectedFreeVendor ? (
-        <View style={[styles.vendorSheet, { paddingBottom: tabBarHeight + Spacing.lg }]}>
+        <View
+          style={[
+            styles.vendorSheet,
+            { paddingBottom: tabBarHeight + Spacing.lg },
+          ]}
+        >
           <Card style={styles.vendorCard}>
             <View style={styles.freeVendorCardContent}>
-              <View style={[styles.freeVendorIcon, { backgroundColor: theme.backgroundTertiary }]}>
+              <View
+                style={[
+                  styles.freeVendorIcon,
+                  { backgroundColor: theme.backgroundTertiary },
+                ]}
+              >
                 <Feather name="map-pin" size={24} color={theme.textSecondary} />
               </View>
               <View style={styles.vendorInfo}>
@@ -422,31 +693,108 @@ export default function MapScreen() {
                   {selectedFreeVendor.businessName}
                 </ThemedText>
                 <View style={styles.vendorMeta}>
-                  <View style={[styles.categoryBadge, { backgroundColor: theme.backgroundTertiary }]}>
+                  <View
+                    style={[
+                      styles.categoryBadge,
+                      { backgroundColor: theme.backgroundTertiary },
+                    ]}
+                  >
                     <ThemedText type="caption" secondary>
-                      {CATEGORY_LABELS[selectedFreeVendor.category] || selectedFreeVendor.category}
+                      {CATEGORY_LABELS[selectedFreeVendor.category] ||
+                        selectedFreeVendor.category}
                     </ThemedText>
                   </View>
-                  <ThemedText type="caption" secondary style={{ marginLeft: Spacing.sm }}>
-                    Updated {formatLastUpdate(selectedFreeVendor.lastLocationUpdate)}
-                  </ThemedText>
+                  {selectedFreeVendor.featured ? (
+                    <View
+                      style={[
+                        styles.categoryBadge,
+                        {
+                          backgroundColor: Colors.warning + "20",
+                          marginLeft: Spacing.sm,
+                        },
+                      ]}
+                    >
+                      <ThemedText
+                        type="caption"
+                        style={{ color: Colors.warning, fontWeight: "600" }}
+                      >
+                        Featured
+                      </ThemedText>
+                    </View>
+                  ) : null}
+                  {selectedLiveTruck ? (
+                    <ThemedText
+                      type="caption"
+                      style={{ marginLeft: Spacing.sm, color: Colors.success }}
+                    >
+                      Live now
+                    </ThemedText>
+                  ) : (
+                    <ThemedText
+                      type="caption"
+                      secondary
+                      style={{ marginLeft: Spacing.sm }}
+                    >
+                      Updated{" "}
+                      {formatLastUpdate(selectedFreeVendor.lastLocationUpdate)}
+                    </ThemedText>
+                  )}
                 </View>
+                {selectedLiveTruck?.address ? (
+                  <ThemedText
+                    type="caption"
+                    secondary
+                    numberOfLines={1}
+                    style={{ marginTop: Spacing.xs }}
+                  >
+                    {selectedLiveTruck.address}
+                  </ThemedText>
+                ) : null}
+                {selectedFreeVendor.statusLabel ? (
+                  <ThemedText
+                    type="caption"
+                    style={{
+                      marginTop: Spacing.xs,
+                      color: selectedFreeVendor.isOpen
+                        ? Colors.success
+                        : Colors.error,
+                    }}
+                  >
+                    {selectedFreeVendor.statusLabel}
+                  </ThemedText>
+                ) : null}
                 {selectedFreeVendor.description ? (
-                  <ThemedText type="small" secondary numberOfLines={2} style={{ marginTop: Spacing.xs }}>
+                  <ThemedText
+                    type="small"
+                    secondary
+                    numberOfLines={2}
+                    style={{ marginTop: Spacing.xs }}
+                  >
                     {selectedFreeVendor.description}
                   </ThemedText>
                 ) : null}
                 <Spacer size="sm" />
                 <Pressable
-                  style={[styles.directionsButton, { backgroundColor: Colors.primary }]}
-                  onPress={() => openDirections(
-                    selectedFreeVendor.locationLat,
-                    selectedFreeVendor.locationLng,
-                    selectedFreeVendor.businessName
-                  )}
+                  style={[
+                    styles.directionsButton,
+                    { backgroundColor: Colors.primary },
+                  ]}
+                  onPress={() =>
+                    openDirections(
+                      selectedFreeVendor.id,
+                      selectedLiveTruck?.latitude ??
+                        selectedFreeVendor.locationLat,
+                      selectedLiveTruck?.longitude ??
+                        selectedFreeVendor.locationLng,
+                      selectedFreeVendor.businessName,
+                    )
+                  }
                 >
                   <Feather name="navigation" size={14} color="#fff" />
-                  <ThemedText type="small" style={{ color: "#fff", marginLeft: 6 }}>
+                  <ThemedText
+                    type="small"
+                    style={{ color: "#fff", marginLeft: 6 }}
+                  >
                     Get Directions
                   </ThemedText>
                 </Pressable>
@@ -501,6 +849,17 @@ const styles = StyleSheet.create({
     borderWidth: 2,
     ...Shadows.card,
   },
+  liveTruckMarker: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: Colors.success,
+    borderWidth: 2,
+    borderColor: "#fff",
+    ...Shadows.card,
+  },
   markerSelected: {
     transform: [{ scale: 1.2 }],
   },
@@ -0,0 +1,287 @@
+import React, { useCallback } from "react";
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  Pressable,
+  RefreshControl,
+} from "react-native";
+import { useHeaderHeight } from "@react-navigation/elements";
+import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
+import { useNavigation, useFocusEffect } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import * as Haptics from "expo-haptics";
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { Card } from "@/components/Card";
+import { Spacer } from "@/components/Spacer";
+import { useTheme } from "@/hooks/useTheme";
+import {
+  useInbox,
+  InboxNotification,
+  NotificationCategory,
+} from "@/lib/inbox-context";
+import { Colors, Spacing, BorderRadius } from "@/constants/theme";
+import { Feather } from "@expo/vector-icons";
+import { CustomerStackParamList } from "@/navigation/CustomerTabNavigator";
+
+type NavigationProp = NativeStackNavigationProp<CustomerStackParamList>;
+
+const CATEGORY_ICONS: Record<
+  NotificationCategory,
+  keyof typeof Feather.glyphMap
+> = {
+  flash_deal: "zap",
+  deal_alert: "tag",
+  price_drop: "trending-down",
+  new_store: "map-pin",
+  weekly_digest: "calendar",
+  zone_alert: "map",
+  rewards: "award",
+};
+
+function formatReceivedAt(dateString: string) {
+  const diffMins = Math.floor(
+    (Date.now() - new Date(dateString).getTime()) / 60000,
+  );
+  const diffHours = Math.floor(diffMins / 60);
+  const diffDays = Math.floor(diffHours / 24);
+
+  if (diffMins < 1) return "Just now";
+  if (diffMins < 60) return `${diffMins}m ago`;
+  if (diffHours < 24) return `${diffHours}h ago`;
+  return `${diffDays}d ago`;
+}
+
+export default function NotificationsScreen() {
+  const { theme } = useTheme();
+  const headerHeight = useHeaderHeight();
+  const tabBarHeight = useBottomTabBarHeight();
+  const navigation = useNavigation<NavigationProp>();
+  const {
+    notifications,
+    unreadCount,
+    isLoading,
+    refreshInbox,
+    markRead,
+    markAllRead,
+  } = useInbox();
+
+  useFocusEffect(
+    useCallback(() => {
+      refreshInbox();
+    }, [refreshInbox]),
+  );
+
+  // Follow the notification's deep link: the deal if there is one, then the vendor
+  const openNotification = (item: InboxNotification) => {
+    Haptics.selectionAsync();
+    markRead(item.id);
+
+    const data = item.data ?? {};
+    if (typeof data.dealId === "string") {
+      navigation.navigate("DealDetail", { dealId: data.dealId });
+    } else if (typeof data.vendorId === "string") {
+      navigation.navigate("VendorDetail", { vendorId: data.vendorId });
+    } else if (data.type === "challenge") {
+      navigation.getParent()?.navigate("RewardsTab");
+    }
+  };
+
+  const renderNotification = ({ item }: { item: InboxNotification }) => {
+    const unread = !item.readAt;
+
+    return (
+      <Card
+        style={styles.notificationCard}
+        onPress={() => openNotification(item)}
+      >
+        <View style={styles.cardContent}>
+          <View
+            style={[
+              styles.iconCircle,
+              { backgroundColor: Colors.primary + "15" },
+            ]}
+          >
+            <Feather
+              name={CATEGORY_ICONS[item.category] ?? "bell"}
+              size={20}
+              color={Colors.primary}
+            />
+          </View>
+          <View style={styles.notificationInfo}>
+            <View style={styles.titleRow}>
+              <ThemedText
+                type="body"
+                numberOfLines={1}
+                style={[styles.title, unread ? styles.unreadTitle : null]}
+              >
+                {item.title}
+              </ThemedText>
+              {unread ? <View style={styles.unreadDot} /> : null}
+            </View>
+            <ThemedText type="small" secondary numberOfLines={2}>
+              {item.body}
+            </ThemedText>
+            <View style={styles.metaRow}>
+              <ThemedText type="caption" secondary>
+                {formatReceivedAt(item.createdAt)}
+              </ThemedText>
+              {!item.pushed ? (
+                <View style={styles.silentRow}>
+                  <Feather name="moon" size={12} color={theme.textSecondary} />
+                  <ThemedText type="caption" secondary>
+                    Delivered silently
+                  </ThemedText>
+                </View>
+              ) : null}
+            </View>
+          </View>
+        </View>
+      </Card>
+    );
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <FlatList
+        data={notifications}
+        renderItem={renderNotification}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={[
+          styles.listContent,
+          {
+            paddingTop: headerHeight + Spacing.lg,
+            paddingBottom: tabBarHeight + Spacing.xl,
+          },
+        ]}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={isLoading}
+            onRefresh={refreshInbox}
+            tintColor={Colors.primary}
+          />
+        }
+        ItemSeparatorComponent={() => <Spacer size="md" />}
+        ListHeaderComponent={
+          unreadCount > 0 ? (
+            <View style={styles.header}>
+              <ThemedText type="small" secondary>
+                {unreadCount} unread
+              </ThemedText>
+              <Pressable
+                onPress={() => {
+                  Haptics.selectionAsync();
+                  markAllRead();
+                }}
+                hitSlop={8}
+              >
+                <ThemedText type="small" style={{ color: Colors.primary }}>
+                  Mark all read
+                </ThemedText>
+              </Pressable>
+            </View>
+          ) : null
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <View
+              style={[
+                styles.emptyIcon,
+                { backgroundColor: Colors.primary + "15" },
+              ]}
+            >
+              <Feather name="inbox" size={40} color={Colors.primary} />
+            </View>
+            <Spacer size="lg" />
+            <ThemedText type="h4">No notifications yet</ThemedText>
+            <ThemedText type="body" secondary style={styles.emptyText}>
+              Flash deals and zone alerts from trucks you follow and rewards you
+              earn will show up here
+            </ThemedText>
+          </View>
+        }
+      />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  listContent: {
+    paddingHorizontal: Spacing.lg,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: Spacing.md,
+  },
+  notificationCard: {
+    padding: Spacing.md,
+  },
+  cardContent: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+  },
+  iconCircle: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  notificationInfo: {
+    flex: 1,
+    marginLeft: Spacing.md,
+  },
+  titleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: Spacing.xs,
+  },
+  title: {
+    flex: 1,
+  },
+  unreadTitle: {
+    fontWeight: "700",
+  },
+  unreadDot: {
+    width: 8,
+    height: 8,
+    borderRadius: BorderRadius.full,
+    backgroundColor: Colors.primary,
+    marginLeft: Spacing.sm,
+  },
+  metaRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    marginTop: Spacing.xs,
+  },
+  silentRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
+  emptyContainer: {
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: Spacing["5xl"],
+    paddingHorizontal: Spacing.xl,
+  },
+  emptyIcon: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  emptyText: {
+    textAlign: "center",
+    marginTop: Spacing.sm,
+  },
+});
@@ -1,5 +1,12 @@
-import React, { useState, useEffect } from 'react';
-import { View, StyleSheet, ScrollView, Pressable, Platform } from 'react-native';
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  Alert,
+  Modal,
+} from "react-native";
 import Animated, {
   useSharedValue,
   useAnimatedStyle,
@@ -8,23 +15,150 @@ import Animated, {
   withDelay,
   interpolate,
   Easing,
-} from 'react-native-reanimated';
-import * as Haptics from 'expo-haptics';
-import { useHeaderHeight } from '@react-navigation/elements';
-import { useBottomTabBarHeight } from '@react-navigation/bottom-tabs';
-import { LinearGradient } from 'expo-linear-gradient';
-import { Feather } from '@expo/vector-icons';
-import { ThemedText } from '@/components/ThemedText';
-import { ThemedView } from '@/components/ThemedView';
-import { Card } from '@/components/Card';
-import { Spacer } from '@/components/Spacer';
-import { BadgeDisplay, BadgeProgress, BadgeUnlockModal } from '@/components/BadgeDisplay';
-import { Leaderboard } from '@/components/Leaderboard';
-import { useGamification } from '@/lib/gamification-context';
-import { useTheme } from '@/hooks/useTheme';
-import { Colors, Spacing, BorderRadius } from '@/constants/theme';
-
-const AnimatedPressable = Animated.createAnimatedComponent(Pressable);
+} from "react-native-reanimated";
+import { useFocusEffect } from "@react-navigation/native";
+import { useHeaderHeight } from "@react-navigation/elements";
+import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
+import { LinearGradient } from "expo-linear-gradient";
+import { Feather } from "@expo/vector-icons";
+import QRCode from "react-native-qrcode-svg";
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { Card } from "@/components/Card";
+import { Spacer } from "@/components/Spacer";
+import {
+  BadgeDisplay,
+  BadgeProgress,
+  BadgeUnlockModal,
+} from "@/components/BadgeDisplay";
+import { Leaderboard, type LeaderboardEntry } from "@/components/Leaderboard";
+import {
+  useGamification,
+  type Challenge,
+  type LeaderboardMetric,
+  type LeaderboardResult,
+  type LeaderboardWindow,
+  type RewardCatalogItem,
+  type RewardVoucherPass,
+} from "@/lib/gamification-context";
+import { MAJOR_CITIES } from "@/lib/data-context";
+import { useLocation } from "@/lib/location-context";
+import { usePreferences } from "@/lib/preferences-context";
+import { useTheme } from "@/hooks/useTheme";
+import { Colors, Spacing, BorderRadius } from "@/constants/theme";
+
+// Nearest listed city within about 50 miles of the customer counts as their city
+const MAX_CITY_DISTANCE_DEGREES = 0.75;
+
+const WINDOW_OPTIONS: {
+  key: LeaderboardWindow;
+  label: string;
+  subtitle: string;
+}[] = [
+  { key: "week", label: "Week", subtitle: "Last 7 days" },
+  { key: "month", label: "Month", subtitle: "Last 30 days" },
+  { key: "all", label: "All Time", subtitle: "All time" },
+];
+
+interface Region {
+  city: string;
+  state?: string;
+}
+
+// The customer's city from where they are now, falling back to their default city
+function resolveRegion(
+  latitude: number | undefined,
+  longitude: number | undefined,
+  defaultCity: string,
+): Region | null {
+  if (latitude !== undefined && longitude !== undefined) {
+    let nearest = MAJOR_CITIES[0];
+    let minDistance = Infinity;
+    for (const cityData of MAJOR_CITIES) {
+      const distance = Math.hypot(
+        cityData.latitude - latitude,
+        cityData.longitude - longitude,
+      );
+      if (distance < minDistance) {
+        minDistance = distance;
+        nearest = cityData;
+      }
+    }
+    if (nearest && minDistance <= MAX_CITY_DISTANCE_DEGREES) {
+      return { city: nearest.city, state: nearest.state };
+    }
+  }
+
+  // Free text such as "Austin" or "Austin, TX"
+  const [city, state] = defaultCity.split(",").map((part) => part.trim());
+  return city ? { city, state: state || undefined } : null;
+}
+
+const REWARD_KIND_ICONS: Record<
+  RewardCatalogItem["kind"],
+  keyof typeof Feather.glyphMap
+> = {
+  discount: "tag",
+  add_on: "plus-circle",
+  raffle: "gift",
+};
+
+function voucherStatusLabel(voucher: RewardVoucherPass): string {
+  switch (voucher.status) {
+    case "active":
+      return `Valid until ${new Date(voucher.expiresAt).toLocaleDateString()}`;
+    case "used":
+      return `Used ${voucher.usedAt ? new Date(voucher.usedAt).toLocaleDateString() : ""}`.trim();
+    case "entered":
+      return voucher.drawAt
+        ? `Draw on ${new Date(voucher.drawAt).toLocaleDateString()}`
+        : "Entered";
+    case "lost":
+      return "Not drawn this time";
+  }
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// "Starts in 2d", "5h left", "3d left"
+function challengeTimeLabel(challenge: Challenge): string {
+  const upcoming = challenge.status === "upcoming";
+  const ms =
+    new Date(upcoming ? challenge.startsAt : challenge.endsAt).getTime() -
+    Date.now();
+  const hours = Math.max(1, Math.ceil(ms / HOUR_MS));
+  const span = hours < 48 ? `${hours}h` : `${Math.floor(hours / 24)}d`;
+  return upcoming ? `Starts in ${span}` : `${span} left`;
+}
+
+function challengeRewardLabel(challenge: Challenge): string {
+  return [
+    challenge.rewardPoints > 0 ? `+${challenge.rewardPoints} XP` : null,
+    challenge.badgeName
+      ? `${challenge.badgeIcon ?? "🏅"} ${challenge.badgeName}`
+      : null,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+function toLeaderboardEntries(
+  result: LeaderboardResult | null,
+): LeaderboardEntry[] {
+  if (!result) return [];
+  const rankings = [...result.entries];
+  if (result.me && !rankings.some((r) => r.isCurrentUser))
+    rankings.push(result.me);
+  return rankings.map((r, index) => ({
+    id: r.userId ?? `anonymous-${index}`,
+    rank: r.rank,
+    name: r.isCurrentUser ? "You" : r.name,
+    avatar: r.avatarUrl ?? undefined,
+    points: r.value,
+    level: r.level,
+    isCurrentUser: r.isCurrentUser,
+  }));
+}
 
 export default function RewardsScreen() {
   const { theme } = useTheme();
@@ -33,13 +167,116 @@ export default function RewardsScreen() {
   const {
     stats,
     badges,
+    achievements,
     unlockedBadges,
     recentUnlocks,
     getProgressToNextLevel,
     getLevelTitle,
-    checkIn,
+    refreshRewards,
     clearRecentUnlocks,
+    fetchLeaderboard,
+    catalog,
+    vouchers,
+    refreshCatalog,
+    redeemReward,
+    challenges,
+    refreshChallenges,
   } = useGamification();
+  const { userLocation } = useLocation();
+  const { location: locationPrefs } = usePreferences();
+
+  const [leaderboardMetric, setLeaderboardMetric] =
+    useState<LeaderboardMetric>("points");
+  const [leaderboardWindow, setLeaderboardWindow] =
+    useState<LeaderboardWindow>("week");
+  const [localOnly, setLocalOnly] = useState(true);
+  const [leaderboard, setLeaderboard] = useState<LeaderboardResult | null>(
+    null,
+  );
+
+  const region = resolveRegion(
+    userLocation?.coords.latitude,
+    userLocation?.coords.longitude,
+    locationPrefs.defaultCity,
+  );
+  const regionCity = localOnly ? region?.city : undefined;
+  const regionState = localOnly ? region?.state : undefined;
+
+  const loadLeaderboard = useCallback(async () => {
+    const result = await fetchLeaderboard({
+      metric: leaderboardMetric,
+      window: leaderboardWindow,
+      city: regionCity,
+      state: regionState,
+    });
+    setLeaderboard(result);
+  }, [
+    fetchLeaderboard,
+    leaderboardMetric,
+    leaderboardWindow,
+    regionCity,
+    regionState,
+  ]);
+
+  // Redemptions are verified on the vendor's device, so pick up new points on focus
+  useFocusEffect(
+    useCallback(() => {
+      refreshRewards();
+      refreshCatalog();
+      refreshChallenges();
+      loadLeaderboard();
+    }, [refreshRewards, refreshCatalog, refreshChallenges, loadLeaderboard]),
+  );
+
+  const [openVoucher, setOpenVoucher] = useState<RewardVoucherPass | null>(
+    null,
+  );
+  const [redeemingId, setRedeemingId] = useState<string | null>(null);
+
+  const handleRedeemReward = (item: RewardCatalogItem) => {
+    Alert.alert(
+      item.kind === "raffle" ? "Enter Raffle" : "Redeem Reward",
+      `Spend ${item.pointsCost.toLocaleString()} points on "${item.title}"?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Redeem",
+          onPress: async () => {
+            setRedeemingId(item.id);
+            try {
+              const voucher = await redeemReward(item.id);
+              if (voucher.status === "active") {
+                setOpenVoucher(voucher);
+              } else {
+                Alert.alert(
+                  "You're In!",
+                  "We'll let you know if you win the draw.",
+                );
+              }
+            } catch (error: any) {
+              Alert.alert("Error", error.message || "Failed to redeem reward");
+            } finally {
+              setRedeemingId(null);
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  // Usable vouchers and pending raffle entries first
+  const myVouchers = vouchers
+    .filter((v) => v.status === "active" || v.status === "entered")
+    .concat(
+      vouchers
+        .filter((v) => v.status === "used" || v.status === "lost")
+        .slice(0, 3),
+    );
+
+  // The locked badge the customer is closest to
+  const nextBadge = badges
+    .filter((b) => !b.unlockedAt)
+    .sort((a, b) => b.progress / b.requirement - a.progress / a.requirement)[0];
 
   const [showUnlockModal, setShowUnlockModal] = useState(false);
   const [selectedBadge, setSelectedBadge] = useState<any>(null);
@@ -51,7 +288,10 @@ export default function RewardsScreen() {
   useEffect(() => {
     levelProgress.value = withDelay(
       300,
-      withTiming(getProgressToNextLevel() / 100, { duration: 1000, easing: Easing.out(Easing.cubic) })
+      withTiming(getProgressToNextLevel() / 100, {
+        duration: 1000,
+        easing: Easing.out(Easing.cubic),
+      }),
     );
     cardScale.value = withSpring(1, { damping: 12 });
   }, [stats.currentXP]);
@@ -70,13 +310,6 @@ export default function RewardsScreen() {
     clearRecentUnlocks();
   };
 
-  const handleCheckIn = () => {
-    if (Platform.OS !== 'web') {
-      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-    }
-    checkIn();
-  };
-
   const progressStyle = useAnimatedStyle(() => ({
     width: `${levelProgress.value * 100}%`,
   }));
@@ -85,16 +318,13 @@ export default function RewardsScreen() {
     transform: [{ scale: cardScale.value }],
   }));
 
-  // Mock leaderboard data
-  const leaderboardData = [
-    { id: '1', rank: 1, name: 'DealHunter99', points: 15420, level: 12, badge: '👑' },
-    { id: '2', rank: 2, name: 'SavingsQueen', points: 14850, level: 11, badge: '💎' },
-    { id: '3', rank: 3, name: 'BargainKing', points: 13200, level: 10, badge: '🔥' },
-    { id: '4', rank: 4, name: 'You', points: stats.totalPoints, level: stats.level, isCurrentUser: true },
-    { id: '5', rank: 5, name: 'SmartShopper', points: 10500, level: 9 },
-    { id: '6', rank: 6, name: 'CouponClipper', points: 9800, level: 8 },
-    { id: '7', rank: 7, name: 'DealSeeker', points: 8500, level: 7 },
-  ];
+  const leaderboardData = toLeaderboardEntries(leaderboard);
+  const leaderboardSubtitle = [
+    WINDOW_OPTIONS.find((w) => w.key === leaderboardWindow)?.subtitle,
+    regionCity
+      ? [regionCity, regionState].filter(Boolean).join(", ")
+      : "Everywhere",
+  ].join(" · ");
 
   return (
     <ThemedView style={styles.container}>
@@ -102,7 +332,10 @@ export default function RewardsScreen() {
         showsVerticalScrollIndicator={false}
         contentContainerStyle={[
           styles.scrollContent,
-          { paddingTop: headerHeight + Spacing.lg, paddingBottom: tabBarHeight + Spacing.xl },
+          {
+            paddingTop: headerHeight + Spacing.lg,
+            paddingBottom: tabBarHeight + Spacing.xl,
+          },
         ]}
       >
         {/* Level & XP Card */}
@@ -116,8 +349,12 @@ export default function RewardsScreen() {
             >
               <View style={styles.levelHeader}>
                 <View>
-                  <ThemedText style={styles.levelLabel}>LEVEL {stats.level}</ThemedText>
-                  <ThemedText style={styles.levelTitle}>{getLevelTitle()}</ThemedText>
+                  <ThemedText style={styles.levelLabel}>
+                    LEVEL {stats.level}
+                  </ThemedText>
+                  <ThemedText style={styles.levelTitle}>
+                    {getLevelTitle()}
+                  </ThemedText>
                 </View>
                 <View style={styles.pointsBadge}>
                   <Feather name="star" size={16} color={Colors.accent} />
@@ -143,7 +380,8 @@ export default function RewardsScreen() {
                   <Animated.View style={[styles.xpFill, progressStyle]} />
                 </View>
                 <ThemedText style={styles.xpRemaining}>
-                  {(stats.xpToNextLevel - stats.currentXP).toLocaleString()} XP to Level {stats.level + 1}
+                  {(stats.xpToNextLevel - stats.currentXP).toLocaleString()} XP
+                  to Level {stats.level + 1}
                 </ThemedText>
               </View>
 
@@ -152,17 +390,23 @@ export default function RewardsScreen() {
               {/* Stats Row */}
               <View style={styles.statsRow}>
                 <View style={styles.statItem}>
-                  <ThemedText style={styles.statValue}>{stats.currentStreak}</ThemedText>
+                  <ThemedText style={styles.statValue}>
+                    {stats.currentStreak}
+                  </ThemedText>
                   <ThemedText style={styles.statLabel}>Day Streak</ThemedText>
                 </View>
                 <View style={styles.statDivider} />
                 <View style={styles.statItem}>
-                  <ThemedText style={styles.statValue}>{stats.dealsRedeemed}</ThemedText>
+                  <ThemedText style={styles.statValue}>
+                    {stats.dealsRedeemed}
+                  </ThemedText>
                   <ThemedText style={styles.statLabel}>Deals</ThemedText>
                 </View>
                 <View style={styles.statDivider} />
                 <View style={styles.statItem}>
-                  <ThemedText style={styles.statValue}>${stats.totalSavings.toFixed(0)}</ThemedText>
+                  <ThemedText style={styles.statValue}>
+                    ${stats.totalSavings.toFixed(0)}
+                  </ThemedText>
                   <ThemedText style={styles.statLabel}>Saved</ThemedText>
                 </View>
               </View>
@@ -173,30 +417,207 @@ export default function RewardsScreen() {
         <Spacer size="xl" />
 
         {/* Daily Check-in */}
-        <AnimatedPressable onPress={handleCheckIn}>
-          <Card style={styles.checkInCard}>
-            <LinearGradient
-              colors={[Colors.accent + '20', Colors.accent + '05']}
-              style={styles.checkInGradient}
-            >
-              <View style={styles.checkInIcon}>
-                <Feather name="gift" size={24} color={Colors.accent} />
-              </View>
-              <View style={styles.checkInContent}>
-                <ThemedText type="body" style={{ fontWeight: '700' }}>
-                  Daily Check-in Bonus
-                </ThemedText>
-                <ThemedText type="small" secondary>
-                  Tap to claim +25 XP
-                </ThemedText>
+        <Card style={styles.checkInCard}>
+          <LinearGradient
+            colors={[Colors.accent + "20", Colors.accent + "05"]}
+            style={styles.checkInGradient}
+          >
+            <View style={styles.checkInIcon}>
+              <Feather name="gift" size={24} color={Colors.accent} />
+            </View>
+            <View style={styles.checkInContent}>
+              <ThemedText type="body" style={{ fontWeight: "700" }}>
+                Daily Check-in Bonus
+              </ThemedText>
+              <ThemedText type="small" secondary>
+                Check in at a truck for +25 XP
+              </ThemedText>
+            </View>
+            <View style={styles.streakBadge}>
+              <Feather name="zap" size={14} color={Colors.accent} />
+              <ThemedText style={styles.streakText}>
+                {stats.currentStreak}
+              </ThemedText>
+            </View>
+          </LinearGradient>
+        </Card>
+
+        <Spacer size="xl" />
+
+        {/* Challenges */}
+        {challenges.length > 0 ? (
+          <>
+            <Card>
+              <View style={styles.sectionHeader}>
+                <ThemedText type="h4">Challenges</ThemedText>
               </View>
-              <View style={styles.streakBadge}>
-                <Feather name="zap" size={14} color={Colors.accent} />
-                <ThemedText style={styles.streakText}>{stats.currentStreak}</ThemedText>
+              <Spacer size="md" />
+
+              {challenges.map((challenge) => (
+                <View key={challenge.id} style={styles.challengeItem}>
+                  <View style={styles.sectionHeader}>
+                    <View style={styles.achievementInfo}>
+                      <ThemedText type="body" style={{ fontWeight: "600" }}>
+                        {challenge.title}
+                      </ThemedText>
+                      <ThemedText type="small" secondary>
+                        {challenge.sponsor
+                          ? `Sponsored by ${challenge.sponsor.name ?? "a local truck"} · `
+                          : ""}
+                        {challengeTimeLabel(challenge)}
+                      </ThemedText>
+                    </View>
+                    {challenge.completed ? (
+                      <Feather
+                        name="check-circle"
+                        size={20}
+                        color={Colors.success}
+                      />
+                    ) : (
+                      <ThemedText style={styles.achievementProgress}>
+                        {challenge.progress}/{challenge.target}
+                      </ThemedText>
+                    )}
+                  </View>
+                  {challenge.description ? (
+                    <ThemedText type="small" secondary>
+                      {challenge.description}
+                    </ThemedText>
+                  ) : null}
+                  <View style={styles.challengeTrack}>
+                    <View
+                      style={[
+                        styles.challengeFill,
+                        {
+                          width: `${(challenge.progress / challenge.target) * 100}%`,
+                          backgroundColor: challenge.completed
+                            ? Colors.success
+                            : Colors.primary,
+                        },
+                      ]}
+                    />
+                  </View>
+                  <ThemedText
+                    type="small"
+                    style={{ color: Colors.accent, fontWeight: "700" }}
+                  >
+                    {challengeRewardLabel(challenge)}
+                  </ThemedText>
+                </View>
+              ))}
+            </Card>
+
+            <Spacer size="xl" />
+          </>
+        ) : null}
+
+        {/* Spend Points */}
+        <Card>
+          <View style={styles.sectionHeader}>
+            <ThemedText type="h4">Spend Points</ThemedText>
+            <ThemedText style={{ color: Colors.accent, fontWeight: "700" }}>
+              {stats.totalPoints.toLocaleString()} pts
+            </ThemedText>
+          </View>
+          <Spacer size="md" />
+
+          {catalog.length === 0 ? (
+            <ThemedText type="small" secondary>
+              No rewards on offer right now. Check back soon!
+            </ThemedText>
+          ) : null}
+          {catalog.map((item) => {
+            const affordable = stats.totalPoints >= item.pointsCost;
+            return (
+              <View key={item.id} style={styles.rewardItem}>
+                <View style={styles.rewardIcon}>
+                  <Feather
+                    name={REWARD_KIND_ICONS[item.kind]}
+                    size={18}
+                    color={Colors.accent}
+                  />
+                </View>
+                <View style={styles.achievementInfo}>
+                  <ThemedText type="body" style={{ fontWeight: "600" }}>
+                    {item.title}
+                  </ThemedText>
+                  <ThemedText type="small" secondary>
+                    {item.vendorName ?? "Any participating truck"}
+                    {item.remaining != null ? ` · ${item.remaining} left` : ""}
+                  </ThemedText>
+                </View>
+                <Pressable
+                  style={[
+                    styles.rewardButton,
+                    {
+                      backgroundColor: affordable
+                        ? Colors.primary
+                        : theme.backgroundDefault,
+                    },
+                  ]}
+                  disabled={!affordable || redeemingId !== null}
+                  onPress={() => handleRedeemReward(item)}
+                >
+                  <ThemedText style={styles.rewardButtonText}>
+                    {redeemingId === item.id
+                      ? "..."
+                      : item.pointsCost.toLocaleString()}
+                  </ThemedText>
+                </Pressable>
               </View>
-            </LinearGradient>
-          </Card>
-        </AnimatedPressable>
+            );
+          })}
+
+          {myVouchers.length > 0 ? (
+            <>
+              <Spacer size="lg" />
+              <ThemedText type="body" style={{ fontWeight: "700" }}>
+                My Vouchers
+              </ThemedText>
+              {myVouchers.map((voucher) => (
+                <Pressable
+                  key={voucher.id}
+                  style={styles.rewardItem}
+                  disabled={voucher.status !== "active"}
+                  onPress={() => setOpenVoucher(voucher)}
+                >
+                  <View style={styles.rewardIcon}>
+                    <Feather
+                      name={
+                        voucher.status === "active"
+                          ? "maximize"
+                          : voucher.status === "entered"
+                            ? "clock"
+                            : "check"
+                      }
+                      size={18}
+                      color={
+                        voucher.status === "active"
+                          ? Colors.success
+                          : Colors.textSecondary
+                      }
+                    />
+                  </View>
+                  <View style={styles.achievementInfo}>
+                    <ThemedText type="body" style={{ fontWeight: "600" }}>
+                      {voucher.title ?? "Reward"}
+                    </ThemedText>
+                    <ThemedText type="small" secondary>
+                      {voucherStatusLabel(voucher)}
+                    </ThemedText>
+                  </View>
+                  {voucher.status === "active" ? (
+                    <Feather
+                      name="chevron-right"
+                      size={18}
+                      color={Colors.textSecondary}
+                    />
+                  ) : null}
+                </Pressable>
+              ))}
+            </>
+          ) : null}
+        </Card>
 
         <Spacer size="xl" />
 
@@ -214,12 +635,14 @@ export default function RewardsScreen() {
           />
 
           {/* Next Badge Progress */}
-          <BadgeProgress
-            currentProgress={stats.dealsRedeemed}
-            targetProgress={10}
-            badgeName="Deal Hunter"
-            badgeIcon="🎪"
-          />
+          {nextBadge ? (
+            <BadgeProgress
+              currentProgress={nextBadge.progress}
+              targetProgress={nextBadge.requirement}
+              badgeName={nextBadge.name}
+              badgeIcon={nextBadge.icon}
+            />
+          ) : null}
         </Card>
 
         <Spacer size="xl" />
@@ -228,10 +651,81 @@ export default function RewardsScreen() {
         <Card style={styles.leaderboardCard}>
           <Leaderboard
             data={leaderboardData}
-            title="Top Deal Hunters"
-            subtitle="This Week"
+            title={
+              leaderboardMetric === "points" ? "Top Deal Hunters" : "Top Savers"
+            }
+            subtitle={leaderboardSubtitle}
             type="customers"
+            valueFormat={leaderboardMetric}
           />
+          <View style={styles.leaderboardFilters}>
+            {WINDOW_OPTIONS.map((option) => (
+              <Pressable
+                key={option.key}
+                style={[
+                  styles.filterChip,
+                  {
+                    backgroundColor:
+                      leaderboardWindow === option.key
+                        ? Colors.primary
+                        : theme.backgroundDefault,
+                  },
+                ]}
+                onPress={() => setLeaderboardWindow(option.key)}
+              >
+                <ThemedText style={styles.filterChipText}>
+                  {option.label}
+                </ThemedText>
+              </Pressable>
+            ))}
+          </View>
+          <View style={styles.leaderboardFilters}>
+            <Pressable
+              style={[
+                styles.filterChip,
+                { backgroundColor: theme.backgroundDefault },
+              ]}
+              onPress={() =>
+                setLeaderboardMetric(
+                  leaderboardMetric === "points" ? "savings" : "points",
+                )
+              }
+            >
+              <Feather
+                name={leaderboardMetric === "points" ? "star" : "dollar-sign"}
+                size={14}
+                color={Colors.accent}
+              />
+              <ThemedText style={styles.filterChipText}>
+                {leaderboardMetric === "points" ? "Points" : "Savings"}
+              </ThemedText>
+            </Pressable>
+            {region ? (
+              <Pressable
+                style={[
+                  styles.filterChip,
+                  { backgroundColor: theme.backgroundDefault },
+                ]}
+                onPress={() => setLocalOnly(!localOnly)}
+              >
+                <Feather
+                  name={localOnly ? "map-pin" : "globe"}
+                  size={14}
+                  color={Colors.accent}
+                />
+                <ThemedText style={styles.filterChipText}>
+                  {localOnly ? region.city : "Everywhere"}
+                </ThemedText>
+              </Pressable>
+            ) : null}
+          </View>
+          {leaderboardData.length === 0 ? (
+            <ThemedText style={styles.leaderboardEmpty}>
+              No one has earned{" "}
+              {leaderboardMetric === "points" ? "points" : "savings"} here yet.
+              Redeem a deal to take the top spot!
+            </ThemedText>
+          ) : null}
         </Card>
 
         <Spacer size="xl" />
@@ -246,32 +740,33 @@ export default function RewardsScreen() {
           </View>
           <Spacer size="md" />
 
-          {[
-            { title: 'First Deal', desc: 'Redeem your first deal', progress: 1, total: 1, xp: 100, done: true },
-            { title: 'Explorer', desc: 'Visit 5 different vendors', progress: stats.vendorsVisited.length, total: 5, xp: 150, done: false },
-            { title: 'Hot Streak', desc: 'Maintain a 7-day streak', progress: stats.currentStreak, total: 7, xp: 200, done: false },
-          ].map((achievement, index) => (
-            <View key={index} style={styles.achievementItem}>
-              <View style={[styles.achievementCheck, achievement.done && styles.achievementCheckDone]}>
-                {achievement.done ? (
+          {achievements.map((achievement) => (
+            <View key={achievement.id} style={styles.achievementItem}>
+              <View
+                style={[
+                  styles.achievementCheck,
+                  achievement.completed && styles.achievementCheckDone,
+                ]}
+              >
+                {achievement.completed ? (
                   <Feather name="check" size={16} color="#fff" />
                 ) : (
                   <ThemedText style={styles.achievementProgress}>
-                    {achievement.progress}/{achievement.total}
+                    {Math.floor(achievement.progress)}/{achievement.target}
                   </ThemedText>
                 )}
               </View>
               <View style={styles.achievementInfo}>
-                <ThemedText type="body" style={{ fontWeight: '600' }}>
+                <ThemedText type="body" style={{ fontWeight: "600" }}>
                   {achievement.title}
                 </ThemedText>
                 <ThemedText type="small" secondary>
-                  {achievement.desc}
+                  {achievement.description}
                 </ThemedText>
               </View>
               <View style={styles.achievementXP}>
-                <ThemedText style={{ color: Colors.accent, fontWeight: '700' }}>
-                  +{achievement.xp} XP
+                <ThemedText style={{ color: Colors.accent, fontWeight: "700" }}>
+                  +{achievement.reward} XP
                 </ThemedText>
               </View>
             </View>
@@ -279,6 +774,62 @@ export default function RewardsScreen() {
         </Card>
       </ScrollView>
 
+      {/* Voucher Pass */}
+      <Modal
+        visible={!!openVoucher}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setOpenVoucher(null)}
+      >
+        <Pressable
+          style={styles.voucherBackdrop}
+          onPress={() => setOpenVoucher(null)}
+        >
+          {openVoucher ? (
+            <Card style={styles.voucherCard}>
+              <ThemedText type="h4" style={{ textAlign: "center" }}>
+                {openVoucher.title ?? "Reward"}
+              </ThemedText>
+              <ThemedText
+                type="small"
+                secondary
+                style={{ textAlign: "center" }}
+              >
+                Show this code at{" "}
+                {openVoucher.vendorName ?? "any participating truck"}
+              </ThemedText>
+              <Spacer size="md" />
+              {openVoucher.token ? (
+                <View style={styles.qrContainer}>
+                  <QRCode
+                    value={openVoucher.token}
+                    size={180}
+                    backgroundColor="#fff"
+                    color="#000"
+                  />
+                </View>
+              ) : null}
+              <Spacer size="md" />
+              {openVoucher.code ? (
+                <ThemedText
+                  type="h2"
+                  style={{ textAlign: "center", letterSpacing: 4 }}
+                >
+                  {openVoucher.code.slice(0, 3)} {openVoucher.code.slice(3)}
+                </ThemedText>
+              ) : null}
+              <ThemedText
+                type="caption"
+                secondary
+                style={{ textAlign: "center" }}
+              >
+                Single use · {voucherStatusLabel(openVoucher)}
+              </ThemedText>
+            </Card>
+          ) : null}
+        </Pressable>
+      </Modal>
+
       {/* Badge Unlock Modal */}
       <BadgeUnlockModal
         badge={selectedBadge}
@@ -298,32 +849,32 @@ const styles = StyleSheet.create({
   },
   levelCard: {
     padding: 0,
-    overflow: 'hidden',
+    overflow: "hidden",
   },
   levelGradient: {
     padding: Spacing.xl,
   },
   levelHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'flex-start',
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-start",
   },
   levelLabel: {
     fontSize: 12,
-    fontWeight: '700',
-    color: 'rgba(255, 255, 255, 0.8)',
+    fontWeight: "700",
+    color: "rgba(255, 255, 255, 0.8)",
     letterSpacing: 2,
   },
   levelTitle: {
     fontSize: 28,
-    fontWeight: '800',
-    color: '#fff',
+    fontWeight: "800",
+    color: "#fff",
     marginTop: 4,
   },
   pointsBadge: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "rgba(255, 255, 255, 0.2)",
     paddingHorizontal: 12,
     paddingVertical: 8,
     borderRadius: 20,
@@ -331,85 +882,85 @@ const styles = StyleSheet.create({
   },
   pointsText: {
     fontSize: 16,
-    fontWeight: '700',
-    color: '#fff',
+    fontWeight: "700",
+    color: "#fff",
   },
   xpContainer: {},
   xpLabels: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
+    flexDirection: "row",
+    justifyContent: "space-between",
     marginBottom: 8,
   },
   xpText: {
     fontSize: 12,
-    color: 'rgba(255, 255, 255, 0.8)',
+    color: "rgba(255, 255, 255, 0.8)",
   },
   xpTrack: {
     height: 8,
-    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    backgroundColor: "rgba(255, 255, 255, 0.2)",
     borderRadius: 4,
-    overflow: 'hidden',
+    overflow: "hidden",
   },
   xpFill: {
-    height: '100%',
+    height: "100%",
     backgroundColor: Colors.accent,
     borderRadius: 4,
   },
   xpRemaining: {
     fontSize: 12,
-    color: 'rgba(255, 255, 255, 0.7)',
+    color: "rgba(255, 255, 255, 0.7)",
     marginTop: 8,
-    textAlign: 'center',
+    textAlign: "center",
   },
   statsRow: {
-    flexDirection: 'row',
-    justifyContent: 'space-around',
-    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    flexDirection: "row",
+    justifyContent: "space-around",
+    backgroundColor: "rgba(255, 255, 255, 0.1)",
     borderRadius: 12,
     padding: Spacing.md,
   },
   statItem: {
-    alignItems: 'center',
+    alignItems: "center",
   },
   statValue: {
     fontSize: 24,
-    fontWeight: '800',
-    color: '#fff',
+    fontWeight: "800",
+    color: "#fff",
   },
   statLabel: {
     fontSize: 12,
-    color: 'rgba(255, 255, 255, 0.7)',
+    color: "rgba(255, 255, 255, 0.7)",
     marginTop: 4,
   },
   statDivider: {
     width: 1,
-    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    backgroundColor: "rgba(255, 255, 255, 0.2)",
   },
   checkInCard: {
     padding: 0,
-    overflow: 'hidden',
+    overflow: "hidden",
   },
   checkInGradient: {
-    flexDirection: 'row',
-    alignItems: 'center',
+    flexDirection: "row",
+    alignItems: "center",
     padding: Spacing.lg,
   },
   checkInIcon: {
     width: 48,
     height: 48,
     borderRadius: 24,
-    backgroundColor: Colors.accent + '30',
-    justifyContent: 'center',
-    alignItems: 'center',
+    backgroundColor: Colors.accent + "30",
+    justifyContent: "center",
+    alignItems: "center",
     marginRight: Spacing.md,
   },
   checkInContent: {
     flex: 1,
   },
   streakBadge: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    backgroundColor: Colors.accent + '20',
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: Colors.accent + "20",
     paddingHorizontal: 12,
     paddingVertical: 6,
     borderRadius: 16,
@@ -417,36 +968,121 @@ const styles = StyleSheet.create({
   },
   streakText: {
     fontSize: 16,
-    fontWeight: '700',
+    fontWeight: "700",
     color: Colors.accent,
   },
   badgesCard: {
     padding: 0,
-    overflow: 'hidden',
+    overflow: "hidden",
   },
   leaderboardCard: {
     padding: 0,
-    overflow: 'hidden',
+    overflow: "hidden",
+  },
+  rewardItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: Spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: "#333",
+  },
+  rewardIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: Colors.accent + "20",
+    justifyContent: "center",
+    alignItems: "center",
+    marginRight: Spacing.md,
+  },
+  rewardButton: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+    minWidth: 64,
+    alignItems: "center",
+  },
+  rewardButtonText: {
+    fontSize: 13,
+    fontWeight: "700",
+    color: "#fff",
+  },
+  voucherBackdrop: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.7)",
+    justifyContent: "center",
+    padding: Spacing.xl,
+  },
+  voucherCard: {
+    alignItems: "center",
+  },
+  qrContainer: {
+    padding: Spacing.md,
+    backgroundColor: "#fff",
+    borderRadius: BorderRadius.md,
+  },
+  leaderboardFilters: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+    paddingHorizontal: Spacing.lg,
+    paddingBottom: Spacing.md,
+  },
+  filterChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+  },
+  filterChipText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  leaderboardEmpty: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    textAlign: "center",
+    paddingHorizontal: Spacing.lg,
+    paddingBottom: Spacing.lg,
   },
   sectionHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  challengeItem: {
+    paddingVertical: Spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: "#333",
+    gap: Spacing.xs,
+  },
+  challengeTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: "#2a2a2a",
+    overflow: "hidden",
+    marginTop: Spacing.xs,
+  },
+  challengeFill: {
+    height: "100%",
+    borderRadius: 3,
   },
   achievementItem: {
-    flexDirection: 'row',
-    alignItems: 'center',
+    flexDirection: "row",
+    alignItems: "center",
     paddingVertical: Spacing.md,
     borderBottomWidth: 1,
-    borderBottomColor: '#333',
+    borderBottomColor: "#333",
   },
   achievementCheck: {
     width: 40,
     height: 40,
     borderRadius: 20,
-    backgroundColor: '#2a2a2a',
-    justifyContent: 'center',
-    alignItems: 'center',
+    backgroundColor: "#2a2a2a",
+    justifyContent: "center",
+    alignItems: "center",
     marginRight: Spacing.md,
   },
   achievementCheckDone: {
@@ -454,7 +1090,7 @@ const styles = StyleSheet.create({
   },
   achievementProgress: {
     fontSize: 10,
-    fontWeight: '700',
+    fontWeight: "700",
     color: Colors.textSecondary,
   },
   achievementInfo: {
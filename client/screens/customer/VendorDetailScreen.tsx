@@ -1,5 +1,15 @@
-import React, { useState } from "react";
-import { View, StyleSheet, ScrollView, Image, Pressable, Platform } from "react-native";
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  Image,
+  Pressable,
+  Platform,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
 import { useRoute, RouteProp, useNavigation } from "@react-navigation/native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { ThemedText } from "@/components/ThemedText";
@@ -8,28 +18,163 @@ import { Card } from "@/components/Card";
 import { Button } from "@/components/Button";
 import { Spacer } from "@/components/Spacer";
 import { ShareSheet } from "@/components/ShareSheet";
+import { ReviewCard, StarRating } from "@/components/ReviewCard";
 import { useTheme } from "@/hooks/useTheme";
-import { useData } from "@/lib/data-context";
+import {
+  useData,
+  ReviewPage,
+  ReviewEligibility,
+  VendorMenu,
+  VendorHours,
+} from "@/lib/data-context";
+import { useAuth } from "@/lib/auth-context";
+import { UploadedPhoto } from "@/lib/photo-upload";
+import { useOffline } from "@/lib/offline-context";
+import { analyticsTracker } from "@/lib/analytics-tracker";
+import { useGamification } from "@/lib/gamification-context";
 import { Colors, Spacing, BorderRadius, Shadows } from "@/constants/theme";
 import { Feather } from "@expo/vector-icons";
 import { CustomerStackParamList } from "@/navigation/CustomerTabNavigator";
 import * as Haptics from "expo-haptics";
+import * as Location from "expo-location";
 
 type VendorDetailRouteProp = RouteProp<CustomerStackParamList, "VendorDetail">;
 
-type TabType = "deals" | "menu" | "schedule";
+type TabType = "deals" | "menu" | "schedule" | "reviews";
+
+const DAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+// Week starts on Monday in the schedule tab
+const SCHEDULE_DAYS = [1, 2, 3, 4, 5, 6, 0];
+
+// "17:30" -> "5:30 PM"
+function formatClockTime(time: string): string {
+  const [hour, minute] = time.split(":").map(Number);
+  const hour12 = hour % 12 === 0 ? 12 : hour % 12;
+  const suffix = hour < 12 ? "AM" : "PM";
+  return minute === 0
+    ? `${hour12} ${suffix}`
+    : `${hour12}:${String(minute).padStart(2, "0")} ${suffix}`;
+}
+
+function formatShift(opensAt: string, closesAt: string): string {
+  return opensAt === closesAt
+    ? "Open 24 hours"
+    : `${formatClockTime(opensAt)} - ${formatClockTime(closesAt)}`;
+}
 
 export default function VendorDetailScreen() {
   const { theme } = useTheme();
   const route = useRoute<VendorDetailRouteProp>();
   const navigation = useNavigation();
   const insets = useSafeAreaInsets();
-  const { getVendorById, getDealsByVendor, isFavorite, addFavorite, removeFavorite } = useData();
+  const {
+    getVendorById,
+    getDealsByVendor,
+    isFavorite,
+    addFavorite,
+    removeFavorite,
+    fetchVendorReviews,
+    getReviewEligibility,
+    submitReview,
+    fetchVendorMenu,
+    fetchVendorHours,
+    fetchPhotos,
+    checkIn,
+  } = useData();
+  const { user, isAuthenticated } = useAuth();
+  const { isOnline, queueAction } = useOffline();
+  const { recordShare, refreshRewards } = useGamification();
 
-  const vendor = getVendorById(route.params.vendorId);
-  const deals = getDealsByVendor(route.params.vendorId);
+  const vendorId = route.params.vendorId;
+  const vendor = getVendorById(vendorId);
+  const deals = getDealsByVendor(vendorId);
   const [activeTab, setActiveTab] = useState<TabType>("deals");
   const [showShareSheet, setShowShareSheet] = useState(false);
+  const [isCheckingIn, setIsCheckingIn] = useState(false);
+
+  // Reviews
+  const [reviewPage, setReviewPage] = useState<ReviewPage | null>(null);
+  const [isLoadingReviews, setIsLoadingReviews] = useState(false);
+  const [eligibility, setEligibility] = useState<ReviewEligibility | null>(
+    null,
+  );
+  const [draftRating, setDraftRating] = useState(0);
+  const [draftText, setDraftText] = useState("");
+  const [isSubmittingReview, setIsSubmittingReview] = useState(false);
+
+  // Menu
+  const [menu, setMenu] = useState<VendorMenu | null>(null);
+  const [isLoadingMenu, setIsLoadingMenu] = useState(true);
+
+  // Hours
+  const [hours, setHours] = useState<VendorHours | null>(null);
+
+  // Uploaded listing photos; the first replaces the stock hero image
+  const [photos, setPhotos] = useState<UploadedPhoto[]>([]);
+
+  const loadReviews = useCallback(
+    async (offset = 0) => {
+      setIsLoadingReviews(true);
+      try {
+        const page = await fetchVendorReviews(vendorId, offset);
+        setReviewPage((prev) =>
+          offset > 0 && prev
+            ? { ...page, reviews: [...prev.reviews, ...page.reviews] }
+            : page,
+        );
+      } catch {
+        // Vendors without a server listing have no reviews yet
+      } finally {
+        setIsLoadingReviews(false);
+      }
+    },
+    [fetchVendorReviews, vendorId],
+  );
+
+  useEffect(() => {
+    analyticsTracker.track("page_view", vendorId);
+  }, [vendorId]);
+
+  useEffect(() => {
+    loadReviews();
+  }, [loadReviews]);
+
+  useEffect(() => {
+    setIsLoadingMenu(true);
+    fetchVendorMenu(vendorId)
+      .then(setMenu)
+      // Vendors without a server listing have no menu yet
+      .catch(() => setMenu(null))
+      .finally(() => setIsLoadingMenu(false));
+  }, [fetchVendorMenu, vendorId]);
+
+  useEffect(() => {
+    // Vendors without a server listing fall back to their static hours
+    fetchVendorHours(vendorId)
+      .then(setHours)
+      .catch(() => setHours(null));
+  }, [fetchVendorHours, vendorId]);
+
+  useEffect(() => {
+    fetchPhotos("listing", vendorId)
+      .then(setPhotos)
+      .catch(() => setPhotos([]));
+  }, [fetchPhotos, vendorId]);
+
+  useEffect(() => {
+    if (!isAuthenticated || user?.role !== "customer") return;
+    getReviewEligibility(vendorId)
+      .then(setEligibility)
+      .catch(() => setEligibility(null));
+  }, [isAuthenticated, user?.role, vendorId, getReviewEligibility]);
 
   if (!vendor) {
     return (
@@ -59,6 +204,91 @@ export default function VendorDetailScreen() {
     setShowShareSheet(true);
   };
 
+  // The server only accepts check-ins from within a short walk of the truck
+  const handleCheckIn = async () => {
+    setIsCheckingIn(true);
+    try {
+      const { status } = await Location.requestForegroundPermissionsAsync();
+      if (status !== "granted") {
+        Alert.alert(
+          "Permission Denied",
+          "Location permission is required to check in.",
+        );
+        return;
+      }
+
+      const location = await Location.getCurrentPositionAsync({
+        accuracy: Location.Accuracy.High,
+      });
+      const message = await checkIn(
+        vendor.id,
+        location.coords.latitude,
+        location.coords.longitude,
+      );
+      if (Platform.OS !== "web") {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      }
+      Alert.alert("Checked In", message);
+      refreshRewards();
+    } catch (error: any) {
+      Alert.alert(
+        "Check-In Failed",
+        error?.message || "Could not check in. Please try again.",
+      );
+    } finally {
+      setIsCheckingIn(false);
+    }
+  };
+
+  const handleSubmitReview = async () => {
+    if (draftRating === 0 || !draftText.trim()) {
+      Alert.alert(
+        "Add a Rating",
+        "Choose a star rating and write a few words about your visit.",
+      );
+      return;
+    }
+
+    const review = {
+      vendorId: vendor.id,
+      rating: draftRating,
+      text: draftText.trim(),
+    };
+
+    if (!isOnline) {
+      await queueAction({ type: "review", payload: review });
+      setEligibility({ canReview: false, reason: "already_reviewed" });
+      Alert.alert(
+        "Review Saved",
+        "Your review will be posted when you're back online.",
+      );
+      return;
+    }
+
+    setIsSubmittingReview(true);
+    try {
+      await submitReview(review);
+      setEligibility({ canReview: false, reason: "already_reviewed" });
+      setDraftRating(0);
+      setDraftText("");
+      await loadReviews();
+    } catch (error: any) {
+      Alert.alert(
+        "Review Not Posted",
+        error?.message || "Could not post your review. Please try again.",
+      );
+    } finally {
+      setIsSubmittingReview(false);
+    }
+  };
+
+  const stats = reviewPage?.stats;
+  const hasServerReviews = !!stats && stats.reviewCount > 0;
+  const displayRating = hasServerReviews ? stats.averageRating : vendor.rating;
+  const displayReviewCount = hasServerReviews
+    ? stats.reviewCount
+    : vendor.reviewCount;
+
   const getTimeRemaining = (expiresAt: string) => {
     const now = new Date();
     const expires = new Date(expiresAt);
@@ -70,23 +300,18 @@ export default function VendorDetailScreen() {
     return `${minutes}m`;
   };
 
-  const menuItems = [
-    { name: "Signature Tacos (3)", price: "$12.99" },
-    { name: "Burrito Supreme", price: "$14.99" },
-    { name: "Nachos Grande", price: "$10.99" },
-    { name: "Quesadilla", price: "$9.99" },
-    { name: "Churros", price: "$5.99" },
-  ];
-
-  const schedule = [
-    { day: "Monday", hours: "11am - 8pm", location: "Financial District" },
-    { day: "Tuesday", hours: "11am - 8pm", location: "Mission District" },
-    { day: "Wednesday", hours: "11am - 8pm", location: "SoMa" },
-    { day: "Thursday", hours: "11am - 9pm", location: "Castro" },
-    { day: "Friday", hours: "11am - 10pm", location: "Marina" },
-    { day: "Saturday", hours: "12pm - 10pm", location: "Golden Gate Park" },
-    { day: "Sunday", hours: "Closed", location: "-" },
-  ];
+  const menuItemNames = new Map(
+    (menu?.sections ?? []).flatMap((section) =>
+      section.items.map((item) => [item.id, item.name] as const),
+    ),
+  );
+  const dietary =
+    vendor.dietary.length > 0 ? vendor.dietary : (menu?.dietary ?? []);
+
+  const hasPostedHours =
+    !!hours && (hours.shifts.length > 0 || hours.specialHours.length > 0);
+  const isOpen = hasPostedHours ? hours.isOpen === true : vendor.isOpen;
+  const statusLabel = hasPostedHours ? hours.statusLabel : vendor.statusLabel;
 
   return (
     <ThemedView style={styles.container}>
@@ -94,7 +319,25 @@ export default function VendorDetailScreen() {
         showsVerticalScrollIndicator={false}
         contentContainerStyle={{ paddingBottom: insets.bottom + Spacing.xl }}
       >
-        <Image source={{ uri: vendor.image }} style={styles.heroImage} />
+        <Image
+          source={{ uri: photos[0]?.mediumUrl ?? vendor.image }}
+          style={styles.heroImage}
+        />
+        {photos.length > 1 ? (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.photoStrip}
+          >
+            {photos.map((photo) => (
+              <Image
+                key={photo.id}
+                source={{ uri: photo.thumbnailUrl }}
+                style={styles.photoStripImage}
+              />
+            ))}
+          </ScrollView>
+        ) : null}
 
         <View style={styles.content}>
           <View style={styles.headerRow}>
@@ -103,23 +346,52 @@ export default function VendorDetailScreen() {
               <View style={styles.metaRow}>
                 <Feather name="star" size={16} color={Colors.accent} />
                 <ThemedText type="body" style={styles.ratingText}>
-                  {vendor.rating} ({vendor.reviewCount} reviews)
+                  {displayReviewCount > 0
+                    ? `${displayRating} (${displayReviewCount} reviews)`
+                    : "No reviews yet"}
                 </ThemedText>
               </View>
               <View style={styles.tagsRow}>
-                <View style={[styles.tag, { backgroundColor: theme.backgroundSecondary }]}>
+                <View
+                  style={[
+                    styles.tag,
+                    { backgroundColor: theme.backgroundSecondary },
+                  ]}
+                >
                   <ThemedText type="caption">{vendor.cuisine}</ThemedText>
                 </View>
-                <View style={[styles.tag, { backgroundColor: theme.backgroundSecondary }]}>
+                <View
+                  style={[
+                    styles.tag,
+                    { backgroundColor: theme.backgroundSecondary },
+                  ]}
+                >
                   <ThemedText type="caption">{vendor.priceRange}</ThemedText>
                 </View>
-                {vendor.isOpen ? (
-                  <View style={[styles.tag, { backgroundColor: Colors.success + "20" }]}>
-                    <ThemedText type="caption" style={{ color: Colors.success }}>Open</ThemedText>
+                {isOpen ? (
+                  <View
+                    style={[
+                      styles.tag,
+                      { backgroundColor: Colors.success + "20" },
+                    ]}
+                  >
+                    <ThemedText
+                      type="caption"
+                      style={{ color: Colors.success }}
+                    >
+                      {statusLabel || "Open"}
+                    </ThemedText>
                   </View>
                 ) : (
-                  <View style={[styles.tag, { backgroundColor: Colors.error + "20" }]}>
-                    <ThemedText type="caption" style={{ color: Colors.error }}>Closed</ThemedText>
+                  <View
+                    style={[
+                      styles.tag,
+                      { backgroundColor: Colors.error + "20" },
+                    ]}
+                  >
+                    <ThemedText type="caption" style={{ color: Colors.error }}>
+                      {statusLabel || "Closed"}
+                    </ThemedText>
                   </View>
                 )}
               </View>
@@ -128,7 +400,14 @@ export default function VendorDetailScreen() {
 
           <View style={styles.actionRow}>
             <Pressable
-              style={[styles.actionButton, { backgroundColor: favorite ? Colors.error + "15" : theme.backgroundSecondary }]}
+              style={[
+                styles.actionButton,
+                {
+                  backgroundColor: favorite
+                    ? Colors.error + "15"
+                    : theme.backgroundSecondary,
+                },
+              ]}
               onPress={toggleFavorite}
             >
               <Feather
@@ -136,28 +415,73 @@ export default function VendorDetailScreen() {
                 size={20}
                 color={favorite ? Colors.error : theme.textSecondary}
               />
-              <ThemedText type="small" style={{ marginLeft: Spacing.sm, color: favorite ? Colors.error : theme.text }}>
+              <ThemedText
+                type="small"
+                style={{
+                  marginLeft: Spacing.sm,
+                  color: favorite ? Colors.error : theme.text,
+                }}
+              >
                 {favorite ? "Following" : "Follow"}
               </ThemedText>
             </Pressable>
             <Pressable
-              style={[styles.actionButton, { backgroundColor: theme.backgroundSecondary }]}
+              style={[
+                styles.actionButton,
+                { backgroundColor: theme.backgroundSecondary },
+              ]}
               onPress={handleShare}
             >
               <Feather name="share" size={20} color={theme.textSecondary} />
-              <ThemedText type="small" style={{ marginLeft: Spacing.sm }}>Share</ThemedText>
+              <ThemedText type="small" style={{ marginLeft: Spacing.sm }}>
+                Share
+              </ThemedText>
             </Pressable>
+            {isAuthenticated && user?.role === "customer" ? (
+              <Pressable
+                style={[
+                  styles.actionButton,
+                  { backgroundColor: theme.backgroundSecondary },
+                ]}
+                onPress={handleCheckIn}
+                disabled={isCheckingIn}
+              >
+                {isCheckingIn ? (
+                  <ActivityIndicator size="small" color={theme.textSecondary} />
+                ) : (
+                  <Feather
+                    name="map-pin"
+                    size={20}
+                    color={theme.textSecondary}
+                  />
+                )}
+                <ThemedText type="small" style={{ marginLeft: Spacing.sm }}>
+                  Check In
+                </ThemedText>
+              </Pressable>
+            ) : null}
           </View>
 
           <ThemedText type="body" secondary style={styles.description}>
             {vendor.description}
           </ThemedText>
 
-          {vendor.dietary.length > 0 ? (
+          {dietary.length > 0 ? (
             <View style={styles.dietaryRow}>
-              {vendor.dietary.map((diet) => (
-                <View key={diet} style={[styles.dietaryTag, { backgroundColor: Colors.secondary + "15" }]}>
-                  <ThemedText type="caption" style={{ color: Colors.secondary }}>{diet}</ThemedText>
+              {dietary.map((diet) => (
+                <View
+                  key={diet}
+                  style={[
+                    styles.dietaryTag,
+                    { backgroundColor: Colors.secondary + "15" },
+                  ]}
+                >
+                  <ThemedText
+                    type="caption"
+                    style={{ color: Colors.secondary }}
+                  >
+                    {diet}
+                  </ThemedText>
                 </View>
               ))}
             </View>
@@ -166,27 +490,36 @@ export default function VendorDetailScreen() {
           <Spacer size="xl" />
 
           <View style={styles.tabContainer}>
-            {(["deals", "menu", "schedule"] as TabType[]).map((tab) => (
-              <Pressable
-                key={tab}
-                style={[
-                  styles.tab,
-                  activeTab === tab && { borderBottomColor: Colors.primary, borderBottomWidth: 2 },
-                ]}
-                onPress={() => setActiveTab(tab)}
-              >
-                <ThemedText
-                  type="body"
+            {(["deals", "menu", "schedule", "reviews"] as TabType[]).map(
+              (tab) => (
+                <Pressable
+                  key={tab}
                   style={[
-                    styles.tabText,
-                    activeTab === tab ? { color: Colors.primary, fontWeight: "600" } : { color: theme.textSecondary },
+                    styles.tab,
+                    activeTab === tab && {
+                      borderBottomColor: Colors.primary,
+                      borderBottomWidth: 2,
+                    },
                   ]}
+                  onPress={() => setActiveTab(tab)}
                 >
-                  {tab.charAt(0).toUpperCase() + tab.slice(1)}
-                  {tab === "deals" && deals.length > 0 ? ` (${deals.length})` : ""}
-                </ThemedText>
-              </Pressable>
-            ))}
+                  <ThemedText
+                    type="body"
+                    style={[
+                      styles.tabText,
+                      activeTab === tab
+                        ? { color: Colors.primary, fontWeight: "600" }
+                        : { color: theme.textSecondary },
+                    ]}
+                  >
+                    {tab.charAt(0).toUpperCase() + tab.slice(1)}
+                    {tab === "deals" && deals.length > 0
+                      ? ` (${deals.length})`
+                      : ""}
+                  </ThemedText>
+                </Pressable>
+              ),
+            )}
           </View>
 
           <Spacer size="lg" />
@@ -197,14 +530,43 @@ export default function VendorDetailScreen() {
                 <Card key={deal.id} style={styles.dealCard}>
                   <View style={styles.dealHeader}>
                     <ThemedText type="h4">{deal.title}</ThemedText>
-                    <View style={[styles.timeBadge, { backgroundColor: Colors.accent }]}>
+                    <View
+                      style={[
+                        styles.timeBadge,
+                        { backgroundColor: Colors.accent },
+                      ]}
+                    >
                       <Feather name="clock" size={12} color="#000" />
-                      <ThemedText type="caption" style={{ color: "#000", marginLeft: 4 }}>
+                      <ThemedText
+                        type="caption"
+                        style={{ color: "#000", marginLeft: 4 }}
+                      >
                         {getTimeRemaining(deal.expiresAt)}
                       </ThemedText>
                     </View>
                   </View>
-                  <ThemedText type="body" secondary>{deal.description}</ThemedText>
+                  <ThemedText type="body" secondary>
+                    {deal.description}
+                  </ThemedText>
+                  {deal.menuItemIds?.some((id) => menuItemNames.has(id)) ? (
+                    <View style={styles.appliesToRow}>
+                      <Feather
+                        name="book-open"
+                        size={12}
+                        color={Colors.primary}
+                      />
+                      <ThemedText
+                        type="caption"
+                        style={{ color: Colors.primary }}
+                      >
+                        Applies to{" "}
+                        {deal.menuItemIds
+                          .filter((id) => menuItemNames.has(id))
+                          .map((id) => menuItemNames.get(id))
+                          .join(", ")}
+                      </ThemedText>
+                    </View>
+                  ) : null}
                   <View style={styles.priceRow}>
                     <ThemedText type="body" style={styles.originalPrice}>
                       ${deal.originalPrice.toFixed(2)}
@@ -226,40 +588,360 @@ export default function VendorDetailScreen() {
           ) : null}
 
           {activeTab === "menu" ? (
-            <Card style={styles.menuCard}>
-              {menuItems.map((item, index) => (
-                <View
-                  key={item.name}
-                  style={[
-                    styles.menuItem,
-                    index < menuItems.length - 1 && { borderBottomWidth: 1, borderBottomColor: theme.border },
-                  ]}
-                >
-                  <ThemedText type="body">{item.name}</ThemedText>
-                  <ThemedText type="body" style={{ fontWeight: "600" }}>{item.price}</ThemedText>
-                </View>
-              ))}
-            </Card>
+            menu &&
+            menu.sections.some((section) => section.items.length > 0) ? (
+              menu.sections
+                .filter((section) => section.items.length > 0)
+                .map((section) => (
+                  <View key={section.id} style={styles.menuSection}>
+                    <ThemedText type="h4" style={styles.menuSectionTitle}>
+                      {section.name}
+                    </ThemedText>
+                    <Card style={styles.menuCard}>
+                      {section.items.map((item, index) => (
+                        <View
+                          key={item.id}
+                          style={[
+                            styles.menuItem,
+                            index < section.items.length - 1 && {
+                              borderBottomWidth: 1,
+                              borderBottomColor: theme.border,
+                            },
+                            item.isSoldOut && { opacity: 0.5 },
+                          ]}
+                        >
+                          {item.photoUrl ? (
+                            <Image
+                              source={{ uri: item.photoUrl }}
+                              style={styles.menuItemPhoto}
+                            />
+                          ) : null}
+                          <View style={styles.menuItemInfo}>
+                            <ThemedText
+                              type="body"
+                              style={{ fontWeight: "600" }}
+                            >
+                              {item.name}
+                            </ThemedText>
+                            {item.description ? (
+                              <ThemedText type="small" secondary>
+                                {item.description}
+                              </ThemedText>
+                            ) : null}
+                            {item.dietaryTags.length > 0 || item.isSoldOut ? (
+                              <View style={styles.menuItemTags}>
+                                {item.isSoldOut ? (
+                                  <View
+                                    style={[
+                                      styles.dietaryTag,
+                                      { backgroundColor: Colors.error + "20" },
+                                    ]}
+                                  >
+                                    <ThemedText
+                                      type="caption"
+                                      style={{ color: Colors.error }}
+                                    >
+                                      Sold out
+                                    </ThemedText>
+                                  </View>
+                                ) : null}
+                                {item.dietaryTags.map((tag) => (
+                                  <View
+                                    key={tag}
+                                    style={[
+                                      styles.dietaryTag,
+                                      {
+                                        backgroundColor:
+                                          Colors.secondary + "15",
+                                      },
+                                    ]}
+                                  >
+                                    <ThemedText
+                                      type="caption"
+                                      style={{ color: Colors.secondary }}
+                                    >
+                                      {tag}
+                                    </ThemedText>
+                                  </View>
+                                ))}
+                              </View>
+                            ) : null}
+                          </View>
+                          <ThemedText type="body" style={{ fontWeight: "600" }}>
+                            ${item.price.toFixed(2)}
+                          </ThemedText>
+                        </View>
+                      ))}
+                    </Card>
+                  </View>
+                ))
+            ) : isLoadingMenu ? (
+              <ActivityIndicator size="small" color={Colors.primary} />
+            ) : (
+              <View style={styles.emptyTab}>
+                <Feather
+                  name="book-open"
+                  size={32}
+                  color={theme.textSecondary}
+                />
+                <ThemedText type="body" secondary style={styles.emptyText}>
+                  No menu posted yet
+                </ThemedText>
+              </View>
+            )
           ) : null}
 
           {activeTab === "schedule" ? (
-            <Card style={styles.scheduleCard}>
-              {schedule.map((day, index) => (
-                <View
-                  key={day.day}
-                  style={[
-                    styles.scheduleItem,
-                    index < schedule.length - 1 && { borderBottomWidth: 1, borderBottomColor: theme.border },
-                  ]}
+            hasPostedHours ? (
+              <View>
+                <Card style={styles.scheduleCard}>
+                  {SCHEDULE_DAYS.map((day, index) => {
+                    const shifts = hours.shifts.filter(
+                      (shift) => shift.dayOfWeek === day,
+                    );
+                    return (
+                      <View
+                        key={day}
+                        style={[
+                          styles.scheduleItem,
+                          index < SCHEDULE_DAYS.length - 1 && {
+                            borderBottomWidth: 1,
+                            borderBottomColor: theme.border,
+                          },
+                        ]}
+                      >
+                        <ThemedText type="body" style={{ fontWeight: "600" }}>
+                          {DAY_NAMES[day]}
+                        </ThemedText>
+                        <View style={styles.scheduleShifts}>
+                          {shifts.length > 0 ? (
+                            shifts.map((shift) => (
+                              <ThemedText
+                                key={`${shift.opensAt}-${shift.closesAt}`}
+                                type="small"
+                                secondary
+                              >
+                                {formatShift(shift.opensAt, shift.closesAt)}
+                              </ThemedText>
+                            ))
+                          ) : (
+                            <ThemedText type="small" secondary>
+                              Closed
+                            </ThemedText>
+                          )}
+                        </View>
+                      </View>
+                    );
+                  })}
+                </Card>
+
+                {hours.specialHours.length > 0 ? (
+                  <>
+                    <Spacer size="lg" />
+                    <ThemedText type="h4" style={styles.menuSectionTitle}>
+                      Special Hours
+                    </ThemedText>
+                    <Card style={styles.scheduleCard}>
+                      {hours.specialHours.map((entry, index) => (
+                        <View
+                          key={entry.id}
+                          style={[
+                            styles.scheduleItem,
+                            index < hours.specialHours.length - 1 && {
+                              borderBottomWidth: 1,
+                              borderBottomColor: theme.border,
+                            },
+                          ]}
+                        >
+                          <View style={styles.scheduleDay}>
+                            <ThemedText
+                              type="body"
+                              style={{ fontWeight: "600" }}
+                            >
+                              {new Date(
+                                `${entry.date}T12:00:00`,
+                              ).toLocaleDateString([], {
+                                weekday: "short",
+                                month: "short",
+                                day: "numeric",
+                              })}
+                            </ThemedText>
+                            {entry.note ? (
+                              <ThemedText type="small" secondary>
+                                {entry.note}
+                              </ThemedText>
+                            ) : null}
+                          </View>
+                          <ThemedText
+                            type="small"
+                            style={{
+                              color: entry.isClosed
+                                ? Colors.error
+                                : theme.textSecondary,
+                            }}
+                          >
+                            {entry.isClosed || !entry.opensAt || !entry.closesAt
+                              ? "Closed"
+                              : formatShift(entry.opensAt, entry.closesAt)}
+                          </ThemedText>
+                        </View>
+                      ))}
+                    </Card>
+                  </>
+                ) : null}
+
+                <Spacer size="sm" />
+                <ThemedText
+                  type="caption"
+                  secondary
+                  style={styles.timezoneNote}
                 >
-                  <View style={styles.scheduleDay}>
-                    <ThemedText type="body" style={{ fontWeight: "600" }}>{day.day}</ThemedText>
-                    <ThemedText type="small" secondary>{day.hours}</ThemedText>
+                  Times shown in {hours.timezone.replace(/_/g, " ")}
+                </ThemedText>
+              </View>
+            ) : vendor.hours ? (
+              <Card>
+                <ThemedText type="body">{vendor.hours}</ThemedText>
+              </Card>
+            ) : (
+              <View style={styles.emptyTab}>
+                <Feather name="clock" size={32} color={theme.textSecondary} />
+                <ThemedText type="body" secondary style={styles.emptyText}>
+                  No hours posted yet
+                </ThemedText>
+              </View>
+            )
+          ) : null}
+
+          {activeTab === "reviews" ? (
+            <View>
+              {hasServerReviews ? (
+                <Card style={styles.ratingSummary}>
+                  <View style={styles.ratingSummaryScore}>
+                    <ThemedText type="h1">
+                      {stats.averageRating?.toFixed(1)}
+                    </ThemedText>
+                    <StarRating rating={stats.averageRating ?? 0} />
+                    <ThemedText type="caption" secondary>
+                      {stats.reviewCount} review
+                      {stats.reviewCount !== 1 ? "s" : ""}
+                    </ThemedText>
+                  </View>
+                  <View style={styles.ratingBars}>
+                    {([5, 4, 3, 2, 1] as const).map((star) => (
+                      <View key={star} style={styles.ratingBarRow}>
+                        <ThemedText
+                          type="caption"
+                          secondary
+                          style={styles.ratingBarLabel}
+                        >
+                          {star}
+                        </ThemedText>
+                        <View
+                          style={[
+                            styles.ratingBarTrack,
+                            { backgroundColor: theme.backgroundSecondary },
+                          ]}
+                        >
+                          <View
+                            style={[
+                              styles.ratingBarFill,
+                              {
+                                width: `${(stats.distribution[star] / stats.reviewCount) * 100}%`,
+                              },
+                            ]}
+                          />
+                        </View>
+                      </View>
+                    ))}
                   </View>
-                  <ThemedText type="small" secondary>{day.location}</ThemedText>
+                </Card>
+              ) : null}
+
+              {eligibility?.canReview ? (
+                <Card style={styles.reviewForm}>
+                  <ThemedText type="h4">Rate your visit</ThemedText>
+                  <Spacer size="sm" />
+                  <StarRating
+                    rating={draftRating}
+                    size={28}
+                    onChange={setDraftRating}
+                  />
+                  <Spacer size="md" />
+                  <TextInput
+                    style={[
+                      styles.reviewInput,
+                      {
+                        backgroundColor: theme.backgroundSecondary,
+                        color: theme.text,
+                      },
+                    ]}
+                    placeholder="What did you order? How was it?"
+                    placeholderTextColor={theme.textSecondary}
+                    value={draftText}
+                    onChangeText={setDraftText}
+                    multiline
+                    maxLength={1000}
+                  />
+                  <Spacer size="md" />
+                  <Button
+                    onPress={handleSubmitReview}
+                    disabled={isSubmittingReview}
+                  >
+                    {isSubmittingReview ? "Posting..." : "Post Review"}
+                  </Button>
+                </Card>
+              ) : eligibility?.reason === "no_verified_redemption" ? (
+                <ThemedText type="small" secondary style={styles.reviewHint}>
+                  Redeem a deal here to leave a review.
+                </ThemedText>
+              ) : null}
+
+              {reviewPage && reviewPage.reviews.length > 0 ? (
+                <>
+                  {reviewPage.reviews.map((review) => (
+                    <ReviewCard key={review.id} review={review} />
+                  ))}
+                  {reviewPage.hasMore ? (
+                    <Pressable
+                      style={[
+                        styles.loadMore,
+                        { backgroundColor: theme.backgroundSecondary },
+                      ]}
+                      onPress={() => loadReviews(reviewPage.reviews.length)}
+                      disabled={isLoadingReviews}
+                    >
+                      {isLoadingReviews ? (
+                        <ActivityIndicator
+                          size="small"
+                          color={Colors.primary}
+                        />
+                      ) : (
+                        <ThemedText
+                          type="small"
+                          style={{ color: Colors.primary, fontWeight: "600" }}
+                        >
+                          Load more reviews
+                        </ThemedText>
+                      )}
+                    </Pressable>
+                  ) : null}
+                </>
+              ) : isLoadingReviews ? (
+                <ActivityIndicator size="small" color={Colors.primary} />
+              ) : (
+                <View style={styles.emptyTab}>
+                  <Feather
+                    name="message-square"
+                    size={32}
+                    color={theme.textSecondary}
+                  />
+                  <ThemedText type="body" secondary style={styles.emptyText}>
+                    No reviews yet
+                  </ThemedText>
                 </View>
-              ))}
-            </Card>
+              )}
+            </View>
           ) : null}
         </View>
       </ScrollView>
@@ -268,12 +950,17 @@ export default function VendorDetailScreen() {
       <ShareSheet
         visible={showShareSheet}
         onClose={() => setShowShareSheet(false)}
+        onShared={() => {
+          analyticsTracker.track("share", vendorId);
+          recordShare(vendorId);
+        }}
         truckData={{
           truckName: vendor.name,
           location: vendor.address || vendor.city || undefined,
-          isOpen: vendor.isOpen,
+          isOpen,
           cuisineType: vendor.cuisine,
-          deal: deals.length > 0 ? `${deals.length} deals available!` : undefined,
+          deal:
+            deals.length > 0 ? `${deals.length} deals available!` : undefined,
         }}
       />
     </ThemedView>
@@ -288,6 +975,16 @@ const styles = StyleSheet.create({
     width: "100%",
     height: 220,
   },
+  photoStrip: {
+    gap: Spacing.sm,
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.md,
+  },
+  photoStripImage: {
+    width: 64,
+    height: 64,
+    borderRadius: BorderRadius.sm,
+  },
   content: {
     padding: Spacing.lg,
   },
@@ -381,6 +1078,18 @@ const styles = StyleSheet.create({
     textDecorationLine: "line-through",
     opacity: 0.5,
   },
+  appliesToRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    marginTop: Spacing.sm,
+  },
+  menuSection: {
+    marginBottom: Spacing.lg,
+  },
+  menuSectionTitle: {
+    marginBottom: Spacing.sm,
+  },
   menuCard: {
     padding: 0,
   },
@@ -388,8 +1097,24 @@ const styles = StyleSheet.create({
     flexDirection: "row",
     justifyContent: "space-between",
     alignItems: "center",
+    gap: Spacing.md,
     padding: Spacing.md,
   },
+  menuItemPhoto: {
+    width: 56,
+    height: 56,
+    borderRadius: BorderRadius.xs,
+  },
+  menuItemInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  menuItemTags: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.xs,
+    marginTop: Spacing.xs,
+  },
   scheduleCard: {
     padding: 0,
   },
@@ -400,6 +1125,12 @@ const styles = StyleSheet.create({
     padding: Spacing.md,
   },
   scheduleDay: {},
+  scheduleShifts: {
+    alignItems: "flex-end",
+  },
+  timezoneNote: {
+    textAlign: "center",
+  },
   emptyTab: {
     alignItems: "center",
     paddingVertical: Spacing["3xl"],
@@ -407,4 +1138,53 @@ const styles = StyleSheet.create({
   emptyText: {
     marginTop: Spacing.md,
   },
+  ratingSummary: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.lg,
+    marginBottom: Spacing.md,
+  },
+  ratingSummaryScore: {
+    alignItems: "center",
+  },
+  ratingBars: {
+    flex: 1,
+    gap: Spacing.xs,
+  },
+  ratingBarRow: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  ratingBarLabel: {
+    width: 14,
+  },
+  ratingBarTrack: {
+    flex: 1,
+    height: 6,
+    borderRadius: 3,
+    overflow: "hidden",
+  },
+  ratingBarFill: {
+    height: "100%",
+    backgroundColor: Colors.accent,
+  },
+  reviewForm: {
+    marginBottom: Spacing.md,
+  },
+  reviewInput: {
+    minHeight: 90,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.sm,
+    textAlignVertical: "top",
+    fontSize: 16,
+  },
+  reviewHint: {
+    textAlign: "center",
+    marginBottom: Spacing.md,
+  },
+  loadMore: {
+    alignItems: "center",
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.sm,
+  },
 });
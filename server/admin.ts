@@ -0,0 +1,985 @@
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import {
+  adminActionSchema,
+  adminRoleChangeSchema,
+  closeReportSchema,
+  createReportSchema,
+  reportStatuses,
+  reportTargetTypes,
+  userRoleEnum,
+  type ContentReport,
+  type InsertAdminAuditEntry,
+  type ReportTargetType,
+  type UserRole,
+} from "../shared/schema";
+import {
+  authMiddleware,
+  requireRole,
+  revokeUserSessions,
+  sanitizeUser,
+} from "./auth";
+import { storage } from "./storage";
+import { forceOffline } from "./live-locations";
+
+const DEFAULT_RESULT_LIMIT = 25;
+const MAX_RESULT_LIMIT = 100;
+// Enough history for the user or listing page; the full log is on /api/admin/audit-log
+const DETAIL_AUDIT_LIMIT = 20;
+
+const booleanQuery = z
+  .enum(["true", "false"])
+  .transform((v) => v === "true")
+  .optional();
+
+const userSearchQuerySchema = z.object({
+  q: z.string().trim().max(100).default(""),
+  role: userRoleEnum.optional(),
+  suspended: booleanQuery,
+});
+
+const listingSearchQuerySchema = z.object({
+  q: z.string().trim().max(100).default(""),
+  hidden: booleanQuery,
+});
+
+const reportQuerySchema = z.object({
+  status: z.enum(reportStatuses).optional(),
+  targetType: z.enum(reportTargetTypes).optional(),
+});
+
+const auditQuerySchema = z.object({
+  adminId: z.string().optional(),
+  targetType: z.string().optional(),
+  targetId: z.string().optional(),
+});
+
+function parseLimit(req: Request): number {
+  const requested = parseInt(req.query.limit as string) || DEFAULT_RESULT_LIMIT;
+  return Math.min(Math.max(requested, 1), MAX_RESULT_LIMIT);
+}
+
+interface AuditedAction {
+  action: string; // e.g. "user.suspend"
+  targetType: string;
+  targetId: string;
+  reason: string;
+  details?: Record<string, unknown>;
+}
+
+// Storage saves the entry in the same transaction as the change it describes
+function auditEntry(req: Request, entry: AuditedAction): InsertAdminAuditEntry {
+  return {
+    adminId: req.user!.userId,
+    ...entry,
+    details: entry.details ?? null,
+  };
+}
+
+// A short description of reported content so the queue can be worked without opening each item
+async function describeReportTarget(
+  targetType: ReportTargetType,
+  targetId: string,
+) {
+  switch (targetType) {
+    case "listing": {
+      const listing = await storage.getVendorListing(targetId);
+      return listing
+        ? { label: listing.businessName, hidden: !!listing.hiddenAt }
+        : null;
+    }
+    case "deal": {
+      const deal = await storage.getDeal(targetId);
+      return deal
+        ? {
+            label: deal.title,
+            vendorId: deal.vendorId,
+            hidden: !!deal.hiddenAt,
+          }
+        : null;
+    }
+    case "review": {
+      const review = await storage.getReview(targetId);
+      return review
+        ? {
+            label: review.text,
+            vendorId: review.vendorId,
+            userId: review.userId,
+            hidden: !!review.hiddenAt,
+          }
+        : null;
+    }
+    case "photo": {
+      const photo = await storage.getPhoto(targetId);
+      return photo
+        ? {
+            label: photo.url,
+            vendorId: photo.vendorId,
+            hidden: !!photo.hiddenAt,
+          }
+        : null;
+    }
+    case "user": {
+      const user = await storage.getUser(targetId);
+      return user
+        ? { label: user.username, suspended: !!user.suspendedAt }
+        : null;
+    }
+  }
+}
+
+async function withTargets(reports: ContentReport[]) {
+  const targets = await Promise.all(
+    reports.map((r) => describeReportTarget(r.targetType, r.targetId)),
+  );
+  return reports.map((report, i) => ({ ...report, target: targets[i] }));
+}
+
+export function registerAdminRoutes(app: Express): void {
+  // ==========================================
+  // AUTHENTICATED ROUTES
+  // ==========================================
+
+  // POST /api/reports - Flag a listing, deal, review, photo or user for an admin to review
+  app.post(
+    "/api/reports",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const data = createReportSchema.parse(req.body);
+        if (!(await describeReportTarget(data.targetType, data.targetId))) {
+          return res.status(404).json({ error: "Reported content not found" });
+        }
+        if (data.targetType === "user" && data.targetId === req.user!.userId) {
+          return res.status(400).json({ error: "You can't report yourself" });
+        }
+
+        const report = await storage.createContentReport({
+          reporterId: req.user!.userId,
+          ...data,
+        });
+        if (!report) {
+          return res.json({ message: "You've already reported this" });
+        }
+
+        res.status(201).json({
+          message: "Thanks, an admin will review it",
+          reportId: report.id,
+        });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error creating report:", error);
+        res.status(500).json({ error: "Failed to report content" });
+      }
+    },
+  );
+
+  // ==========================================
+  // ADMIN AUTHENTICATED ROUTES
+  // ==========================================
+
+  // GET /api/admin/users - Search by email, username or name; filter by role or suspension
+  app.get(
+    "/api/admin/users",
+    authMiddleware,
+    requireRole("admin"),
+    async (req: Request, res: Response) => {
+      try {
+        const { q, ...filters } = userSearchQuerySchema.parse(req.query);
+        const users = await storage.searchUsers(q, filters, parseLimit(req));
+        res.json({ users: users.map(sanitizeUser) });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error searching users:", error);
+        res.status(500).json({ error: "Failed to search users" });
+      }
+    },
+  );
+
+  // GET /api/admin/users/:id - A user with their listing, subscription, payments and moderation history
+  app.get(
+    "/api/admin/users/:id",
+    authMiddleware,
+    requireRole("admin"),
+    async (req: Request, res: Response) => {
+      try {
+        const user = await storage.getUser(req.params.id);
+        if (!user) {
+          return res.status(404).json({ error: "User not found" });
+        }
+
+        // Subscriptions and payments are keyed by the vendor's user id
+        const [listing, subscription, payments, auditLog] = await Promise.all([
+          storage.getVendorListingByUserId(user.id),
+          storage.getSubscriptionByVendorId(user.id),
+          storage.getPaymentHistory(user.id),
+          storage.getAdminAuditLog(
+            { targetType: "user", targetId: user.id },
+            DETAIL_AUDIT_LIMIT,
+          ),
+        ]);
+
+        res.json({
+          user: sanitizeUser(user),
+          listing: listing ?? null,
+          subscription: subscription ?? null,
+          payments,
+          auditLog,
+        });
+      } catch (error) {
+        console.error("Error fetching user:", error);
+        res.status(500).json({ error: "Failed to fetch user" });
+      }
+    },
+  );
+
+  // POST /api/admin/users/:id/suspend - Block sign-in, end the user's sessions and hide their listing and deals
+  app.post(
+    "/api/admin/users/:id/suspend",
+    authMiddleware,
+    requireRole("admin"),
+    async (req: Request, res: Response) => {
+      try {
+        const { reason } = adminActionSchema.parse(req.body);
+        const user = await storage.getUser(req.params.id);
+        if (!user) {
+          return res.status(404).json({ error: "User not found" });
+        }
+        if (user.id === req.user!.userId) {
+          return res
+            .status(400)
+            .json({ error: "You can't suspend your own account" });
+        }
+        if (user.suspendedAt) {
+          return res.status(409).json({ error: "User is already suspended" });
+        }
+
+        const updated = await storage.suspendUser(
+          user.id,
+          reason,
+          auditEntry(req, {
+            action: "user.suspend",
+            targetType: "user",
+            targetId: user.id,
+            reason,
+          }),
+        );
+        if (!updated) {
+          return res.status(409).json({ error: "User is already suspended" });
+        }
+        await revokeUserSessions(user.id);
+        // A suspended vendor's truck comes off the map now rather than when its heartbeats time out
+        const listing = await storage.getVendorListingByUserId(user.id);
+        if (listing) {
+          await forceOffline(listing.id);
+        }
+
+        res.json({ message: "User suspended", user: sanitizeUser(updated) });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error suspending user:", error);
+        res.status(500).json({ error: "Failed to suspend user" });
+      }
+    },
+  );
+
+  // POST /api/admin/users/:id/unsuspend - Let the user sign in again and restore what the suspension hid
+  app.post(
+    "/api/admin/users/:id/unsuspend",
+    authMiddleware,
+    requireRole("admin"),
+    async (req: Request, res: Response) => {
+      try {
+        const { reason } = adminActionSchema.parse(req.body);
+        const user = await storage.getUser(req.params.id);
+        if (!user) {
+          return res.status(404).json({ error: "User not found" });
+        }
+        if (!user.suspendedAt) {
+          return res.status(409).json({ error: "User isn't suspended" });
+        }
+
+        const updated = await storage.unsuspendUser(
+          user.id,
+          auditEntry(req, {
+            action: "user.unsuspend",
+            targetType: "user",
+            targetId: user.id,
+            reason,
+            details: {
+              suspendedAt: user.suspendedAt,
+              suspensionReason: user.suspensionReason,
+            },
+          }),
+        );
+        if (!updated) {
+          return res.status(409).json({ error: "User isn't suspended" });
+        }
+
+        res.json({ message: "User unsuspended", user: sanitizeUser(updated) });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error unsuspending user:", error);
+        res.status(500).json({ error: "Failed to unsuspend user" });
+      }
+    },
+  );
+
+  // PUT /api/admin/users/:id/role - Change a user's role; they sign in again to pick it up
+  app.put(
+    "/api/admin/users/:id/role",
+    authMiddleware,
+    requireRole("admin"),
+    async (req: Request, res: Response) => {
+      try {
+        const { role, reason } = adminRoleChangeSchema.parse(req.body);
+        const user = await storage.getUser(req.params.id);
+        if (!user) {
+          return res.status(404).json({ error: "User not found" });
+        }
+        if (user.id === req.user!.userId) {
+          return res
+            .status(400)
+            .json({ error: "You can't change your own role" });
+        }
+        if (user.role === role) {
+          return res.status(409).json({ error: `User is already a ${role}` });
+        }
+
+        const updated = await storage.changeUserRole(
+          user.id,
+          user.role as UserRole,
+          role,
+          auditEntry(req, {
+            action: "user.role_change",
+            targetType: "user",
+            targetId: user.id,
+            reason,
+            details: { from: user.role, to: role },
+          }),
+        );
+        if (!updated) {
+          return res
+            .status(409)
+            .json({ error: "User's role changed in the meantime" });
+        }
+        // Tokens carry the role, so the old ones have to go
+        await revokeUserSessions(user.id);
+
+        res.json({ message: "Role changed", user: sanitizeUser(updated) });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error changing user role:", error);
+        res.status(500).json({ error: "Failed to change role" });
+      }
+    },
+  );
+
+  // GET /api/admin/listings - Search by business name or city, hidden listings included
+  app.get(
+    "/api/admin/listings",
+    authMiddleware,
+    requireRole("admin"),
+    async (req: Request, res: Response) => {
+      try {
+        const { q, ...filters } = listingSearchQuerySchema.parse(req.query);
+        res.json({
+          listings: await storage.searchVendorListings(
+            q,
+            filters,
+            parseLimit(req),
+          ),
+        });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error searching listings:", error);
+        res.status(500).json({ error: "Failed to search listings" });
+      }
+    },
+  );
+
+  // GET /api/admin/listings/:id - A listing with its owner, every deal, billing and moderation history
+  app.get(
+    "/api/admin/listings/:id",
+    authMiddleware,
+    requireRole("admin"),
+    async (req: Request, res: Response) => {
+      try {
+        const listing = await storage.getVendorListing(req.params.id);
+        if (!listing) {
+          return res.status(404).json({ error: "Listing not found" });
+        }
+
+        const [owner, deals, subscription, payments, auditLog] =
+          await Promise.all([
+            storage.getUser(listing.userId),
+            storage.getDealsByVendor(listing.id),
+            storage.getSubscriptionByVendorId(listing.userId),
+            storage.getPaymentHistory(listing.userId),
+            storage.getAdminAuditLog(
+              { targetType: "listing", targetId: listing.id },
+              DETAIL_AUDIT_LIMIT,
+            ),
+          ]);
+
+        res.json({
+          listing,
+          owner: owner ? sanitizeUser(owner) : null,
+          deals,
+          subscription: subscription ?? null,
+          payments,
+          auditLog,
+        });
+      } catch (error) {
+        console.error("Error fetching listing:", error);
+        res.status(500).json({ error: "Failed to fetch listing" });
+      }
+    },
+  );
+
+  // POST /api/admin/listings/:id/hide - Take a listing out of public results and off the live map
+  app.post(
+    "/api/admin/listings/:id/hide",
+    authMiddleware,
+    requireRole("admin"),
+    async (req: Request, res: Response) => {
+      try {
+        const { reason } = adminActionSchema.parse(req.body);
+        const listing = await storage.getVendorListing(req.params.id);
+        if (!listing) {
+          return res.status(404).json({ error: "Listing not found" });
+        }
+        if (listing.hiddenAt) {
+          return res.status(409).json({ error: "Listing is already hidden" });
+        }
+
+        const updated = await storage.setVendorListingHidden(
+          listing.id,
+          reason,
+          auditEntry(req, {
+            action: "listing.hide",
+            targetType: "listing",
+            targetId: listing.id,
+            reason,
+          }),
+        );
+        if (!updated) {
+          return res.status(409).json({ error: "Listing is already hidden" });
+        }
+        await forceOffline(listing.id);
+
+        res.json({ message: "Listing hidden", listing: updated });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error hiding listing:", error);
+        res.status(500).json({ error: "Failed to hide listing" });
+      }
+    },
+  );
+
+  // POST /api/admin/listings/:id/unhide - Restore a hidden listing
+  app.post(
+    "/api/admin/listings/:id/unhide",
+    authMiddleware,
+    requireRole("admin"),
+    async (req: Request, res: Response) => {
+      try {
+        const { reason } = adminActionSchema.parse(req.body);
+        const listing = await storage.getVendorListing(req.params.id);
+        if (!listing) {
+          return res.status(404).json({ error: "Listing not found" });
+        }
+        if (!listing.hiddenAt) {
+          return res.status(409).json({ error: "Listing isn't hidden" });
+        }
+
+        const updated = await storage.setVendorListingHidden(
+          listing.id,
+          null,
+          auditEntry(req, {
+            action: "listing.unhide",
+            targetType: "listing",
+            targetId: listing.id,
+            reason,
+            details: {
+              hiddenAt: listing.hiddenAt,
+              hiddenReason: listing.hiddenReason,
+            },
+          }),
+        );
+        if (!updated) {
+          return res.status(409).json({ error: "Listing isn't hidden" });
+        }
+
+        res.json({ message: "Listing restored", listing: updated });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error restoring listing:", error);
+        res.status(500).json({ error: "Failed to restore listing" });
+      }
+    },
+  );
+
+  // POST /api/admin/deals/:id/hide - Pull a deal from the feed; the vendor can't reactivate it
+  app.post(
+    "/api/admin/deals/:id/hide",
+    authMiddleware,
+    requireRole("admin"),
+    async (req: Request, res: Response) => {
+      try {
+        const { reason } = adminActionSchema.parse(req.body);
+        const deal = await storage.getDeal(req.params.id);
+        if (!deal) {
+          return res.status(404).json({ error: "Deal not found" });
+        }
+        if (deal.hiddenAt) {
+          return res.status(409).json({ error: "Deal is already hidden" });
+        }
+
+        const updated = await storage.setDealHidden(
+          deal.id,
+          reason,
+          auditEntry(req, {
+            action: "deal.hide",
+            targetType: "deal",
+            targetId: deal.id,
+            reason,
+            details: { vendorId: deal.vendorId },
+          }),
+        );
+        if (!updated) {
+          return res.status(409).json({ error: "Deal is already hidden" });
+        }
+
+        res.json({ message: "Deal hidden", deal: updated });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error hiding deal:", error);
+        res.status(500).json({ error: "Failed to hide deal" });
+      }
+    },
+  );
+
+  // POST /api/admin/deals/:id/unhide - Restore a hidden deal
+  app.post(
+    "/api/admin/deals/:id/unhide",
+    authMiddleware,
+    requireRole("admin"),
+    async (req: Request, res: Response) => {
+      try {
+        const { reason } = adminActionSchema.parse(req.body);
+        const deal = await storage.getDeal(req.params.id);
+        if (!deal) {
+          return res.status(404).json({ error: "Deal not found" });
+        }
+        if (!deal.hiddenAt) {
+          return res.status(409).json({ error: "Deal isn't hidden" });
+        }
+
+        const updated = await storage.setDealHidden(
+          deal.id,
+          null,
+          auditEntry(req, {
+            action: "deal.unhide",
+            targetType: "deal",
+            targetId: deal.id,
+            reason,
+            details: {
+              vendorId: deal.vendorId,
+              hiddenAt: deal.hiddenAt,
+              hiddenReason: deal.hiddenReason,
+            },
+          }),
+        );
+        if (!updated) {
+          return res.status(409).json({ error: "Deal isn't hidden" });
+        }
+
+        res.json({ message: "Deal restored", deal: updated });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error restoring deal:", error);
+        res.status(500).json({ error: "Failed to restore deal" });
+      }
+    },
+  );
+
+  // POST /api/admin/reviews/:id/hide - Take a review out of the listing's reviews and rating
+  app.post(
+    "/api/admin/reviews/:id/hide",
+    authMiddleware,
+    requireRole("admin"),
+    async (req: Request, res: Response) => {
+      try {
+        const { reason } = adminActionSchema.parse(req.body);
+        const review = await storage.getReview(req.params.id);
+        if (!review) {
+          return res.status(404).json({ error: "Review not found" });
+        }
+        if (review.hiddenAt) {
+          return res.status(409).json({ error: "Review is already hidden" });
+        }
+
+        const updated = await storage.setReviewHidden(
+          review.id,
+          reason,
+          auditEntry(req, {
+            action: "review.hide",
+            targetType: "review",
+            targetId: review.id,
+            reason,
+            details: { vendorId: review.vendorId, userId: review.userId },
+          }),
+        );
+        if (!updated) {
+          return res.status(409).json({ error: "Review is already hidden" });
+        }
+
+        res.json({ message: "Review hidden", review: updated });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error hiding review:", error);
+        res.status(500).json({ error: "Failed to hide review" });
+      }
+    },
+  );
+
+  // POST /api/admin/reviews/:id/unhide - Restore a hidden review
+  app.post(
+    "/api/admin/reviews/:id/unhide",
+    authMiddleware,
+    requireRole("admin"),
+    async (req: Request, res: Response) => {
+      try {
+        const { reason } = adminActionSchema.parse(req.body);
+        const review = await storage.getReview(req.params.id);
+        if (!review) {
+          return res.status(404).json({ error: "Review not found" });
+        }
+        if (!review.hiddenAt) {
+          return res.status(409).json({ error: "Review isn't hidden" });
+        }
+
+        const updated = await storage.setReviewHidden(
+          review.id,
+          null,
+          auditEntry(req, {
+            action: "review.unhide",
+            targetType: "review",
+            targetId: review.id,
+            reason,
+            details: {
+              vendorId: review.vendorId,
+              hiddenAt: review.hiddenAt,
+              hiddenReason: review.hiddenReason,
+            },
+          }),
+        );
+        if (!updated) {
+          return res.status(409).json({ error: "Review isn't hidden" });
+        }
+
+        res.json({ message: "Review restored", review: updated });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error restoring review:", error);
+        res.status(500).json({ error: "Failed to restore review" });
+      }
+    },
+  );
+
+  // POST /api/admin/photos/:id/hide - Take a photo out of its gallery
+  app.post(
+    "/api/admin/photos/:id/hide",
+    authMiddleware,
+    requireRole("admin"),
+    async (req: Request, res: Response) => {
+      try {
+        const { reason } = adminActionSchema.parse(req.body);
+        const photo = await storage.getPhoto(req.params.id);
+        if (!photo) {
+          return res.status(404).json({ error: "Photo not found" });
+        }
+        if (photo.hiddenAt) {
+          return res.status(409).json({ error: "Photo is already hidden" });
+        }
+
+        const updated = await storage.setPhotoHidden(
+          photo.id,
+          reason,
+          auditEntry(req, {
+            action: "photo.hide",
+            targetType: "photo",
+            targetId: photo.id,
+            reason,
+            details: {
+              vendorId: photo.vendorId,
+              ownerType: photo.ownerType,
+              ownerId: photo.ownerId,
+            },
+          }),
+        );
+        if (!updated) {
+          return res.status(409).json({ error: "Photo is already hidden" });
+        }
+
+        res.json({ message: "Photo hidden", photo: updated });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error hiding photo:", error);
+        res.status(500).json({ error: "Failed to hide photo" });
+      }
+    },
+  );
+
+  // POST /api/admin/photos/:id/unhide - Restore a hidden photo
+  app.post(
+    "/api/admin/photos/:id/unhide",
+    authMiddleware,
+    requireRole("admin"),
+    async (req: Request, res: Response) => {
+      try {
+        const { reason } = adminActionSchema.parse(req.body);
+        const photo = await storage.getPhoto(req.params.id);
+        if (!photo) {
+          return res.status(404).json({ error: "Photo not found" });
+        }
+        if (!photo.hiddenAt) {
+          return res.status(409).json({ error: "Photo isn't hidden" });
+        }
+
+        const updated = await storage.setPhotoHidden(
+          photo.id,
+          null,
+          auditEntry(req, {
+            action: "photo.unhide",
+            targetType: "photo",
+            targetId: photo.id,
+            reason,
+            details: {
+              vendorId: photo.vendorId,
+              hiddenAt: photo.hiddenAt,
+              hiddenReason: photo.hiddenReason,
+            },
+          }),
+        );
+        if (!updated) {
+          return res.status(409).json({ error: "Photo isn't hidden" });
+        }
+
+        res.json({ message: "Photo restored", photo: updated });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error restoring photo:", error);
+        res.status(500).json({ error: "Failed to restore photo" });
+      }
+    },
+  );
+
+  // GET /api/admin/reports - The report queue, oldest first; defaults to open reports
+  app.get(
+    "/api/admin/reports",
+    authMiddleware,
+    requireRole("admin"),
+    async (req: Request, res: Response) => {
+      try {
+        const { status = "open", targetType } = reportQuerySchema.parse(
+          req.query,
+        );
+        const reports = await storage.getContentReports(
+          { status, targetType },
+          parseLimit(req),
+        );
+        res.json({ reports: await withTargets(reports) });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error fetching reports:", error);
+        res.status(500).json({ error: "Failed to fetch reports" });
+      }
+    },
+  );
+
+  // POST /api/admin/reports/:id/close - Resolve or dismiss a report. Acting on the content
+  // itself (hiding, suspending) is a separate call with its own audit entry.
+  app.post(
+    "/api/admin/reports/:id/close",
+    authMiddleware,
+    requireRole("admin"),
+    async (req: Request, res: Response) => {
+      try {
+        const { status, reason } = closeReportSchema.parse(req.body);
+        const report = await storage.getContentReport(req.params.id);
+        if (!report) {
+          return res.status(404).json({ error: "Report not found" });
+        }
+
+        const closed = await storage.closeContentReport(
+          report.id,
+          status,
+          req.user!.userId,
+          reason,
+          auditEntry(req, {
+            action: status === "resolved" ? "report.resolve" : "report.dismiss",
+            targetType: "report",
+            targetId: report.id,
+            reason,
+            details: {
+              targetType: report.targetType,
+              targetId: report.targetId,
+            },
+          }),
+        );
+        if (!closed) {
+          return res
+            .status(409)
+            .json({ error: `Report is already ${report.status}` });
+        }
+
+        res.json({ message: `Report ${status}`, report: closed });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error closing report:", error);
+        res.status(500).json({ error: "Failed to close report" });
+      }
+    },
+  );
+
+  // GET /api/admin/subscriptions/:stripeSubscriptionId - Look up a Stripe subscription's vendor and payments
+  app.get(
+    "/api/admin/subscriptions/:stripeSubscriptionId",
+    authMiddleware,
+    requireRole("admin"),
+    async (req: Request, res: Response) => {
+      try {
+        const subscription = await storage.getSubscriptionByStripeId(
+          req.params.stripeSubscriptionId,
+        );
+        if (!subscription) {
+          return res.status(404).json({ error: "Subscription not found" });
+        }
+
+        const [owner, listing, payments] = await Promise.all([
+          storage.getUser(subscription.vendorId),
+          storage.getVendorListingByUserId(subscription.vendorId),
+          storage.getPaymentHistory(subscription.vendorId),
+        ]);
+
+        res.json({
+          subscription,
+          owner: owner ? sanitizeUser(owner) : null,
+          listing: listing ?? null,
+          payments,
+        });
+      } catch (error) {
+        console.error("Error fetching subscription:", error);
+        res.status(500).json({ error: "Failed to fetch subscription" });
+      }
+    },
+  );
+
+  // GET /api/admin/audit-log - Admin actions, newest first, optionally for one admin or target
+  app.get(
+    "/api/admin/audit-log",
+    authMiddleware,
+    requireRole("admin"),
+    async (req: Request, res: Response) => {
+      try {
+        const filters = auditQuerySchema.parse(req.query);
+        res.json({
+          entries: await storage.getAdminAuditLog(filters, parseLimit(req)),
+        });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error fetching audit log:", error);
+        res.status(500).json({ error: "Failed to fetch audit log" });
+      }
+    },
+  );
+
+  console.log("Admin routes registered");
+}
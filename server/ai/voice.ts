@@ -1,43 +1,143 @@
 import type { Express, Request, Response } from "express";
+import { z } from "zod";
 import { generateText, transcribeAudio } from "./client";
 import { authMiddleware } from "../auth";
+import {
+  runSearch,
+  searchQuerySchema,
+  DISTANCE_PRESETS_MILES,
+  PRICE_RANGES,
+  type SearchParams,
+} from "../search";
+
+interface ParsedSearchQuery {
+  cuisine?: string | null;
+  keywords?: string[];
+  priceRange?: string | null;
+  distance?: string | null;
+  openNow?: boolean | null;
+}
+
+// Where to search from; checked before any audio is transcribed
+const voiceOriginSchema = z.object({
+  lat: z.number().min(-90).max(90).optional(),
+  lng: z.number().min(-180).max(180).optional(),
+});
+
+// Ask the model to turn a spoken query into structured search parameters
+async function parseSearchQuery(query: string): Promise<ParsedSearchQuery> {
+  const safeQuery = String(query).slice(0, 300);
+
+  const prompt = `Extract search parameters from this voice query about finding food deals:
+
+Query: "${safeQuery}"
+
+Return JSON with:
+{
+  "cuisine": "extracted cuisine type or null",
+  "keywords": ["key", "search", "terms"],
+  "priceRange": "budget/moderate/premium or null",
+  "distance": "nearby/walking/driving or null",
+  "openNow": true if they want places that are open right now, otherwise false
+}
+
+Only return valid JSON.`;
+
+  const result = await generateText(prompt, {
+    systemPrompt:
+      "You are a search query parser. Always respond with valid JSON only.",
+    maxTokens: 128,
+    temperature: 0.3,
+  });
+
+  const jsonMatch = result.match(/\{[\s\S]*\}/);
+  try {
+    return jsonMatch
+      ? JSON.parse(jsonMatch[0])
+      : { keywords: safeQuery.split(" ") };
+  } catch {
+    return { keywords: safeQuery.split(" ") };
+  }
+}
+
+// Map parsed voice parameters onto /api/search filters, dropping anything unrecognised
+function toSearchParams(
+  parsed: ParsedSearchQuery,
+  origin: { lat?: number; lng?: number },
+): SearchParams {
+  const keywords = Array.isArray(parsed.keywords)
+    ? parsed.keywords.map(String)
+    : [];
+  const terms = [parsed.cuisine, ...keywords].filter(
+    (t): t is string => typeof t === "string" && t.length > 0,
+  );
+  const hasOrigin =
+    typeof origin.lat === "number" && typeof origin.lng === "number";
+
+  return searchQuerySchema.parse({
+    q: Array.from(new Set(terms)).join(" ").slice(0, 200),
+    priceRange:
+      parsed.priceRange && Object.hasOwn(PRICE_RANGES, parsed.priceRange)
+        ? parsed.priceRange
+        : undefined,
+    distance:
+      hasOrigin &&
+      parsed.distance &&
+      Object.hasOwn(DISTANCE_PRESETS_MILES, parsed.distance)
+        ? parsed.distance
+        : undefined,
+    openNow: parsed.openNow === true ? "true" : undefined,
+    lat: hasOrigin ? origin.lat : undefined,
+    lng: hasOrigin ? origin.lng : undefined,
+  });
+}
 
 export function registerVoiceRoutes(app: Express): void {
   // Transcribe audio using OpenAI Whisper
-  app.post("/api/voice/transcribe", authMiddleware, async (req: Request, res: Response) => {
-    try {
-      const { audioData, mimeType = "audio/webm" } = req.body;
+  app.post(
+    "/api/voice/transcribe",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const { audioData, mimeType = "audio/webm" } = req.body;
 
-      if (!audioData) {
-        return res.status(400).json({ error: "Audio data is required" });
-      }
+        if (!audioData) {
+          return res.status(400).json({ error: "Audio data is required" });
+        }
 
-      // Convert base64 to buffer
-      const audioBuffer = Buffer.from(audioData, "base64");
-      const transcription = await transcribeAudio(audioBuffer, mimeType);
+        // Convert base64 to buffer
+        const audioBuffer = Buffer.from(audioData, "base64");
+        const transcription = await transcribeAudio(audioBuffer, mimeType);
 
-      res.json({ transcription });
-    } catch (error) {
-      console.error("Error transcribing audio:", error);
-      res.status(500).json({ error: "Failed to transcribe audio" });
-    }
-  });
+        res.json({ transcription });
+      } catch (error) {
+        console.error("Error transcribing audio:", error);
+        res.status(500).json({ error: "Failed to transcribe audio" });
+      }
+    },
+  );
 
   // Generate promo from description using OpenAI/Anthropic
-  app.post("/api/voice/generate-promo", authMiddleware, async (req: Request, res: Response) => {
-    try {
-      const { description, businessType, dealType } = req.body;
+  app.post(
+    "/api/voice/generate-promo",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const { description, businessType, dealType } = req.body;
 
-      if (!description) {
-        return res.status(400).json({ error: "Description is required" });
-      }
+        if (!description) {
+          return res.status(400).json({ error: "Description is required" });
+        }
 
-      // Sanitize inputs to prevent prompt injection
-      const safeDescription = String(description).slice(0, 500);
-      const safeBusinessType = String(businessType || "restaurant").slice(0, 50);
-      const safeDealType = String(dealType || "discount").slice(0, 50);
+        // Sanitize inputs to prevent prompt injection
+        const safeDescription = String(description).slice(0, 500);
+        const safeBusinessType = String(businessType || "restaurant").slice(
+          0,
+          50,
+        );
+        const safeDealType = String(dealType || "discount").slice(0, 50);
 
-      const prompt = `Based on this description, create a professional promotional deal:
+        const prompt = `Based on this description, create a professional promotional deal:
 
 Description: "${safeDescription}"
 Business Type: ${safeBusinessType}
@@ -52,74 +152,106 @@ Generate a JSON response with:
 
 Be creative, engaging, and make the offer sound irresistible. Only return valid JSON.`;
 
-      const result = await generateText(prompt, {
-        systemPrompt: "You are a marketing expert for local restaurants and food businesses. Always respond with valid JSON only.",
-        maxTokens: 256,
-        temperature: 0.8,
-      });
+        const result = await generateText(prompt, {
+          systemPrompt:
+            "You are a marketing expert for local restaurants and food businesses. Always respond with valid JSON only.",
+          maxTokens: 256,
+          temperature: 0.8,
+        });
 
-      const jsonMatch = result.match(/\{[\s\S]*\}/);
-      let promoData;
-      try {
-        promoData = jsonMatch
-          ? JSON.parse(jsonMatch[0])
-          : { title: safeDescription, description: "", suggestedDiscount: "10%" };
-      } catch {
-        promoData = { title: safeDescription, description: "", suggestedDiscount: "10%" };
-      }
+        const jsonMatch = result.match(/\{[\s\S]*\}/);
+        let promoData;
+        try {
+          promoData = jsonMatch
+            ? JSON.parse(jsonMatch[0])
+            : {
+                title: safeDescription,
+                description: "",
+                suggestedDiscount: "10%",
+              };
+        } catch {
+          promoData = {
+            title: safeDescription,
+            description: "",
+            suggestedDiscount: "10%",
+          };
+        }
 
-      res.json(promoData);
-    } catch (error) {
-      console.error("Error generating promo:", error);
-      res.status(500).json({ error: "Failed to generate promotion" });
-    }
-  });
+        res.json(promoData);
+      } catch (error) {
+        console.error("Error generating promo:", error);
+        res.status(500).json({ error: "Failed to generate promotion" });
+      }
+    },
+  );
 
   // Parse voice search query using OpenAI/Anthropic
-  app.post("/api/voice/search-deals", authMiddleware, async (req: Request, res: Response) => {
-    try {
-      const { query } = req.body;
+  app.post(
+    "/api/voice/search-deals",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const { query } = req.body;
 
-      if (!query) {
-        return res.status(400).json({ error: "Query is required" });
-      }
+        if (!query) {
+          return res.status(400).json({ error: "Query is required" });
+        }
 
-      const safeQuery = String(query).slice(0, 300);
+        const searchParams = await parseSearchQuery(query);
 
-      const prompt = `Extract search parameters from this voice query about finding food deals:
+        res.json(searchParams);
+      } catch (error) {
+        console.error("Error parsing search:", error);
+        res.status(500).json({ error: "Failed to parse search query" });
+      }
+    },
+  );
 
-Query: "${safeQuery}"
+  // Full voice search: audio (or typed text) -> transcription -> parsed params -> results
+  app.post(
+    "/api/voice/search",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const { audioData, mimeType = "audio/webm", query } = req.body;
 
-Return JSON with:
-{
-  "cuisine": "extracted cuisine type or null",
-  "keywords": ["key", "search", "terms"],
-  "priceRange": "budget/moderate/premium or null",
-  "distance": "nearby/walking/driving or null"
-}
+        if (!audioData && !query) {
+          return res
+            .status(400)
+            .json({ error: "Audio data or query is required" });
+        }
+        const origin = voiceOriginSchema.parse({
+          lat: req.body.lat,
+          lng: req.body.lng,
+        });
 
-Only return valid JSON.`;
+        const transcription = audioData
+          ? await transcribeAudio(Buffer.from(audioData, "base64"), mimeType)
+          : String(query).slice(0, 300);
 
-      const result = await generateText(prompt, {
-        systemPrompt: "You are a search query parser. Always respond with valid JSON only.",
-        maxTokens: 128,
-        temperature: 0.3,
-      });
+        // Fall back to a plain keyword search if the parser is unavailable
+        let parsed: ParsedSearchQuery;
+        try {
+          parsed = await parseSearchQuery(transcription);
+        } catch (error) {
+          console.error("Error parsing voice search, using keywords:", error);
+          parsed = { keywords: transcription.split(" ") };
+        }
 
-      const jsonMatch = result.match(/\{[\s\S]*\}/);
-      let searchParams;
-      try {
-        searchParams = jsonMatch
-          ? JSON.parse(jsonMatch[0])
-          : { keywords: safeQuery.split(" ") };
-      } catch {
-        searchParams = { keywords: safeQuery.split(" ") };
-      }
+        const params = toSearchParams(parsed, origin);
+        const results = await runSearch(params);
 
-      res.json(searchParams);
-    } catch (error) {
-      console.error("Error parsing search:", error);
-      res.status(500).json({ error: "Failed to parse search query" });
-    }
-  });
+        res.json({ transcription, params: parsed, ...results });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error running voice search:", error);
+        res.status(500).json({ error: "Failed to run voice search" });
+      }
+    },
+  );
 }
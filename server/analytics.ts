@@ -0,0 +1,298 @@
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import {
+  analyticsBatchSchema,
+  calendarDateSchema,
+  type AnalyticsEventType,
+  type AnalyticsPeriod,
+  type InsertAnalyticsEvent,
+  type VendorListing,
+} from "../shared/schema";
+import { authMiddleware, optionalAuth } from "./auth";
+import { storage } from "./storage";
+import { addDays, getLocalTime } from "./hours";
+
+// Events queued on a phone that was offline longer than this are dropped
+const MAX_EVENT_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+// Allowance for device clocks running ahead
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 7;
+// Longest range (in days) each granularity can return
+const MAX_RANGE_DAYS: Record<AnalyticsPeriod, number> = { day: 366, hour: 14 };
+
+export interface AnalyticsCounts {
+  impressions: number;
+  pageViews: number;
+  directions: number;
+  shares: number;
+  redemptions: number;
+  clicks: number; // Page views plus direction taps
+  revenue: number; // Dollars, from redeemed deals
+}
+
+const COUNT_FIELDS: Record<AnalyticsEventType, keyof AnalyticsCounts> = {
+  impression: "impressions",
+  page_view: "pageViews",
+  directions: "directions",
+  share: "shares",
+  redemption: "redemptions",
+};
+
+function emptyCounts(): AnalyticsCounts {
+  return {
+    impressions: 0,
+    pageViews: 0,
+    directions: 0,
+    shares: 0,
+    redemptions: 0,
+    clicks: 0,
+    revenue: 0,
+  };
+}
+
+// Rollup buckets for an instant in the vendor's timezone: "2026-10-19T07" and "2026-10-19"
+function getBuckets(
+  date: Date,
+  timeZone: string,
+): Record<AnalyticsPeriod, string> {
+  const local = getLocalTime(date, timeZone);
+  const hour = String(Math.floor(local.minutes / 60)).padStart(2, "0");
+  return { hour: `${local.date}T${hour}`, day: local.date };
+}
+
+// Every bucket in a range of local dates, oldest first
+function listBuckets(
+  from: string,
+  to: string,
+  period: AnalyticsPeriod,
+): string[] {
+  const buckets: string[] = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    if (period === "day") {
+      buckets.push(date);
+    } else {
+      for (let hour = 0; hour < 24; hour++) {
+        buckets.push(`${date}T${String(hour).padStart(2, "0")}`);
+      }
+    }
+  }
+  return buckets;
+}
+
+interface RollupIncrement {
+  vendorId: string;
+  dealId: string;
+  period: AnalyticsPeriod;
+  bucket: string;
+  type: AnalyticsEventType;
+  count: number;
+  value: number;
+}
+
+/**
+ * Append a vendor's events and add them to its hourly and daily rollups,
+ * both vendor-wide and for the deal each event concerns.
+ */
+export async function recordAnalyticsEvents(
+  listing: VendorListing,
+  events: InsertAnalyticsEvent[],
+): Promise<void> {
+  const increments = new Map<string, RollupIncrement>();
+  for (const event of events) {
+    const buckets = getBuckets(event.occurredAt, listing.timezone);
+    for (const dealId of event.dealId ? ["", event.dealId] : [""]) {
+      for (const period of ["hour", "day"] as const) {
+        const key = [dealId, period, buckets[period], event.type].join("|");
+        const increment = increments.get(key) ?? {
+          vendorId: listing.id,
+          dealId,
+          period,
+          bucket: buckets[period],
+          type: event.type as AnalyticsEventType,
+          count: 0,
+          value: 0,
+        };
+        increment.count += 1;
+        increment.value += event.value ?? 0;
+        increments.set(key, increment);
+      }
+    }
+  }
+
+  await storage.createAnalyticsEvents(events);
+  await storage.incrementAnalyticsRollups(Array.from(increments.values()));
+}
+
+const analyticsQuerySchema = z
+  .object({
+    from: calendarDateSchema.optional(),
+    to: calendarDateSchema.optional(),
+    granularity: z.enum(["day", "hour"]).default("day"),
+    dealId: z.string().min(1).optional(),
+  })
+  .refine((q) => !q.from || !q.to || q.from <= q.to, {
+    message: "from must be on or before to",
+  });
+
+export function registerAnalyticsRoutes(app: Express): void {
+  // ==========================================
+  // PUBLIC ROUTES (No auth required)
+  // ==========================================
+
+  // POST /api/analytics/events - Batched impressions, page views, direction taps and shares
+  app.post(
+    "/api/analytics/events",
+    optionalAuth,
+    async (req: Request, res: Response) => {
+      try {
+        const { events } = analyticsBatchSchema.parse(req.body);
+
+        const vendorIds = Array.from(new Set(events.map((e) => e.vendorId)));
+        const dealIds = Array.from(
+          new Set(events.filter((e) => e.dealId).map((e) => e.dealId!)),
+        );
+        const [listings, deals] = await Promise.all([
+          Promise.all(vendorIds.map((id) => storage.getVendorListing(id))),
+          Promise.all(dealIds.map((id) => storage.getDeal(id))),
+        ]);
+        const listingById = new Map(
+          listings.filter((l) => !!l).map((l) => [l!.id, l!]),
+        );
+        const dealVendor = new Map(
+          deals.filter((d) => !!d).map((d) => [d!.id, d!.vendorId]),
+        );
+
+        const now = Date.now();
+        const byVendor = new Map<string, InsertAnalyticsEvent[]>();
+        for (const event of events) {
+          const listing = listingById.get(event.vendorId);
+          const occurredAt = event.occurredAt ?? new Date(now);
+          const age = now - occurredAt.getTime();
+          // Unknown vendors, deals at another vendor, stale events and vendors viewing themselves don't count
+          if (
+            !listing ||
+            (event.dealId && dealVendor.get(event.dealId) !== listing.id) ||
+            age > MAX_EVENT_AGE_MS ||
+            age < -MAX_CLOCK_SKEW_MS ||
+            listing.userId === req.user?.userId
+          ) {
+            continue;
+          }
+
+          byVendor.set(listing.id, [
+            ...(byVendor.get(listing.id) ?? []),
+            {
+              vendorId: listing.id,
+              dealId: event.dealId ?? null,
+              type: event.type,
+              userId: req.user?.userId ?? null,
+              occurredAt: age < 0 ? new Date(now) : occurredAt,
+            },
+          ]);
+        }
+
+        let accepted = 0;
+        for (const [vendorId, vendorEvents] of Array.from(byVendor.entries())) {
+          await recordAnalyticsEvents(listingById.get(vendorId)!, vendorEvents);
+          accepted += vendorEvents.length;
+        }
+
+        res.status(202).json({ accepted, rejected: events.length - accepted });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error recording analytics events:", error);
+        res.status(500).json({ error: "Failed to record events" });
+      }
+    },
+  );
+
+  // ==========================================
+  // VENDOR AUTHENTICATED ROUTES
+  // ==========================================
+
+  // GET /api/vendors/analytics?from=&to=&granularity=&dealId= - Totals and trend for a range of local dates
+  app.get(
+    "/api/vendors/analytics",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const listing = await storage.getVendorListingByUserId(
+          req.user!.userId,
+        );
+        if (!listing) {
+          return res.status(404).json({ error: "No listing found" });
+        }
+
+        const query = analyticsQuerySchema.parse(req.query);
+        const to = query.to ?? getLocalTime(new Date(), listing.timezone).date;
+        const from = query.from ?? addDays(to, -(DEFAULT_RANGE_DAYS - 1));
+        const maxDays = MAX_RANGE_DAYS[query.granularity];
+        if (from < addDays(to, -(maxDays - 1))) {
+          return res.status(400).json({
+            error: `Ranges are limited to ${maxDays} days at ${query.granularity} granularity`,
+          });
+        }
+
+        if (query.dealId) {
+          const deal = await storage.getDeal(query.dealId);
+          if (!deal || deal.vendorId !== listing.id) {
+            return res.status(404).json({ error: "Deal not found" });
+          }
+        }
+
+        const buckets = listBuckets(from, to, query.granularity);
+        const rollups = await storage.getAnalyticsRollups(
+          listing.id,
+          query.dealId ?? "",
+          query.granularity,
+          buckets[0],
+          buckets[buckets.length - 1],
+        );
+
+        const series = new Map(
+          buckets.map((bucket) => [bucket, emptyCounts()]),
+        );
+        const totals = emptyCounts();
+        for (const rollup of rollups) {
+          const field = COUNT_FIELDS[rollup.type as AnalyticsEventType];
+          const point = series.get(rollup.bucket);
+          if (!field || !point) continue;
+          for (const counts of [point, totals]) {
+            counts[field] += rollup.count;
+            counts.revenue += rollup.value;
+          }
+        }
+        for (const counts of [...Array.from(series.values()), totals]) {
+          counts.clicks = counts.pageViews + counts.directions;
+          counts.revenue = Math.round(counts.revenue * 100) / 100;
+        }
+
+        res.json({
+          from,
+          to,
+          timezone: listing.timezone,
+          granularity: query.granularity,
+          dealId: query.dealId ?? null,
+          totals,
+          trend: buckets.map((bucket) => ({ bucket, ...series.get(bucket)! })),
+        });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error fetching vendor analytics:", error);
+        res.status(500).json({ error: "Failed to fetch analytics" });
+      }
+    },
+  );
+
+  console.log("Analytics routes registered");
+}
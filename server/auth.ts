@@ -5,6 +5,7 @@ import * as jose from "jose";
 import { z } from "zod";
 import { storage } from "./storage";
 import { sendPasswordResetEmail } from "./email";
+import { recordSignUpReward } from "./rewards";
 import {
   registerUserSchema,
   loginUserSchema,
@@ -15,13 +16,19 @@ import {
 } from "../shared/schema";
 
 // JWT configuration
-const JWT_SECRET = process.env.JWT_SECRET || "your-super-secret-jwt-key-change-in-production";
+const JWT_SECRET =
+  process.env.JWT_SECRET || "your-super-secret-jwt-key-change-in-production";
 const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || "7d";
+// Separate key so a redemption token can never pass as an access token
+const REDEMPTION_TOKEN_SECRET =
+  process.env.REDEMPTION_TOKEN_SECRET || `${JWT_SECRET}:redemption`;
 const BCRYPT_ROUNDS = 12;
 
 // Warn if using default JWT secret in production
 if (process.env.NODE_ENV === "production" && !process.env.JWT_SECRET) {
-  console.error("[Auth] WARNING: Using default JWT_SECRET in production is insecure!");
+  console.error(
+    "[Auth] WARNING: Using default JWT_SECRET in production is insecure!",
+  );
 }
 
 // Token payload type
@@ -49,19 +56,25 @@ const refreshTokens = new Map<string, RefreshTokenEntry>();
 const REFRESH_TOKEN_EXPIRY_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
 
 // Periodic cleanup of expired refresh tokens (every 6 hours)
-setInterval(() => {
-  const now = Date.now();
-  let cleaned = 0;
-  for (const [key, entry] of refreshTokens) {
-    if (now > entry.expiresAt) {
-      refreshTokens.delete(key);
-      cleaned++;
+setInterval(
+  () => {
+    const now = Date.now();
+    let cleaned = 0;
+    for (const [key, entry] of refreshTokens) {
+      if (now > entry.expiresAt) {
+        refreshTokens.delete(key);
+        cleaned++;
+      }
     }
-  }
-  if (cleaned > 0) {
-    console.log(`[Auth] Cleaned ${cleaned} expired refresh tokens`);
-  }
-}, 6 * 60 * 60 * 1000);
+    if (cleaned > 0) {
+      console.log(`[Auth] Cleaned ${cleaned} expired refresh tokens`);
+    }
+  },
+  6 * 60 * 60 * 1000,
+);
+
+const SUSPENDED_ERROR =
+  "This account has been suspended. Contact support if you think this is a mistake.";
 
 // Password reset codes store (in-memory - consider Redis for production scaling)
 interface ResetCode {
@@ -93,8 +106,12 @@ function cleanExpiredResetCodes() {
 // ===========================================
 
 function generateTokens(payload: TokenPayload) {
-  const accessToken = jwt.sign(payload, JWT_SECRET, { expiresIn: JWT_EXPIRES_IN } as any);
-  const refreshToken = jwt.sign(payload, JWT_SECRET, { expiresIn: "30d" } as any);
+  const accessToken = jwt.sign(payload, JWT_SECRET, {
+    expiresIn: JWT_EXPIRES_IN,
+  } as any);
+  const refreshToken = jwt.sign(payload, JWT_SECRET, {
+    expiresIn: "30d",
+  } as any);
   refreshTokens.set(refreshToken, {
     token: refreshToken,
     expiresAt: Date.now() + REFRESH_TOKEN_EXPIRY_MS,
@@ -102,7 +119,40 @@ function generateTokens(payload: TokenPayload) {
   return { accessToken, refreshToken };
 }
 
-function sanitizeUser(user: User): SafeUser {
+// Tokens carry their issue time in whole seconds, so one from a sign-in in the
+// same second as the revocation is still accepted
+function isRevoked(
+  decoded: TokenPayload & { iat?: number },
+  user: User,
+): boolean {
+  if (!user.tokensRevokedAt) return false;
+  return (decoded.iat ?? 0) < Math.floor(user.tokensRevokedAt.getTime() / 1000);
+}
+
+/**
+ * Sign a user out everywhere, e.g. after a suspension or a role change so
+ * their next token carries the new role. The revocation is stored on the user,
+ * so existing access tokens stop working on every instance and across restarts.
+ */
+export async function revokeUserSessions(userId: string): Promise<void> {
+  await storage.updateUser(userId, { tokensRevokedAt: new Date() });
+  for (const token of refreshTokens.keys()) {
+    const payload = jwt.decode(token) as TokenPayload | null;
+    if (payload?.userId === userId) {
+      refreshTokens.delete(token);
+    }
+  }
+}
+
+// New customers start with the "welcome" achievement; the account stands even if it can't be paid now
+async function awardSignUp(user: User): Promise<void> {
+  if (user.role !== "customer") return;
+  await recordSignUpReward(user.id).catch((error) => {
+    console.error("Error awarding sign-up points:", error);
+  });
+}
+
+export function sanitizeUser(user: User): SafeUser {
   const { password, appleId, googleId, ...safeUser } = user as any;
   return safeUser as SafeUser;
 }
@@ -127,7 +177,9 @@ interface SocialTokenPayload {
   isPrivateEmail?: boolean;
 }
 
-async function verifyAppleIdentityToken(identityToken: string): Promise<SocialTokenPayload> {
+async function verifyAppleIdentityToken(
+  identityToken: string,
+): Promise<SocialTokenPayload> {
   const JWKS = jose.createRemoteJWKSet(new URL(APPLE_JWKS_URL));
 
   const { payload } = await jose.jwtVerify(identityToken, JWKS, {
@@ -142,8 +194,10 @@ async function verifyAppleIdentityToken(identityToken: string): Promise<SocialTo
   return {
     sub: payload.sub as string,
     email: payload.email as string | undefined,
-    emailVerified: payload.email_verified === "true" || payload.email_verified === true,
-    isPrivateEmail: payload.is_private_email === "true" || payload.is_private_email === true,
+    emailVerified:
+      payload.email_verified === "true" || payload.email_verified === true,
+    isPrivateEmail:
+      payload.is_private_email === "true" || payload.is_private_email === true,
   };
 }
 
@@ -151,7 +205,9 @@ async function verifyAppleIdentityToken(identityToken: string): Promise<SocialTo
 const GOOGLE_JWKS_URL = "https://www.googleapis.com/oauth2/v3/certs";
 const GOOGLE_ISSUER = ["https://accounts.google.com", "accounts.google.com"];
 
-async function verifyGoogleIdentityToken(identityToken: string): Promise<SocialTokenPayload> {
+async function verifyGoogleIdentityToken(
+  identityToken: string,
+): Promise<SocialTokenPayload> {
   const JWKS = jose.createRemoteJWKSet(new URL(GOOGLE_JWKS_URL));
 
   const { payload } = await jose.jwtVerify(identityToken, JWKS, {
@@ -238,12 +294,16 @@ async function seedReviewAccount() {
         firstName: "Apple",
         lastName: "Review",
       });
-      console.log("[Auth] Apple review account seeded: review@smartdealsiq.com");
+      console.log(
+        "[Auth] Apple review account seeded: review@smartdealsiq.com",
+      );
     } else {
       // Ensure password stays in sync — update it on every startup
       const hashedPassword = await bcrypt.hash(REVIEW_PASSWORD, BCRYPT_ROUNDS);
       await storage.updateUser(existing.id, { password: hashedPassword });
-      console.log("[Auth] Apple review account verified: review@smartdealsiq.com");
+      console.log(
+        "[Auth] Apple review account verified: review@smartdealsiq.com",
+      );
     }
   } catch (error) {
     console.warn("[Auth] Could not seed review account:", error);
@@ -254,7 +314,43 @@ async function seedReviewAccount() {
 // MIDDLEWARE
 // ===========================================
 
-export function authMiddleware(req: Request, res: Response, next: NextFunction) {
+/**
+ * Check a verified access token against the user it was issued to. The user
+ * is loaded on every request so suspensions, revocations and role changes
+ * apply immediately rather than when the token expires.
+ */
+async function resolveTokenUser(
+  decoded: TokenPayload & { iat?: number },
+): Promise<
+  { payload: TokenPayload } | { status: number; body: Record<string, unknown> }
+> {
+  const user = await storage.getUser(decoded.userId);
+  if (!user) {
+    return { status: 401, body: { error: "Invalid token" } };
+  }
+  if (user.suspendedAt) {
+    return { status: 403, body: { error: SUSPENDED_ERROR, suspended: true } };
+  }
+  if (isRevoked(decoded, user)) {
+    return {
+      status: 401,
+      body: { error: "Session ended. Please sign in again." },
+    };
+  }
+  return {
+    payload: {
+      userId: user.id,
+      email: user.email,
+      role: user.role as UserRole,
+    },
+  };
+}
+
+export async function authMiddleware(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
   const authHeader = req.headers.authorization;
 
   if (!authHeader || !authHeader.startsWith("Bearer ")) {
@@ -263,16 +359,27 @@ export function authMiddleware(req: Request, res: Response, next: NextFunction)
 
   const token = authHeader.split(" ")[1];
 
+  let decoded: TokenPayload;
   try {
-    const decoded = jwt.verify(token, JWT_SECRET) as TokenPayload;
-    req.user = decoded;
-    next();
+    decoded = jwt.verify(token, JWT_SECRET) as TokenPayload;
   } catch (error) {
     if (error instanceof jwt.TokenExpiredError) {
       return res.status(401).json({ error: "Token expired" });
     }
     return res.status(401).json({ error: "Invalid token" });
   }
+
+  try {
+    const result = await resolveTokenUser(decoded);
+    if (!("payload" in result)) {
+      return res.status(result.status).json(result.body);
+    }
+    req.user = result.payload;
+    next();
+  } catch (error) {
+    console.error("Error checking session:", error);
+    res.status(500).json({ error: "Failed to check session" });
+  }
 }
 
 export function requireRole(...roles: UserRole[]) {
@@ -289,14 +396,21 @@ export function requireRole(...roles: UserRole[]) {
   };
 }
 
-export function optionalAuth(req: Request, res: Response, next: NextFunction) {
+export async function optionalAuth(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
   const authHeader = req.headers.authorization;
 
   if (authHeader && authHeader.startsWith("Bearer ")) {
     const token = authHeader.split(" ")[1];
     try {
       const decoded = jwt.verify(token, JWT_SECRET) as TokenPayload;
-      req.user = decoded;
+      const result = await resolveTokenUser(decoded);
+      if ("payload" in result) {
+        req.user = result.payload;
+      }
     } catch {
       // Token invalid, continue without user
     }
@@ -305,6 +419,40 @@ export function optionalAuth(req: Request, res: Response, next: NextFunction) {
   next();
 }
 
+// ===========================================
+// REDEMPTION TOKENS
+// ===========================================
+
+/**
+ * Sign the token a customer shows (as a QR code) to redeem a claimed deal.
+ * Single use is enforced by the redemption record, not the token.
+ */
+export function signRedemptionToken(
+  redemptionId: string,
+  expiresAt: Date,
+): string {
+  return jwt.sign({ rid: redemptionId }, REDEMPTION_TOKEN_SECRET, {
+    expiresIn: Math.max(
+      Math.floor((expiresAt.getTime() - Date.now()) / 1000),
+      1,
+    ),
+  });
+}
+
+/**
+ * Verify a redemption token and return the redemption id it was issued for.
+ * Throws jwt.TokenExpiredError / jwt.JsonWebTokenError on failure.
+ */
+export function verifyRedemptionToken(token: string): string {
+  const decoded = jwt.verify(token, REDEMPTION_TOKEN_SECRET) as {
+    rid?: string;
+  };
+  if (!decoded.rid) {
+    throw new jwt.JsonWebTokenError("Malformed redemption token");
+  }
+  return decoded.rid;
+}
+
 // ===========================================
 // AUTH ROUTES
 // ===========================================
@@ -337,7 +485,10 @@ export function registerAuthRoutes(app: Express) {
       }
 
       // Hash password
-      const hashedPassword = await bcrypt.hash(normalizedPassword, BCRYPT_ROUNDS);
+      const hashedPassword = await bcrypt.hash(
+        normalizedPassword,
+        BCRYPT_ROUNDS,
+      );
 
       // Create user
       const newUser = await storage.createUser({
@@ -356,7 +507,10 @@ export function registerAuthRoutes(app: Express) {
         role: newUser.role as UserRole,
       });
 
-      console.log(`[Auth] New user registered: ${newUser.email} (${newUser.role})`);
+      console.log(
+        `[Auth] New user registered: ${newUser.email} (${newUser.role})`,
+      );
+      await awardSignUp(newUser);
 
       res.status(201).json({
         message: "Registration successful",
@@ -387,13 +541,20 @@ export function registerAuthRoutes(app: Express) {
       const user = await storage.getUserByEmail(normalizedEmail);
 
       if (!user) {
-        return res.status(401).json({ error: "No account found with this email. Please sign up first." });
+        return res.status(401).json({
+          error: "No account found with this email. Please sign up first.",
+        });
       }
 
       // Social auth users cannot use email/password login
       if (!user.password) {
         const provider = (user as any).authProvider || "social";
-        const providerName = provider === "apple" ? "Sign in with Apple" : provider === "google" ? "Sign in with Google" : "social sign-in";
+        const providerName =
+          provider === "apple"
+            ? "Sign in with Apple"
+            : provider === "google"
+              ? "Sign in with Google"
+              : "social sign-in";
         return res.status(401).json({
           error: `This account uses ${providerName}. Please use that option to sign in.`,
           authProvider: provider,
@@ -401,10 +562,21 @@ export function registerAuthRoutes(app: Express) {
       }
 
       // Verify password
-      const validPassword = await bcrypt.compare(normalizedPassword, user.password);
+      const validPassword = await bcrypt.compare(
+        normalizedPassword,
+        user.password,
+      );
       if (!validPassword) {
         console.log(`[Auth] Invalid password for: ${normalizedEmail}`);
-        return res.status(401).json({ error: "Invalid password. Please try again." });
+        return res
+          .status(401)
+          .json({ error: "Invalid password. Please try again." });
+      }
+
+      if (user.suspendedAt) {
+        return res
+          .status(403)
+          .json({ error: SUSPENDED_ERROR, suspended: true });
       }
 
       // Update last login
@@ -450,17 +622,29 @@ export function registerAuthRoutes(app: Express) {
           return res.status(400).json({ error: "Unsupported auth provider" });
         }
       } catch (verifyError) {
-        console.error(`[Auth] ${data.provider} token verification failed:`, verifyError);
-        return res.status(401).json({ error: `Invalid ${data.provider} identity token` });
+        console.error(
+          `[Auth] ${data.provider} token verification failed:`,
+          verifyError,
+        );
+        return res
+          .status(401)
+          .json({ error: `Invalid ${data.provider} identity token` });
       }
 
       const providerUserId = socialPayload.sub;
       const providerEmail = socialPayload.email?.toLowerCase();
 
       // 1. Check if user already exists by provider ID
-      let user = data.provider === "apple"
-        ? await storage.getUserByAppleId(providerUserId)
-        : await storage.getUserByGoogleId(providerUserId);
+      let user =
+        data.provider === "apple"
+          ? await storage.getUserByAppleId(providerUserId)
+          : await storage.getUserByGoogleId(providerUserId);
+
+      if (user?.suspendedAt) {
+        return res
+          .status(403)
+          .json({ error: SUSPENDED_ERROR, suspended: true });
+      }
 
       if (user) {
         // Existing user — sign them in
@@ -472,7 +656,9 @@ export function registerAuthRoutes(app: Express) {
           role: user.role as UserRole,
         });
 
-        console.log(`[Auth] ${data.provider} Sign-In: existing user ${user.email} (${user.role})`);
+        console.log(
+          `[Auth] ${data.provider} Sign-In: existing user ${user.email} (${user.role})`,
+        );
 
         return res.json({
           message: "Login successful",
@@ -485,6 +671,11 @@ export function registerAuthRoutes(app: Express) {
       // 2. Check if email already exists (account linking)
       if (providerEmail) {
         const existingByEmail = await storage.getUserByEmail(providerEmail);
+        if (existingByEmail?.suspendedAt) {
+          return res
+            .status(403)
+            .json({ error: SUSPENDED_ERROR, suspended: true });
+        }
         if (existingByEmail) {
           // Link provider ID to existing account
           const linkUpdates: Partial<User> = {
@@ -497,7 +688,10 @@ export function registerAuthRoutes(app: Express) {
             (linkUpdates as any).googleId = providerUserId;
           }
 
-          const updatedUser = await storage.updateUser(existingByEmail.id, linkUpdates);
+          const updatedUser = await storage.updateUser(
+            existingByEmail.id,
+            linkUpdates,
+          );
 
           const tokens = generateTokens({
             userId: existingByEmail.id,
@@ -505,7 +699,9 @@ export function registerAuthRoutes(app: Express) {
             role: existingByEmail.role as UserRole,
           });
 
-          console.log(`[Auth] ${data.provider} Sign-In: linked to existing account ${existingByEmail.email} (${existingByEmail.role})`);
+          console.log(
+            `[Auth] ${data.provider} Sign-In: linked to existing account ${existingByEmail.email} (${existingByEmail.role})`,
+          );
 
           return res.json({
             message: "Login successful",
@@ -525,11 +721,18 @@ export function registerAuthRoutes(app: Express) {
       }
 
       // 4. Create new user
-      const emailForUser = providerEmail || `${data.provider}_${providerUserId.slice(0, 8)}@private.smartdealsiq.com`;
-      const baseUsername = (providerEmail?.split("@")[0] || `${data.provider}_${providerUserId.slice(0, 8)}`)
+      const emailForUser =
+        providerEmail ||
+        `${data.provider}_${providerUserId.slice(0, 8)}@private.smartdealsiq.com`;
+      const baseUsername = (
+        providerEmail?.split("@")[0] ||
+        `${data.provider}_${providerUserId.slice(0, 8)}`
+      )
         .replace(/[^a-z0-9]/g, "")
         .slice(0, 24);
-      const suffix = Math.floor(Math.random() * 10000).toString().padStart(4, "0");
+      const suffix = Math.floor(Math.random() * 10000)
+        .toString()
+        .padStart(4, "0");
       const username = (baseUsername || "user") + suffix;
 
       const createData: any = {
@@ -557,7 +760,10 @@ export function registerAuthRoutes(app: Express) {
         role: newUser.role as UserRole,
       });
 
-      console.log(`[Auth] ${data.provider} Sign-In: new user created ${newUser.email} (${newUser.role})`);
+      console.log(
+        `[Auth] ${data.provider} Sign-In: new user created ${newUser.email} (${newUser.role})`,
+      );
+      await awardSignUp(newUser);
 
       return res.status(201).json({
         message: "Registration successful",
@@ -575,7 +781,7 @@ export function registerAuthRoutes(app: Express) {
   });
 
   // Refresh token
-  app.post("/api/auth/refresh", (req: Request, res: Response) => {
+  app.post("/api/auth/refresh", async (req: Request, res: Response) => {
     const { refreshToken } = req.body;
 
     if (!refreshToken) {
@@ -592,175 +798,263 @@ export function registerAuthRoutes(app: Express) {
       // Remove old refresh token
       refreshTokens.delete(refreshToken);
 
+      // Suspended or deleted accounts don't get new tokens
+      const user = await storage.getUser(decoded.userId);
+      if (!user) {
+        return res
+          .status(401)
+          .json({ error: "Invalid or expired refresh token" });
+      }
+      if (user.suspendedAt) {
+        return res
+          .status(403)
+          .json({ error: SUSPENDED_ERROR, suspended: true });
+      }
+      if (isRevoked(decoded, user)) {
+        return res
+          .status(401)
+          .json({ error: "Invalid or expired refresh token" });
+      }
+
       // Generate new tokens
       const tokens = generateTokens({
-        userId: decoded.userId,
-        email: decoded.email,
-        role: decoded.role,
+        userId: user.id,
+        email: user.email,
+        role: user.role as UserRole,
       });
 
       res.json(tokens);
     } catch {
       refreshTokens.delete(refreshToken);
-      return res.status(401).json({ error: "Invalid or expired refresh token" });
+      return res
+        .status(401)
+        .json({ error: "Invalid or expired refresh token" });
     }
   });
 
   // Logout
-  app.post("/api/auth/logout", authMiddleware, (req: Request, res: Response) => {
-    const { refreshToken } = req.body;
+  app.post(
+    "/api/auth/logout",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      const { refreshToken, pushToken } = req.body;
+
+      if (refreshToken) {
+        refreshTokens.delete(refreshToken);
+      }
 
-    if (refreshToken) {
-      refreshTokens.delete(refreshToken);
-    }
+      // The device stops getting this user's pushes once they sign out
+      if (typeof pushToken === "string") {
+        await storage
+          .deleteUserPushToken(req.user!.userId, pushToken)
+          .catch((error) => {
+            console.error(
+              "[Auth] Could not remove push token on logout:",
+              error,
+            );
+          });
+      }
 
-    res.json({ message: "Logged out successfully" });
-  });
+      res.json({ message: "Logged out successfully" });
+    },
+  );
 
   // Get current user
-  app.get("/api/auth/me", authMiddleware, async (req: Request, res: Response) => {
-    const user = await storage.getUser(req.user!.userId);
-
-    if (!user) {
-      return res.status(404).json({ error: "User not found" });
-    }
-
-    res.json({ user: sanitizeUser(user) });
-  });
-
-  // Update profile
-  app.put("/api/auth/profile", authMiddleware, async (req: Request, res: Response) => {
-    try {
+  app.get(
+    "/api/auth/me",
+    authMiddleware,
+    async (req: Request, res: Response) => {
       const user = await storage.getUser(req.user!.userId);
 
       if (!user) {
         return res.status(404).json({ error: "User not found" });
       }
 
-      const { firstName, lastName, phone, username } = req.body;
-      const updates: Partial<User> = {};
+      res.json({ user: sanitizeUser(user) });
+    },
+  );
 
-      // Check username uniqueness if changing
-      if (username && username !== user.username) {
-        const existingUsername = await storage.getUserByUsername(username);
-        if (existingUsername && existingUsername.id !== user.id) {
-          return res.status(400).json({ error: "Username already taken" });
+  // Update profile
+  app.put(
+    "/api/auth/profile",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const user = await storage.getUser(req.user!.userId);
+
+        if (!user) {
+          return res.status(404).json({ error: "User not found" });
         }
-        updates.username = username;
-      }
 
-      if (firstName !== undefined) updates.firstName = firstName;
-      if (lastName !== undefined) updates.lastName = lastName;
-      if (phone !== undefined) updates.phone = phone;
+        const {
+          firstName,
+          lastName,
+          phone,
+          username,
+          shareWithVendors,
+          profileHidden,
+        } = req.body;
+        const updates: Partial<User> = {};
+
+        // Check username uniqueness if changing
+        if (username && username !== user.username) {
+          const existingUsername = await storage.getUserByUsername(username);
+          if (existingUsername && existingUsername.id !== user.id) {
+            return res.status(400).json({ error: "Username already taken" });
+          }
+          updates.username = username;
+        }
 
-      const updatedUser = await storage.updateUser(user.id, updates);
+        if (firstName !== undefined) updates.firstName = firstName;
+        if (lastName !== undefined) updates.lastName = lastName;
+        if (phone !== undefined) updates.phone = phone;
+        if (typeof shareWithVendors === "boolean")
+          updates.shareWithVendors = shareWithVendors;
+        if (typeof profileHidden === "boolean")
+          updates.profileHidden = profileHidden;
 
-      res.json({
-        message: "Profile updated",
-        user: sanitizeUser(updatedUser!),
-      });
-    } catch (error) {
-      console.error("Profile update error:", error);
-      res.status(500).json({ error: "Failed to update profile" });
-    }
-  });
+        const updatedUser = await storage.updateUser(user.id, updates);
+
+        res.json({
+          message: "Profile updated",
+          user: sanitizeUser(updatedUser!),
+        });
+      } catch (error) {
+        console.error("Profile update error:", error);
+        res.status(500).json({ error: "Failed to update profile" });
+      }
+    },
+  );
 
   // Change password
-  app.post("/api/auth/change-password", authMiddleware, async (req: Request, res: Response) => {
-    try {
-      const { currentPassword, newPassword } = req.body;
+  app.post(
+    "/api/auth/change-password",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const { currentPassword, newPassword } = req.body;
 
-      if (!currentPassword || !newPassword) {
-        return res.status(400).json({ error: "Current and new password required" });
-      }
+        if (!currentPassword || !newPassword) {
+          return res
+            .status(400)
+            .json({ error: "Current and new password required" });
+        }
 
-      if (newPassword.length < 8) {
-        return res.status(400).json({ error: "New password must be at least 8 characters" });
-      }
+        if (newPassword.length < 8) {
+          return res
+            .status(400)
+            .json({ error: "New password must be at least 8 characters" });
+        }
 
-      const user = await storage.getUser(req.user!.userId);
+        const user = await storage.getUser(req.user!.userId);
 
-      if (!user) {
-        return res.status(404).json({ error: "User not found" });
-      }
+        if (!user) {
+          return res.status(404).json({ error: "User not found" });
+        }
 
-      // Social auth users without a password can set one
-      if (!user.password) {
-        if (!currentPassword) {
-          const hashedPassword = await bcrypt.hash(newPassword, BCRYPT_ROUNDS);
-          await storage.updateUser(user.id, { password: hashedPassword });
-          return res.json({ message: "Password set successfully" });
+        // Social auth users without a password can set one
+        if (!user.password) {
+          if (!currentPassword) {
+            const hashedPassword = await bcrypt.hash(
+              newPassword,
+              BCRYPT_ROUNDS,
+            );
+            await storage.updateUser(user.id, { password: hashedPassword });
+            return res.json({ message: "Password set successfully" });
+          }
+          return res.status(400).json({
+            error:
+              "This account uses social sign-in and has no password to verify.",
+          });
         }
-        return res.status(400).json({ error: "This account uses social sign-in and has no password to verify." });
-      }
 
-      // Verify current password
-      const validPassword = await bcrypt.compare(currentPassword, user.password);
-      if (!validPassword) {
-        return res.status(401).json({ error: "Current password is incorrect" });
-      }
+        // Verify current password
+        const validPassword = await bcrypt.compare(
+          currentPassword,
+          user.password,
+        );
+        if (!validPassword) {
+          return res
+            .status(401)
+            .json({ error: "Current password is incorrect" });
+        }
 
-      // Hash and update new password
-      const hashedPassword = await bcrypt.hash(newPassword, BCRYPT_ROUNDS);
-      await storage.updateUser(user.id, { password: hashedPassword });
+        // Hash and update new password
+        const hashedPassword = await bcrypt.hash(newPassword, BCRYPT_ROUNDS);
+        await storage.updateUser(user.id, { password: hashedPassword });
 
-      res.json({ message: "Password changed successfully" });
-    } catch (error) {
-      console.error("Change password error:", error);
-      res.status(500).json({ error: "Failed to change password" });
-    }
-  });
+        res.json({ message: "Password changed successfully" });
+      } catch (error) {
+        console.error("Change password error:", error);
+        res.status(500).json({ error: "Failed to change password" });
+      }
+    },
+  );
 
   // Delete account
-  app.delete("/api/auth/account", authMiddleware, async (req: Request, res: Response) => {
-    try {
-      const { password, confirmed } = req.body;
-
-      const user = await storage.getUser(req.user!.userId);
+  app.delete(
+    "/api/auth/account",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const { password, confirmed } = req.body;
 
-      if (!user) {
-        return res.status(404).json({ error: "User not found" });
-      }
+        const user = await storage.getUser(req.user!.userId);
 
-      // Social auth users (no password): require explicit confirmation
-      if (!user.password) {
-        if (!confirmed) {
-          return res.status(400).json({ error: "Please confirm account deletion" });
-        }
-      } else {
-        // Email/password users: require password verification
-        if (!password) {
-          return res.status(400).json({ error: "Password required to delete account" });
+        if (!user) {
+          return res.status(404).json({ error: "User not found" });
         }
-        const validPassword = await bcrypt.compare(password, user.password);
-        if (!validPassword) {
-          return res.status(401).json({ error: "Incorrect password" });
+
+        // Social auth users (no password): require explicit confirmation
+        if (!user.password) {
+          if (!confirmed) {
+            return res
+              .status(400)
+              .json({ error: "Please confirm account deletion" });
+          }
+        } else {
+          // Email/password users: require password verification
+          if (!password) {
+            return res
+              .status(400)
+              .json({ error: "Password required to delete account" });
+          }
+          const validPassword = await bcrypt.compare(password, user.password);
+          if (!validPassword) {
+            return res.status(401).json({ error: "Incorrect password" });
+          }
         }
-      }
 
-      // Delete user
-      await storage.deleteUser(user.id);
+        // Delete user
+        await storage.deleteUser(user.id);
 
-      res.json({ message: "Account deleted successfully" });
-    } catch (error) {
-      console.error("Delete account error:", error);
-      res.status(500).json({ error: "Failed to delete account" });
-    }
-  });
+        res.json({ message: "Account deleted successfully" });
+      } catch (error) {
+        console.error("Delete account error:", error);
+        res.status(500).json({ error: "Failed to delete account" });
+      }
+    },
+  );
 
   // Check if email exists
-  app.get("/api/auth/check-email/:email", async (req: Request, res: Response) => {
-    const { email } = req.params;
-    const user = await storage.getUserByEmail(email);
-    res.json({ exists: !!user });
-  });
+  app.get(
+    "/api/auth/check-email/:email",
+    async (req: Request, res: Response) => {
+      const { email } = req.params;
+      const user = await storage.getUserByEmail(email);
+      res.json({ exists: !!user });
+    },
+  );
 
   // Check if username exists
-  app.get("/api/auth/check-username/:username", async (req: Request, res: Response) => {
-    const { username } = req.params;
-    const user = await storage.getUserByUsername(username);
-    res.json({ exists: !!user });
-  });
+  app.get(
+    "/api/auth/check-username/:username",
+    async (req: Request, res: Response) => {
+      const { username } = req.params;
+      const user = await storage.getUserByUsername(username);
+      res.json({ exists: !!user });
+    },
+  );
 
   // Step 1: Request password reset — sends a 6-digit verification code
   app.post("/api/auth/forgot-password", async (req: Request, res: Response) => {
@@ -790,16 +1084,25 @@ export function registerAuthRoutes(app: Express) {
         // Send code via Zoho SMTP email
         const sent = await sendPasswordResetEmail(normalizedEmail, code);
         if (!sent) {
-          console.error(`[Auth] Failed to send reset email to ${normalizedEmail}`);
+          console.error(
+            `[Auth] Failed to send reset email to ${normalizedEmail}`,
+          );
         }
       } else {
-        console.log(`[Auth] Password reset requested for non-existent email: ${normalizedEmail}`);
+        console.log(
+          `[Auth] Password reset requested for non-existent email: ${normalizedEmail}`,
+        );
       }
 
-      res.json({ message: "If an account with this email exists, a verification code has been sent." });
+      res.json({
+        message:
+          "If an account with this email exists, a verification code has been sent.",
+      });
     } catch (error) {
       console.error("Forgot password error:", error);
-      res.status(500).json({ error: "Failed to process request. Please try again." });
+      res
+        .status(500)
+        .json({ error: "Failed to process request. Please try again." });
     }
   });
 
@@ -809,11 +1112,15 @@ export function registerAuthRoutes(app: Express) {
       const { email, code, newPassword } = req.body;
 
       if (!email || !code || !newPassword) {
-        return res.status(400).json({ error: "Email, verification code, and new password are required" });
+        return res.status(400).json({
+          error: "Email, verification code, and new password are required",
+        });
       }
 
       if (newPassword.length < 8) {
-        return res.status(400).json({ error: "Password must be at least 8 characters" });
+        return res
+          .status(400)
+          .json({ error: "Password must be at least 8 characters" });
       }
 
       const normalizedEmail = email.trim().toLowerCase();
@@ -821,25 +1128,33 @@ export function registerAuthRoutes(app: Express) {
 
       // Check if a reset code exists
       if (!resetData) {
-        return res.status(400).json({ error: "No reset code found. Please request a new one." });
+        return res
+          .status(400)
+          .json({ error: "No reset code found. Please request a new one." });
       }
 
       // Check if code has expired
       if (Date.now() > resetData.expiresAt) {
         resetCodes.delete(normalizedEmail);
-        return res.status(400).json({ error: "Reset code has expired. Please request a new one." });
+        return res
+          .status(400)
+          .json({ error: "Reset code has expired. Please request a new one." });
       }
 
       // Check max attempts to prevent brute force
       if (resetData.attempts >= MAX_RESET_ATTEMPTS) {
         resetCodes.delete(normalizedEmail);
-        return res.status(429).json({ error: "Too many attempts. Please request a new code." });
+        return res
+          .status(429)
+          .json({ error: "Too many attempts. Please request a new code." });
       }
 
       // Verify the code
       if (resetData.code !== code.trim()) {
         resetData.attempts += 1;
-        return res.status(400).json({ error: "Invalid verification code. Please try again." });
+        return res
+          .status(400)
+          .json({ error: "Invalid verification code. Please try again." });
       }
 
       // Code is valid — reset the password
@@ -857,10 +1172,15 @@ export function registerAuthRoutes(app: Express) {
 
       console.log(`[Auth] Password reset successful for: ${normalizedEmail}`);
 
-      res.json({ message: "Password has been reset successfully. You can now sign in with your new password." });
+      res.json({
+        message:
+          "Password has been reset successfully. You can now sign in with your new password.",
+      });
     } catch (error) {
       console.error("Password reset error:", error);
-      res.status(500).json({ error: "Failed to reset password. Please try again." });
+      res
+        .status(500)
+        .json({ error: "Failed to reset password. Please try again." });
     }
   });
 
@@ -0,0 +1,422 @@
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import {
+  insertBadgeDefinitionSchema,
+  updateBadgeDefinitionSchema,
+  type BadgeDefinition,
+  type BadgeRule,
+  type InsertBadgeDefinition,
+} from "../shared/schema";
+import { authMiddleware, requireRole } from "./auth";
+import { storage } from "./storage";
+import { addDays } from "./hours";
+
+/**
+ * One thing a customer did at a truck, as badge rules see it. Dates, hours
+ * and days of the week are in the vendor's timezone.
+ */
+export interface ActivityEvent {
+  type: "redemption" | "check_in" | "share";
+  vendorId: string;
+  vendorCategory: string | null;
+  cuisine: string | null; // Category of the deal redeemed
+  at: Date;
+  timezone: string; // The vendor's; date and hour are local to it
+  date: string;
+  hour: number;
+  dayOfWeek: number; // 0 is Sunday
+  savings: number; // Dollars off, redemptions only
+}
+
+// The badges the app launched with; seeded once, then edited as data
+const DEFAULT_BADGES: InsertBadgeDefinition[] = [
+  {
+    id: "first_deal",
+    name: "First Steps",
+    description: "Redeem your first deal",
+    icon: "🎯",
+    rarity: "common",
+    requirement: 1,
+    rule: { metric: "count", event: "redemption" },
+  },
+  {
+    id: "deal_hunter",
+    name: "Deal Hunter",
+    description: "Redeem 10 deals",
+    icon: "🎪",
+    rarity: "common",
+    requirement: 10,
+    rule: { metric: "count", event: "redemption" },
+  },
+  {
+    id: "deal_master",
+    name: "Deal Master",
+    description: "Redeem 50 deals",
+    icon: "👑",
+    rarity: "epic",
+    requirement: 50,
+    rule: { metric: "count", event: "redemption" },
+  },
+  {
+    id: "early_bird",
+    name: "Early Bird",
+    description: "Redeem 5 deals before 9 AM",
+    icon: "🌅",
+    rarity: "rare",
+    requirement: 5,
+    rule: {
+      metric: "count",
+      event: "redemption",
+      filter: { hours: { from: 0, to: 9 } },
+    },
+  },
+  {
+    id: "night_owl",
+    name: "Night Owl",
+    description: "Redeem 5 deals after 9 PM",
+    icon: "🦉",
+    rarity: "rare",
+    requirement: 5,
+    rule: {
+      metric: "count",
+      event: "redemption",
+      filter: { hours: { from: 21, to: 24 } },
+    },
+  },
+  {
+    id: "explorer",
+    name: "Explorer",
+    description: "Visit 20 different vendors",
+    icon: "🗺️",
+    rarity: "rare",
+    requirement: 20,
+    rule: { metric: "distinct", event: "visit", of: "vendor" },
+  },
+  {
+    id: "loyal_customer",
+    name: "Loyal Customer",
+    description: "Visit the same vendor 10 times",
+    icon: "💎",
+    rarity: "epic",
+    requirement: 10,
+    rule: { metric: "distinct", event: "visit", of: "day", perVendor: true },
+  },
+  {
+    id: "social_butterfly",
+    name: "Social Butterfly",
+    description: "Share 10 deals with friends",
+    icon: "🦋",
+    rarity: "common",
+    requirement: 10,
+    rule: { metric: "count", event: "share" },
+  },
+  {
+    id: "streak_starter",
+    name: "Streak Starter",
+    description: "Maintain a 7-day streak",
+    icon: "🔥",
+    rarity: "common",
+    requirement: 7,
+    rule: { metric: "streak", event: "any", streak: "longest" },
+  },
+  {
+    id: "streak_warrior",
+    name: "Streak Warrior",
+    description: "Maintain a 30-day streak",
+    icon: "⚡",
+    rarity: "epic",
+    requirement: 30,
+    rule: { metric: "streak", event: "any", streak: "longest" },
+  },
+  {
+    id: "streak_legend",
+    name: "Streak Legend",
+    description: "Maintain a 100-day streak",
+    icon: "🏆",
+    rarity: "legendary",
+    requirement: 100,
+    rule: { metric: "streak", event: "any", streak: "longest" },
+  },
+  {
+    id: "big_spender",
+    name: "Big Spender",
+    description: "Save $500 total",
+    icon: "💰",
+    rarity: "rare",
+    requirement: 500,
+    rule: { metric: "sum", event: "redemption", of: "savings" },
+  },
+  {
+    id: "penny_pincher",
+    name: "Penny Pincher",
+    description: "Save $1000 total",
+    icon: "🤑",
+    rarity: "epic",
+    requirement: 1000,
+    rule: { metric: "sum", event: "redemption", of: "savings" },
+  },
+  {
+    id: "variety_seeker",
+    name: "Variety Seeker",
+    description: "Try deals from 10 categories",
+    icon: "🎨",
+    rarity: "rare",
+    requirement: 10,
+    rule: { metric: "distinct", event: "redemption", of: "cuisine" },
+  },
+  {
+    id: "foodie",
+    name: "Foodie",
+    description: "Redeem 25 restaurant deals",
+    icon: "🍽️",
+    rarity: "rare",
+    requirement: 25,
+    rule: {
+      metric: "count",
+      event: "redemption",
+      filter: { vendorCategories: ["restaurant"] },
+    },
+  },
+  {
+    id: "local_hero",
+    name: "Local Hero",
+    description: "Support 30 local businesses",
+    icon: "🦸",
+    rarity: "epic",
+    requirement: 30,
+    rule: { metric: "distinct", event: "visit", of: "vendor" },
+  },
+].map((badge, i) => ({ ...badge, sortOrder: i }) as InsertBadgeDefinition);
+
+/**
+ * Current and longest runs of consecutive active days. The current streak
+ * survives until a whole day passes with no activity.
+ */
+export function computeStreaks(dates: string[], today: string) {
+  const days = Array.from(new Set(dates)).sort();
+  let run = 0;
+  let longestStreak = 0;
+  let previous: string | null = null;
+  for (const day of days) {
+    run = previous && addDays(previous, 1) === day ? run + 1 : 1;
+    longestStreak = Math.max(longestStreak, run);
+    previous = day;
+  }
+  return {
+    currentStreak: previous && previous >= addDays(today, -1) ? run : 0,
+    longestStreak,
+    lastActivityDate: previous,
+  };
+}
+
+function matchesRule(event: ActivityEvent, rule: BadgeRule): boolean {
+  if (
+    rule.event === "visit"
+      ? event.type === "share"
+      : rule.event !== "any" && rule.event !== event.type
+  ) {
+    return false;
+  }
+
+  const { cuisines, vendorCategories, hours, daysOfWeek } = rule.filter ?? {};
+  if (
+    cuisines &&
+    !cuisines.some((c) => c.toLowerCase() === event.cuisine?.toLowerCase())
+  )
+    return false;
+  if (
+    vendorCategories &&
+    !vendorCategories.some((c) => c === event.vendorCategory)
+  )
+    return false;
+  if (hours) {
+    const inWindow =
+      hours.from < hours.to
+        ? event.hour >= hours.from && event.hour < hours.to
+        : event.hour >= hours.from || event.hour < hours.to;
+    if (!inWindow) return false;
+  }
+  return !daysOfWeek || daysOfWeek.includes(event.dayOfWeek);
+}
+
+function distinctKey(
+  event: ActivityEvent,
+  of: "vendor" | "cuisine" | "vendor_category" | "day",
+): string | null {
+  switch (of) {
+    case "vendor":
+      return event.vendorId;
+    case "cuisine":
+      return event.cuisine?.toLowerCase() ?? null;
+    case "vendor_category":
+      return event.vendorCategory;
+    case "day":
+      return event.date;
+  }
+}
+
+/**
+ * How far a customer is toward a badge. Seasonal badges only count activity
+ * inside their window.
+ */
+export function getBadgeProgress(
+  definition: BadgeDefinition,
+  activity: ActivityEvent[],
+  today: string,
+): number {
+  const rule = definition.rule;
+  const events = activity.filter(
+    (e) =>
+      (!definition.startsAt || e.at >= definition.startsAt) &&
+      (!definition.endsAt || e.at < definition.endsAt) &&
+      matchesRule(e, rule),
+  );
+
+  switch (rule.metric) {
+    case "count":
+      return events.length;
+    case "sum":
+      return (
+        Math.round(events.reduce((sum, e) => sum + e.savings, 0) * 100) / 100
+      );
+    case "streak": {
+      const streaks = computeStreaks(
+        events.map((e) => e.date),
+        today,
+      );
+      return rule.streak === "current"
+        ? streaks.currentStreak
+        : streaks.longestStreak;
+    }
+    case "distinct": {
+      const groups = new Map<string, Set<string>>();
+      for (const event of events) {
+        const key = distinctKey(event, rule.of);
+        if (key === null) continue;
+        const group = rule.perVendor ? event.vendorId : "";
+        groups.set(group, (groups.get(group) ?? new Set()).add(key));
+      }
+      return Math.max(
+        0,
+        ...Array.from(groups.values()).map((keys) => keys.size),
+      );
+    }
+  }
+}
+
+// Whether customers can earn the badge right now
+export function isBadgeAvailable(
+  definition: BadgeDefinition,
+  now: Date,
+): boolean {
+  return (
+    definition.isActive &&
+    (!definition.startsAt || definition.startsAt <= now) &&
+    (!definition.endsAt || definition.endsAt > now)
+  );
+}
+
+async function seedDefaultBadges() {
+  try {
+    const created = await storage.createBadgeDefinitions(DEFAULT_BADGES);
+    if (created.length > 0) {
+      console.log(`[Badges] Seeded ${created.length} default badges`);
+    }
+  } catch (error) {
+    console.warn("[Badges] Could not seed default badges:", error);
+  }
+}
+
+export function registerBadgeRoutes(app: Express): void {
+  // Adds any default badge that isn't defined yet; edits to existing ones are kept
+  seedDefaultBadges();
+
+  // ==========================================
+  // ADMIN AUTHENTICATED ROUTES
+  // ==========================================
+
+  // GET /api/admin/badges - Every badge definition, including inactive and seasonal ones
+  app.get(
+    "/api/admin/badges",
+    authMiddleware,
+    requireRole("admin"),
+    async (_req: Request, res: Response) => {
+      try {
+        res.json({ badges: await storage.getBadgeDefinitions() });
+      } catch (error) {
+        console.error("Error fetching badge definitions:", error);
+        res.status(500).json({ error: "Failed to fetch badges" });
+      }
+    },
+  );
+
+  // POST /api/admin/badges - Define a new badge; customers who already qualify unlock it on their next visit
+  app.post(
+    "/api/admin/badges",
+    authMiddleware,
+    requireRole("admin"),
+    async (req: Request, res: Response) => {
+      try {
+        const data = insertBadgeDefinitionSchema.parse(req.body);
+        const [badge] = await storage.createBadgeDefinitions([data]);
+        if (!badge) {
+          return res
+            .status(409)
+            .json({ error: "A badge with this id already exists" });
+        }
+
+        res.status(201).json({ message: "Badge created", badge });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error creating badge definition:", error);
+        res.status(500).json({ error: "Failed to create badge" });
+      }
+    },
+  );
+
+  // PUT /api/admin/badges/:id - Change a badge's wording, rule or window, or retire it
+  app.put(
+    "/api/admin/badges/:id",
+    authMiddleware,
+    requireRole("admin"),
+    async (req: Request, res: Response) => {
+      try {
+        const existing = await storage.getBadgeDefinition(req.params.id);
+        if (!existing) {
+          return res.status(404).json({ error: "Badge not found" });
+        }
+
+        const updates = updateBadgeDefinitionSchema.parse(req.body);
+        const startsAt =
+          updates.startsAt !== undefined ? updates.startsAt : existing.startsAt;
+        const endsAt =
+          updates.endsAt !== undefined ? updates.endsAt : existing.endsAt;
+        if (startsAt && endsAt && endsAt <= startsAt) {
+          return res
+            .status(400)
+            .json({ error: "endsAt must be after startsAt" });
+        }
+
+        // Customers keep badges they already unlocked, even if the rule gets harder
+        const badge = await storage.updateBadgeDefinition(existing.id, updates);
+        res.json({ message: "Badge updated", badge });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error updating badge definition:", error);
+        res.status(500).json({ error: "Failed to update badge" });
+      }
+    },
+  );
+
+  console.log("Badge routes registered");
+}
@@ -0,0 +1,73 @@
+import fs from "fs/promises";
+import path from "path";
+
+/**
+ * Storage for uploaded files. Keys are slash-separated paths such as
+ * "photos/<vendorId>/<id>-thumb.jpg"; url() is what clients load.
+ */
+export interface BlobStore {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  delete(key: string): Promise<void>;
+  url(key: string): string;
+}
+
+export const UPLOADS_ROUTE = "/uploads";
+
+/**
+ * Default store: files under UPLOADS_DIR, served by Express at /uploads.
+ */
+export class LocalDiskBlobStore implements BlobStore {
+  constructor(
+    readonly rootDir: string,
+    private readonly publicBaseUrl: string,
+  ) {}
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer, _contentType: string): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  url(key: string): string {
+    return `${this.publicBaseUrl}/${key}`;
+  }
+}
+
+function createDefaultStore(): LocalDiskBlobStore {
+  const rootDir = path.resolve(
+    process.cwd(),
+    process.env.UPLOADS_DIR || "uploads",
+  );
+  const apiUrl =
+    process.env.EXPO_PUBLIC_API_URL ||
+    `http://localhost:${process.env.PORT || "5000"}`;
+  return new LocalDiskBlobStore(
+    rootDir,
+    `${apiUrl.replace(/\/$/, "")}${UPLOADS_ROUTE}`,
+  );
+}
+
+let blobStore: BlobStore = createDefaultStore();
+
+export function getBlobStore(): BlobStore {
+  return blobStore;
+}
+
+/**
+ * Swap in another backend (S3, R2, ...) before routes are registered.
+ */
+export function setBlobStore(store: BlobStore): void {
+  blobStore = store;
+}
@@ -0,0 +1,161 @@
+import type { Express, Request, Response } from "express";
+import type { Boost, BoostLevel } from "../shared/schema";
+import { authMiddleware } from "./auth";
+import { storage } from "./storage";
+
+// Prices are charged from here; the app only displays them
+export const BOOST_PLANS: Record<
+  BoostLevel,
+  {
+    name: string;
+    description: string;
+    amount: number; // Cents
+    durationHours: number;
+    multiplier: number; // Ranking weight in vendor, search and deal results
+  }
+> = {
+  basic: {
+    name: "Basic Boost",
+    description: "Appear higher in search results for 24 hours",
+    amount: 999,
+    durationHours: 24,
+    multiplier: 1.5,
+  },
+  premium: {
+    name: "Premium Boost",
+    description: "Maximum visibility for 3 days",
+    amount: 2499,
+    durationHours: 72,
+    multiplier: 2.5,
+  },
+  spotlight: {
+    name: "Spotlight",
+    description: "Be the featured truck of the week",
+    amount: 4999,
+    durationHours: 168,
+    multiplier: 5,
+  },
+};
+
+export function getBoostMultiplier(boost: Boost | undefined): number {
+  return boost ? (BOOST_PLANS[boost.level as BoostLevel]?.multiplier ?? 1) : 1;
+}
+
+// Badge info customers see on featured vendors
+export function toFeatured(boost: Boost | undefined) {
+  return boost ? { level: boost.level, endsAt: boost.endsAt } : null;
+}
+
+export function toPublicBoost(boost: Boost) {
+  const plan = BOOST_PLANS[boost.level as BoostLevel];
+  return {
+    id: boost.id,
+    level: boost.level,
+    name: plan?.name ?? boost.level,
+    status: boost.status,
+    amount: boost.amount / 100,
+    currency: boost.currency,
+    startsAt: boost.startsAt,
+    endsAt: boost.endsAt,
+    createdAt: boost.createdAt,
+  };
+}
+
+/**
+ * Each vendor's strongest running boost. Expired boosts are never returned,
+ * so a boost stops counting the moment its end time passes.
+ */
+export async function getActiveBoostMap(
+  vendorIds: string[],
+  now = new Date(),
+): Promise<Map<string, Boost>> {
+  const byVendor = new Map<string, Boost>();
+  for (const boost of await storage.getActiveBoosts(vendorIds, now)) {
+    const current = byVendor.get(boost.vendorId);
+    if (!current || getBoostMultiplier(boost) > getBoostMultiplier(current)) {
+      byVendor.set(boost.vendorId, boost);
+    }
+  }
+  return byVendor;
+}
+
+/**
+ * Start a paid boost. Called from the Stripe webhook once payment is confirmed;
+ * repeat deliveries of the same event leave an active boost untouched. A boost
+ * bought while another is running starts when that one ends.
+ */
+export async function activateBoost(
+  boost: Boost,
+  stripePaymentIntentId: string | null,
+): Promise<Boost | undefined> {
+  if (boost.status === "active") return boost;
+
+  const plan = BOOST_PLANS[boost.level as BoostLevel];
+  const queuedUntil = (await storage.getBoostsByVendor(boost.vendorId))
+    .filter((b) => b.status === "active" && b.endsAt)
+    .map((b) => b.endsAt!.getTime());
+  const startsAt = new Date(Math.max(Date.now(), ...queuedUntil));
+  return storage.updateBoost(boost.id, {
+    status: "active",
+    stripePaymentIntentId,
+    startsAt,
+    endsAt: new Date(startsAt.getTime() + plan.durationHours * 60 * 60 * 1000),
+  });
+}
+
+export function registerBoostRoutes(app: Express): void {
+  // ==========================================
+  // PUBLIC ROUTES (No auth required)
+  // ==========================================
+
+  // GET /api/boosts/plans - Boost levels with their prices and durations
+  app.get("/api/boosts/plans", (_req: Request, res: Response) => {
+    const plans = Object.entries(BOOST_PLANS).map(([level, plan]) => ({
+      level,
+      name: plan.name,
+      description: plan.description,
+      price: plan.amount / 100,
+      currency: "usd",
+      durationHours: plan.durationHours,
+    }));
+    res.json({ plans });
+  });
+
+  // ==========================================
+  // VENDOR AUTHENTICATED ROUTES
+  // ==========================================
+
+  // GET /api/boosts/my - The running boost (if any) and past purchases
+  app.get(
+    "/api/boosts/my",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const listing = await storage.getVendorListingByUserId(
+          req.user!.userId,
+        );
+        if (!listing) {
+          return res.status(404).json({ error: "No listing found" });
+        }
+
+        const [active, history] = await Promise.all([
+          getActiveBoostMap([listing.id]),
+          storage.getBoostsByVendor(listing.id),
+        ]);
+        const activeBoost = active.get(listing.id);
+
+        res.json({
+          activeBoost: activeBoost ? toPublicBoost(activeBoost) : null,
+          boosts: history
+            .filter((b) => b.status !== "expired")
+            .map(toPublicBoost),
+        });
+      } catch (error) {
+        console.error("Error fetching boosts:", error);
+        res.status(500).json({ error: "Failed to fetch boosts" });
+      }
+    },
+  );
+
+  console.log("Boost routes registered");
+}
@@ -0,0 +1,509 @@
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import {
+  insertChallengeSchema,
+  updateChallengeSchema,
+  type Challenge,
+  type ChallengeAction,
+  type Deal,
+  type PointsEntry,
+  type UserBadge,
+  type VendorListing,
+} from "../shared/schema";
+import { authMiddleware, optionalAuth, requireRole } from "./auth";
+import { storage } from "./storage";
+import { haversineMiles } from "./geo";
+import { getTierLimits } from "./vendor-listings";
+import { deliverNotification } from "./notifications";
+
+// How far back a new challenge may start; activity since then is replayed into it
+const MAX_BACKDATE_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Ledger reasons that record customer activity, and the challenge actions each one counts toward
+const ACTIONS_BY_REASON: Record<string, ChallengeAction[]> = {
+  redemption: ["redeem", "visit"],
+  check_in: ["check_in", "visit"],
+  share: ["share"],
+};
+
+export function challengeBadgeId(challengeId: string): string {
+  return `challenge:${challengeId}`;
+}
+
+/**
+ * Badges earned by completing challenges, shaped like the rule-based badges.
+ * Badges for deleted challenges are dropped.
+ */
+export async function getChallengeBadges(unlocked: UserBadge[]) {
+  const earned = unlocked.filter((b) =>
+    b.badgeId.startsWith(challengeBadgeId("")),
+  );
+  const challenges = await Promise.all(
+    earned.map((b) =>
+      storage.getChallenge(b.badgeId.slice(challengeBadgeId("").length)),
+    ),
+  );
+  return earned.flatMap((badge, i) => {
+    const challenge = challenges[i];
+    if (!challenge?.badgeName) return [];
+    return [
+      {
+        id: badge.badgeId,
+        name: challenge.badgeName,
+        description: `Completed "${challenge.title}"`,
+        icon: challenge.badgeIcon ?? "🏅",
+        rarity: "rare" as const,
+        requirement: 1,
+        progress: 1,
+        unlockedAt: badge.unlockedAt,
+      },
+    ];
+  });
+}
+
+function sameText(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+// Where and what an activity was, loaded lazily since most challenges don't filter on the deal
+class ActivityContext {
+  private deal: Promise<Deal | undefined> | null = null;
+  private cuisines: Promise<string[]> | null = null;
+
+  constructor(
+    readonly entry: PointsEntry,
+    readonly listing: VendorListing,
+  ) {}
+
+  // Redemptions match on the deal redeemed; check-ins and shares on anything the vendor offers
+  async servesCuisine(cuisine: string): Promise<boolean> {
+    if (this.entry.reason === "redemption") {
+      this.deal ??= storage
+        .getDealRedemptionById(this.entry.referenceId)
+        .then((r) => (r ? storage.getDeal(r.dealId) : undefined));
+      const deal = await this.deal;
+      return !!deal?.category && sameText(deal.category, cuisine);
+    }
+    this.cuisines ??= storage
+      .getDealsByVendor(this.listing.id)
+      .then((deals) =>
+        deals.map((d) => d.category).filter((c): c is string => !!c),
+      );
+    return (await this.cuisines).some((c) => sameText(c, cuisine));
+  }
+}
+
+async function matchesChallenge(
+  challenge: Challenge,
+  activity: ActivityContext,
+): Promise<boolean> {
+  const { entry, listing } = activity;
+  if (
+    entry.createdAt < challenge.startsAt ||
+    entry.createdAt >= challenge.endsAt
+  )
+    return false;
+  if (
+    !ACTIONS_BY_REASON[entry.reason]?.includes(
+      challenge.action as ChallengeAction,
+    )
+  )
+    return false;
+  // Sponsored challenges only count activity at the sponsor's own truck
+  if (challenge.sponsorVendorId && challenge.sponsorVendorId !== listing.id)
+    return false;
+  if (challenge.vendorCategory && challenge.vendorCategory !== listing.category)
+    return false;
+  if (challenge.city && !sameText(challenge.city, listing.city)) return false;
+  if (challenge.state && !sameText(challenge.state, listing.state))
+    return false;
+  if (
+    challenge.areaLat != null &&
+    challenge.areaLng != null &&
+    challenge.areaRadiusMiles != null &&
+    haversineMiles(
+      challenge.areaLat,
+      challenge.areaLng,
+      listing.locationLat,
+      listing.locationLng,
+    ) > challenge.areaRadiusMiles
+  ) {
+    return false;
+  }
+  return !challenge.cuisine || activity.servesCuisine(challenge.cuisine);
+}
+
+function getCountKey(challenge: Challenge, entry: PointsEntry): string {
+  switch (challenge.countBy) {
+    case "vendor":
+      return entry.vendorId!;
+    case "day":
+      return entry.activityDate ?? entry.createdAt.toISOString().slice(0, 10);
+    default:
+      return `${entry.reason}:${entry.referenceId}`;
+  }
+}
+
+// Bonus points and badges are keyed on the challenge, so paying out twice is a no-op.
+// Steps counted after completion land here too; only the first payout notifies.
+async function payOutChallenge(
+  challenge: Challenge,
+  userId: string,
+): Promise<void> {
+  const pointsEntry =
+    challenge.rewardPoints > 0
+      ? await storage.createPointsEntry({
+          userId,
+          amount: challenge.rewardPoints,
+          reason: "challenge",
+          referenceId: challenge.id,
+          vendorId: challenge.sponsorVendorId,
+        })
+      : undefined;
+  const badges = challenge.badgeName
+    ? await storage.createUserBadges([
+        { userId, badgeId: challengeBadgeId(challenge.id) },
+      ])
+    : [];
+  if (!pointsEntry && badges.length === 0) return;
+
+  const rewards = [
+    challenge.rewardPoints > 0
+      ? `${challenge.rewardPoints} bonus points`
+      : null,
+    challenge.badgeName ? `the ${challenge.badgeName} badge` : null,
+  ].filter(Boolean);
+  await deliverNotification([userId], {
+    category: "rewards",
+    title: "🏆 Challenge complete!",
+    body:
+      rewards.length > 0
+        ? `${challenge.title}: you earned ${rewards.join(" and ")}.`
+        : `You finished ${challenge.title}.`,
+    data: { type: "challenge", challengeId: challenge.id },
+  });
+}
+
+async function advanceChallenges(
+  entry: PointsEntry,
+  candidates: Challenge[],
+): Promise<void> {
+  if (
+    !ACTIONS_BY_REASON[entry.reason] ||
+    !entry.vendorId ||
+    candidates.length === 0
+  )
+    return;
+
+  const listing = await storage.getVendorListing(entry.vendorId);
+  if (!listing) return;
+
+  const activity = new ActivityContext(entry, listing);
+  for (const challenge of candidates) {
+    if (!(await matchesChallenge(challenge, activity))) continue;
+
+    const step = await storage.createChallengeProgress({
+      challengeId: challenge.id,
+      userId: entry.userId,
+      countKey: getCountKey(challenge, entry),
+    });
+    if (!step) continue;
+
+    const progress = await storage.getChallengeProgressByUser(entry.userId, [
+      challenge.id,
+    ]);
+    if (progress.length >= challenge.target) {
+      await payOutChallenge(challenge, entry.userId);
+    }
+  }
+}
+
+/**
+ * Count a ledger award (redemption, check-in or share) toward every running
+ * challenge it matches, paying out any that it completes.
+ */
+export async function recordChallengeProgress(
+  entry: PointsEntry,
+): Promise<void> {
+  if (!ACTIONS_BY_REASON[entry.reason]) return;
+  await advanceChallenges(
+    entry,
+    await storage.getLiveChallenges(entry.createdAt),
+  );
+}
+
+// A challenge created after its start date picks up the activity it missed
+async function replayChallenge(challenge: Challenge): Promise<void> {
+  const entries = (
+    await storage.getPointsLedgerSince(challenge.startsAt, challenge.endsAt)
+  )
+    .filter((e) => ACTIONS_BY_REASON[e.reason])
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  for (const entry of entries) {
+    await advanceChallenges(entry, [challenge]);
+  }
+}
+
+function toPublicChallenge(
+  challenge: Challenge,
+  sponsorName: string | null,
+  now: Date,
+) {
+  return {
+    id: challenge.id,
+    title: challenge.title,
+    description: challenge.description,
+    action: challenge.action,
+    target: challenge.target,
+    countBy: challenge.countBy,
+    cuisine: challenge.cuisine,
+    vendorCategory: challenge.vendorCategory,
+    city: challenge.city,
+    state: challenge.state,
+    areaName: challenge.areaName,
+    startsAt: challenge.startsAt,
+    endsAt: challenge.endsAt,
+    status: challenge.startsAt > now ? "upcoming" : "running",
+    rewardPoints: challenge.rewardPoints,
+    badgeName: challenge.badgeName,
+    badgeIcon: challenge.badgeIcon,
+    sponsor: challenge.sponsorVendorId
+      ? { vendorId: challenge.sponsorVendorId, name: sponsorName }
+      : null,
+  };
+}
+
+/**
+ * Whose challenges the caller runs: admins run platform challenges (sponsor
+ * null), Pro vendors sponsor their own listing's.
+ */
+async function getChallengeOwner(
+  req: Request,
+): Promise<{ vendorId: string | null; listing?: VendorListing } | undefined> {
+  if (req.user!.role === "admin") return { vendorId: null };
+  const listing = await storage.getVendorListingByUserId(req.user!.userId);
+  return listing ? { vendorId: listing.id, listing } : undefined;
+}
+
+export function registerChallengeRoutes(app: Express): void {
+  // ==========================================
+  // PUBLIC ROUTES (No auth required)
+  // ==========================================
+
+  // GET /api/challenges - Running and upcoming challenges, with the signed-in customer's progress
+  app.get(
+    "/api/challenges",
+    optionalAuth,
+    async (req: Request, res: Response) => {
+      try {
+        const now = new Date();
+        const live = await storage.getLiveChallenges(now);
+        const sponsorIds = Array.from(
+          new Set(
+            live
+              .map((c) => c.sponsorVendorId)
+              .filter((id): id is string => !!id),
+          ),
+        );
+        const [sponsors, progress] = await Promise.all([
+          Promise.all(sponsorIds.map((id) => storage.getVendorListing(id))),
+          req.user?.role === "customer"
+            ? storage.getChallengeProgressByUser(
+                req.user.userId,
+                live.map((c) => c.id),
+              )
+            : Promise.resolve([]),
+        ]);
+        const sponsorNames = new Map(
+          sponsors.filter((l) => !!l).map((l) => [l!.id, l!.businessName]),
+        );
+        const steps = new Map<string, number>();
+        for (const step of progress)
+          steps.set(step.challengeId, (steps.get(step.challengeId) ?? 0) + 1);
+
+        res.json({
+          challenges: live.map((challenge) => {
+            const count = steps.get(challenge.id) ?? 0;
+            return {
+              ...toPublicChallenge(
+                challenge,
+                challenge.sponsorVendorId
+                  ? (sponsorNames.get(challenge.sponsorVendorId) ?? null)
+                  : null,
+                now,
+              ),
+              progress: Math.min(count, challenge.target),
+              completed: count >= challenge.target,
+            };
+          }),
+        });
+      } catch (error) {
+        console.error("Error fetching challenges:", error);
+        res.status(500).json({ error: "Failed to fetch challenges" });
+      }
+    },
+  );
+
+  // ==========================================
+  // VENDOR / ADMIN AUTHENTICATED ROUTES
+  // ==========================================
+
+  // GET /api/challenges/my - Challenges the caller runs, including ended and paused ones
+  app.get(
+    "/api/challenges/my",
+    authMiddleware,
+    requireRole("vendor", "admin"),
+    async (req: Request, res: Response) => {
+      try {
+        const owner = await getChallengeOwner(req);
+        if (!owner) {
+          return res.status(404).json({ error: "No listing found" });
+        }
+
+        const now = new Date();
+        const owned = await storage.getChallengesBySponsor(owner.vendorId);
+        res.json({
+          challenges: owned.map((c) => ({
+            ...toPublicChallenge(c, owner.listing?.businessName ?? null, now),
+            status: !c.isActive
+              ? "paused"
+              : c.endsAt <= now
+                ? "ended"
+                : c.startsAt > now
+                  ? "upcoming"
+                  : "running",
+            isActive: c.isActive,
+            areaLat: c.areaLat,
+            areaLng: c.areaLng,
+            areaRadiusMiles: c.areaRadiusMiles,
+            createdAt: c.createdAt,
+          })),
+        });
+      } catch (error) {
+        console.error("Error fetching my challenges:", error);
+        res.status(500).json({ error: "Failed to fetch challenges" });
+      }
+    },
+  );
+
+  // POST /api/challenges - Create a platform challenge (admins) or a sponsored one (Pro vendors)
+  app.post(
+    "/api/challenges",
+    authMiddleware,
+    requireRole("vendor", "admin"),
+    async (req: Request, res: Response) => {
+      try {
+        const owner = await getChallengeOwner(req);
+        if (!owner) {
+          return res.status(404).json({ error: "No listing found" });
+        }
+        if (
+          owner.listing &&
+          getTierLimits(owner.listing.vendorTier).noSponsoredChallenges
+        ) {
+          return res
+            .status(403)
+            .json({ error: "Sponsored challenges require a Pro subscription" });
+        }
+
+        const data = insertChallengeSchema.parse(req.body);
+        if (data.endsAt.getTime() <= Date.now()) {
+          return res
+            .status(400)
+            .json({ error: "The challenge must end in the future" });
+        }
+        if (data.startsAt.getTime() < Date.now() - MAX_BACKDATE_MS) {
+          return res
+            .status(400)
+            .json({ error: "A challenge can start at most 7 days ago" });
+        }
+
+        const challenge = await storage.createChallenge({
+          ...data,
+          sponsorVendorId: owner.vendorId,
+          createdBy: req.user!.userId,
+        });
+        // Replaying can pay out and notify many customers, so it runs after the response
+        if (challenge.startsAt.getTime() < Date.now()) {
+          replayChallenge(challenge).catch((error) =>
+            console.error("Error replaying challenge:", error),
+          );
+        }
+
+        res.status(201).json({
+          message: "Challenge created",
+          challenge: toPublicChallenge(
+            challenge,
+            owner.listing?.businessName ?? null,
+            new Date(),
+          ),
+        });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error creating challenge:", error);
+        res.status(500).json({ error: "Failed to create challenge" });
+      }
+    },
+  );
+
+  // PUT /api/challenges/:id - Reword, extend or pause a challenge
+  app.put(
+    "/api/challenges/:id",
+    authMiddleware,
+    requireRole("vendor", "admin"),
+    async (req: Request, res: Response) => {
+      try {
+        const [challenge, owner] = await Promise.all([
+          storage.getChallenge(req.params.id),
+          getChallengeOwner(req),
+        ]);
+        if (!challenge) {
+          return res.status(404).json({ error: "Challenge not found" });
+        }
+        // Admins can moderate any challenge, vendors only their own
+        if (
+          !owner ||
+          (req.user!.role !== "admin" &&
+            challenge.sponsorVendorId !== owner.vendorId)
+        ) {
+          return res
+            .status(403)
+            .json({ error: "Not authorized to update this challenge" });
+        }
+
+        const updates = updateChallengeSchema.parse(req.body);
+        if (updates.endsAt && updates.endsAt <= challenge.startsAt) {
+          return res
+            .status(400)
+            .json({ error: "endsAt must be after startsAt" });
+        }
+
+        const updated = await storage.updateChallenge(challenge.id, updates);
+        res.json({
+          message: "Challenge updated",
+          challenge: toPublicChallenge(
+            updated!,
+            owner.listing?.businessName ?? null,
+            new Date(),
+          ),
+        });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error updating challenge:", error);
+        res.status(500).json({ error: "Failed to update challenge" });
+      }
+    },
+  );
+
+  console.log("Challenge routes registered");
+}
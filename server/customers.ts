@@ -0,0 +1,302 @@
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import { checkInSchema, type Deal, type User } from "../shared/schema";
+import { authMiddleware, requireRole } from "./auth";
+import { storage } from "./storage";
+import { haversineMiles } from "./geo";
+import { getLocalTime } from "./hours";
+import { getLiveTruck } from "./live-locations";
+import { recordCheckInReward } from "./rewards";
+
+// How close (in miles) a customer must be to the truck to check in (~400 m)
+const CHECK_IN_RADIUS_MILES = 0.25;
+// Customers whose first visit is this recent are "new"
+const NEW_CUSTOMER_DAYS = 30;
+const DEFAULT_AT_RISK_DAYS = 30;
+// Share of customers, by spend, in the "top" segment
+const TOP_SEGMENT_SHARE = 0.1;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const customerSegments = ["top", "at_risk", "new"] as const;
+export type CustomerSegment = (typeof customerSegments)[number];
+
+export interface VendorCustomer {
+  id: string;
+  name: string;
+  email: string;
+  avatarUrl: string | null;
+  visitCount: number; // Local days with a check-in or a verified redemption
+  firstVisit: string;
+  lastVisit: string;
+  totalSpent: number; // Dollars paid for redeemed deals
+  totalSaved: number; // Dollars off the original prices
+  redemptionCount: number;
+  checkInCount: number;
+  segments: CustomerSegment[];
+}
+
+interface Visit {
+  userId: string;
+  at: Date;
+  spent: number;
+  saved: number;
+  isRedemption: boolean;
+}
+
+function displayName(user: User): string {
+  const name = [user.firstName, user.lastName].filter(Boolean).join(" ");
+  return name || user.username;
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Build a vendor's customer list from verified redemptions and check-ins.
+ * A customer's visits are the distinct local dates they turned up on, so a
+ * check-in and a redemption on the same day count once. Customers who turned
+ * off sharing with vendors are left out entirely.
+ */
+async function buildCustomerList(
+  vendorId: string,
+  timeZone: string,
+  atRiskDays: number,
+  now = new Date(),
+): Promise<VendorCustomer[]> {
+  const [redemptions, checkIns, deals] = await Promise.all([
+    storage.getVerifiedRedemptionsByVendor(vendorId),
+    storage.getCheckInsByVendor(vendorId),
+    storage.getDealsByVendor(vendorId),
+  ]);
+  const dealById = new Map<string, Deal>(deals.map((d) => [d.id, d]));
+
+  const visits: Visit[] = [
+    ...redemptions.map((r) => {
+      // A deal deleted since still counts as a visit, just with no known price
+      const deal = dealById.get(r.dealId);
+      return {
+        userId: r.userId,
+        at: r.verifiedAt!,
+        spent: deal?.discountedPrice ?? 0,
+        saved: deal
+          ? Math.max(0, deal.originalPrice - deal.discountedPrice)
+          : 0,
+        isRedemption: true,
+      };
+    }),
+    ...checkIns.map((c) => ({
+      userId: c.userId,
+      at: c.createdAt,
+      spent: 0,
+      saved: 0,
+      isRedemption: false,
+    })),
+  ];
+
+  const users = await storage.getUsers(
+    Array.from(new Set(visits.map((v) => v.userId))),
+  );
+  const sharing = new Map(
+    users.filter((u) => u.shareWithVendors).map((u) => [u.id, u]),
+  );
+
+  const byUser = new Map<string, Visit[]>();
+  for (const visit of visits) {
+    if (!sharing.has(visit.userId)) continue;
+    byUser.set(visit.userId, [...(byUser.get(visit.userId) ?? []), visit]);
+  }
+
+  const customers = Array.from(byUser.entries()).map(
+    ([userId, userVisits]): VendorCustomer => {
+      const user = sharing.get(userId)!;
+      const times = userVisits.map((v) => v.at.getTime());
+      const firstVisit = new Date(Math.min(...times));
+      const lastVisit = new Date(Math.max(...times));
+      const segments: CustomerSegment[] = [];
+      if (now.getTime() - lastVisit.getTime() > atRiskDays * DAY_MS)
+        segments.push("at_risk");
+      if (now.getTime() - firstVisit.getTime() <= NEW_CUSTOMER_DAYS * DAY_MS)
+        segments.push("new");
+
+      return {
+        id: user.id,
+        name: displayName(user),
+        email: user.email,
+        avatarUrl: user.avatarUrl,
+        visitCount: new Set(
+          userVisits.map((v) => getLocalTime(v.at, timeZone).date),
+        ).size,
+        firstVisit: firstVisit.toISOString(),
+        lastVisit: lastVisit.toISOString(),
+        totalSpent: roundCents(userVisits.reduce((sum, v) => sum + v.spent, 0)),
+        totalSaved: roundCents(userVisits.reduce((sum, v) => sum + v.saved, 0)),
+        redemptionCount: userVisits.filter((v) => v.isRedemption).length,
+        checkInCount: userVisits.filter((v) => !v.isRedemption).length,
+        segments,
+      };
+    },
+  );
+
+  // Top 10% by spend, at least one customer; customers who never spent can't be top
+  const spenders = customers
+    .filter((c) => c.totalSpent > 0)
+    .sort((a, b) => b.totalSpent - a.totalSpent);
+  const topCount = Math.max(1, Math.ceil(customers.length * TOP_SEGMENT_SHARE));
+  for (const customer of spenders.slice(0, topCount)) {
+    customer.segments.unshift("top");
+  }
+
+  return customers.sort((a, b) => b.lastVisit.localeCompare(a.lastVisit));
+}
+
+const customerQuerySchema = z.object({
+  segment: z.enum(["all", ...customerSegments]).default("all"),
+  atRiskDays: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(365)
+    .default(DEFAULT_AT_RISK_DAYS),
+});
+
+export function registerCustomerRoutes(app: Express): void {
+  // ==========================================
+  // CUSTOMER AUTHENTICATED ROUTES
+  // ==========================================
+
+  // POST /api/vendors/public/:id/check-in - Check in at a truck from within a short walk of it
+  app.post(
+    "/api/vendors/public/:id/check-in",
+    authMiddleware,
+    requireRole("customer"),
+    async (req: Request, res: Response) => {
+      try {
+        const listing = await storage.getVendorListing(req.params.id);
+        if (!listing || listing.hiddenAt) {
+          return res.status(404).json({ error: "Vendor not found" });
+        }
+
+        const position = checkInSchema.parse(req.body);
+        // Live trucks are wherever they last reported; otherwise at their listing location
+        const truck = getLiveTruck(listing.id) ?? {
+          latitude: listing.locationLat,
+          longitude: listing.locationLng,
+        };
+        const distance = haversineMiles(
+          truck.latitude,
+          truck.longitude,
+          position.latitude,
+          position.longitude,
+        );
+        if (distance > CHECK_IN_RADIUS_MILES) {
+          return res
+            .status(400)
+            .json({ error: "You need to be at the truck to check in" });
+        }
+
+        const checkIn = await storage.createCheckIn({
+          vendorId: listing.id,
+          userId: req.user!.userId,
+          localDate: getLocalTime(new Date(), listing.timezone).date,
+          latitude: position.latitude,
+          longitude: position.longitude,
+        });
+        if (!checkIn) {
+          return res
+            .status(409)
+            .json({ error: "You've already checked in here today" });
+        }
+
+        // The check-in stands even if points can't be awarded right now
+        const reward = await recordCheckInReward(checkIn).catch((error) => {
+          console.error("Error awarding check-in points:", error);
+          return undefined;
+        });
+
+        res.status(201).json({
+          message: `Checked in at ${listing.businessName}`,
+          checkIn: {
+            id: checkIn.id,
+            vendorId: checkIn.vendorId,
+            createdAt: checkIn.createdAt,
+          },
+          pointsEarned: reward?.amount ?? 0,
+        });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error checking in:", error);
+        res.status(500).json({ error: "Failed to check in" });
+      }
+    },
+  );
+
+  // ==========================================
+  // VENDOR AUTHENTICATED ROUTES
+  // ==========================================
+
+  // GET /api/vendors/listing/my/customers?segment=&atRiskDays= - Customers with visit and spend totals
+  app.get(
+    "/api/vendors/listing/my/customers",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const listing = await storage.getVendorListingByUserId(
+          req.user!.userId,
+        );
+        if (!listing) {
+          return res.status(404).json({ error: "No listing found" });
+        }
+
+        const query = customerQuerySchema.parse(req.query);
+        const customers = await buildCustomerList(
+          listing.id,
+          listing.timezone,
+          query.atRiskDays,
+        );
+        const segmentCounts = {
+          all: customers.length,
+          top: 0,
+          at_risk: 0,
+          new: 0,
+        };
+        for (const customer of customers) {
+          for (const segment of customer.segments) segmentCounts[segment] += 1;
+        }
+
+        const segment =
+          query.segment === "all"
+            ? customers
+            : customers.filter((c) =>
+                c.segments.includes(query.segment as CustomerSegment),
+              );
+        res.json({
+          // Top customers are listed by spend, everyone else by most recent visit
+          customers:
+            query.segment === "top"
+              ? segment.sort((a, b) => b.totalSpent - a.totalSpent)
+              : segment,
+          segmentCounts,
+          atRiskDays: query.atRiskDays,
+        });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error fetching customers:", error);
+        res.status(500).json({ error: "Failed to fetch customers" });
+      }
+    },
+  );
+
+  console.log("Customer routes registered");
+}
@@ -0,0 +1,442 @@
+import type { Express, Request, Response } from "express";
+import {
+  insertDealSchema,
+  updateDealSchema,
+  type Boost,
+  type Deal,
+  type VendorListing,
+} from "../shared/schema";
+import { z } from "zod";
+import { authMiddleware } from "./auth";
+import { storage } from "./storage";
+import { getTierLimits } from "./vendor-listings";
+import { deletePhotosFor } from "./photos";
+import { toRedemptionPass } from "./redemptions";
+import { findUnknownMenuItemIds } from "./menus";
+import { getOpenStatuses, type OpenStatus } from "./hours";
+import { getActiveBoostMap, getBoostMultiplier, toFeatured } from "./boosts";
+import { notifyFlashDeal } from "./notifications";
+
+// Public deal shape: deal fields plus the vendor info customers need to display it
+export function toPublicDeal(
+  deal: Deal,
+  vendor: VendorListing,
+  status?: OpenStatus,
+  boost?: Boost,
+) {
+  return {
+    id: deal.id,
+    vendorId: deal.vendorId,
+    title: deal.title,
+    description: deal.description,
+    originalPrice: deal.originalPrice,
+    discountedPrice: deal.discountedPrice,
+    category: deal.category,
+    imageUrl: deal.imageUrl,
+    startDate: deal.startDate,
+    endDate: deal.endDate,
+    isActive: deal.isActive,
+    isFlash: deal.isFlash,
+    maxRedemptions: deal.maxRedemptions,
+    currentRedemptions: deal.currentRedemptions,
+    remainingRedemptions:
+      deal.maxRedemptions != null
+        ? Math.max(deal.maxRedemptions - deal.currentRedemptions, 0)
+        : null,
+    menuItemIds: deal.menuItemIds,
+    vendor: {
+      id: vendor.id,
+      businessName: vendor.businessName,
+      category: vendor.category,
+      description: vendor.description,
+      locationLat: vendor.locationLat,
+      locationLng: vendor.locationLng,
+      city: vendor.city,
+      state: vendor.state,
+      isOpen: status?.isOpen ?? null,
+      statusLabel: status?.statusLabel ?? null,
+      featured: toFeatured(boost),
+    },
+  };
+}
+
+// How often scheduled flash deals are checked for having started
+const FLASH_DEAL_SWEEP_MS = 60 * 1000;
+
+/**
+ * Tell subscribers about flash deals that have gone live, whether just
+ * created or scheduled earlier. A failed push doesn't stop the others.
+ */
+async function announceFlashDeals(): Promise<void> {
+  for (const deal of await storage.claimUnannouncedFlashDeals(new Date())) {
+    const listing = await storage.getVendorListing(deal.vendorId);
+    if (!listing || listing.hiddenAt) continue;
+    await notifyFlashDeal(deal, listing).catch((error) => {
+      console.error("Error pushing flash deal:", error);
+    });
+  }
+}
+
+function isDealLive(deal: Deal): boolean {
+  const now = Date.now();
+  return (
+    deal.isActive &&
+    !deal.hiddenAt &&
+    deal.startDate.getTime() <= now &&
+    deal.endDate.getTime() > now
+  );
+}
+
+/**
+ * Load a deal and check that it belongs to the authenticated vendor.
+ * Sends the error response and returns null when access is denied.
+ */
+async function getOwnedDeal(req: Request, res: Response): Promise<Deal | null> {
+  const deal = await storage.getDeal(req.params.id);
+
+  if (!deal) {
+    res.status(404).json({ error: "Deal not found" });
+    return null;
+  }
+
+  const listing = await storage.getVendorListing(deal.vendorId);
+  if (!listing || listing.userId !== req.user!.userId) {
+    res.status(403).json({ error: "Not authorized to modify this deal" });
+    return null;
+  }
+
+  return deal;
+}
+
+export function registerDealRoutes(app: Express): void {
+  // ==========================================
+  // PUBLIC ROUTES (No auth required)
+  // ==========================================
+
+  // GET /api/deals - List live deals, optionally filtered by vendor, category or flash
+  app.get("/api/deals", async (req: Request, res: Response) => {
+    try {
+      const { vendorId, category, flash, openNow } = req.query;
+
+      let activeDeals = await storage.getActiveDeals();
+      if (flash === "true" || flash === "false") {
+        activeDeals = activeDeals.filter(
+          (d) => d.isFlash === (flash === "true"),
+        );
+      }
+      if (typeof vendorId === "string") {
+        activeDeals = activeDeals.filter((d) => d.vendorId === vendorId);
+      }
+      if (typeof category === "string" && category !== "All") {
+        activeDeals = activeDeals.filter((d) => d.category === category);
+      }
+
+      const vendorIds = Array.from(new Set(activeDeals.map((d) => d.vendorId)));
+      const vendors = new Map<string, VendorListing>();
+      for (const id of vendorIds) {
+        const listing = await storage.getVendorListing(id);
+        if (listing && !listing.hiddenAt) vendors.set(id, listing);
+      }
+
+      const [statuses, boosts] = await Promise.all([
+        getOpenStatuses(Array.from(vendors.values())),
+        getActiveBoostMap(Array.from(vendors.keys())),
+      ]);
+
+      const result = activeDeals
+        .filter((d) => vendors.has(d.vendorId))
+        // Vendors without posted hours can't be confirmed open
+        .filter(
+          (d) =>
+            openNow !== "true" || statuses.get(d.vendorId)?.isOpen === true,
+        )
+        // Deals from boosted vendors lead the feed
+        .sort(
+          (a, b) =>
+            getBoostMultiplier(boosts.get(b.vendorId)) -
+            getBoostMultiplier(boosts.get(a.vendorId)),
+        )
+        .map((d) =>
+          toPublicDeal(
+            d,
+            vendors.get(d.vendorId)!,
+            statuses.get(d.vendorId),
+            boosts.get(d.vendorId),
+          ),
+        );
+
+      res.json({ deals: result, count: result.length });
+    } catch (error) {
+      console.error("Error fetching deals:", error);
+      res.status(500).json({ error: "Failed to fetch deals" });
+    }
+  });
+
+  // ==========================================
+  // VENDOR AUTHENTICATED ROUTES
+  // ==========================================
+
+  // GET /api/deals/my - All deals for the current vendor (including inactive)
+  app.get(
+    "/api/deals/my",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const listing = await storage.getVendorListingByUserId(
+          req.user!.userId,
+        );
+
+        if (!listing) {
+          return res.json({ deals: [], count: 0 });
+        }
+
+        const vendorDeals = (await storage.getDealsByVendor(listing.id)).map(
+          (d) => toPublicDeal(d, listing),
+        );
+        res.json({ deals: vendorDeals, count: vendorDeals.length });
+      } catch (error) {
+        console.error("Error fetching my deals:", error);
+        res.status(500).json({ error: "Failed to fetch deals" });
+      }
+    },
+  );
+
+  // GET /api/deals/:id - Single live deal
+  app.get("/api/deals/:id", async (req: Request, res: Response) => {
+    try {
+      const deal = await storage.getDeal(req.params.id);
+      const vendor = deal
+        ? await storage.getVendorListing(deal.vendorId)
+        : undefined;
+
+      if (!deal || !vendor || vendor.hiddenAt || !isDealLive(deal)) {
+        return res.status(404).json({ error: "Deal not found" });
+      }
+
+      const status = (await getOpenStatuses([vendor])).get(vendor.id);
+      res.json(toPublicDeal(deal, vendor, status));
+    } catch (error) {
+      console.error("Error fetching deal:", error);
+      res.status(500).json({ error: "Failed to fetch deal" });
+    }
+  });
+
+  // POST /api/deals - Create a deal for the current vendor's listing
+  app.post(
+    "/api/deals",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const listing = await storage.getVendorListingByUserId(
+          req.user!.userId,
+        );
+
+        if (!listing) {
+          return res
+            .status(400)
+            .json({ error: "Create a vendor listing before publishing deals" });
+        }
+
+        if (getTierLimits(listing.vendorTier).noPromotions) {
+          return res
+            .status(403)
+            .json({ error: "Promotions require a paid subscription" });
+        }
+
+        if (listing.hiddenAt) {
+          return res.status(403).json({
+            error: "Your listing is hidden, so new deals can't be published",
+            reason: listing.hiddenReason,
+          });
+        }
+
+        const validatedData = insertDealSchema.parse(req.body);
+
+        const unknownItems = await findUnknownMenuItemIds(
+          listing.id,
+          validatedData.menuItemIds ?? [],
+        );
+        if (unknownItems.length > 0) {
+          return res.status(400).json({
+            error: "Deals can only link items on your own menu",
+            menuItemIds: unknownItems,
+          });
+        }
+
+        const deal = await storage.createDeal(listing.id, validatedData);
+
+        // Subscribers hear about a live flash deal straight away; a scheduled one waits for the sweep
+        if (deal.isFlash && deal.startDate.getTime() <= Date.now()) {
+          announceFlashDeals().catch((error) => {
+            console.error("Error announcing flash deals:", error);
+          });
+        }
+
+        res.status(201).json({ message: "Deal created successfully", deal });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error creating deal:", error);
+        res.status(500).json({ error: "Failed to create deal" });
+      }
+    },
+  );
+
+  // PUT /api/deals/:id - Update a deal
+  app.put(
+    "/api/deals/:id",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const deal = await getOwnedDeal(req, res);
+        if (!deal) return;
+
+        const updates = updateDealSchema.parse(req.body);
+
+        const originalPrice = updates.originalPrice ?? deal.originalPrice;
+        const discountedPrice = updates.discountedPrice ?? deal.discountedPrice;
+        if (discountedPrice > originalPrice) {
+          return res
+            .status(400)
+            .json({ error: "Discounted price cannot exceed original price" });
+        }
+
+        if (
+          (updates.endDate ?? deal.endDate) <=
+          (updates.startDate ?? deal.startDate)
+        ) {
+          return res
+            .status(400)
+            .json({ error: "End date must be after start date" });
+        }
+
+        if (
+          updates.maxRedemptions != null &&
+          updates.maxRedemptions < deal.currentRedemptions
+        ) {
+          return res.status(400).json({
+            error: `Max redemptions cannot be lower than the ${deal.currentRedemptions} already redeemed`,
+          });
+        }
+
+        if (updates.menuItemIds) {
+          const unknownItems = await findUnknownMenuItemIds(
+            deal.vendorId,
+            updates.menuItemIds,
+          );
+          if (unknownItems.length > 0) {
+            return res.status(400).json({
+              error: "Deals can only link items on your own menu",
+              menuItemIds: unknownItems,
+            });
+          }
+        }
+
+        const updatedDeal = await storage.updateDeal(deal.id, updates);
+
+        res.json({ message: "Deal updated successfully", deal: updatedDeal });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error updating deal:", error);
+        res.status(500).json({ error: "Failed to update deal" });
+      }
+    },
+  );
+
+  // ==========================================
+  // CUSTOMER AUTHENTICATED ROUTES
+  // ==========================================
+
+  // POST /api/deals/:id/redeem - Claim a deal (capacity enforced atomically)
+  app.post(
+    "/api/deals/:id/redeem",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        // Deals of a hidden listing aren't shown anywhere, so they can't be claimed either
+        const existing = await storage.getDeal(req.params.id);
+        const vendor = existing
+          ? await storage.getVendorListing(existing.vendorId)
+          : undefined;
+        if (!vendor || vendor.hiddenAt) {
+          return res.status(404).json({ error: "Deal not found" });
+        }
+
+        const result = await storage.redeemDeal(
+          req.params.id,
+          req.user!.userId,
+        );
+
+        switch (result.status) {
+          case "not_found":
+            return res.status(404).json({ error: "Deal not found" });
+          case "expired":
+            return res
+              .status(410)
+              .json({ error: "This deal has expired", reason: result.status });
+          case "sold_out":
+            return res
+              .status(409)
+              .json({ error: "This deal is sold out", reason: result.status });
+          case "already_redeemed":
+            return res.status(409).json({
+              error: "You have already redeemed this deal",
+              reason: result.status,
+            });
+        }
+
+        const { deal, redemption } = result;
+        res.status(201).json({
+          message: "Deal redeemed successfully",
+          redemption: toRedemptionPass(redemption),
+          currentRedemptions: deal.currentRedemptions,
+          remainingRedemptions:
+            deal.maxRedemptions != null
+              ? Math.max(deal.maxRedemptions - deal.currentRedemptions, 0)
+              : null,
+        });
+      } catch (error) {
+        console.error("Error redeeming deal:", error);
+        res.status(500).json({ error: "Failed to redeem deal" });
+      }
+    },
+  );
+
+  // DELETE /api/deals/:id - Delete a deal
+  app.delete(
+    "/api/deals/:id",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const deal = await getOwnedDeal(req, res);
+        if (!deal) return;
+
+        await deletePhotosFor("deal", [deal.id]);
+        await storage.deleteDeal(deal.id);
+
+        res.json({ message: "Deal deleted successfully" });
+      } catch (error) {
+        console.error("Error deleting deal:", error);
+        res.status(500).json({ error: "Failed to delete deal" });
+      }
+    },
+  );
+
+  const sweep = setInterval(() => {
+    announceFlashDeals().catch((error) => {
+      console.error("Error announcing flash deals:", error);
+    });
+  }, FLASH_DEAL_SWEEP_MS);
+  sweep.unref();
+
+  console.log("Deal routes registered");
+}
@@ -0,0 +1,126 @@
+// Geospatial helpers for nearby / in-bounds vendor queries
+
+const EARTH_RADIUS_MILES = 3959;
+const MILES_PER_DEGREE_LAT = 69.0;
+
+export interface GeoBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Great-circle distance between two points in miles.
+ */
+export function haversineMiles(
+  lat1: number,
+  lng1: number,
+  lat2: number,
+  lng2: number,
+): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(lat1)) *
+      Math.cos(toRadians(lat2)) *
+      Math.sin(dLng / 2) *
+      Math.sin(dLng / 2);
+  return EARTH_RADIUS_MILES * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Smallest lat/lng box containing every point within radiusMiles of the center.
+ * Used as an index-friendly prefilter before the exact distance check.
+ */
+export function getBoundingBox(
+  lat: number,
+  lng: number,
+  radiusMiles: number,
+): GeoBounds {
+  const latDelta = radiusMiles / MILES_PER_DEGREE_LAT;
+  const south = Math.max(lat - latDelta, -90);
+  const north = Math.min(lat + latDelta, 90);
+
+  // Near the poles a degree of longitude shrinks to nothing; take the full range
+  const cosLat = Math.cos(
+    toRadians(Math.max(Math.abs(south), Math.abs(north))),
+  );
+  if (cosLat < 1e-6) {
+    return { south, west: -180, north, east: 180 };
+  }
+
+  const lngDelta = radiusMiles / (MILES_PER_DEGREE_LAT * cosLat);
+  if (lngDelta >= 180) {
+    return { south, west: -180, north, east: 180 };
+  }
+
+  return {
+    south,
+    west: normalizeLng(lng - lngDelta),
+    north,
+    east: normalizeLng(lng + lngDelta),
+  };
+}
+
+/**
+ * Split a box that crosses the antimeridian (west > east) into two that don't.
+ */
+export function splitAtAntimeridian(bounds: GeoBounds): GeoBounds[] {
+  if (bounds.west <= bounds.east) return [bounds];
+  return [
+    { ...bounds, east: 180 },
+    { ...bounds, west: -180 },
+  ];
+}
+
+/**
+ * Whether a point lies inside a box; west > east means the box crosses the antimeridian.
+ */
+export function boundsContain(
+  bounds: GeoBounds,
+  lat: number,
+  lng: number,
+): boolean {
+  if (lat < bounds.south || lat > bounds.north) return false;
+  return bounds.west <= bounds.east
+    ? lng >= bounds.west && lng <= bounds.east
+    : lng >= bounds.west || lng <= bounds.east;
+}
+
+/**
+ * Whether a point lies inside a polygon, by ray casting. Edges are straight
+ * lines in lat/lng, which is close enough for neighborhood-sized zones.
+ */
+export function polygonContains(
+  polygon: { latitude: number; longitude: number }[],
+  lat: number,
+  lng: number,
+): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (
+      a.latitude > lat !== b.latitude > lat &&
+      lng <
+        ((b.longitude - a.longitude) * (lat - a.latitude)) /
+          (b.latitude - a.latitude) +
+          a.longitude
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function normalizeLng(lng: number): number {
+  if (lng > 180) return lng - 360;
+  if (lng < -180) return lng + 360;
+  return lng;
+}
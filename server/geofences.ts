@@ -0,0 +1,417 @@
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import {
+  getGeofenceShapeError,
+  insertGeofenceZoneSchema,
+  updateGeofenceZoneSchema,
+  type GeofenceZone,
+  type InsertGeofenceZone,
+  type UpdateGeofenceZone,
+} from "../shared/schema";
+import { authMiddleware, optionalAuth, requireRole } from "./auth";
+import { storage } from "./storage";
+import { haversineMiles, polygonContains } from "./geo";
+import { deliverNotification } from "./notifications";
+
+const METERS_PER_MILE = 1609.344;
+// A truck parked on a zone's edge shouldn't alert the same subscribers every heartbeat
+const ALERT_COOLDOWN_MS = 30 * 60 * 1000;
+
+// The zones the app launched with; seeded once, then managed through the admin API
+const DEFAULT_ZONES: InsertGeofenceZone[] = [
+  {
+    id: "zone_miami_downtown",
+    name: "Downtown Miami",
+    city: "Miami",
+    state: "FL",
+    shape: "circle",
+    centerLat: 25.7617,
+    centerLng: -80.1918,
+    radiusMeters: 2000,
+  },
+  {
+    id: "zone_miami_beach",
+    name: "Miami Beach",
+    city: "Miami",
+    state: "FL",
+    shape: "circle",
+    centerLat: 25.7907,
+    centerLng: -80.13,
+    radiusMeters: 3000,
+  },
+  {
+    id: "zone_miami_wynwood",
+    name: "Wynwood",
+    city: "Miami",
+    state: "FL",
+    shape: "circle",
+    centerLat: 25.801,
+    centerLng: -80.1993,
+    radiusMeters: 1500,
+  },
+  {
+    id: "zone_orlando_downtown",
+    name: "Downtown Orlando",
+    city: "Orlando",
+    state: "FL",
+    shape: "circle",
+    centerLat: 28.5383,
+    centerLng: -81.3792,
+    radiusMeters: 2500,
+  },
+  {
+    id: "zone_orlando_mills",
+    name: "Mills 50",
+    city: "Orlando",
+    state: "FL",
+    shape: "circle",
+    centerLat: 28.557,
+    centerLng: -81.365,
+    radiusMeters: 1500,
+  },
+  {
+    id: "zone_tampa_downtown",
+    name: "Downtown Tampa",
+    city: "Tampa",
+    state: "FL",
+    shape: "circle",
+    centerLat: 27.9506,
+    centerLng: -82.4572,
+    radiusMeters: 2000,
+  },
+  {
+    id: "zone_tampa_ybor",
+    name: "Ybor City",
+    city: "Tampa",
+    state: "FL",
+    shape: "circle",
+    centerLat: 27.96,
+    centerLng: -82.438,
+    radiusMeters: 1500,
+  },
+];
+
+// Zones each live truck is in, keyed by listing id. Like live presence, kept in process memory
+const occupancy = new Map<string, Set<string>>();
+// When each truck last alerted each zone's subscribers, keyed "vendorId:zoneId:event".
+// Only alerts still inside the cooldown are kept.
+const lastAlertAt = new Map<string, number>();
+// Each truck's pending evaluation. Heartbeats don't wait for them, so later
+// positions queue behind earlier ones instead of racing them.
+const evaluations = new Map<string, Promise<void>>();
+
+interface TruckPosition {
+  vendorId: string; // vendor_listings.id
+  businessName: string;
+  latitude: number;
+  longitude: number;
+}
+
+export function zoneContains(
+  zone: GeofenceZone,
+  lat: number,
+  lng: number,
+): boolean {
+  if (zone.shape === "polygon") {
+    return !!zone.polygon && polygonContains(zone.polygon, lat, lng);
+  }
+  return (
+    zone.radiusMeters !== null &&
+    haversineMiles(zone.centerLat, zone.centerLng, lat, lng) *
+      METERS_PER_MILE <=
+      zone.radiusMeters
+  );
+}
+
+/**
+ * The shape columns to store: polygons are centered on their bounding box
+ * for the map and have no radius, and circles drop any outline.
+ */
+function normalizeShape(
+  zone: Pick<
+    UpdateGeofenceZone,
+    "shape" | "centerLat" | "centerLng" | "radiusMeters" | "polygon"
+  >,
+) {
+  if (zone.shape === "polygon" && zone.polygon) {
+    const lats = zone.polygon.map((p) => p.latitude);
+    const lngs = zone.polygon.map((p) => p.longitude);
+    return {
+      centerLat: (Math.min(...lats) + Math.max(...lats)) / 2,
+      centerLng: (Math.min(...lngs) + Math.max(...lngs)) / 2,
+      radiusMeters: null,
+      polygon: zone.polygon,
+    };
+  }
+  return {
+    centerLat: zone.centerLat!,
+    centerLng: zone.centerLng!,
+    radiusMeters: zone.radiusMeters ?? null,
+    polygon: null,
+  };
+}
+
+function toPublicZone(zone: GeofenceZone, subscribed: boolean) {
+  return {
+    id: zone.id,
+    name: zone.name,
+    city: zone.city,
+    state: zone.state,
+    shape: zone.shape,
+    latitude: zone.centerLat,
+    longitude: zone.centerLng,
+    radiusMeters: zone.radiusMeters,
+    polygon: zone.polygon,
+    notifyOnEnter: zone.notifyOnEnter,
+    notifyOnExit: zone.notifyOnExit,
+    subscribed,
+  };
+}
+
+// Customers watching the zone who have the truck as a favorite, minus the truck's owner
+async function getZoneAlertRecipients(
+  zoneId: string,
+  vendorId: string,
+): Promise<string[]> {
+  const [zoneSubscribers, fans, listing] = await Promise.all([
+    storage.getSubscriberIds("zone", zoneId),
+    storage.getSubscriberIds("favorite", vendorId),
+    storage.getVendorListing(vendorId),
+  ]);
+  const fanIds = new Set(fans);
+  return zoneSubscribers.filter(
+    (id) => fanIds.has(id) && id !== listing?.userId,
+  );
+}
+
+async function alertZone(
+  truck: TruckPosition,
+  zone: GeofenceZone,
+  event: "enter" | "exit",
+  now: number,
+) {
+  for (const [key, at] of lastAlertAt) {
+    if (now - at >= ALERT_COOLDOWN_MS) lastAlertAt.delete(key);
+  }
+
+  const key = `${truck.vendorId}:${zone.id}:${event}`;
+  if (lastAlertAt.has(key)) return;
+  lastAlertAt.set(key, now);
+
+  const recipients = await getZoneAlertRecipients(zone.id, truck.vendorId);
+  await deliverNotification(recipients, {
+    category: "zone_alert",
+    title:
+      event === "enter"
+        ? `📍 ${truck.businessName} is in ${zone.name}`
+        : `${truck.businessName} left ${zone.name}`,
+    body:
+      event === "enter"
+        ? `One of your favorite trucks just arrived in ${zone.name}. Tap to see where they're parked.`
+        : `One of your favorite trucks has moved on from ${zone.name}.`,
+    data: {
+      type: "zone_alert",
+      event,
+      vendorId: truck.vendorId,
+      zoneId: zone.id,
+    },
+  });
+}
+
+async function evaluatePosition(truck: TruckPosition): Promise<void> {
+  const zones = await storage.getGeofenceZones(true);
+  const inside = new Set(
+    zones
+      .filter((z) => zoneContains(z, truck.latitude, truck.longitude))
+      .map((z) => z.id),
+  );
+  const previous = occupancy.get(truck.vendorId) ?? new Set<string>();
+  occupancy.set(truck.vendorId, inside);
+
+  const now = Date.now();
+  for (const zone of zones) {
+    const entered = inside.has(zone.id) && !previous.has(zone.id);
+    const exited = !inside.has(zone.id) && previous.has(zone.id);
+    if (entered && zone.notifyOnEnter) {
+      await alertZone(truck, zone, "enter", now);
+    } else if (exited && zone.notifyOnExit) {
+      await alertZone(truck, zone, "exit", now);
+    }
+  }
+}
+
+// Run after the truck's earlier evaluations, whether or not they succeeded
+function enqueue(vendorId: string, task: () => Promise<void>): Promise<void> {
+  const next = (evaluations.get(vendorId) ?? Promise.resolve())
+    .catch(() => {})
+    .then(task);
+  evaluations.set(vendorId, next);
+  const forget = () => {
+    if (evaluations.get(vendorId) === next) evaluations.delete(vendorId);
+  };
+  next.then(forget, forget);
+  return next;
+}
+
+/**
+ * Work out which zones a truck entered or left since its last position and
+ * alert the zones' subscribers who have it as a favorite. Call whenever a
+ * live truck's position changes, including when it goes live. Positions of
+ * the same truck are evaluated one at a time, in the order they arrive.
+ */
+export function evaluateGeofences(truck: TruckPosition): Promise<void> {
+  return enqueue(truck.vendorId, () => evaluatePosition(truck));
+}
+
+/**
+ * Forget where a truck was once it goes offline. Closing up isn't leaving,
+ * so no exit alerts are sent. Queued behind any evaluation still running so
+ * it can't bring the old position back.
+ */
+export function clearGeofencePresence(vendorId: string): void {
+  enqueue(vendorId, async () => {
+    occupancy.delete(vendorId);
+  });
+}
+
+async function seedDefaultZones() {
+  try {
+    const created = await storage.createGeofenceZones(DEFAULT_ZONES);
+    if (created.length > 0) {
+      console.log(`[Geofences] Seeded ${created.length} default zones`);
+    }
+  } catch (error) {
+    console.warn("[Geofences] Could not seed default zones:", error);
+  }
+}
+
+export function registerGeofenceRoutes(app: Express): void {
+  // Adds any default zone that isn't defined yet; edits to existing ones are kept
+  seedDefaultZones();
+
+  // ==========================================
+  // PUBLIC ROUTES (No auth required)
+  // ==========================================
+
+  // GET /api/geofences - Active zones, optionally for one city; signed-in users see which they watch
+  app.get(
+    "/api/geofences",
+    optionalAuth,
+    async (req: Request, res: Response) => {
+      try {
+        const city =
+          typeof req.query.city === "string"
+            ? req.query.city.trim().toLowerCase()
+            : null;
+        const [zones, subscriptions] = await Promise.all([
+          storage.getGeofenceZones(true),
+          req.user
+            ? storage.getNotificationSubscriptionsByUser(req.user.userId)
+            : Promise.resolve([]),
+        ]);
+        const watched = new Set(
+          subscriptions.filter((s) => s.kind === "zone").map((s) => s.target),
+        );
+
+        res.json({
+          zones: zones
+            .filter((z) => !city || z.city.toLowerCase() === city)
+            .map((z) => toPublicZone(z, watched.has(z.id))),
+        });
+      } catch (error) {
+        console.error("Error fetching geofence zones:", error);
+        res.status(500).json({ error: "Failed to fetch zones" });
+      }
+    },
+  );
+
+  // ==========================================
+  // ADMIN AUTHENTICATED ROUTES
+  // ==========================================
+
+  // GET /api/admin/geofences - Every zone, including inactive ones
+  app.get(
+    "/api/admin/geofences",
+    authMiddleware,
+    requireRole("admin"),
+    async (_req: Request, res: Response) => {
+      try {
+        res.json({ zones: await storage.getGeofenceZones() });
+      } catch (error) {
+        console.error("Error fetching geofence zones:", error);
+        res.status(500).json({ error: "Failed to fetch zones" });
+      }
+    },
+  );
+
+  // POST /api/admin/geofences - Define a circle or polygon zone customers can watch
+  app.post(
+    "/api/admin/geofences",
+    authMiddleware,
+    requireRole("admin"),
+    async (req: Request, res: Response) => {
+      try {
+        const data = insertGeofenceZoneSchema.parse(req.body);
+        const [zone] = await storage.createGeofenceZones([
+          { ...data, ...normalizeShape(data) },
+        ]);
+        if (!zone) {
+          return res
+            .status(409)
+            .json({ error: "A zone with this id already exists" });
+        }
+
+        res.status(201).json({ message: "Zone created", zone });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error creating geofence zone:", error);
+        res.status(500).json({ error: "Failed to create zone" });
+      }
+    },
+  );
+
+  // PUT /api/admin/geofences/:id - Move, reshape, rename or retire a zone
+  app.put(
+    "/api/admin/geofences/:id",
+    authMiddleware,
+    requireRole("admin"),
+    async (req: Request, res: Response) => {
+      try {
+        const existing = await storage.getGeofenceZone(req.params.id);
+        if (!existing) {
+          return res.status(404).json({ error: "Zone not found" });
+        }
+
+        const updates = updateGeofenceZoneSchema.parse(req.body);
+        const merged = { ...existing, ...updates };
+        const shapeError = getGeofenceShapeError(merged);
+        if (shapeError) {
+          return res.status(400).json({ error: shapeError });
+        }
+
+        // Trucks already inside are re-checked against the new shape on their next heartbeat
+        const zone = await storage.updateGeofenceZone(existing.id, {
+          ...updates,
+          ...normalizeShape(merged),
+        });
+        res.json({ message: "Zone updated", zone });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error updating geofence zone:", error);
+        res.status(500).json({ error: "Failed to update zone" });
+      }
+    },
+  );
+
+  console.log("Geofence routes registered");
+}
@@ -0,0 +1,392 @@
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import {
+  weeklyHoursSchema,
+  insertVendorSpecialHoursSchema,
+  type VendorHours,
+  type VendorListing,
+  type VendorSpecialHours,
+} from "../shared/schema";
+import { authMiddleware } from "./auth";
+import { storage } from "./storage";
+
+const MINUTES_PER_DAY = 24 * 60;
+// How far ahead to look for the next opening when building "Opens ..." labels
+const LOOKAHEAD_DAYS = 7;
+// Below this, an open vendor shows "Closes in N min" instead of a clock time
+const CLOSING_SOON_MINUTES = 60;
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export interface OpenStatus {
+  // null when the vendor hasn't posted any hours
+  isOpen: boolean | null;
+  statusLabel: string | null;
+}
+
+const NO_HOURS: OpenStatus = { isOpen: null, statusLabel: null };
+
+interface LocalTime {
+  date: string; // YYYY-MM-DD
+  minutes: number; // since local midnight
+}
+
+// Wall-clock date and time in a timezone
+export function getLocalTime(now: Date, timeZone: string): LocalTime {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(now);
+  const get = (type: string) => parts.find((p) => p.type === type)!.value;
+  return {
+    date: `${get("year")}-${get("month")}-${get("day")}`,
+    minutes: Number(get("hour")) * 60 + Number(get("minute")),
+  };
+}
+
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+export function dayOfWeek(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+function toMinutes(time: string): number {
+  const [h, m] = time.split(":").map(Number);
+  return h * 60 + m;
+}
+
+function formatTime(minutes: number): string {
+  const m = ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const hour = Math.floor(m / 60);
+  const minute = m % 60;
+  const suffix = hour < 12 ? "AM" : "PM";
+  const hour12 = hour % 12 === 0 ? 12 : hour % 12;
+  return minute === 0
+    ? `${hour12} ${suffix}`
+    : `${hour12}:${String(minute).padStart(2, "0")} ${suffix}`;
+}
+
+// Shifts that start on a local date: special hours for that date replace the weekly ones
+function shiftsForDate(
+  date: string,
+  weekly: VendorHours[],
+  special: VendorSpecialHours[],
+) {
+  const overrides = special.filter((s) => s.date === date);
+  if (overrides.length > 0) {
+    if (overrides.some((s) => s.isClosed)) return [];
+    return overrides.map((s) => ({
+      opensAt: s.opensAt!,
+      closesAt: s.closesAt!,
+    }));
+  }
+  const day = dayOfWeek(date);
+  return weekly.filter((h) => h.dayOfWeek === day);
+}
+
+/**
+ * Whether a vendor is open right now, with an "Opens at" / "Closes in" label.
+ * Times are compared as wall-clock minutes in the vendor's timezone.
+ */
+export function computeOpenStatus(
+  timeZone: string,
+  weekly: VendorHours[],
+  special: VendorSpecialHours[],
+  now = new Date(),
+): OpenStatus {
+  if (weekly.length === 0 && special.length === 0) return NO_HOURS;
+
+  const local = getLocalTime(now, timeZone);
+
+  // Open intervals from yesterday (overnight shifts) through the lookahead window,
+  // in minutes relative to local midnight today, merged where shifts touch
+  const intervals: { start: number; end: number }[] = [];
+  for (let offset = -1; offset <= LOOKAHEAD_DAYS; offset++) {
+    const base = offset * MINUTES_PER_DAY;
+    for (const shift of shiftsForDate(
+      addDays(local.date, offset),
+      weekly,
+      special,
+    )) {
+      const opens = toMinutes(shift.opensAt);
+      let closes = toMinutes(shift.closesAt);
+      if (closes <= opens) closes += MINUTES_PER_DAY;
+      intervals.push({ start: base + opens, end: base + closes });
+    }
+  }
+  intervals.sort((a, b) => a.start - b.start);
+  const merged: { start: number; end: number }[] = [];
+  for (const interval of intervals) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+
+  const current = merged.find(
+    (i) => i.start <= local.minutes && local.minutes < i.end,
+  );
+  if (current) {
+    const remaining = current.end - local.minutes;
+    if (current.end >= (LOOKAHEAD_DAYS + 1) * MINUTES_PER_DAY) {
+      return { isOpen: true, statusLabel: "Open 24 hours" };
+    }
+    return {
+      isOpen: true,
+      statusLabel:
+        remaining <= CLOSING_SOON_MINUTES
+          ? `Closes in ${remaining} min`
+          : `Closes at ${formatTime(current.end)}`,
+    };
+  }
+
+  const next = merged.find((i) => i.start > local.minutes);
+  if (!next) return { isOpen: false, statusLabel: "Closed" };
+
+  const daysAhead = Math.floor(next.start / MINUTES_PER_DAY);
+  const time = formatTime(next.start);
+  let statusLabel: string;
+  if (daysAhead === 0) {
+    statusLabel = `Opens at ${time}`;
+  } else if (daysAhead === 1) {
+    statusLabel = `Opens tomorrow at ${time}`;
+  } else {
+    statusLabel = `Opens ${WEEKDAYS[dayOfWeek(addDays(local.date, daysAhead))]} at ${time}`;
+  }
+  return { isOpen: false, statusLabel };
+}
+
+// Local dates run at most a day either side of UTC
+function earliestLocalDate(now: Date): string {
+  return addDays(now.toISOString().slice(0, 10), -1);
+}
+
+/**
+ * Open status for many vendors with two batched storage reads.
+ */
+export async function getOpenStatuses(
+  listings: VendorListing[],
+  now = new Date(),
+): Promise<Map<string, OpenStatus>> {
+  const ids = listings.map((l) => l.id);
+  const [weekly, special] = await Promise.all([
+    storage.getVendorHours(ids),
+    storage.getSpecialHours(ids, earliestLocalDate(now)),
+  ]);
+
+  return new Map(
+    listings.map((l) => [
+      l.id,
+      computeOpenStatus(
+        l.timezone,
+        weekly.filter((h) => h.vendorId === l.id),
+        special.filter((s) => s.vendorId === l.id),
+        now,
+      ),
+    ]),
+  );
+}
+
+async function getVendorHoursView(listing: VendorListing) {
+  const now = new Date();
+  const [weekly, special] = await Promise.all([
+    storage.getVendorHours([listing.id]),
+    storage.getSpecialHours([listing.id], earliestLocalDate(now)),
+  ]);
+  const today = getLocalTime(now, listing.timezone).date;
+
+  return {
+    timezone: listing.timezone,
+    shifts: weekly.map((h) => ({
+      dayOfWeek: h.dayOfWeek,
+      opensAt: h.opensAt,
+      closesAt: h.closesAt,
+    })),
+    specialHours: special
+      .filter((s) => s.date >= today)
+      .map((s) => ({
+        id: s.id,
+        date: s.date,
+        isClosed: s.isClosed,
+        opensAt: s.opensAt,
+        closesAt: s.closesAt,
+        note: s.note,
+      })),
+    ...computeOpenStatus(listing.timezone, weekly, special, now),
+  };
+}
+
+export function registerHoursRoutes(app: Express): void {
+  // ==========================================
+  // PUBLIC ROUTES (No auth required)
+  // ==========================================
+
+  // GET /api/vendors/public/:id/hours - Weekly hours, upcoming closures and open status
+  app.get(
+    "/api/vendors/public/:id/hours",
+    async (req: Request, res: Response) => {
+      try {
+        const vendor = await storage.getVendorListing(req.params.id);
+        if (!vendor || vendor.hiddenAt) {
+          return res.status(404).json({ error: "Vendor not found" });
+        }
+
+        res.json(await getVendorHoursView(vendor));
+      } catch (error) {
+        console.error("Error fetching hours:", error);
+        res.status(500).json({ error: "Failed to fetch hours" });
+      }
+    },
+  );
+
+  // ==========================================
+  // VENDOR AUTHENTICATED ROUTES
+  // ==========================================
+
+  // GET /api/vendors/listing/my/hours - The current vendor's hours
+  app.get(
+    "/api/vendors/listing/my/hours",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const listing = await storage.getVendorListingByUserId(
+          req.user!.userId,
+        );
+        if (!listing) {
+          return res.status(404).json({ error: "No listing found" });
+        }
+
+        res.json(await getVendorHoursView(listing));
+      } catch (error) {
+        console.error("Error fetching my hours:", error);
+        res.status(500).json({ error: "Failed to fetch hours" });
+      }
+    },
+  );
+
+  // PUT /api/vendors/listing/my/hours - Replace the weekly schedule (and optionally the timezone)
+  app.put(
+    "/api/vendors/listing/my/hours",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        let listing = await storage.getVendorListingByUserId(req.user!.userId);
+        if (!listing) {
+          return res
+            .status(400)
+            .json({ error: "Create a vendor listing before setting hours" });
+        }
+
+        const { timezone, shifts } = weeklyHoursSchema.parse(req.body);
+
+        if (timezone && timezone !== listing.timezone) {
+          listing =
+            (await storage.updateVendorListing(listing.id, { timezone })) ??
+            listing;
+        }
+        await storage.replaceVendorHours(listing.id, shifts);
+
+        res.json({
+          message: "Hours updated",
+          hours: await getVendorHoursView(listing),
+        });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error updating hours:", error);
+        res.status(500).json({ error: "Failed to update hours" });
+      }
+    },
+  );
+
+  // POST /api/vendors/listing/my/special-hours - Add a closure or special hours for one date
+  app.post(
+    "/api/vendors/listing/my/special-hours",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const listing = await storage.getVendorListingByUserId(
+          req.user!.userId,
+        );
+        if (!listing) {
+          return res
+            .status(400)
+            .json({ error: "Create a vendor listing before setting hours" });
+        }
+
+        const entry = insertVendorSpecialHoursSchema.parse(req.body);
+        if (entry.date < getLocalTime(new Date(), listing.timezone).date) {
+          return res.status(400).json({
+            error: "Special hours must be for today or a future date",
+          });
+        }
+
+        await storage.createSpecialHours(listing.id, entry);
+
+        res.status(201).json({
+          message: "Special hours added",
+          hours: await getVendorHoursView(listing),
+        });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error adding special hours:", error);
+        res.status(500).json({ error: "Failed to add special hours" });
+      }
+    },
+  );
+
+  // DELETE /api/vendors/listing/my/special-hours/:id - Remove a closure or special hours entry
+  app.delete(
+    "/api/vendors/listing/my/special-hours/:id",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const entry = await storage.getSpecialHoursEntry(req.params.id);
+        if (!entry) {
+          return res.status(404).json({ error: "Special hours not found" });
+        }
+
+        const listing = await storage.getVendorListingByUserId(
+          req.user!.userId,
+        );
+        if (!listing || listing.id !== entry.vendorId) {
+          return res
+            .status(403)
+            .json({ error: "Not authorized to modify these hours" });
+        }
+
+        await storage.deleteSpecialHours(entry.id);
+
+        res.json({
+          message: "Special hours removed",
+          hours: await getVendorHoursView(listing),
+        });
+      } catch (error) {
+        console.error("Error deleting special hours:", error);
+        res.status(500).json({ error: "Failed to delete special hours" });
+      }
+    },
+  );
+
+  console.log("Hours routes registered");
+}
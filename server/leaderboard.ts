@@ -0,0 +1,195 @@
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import type { User } from "../shared/schema";
+import { authMiddleware } from "./auth";
+import { storage } from "./storage";
+import { getLevel, getSavings } from "./rewards";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Rolling windows, in days; "all" has no start
+const WINDOW_DAYS = { week: 7, month: 30 } as const;
+
+export interface LeaderboardEntry {
+  rank: number;
+  userId: string | null; // null for anonymized entries
+  name: string;
+  avatarUrl: string | null;
+  level: number;
+  value: number; // Points, or dollars saved
+  isCurrentUser: boolean;
+}
+
+const leaderboardQuerySchema = z.object({
+  metric: z.enum(["points", "savings"]).default("points"),
+  window: z.enum(["week", "month", "all"]).default("week"),
+  city: z.string().trim().min(1).max(100).optional(),
+  state: z.string().trim().min(1).max(50).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+});
+
+type LeaderboardQuery = z.infer<typeof leaderboardQuerySchema>;
+
+// Customers who hid their profile or stopped sharing with vendors are ranked but not named
+function isAnonymous(user: User | undefined): boolean {
+  return !user || user.profileHidden || !user.shareWithVendors;
+}
+
+function publicName(user: User): string {
+  if (!user.firstName) return user.username;
+  return user.lastName
+    ? `${user.firstName} ${user.lastName[0]}.`
+    : user.firstName;
+}
+
+function sameText(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Each customer's total for the window. Regional boards count activity by
+ * where it happened (the vendor's city and state), so points with no vendor,
+ * like achievements, only count on the everywhere board.
+ */
+async function computeTotals(
+  query: LeaderboardQuery,
+  now: Date,
+): Promise<Map<string, number>> {
+  const since =
+    query.window === "all"
+      ? null
+      : new Date(now.getTime() - WINDOW_DAYS[query.window] * DAY_MS);
+  const regional = !!(query.city || query.state);
+  const inRegion = new Set(
+    regional
+      ? (await storage.getVendorListings())
+          .filter(
+            (l) =>
+              (!query.city || sameText(l.city, query.city)) &&
+              (!query.state || sameText(l.state, query.state)),
+          )
+          .map((l) => l.id)
+      : [],
+  );
+
+  const totals = new Map<string, number>();
+  const add = (userId: string, amount: number) =>
+    totals.set(userId, (totals.get(userId) ?? 0) + amount);
+
+  if (query.metric === "points") {
+    for (const entry of await storage.getPointsLedgerSince(since)) {
+      // Spent points don't pull anyone down the board
+      if (entry.amount <= 0) continue;
+      if (regional && (!entry.vendorId || !inRegion.has(entry.vendorId)))
+        continue;
+      add(entry.userId, entry.amount);
+    }
+    return totals;
+  }
+
+  const redemptions = (await storage.getVerifiedRedemptionsSince(since)).filter(
+    (r) => !regional || inRegion.has(r.vendorId),
+  );
+  const dealIds = Array.from(new Set(redemptions.map((r) => r.dealId)));
+  const deals = await Promise.all(dealIds.map((id) => storage.getDeal(id)));
+  const dealById = new Map(deals.filter((d) => !!d).map((d) => [d!.id, d!]));
+  for (const redemption of redemptions) {
+    add(redemption.userId, getSavings(dealById.get(redemption.dealId)));
+  }
+  for (const [userId, saved] of Array.from(totals.entries())) {
+    totals.set(userId, Math.round(saved * 100) / 100);
+  }
+  return totals;
+}
+
+export function registerLeaderboardRoutes(app: Express): void {
+  // ==========================================
+  // CUSTOMER AUTHENTICATED ROUTES
+  // ==========================================
+
+  // GET /api/rewards/leaderboard?metric=&window=&city=&state=&limit= - Top customers and the caller's own rank
+  app.get(
+    "/api/rewards/leaderboard",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const query = leaderboardQuerySchema.parse(req.query);
+        const userId = req.user!.userId;
+        const totals = await computeTotals(query, new Date());
+
+        // Ties share a rank (1, 2, 2, 4); order within a tie is stable but arbitrary
+        const ranked = Array.from(totals.entries())
+          .filter(([, value]) => value > 0)
+          .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+        const ranks = new Map<string, number>();
+        ranked.forEach(([id, value], i) => {
+          ranks.set(
+            id,
+            i > 0 && ranked[i - 1][1] === value
+              ? ranks.get(ranked[i - 1][0])!
+              : i + 1,
+          );
+        });
+
+        const top = ranked.slice(0, query.limit);
+        const shownIds = Array.from(
+          new Set([
+            ...top.map(([id]) => id),
+            ...(ranks.has(userId) ? [userId] : []),
+          ]),
+        );
+        const [users, ledgers] = await Promise.all([
+          storage.getUsers(shownIds),
+          Promise.all(shownIds.map((id) => storage.getPointsLedger(id))),
+        ]);
+        const userById = new Map(users.map((u) => [u.id, u]));
+        const levelById = new Map(
+          shownIds.map((id, i) => [
+            id,
+            getLevel(
+              ledgers[i]
+                .filter((e) => e.amount > 0)
+                .reduce((sum, e) => sum + e.amount, 0),
+            ).level,
+          ]),
+        );
+
+        const toEntry = (id: string, value: number): LeaderboardEntry => {
+          const user = userById.get(id);
+          const isCurrentUser = id === userId;
+          // Customers always see themselves, even when hidden from everyone else
+          const anonymous = !isCurrentUser && isAnonymous(user);
+          return {
+            rank: ranks.get(id)!,
+            userId: anonymous ? null : id,
+            name: anonymous || !user ? "Anonymous" : publicName(user),
+            avatarUrl: anonymous ? null : (user?.avatarUrl ?? null),
+            level: levelById.get(id) ?? 1,
+            value,
+            isCurrentUser,
+          };
+        };
+
+        res.json({
+          metric: query.metric,
+          window: query.window,
+          city: query.city ?? null,
+          state: query.state ?? null,
+          entries: top.map(([id, value]) => toEntry(id, value)),
+          me: ranks.has(userId) ? toEntry(userId, totals.get(userId)!) : null,
+          totalRanked: ranked.length,
+        });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error fetching leaderboard:", error);
+        res.status(500).json({ error: "Failed to fetch leaderboard" });
+      }
+    },
+  );
+
+  console.log("Leaderboard routes registered");
+}
@@ -0,0 +1,416 @@
+import type { Express, Request, Response } from "express";
+import type { Server } from "node:http";
+import { WebSocket, WebSocketServer, type RawData } from "ws";
+import { z } from "zod";
+import {
+  liveLocationSchema,
+  locationSessionStatsSchema,
+  type LiveLocation,
+  type VendorListing,
+} from "../shared/schema";
+import { authMiddleware } from "./auth";
+import { storage } from "./storage";
+import { boundsContain, type GeoBounds } from "./geo";
+import { getTierLimits } from "./vendor-listings";
+import {
+  closeLocationSession,
+  openLocationSession,
+  toPublicSession,
+} from "./location-history";
+import { clearGeofencePresence, evaluateGeofences } from "./geofences";
+
+// A truck drops off the map when it hasn't sent a heartbeat for this long
+const HEARTBEAT_TIMEOUT_MS = 2 * 60 * 1000;
+// How often stale trucks are swept and idle sockets pinged
+const SWEEP_INTERVAL_MS = 15 * 1000;
+// Clients only send small subscribe messages; anything bigger closes the socket
+const MAX_SOCKET_MESSAGE_BYTES = 4 * 1024;
+
+export const LIVE_SOCKET_PATH = "/api/live/ws";
+
+const boundsSchema = z
+  .object({
+    north: z.coerce.number().min(-90).max(90),
+    south: z.coerce.number().min(-90).max(90),
+    east: z.coerce.number().min(-180).max(180),
+    west: z.coerce.number().min(-180).max(180),
+  })
+  .refine((b) => b.north >= b.south, { message: "north must be >= south" });
+
+// Client -> server messages on the live socket
+const socketMessageSchema = z.object({
+  type: z.literal("subscribe"),
+  bounds: boundsSchema,
+});
+
+export interface LiveTruck {
+  vendorId: string; // vendor_listings.id
+  businessName: string;
+  category: string;
+  latitude: number;
+  longitude: number;
+  heading: number | null;
+  address: string | null;
+  startedAt: Date;
+  lastSeenAt: Date;
+}
+
+interface Subscriber {
+  bounds: GeoBounds | null;
+  // Trucks this socket currently shows, so it can be told when one leaves its viewport
+  visible: Set<string>;
+  isAlive: boolean;
+}
+
+// Live presence is ephemeral and kept in process memory
+const liveTrucks = new Map<string, LiveTruck>();
+const subscribers = new Map<WebSocket, Subscriber>();
+
+function toPublicTruck(truck: LiveTruck) {
+  return {
+    vendorId: truck.vendorId,
+    businessName: truck.businessName,
+    category: truck.category,
+    latitude: truck.latitude,
+    longitude: truck.longitude,
+    heading: truck.heading,
+    address: truck.address,
+    startedAt: truck.startedAt.toISOString(),
+    updatedAt: truck.lastSeenAt.toISOString(),
+  };
+}
+
+function send(socket: WebSocket, message: object): void {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+function trucksInBounds(bounds: GeoBounds): LiveTruck[] {
+  return Array.from(liveTrucks.values()).filter((t) =>
+    boundsContain(bounds, t.latitude, t.longitude),
+  );
+}
+
+// Push a truck's new position to subscribers watching it, including ones it just drove out of
+function publishUpdate(truck: LiveTruck): void {
+  subscribers.forEach((subscriber, socket) => {
+    if (!subscriber.bounds) return;
+    if (boundsContain(subscriber.bounds, truck.latitude, truck.longitude)) {
+      subscriber.visible.add(truck.vendorId);
+      send(socket, { type: "update", truck: toPublicTruck(truck) });
+    } else if (subscriber.visible.delete(truck.vendorId)) {
+      send(socket, { type: "remove", vendorId: truck.vendorId });
+    }
+  });
+}
+
+function publishRemoval(vendorId: string): void {
+  subscribers.forEach((subscriber, socket) => {
+    if (subscriber.visible.delete(vendorId)) {
+      send(socket, { type: "remove", vendorId });
+    }
+  });
+}
+
+export function getLiveTruck(vendorId: string): LiveTruck | undefined {
+  return liveTrucks.get(vendorId);
+}
+
+function endLive(vendorId: string): boolean {
+  if (!liveTrucks.delete(vendorId)) return false;
+  publishRemoval(vendorId);
+  clearGeofencePresence(vendorId);
+  return true;
+}
+
+/**
+ * Take a truck off the live map and close its session, e.g. when an admin
+ * hides its listing.
+ */
+export async function forceOffline(vendorId: string): Promise<void> {
+  if (endLive(vendorId)) {
+    await closeLocationSession(vendorId, {});
+  }
+}
+
+function sweepStaleTrucks(now = Date.now()): void {
+  liveTrucks.forEach((truck, vendorId) => {
+    if (now - truck.lastSeenAt.getTime() > HEARTBEAT_TIMEOUT_MS) {
+      endLive(vendorId);
+      // The session ended when the truck was last heard from
+      closeLocationSession(vendorId, {}, truck.lastSeenAt).catch((error) =>
+        console.error("Error closing location session:", error),
+      );
+    }
+  });
+}
+
+/**
+ * Where a live truck is shown. Free listings stay pinned to their listing
+ * location; paid tiers follow the GPS fixes the vendor sends.
+ */
+function resolvePosition(
+  listing: VendorListing,
+  fix: LiveLocation | undefined,
+) {
+  if (getTierLimits(listing.vendorTier).noRealTimeTracking || !fix) {
+    return {
+      latitude: listing.locationLat,
+      longitude: listing.locationLng,
+      heading: null,
+    };
+  }
+  return {
+    latitude: fix.latitude,
+    longitude: fix.longitude,
+    heading: fix.heading ?? null,
+  };
+}
+
+function handleSocketMessage(
+  socket: WebSocket,
+  subscriber: Subscriber,
+  data: RawData,
+): void {
+  let message: unknown;
+  try {
+    message = JSON.parse(data.toString());
+  } catch {
+    return send(socket, { type: "error", error: "Messages must be JSON" });
+  }
+
+  const parsed = socketMessageSchema.safeParse(message);
+  if (!parsed.success) {
+    return send(socket, {
+      type: "error",
+      error: "Validation failed",
+      details: parsed.error.errors,
+    });
+  }
+
+  // A new viewport replaces the old one; the snapshot tells the client what to show now
+  const trucks = trucksInBounds(parsed.data.bounds);
+  subscriber.bounds = parsed.data.bounds;
+  subscriber.visible = new Set(trucks.map((t) => t.vendorId));
+  send(socket, { type: "snapshot", trucks: trucks.map(toPublicTruck) });
+}
+
+/**
+ * Accept customer subscriptions on the HTTP server. Each socket sends
+ * { type: "subscribe", bounds } for its map viewport and receives a snapshot,
+ * then "update" / "remove" messages as trucks move, go live or drop off.
+ */
+export function attachLiveLocationSocket(server: Server): void {
+  const wss = new WebSocketServer({
+    server,
+    path: LIVE_SOCKET_PATH,
+    maxPayload: MAX_SOCKET_MESSAGE_BYTES,
+  });
+
+  wss.on("connection", (socket) => {
+    const subscriber: Subscriber = {
+      bounds: null,
+      visible: new Set(),
+      isAlive: true,
+    };
+    subscribers.set(socket, subscriber);
+
+    socket.on("pong", () => {
+      subscriber.isAlive = true;
+    });
+    socket.on("message", (data) =>
+      handleSocketMessage(socket, subscriber, data),
+    );
+    socket.on("close", () => subscribers.delete(socket));
+    socket.on("error", (error) => console.error("Live socket error:", error));
+  });
+
+  const interval = setInterval(() => {
+    sweepStaleTrucks();
+    subscribers.forEach((subscriber, socket) => {
+      // No pong since the last ping: the connection is gone
+      if (!subscriber.isAlive) {
+        subscribers.delete(socket);
+        return socket.terminate();
+      }
+      subscriber.isAlive = false;
+      socket.ping();
+    });
+  }, SWEEP_INTERVAL_MS);
+  interval.unref();
+
+  console.log(`Live location socket listening on ${LIVE_SOCKET_PATH}`);
+}
+
+export function registerLiveLocationRoutes(app: Express): void {
+  // ==========================================
+  // PUBLIC ROUTES (No auth required)
+  // ==========================================
+
+  // GET /api/live/trucks - Trucks live inside a map viewport (one-off snapshot of the socket feed)
+  app.get("/api/live/trucks", async (req: Request, res: Response) => {
+    try {
+      sweepStaleTrucks();
+      const trucks = trucksInBounds(boundsSchema.parse(req.query)).map(
+        toPublicTruck,
+      );
+
+      res.json({ trucks, count: trucks.length });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: error.errors,
+        });
+      }
+      console.error("Error fetching live trucks:", error);
+      res.status(500).json({ error: "Failed to fetch live trucks" });
+    }
+  });
+
+  // ==========================================
+  // VENDOR AUTHENTICATED ROUTES
+  // ==========================================
+
+  // POST /api/live/start - Go live at the current position
+  app.post(
+    "/api/live/start",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const listing = await storage.getVendorListingByUserId(
+          req.user!.userId,
+        );
+        if (!listing) {
+          return res
+            .status(400)
+            .json({ error: "Create a vendor listing before going live" });
+        }
+        if (listing.hiddenAt) {
+          return res.status(403).json({
+            error: "Your listing is hidden, so it can't go live",
+            reason: listing.hiddenReason,
+          });
+        }
+
+        const fix = liveLocationSchema.parse(req.body);
+        const now = new Date();
+        const previous = liveTrucks.get(listing.id);
+        const truck: LiveTruck = {
+          vendorId: listing.id,
+          businessName: listing.businessName,
+          category: listing.category,
+          ...resolvePosition(listing, fix),
+          address: fix.address ?? null,
+          startedAt: previous?.startedAt ?? now,
+          lastSeenAt: now,
+        };
+        await openLocationSession(listing, truck, !!previous);
+        liveTrucks.set(listing.id, truck);
+        publishUpdate(truck);
+        evaluateGeofences(truck).catch((error) =>
+          console.error("Error checking geofences:", error),
+        );
+
+        res.json({
+          message: "You're live",
+          truck: toPublicTruck(truck),
+          trackingEnabled: !getTierLimits(listing.vendorTier)
+            .noRealTimeTracking,
+          heartbeatTimeoutSeconds: HEARTBEAT_TIMEOUT_MS / 1000,
+        });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error going live:", error);
+        res.status(500).json({ error: "Failed to go live" });
+      }
+    },
+  );
+
+  // POST /api/live/heartbeat - Keep the truck live, with its latest GPS fix
+  app.post(
+    "/api/live/heartbeat",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const listing = await storage.getVendorListingByUserId(
+          req.user!.userId,
+        );
+        const truck = listing ? liveTrucks.get(listing.id) : undefined;
+        if (!listing || !truck) {
+          return res.status(404).json({ error: "You're not live" });
+        }
+
+        const fix = liveLocationSchema.partial().parse(req.body);
+        const hasFix =
+          fix.latitude !== undefined && fix.longitude !== undefined;
+        const updated: LiveTruck = {
+          ...truck,
+          ...(hasFix ? resolvePosition(listing, fix as LiveLocation) : {}),
+          address: fix.address ?? truck.address,
+          lastSeenAt: new Date(),
+        };
+        liveTrucks.set(listing.id, updated);
+        publishUpdate(updated);
+        if (hasFix) {
+          evaluateGeofences(updated).catch((error) =>
+            console.error("Error checking geofences:", error),
+          );
+        }
+
+        res.json({ truck: toPublicTruck(updated) });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error updating live location:", error);
+        res.status(500).json({ error: "Failed to update live location" });
+      }
+    },
+  );
+
+  // POST /api/live/stop - Go offline, with optional customers served, revenue and notes for the session
+  app.post(
+    "/api/live/stop",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const stats = locationSessionStatsSchema.parse(req.body ?? {});
+        const listing = await storage.getVendorListingByUserId(
+          req.user!.userId,
+        );
+        if (!listing) {
+          return res.json({ message: "You're offline", session: null });
+        }
+
+        endLive(listing.id);
+        const session = await closeLocationSession(listing.id, stats);
+
+        res.json({
+          message: "You're offline",
+          session: session ? toPublicSession(session) : null,
+        });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error going offline:", error);
+        res.status(500).json({ error: "Failed to go offline" });
+      }
+    },
+  );
+
+  console.log("Live location routes registered");
+}
@@ -0,0 +1,380 @@
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import {
+  locationSessionStatsSchema,
+  type LocationSession,
+  type LocationSessionStats,
+  type VendorListing,
+} from "../shared/schema";
+import { authMiddleware } from "./auth";
+import { storage } from "./storage";
+import { haversineMiles } from "./geo";
+
+// Sessions starting within this distance of a spot's center count as the same spot (~150 m)
+const SPOT_RADIUS_MILES = 0.1;
+const DEFAULT_SPOT_LIMIT = 10;
+const MAX_SPOT_LIMIT = 50;
+const HISTORY_PAGE_SIZE = 50;
+
+const WEEKDAYS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+export interface LocationSpot {
+  spotId: string;
+  address: string;
+  latitude: number;
+  longitude: number;
+  visitCount: number;
+  avgCustomers: number;
+  avgRevenue: number;
+  totalRevenue: number;
+  bestDays: string[];
+  bestTimeSlot: string;
+  rating: number; // 1-5, relative to the vendor's best spot
+  lastVisitedAt: string;
+}
+
+export function toPublicSession(session: LocationSession) {
+  return {
+    id: session.id,
+    latitude: session.latitude,
+    longitude: session.longitude,
+    address: session.address,
+    startedAt: session.startedAt,
+    endedAt: session.endedAt,
+    customersServed: session.customersServed,
+    revenue: session.revenue,
+    notes: session.notes,
+  };
+}
+
+/**
+ * Record that a vendor went live. With resume, an open session carries on
+ * (the app re-sent /start while the truck was still live); otherwise a
+ * leftover open session, e.g. from before a server restart, is closed first.
+ */
+export async function openLocationSession(
+  listing: VendorListing,
+  position: { latitude: number; longitude: number; address: string | null },
+  resume: boolean,
+): Promise<LocationSession> {
+  const open = await storage.getOpenLocationSession(listing.id);
+  if (open && resume) return open;
+  if (open) {
+    // Its real end is unknown; closing it now keeps it out of "in progress"
+    await storage.updateLocationSession(open.id, { endedAt: new Date() });
+  }
+
+  return storage.createLocationSession({
+    vendorId: listing.id,
+    latitude: position.latitude,
+    longitude: position.longitude,
+    address: position.address,
+  });
+}
+
+export async function closeLocationSession(
+  vendorId: string,
+  stats: LocationSessionStats = {},
+  endedAt = new Date(),
+): Promise<LocationSession | undefined> {
+  const open = await storage.getOpenLocationSession(vendorId);
+  if (!open) return undefined;
+
+  return storage.updateLocationSession(open.id, { ...stats, endedAt });
+}
+
+interface LocalSlot {
+  weekday: number;
+  hour: number;
+}
+
+// Weekday and hour a session started, in the vendor's timezone
+function getLocalSlot(date: Date, timeZone: string): LocalSlot {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "long",
+    hour: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date);
+  const get = (type: string) => parts.find((p) => p.type === type)!.value;
+  return {
+    weekday: WEEKDAYS.indexOf(get("weekday")),
+    hour: Number(get("hour")),
+  };
+}
+
+function average(values: number[]): number {
+  return values.length > 0
+    ? values.reduce((a, b) => a + b, 0) / values.length
+    : 0;
+}
+
+/**
+ * Rank the keys of a grouping by average revenue, then by how often they occur,
+ * so days and hours with no reported revenue still order by visits.
+ */
+function rankBy<K>(
+  sessions: LocationSession[],
+  keyOf: (s: LocationSession) => K,
+): K[] {
+  const groups = new Map<K, LocationSession[]>();
+  for (const session of sessions) {
+    const key = keyOf(session);
+    groups.set(key, [...(groups.get(key) ?? []), session]);
+  }
+  const revenueOf = (group: LocationSession[]) =>
+    average(group.filter((s) => s.revenue !== null).map((s) => s.revenue!));
+
+  return Array.from(groups.entries())
+    .sort(([, a], [, b]) => revenueOf(b) - revenueOf(a) || b.length - a.length)
+    .map(([key]) => key);
+}
+
+function formatHourSlot(hour: number): string {
+  const label = (h: number) => {
+    const h24 = h % 24;
+    const suffix = h24 < 12 ? "AM" : "PM";
+    return `${h24 % 12 === 0 ? 12 : h24 % 12} ${suffix}`;
+  };
+  return `${label(hour)} - ${label(hour + 1)}`;
+}
+
+/**
+ * Group sessions into spots: each session joins the nearest spot whose center
+ * is within SPOT_RADIUS_MILES, and the center moves to the mean of its sessions.
+ */
+function clusterSessions(sessions: LocationSession[]): LocationSession[][] {
+  const spots: {
+    latitude: number;
+    longitude: number;
+    sessions: LocationSession[];
+  }[] = [];
+
+  const oldestFirst = [...sessions].sort(
+    (a, b) => a.startedAt.getTime() - b.startedAt.getTime(),
+  );
+  for (const session of oldestFirst) {
+    let nearest: (typeof spots)[number] | undefined;
+    let nearestDistance = SPOT_RADIUS_MILES;
+    for (const spot of spots) {
+      const distance = haversineMiles(
+        spot.latitude,
+        spot.longitude,
+        session.latitude,
+        session.longitude,
+      );
+      if (distance <= nearestDistance) {
+        nearest = spot;
+        nearestDistance = distance;
+      }
+    }
+
+    if (!nearest) {
+      spots.push({
+        latitude: session.latitude,
+        longitude: session.longitude,
+        sessions: [session],
+      });
+      continue;
+    }
+    nearest.sessions.push(session);
+    nearest.latitude = average(nearest.sessions.map((s) => s.latitude));
+    nearest.longitude = average(nearest.sessions.map((s) => s.longitude));
+  }
+
+  return spots.map((spot) => spot.sessions);
+}
+
+function computeLocationSpots(
+  sessions: LocationSession[],
+  timeZone: string,
+): LocationSpot[] {
+  const spots = clusterSessions(sessions).map(
+    (group): Omit<LocationSpot, "rating"> => {
+      const latitude = average(group.map((s) => s.latitude));
+      const longitude = average(group.map((s) => s.longitude));
+      const newestFirst = [...group].sort(
+        (a, b) => b.startedAt.getTime() - a.startedAt.getTime(),
+      );
+      const customers = group
+        .filter((s) => s.customersServed !== null)
+        .map((s) => s.customersServed!);
+      const revenues = group
+        .filter((s) => s.revenue !== null)
+        .map((s) => s.revenue!);
+      const slots = new Map(
+        group.map((s) => [s.id, getLocalSlot(s.startedAt, timeZone)]),
+      );
+      const bestHour = rankBy(group, (s) => slots.get(s.id)!.hour)[0];
+
+      return {
+        // The oldest session anchors the id so it stays stable as visits are added
+        spotId: newestFirst[newestFirst.length - 1].id,
+        address:
+          newestFirst.find((s) => s.address)?.address ??
+          `${latitude.toFixed(4)}, ${longitude.toFixed(4)}`,
+        latitude,
+        longitude,
+        visitCount: group.length,
+        avgCustomers: Math.round(average(customers)),
+        avgRevenue: Math.round(average(revenues) * 100) / 100,
+        totalRevenue:
+          Math.round(revenues.reduce((a, b) => a + b, 0) * 100) / 100,
+        bestDays: rankBy(group, (s) => slots.get(s.id)!.weekday)
+          .slice(0, 3)
+          .map((d) => WEEKDAYS[d]),
+        bestTimeSlot: formatHourSlot(bestHour),
+        lastVisitedAt: newestFirst[0].startedAt.toISOString(),
+      };
+    },
+  );
+
+  // Rate on revenue when the vendor reports it, otherwise on how often they return
+  const hasRevenue = spots.some((s) => s.avgRevenue > 0);
+  const scoreOf = (spot: Omit<LocationSpot, "rating">) =>
+    hasRevenue ? spot.avgRevenue : spot.visitCount;
+  const bestScore = Math.max(0, ...spots.map(scoreOf));
+
+  return spots
+    .map((spot) => ({
+      ...spot,
+      rating:
+        bestScore > 0
+          ? Math.max(1, Math.ceil((scoreOf(spot) / bestScore) * 5))
+          : 1,
+    }))
+    .sort((a, b) => b.avgRevenue - a.avgRevenue || b.visitCount - a.visitCount);
+}
+
+export function registerLocationHistoryRoutes(app: Express): void {
+  // ==========================================
+  // VENDOR AUTHENTICATED ROUTES
+  // ==========================================
+
+  // GET /api/vendors/listing/my/location-history - Go-live sessions, newest first
+  app.get(
+    "/api/vendors/listing/my/location-history",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const listing = await storage.getVendorListingByUserId(
+          req.user!.userId,
+        );
+        if (!listing) {
+          return res.status(404).json({ error: "No listing found" });
+        }
+
+        const { limit } = z
+          .object({
+            limit: z.coerce
+              .number()
+              .int()
+              .min(1)
+              .max(200)
+              .default(HISTORY_PAGE_SIZE),
+          })
+          .parse(req.query);
+        const sessions = await storage.getLocationSessions(listing.id, limit);
+
+        res.json({ sessions: sessions.map(toPublicSession) });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error fetching location history:", error);
+        res.status(500).json({ error: "Failed to fetch location history" });
+      }
+    },
+  );
+
+  // PUT /api/vendors/listing/my/location-history/:id - Fill in customers, revenue or notes
+  app.put(
+    "/api/vendors/listing/my/location-history/:id",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const listing = await storage.getVendorListingByUserId(
+          req.user!.userId,
+        );
+        const session = await storage.getLocationSession(req.params.id);
+        if (!listing || !session || session.vendorId !== listing.id) {
+          return res.status(404).json({ error: "Session not found" });
+        }
+
+        const stats = locationSessionStatsSchema.parse(req.body);
+        const updated = await storage.updateLocationSession(session.id, stats);
+
+        res.json({
+          message: "Session updated",
+          session: toPublicSession(updated!),
+        });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error updating location session:", error);
+        res.status(500).json({ error: "Failed to update session" });
+      }
+    },
+  );
+
+  // GET /api/vendors/listing/my/location-analytics - Best performing spots
+  app.get(
+    "/api/vendors/listing/my/location-analytics",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const listing = await storage.getVendorListingByUserId(
+          req.user!.userId,
+        );
+        if (!listing) {
+          return res.status(404).json({ error: "No listing found" });
+        }
+
+        const { limit } = z
+          .object({
+            limit: z.coerce
+              .number()
+              .int()
+              .min(1)
+              .max(MAX_SPOT_LIMIT)
+              .default(DEFAULT_SPOT_LIMIT),
+          })
+          .parse(req.query);
+        const sessions = await storage.getLocationSessions(listing.id);
+        const spots = computeLocationSpots(sessions, listing.timezone);
+
+        res.json({
+          spots: spots.slice(0, limit),
+          spotCount: spots.length,
+          sessionCount: sessions.length,
+        });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error computing location analytics:", error);
+        res.status(500).json({ error: "Failed to compute location analytics" });
+      }
+    },
+  );
+
+  console.log("Location history routes registered");
+}
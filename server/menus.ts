@@ -0,0 +1,353 @@
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import {
+  dietaryTagEnum,
+  insertMenuItemSchema,
+  insertMenuSectionSchema,
+  updateMenuItemSchema,
+  updateMenuSectionSchema,
+  type MenuItem,
+  type MenuSection,
+} from "../shared/schema";
+import { authMiddleware } from "./auth";
+import { deletePhotosFor } from "./photos";
+import { storage } from "./storage";
+
+export function toPublicMenuItem(item: MenuItem) {
+  return {
+    id: item.id,
+    sectionId: item.sectionId,
+    name: item.name,
+    description: item.description,
+    price: item.price,
+    photoUrl: item.photoUrl,
+    dietaryTags: item.dietaryTags,
+    isSoldOut: item.isSoldOut,
+    position: item.position,
+  };
+}
+
+/**
+ * Vendor-level dietary labels in the same form as Vendor.dietary:
+ * "Vegan" when every item is vegan, "Vegan Options" when only some are.
+ */
+export function summarizeDietary(items: MenuItem[]): string[] {
+  if (items.length === 0) return [];
+
+  const labels: string[] = [];
+  for (const tag of dietaryTagEnum.options) {
+    const count = items.filter((i) => i.dietaryTags.includes(tag)).length;
+    if (count === items.length) labels.push(tag);
+    else if (count > 0) labels.push(`${tag} Options`);
+  }
+  return labels;
+}
+
+export async function getVendorMenu(vendorId: string) {
+  const [sections, items] = await Promise.all([
+    storage.getMenuSections(vendorId),
+    storage.getMenuItems(vendorId),
+  ]);
+
+  return {
+    sections: sections.map((section) => ({
+      id: section.id,
+      name: section.name,
+      position: section.position,
+      items: items
+        .filter((i) => i.sectionId === section.id)
+        .map(toPublicMenuItem),
+    })),
+    dietary: summarizeDietary(items),
+  };
+}
+
+/**
+ * Return the ids that are not items on this vendor's menu (empty when all are valid).
+ */
+export async function findUnknownMenuItemIds(
+  vendorId: string,
+  ids: string[],
+): Promise<string[]> {
+  if (ids.length === 0) return [];
+  const menuItemIds = new Set(
+    (await storage.getMenuItems(vendorId)).map((i) => i.id),
+  );
+  return ids.filter((id) => !menuItemIds.has(id));
+}
+
+/**
+ * Load a menu section and check that it belongs to the authenticated vendor.
+ * Sends the error response and returns null when access is denied.
+ */
+async function getOwnedSection(
+  req: Request,
+  res: Response,
+  sectionId: string,
+): Promise<MenuSection | null> {
+  const section = await storage.getMenuSection(sectionId);
+
+  if (!section) {
+    res.status(404).json({ error: "Menu section not found" });
+    return null;
+  }
+
+  const listing = await storage.getVendorListing(section.vendorId);
+  if (!listing || listing.userId !== req.user!.userId) {
+    res.status(403).json({ error: "Not authorized to modify this menu" });
+    return null;
+  }
+
+  return section;
+}
+
+async function getOwnedItem(
+  req: Request,
+  res: Response,
+): Promise<MenuItem | null> {
+  const item = await storage.getMenuItem(req.params.id);
+
+  if (!item) {
+    res.status(404).json({ error: "Menu item not found" });
+    return null;
+  }
+
+  const listing = await storage.getVendorListing(item.vendorId);
+  if (!listing || listing.userId !== req.user!.userId) {
+    res.status(403).json({ error: "Not authorized to modify this menu" });
+    return null;
+  }
+
+  return item;
+}
+
+export function registerMenuRoutes(app: Express): void {
+  // ==========================================
+  // PUBLIC ROUTES (No auth required)
+  // ==========================================
+
+  // GET /api/vendors/public/:id/menu - A vendor's menu grouped by section
+  app.get(
+    "/api/vendors/public/:id/menu",
+    async (req: Request, res: Response) => {
+      try {
+        const vendor = await storage.getVendorListing(req.params.id);
+        if (!vendor || vendor.hiddenAt) {
+          return res.status(404).json({ error: "Vendor not found" });
+        }
+
+        res.json(await getVendorMenu(vendor.id));
+      } catch (error) {
+        console.error("Error fetching menu:", error);
+        res.status(500).json({ error: "Failed to fetch menu" });
+      }
+    },
+  );
+
+  // ==========================================
+  // VENDOR AUTHENTICATED ROUTES
+  // ==========================================
+
+  // GET /api/vendors/listing/my/menu - The current vendor's menu for editing
+  app.get(
+    "/api/vendors/listing/my/menu",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const listing = await storage.getVendorListingByUserId(
+          req.user!.userId,
+        );
+        if (!listing) {
+          return res.status(404).json({ error: "No listing found" });
+        }
+
+        res.json(await getVendorMenu(listing.id));
+      } catch (error) {
+        console.error("Error fetching my menu:", error);
+        res.status(500).json({ error: "Failed to fetch menu" });
+      }
+    },
+  );
+
+  // POST /api/menu/sections - Add a section to the current vendor's menu
+  app.post(
+    "/api/menu/sections",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const listing = await storage.getVendorListingByUserId(
+          req.user!.userId,
+        );
+        if (!listing) {
+          return res
+            .status(400)
+            .json({ error: "Create a vendor listing before adding a menu" });
+        }
+
+        const data = insertMenuSectionSchema.parse(req.body);
+        // New sections go to the end unless a position is given
+        const position =
+          data.position ?? (await storage.getMenuSections(listing.id)).length;
+        const section = await storage.createMenuSection(listing.id, {
+          ...data,
+          position,
+        });
+
+        res.status(201).json({ message: "Section created", section });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error creating menu section:", error);
+        res.status(500).json({ error: "Failed to create menu section" });
+      }
+    },
+  );
+
+  // PUT /api/menu/sections/:id - Rename or reorder a section
+  app.put(
+    "/api/menu/sections/:id",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const section = await getOwnedSection(req, res, req.params.id);
+        if (!section) return;
+
+        const updates = updateMenuSectionSchema.parse(req.body);
+        const updated = await storage.updateMenuSection(section.id, updates);
+
+        res.json({ message: "Section updated", section: updated });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error updating menu section:", error);
+        res.status(500).json({ error: "Failed to update menu section" });
+      }
+    },
+  );
+
+  // DELETE /api/menu/sections/:id - Remove a section and its items
+  app.delete(
+    "/api/menu/sections/:id",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const section = await getOwnedSection(req, res, req.params.id);
+        if (!section) return;
+
+        const items = await storage.getMenuItems(section.vendorId);
+        await deletePhotosFor(
+          "menu_item",
+          items.filter((i) => i.sectionId === section.id).map((i) => i.id),
+        );
+        await storage.deleteMenuSection(section.id);
+
+        res.json({ message: "Section deleted" });
+      } catch (error) {
+        console.error("Error deleting menu section:", error);
+        res.status(500).json({ error: "Failed to delete menu section" });
+      }
+    },
+  );
+
+  // POST /api/menu/items - Add an item to one of the current vendor's sections
+  app.post(
+    "/api/menu/items",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const data = insertMenuItemSchema.parse(req.body);
+
+        const section = await getOwnedSection(req, res, data.sectionId);
+        if (!section) return;
+
+        const position =
+          data.position ??
+          (await storage.getMenuItems(section.vendorId)).filter(
+            (i) => i.sectionId === section.id,
+          ).length;
+        const item = await storage.createMenuItem(section.vendorId, {
+          ...data,
+          position,
+        });
+
+        res
+          .status(201)
+          .json({ message: "Menu item created", item: toPublicMenuItem(item) });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error creating menu item:", error);
+        res.status(500).json({ error: "Failed to create menu item" });
+      }
+    },
+  );
+
+  // PUT /api/menu/items/:id - Edit an item (price, tags, sold out, section...)
+  app.put(
+    "/api/menu/items/:id",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const item = await getOwnedItem(req, res);
+        if (!item) return;
+
+        const updates = updateMenuItemSchema.parse(req.body);
+
+        if (updates.sectionId && updates.sectionId !== item.sectionId) {
+          const section = await getOwnedSection(req, res, updates.sectionId);
+          if (!section) return;
+        }
+
+        const updated = await storage.updateMenuItem(item.id, updates);
+
+        res.json({
+          message: "Menu item updated",
+          item: updated ? toPublicMenuItem(updated) : null,
+        });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error updating menu item:", error);
+        res.status(500).json({ error: "Failed to update menu item" });
+      }
+    },
+  );
+
+  // DELETE /api/menu/items/:id - Remove an item
+  app.delete(
+    "/api/menu/items/:id",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const item = await getOwnedItem(req, res);
+        if (!item) return;
+
+        await deletePhotosFor("menu_item", [item.id]);
+        await storage.deleteMenuItem(item.id);
+
+        res.json({ message: "Menu item deleted" });
+      } catch (error) {
+        console.error("Error deleting menu item:", error);
+        res.status(500).json({ error: "Failed to delete menu item" });
+      }
+    },
+  );
+
+  console.log("Menu routes registered");
+}
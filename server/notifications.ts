@@ -0,0 +1,441 @@
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import {
+  notificationPreferencesSchema,
+  notificationSubscriptionKinds,
+  notificationSubscriptionSchema,
+  promotionalNotificationCategories,
+  registerPushTokenSchema,
+  type Deal,
+  type InsertNotification,
+  type NotificationCategory,
+  type NotificationPreferences,
+  type VendorListing,
+} from "../shared/schema";
+import { authMiddleware } from "./auth";
+import { storage } from "./storage";
+import { sendPushToUsers, type PushNotification } from "./push";
+import { getLocalTime } from "./hours";
+
+const DEFAULT_INBOX_LIMIT = 50;
+const MAX_INBOX_LIMIT = 100;
+
+type DeliverySettings = Omit<NotificationPreferences, "userId" | "updatedAt">;
+
+// What users who never saved their settings get; matches the app's defaults
+const DEFAULT_PREFERENCES: DeliverySettings = {
+  pushEnabled: true,
+  dealAlerts: true,
+  flashDeals: true,
+  priceDrops: true,
+  newStores: false,
+  weeklyDigest: true,
+  quietHoursStart: null,
+  quietHoursEnd: null,
+  timezone: "UTC",
+  maxPromoPushesPerDay: null,
+};
+
+// The switch that turns each category off; categories without one always reach the inbox
+const CATEGORY_SWITCHES: Partial<
+  Record<
+    NotificationCategory,
+    "dealAlerts" | "flashDeals" | "priceDrops" | "newStores" | "weeklyDigest"
+  >
+> = {
+  flash_deal: "flashDeals",
+  deal_alert: "dealAlerts",
+  price_drop: "priceDrops",
+  new_store: "newStores",
+  weekly_digest: "weeklyDigest",
+};
+
+export interface OutgoingNotification extends PushNotification {
+  category: NotificationCategory;
+}
+
+function toMinutes(time: string): number {
+  const [h, m] = time.split(":").map(Number);
+  return h * 60 + m;
+}
+
+// Quiet hours may span midnight, e.g. 22:00 to 08:00
+function isQuietTime(settings: DeliverySettings, minutes: number): boolean {
+  if (!settings.quietHoursStart || !settings.quietHoursEnd) return false;
+
+  const start = toMinutes(settings.quietHoursStart);
+  const end = toMinutes(settings.quietHoursEnd);
+  return start <= end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+function toPreferencesResponse(saved: NotificationPreferences | undefined) {
+  if (!saved) return { preferences: DEFAULT_PREFERENCES, updatedAt: null };
+
+  const { userId, updatedAt, ...preferences } = saved;
+  return { preferences, updatedAt };
+}
+
+/**
+ * Save a notification to each user's inbox and push it to their devices.
+ * Users who turned the category off get nothing. Quiet hours, the daily cap
+ * on promotional pushes and a disabled push switch only hold back the push.
+ * Returns how many devices it reached.
+ */
+export async function deliverNotification(
+  userIds: string[],
+  notification: OutgoingNotification,
+): Promise<number> {
+  const recipients = Array.from(new Set(userIds));
+  if (recipients.length === 0) return 0;
+
+  const saved = new Map(
+    (await storage.getNotificationPreferencesByUsers(recipients)).map((p) => [
+      p.userId,
+      p,
+    ]),
+  );
+  const categorySwitch = CATEGORY_SWITCHES[notification.category];
+  const promotional = promotionalNotificationCategories.includes(
+    notification.category,
+  );
+  const now = new Date();
+
+  const rows: InsertNotification[] = [];
+  for (const userId of recipients) {
+    const settings = saved.get(userId) ?? DEFAULT_PREFERENCES;
+    if (categorySwitch && !settings[categorySwitch]) continue;
+
+    const local = getLocalTime(now, settings.timezone);
+    let pushed = settings.pushEnabled && !isQuietTime(settings, local.minutes);
+    if (pushed && promotional && settings.maxPromoPushesPerDay !== null) {
+      const pushedToday = await storage.countPushedNotifications(
+        userId,
+        local.date,
+        promotionalNotificationCategories,
+      );
+      pushed = pushedToday < settings.maxPromoPushesPerDay;
+    }
+
+    rows.push({
+      userId,
+      category: notification.category,
+      title: notification.title,
+      body: notification.body,
+      data: notification.data ?? null,
+      pushed,
+      localDate: local.date,
+    });
+  }
+  await storage.createNotifications(rows);
+
+  const pushTo = rows.filter((row) => row.pushed).map((row) => row.userId);
+  if (pushTo.length === 0) return 0;
+  return sendPushToUsers(pushTo, {
+    title: notification.title,
+    body: notification.body,
+    data: notification.data,
+  });
+}
+
+/**
+ * Send a new flash deal to customers subscribed to the vendor or to the
+ * deal's category. Returns how many devices it reached.
+ */
+export async function notifyFlashDeal(
+  deal: Deal,
+  listing: VendorListing,
+): Promise<number> {
+  const subscribers = await storage.getSubscribedUserIds(
+    listing.id,
+    deal.category,
+  );
+  // Vendors subscribed to their own truck don't need to hear about their own deal
+  const recipients = subscribers.filter((id) => id !== listing.userId);
+  if (recipients.length === 0) return 0;
+
+  const percentOff =
+    deal.originalPrice > 0
+      ? Math.round((1 - deal.discountedPrice / deal.originalPrice) * 100)
+      : 0;
+  return deliverNotification(recipients, {
+    category: "flash_deal",
+    title: `⚡ Flash Deal: ${percentOff}% OFF!`,
+    body: `${deal.title} at ${listing.businessName}. Was $${deal.originalPrice}, now $${deal.discountedPrice}!`,
+    data: { type: "flash_deal", dealId: deal.id, vendorId: listing.id },
+  });
+}
+
+export function registerNotificationRoutes(app: Express): void {
+  // ==========================================
+  // AUTHENTICATED ROUTES
+  // ==========================================
+
+  // GET /api/notifications - The user's inbox, newest first, with the unread count
+  app.get(
+    "/api/notifications",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const requested =
+          parseInt(req.query.limit as string) || DEFAULT_INBOX_LIMIT;
+        const limit = Math.min(Math.max(requested, 1), MAX_INBOX_LIMIT);
+        const [notifications, unreadCount] = await Promise.all([
+          storage.getNotificationsByUser(req.user!.userId, limit),
+          storage.countUnreadNotifications(req.user!.userId),
+        ]);
+        res.json({ notifications, unreadCount });
+      } catch (error) {
+        console.error("Error fetching notifications:", error);
+        res.status(500).json({ error: "Failed to fetch notifications" });
+      }
+    },
+  );
+
+  // POST /api/notifications/read-all - Mark the whole inbox read
+  app.post(
+    "/api/notifications/read-all",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const updated = await storage.markAllNotificationsRead(
+          req.user!.userId,
+        );
+        res.json({ message: "Notifications marked read", updated });
+      } catch (error) {
+        console.error("Error marking notifications read:", error);
+        res.status(500).json({ error: "Failed to mark notifications read" });
+      }
+    },
+  );
+
+  // POST /api/notifications/:id/read - Mark one notification read, e.g. when its deep link is opened
+  app.post(
+    "/api/notifications/:id/read",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const notification = await storage.markNotificationRead(
+          req.user!.userId,
+          req.params.id,
+        );
+        if (!notification) {
+          return res.status(404).json({ error: "Notification not found" });
+        }
+
+        res.json({ notification });
+      } catch (error) {
+        console.error("Error marking notification read:", error);
+        res.status(500).json({ error: "Failed to mark notification read" });
+      }
+    },
+  );
+
+  // GET /api/notifications/preferences - What the server sends; updatedAt is null until the app saves them
+  app.get(
+    "/api/notifications/preferences",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const [saved] = await storage.getNotificationPreferencesByUsers([
+          req.user!.userId,
+        ]);
+        res.json(toPreferencesResponse(saved));
+      } catch (error) {
+        console.error("Error fetching notification preferences:", error);
+        res
+          .status(500)
+          .json({ error: "Failed to fetch notification preferences" });
+      }
+    },
+  );
+
+  // PUT /api/notifications/preferences - Save some or all settings; set both quiet hour times to null to turn them off
+  app.put(
+    "/api/notifications/preferences",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const updates = notificationPreferencesSchema.parse(req.body);
+        const saved = await storage.saveNotificationPreferences(
+          req.user!.userId,
+          updates,
+        );
+        res.json({
+          message: "Notification preferences saved",
+          ...toPreferencesResponse(saved),
+        });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error saving notification preferences:", error);
+        res
+          .status(500)
+          .json({ error: "Failed to save notification preferences" });
+      }
+    },
+  );
+
+  // POST /api/notifications/tokens - Register this device's Expo push token
+  app.post(
+    "/api/notifications/tokens",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const { token, platform } = registerPushTokenSchema.parse(req.body);
+        await storage.savePushToken({
+          userId: req.user!.userId,
+          token,
+          platform,
+        });
+        res.status(201).json({ message: "Push token registered" });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error registering push token:", error);
+        res.status(500).json({ error: "Failed to register push token" });
+      }
+    },
+  );
+
+  // DELETE /api/notifications/tokens - Stop pushing to this device, e.g. when notifications are turned off
+  app.delete(
+    "/api/notifications/tokens",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const { token } = registerPushTokenSchema
+          .pick({ token: true })
+          .parse(req.body);
+        const deleted = await storage.deleteUserPushToken(
+          req.user!.userId,
+          token,
+        );
+        if (!deleted) {
+          return res.status(404).json({ error: "Push token not found" });
+        }
+
+        res.json({ message: "Push token removed" });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error removing push token:", error);
+        res.status(500).json({ error: "Failed to remove push token" });
+      }
+    },
+  );
+
+  // GET /api/notifications/subscriptions - Vendors and categories the user gets flash deal pushes for, plus watched zones and favorite trucks
+  app.get(
+    "/api/notifications/subscriptions",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const subscriptions = await storage.getNotificationSubscriptionsByUser(
+          req.user!.userId,
+        );
+        res.json({
+          vendors: subscriptions
+            .filter((s) => s.kind === "vendor")
+            .map((s) => s.target),
+          categories: subscriptions
+            .filter((s) => s.kind === "category")
+            .map((s) => s.target),
+          zones: subscriptions
+            .filter((s) => s.kind === "zone")
+            .map((s) => s.target),
+          favorites: subscriptions
+            .filter((s) => s.kind === "favorite")
+            .map((s) => s.target),
+        });
+      } catch (error) {
+        console.error("Error fetching notification subscriptions:", error);
+        res.status(500).json({ error: "Failed to fetch subscriptions" });
+      }
+    },
+  );
+
+  // POST /api/notifications/subscriptions - Subscribe to a vendor, category or zone, or record a favorite; repeating it is harmless
+  app.post(
+    "/api/notifications/subscriptions",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const { kind, target } = notificationSubscriptionSchema.parse(req.body);
+        if (
+          (kind === "vendor" || kind === "favorite") &&
+          !(await storage.getVendorListing(target))
+        ) {
+          return res.status(404).json({ error: "Vendor not found" });
+        }
+        if (
+          kind === "zone" &&
+          !(await storage.getGeofenceZone(target))?.isActive
+        ) {
+          return res.status(404).json({ error: "Zone not found" });
+        }
+
+        await storage.createNotificationSubscription({
+          userId: req.user!.userId,
+          kind,
+          target,
+        });
+        res.status(201).json({ message: "Subscribed", kind, target });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error creating notification subscription:", error);
+        res.status(500).json({ error: "Failed to subscribe" });
+      }
+    },
+  );
+
+  // DELETE /api/notifications/subscriptions/:kind/:target - Unsubscribe
+  app.delete(
+    "/api/notifications/subscriptions/:kind/:target",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const kind = z
+          .enum(notificationSubscriptionKinds)
+          .safeParse(req.params.kind);
+        if (!kind.success) {
+          return res.status(400).json({ error: "Unknown subscription kind" });
+        }
+
+        const deleted = await storage.deleteNotificationSubscription(
+          req.user!.userId,
+          kind.data,
+          req.params.target,
+        );
+        if (!deleted) {
+          return res.status(404).json({ error: "Subscription not found" });
+        }
+
+        res.json({ message: "Unsubscribed" });
+      } catch (error) {
+        console.error("Error deleting notification subscription:", error);
+        res.status(500).json({ error: "Failed to unsubscribe" });
+      }
+    },
+  );
+
+  console.log("Notification routes registered");
+}
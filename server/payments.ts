@@ -1,5 +1,14 @@
 import type { Express, Request, Response } from "express";
 import Stripe from "stripe";
+import { z } from "zod";
+import { storage } from "./storage";
+import { authMiddleware } from "./auth";
+import { activateBoost, BOOST_PLANS, toPublicBoost } from "./boosts";
+import {
+  boostCheckoutSchema,
+  type Subscription,
+  type VendorTier,
+} from "../shared/schema";
 
 // Lazy-initialized Stripe client to prevent crashes when API key is not set
 let _stripe: Stripe | null = null;
@@ -35,294 +44,534 @@ const STRIPE_PRODUCTS = {
   },
 };
 
-// In-memory subscription store (replace with database in production)
-const subscriptions = new Map<string, {
-  id: string;
-  vendorId: string;
-  stripeSubscriptionId: string;
-  stripeCustomerId: string;
-  productId: string;
-  status: string;
-  currentPeriodStart: Date;
-  currentPeriodEnd: Date;
-  cancelAtPeriodEnd: boolean;
-  createdAt: Date;
-}>();
-
-// In-memory payment history (replace with database in production)
-const paymentHistory = new Map<string, Array<{
-  id: string;
-  vendorId: string;
-  amount: number;
-  currency: string;
-  status: string;
-  created: Date;
-  invoicePdf?: string;
-}>>();
+// Vendor tier granted by each paid product
+const PRODUCT_TIERS: Record<string, VendorTier> = {
+  prod_starter: "starter",
+  prod_monthly: "pro_monthly",
+  prod_yearly: "pro_yearly",
+};
+
+// Subscription statuses that keep the paid tier active
+const ACTIVE_SUBSCRIPTION_STATUSES = new Set(["active", "trialing"]);
+
+/**
+ * Read the billing period from a Stripe subscription.
+ * Newer API versions moved the period onto subscription items.
+ */
+function getSubscriptionPeriod(subscription: Stripe.Subscription): {
+  start: Date;
+  end: Date;
+} {
+  const item = subscription.items?.data?.[0] as any;
+  const start =
+    item?.current_period_start ?? (subscription as any).current_period_start;
+  const end =
+    item?.current_period_end ?? (subscription as any).current_period_end;
+  return {
+    start: new Date(start * 1000),
+    end: new Date(end * 1000),
+  };
+}
+
+/**
+ * Sync the vendor's listing tier with their subscription status.
+ * Active or trialing subscriptions grant the product's tier; anything else
+ * (past_due, canceled, unpaid, ...) drops the vendor back to free.
+ */
+async function syncVendorTier(subscription: Subscription): Promise<void> {
+  const listing = await storage.getVendorListingByUserId(subscription.vendorId);
+  if (!listing) return;
+
+  const tier: VendorTier = ACTIVE_SUBSCRIPTION_STATUSES.has(subscription.status)
+    ? PRODUCT_TIERS[subscription.productId] || "free"
+    : "free";
+
+  if (listing.vendorTier !== tier) {
+    await storage.updateVendorListing(listing.id, { vendorTier: tier });
+    console.log(
+      `[Stripe] Vendor ${subscription.vendorId} tier changed: ${listing.vendorTier} -> ${tier}`,
+    );
+  }
+}
+
+/**
+ * Persist a Stripe subscription and update the vendor's tier.
+ * vendorId/productId fall back to the subscription metadata set at checkout.
+ */
+async function saveStripeSubscription(
+  stripeSubscription: Stripe.Subscription,
+  metadata?: { vendorId?: string; productId?: string },
+): Promise<Subscription | undefined> {
+  const existing = await storage.getSubscriptionByStripeId(
+    stripeSubscription.id,
+  );
+  const vendorId =
+    existing?.vendorId ||
+    metadata?.vendorId ||
+    stripeSubscription.metadata?.vendorId;
+  const productId =
+    existing?.productId ||
+    metadata?.productId ||
+    stripeSubscription.metadata?.productId;
+
+  if (!vendorId || !productId) {
+    console.warn(
+      `[Stripe] Subscription ${stripeSubscription.id} has no vendor metadata, skipping`,
+    );
+    return undefined;
+  }
+
+  const period = getSubscriptionPeriod(stripeSubscription);
+  const subscription = await storage.upsertSubscription({
+    vendorId,
+    productId,
+    stripeSubscriptionId: stripeSubscription.id,
+    stripeCustomerId:
+      typeof stripeSubscription.customer === "string"
+        ? stripeSubscription.customer
+        : stripeSubscription.customer.id,
+    status: stripeSubscription.status,
+    currentPeriodStart: period.start,
+    currentPeriodEnd: period.end,
+    cancelAtPeriodEnd: stripeSubscription.cancel_at_period_end,
+  });
+
+  await syncVendorTier(subscription);
+  return subscription;
+}
+
+/**
+ * Resolve the vendor an invoice belongs to, either from the subscription
+ * metadata on the invoice or from our stored subscription record.
+ */
+async function getInvoiceVendorId(
+  invoice: Stripe.Invoice,
+): Promise<string | undefined> {
+  const details =
+    (invoice as any).parent?.subscription_details ??
+    (invoice as any).subscription_details;
+  if (details?.metadata?.vendorId) {
+    return details.metadata.vendorId;
+  }
+
+  const stripeSubscriptionId =
+    details?.subscription ?? (invoice as any).subscription;
+  if (stripeSubscriptionId) {
+    const id =
+      typeof stripeSubscriptionId === "string"
+        ? stripeSubscriptionId
+        : stripeSubscriptionId.id;
+    const subscription = await storage.getSubscriptionByStripeId(id);
+    return subscription?.vendorId;
+  }
+
+  return undefined;
+}
+
+async function recordInvoice(
+  invoice: Stripe.Invoice,
+  status: string,
+): Promise<void> {
+  const vendorId = await getInvoiceVendorId(invoice);
+  if (!vendorId || !invoice.id) {
+    console.warn(
+      `[Stripe] Invoice ${invoice.id} has no vendor, skipping history`,
+    );
+    return;
+  }
+
+  await storage.upsertPaymentHistory({
+    vendorId,
+    stripeInvoiceId: invoice.id,
+    amount:
+      status === "paid" ? invoice.amount_paid || 0 : invoice.amount_due || 0,
+    currency: invoice.currency,
+    status,
+    description:
+      invoice.description || invoice.lines?.data?.[0]?.description || null,
+    invoicePdf: invoice.invoice_pdf || null,
+  });
+}
 
 export function registerPaymentRoutes(app: Express) {
   // Create Stripe Checkout Session for subscription
-  app.post("/api/payments/create-checkout-session", async (req: Request, res: Response) => {
-    try {
-      const { productId, vendorId, vendorEmail, successUrl, cancelUrl } = req.body;
-
-      if (!productId || !vendorId) {
-        return res.status(400).json({ error: "Missing required fields" });
-      }
+  app.post(
+    "/api/payments/create-checkout-session",
+    async (req: Request, res: Response) => {
+      try {
+        const { productId, vendorId, vendorEmail, successUrl, cancelUrl } =
+          req.body;
 
-      const product = STRIPE_PRODUCTS[productId as keyof typeof STRIPE_PRODUCTS];
-      if (!product || !product.priceId) {
-        return res.status(400).json({ error: "Invalid product or free tier selected" });
-      }
+        if (!productId || !vendorId) {
+          return res.status(400).json({ error: "Missing required fields" });
+        }
 
-      // Create or retrieve Stripe customer
-      let customer: Stripe.Customer;
-      const existingCustomers = await getStripe().customers.list({
-        email: vendorEmail,
-        limit: 1,
-      });
+        const product =
+          STRIPE_PRODUCTS[productId as keyof typeof STRIPE_PRODUCTS];
+        if (!product || !product.priceId) {
+          return res
+            .status(400)
+            .json({ error: "Invalid product or free tier selected" });
+        }
 
-      if (existingCustomers.data.length > 0) {
-        customer = existingCustomers.data[0];
-      } else {
-        customer = await getStripe().customers.create({
+        // Create or retrieve Stripe customer
+        let customer: Stripe.Customer;
+        const existingCustomers = await getStripe().customers.list({
           email: vendorEmail,
-          metadata: { vendorId },
+          limit: 1,
         });
-      }
 
-      // First, verify the price exists and check if it's recurring or one-time
-      let priceData;
-      try {
-        priceData = await getStripe().prices.retrieve(product.priceId as string);
-        console.log(`[Stripe] Price ${product.priceId} type: ${priceData.type}, recurring: ${priceData.recurring ? 'yes' : 'no'}`);
-      } catch (priceError: any) {
-        console.error(`[Stripe] Failed to retrieve price ${product.priceId}:`, priceError.message);
-        return res.status(400).json({
-          error: `Invalid Stripe Price ID: ${product.priceId}. Please check your Stripe Dashboard.`
-        });
-      }
+        if (existingCustomers.data.length > 0) {
+          customer = existingCustomers.data[0];
+        } else {
+          customer = await getStripe().customers.create({
+            email: vendorEmail,
+            metadata: { vendorId },
+          });
+        }
 
-      // Determine checkout mode based on price type
-      const isRecurring = priceData.type === 'recurring';
-      const checkoutMode = isRecurring ? 'subscription' : 'payment';
-      console.log(`[Stripe] Creating ${checkoutMode} checkout for ${productId}`);
-
-      // Build session config
-      const sessionConfig: Stripe.Checkout.SessionCreateParams = {
-        customer: customer.id,
-        payment_method_types: ["card"],
-        line_items: [
-          {
-            price: product.priceId,
-            quantity: 1,
-          },
-        ],
-        mode: checkoutMode,
-        success_url: successUrl || `${process.env.EXPO_PUBLIC_API_URL || "https://smartdealsiq.com"}/payment-success?session_id={CHECKOUT_SESSION_ID}`,
-        cancel_url: cancelUrl || `${process.env.EXPO_PUBLIC_API_URL || "https://smartdealsiq.com"}/payment-cancelled`,
-        metadata: {
-          vendorId,
-          productId,
-        },
-      };
-
-      // Add subscription_data only for recurring payments
-      if (isRecurring) {
-        sessionConfig.subscription_data = {
+        // First, verify the price exists and check if it's recurring or one-time
+        let priceData;
+        try {
+          priceData = await getStripe().prices.retrieve(
+            product.priceId as string,
+          );
+          console.log(
+            `[Stripe] Price ${product.priceId} type: ${priceData.type}, recurring: ${priceData.recurring ? "yes" : "no"}`,
+          );
+        } catch (priceError: any) {
+          console.error(
+            `[Stripe] Failed to retrieve price ${product.priceId}:`,
+            priceError.message,
+          );
+          return res.status(400).json({
+            error: `Invalid Stripe Price ID: ${product.priceId}. Please check your Stripe Dashboard.`,
+          });
+        }
+
+        // Determine checkout mode based on price type
+        const isRecurring = priceData.type === "recurring";
+        const checkoutMode = isRecurring ? "subscription" : "payment";
+        console.log(
+          `[Stripe] Creating ${checkoutMode} checkout for ${productId}`,
+        );
+
+        // Build session config
+        const sessionConfig: Stripe.Checkout.SessionCreateParams = {
+          customer: customer.id,
+          payment_method_types: ["card"],
+          line_items: [
+            {
+              price: product.priceId,
+              quantity: 1,
+            },
+          ],
+          mode: checkoutMode,
+          success_url:
+            successUrl ||
+            `${process.env.EXPO_PUBLIC_API_URL || "https://smartdealsiq.com"}/payment-success?session_id={CHECKOUT_SESSION_ID}`,
+          cancel_url:
+            cancelUrl ||
+            `${process.env.EXPO_PUBLIC_API_URL || "https://smartdealsiq.com"}/payment-cancelled`,
           metadata: {
             vendorId,
             productId,
           },
         };
+
+        // Add subscription_data only for recurring payments
+        if (isRecurring) {
+          sessionConfig.subscription_data = {
+            metadata: {
+              vendorId,
+              productId,
+            },
+          };
+        }
+
+        // Create checkout session
+        const session =
+          await getStripe().checkout.sessions.create(sessionConfig);
+
+        res.json({
+          id: session.id,
+          url: session.url,
+        });
+      } catch (error) {
+        console.error("Checkout session error:", error);
+        res.status(500).json({ error: "Failed to create checkout session" });
       }
+    },
+  );
+
+  // Create a Stripe Checkout Session for a listing boost. The boost stays
+  // pending until checkout.session.completed confirms the payment.
+  app.post(
+    "/api/payments/boost-checkout",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const { level, successUrl, cancelUrl } = boostCheckoutSchema.parse(
+          req.body,
+        );
+        const listing = await storage.getVendorListingByUserId(
+          req.user!.userId,
+        );
+        if (!listing) {
+          return res
+            .status(400)
+            .json({ error: "Create a vendor listing before boosting it" });
+        }
 
-      // Create checkout session
-      const session = await getStripe().checkout.sessions.create(sessionConfig);
+        const stripe = getStripe();
+        const plan = BOOST_PLANS[level];
+        const boost = await storage.createBoost({
+          vendorId: listing.id,
+          level,
+          amount: plan.amount,
+          currency: "usd",
+        });
 
-      res.json({
-        id: session.id,
-        url: session.url,
-      });
-    } catch (error) {
-      console.error("Checkout session error:", error);
-      res.status(500).json({ error: "Failed to create checkout session" });
-    }
-  });
+        const baseUrl =
+          process.env.EXPO_PUBLIC_API_URL || "https://smartdealsiq.com";
+        const session = await stripe.checkout.sessions.create({
+          mode: "payment",
+          payment_method_types: ["card"],
+          customer_email: req.user!.email,
+          line_items: [
+            {
+              price_data: {
+                currency: "usd",
+                unit_amount: plan.amount,
+                product_data: {
+                  name: plan.name,
+                  description: plan.description,
+                },
+              },
+              quantity: 1,
+            },
+          ],
+          success_url:
+            successUrl ||
+            `${baseUrl}/payment-success?session_id={CHECKOUT_SESSION_ID}`,
+          cancel_url: cancelUrl || `${baseUrl}/payment-cancelled`,
+          metadata: {
+            vendorId: req.user!.userId,
+            productId: `boost_${level}`,
+            boostId: boost.id,
+          },
+        });
+        await storage.updateBoost(boost.id, {
+          stripeCheckoutSessionId: session.id,
+        });
+
+        res.json({
+          id: session.id,
+          url: session.url,
+          boost: toPublicBoost(boost),
+        });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Boost checkout error:", error);
+        res.status(500).json({ error: "Failed to create boost checkout" });
+      }
+    },
+  );
 
   // Create Payment Intent for one-time payments
-  app.post("/api/payments/create-payment-intent", async (req: Request, res: Response) => {
-    try {
-      const { amount, currency = "usd", vendorId } = req.body;
+  app.post(
+    "/api/payments/create-payment-intent",
+    async (req: Request, res: Response) => {
+      try {
+        const { amount, currency = "usd", vendorId } = req.body;
 
-      if (!amount || !vendorId) {
-        return res.status(400).json({ error: "Missing required fields" });
-      }
+        if (!amount || !vendorId) {
+          return res.status(400).json({ error: "Missing required fields" });
+        }
 
-      const paymentIntent = await getStripe().paymentIntents.create({
-        amount: Math.round(amount), // Amount in cents
-        currency,
-        metadata: { vendorId },
-        automatic_payment_methods: {
-          enabled: true,
-        },
-      });
-
-      res.json({
-        clientSecret: paymentIntent.client_secret,
-        id: paymentIntent.id,
-        amount: paymentIntent.amount,
-        currency: paymentIntent.currency,
-        status: paymentIntent.status,
-      });
-    } catch (error) {
-      console.error("Payment intent error:", error);
-      res.status(500).json({ error: "Failed to create payment intent" });
-    }
-  });
+        const paymentIntent = await getStripe().paymentIntents.create({
+          amount: Math.round(amount), // Amount in cents
+          currency,
+          metadata: { vendorId },
+          automatic_payment_methods: {
+            enabled: true,
+          },
+        });
+
+        res.json({
+          clientSecret: paymentIntent.client_secret,
+          id: paymentIntent.id,
+          amount: paymentIntent.amount,
+          currency: paymentIntent.currency,
+          status: paymentIntent.status,
+        });
+      } catch (error) {
+        console.error("Payment intent error:", error);
+        res.status(500).json({ error: "Failed to create payment intent" });
+      }
+    },
+  );
 
   // Verify payment status
-  app.get("/api/payments/verify/:paymentIntentId", async (req: Request, res: Response) => {
-    try {
-      const { paymentIntentId } = req.params;
+  app.get(
+    "/api/payments/verify/:paymentIntentId",
+    async (req: Request, res: Response) => {
+      try {
+        const { paymentIntentId } = req.params;
 
-      const paymentIntent = await getStripe().paymentIntents.retrieve(paymentIntentId);
+        const paymentIntent =
+          await getStripe().paymentIntents.retrieve(paymentIntentId);
 
-      res.json({
-        success: paymentIntent.status === "succeeded",
-        status: paymentIntent.status,
-      });
-    } catch (error) {
-      console.error("Payment verification error:", error);
-      res.status(500).json({ success: false, status: "error", error: "Verification failed" });
-    }
-  });
+        res.json({
+          success: paymentIntent.status === "succeeded",
+          status: paymentIntent.status,
+        });
+      } catch (error) {
+        console.error("Payment verification error:", error);
+        res.status(500).json({
+          success: false,
+          status: "error",
+          error: "Verification failed",
+        });
+      }
+    },
+  );
 
   // Get customer payment methods
-  app.get("/api/payments/methods/:customerId", async (req: Request, res: Response) => {
-    try {
-      const { customerId } = req.params;
-
-      const paymentMethods = await getStripe().paymentMethods.list({
-        customer: customerId,
-        type: "card",
-      });
-
-      const methods = paymentMethods.data.map((pm) => ({
-        id: pm.id,
-        type: pm.type,
-        last4: pm.card?.last4,
-        brand: pm.card?.brand,
-        expiryMonth: pm.card?.exp_month,
-        expiryYear: pm.card?.exp_year,
-      }));
-
-      res.json(methods);
-    } catch (error) {
-      console.error("Get payment methods error:", error);
-      res.status(500).json([]);
-    }
-  });
-
-  // Get billing history for vendor
-  app.get("/api/payments/history/:vendorId", async (req: Request, res: Response) => {
-    try {
-      const { vendorId } = req.params;
+  app.get(
+    "/api/payments/methods/:customerId",
+    async (req: Request, res: Response) => {
+      try {
+        const { customerId } = req.params;
 
-      // Get subscription for vendor
-      const subscription = Array.from(subscriptions.values()).find(
-        (sub) => sub.vendorId === vendorId
-      );
+        const paymentMethods = await getStripe().paymentMethods.list({
+          customer: customerId,
+          type: "card",
+        });
 
-      if (!subscription) {
-        return res.json([]);
+        const methods = paymentMethods.data.map((pm) => ({
+          id: pm.id,
+          type: pm.type,
+          last4: pm.card?.last4,
+          brand: pm.card?.brand,
+          expiryMonth: pm.card?.exp_month,
+          expiryYear: pm.card?.exp_year,
+        }));
+
+        res.json(methods);
+      } catch (error) {
+        console.error("Get payment methods error:", error);
+        res.status(500).json([]);
       }
+    },
+  );
 
-      // Fetch invoices from Stripe
-      const invoices = await getStripe().invoices.list({
-        customer: subscription.stripeCustomerId,
-        limit: 20,
-      });
-
-      const history = invoices.data.map((invoice) => ({
-        id: invoice.id,
-        amount: (invoice.amount_paid || 0) / 100,
-        currency: invoice.currency,
-        status: invoice.status,
-        created: new Date(invoice.created * 1000).toISOString(),
-        invoicePdf: invoice.invoice_pdf,
-      }));
-
-      res.json(history);
-    } catch (error) {
-      console.error("Get billing history error:", error);
-      res.status(500).json([]);
-    }
-  });
+  // Get billing history for vendor
+  app.get(
+    "/api/payments/history/:vendorId",
+    async (req: Request, res: Response) => {
+      try {
+        const { vendorId } = req.params;
+
+        const payments = await storage.getPaymentHistory(vendorId);
+
+        const history = payments.map((payment) => ({
+          id: payment.stripeInvoiceId || payment.id,
+          amount: payment.amount / 100,
+          currency: payment.currency,
+          status: payment.status,
+          description: payment.description,
+          created: payment.createdAt.toISOString(),
+          invoicePdf: payment.invoicePdf,
+        }));
+
+        res.json(history);
+      } catch (error) {
+        console.error("Get billing history error:", error);
+        res.status(500).json([]);
+      }
+    },
+  );
 
   // Get subscription details for vendor
-  app.get("/api/subscriptions/vendor/:vendorId", async (req: Request, res: Response) => {
-    try {
-      const { vendorId } = req.params;
+  app.get(
+    "/api/subscriptions/vendor/:vendorId",
+    async (req: Request, res: Response) => {
+      try {
+        const { vendorId } = req.params;
 
-      const subscription = Array.from(subscriptions.values()).find(
-        (sub) => sub.vendorId === vendorId
-      );
+        // Kept up to date by the Stripe webhook handler
+        const subscription = await storage.getSubscriptionByVendorId(vendorId);
 
-      if (!subscription) {
-        return res.status(404).json(null);
-      }
+        if (!subscription) {
+          return res.status(404).json(null);
+        }
 
-      // Fetch latest status from Stripe
-      const stripeSubscription = await getStripe().subscriptions.retrieve(
-        subscription.stripeSubscriptionId
-      ) as Stripe.Subscription;
-
-      res.json({
-        id: subscription.id,
-        status: stripeSubscription.status,
-        currentPeriodEnd: new Date((stripeSubscription as any).current_period_end * 1000).toISOString(),
-        cancelAtPeriodEnd: stripeSubscription.cancel_at_period_end,
-        plan: {
-          id: subscription.productId,
-          name: STRIPE_PRODUCTS[subscription.productId as keyof typeof STRIPE_PRODUCTS]?.name || "Unknown",
-        },
-      });
-    } catch (error) {
-      console.error("Get subscription error:", error);
-      res.status(500).json(null);
-    }
-  });
+        res.json({
+          id: subscription.id,
+          status: subscription.status,
+          currentPeriodEnd: subscription.currentPeriodEnd.toISOString(),
+          cancelAtPeriodEnd: subscription.cancelAtPeriodEnd,
+          plan: {
+            id: subscription.productId,
+            name:
+              STRIPE_PRODUCTS[
+                subscription.productId as keyof typeof STRIPE_PRODUCTS
+              ]?.name || "Unknown",
+          },
+        });
+      } catch (error) {
+        console.error("Get subscription error:", error);
+        res.status(500).json(null);
+      }
+    },
+  );
 
   // Cancel subscription
-  app.post("/api/subscriptions/:subscriptionId/cancel", async (req: Request, res: Response) => {
-    try {
-      const { subscriptionId } = req.params;
-
-      // Find subscription in our store
-      const subscription = subscriptions.get(subscriptionId);
-
-      if (subscription) {
-        // Cancel at period end (user keeps access until end of billing period)
-        await getStripe().subscriptions.update(subscription.stripeSubscriptionId, {
-          cancel_at_period_end: true,
-        });
+  app.post(
+    "/api/subscriptions/:subscriptionId/cancel",
+    async (req: Request, res: Response) => {
+      try {
+        const { subscriptionId } = req.params;
+
+        // Find subscription in our store (by our ID or the Stripe subscription ID)
+        const subscription =
+          (await storage.getSubscription(subscriptionId)) ||
+          (await storage.getSubscriptionByStripeId(subscriptionId));
+
+        if (subscription) {
+          // Cancel at period end (user keeps access until end of billing period)
+          await getStripe().subscriptions.update(
+            subscription.stripeSubscriptionId,
+            {
+              cancel_at_period_end: true,
+            },
+          );
+
+          await storage.updateSubscription(subscription.id, {
+            cancelAtPeriodEnd: true,
+          });
+        } else {
+          // Try to cancel directly with Stripe subscription ID
+          await getStripe().subscriptions.update(subscriptionId, {
+            cancel_at_period_end: true,
+          });
+        }
 
-        subscription.cancelAtPeriodEnd = true;
-        subscriptions.set(subscriptionId, subscription);
-      } else {
-        // Try to cancel directly with Stripe subscription ID
-        await getStripe().subscriptions.update(subscriptionId, {
-          cancel_at_period_end: true,
-        });
+        res.json({ success: true });
+      } catch (error) {
+        console.error("Cancel subscription error:", error);
+        res
+          .status(500)
+          .json({ success: false, error: "Failed to cancel subscription" });
       }
-
-      res.json({ success: true });
-    } catch (error) {
-      console.error("Cancel subscription error:", error);
-      res.status(500).json({ success: false, error: "Failed to cancel subscription" });
-    }
-  });
+    },
+  );
 
   // Stripe Webhook Handler
   app.post("/api/webhooks/stripe", async (req: Request, res: Response) => {
@@ -336,7 +585,7 @@ export function registerPaymentRoutes(app: Express) {
         event = getStripe().webhooks.constructEvent(
           req.rawBody as Buffer,
           sig,
-          webhookSecret
+          webhookSecret,
         );
       } else {
         // For testing without signature verification
@@ -348,100 +597,114 @@ export function registerPaymentRoutes(app: Express) {
     }
 
     // Handle the event
-    switch (event.type) {
-      case "checkout.session.completed": {
-        const session = event.data.object as Stripe.Checkout.Session;
-        console.log("Checkout completed:", session.id);
-
-        // Get subscription details
-        if (session.subscription && session.metadata) {
-          const stripeSubscription = await getStripe().subscriptions.retrieve(
-            session.subscription as string
-          ) as Stripe.Subscription;
-
-          const subscriptionData = {
-            id: `sub_${Date.now()}`,
-            vendorId: session.metadata.vendorId,
-            stripeSubscriptionId: stripeSubscription.id,
-            stripeCustomerId: session.customer as string,
-            productId: session.metadata.productId,
-            status: stripeSubscription.status,
-            currentPeriodStart: new Date((stripeSubscription as any).current_period_start * 1000),
-            currentPeriodEnd: new Date((stripeSubscription as any).current_period_end * 1000),
-            cancelAtPeriodEnd: stripeSubscription.cancel_at_period_end,
-            createdAt: new Date(),
-          };
-
-          subscriptions.set(subscriptionData.id, subscriptionData);
-          console.log("Subscription created:", subscriptionData.id);
+    try {
+      switch (event.type) {
+        case "checkout.session.completed": {
+          const session = event.data.object as Stripe.Checkout.Session;
+          console.log("Checkout completed:", session.id);
+
+          // Get subscription details
+          if (session.subscription && session.metadata) {
+            const stripeSubscription =
+              (await getStripe().subscriptions.retrieve(
+                session.subscription as string,
+              )) as Stripe.Subscription;
+
+            const subscription = await saveStripeSubscription(
+              stripeSubscription,
+              {
+                vendorId: session.metadata.vendorId,
+                productId: session.metadata.productId,
+              },
+            );
+            if (subscription) {
+              console.log("Subscription saved:", subscription.id);
+            }
+          } else if (
+            session.mode === "payment" &&
+            session.payment_status === "paid" &&
+            session.metadata?.vendorId
+          ) {
+            const boost = session.metadata.boostId
+              ? await storage.getBoost(session.metadata.boostId)
+              : undefined;
+            if (boost) {
+              await activateBoost(
+                boost,
+                (session.payment_intent as string) || null,
+              );
+              console.log("Boost activated:", boost.id);
+            }
+
+            // One-time purchase: record it in the vendor's payment history, once per session
+            await storage.upsertPaymentHistory({
+              vendorId: session.metadata.vendorId,
+              stripeCheckoutSessionId: session.id,
+              stripePaymentIntentId: (session.payment_intent as string) || null,
+              amount: session.amount_total || 0,
+              currency: session.currency || "usd",
+              status: "paid",
+              description: boost
+                ? BOOST_PLANS[boost.level as keyof typeof BOOST_PLANS]?.name ||
+                  null
+                : STRIPE_PRODUCTS[
+                    session.metadata.productId as keyof typeof STRIPE_PRODUCTS
+                  ]?.name || null,
+            });
+          }
+          break;
         }
-        break;
-      }
-
-      case "customer.subscription.updated": {
-        const subscription = event.data.object as Stripe.Subscription;
-        console.log("Subscription updated:", subscription.id);
 
-        // Update local subscription record
-        const existing = Array.from(subscriptions.values()).find(
-          (sub) => sub.stripeSubscriptionId === subscription.id
-        );
+        case "checkout.session.expired": {
+          const session = event.data.object as Stripe.Checkout.Session;
 
-        if (existing) {
-          existing.status = subscription.status;
-          existing.currentPeriodEnd = new Date((subscription as any).current_period_end * 1000);
-          existing.cancelAtPeriodEnd = subscription.cancel_at_period_end;
-          subscriptions.set(existing.id, existing);
+          // An abandoned boost checkout never activates
+          const boost = await storage.getBoostByCheckoutSession(session.id);
+          if (boost && boost.status === "pending") {
+            await storage.updateBoost(boost.id, { status: "expired" });
+          }
+          break;
         }
-        break;
-      }
 
-      case "customer.subscription.deleted": {
-        const subscription = event.data.object as Stripe.Subscription;
-        console.log("Subscription deleted:", subscription.id);
+        case "customer.subscription.created":
+        case "customer.subscription.updated":
+        case "customer.subscription.deleted": {
+          const subscription = event.data.object as Stripe.Subscription;
+          console.log(
+            `Subscription ${event.type.split(".").pop()}:`,
+            subscription.id,
+          );
+
+          // Deleted subscriptions arrive with status "canceled"; keep the record for history
+          await saveStripeSubscription(subscription);
+          break;
+        }
 
-        // Remove from local store
-        const existing = Array.from(subscriptions.entries()).find(
-          ([_, sub]) => sub.stripeSubscriptionId === subscription.id
-        );
+        case "invoice.paid": {
+          const invoice = event.data.object as Stripe.Invoice;
+          console.log("Invoice paid:", invoice.id);
 
-        if (existing) {
-          subscriptions.delete(existing[0]);
+          await recordInvoice(invoice, "paid");
+          break;
         }
-        break;
-      }
 
-      case "invoice.paid": {
-        const invoice = event.data.object as Stripe.Invoice;
-        console.log("Invoice paid:", invoice.id);
+        case "invoice.payment_failed": {
+          const invoice = event.data.object as Stripe.Invoice;
+          console.log("Invoice payment failed:", invoice.id);
 
-        // Record payment in history
-        const vendorId = (invoice as any).subscription_details?.metadata?.vendorId;
-        if (vendorId) {
-          const history = paymentHistory.get(vendorId) || [];
-          history.push({
-            id: invoice.id,
-            vendorId,
-            amount: (invoice.amount_paid || 0) / 100,
-            currency: invoice.currency,
-            status: invoice.status || "paid",
-            created: new Date(invoice.created * 1000),
-            invoicePdf: invoice.invoice_pdf || undefined,
-          });
-          paymentHistory.set(vendorId, history);
+          // The subscription itself moves to past_due via customer.subscription.updated
+          await recordInvoice(invoice, "failed");
+          // TODO: Send notification to vendor about failed payment
+          break;
         }
-        break;
-      }
 
-      case "invoice.payment_failed": {
-        const invoice = event.data.object as Stripe.Invoice;
-        console.log("Invoice payment failed:", invoice.id);
-        // TODO: Send notification to vendor about failed payment
-        break;
+        default:
+          console.log(`Unhandled event type: ${event.type}`);
       }
-
-      default:
-        console.log(`Unhandled event type: ${event.type}`);
+    } catch (error) {
+      // Return 500 so Stripe retries the event
+      console.error(`Webhook handler error for ${event.type}:`, error);
+      return res.status(500).json({ error: "Webhook handler failed" });
     }
 
     res.json({ received: true });
@@ -0,0 +1,417 @@
+import type { Express, NextFunction, Request, Response } from "express";
+import express from "express";
+import multer from "multer";
+import sharp from "sharp";
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import {
+  photoOrderSchema,
+  photoOwnerTypeEnum,
+  photoUploadSchema,
+  type Photo,
+  type PhotoOwnerType,
+  type VendorListing,
+} from "../shared/schema";
+import { authMiddleware } from "./auth";
+import { getBlobStore, LocalDiskBlobStore, UPLOADS_ROUTE } from "./blob-store";
+import { storage } from "./storage";
+import { getTierLimits } from "./vendor-listings";
+
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+const ACCEPTED_TYPES = ["image/jpeg", "image/png", "image/webp"];
+
+// Longest edge in pixels; the original is capped too so phone photos don't fill the disk
+const ORIGINAL_MAX_EDGE = 2048;
+const MEDIUM_MAX_EDGE = 800;
+const THUMBNAIL_SIZE = 240;
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 },
+  fileFilter: (_req, file, cb) =>
+    cb(null, ACCEPTED_TYPES.includes(file.mimetype)),
+});
+
+export function toPublicPhoto(photo: Photo) {
+  return {
+    id: photo.id,
+    url: photo.url,
+    mediumUrl: photo.mediumUrl,
+    thumbnailUrl: photo.thumbnailUrl,
+    width: photo.width,
+    height: photo.height,
+    caption: photo.caption,
+    position: photo.position,
+    createdAt: photo.createdAt,
+  };
+}
+
+interface ProcessedImage {
+  original: Buffer;
+  medium: Buffer;
+  thumbnail: Buffer;
+  width: number;
+  height: number;
+}
+
+/**
+ * Re-encode an upload as JPEG at three sizes. rotate() bakes in the EXIF
+ * orientation, and sharp drops all metadata (including GPS) on output.
+ */
+async function processImage(input: Buffer): Promise<ProcessedImage> {
+  const image = sharp(input, { failOn: "error" }).rotate();
+
+  const original = await image
+    .clone()
+    .resize({
+      width: ORIGINAL_MAX_EDGE,
+      height: ORIGINAL_MAX_EDGE,
+      fit: "inside",
+      withoutEnlargement: true,
+    })
+    .jpeg({ quality: 85, mozjpeg: true })
+    .toBuffer({ resolveWithObject: true });
+  const medium = await image
+    .clone()
+    .resize({
+      width: MEDIUM_MAX_EDGE,
+      height: MEDIUM_MAX_EDGE,
+      fit: "inside",
+      withoutEnlargement: true,
+    })
+    .jpeg({ quality: 80, mozjpeg: true })
+    .toBuffer();
+  const thumbnail = await image
+    .clone()
+    .resize({ width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE, fit: "cover" })
+    .jpeg({ quality: 75, mozjpeg: true })
+    .toBuffer();
+
+  return {
+    original: original.data,
+    medium,
+    thumbnail,
+    width: original.info.width,
+    height: original.info.height,
+  };
+}
+
+/**
+ * Check that the listing, menu item or deal belongs to the vendor's listing.
+ * Sends the error response and returns false when it doesn't.
+ */
+async function checkOwner(
+  res: Response,
+  listing: VendorListing,
+  ownerType: PhotoOwnerType,
+  ownerId: string,
+): Promise<boolean> {
+  let vendorId: string | undefined;
+  if (ownerType === "listing") {
+    vendorId = (await storage.getVendorListing(ownerId))?.id;
+  } else if (ownerType === "menu_item") {
+    vendorId = (await storage.getMenuItem(ownerId))?.vendorId;
+  } else {
+    vendorId = (await storage.getDeal(ownerId))?.vendorId;
+  }
+
+  if (!vendorId) {
+    res.status(404).json({ error: "Photo owner not found" });
+    return false;
+  }
+  if (vendorId !== listing.id) {
+    res.status(403).json({ error: "Not authorized to modify these photos" });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Menu items and deals keep a single image URL for cards; point it at the first photo.
+ */
+async function syncPrimaryPhoto(
+  ownerType: PhotoOwnerType,
+  ownerId: string,
+  photos: Photo[],
+): Promise<void> {
+  const primary = photos[0]?.mediumUrl ?? null;
+  if (ownerType === "menu_item") {
+    await storage.updateMenuItem(ownerId, { photoUrl: primary });
+  } else if (ownerType === "deal") {
+    await storage.updateDeal(ownerId, { imageUrl: primary });
+  }
+}
+
+async function deleteBlobs(photo: Photo): Promise<void> {
+  const store = getBlobStore();
+  await Promise.all(
+    [photo.originalKey, photo.mediumKey, photo.thumbnailKey].map((key) =>
+      store
+        .delete(key)
+        .catch((error) => console.error(`Error deleting blob ${key}:`, error)),
+    ),
+  );
+}
+
+export async function getPhotosFor(ownerType: PhotoOwnerType, ownerId: string) {
+  return (await storage.getPhotos(ownerType, [ownerId])).map(toPublicPhoto);
+}
+
+/**
+ * Remove every photo (and its files) attached to something that is being deleted.
+ */
+export async function deletePhotosFor(
+  ownerType: PhotoOwnerType,
+  ownerIds: string[],
+): Promise<void> {
+  for (const photo of await storage.getPhotos(ownerType, ownerIds)) {
+    await storage.deletePhoto(photo.id);
+    await deleteBlobs(photo);
+  }
+}
+
+// Multer errors (size limit, unexpected field) are client errors
+function receivePhoto(req: Request, res: Response, next: NextFunction) {
+  upload.single("photo")(req, res, (err: unknown) => {
+    if (err instanceof multer.MulterError) {
+      return res.status(400).json({
+        error:
+          err.code === "LIMIT_FILE_SIZE"
+            ? "Photo must be 10 MB or smaller"
+            : err.message,
+      });
+    }
+    if (err) return next(err);
+    next();
+  });
+}
+
+export function registerPhotoRoutes(app: Express): void {
+  const store = getBlobStore();
+  if (store instanceof LocalDiskBlobStore) {
+    app.use(
+      UPLOADS_ROUTE,
+      express.static(store.rootDir, { immutable: true, maxAge: "365d" }),
+    );
+  }
+
+  // ==========================================
+  // PUBLIC ROUTES (No auth required)
+  // ==========================================
+
+  // GET /api/photos?ownerType=&ownerId= - Ordered photos for a listing, menu item or deal
+  app.get("/api/photos", async (req: Request, res: Response) => {
+    try {
+      const { ownerType, ownerId } = z
+        .object({ ownerType: photoOwnerTypeEnum, ownerId: z.string().min(1) })
+        .parse(req.query);
+
+      res.json({ photos: await getPhotosFor(ownerType, ownerId) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: error.errors,
+        });
+      }
+      console.error("Error fetching photos:", error);
+      res.status(500).json({ error: "Failed to fetch photos" });
+    }
+  });
+
+  // ==========================================
+  // VENDOR AUTHENTICATED ROUTES
+  // ==========================================
+
+  // POST /api/photos - Upload a photo (multipart: photo, ownerType, ownerId, caption)
+  app.post(
+    "/api/photos",
+    authMiddleware,
+    receivePhoto,
+    async (req: Request, res: Response) => {
+      try {
+        const listing = await storage.getVendorListingByUserId(
+          req.user!.userId,
+        );
+        if (!listing) {
+          return res
+            .status(400)
+            .json({ error: "Create a vendor listing before uploading photos" });
+        }
+
+        const { ownerType, ownerId, caption } = photoUploadSchema.parse(
+          req.body,
+        );
+        if (!req.file) {
+          return res
+            .status(400)
+            .json({ error: "A JPEG, PNG or WebP photo is required" });
+        }
+        if (!(await checkOwner(res, listing, ownerType, ownerId))) return;
+
+        const existing = await storage.getPhotos(ownerType, [ownerId]);
+        const maxPhotos = getTierLimits(listing.vendorTier).maxPhotos[
+          ownerType
+        ];
+        if (existing.length >= maxPhotos) {
+          return res.status(403).json({
+            error: `Your plan allows up to ${maxPhotos} photo${maxPhotos !== 1 ? "s" : ""} here. Remove one or upgrade to add more.`,
+            maxPhotos,
+          });
+        }
+
+        let processed: ProcessedImage;
+        try {
+          processed = await processImage(req.file.buffer);
+        } catch {
+          return res.status(400).json({ error: "Could not read that image" });
+        }
+
+        const prefix = `photos/${listing.id}/${randomUUID()}`;
+        const keys = {
+          originalKey: `${prefix}.jpg`,
+          mediumKey: `${prefix}-medium.jpg`,
+          thumbnailKey: `${prefix}-thumb.jpg`,
+        };
+        await Promise.all([
+          store.put(keys.originalKey, processed.original, "image/jpeg"),
+          store.put(keys.mediumKey, processed.medium, "image/jpeg"),
+          store.put(keys.thumbnailKey, processed.thumbnail, "image/jpeg"),
+        ]);
+
+        const photo = await storage.createPhoto({
+          vendorId: listing.id,
+          ownerType,
+          ownerId,
+          position:
+            existing.length > 0
+              ? existing[existing.length - 1].position + 1
+              : 0,
+          ...keys,
+          url: store.url(keys.originalKey),
+          mediumUrl: store.url(keys.mediumKey),
+          thumbnailUrl: store.url(keys.thumbnailKey),
+          width: processed.width,
+          height: processed.height,
+          caption: caption || null,
+        });
+        if (existing.length === 0) {
+          await syncPrimaryPhoto(ownerType, ownerId, [photo]);
+        }
+
+        res
+          .status(201)
+          .json({ message: "Photo uploaded", photo: toPublicPhoto(photo) });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error uploading photo:", error);
+        res.status(500).json({ error: "Failed to upload photo" });
+      }
+    },
+  );
+
+  // PUT /api/photos/order - Reorder an owner's photos; the first becomes the primary image
+  app.put(
+    "/api/photos/order",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const listing = await storage.getVendorListingByUserId(
+          req.user!.userId,
+        );
+        if (!listing) {
+          return res.status(404).json({ error: "No listing found" });
+        }
+
+        const { ownerType, ownerId, photoIds } = photoOrderSchema.parse(
+          req.body,
+        );
+        if (!(await checkOwner(res, listing, ownerType, ownerId))) return;
+
+        const current = await storage.getPhotos(ownerType, [ownerId]);
+        const currentIds = new Set(current.map((p) => p.id));
+        if (
+          photoIds.length !== current.length ||
+          !photoIds.every((id) => currentIds.has(id))
+        ) {
+          return res.status(400).json({
+            error:
+              "photoIds must list each of this owner's photos exactly once",
+          });
+        }
+
+        const photos = await storage.reorderPhotos(
+          ownerType,
+          ownerId,
+          photoIds,
+        );
+        await syncPrimaryPhoto(ownerType, ownerId, photos);
+
+        res.json({
+          message: "Photos reordered",
+          photos: photos.map(toPublicPhoto),
+        });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error reordering photos:", error);
+        res.status(500).json({ error: "Failed to reorder photos" });
+      }
+    },
+  );
+
+  // DELETE /api/photos/:id - Remove a photo and its files
+  app.delete(
+    "/api/photos/:id",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const photo = await storage.getPhoto(req.params.id);
+        if (!photo) {
+          return res.status(404).json({ error: "Photo not found" });
+        }
+
+        const listing = await storage.getVendorListingByUserId(
+          req.user!.userId,
+        );
+        if (!listing || listing.id !== photo.vendorId) {
+          return res
+            .status(403)
+            .json({ error: "Not authorized to modify these photos" });
+        }
+
+        await storage.deletePhoto(photo.id);
+        await deleteBlobs(photo);
+
+        const remaining = await storage.getPhotos(
+          photo.ownerType as PhotoOwnerType,
+          [photo.ownerId],
+        );
+        await syncPrimaryPhoto(
+          photo.ownerType as PhotoOwnerType,
+          photo.ownerId,
+          remaining,
+        );
+
+        res.json({
+          message: "Photo deleted",
+          photos: remaining.map(toPublicPhoto),
+        });
+      } catch (error) {
+        console.error("Error deleting photo:", error);
+        res.status(500).json({ error: "Failed to delete photo" });
+      }
+    },
+  );
+
+  console.log("Photo routes registered");
+}
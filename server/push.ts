@@ -0,0 +1,137 @@
+import { storage } from "./storage";
+
+const EXPO_PUSH_URL = "https://exp.host/--/api/v2/push/send";
+// Expo accepts at most 100 messages per request
+const EXPO_BATCH_SIZE = 100;
+
+export interface PushMessage {
+  to: string;
+  title: string;
+  body: string;
+  data?: Record<string, unknown>; // Deep link payload, e.g. { type: "flash_deal", dealId }
+  sound?: "default" | null;
+  badge?: number;
+}
+
+/** Expo's per-message result; "DeviceNotRegistered" means the token is dead */
+export interface PushTicket {
+  status: "ok" | "error";
+  id?: string;
+  message?: string;
+  details?: { error?: string };
+}
+
+/**
+ * Delivers push messages. Returns one ticket per message, in order.
+ */
+export interface PushTransport {
+  send(messages: PushMessage[]): Promise<PushTicket[]>;
+}
+
+/**
+ * Default transport: the Expo push service. EXPO_ACCESS_TOKEN is only
+ * needed when enhanced push security is turned on for the project.
+ */
+export class ExpoPushTransport implements PushTransport {
+  constructor(private readonly accessToken?: string) {}
+
+  async send(messages: PushMessage[]): Promise<PushTicket[]> {
+    const tickets: PushTicket[] = [];
+    for (let i = 0; i < messages.length; i += EXPO_BATCH_SIZE) {
+      const batch = messages.slice(i, i + EXPO_BATCH_SIZE);
+      const response = await fetch(EXPO_PUSH_URL, {
+        method: "POST",
+        headers: {
+          Accept: "application/json",
+          "Content-Type": "application/json",
+          ...(this.accessToken
+            ? { Authorization: `Bearer ${this.accessToken}` }
+            : {}),
+        },
+        body: JSON.stringify(batch),
+      });
+      if (!response.ok) {
+        throw new Error(
+          `Expo push request failed with status ${response.status}`,
+        );
+      }
+
+      const result = (await response.json()) as { data: PushTicket[] };
+      tickets.push(...result.data);
+    }
+    return tickets;
+  }
+}
+
+/**
+ * Stand-in for development and tests: keeps every message in memory and
+ * logs it instead of contacting Expo.
+ */
+export class LocalPushTransport implements PushTransport {
+  readonly sent: PushMessage[] = [];
+
+  async send(messages: PushMessage[]): Promise<PushTicket[]> {
+    for (const message of messages) {
+      console.log(`[Push] ${message.to}: ${message.title} - ${message.body}`);
+    }
+    this.sent.push(...messages);
+    return messages.map(() => ({ status: "ok" }));
+  }
+}
+
+function createDefaultTransport(): PushTransport {
+  return process.env.PUSH_TRANSPORT === "local"
+    ? new LocalPushTransport()
+    : new ExpoPushTransport(process.env.EXPO_ACCESS_TOKEN);
+}
+
+let pushTransport: PushTransport = createDefaultTransport();
+
+export function getPushTransport(): PushTransport {
+  return pushTransport;
+}
+
+/**
+ * Swap in another transport (e.g. a LocalPushTransport in tests).
+ */
+export function setPushTransport(transport: PushTransport): void {
+  pushTransport = transport;
+}
+
+export interface PushNotification {
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Push a notification to every device the users are signed in on. Tokens
+ * Expo reports as unregistered are forgotten. Returns how many devices
+ * accepted the message.
+ */
+export async function sendPushToUsers(
+  userIds: string[],
+  notification: PushNotification,
+): Promise<number> {
+  const tokens = await storage.getPushTokensByUsers(userIds);
+  if (tokens.length === 0) return 0;
+
+  const messages: PushMessage[] = tokens.map((t) => ({
+    to: t.token,
+    title: notification.title,
+    body: notification.body,
+    data: notification.data,
+    sound: "default",
+  }));
+  const tickets = await pushTransport.send(messages);
+
+  const dead = tickets
+    .map((ticket, i) =>
+      ticket.details?.error === "DeviceNotRegistered" ? messages[i].to : null,
+    )
+    .filter((token): token is string => !!token);
+  if (dead.length > 0) {
+    await storage.deletePushTokens(dead);
+  }
+  return tickets.filter((t) => t.status === "ok").length;
+}
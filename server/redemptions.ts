@@ -0,0 +1,320 @@
+import type { Express, Request, Response } from "express";
+import jwt from "jsonwebtoken";
+import { z } from "zod";
+import type {
+  DealRedemption,
+  RewardVoucher,
+  VendorListing,
+} from "../shared/schema";
+import {
+  authMiddleware,
+  signRedemptionToken,
+  verifyRedemptionToken,
+} from "./auth";
+import { storage } from "./storage";
+import { recordAnalyticsEvents } from "./analytics";
+import { recordRedemptionReward } from "./rewards";
+import { canUseVoucherAt } from "./reward-catalog";
+
+const verifyRedemptionSchema = z
+  .object({
+    token: z.string().min(1).optional(),
+    code: z
+      .string()
+      .regex(/^\d{6}$/, "Code must be 6 digits")
+      .optional(),
+  })
+  .refine((data) => data.token || data.code, {
+    message: "Provide a scanned token or a numeric code",
+  });
+
+// Six-digit codes can be guessed, so each vendor gets a limited number of wrong ones
+const CODE_MISS_WINDOW_MS = 15 * 60 * 1000;
+const MAX_CODE_MISSES = 10;
+// Wrong typed codes per vendor user in the current window (in-memory, like reset codes)
+const codeMisses = new Map<string, { count: number; windowStart: number }>();
+
+function isCodeEntryLocked(userId: string): boolean {
+  const misses = codeMisses.get(userId);
+  if (!misses) return false;
+  if (Date.now() - misses.windowStart > CODE_MISS_WINDOW_MS) {
+    codeMisses.delete(userId);
+    return false;
+  }
+  return misses.count >= MAX_CODE_MISSES;
+}
+
+function recordCodeMiss(userId: string) {
+  const misses = codeMisses.get(userId);
+  if (misses) {
+    misses.count += 1;
+  } else {
+    codeMisses.set(userId, { count: 1, windowStart: Date.now() });
+  }
+}
+
+// What the customer shows at the counter: a QR token plus a short numeric fallback
+export function toRedemptionPass(redemption: DealRedemption) {
+  return {
+    id: redemption.id,
+    dealId: redemption.dealId,
+    code: redemption.code,
+    token: redemption.verifiedAt
+      ? null
+      : signRedemptionToken(redemption.id, redemption.expiresAt),
+    expiresAt: redemption.expiresAt,
+    verifiedAt: redemption.verifiedAt,
+    createdAt: redemption.createdAt,
+  };
+}
+
+/**
+ * Mark a rewards voucher as used at the vendor's listing. Shares the verify
+ * endpoint with deal redemptions so the vendor scans both the same way.
+ */
+async function verifyVoucher(
+  voucher: RewardVoucher,
+  listing: VendorListing,
+  req: Request,
+  res: Response,
+) {
+  if (!canUseVoucherAt(voucher, listing)) {
+    return res
+      .status(403)
+      .json({ error: "This voucher can't be used at your truck" });
+  }
+
+  if (voucher.status === "used") {
+    return res.status(409).json({
+      error: "This code has already been used",
+      verifiedAt: voucher.usedAt,
+    });
+  }
+
+  if (
+    voucher.status !== "active" ||
+    voucher.expiresAt.getTime() <= Date.now()
+  ) {
+    return res.status(410).json({ error: "This voucher has expired" });
+  }
+
+  const used = await storage.useRewardVoucher(
+    voucher.id,
+    req.user!.userId,
+    listing.id,
+  );
+  if (!used) {
+    return res.status(409).json({ error: "This code has already been used" });
+  }
+
+  const [item, customer] = await Promise.all([
+    storage.getRewardItem(used.itemId),
+    storage.getUser(used.userId),
+  ]);
+  res.json({
+    message: "Voucher verified",
+    voucher: {
+      id: used.id,
+      itemId: used.itemId,
+      userId: used.userId,
+      verifiedAt: used.usedAt,
+      verifiedListingId: used.usedListingId,
+    },
+    reward: item
+      ? {
+          id: item.id,
+          title: item.title,
+          kind: item.kind,
+          discountAmount: item.discountAmount,
+        }
+      : null,
+    customer: customer
+      ? { name: customer.firstName || customer.username }
+      : null,
+  });
+}
+
+export function registerRedemptionRoutes(app: Express): void {
+  // ==========================================
+  // CUSTOMER AUTHENTICATED ROUTES
+  // ==========================================
+
+  // GET /api/redemptions/my - Deals the current customer has claimed, with their codes
+  app.get(
+    "/api/redemptions/my",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const redemptions = await storage.getDealRedemptionsByUser(
+          req.user!.userId,
+        );
+
+        const passes = await Promise.all(
+          redemptions.map(async (redemption) => {
+            const deal = await storage.getDeal(redemption.dealId);
+            return {
+              ...toRedemptionPass(redemption),
+              dealTitle: deal?.title ?? null,
+            };
+          }),
+        );
+
+        res.json({ redemptions: passes, count: passes.length });
+      } catch (error) {
+        console.error("Error fetching redemptions:", error);
+        res.status(500).json({ error: "Failed to fetch redemptions" });
+      }
+    },
+  );
+
+  // ==========================================
+  // VENDOR AUTHENTICATED ROUTES
+  // ==========================================
+
+  // POST /api/redemptions/verify - Mark a scanned or typed deal or rewards voucher code as used at the vendor's listing
+  app.post(
+    "/api/redemptions/verify",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const { token, code } = verifyRedemptionSchema.parse(req.body);
+
+        const listing = await storage.getVendorListingByUserId(
+          req.user!.userId,
+        );
+        if (!listing) {
+          return res.status(404).json({
+            error: "Create a vendor listing before verifying redemptions",
+          });
+        }
+
+        let redemption: DealRedemption | undefined;
+        if (token) {
+          let redemptionId: string;
+          try {
+            redemptionId = verifyRedemptionToken(token);
+          } catch (error) {
+            if (error instanceof jwt.TokenExpiredError) {
+              return res
+                .status(410)
+                .json({ error: "This redemption code has expired" });
+            }
+            return res.status(400).json({ error: "Invalid redemption code" });
+          }
+          redemption = await storage.getDealRedemptionById(redemptionId);
+          if (!redemption) {
+            const voucher = await storage.getRewardVoucherById(redemptionId);
+            if (voucher) return verifyVoucher(voucher, listing, req, res);
+          }
+        } else {
+          if (isCodeEntryLocked(req.user!.userId)) {
+            return res.status(429).json({
+              error:
+                "Too many incorrect codes. Scan the QR code or try again later.",
+            });
+          }
+
+          // A deal code at this truck wins over a voucher that happens to share it; the QR is never ambiguous
+          redemption = await storage.getDealRedemptionByCode(listing.id, code!);
+          if (!redemption) {
+            const voucher = await storage.getRewardVoucherByCode(
+              listing.id,
+              code!,
+            );
+            if (voucher) return verifyVoucher(voucher, listing, req, res);
+            recordCodeMiss(req.user!.userId);
+          }
+        }
+
+        if (!redemption) {
+          return res.status(404).json({ error: "Redemption code not found" });
+        }
+
+        if (redemption.vendorId !== listing.id) {
+          return res
+            .status(403)
+            .json({ error: "This code is for a deal at another vendor" });
+        }
+
+        if (redemption.verifiedAt) {
+          return res.status(409).json({
+            error: "This code has already been used",
+            verifiedAt: redemption.verifiedAt,
+          });
+        }
+
+        if (redemption.expiresAt.getTime() <= Date.now()) {
+          return res
+            .status(410)
+            .json({ error: "This redemption code has expired" });
+        }
+
+        const verified = await storage.verifyDealRedemption(
+          redemption.id,
+          req.user!.userId,
+          listing.id,
+        );
+        if (!verified) {
+          return res
+            .status(409)
+            .json({ error: "This code has already been used" });
+        }
+
+        const [deal, customer] = await Promise.all([
+          storage.getDeal(verified.dealId),
+          storage.getUser(verified.userId),
+        ]);
+
+        // Analytics and points are side records; a failure there must not undo the redemption
+        await recordAnalyticsEvents(listing, [
+          {
+            vendorId: listing.id,
+            dealId: verified.dealId,
+            type: "redemption",
+            userId: verified.userId,
+            value: deal?.discountedPrice ?? null,
+            occurredAt: verified.verifiedAt ?? new Date(),
+          },
+        ]).catch((error) =>
+          console.error("Error recording redemption event:", error),
+        );
+        await recordRedemptionReward(verified, deal, listing).catch((error) =>
+          console.error("Error awarding redemption points:", error),
+        );
+
+        res.json({
+          message: "Redemption verified",
+          redemption: {
+            id: verified.id,
+            dealId: verified.dealId,
+            userId: verified.userId,
+            verifiedAt: verified.verifiedAt,
+            verifiedListingId: verified.verifiedListingId,
+          },
+          deal: deal
+            ? {
+                id: deal.id,
+                title: deal.title,
+                originalPrice: deal.originalPrice,
+                discountedPrice: deal.discountedPrice,
+              }
+            : null,
+          customer: customer
+            ? { name: customer.firstName || customer.username }
+            : null,
+        });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error verifying redemption:", error);
+        res.status(500).json({ error: "Failed to verify redemption" });
+      }
+    },
+  );
+
+  console.log("Redemption routes registered");
+}
@@ -0,0 +1,263 @@
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import {
+  insertReviewSchema,
+  reviewReplySchema,
+  type Review,
+} from "../shared/schema";
+import { authMiddleware, requireRole } from "./auth";
+import { storage } from "./storage";
+
+const DEFAULT_PAGE_SIZE = 10;
+const MAX_PAGE_SIZE = 50;
+
+const paginationSchema = z.object({
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_PAGE_SIZE)
+    .default(DEFAULT_PAGE_SIZE),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Public review shape: the reviewer is shown by display name only
+async function toPublicReview(review: Review) {
+  const author = await storage.getUser(review.userId);
+  return {
+    id: review.id,
+    vendorId: review.vendorId,
+    rating: review.rating,
+    text: review.text,
+    photoUrls: review.photoUrls,
+    reply: review.reply,
+    repliedAt: review.repliedAt,
+    createdAt: review.createdAt,
+    author: { name: author ? author.firstName || author.username : "Customer" },
+  };
+}
+
+async function getReviewPage(vendorId: string, limit: number, offset: number) {
+  const [page, stats] = await Promise.all([
+    storage.getReviewsByVendor(vendorId, limit, offset),
+    storage.getVendorRatingStats(vendorId),
+  ]);
+
+  return {
+    reviews: await Promise.all(page.map(toPublicReview)),
+    stats,
+    limit,
+    offset,
+    hasMore: offset + page.length < stats.reviewCount,
+  };
+}
+
+export function registerReviewRoutes(app: Express): void {
+  // ==========================================
+  // PUBLIC ROUTES (No auth required)
+  // ==========================================
+
+  // GET /api/vendors/public/:id/reviews - Paginated reviews (newest first) with rating stats
+  app.get(
+    "/api/vendors/public/:id/reviews",
+    async (req: Request, res: Response) => {
+      try {
+        const { limit, offset } = paginationSchema.parse(req.query);
+
+        const vendor = await storage.getVendorListing(req.params.id);
+        if (!vendor || vendor.hiddenAt) {
+          return res.status(404).json({ error: "Vendor not found" });
+        }
+
+        res.json(await getReviewPage(vendor.id, limit, offset));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error fetching reviews:", error);
+        res.status(500).json({ error: "Failed to fetch reviews" });
+      }
+    },
+  );
+
+  // ==========================================
+  // CUSTOMER AUTHENTICATED ROUTES
+  // ==========================================
+
+  // GET /api/reviews/eligibility?vendorId= - Whether the current customer may review this vendor
+  app.get(
+    "/api/reviews/eligibility",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const vendorId =
+          typeof req.query.vendorId === "string" ? req.query.vendorId : "";
+        if (!vendorId) {
+          return res.status(400).json({ error: "vendorId is required" });
+        }
+
+        const existing = await storage.getReviewByUser(
+          vendorId,
+          req.user!.userId,
+        );
+        if (existing) {
+          return res.json({
+            canReview: false,
+            reason: "already_reviewed",
+            review: await toPublicReview(existing),
+          });
+        }
+
+        if (req.user!.role !== "customer") {
+          return res.json({ canReview: false, reason: "not_customer" });
+        }
+
+        const hasRedeemed = await storage.hasVerifiedRedemptionAtVendor(
+          req.user!.userId,
+          vendorId,
+        );
+        res.json(
+          hasRedeemed
+            ? { canReview: true }
+            : { canReview: false, reason: "no_verified_redemption" },
+        );
+      } catch (error) {
+        console.error("Error checking review eligibility:", error);
+        res.status(500).json({ error: "Failed to check review eligibility" });
+      }
+    },
+  );
+
+  // POST /api/reviews - Rate a vendor after a redemption there was verified
+  app.post(
+    "/api/reviews",
+    authMiddleware,
+    requireRole("customer"),
+    async (req: Request, res: Response) => {
+      try {
+        const data = insertReviewSchema.parse(req.body);
+
+        const vendor = await storage.getVendorListing(data.vendorId);
+        if (!vendor || vendor.hiddenAt) {
+          return res.status(404).json({ error: "Vendor not found" });
+        }
+
+        const hasRedeemed = await storage.hasVerifiedRedemptionAtVendor(
+          req.user!.userId,
+          vendor.id,
+        );
+        if (!hasRedeemed) {
+          return res.status(403).json({
+            error: "You can review a vendor after redeeming one of their deals",
+            reason: "no_verified_redemption",
+          });
+        }
+
+        const review = await storage.createReview(req.user!.userId, data);
+        if (!review) {
+          return res.status(409).json({
+            error: "You have already reviewed this vendor",
+            reason: "already_reviewed",
+          });
+        }
+
+        res.status(201).json({
+          message: "Review submitted",
+          review: await toPublicReview(review),
+          stats: await storage.getVendorRatingStats(vendor.id),
+        });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error submitting review:", error);
+        res.status(500).json({ error: "Failed to submit review" });
+      }
+    },
+  );
+
+  // ==========================================
+  // VENDOR AUTHENTICATED ROUTES
+  // ==========================================
+
+  // GET /api/vendors/listing/my/reviews - Reviews of the current vendor's listing
+  app.get(
+    "/api/vendors/listing/my/reviews",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const { limit, offset } = paginationSchema.parse(req.query);
+
+        const listing = await storage.getVendorListingByUserId(
+          req.user!.userId,
+        );
+        if (!listing) {
+          return res.status(404).json({ error: "No listing found" });
+        }
+
+        res.json(await getReviewPage(listing.id, limit, offset));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error fetching vendor reviews:", error);
+        res.status(500).json({ error: "Failed to fetch reviews" });
+      }
+    },
+  );
+
+  // POST /api/reviews/:id/reply - Vendor's single public reply to a review
+  app.post(
+    "/api/reviews/:id/reply",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const { reply } = reviewReplySchema.parse(req.body);
+
+        const review = await storage.getReview(req.params.id);
+        if (!review) {
+          return res.status(404).json({ error: "Review not found" });
+        }
+
+        const listing = await storage.getVendorListing(review.vendorId);
+        if (!listing || listing.userId !== req.user!.userId) {
+          return res
+            .status(403)
+            .json({ error: "Not authorized to reply to this review" });
+        }
+
+        const updated = await storage.setReviewReply(review.id, reply);
+        if (!updated) {
+          return res
+            .status(409)
+            .json({ error: "You have already replied to this review" });
+        }
+
+        res.json({
+          message: "Reply posted",
+          review: await toPublicReview(updated),
+        });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error replying to review:", error);
+        res.status(500).json({ error: "Failed to post reply" });
+      }
+    },
+  );
+
+  console.log("Review routes registered");
+}
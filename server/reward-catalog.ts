@@ -0,0 +1,447 @@
+import { randomInt } from "crypto";
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import {
+  insertRewardItemSchema,
+  updateRewardItemSchema,
+  type RewardItem,
+  type RewardVoucher,
+  type VendorListing,
+} from "../shared/schema";
+import { authMiddleware, requireRole, signRedemptionToken } from "./auth";
+import { storage } from "./storage";
+
+// How long a raffle winner has to claim the prize
+const RAFFLE_CLAIM_DAYS = 14;
+
+/**
+ * Whether a vendor can honor a voucher: the vendor's own items, plus
+ * platform-wide items once the vendor has opted in.
+ */
+export function canUseVoucherAt(
+  voucher: RewardVoucher,
+  listing: VendorListing,
+): boolean {
+  return voucher.vendorId
+    ? voucher.vendorId === listing.id
+    : listing.acceptsRewardVouchers;
+}
+
+// What the customer shows at the counter, like a deal redemption pass
+export function toVoucherPass(voucher: RewardVoucher) {
+  const usable = voucher.status === "active";
+  return {
+    id: voucher.id,
+    itemId: voucher.itemId,
+    vendorId: voucher.vendorId,
+    status: voucher.status,
+    // Platform vouchers are scan-only: a typed code would have to be matched against every truck's vouchers
+    code: usable && voucher.vendorId ? voucher.code : null,
+    token: usable ? signRedemptionToken(voucher.id, voucher.expiresAt) : null,
+    pointsSpent: voucher.pointsSpent,
+    expiresAt: voucher.expiresAt,
+    usedAt: voucher.usedAt,
+    createdAt: voucher.createdAt,
+  };
+}
+
+function toPublicItem(item: RewardItem, vendorName: string | null) {
+  return {
+    id: item.id,
+    vendorId: item.vendorId,
+    vendorName,
+    kind: item.kind,
+    title: item.title,
+    description: item.description,
+    pointsCost: item.pointsCost,
+    discountAmount: item.discountAmount,
+    remaining:
+      item.stock != null ? Math.max(item.stock - item.issuedCount, 0) : null,
+    voucherValidDays: item.voucherValidDays,
+    drawAt: item.drawAt,
+  };
+}
+
+function toOwnerItem(item: RewardItem) {
+  return {
+    ...toPublicItem(item, null),
+    stock: item.stock,
+    issuedCount: item.issuedCount,
+    drawnAt: item.drawnAt,
+    isActive: item.isActive,
+    createdAt: item.createdAt,
+    updatedAt: item.updatedAt,
+  };
+}
+
+async function getVendorNames(
+  vendorIds: (string | null)[],
+): Promise<Map<string, string>> {
+  const ids = Array.from(new Set(vendorIds.filter((id): id is string => !!id)));
+  const listings = await Promise.all(
+    ids.map((id) => storage.getVendorListing(id)),
+  );
+  return new Map(
+    listings.filter((l) => !!l).map((l) => [l!.id, l!.businessName]),
+  );
+}
+
+// Items that can be bought right now; expired or drawn raffles and sold-out items are hidden
+function isPurchasable(item: RewardItem, now: number): boolean {
+  if (item.stock != null && item.issuedCount >= item.stock) return false;
+  return (
+    item.kind !== "raffle" ||
+    (!item.drawnAt && !!item.drawAt && item.drawAt.getTime() > now)
+  );
+}
+
+/**
+ * Whose catalog the caller manages: admins stock platform-wide items
+ * (vendorId null), vendors stock their own listing's.
+ */
+async function getCatalogOwner(
+  req: Request,
+): Promise<{ vendorId: string | null } | undefined> {
+  if (req.user!.role === "admin") return { vendorId: null };
+  const listing = await storage.getVendorListingByUserId(req.user!.userId);
+  return listing ? { vendorId: listing.id } : undefined;
+}
+
+// Admins can manage any item, vendors only their own
+async function getManagedItem(
+  req: Request,
+  res: Response,
+): Promise<RewardItem | undefined> {
+  const [item, owner] = await Promise.all([
+    storage.getRewardItem(req.params.id),
+    getCatalogOwner(req),
+  ]);
+  if (!item) {
+    res.status(404).json({ error: "Reward not found" });
+    return undefined;
+  }
+  if (
+    !owner ||
+    (req.user!.role !== "admin" && item.vendorId !== owner.vendorId)
+  ) {
+    res.status(403).json({ error: "Not authorized to manage this reward" });
+    return undefined;
+  }
+  return item;
+}
+
+const catalogQuerySchema = z.object({
+  vendorId: z.string().min(1).optional(),
+});
+
+export function registerRewardCatalogRoutes(app: Express): void {
+  // ==========================================
+  // PUBLIC ROUTES (No auth required)
+  // ==========================================
+
+  // GET /api/rewards/catalog?vendorId= - Rewards on offer, optionally only those usable at one vendor
+  app.get("/api/rewards/catalog", async (req: Request, res: Response) => {
+    try {
+      const { vendorId } = catalogQuerySchema.parse(req.query);
+      const listing = vendorId
+        ? await storage.getVendorListing(vendorId)
+        : undefined;
+      if (vendorId && !listing) {
+        return res.status(404).json({ error: "Vendor not found" });
+      }
+
+      const now = Date.now();
+      const items = (await storage.getActiveRewardItems()).filter(
+        (item) =>
+          isPurchasable(item, now) &&
+          (!listing ||
+            (item.vendorId
+              ? item.vendorId === listing.id
+              : listing.acceptsRewardVouchers)),
+      );
+      const names = await getVendorNames(items.map((i) => i.vendorId));
+
+      res.json({
+        items: items.map((item) =>
+          toPublicItem(
+            item,
+            item.vendorId ? (names.get(item.vendorId) ?? null) : null,
+          ),
+        ),
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: error.errors,
+        });
+      }
+      console.error("Error fetching rewards catalog:", error);
+      res.status(500).json({ error: "Failed to fetch rewards catalog" });
+    }
+  });
+
+  // ==========================================
+  // CUSTOMER AUTHENTICATED ROUTES
+  // ==========================================
+
+  // POST /api/rewards/catalog/:id/redeem - Spend points on a reward (balance and stock enforced atomically)
+  app.post(
+    "/api/rewards/catalog/:id/redeem",
+    authMiddleware,
+    requireRole("customer"),
+    async (req: Request, res: Response) => {
+      try {
+        const result = await storage.purchaseReward(
+          req.params.id,
+          req.user!.userId,
+        );
+
+        switch (result.status) {
+          case "not_found":
+            return res.status(404).json({ error: "Reward not found" });
+          case "unavailable":
+            return res.status(410).json({
+              error: "This reward is no longer available",
+              reason: result.status,
+            });
+          case "sold_out":
+            return res.status(409).json({
+              error: "This reward is sold out",
+              reason: result.status,
+            });
+          case "insufficient_points":
+            return res.status(400).json({
+              error: "You don't have enough points for this reward",
+              reason: result.status,
+            });
+        }
+
+        const { item, voucher, balance } = result;
+        res.status(201).json({
+          message:
+            item.kind === "raffle"
+              ? "You're entered in the raffle"
+              : "Reward redeemed successfully",
+          voucher: {
+            ...toVoucherPass(voucher),
+            title: item.title,
+            kind: item.kind,
+          },
+          points: balance,
+        });
+      } catch (error) {
+        console.error("Error redeeming reward:", error);
+        res.status(500).json({ error: "Failed to redeem reward" });
+      }
+    },
+  );
+
+  // GET /api/rewards/vouchers/my - Vouchers and raffle entries the customer has bought
+  app.get(
+    "/api/rewards/vouchers/my",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const vouchers = await storage.getRewardVouchersByUser(
+          req.user!.userId,
+        );
+        const items = await Promise.all(
+          Array.from(new Set(vouchers.map((v) => v.itemId))).map((id) =>
+            storage.getRewardItem(id),
+          ),
+        );
+        const itemById = new Map(
+          items.filter((i) => !!i).map((i) => [i!.id, i!]),
+        );
+        const names = await getVendorNames(vouchers.map((v) => v.vendorId));
+
+        res.json({
+          vouchers: vouchers.map((voucher) => {
+            const item = itemById.get(voucher.itemId);
+            return {
+              ...toVoucherPass(voucher),
+              title: item?.title ?? null,
+              kind: item?.kind ?? null,
+              discountAmount: item?.discountAmount ?? null,
+              drawAt: item?.drawAt ?? null,
+              vendorName: voucher.vendorId
+                ? (names.get(voucher.vendorId) ?? null)
+                : null,
+            };
+          }),
+        });
+      } catch (error) {
+        console.error("Error fetching vouchers:", error);
+        res.status(500).json({ error: "Failed to fetch vouchers" });
+      }
+    },
+  );
+
+  // ==========================================
+  // VENDOR / ADMIN AUTHENTICATED ROUTES
+  // ==========================================
+
+  // GET /api/rewards/catalog/my - Items the caller stocks, including inactive ones
+  app.get(
+    "/api/rewards/catalog/my",
+    authMiddleware,
+    requireRole("vendor", "admin"),
+    async (req: Request, res: Response) => {
+      try {
+        const owner = await getCatalogOwner(req);
+        if (!owner) {
+          return res.status(404).json({ error: "No listing found" });
+        }
+
+        const items = await storage.getRewardItemsByOwner(owner.vendorId);
+        res.json({ items: items.map(toOwnerItem) });
+      } catch (error) {
+        console.error("Error fetching my rewards:", error);
+        res.status(500).json({ error: "Failed to fetch rewards" });
+      }
+    },
+  );
+
+  // POST /api/rewards/catalog - Stock a new reward
+  app.post(
+    "/api/rewards/catalog",
+    authMiddleware,
+    requireRole("vendor", "admin"),
+    async (req: Request, res: Response) => {
+      try {
+        const owner = await getCatalogOwner(req);
+        if (!owner) {
+          return res.status(404).json({ error: "No listing found" });
+        }
+
+        const data = insertRewardItemSchema.parse(req.body);
+        if (data.drawAt && data.drawAt.getTime() <= Date.now()) {
+          return res
+            .status(400)
+            .json({ error: "The draw date must be in the future" });
+        }
+
+        const item = await storage.createRewardItem({
+          ...data,
+          vendorId: owner.vendorId,
+          createdBy: req.user!.userId,
+          discountAmount: data.kind === "discount" ? data.discountAmount : null,
+          drawAt: data.kind === "raffle" ? data.drawAt : null,
+        });
+
+        res
+          .status(201)
+          .json({ message: "Reward created", item: toOwnerItem(item) });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error creating reward:", error);
+        res.status(500).json({ error: "Failed to create reward" });
+      }
+    },
+  );
+
+  // PUT /api/rewards/catalog/:id - Change a reward; vouchers already issued keep their terms
+  app.put(
+    "/api/rewards/catalog/:id",
+    authMiddleware,
+    requireRole("vendor", "admin"),
+    async (req: Request, res: Response) => {
+      try {
+        const item = await getManagedItem(req, res);
+        if (!item) return;
+
+        const updates = updateRewardItemSchema.parse(req.body);
+        if (updates.discountAmount !== undefined && item.kind !== "discount") {
+          return res
+            .status(400)
+            .json({ error: "Only discount rewards have a discount amount" });
+        }
+        if (
+          updates.drawAt !== undefined &&
+          (item.kind !== "raffle" ||
+            item.drawnAt ||
+            updates.drawAt.getTime() <= Date.now())
+        ) {
+          return res.status(400).json({
+            error: "Only upcoming raffles can be rescheduled, to a future date",
+          });
+        }
+
+        const updated = await storage.updateRewardItem(item.id, updates);
+        res.json({ message: "Reward updated", item: toOwnerItem(updated!) });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error updating reward:", error);
+        res.status(500).json({ error: "Failed to update reward" });
+      }
+    },
+  );
+
+  // POST /api/rewards/catalog/:id/draw - Pick a raffle winner at random once the draw date has passed
+  app.post(
+    "/api/rewards/catalog/:id/draw",
+    authMiddleware,
+    requireRole("vendor", "admin"),
+    async (req: Request, res: Response) => {
+      try {
+        const item = await getManagedItem(req, res);
+        if (!item) return;
+
+        if (item.kind !== "raffle") {
+          return res.status(400).json({ error: "Only raffles can be drawn" });
+        }
+        if (item.drawnAt) {
+          return res
+            .status(409)
+            .json({ error: "This raffle has already been drawn" });
+        }
+        if (!item.drawAt || item.drawAt.getTime() > Date.now()) {
+          return res
+            .status(400)
+            .json({ error: "This raffle is still taking entries" });
+        }
+
+        const entries = (await storage.getRewardVouchersByItem(item.id)).filter(
+          (v) => v.status === "entered",
+        );
+        const winner =
+          entries.length > 0 ? entries[randomInt(entries.length)] : undefined;
+        const drawn = await storage.drawRaffle(
+          item.id,
+          winner?.id ?? null,
+          new Date(Date.now() + RAFFLE_CLAIM_DAYS * 24 * 60 * 60 * 1000),
+        );
+        if (!drawn) {
+          return res
+            .status(409)
+            .json({ error: "This raffle has already been drawn" });
+        }
+
+        res.json({
+          message: winner
+            ? "Winner drawn"
+            : "The raffle closed with no entries",
+          item: toOwnerItem(drawn),
+          entries: entries.length,
+          winnerId: winner?.userId ?? null,
+        });
+      } catch (error) {
+        console.error("Error drawing raffle:", error);
+        res.status(500).json({ error: "Failed to draw raffle" });
+      }
+    },
+  );
+
+  console.log("Reward catalog routes registered");
+}
@@ -0,0 +1,467 @@
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import {
+  shareRewardSchema,
+  type Deal,
+  type DealRedemption,
+  type InsertPointsEntry,
+  type PointsEntry,
+  type VendorCheckIn,
+  type VendorListing,
+} from "../shared/schema";
+import { authMiddleware, requireRole } from "./auth";
+import { storage } from "./storage";
+import { dayOfWeek, getLocalTime } from "./hours";
+import { getChallengeBadges, recordChallengeProgress } from "./challenges";
+import {
+  computeStreaks,
+  getBadgeProgress,
+  isBadgeAvailable,
+  type ActivityEvent,
+} from "./badges";
+
+// Points per award; redemptions also earn 2 points per dollar saved
+const REDEMPTION_POINTS = 50;
+const REDEMPTION_POINTS_PER_DOLLAR = 2;
+const CHECK_IN_POINTS = 25;
+const SHARE_POINTS = 15;
+
+// Check-ins and shares aren't tied to a verified purchase, so together they
+// earn points at most this many times in any 24 hours, across all vendors
+const MAX_UNVERIFIED_AWARDS_PER_DAY = 5;
+const UNVERIFIED_REASONS = ["check_in", "share"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Level n takes n * XP_PER_LEVEL to complete; spending points doesn't lower a level
+const XP_PER_LEVEL = 1000;
+const LEVEL_TITLES = [
+  "Newcomer",
+  "Browser",
+  "Shopper",
+  "Bargain Hunter",
+  "Deal Seeker",
+  "Savings Pro",
+  "Deal Expert",
+  "Master Saver",
+  "Deal Champion",
+  "Savings Legend",
+];
+const HISTORY_SIZE = 20;
+
+export interface RewardStats {
+  dealsRedeemed: number;
+  totalSavings: number; // Dollars
+  vendorsVisited: number;
+  categoriesExplored: number;
+  currentStreak: number; // Consecutive days with a redemption, check-in or share
+  longestStreak: number;
+  lastActivityDate: string | null;
+}
+
+interface AchievementRule {
+  id: string;
+  title: string;
+  description: string;
+  target: number;
+  reward: number; // Points, awarded once through the ledger
+  progress: (stats: RewardStats) => number;
+}
+
+const ACHIEVEMENTS: AchievementRule[] = [
+  {
+    id: "welcome",
+    title: "Welcome!",
+    description: "Create your account",
+    target: 1,
+    reward: 100,
+    progress: () => 1,
+  },
+  {
+    id: "deal_streak_3",
+    title: "Hot Streak",
+    description: "Be active 3 days in a row",
+    target: 3,
+    reward: 150,
+    progress: (s) => s.longestStreak,
+  },
+  {
+    id: "savings_100",
+    title: "Smart Saver",
+    description: "Save $100 on deals",
+    target: 100,
+    reward: 200,
+    progress: (s) => s.totalSavings,
+  },
+  {
+    id: "explore_5",
+    title: "Explorer",
+    description: "Visit 5 different vendors",
+    target: 5,
+    reward: 100,
+    progress: (s) => s.vendorsVisited,
+  },
+];
+
+export function getLevel(xp: number) {
+  let level = 1;
+  let currentXP = xp;
+  while (currentXP >= XP_PER_LEVEL * level) {
+    currentXP -= XP_PER_LEVEL * level;
+    level++;
+  }
+  return {
+    level,
+    levelTitle: LEVEL_TITLES[Math.min(level - 1, LEVEL_TITLES.length - 1)],
+    currentXP,
+    xpToNextLevel: XP_PER_LEVEL * level,
+  };
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export function getSavings(deal: Deal | undefined): number {
+  return deal ? Math.max(0, deal.originalPrice - deal.discountedPrice) : 0;
+}
+
+/**
+ * A customer's verified redemptions, truck check-ins and shares, timed in
+ * each vendor's timezone.
+ */
+async function loadActivity(
+  userId: string,
+  ledger: PointsEntry[],
+): Promise<ActivityEvent[]> {
+  const [redemptions, checkIns] = await Promise.all([
+    storage.getDealRedemptionsByUser(userId),
+    storage.getCheckInsByUser(userId),
+  ]);
+  const verified = redemptions.filter((r) => r.verifiedAt);
+  const shares = ledger.filter((e) => e.reason === "share" && e.vendorId);
+  const dealIds = Array.from(new Set(verified.map((r) => r.dealId)));
+  const vendorIds = Array.from(
+    new Set([
+      ...verified.map((r) => r.vendorId),
+      ...checkIns.map((c) => c.vendorId),
+      ...shares.map((e) => e.vendorId!),
+    ]),
+  );
+  const [deals, listings] = await Promise.all([
+    Promise.all(dealIds.map((id) => storage.getDeal(id))),
+    Promise.all(vendorIds.map((id) => storage.getVendorListing(id))),
+  ]);
+  const dealById = new Map(deals.filter((d) => !!d).map((d) => [d!.id, d!]));
+  const listingById = new Map(
+    listings.filter((l) => !!l).map((l) => [l!.id, l!]),
+  );
+
+  const toEvent = (
+    type: ActivityEvent["type"],
+    vendorId: string,
+    at: Date,
+    deal?: Deal,
+    localDate?: string | null,
+  ): ActivityEvent => {
+    const listing = listingById.get(vendorId);
+    const timezone = listing?.timezone ?? "UTC";
+    const local = getLocalTime(at, timezone);
+    const date = localDate ?? local.date;
+    return {
+      type,
+      vendorId,
+      vendorCategory: listing?.category ?? null,
+      cuisine: deal?.category ?? null,
+      at,
+      timezone,
+      date,
+      hour: Math.floor(local.minutes / 60),
+      dayOfWeek: dayOfWeek(date),
+      savings: getSavings(deal),
+    };
+  };
+
+  return [
+    ...verified.map((r) =>
+      toEvent("redemption", r.vendorId, r.verifiedAt!, dealById.get(r.dealId)),
+    ),
+    ...checkIns.map((c) =>
+      toEvent("check_in", c.vendorId, c.createdAt, undefined, c.localDate),
+    ),
+    ...shares.map((e) =>
+      toEvent("share", e.vendorId!, e.createdAt, undefined, e.activityDate),
+    ),
+  ];
+}
+
+// Activity dates are local to each vendor, so "today" is taken where the customer was last active
+function getActivityToday(activity: ActivityEvent[], now: Date): string {
+  const latest = activity.reduce<ActivityEvent | null>(
+    (last, e) => (!last || e.at > last.at ? e : last),
+    null,
+  );
+  return getLocalTime(now, latest?.timezone ?? "UTC").date;
+}
+
+function buildRewardStats(
+  activity: ActivityEvent[],
+  today: string,
+): RewardStats {
+  const redemptions = activity.filter((e) => e.type === "redemption");
+  return {
+    dealsRedeemed: redemptions.length,
+    totalSavings: roundCents(
+      redemptions.reduce((sum, e) => sum + e.savings, 0),
+    ),
+    vendorsVisited: new Set(
+      activity.filter((e) => e.type !== "share").map((e) => e.vendorId),
+    ).size,
+    categoriesExplored: new Set(
+      redemptions.filter((e) => e.cuisine).map((e) => e.cuisine),
+    ).size,
+    ...computeStreaks(
+      activity.map((e) => e.date),
+      today,
+    ),
+  };
+}
+
+/**
+ * Unlock the badges and award the achievements a customer now qualifies for.
+ * Both are idempotent, so running this again after a retry is harmless.
+ */
+async function evaluateUnlocks(userId: string): Promise<void> {
+  const [ledger, unlocked, definitions] = await Promise.all([
+    storage.getPointsLedger(userId),
+    storage.getUserBadges(userId),
+    storage.getBadgeDefinitions(),
+  ]);
+  const now = new Date();
+  const activity = await loadActivity(userId, ledger);
+  const today = getActivityToday(activity, now);
+  const stats = buildRewardStats(activity, today);
+
+  const unlockedIds = new Set(unlocked.map((b) => b.badgeId));
+  await storage.createUserBadges(
+    definitions
+      .filter(
+        (d) =>
+          !unlockedIds.has(d.id) &&
+          isBadgeAvailable(d, now) &&
+          getBadgeProgress(d, activity, today) >= d.requirement,
+      )
+      .map((d) => ({ userId, badgeId: d.id })),
+  );
+
+  const awarded = new Set(
+    ledger.filter((e) => e.reason === "achievement").map((e) => e.referenceId),
+  );
+  for (const achievement of ACHIEVEMENTS) {
+    if (
+      awarded.has(achievement.id) ||
+      achievement.progress(stats) < achievement.target
+    )
+      continue;
+    await storage.createPointsEntry({
+      userId,
+      amount: achievement.reward,
+      reason: "achievement",
+      referenceId: achievement.id,
+    });
+  }
+}
+
+/**
+ * Append an award to the ledger, advance any challenges it counts toward and
+ * evaluate unlocks. Returns undefined when the same thing was already awarded.
+ */
+async function awardPoints(
+  entry: InsertPointsEntry,
+): Promise<PointsEntry | undefined> {
+  const created = await storage.createPointsEntry(entry);
+  if (!created) return created;
+
+  // A challenge failure shouldn't cost the customer the award itself
+  await recordChallengeProgress(created).catch((error) => {
+    console.error("Error recording challenge progress:", error);
+  });
+  await evaluateUnlocks(entry.userId);
+  return created;
+}
+
+// Like awardPoints, but awards nothing once the daily cap on unverified awards is reached
+async function awardUnverifiedPoints(
+  entry: InsertPointsEntry,
+): Promise<PointsEntry | undefined> {
+  const since = Date.now() - DAY_MS;
+  const recent = (await storage.getPointsLedger(entry.userId)).filter(
+    (e) =>
+      UNVERIFIED_REASONS.includes(e.reason) && e.createdAt.getTime() > since,
+  );
+  if (recent.length >= MAX_UNVERIFIED_AWARDS_PER_DAY) return undefined;
+
+  return awardPoints(entry);
+}
+
+// Pays the "welcome" achievement; anything else a customer qualifies for is
+// caught up by their next award
+export function recordSignUpReward(userId: string): Promise<void> {
+  return evaluateUnlocks(userId);
+}
+
+export function recordRedemptionReward(
+  redemption: DealRedemption,
+  deal: Deal | undefined,
+  listing: VendorListing,
+): Promise<PointsEntry | undefined> {
+  return awardPoints({
+    userId: redemption.userId,
+    amount: Math.round(
+      REDEMPTION_POINTS + getSavings(deal) * REDEMPTION_POINTS_PER_DOLLAR,
+    ),
+    reason: "redemption",
+    referenceId: redemption.id,
+    vendorId: listing.id,
+    activityDate: getLocalTime(
+      redemption.verifiedAt ?? new Date(),
+      listing.timezone,
+    ).date,
+  });
+}
+
+export function recordCheckInReward(
+  checkIn: VendorCheckIn,
+): Promise<PointsEntry | undefined> {
+  return awardUnverifiedPoints({
+    userId: checkIn.userId,
+    amount: CHECK_IN_POINTS,
+    reason: "check_in",
+    referenceId: checkIn.id,
+    vendorId: checkIn.vendorId,
+    activityDate: checkIn.localDate,
+  });
+}
+
+function toPublicEntry(entry: PointsEntry) {
+  return {
+    id: entry.id,
+    amount: entry.amount,
+    reason: entry.reason,
+    vendorId: entry.vendorId,
+    createdAt: entry.createdAt,
+  };
+}
+
+export function registerRewardRoutes(app: Express): void {
+  // ==========================================
+  // CUSTOMER AUTHENTICATED ROUTES
+  // ==========================================
+
+  // GET /api/rewards/me - Points, level, streaks, badges, achievements and recent awards
+  app.get(
+    "/api/rewards/me",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const userId = req.user!.userId;
+        const [ledger, unlocked, definitions] = await Promise.all([
+          storage.getPointsLedger(userId),
+          storage.getUserBadges(userId),
+          storage.getBadgeDefinitions(),
+        ]);
+        const [activity, challengeBadges] = await Promise.all([
+          loadActivity(userId, ledger),
+          getChallengeBadges(unlocked),
+        ]);
+        const now = new Date();
+        const today = getActivityToday(activity, now);
+        const stats = buildRewardStats(activity, today);
+        const unlockedAt = new Map(
+          unlocked.map((b) => [b.badgeId, b.unlockedAt]),
+        );
+        const awarded = new Set(
+          ledger
+            .filter((e) => e.reason === "achievement")
+            .map((e) => e.referenceId),
+        );
+        const xp = ledger
+          .filter((e) => e.amount > 0)
+          .reduce((sum, e) => sum + e.amount, 0);
+
+        res.json({
+          points: ledger.reduce((sum, e) => sum + e.amount, 0),
+          lifetimePoints: xp,
+          ...getLevel(xp),
+          stats,
+          badges: [
+            // Retired and out-of-season badges stay listed for customers who earned them
+            ...definitions
+              .filter((d) => unlockedAt.has(d.id) || isBadgeAvailable(d, now))
+              .map((d) => ({
+                id: d.id,
+                name: d.name,
+                description: d.description,
+                icon: d.icon,
+                rarity: d.rarity,
+                requirement: d.requirement,
+                progress: Math.min(
+                  getBadgeProgress(d, activity, today),
+                  d.requirement,
+                ),
+                unlockedAt: unlockedAt.get(d.id) ?? null,
+              })),
+            ...challengeBadges,
+          ],
+          achievements: ACHIEVEMENTS.map(({ progress, ...achievement }) => ({
+            ...achievement,
+            progress: Math.min(progress(stats), achievement.target),
+            completed: awarded.has(achievement.id),
+          })),
+          history: ledger.slice(0, HISTORY_SIZE).map(toPublicEntry),
+        });
+      } catch (error) {
+        console.error("Error fetching rewards:", error);
+        res.status(500).json({ error: "Failed to fetch rewards" });
+      }
+    },
+  );
+
+  // POST /api/rewards/share - Points for sharing a vendor or deal, once per vendor per day and within the daily cap
+  app.post(
+    "/api/rewards/share",
+    authMiddleware,
+    requireRole("customer"),
+    async (req: Request, res: Response) => {
+      try {
+        const { vendorId } = shareRewardSchema.parse(req.body);
+        const listing = await storage.getVendorListing(vendorId);
+        if (!listing) {
+          return res.status(404).json({ error: "Vendor not found" });
+        }
+
+        const activityDate = getLocalTime(new Date(), listing.timezone).date;
+        const entry = await awardUnverifiedPoints({
+          userId: req.user!.userId,
+          amount: SHARE_POINTS,
+          reason: "share",
+          referenceId: `${listing.id}:${activityDate}`,
+          vendorId: listing.id,
+          activityDate,
+        });
+
+        res.json({ pointsEarned: entry?.amount ?? 0 });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error recording share:", error);
+        res.status(500).json({ error: "Failed to record share" });
+      }
+    },
+  );
+
+  console.log("Reward routes registered");
+}
@@ -1,8 +1,35 @@
 import type { Express } from "express";
 import { createServer, type Server } from "node:http";
-import { registerVoiceRoutes, registerChatRoutes, registerImageRoutes } from "./ai";
+import {
+  registerVoiceRoutes,
+  registerChatRoutes,
+  registerImageRoutes,
+} from "./ai";
 import { registerVendorListingRoutes } from "./vendor-listings";
+import { registerDealRoutes } from "./deals";
+import { registerRedemptionRoutes } from "./redemptions";
+import { registerSearchRoutes } from "./search";
+import { registerReviewRoutes } from "./reviews";
+import { registerMenuRoutes } from "./menus";
+import { registerHoursRoutes } from "./hours";
+import { registerPhotoRoutes } from "./photos";
+import {
+  registerLiveLocationRoutes,
+  attachLiveLocationSocket,
+} from "./live-locations";
+import { registerLocationHistoryRoutes } from "./location-history";
+import { registerAnalyticsRoutes } from "./analytics";
+import { registerCustomerRoutes } from "./customers";
+import { registerRewardRoutes } from "./rewards";
+import { registerBadgeRoutes } from "./badges";
+import { registerLeaderboardRoutes } from "./leaderboard";
+import { registerRewardCatalogRoutes } from "./reward-catalog";
+import { registerChallengeRoutes } from "./challenges";
+import { registerNotificationRoutes } from "./notifications";
+import { registerGeofenceRoutes } from "./geofences";
+import { registerAdminRoutes } from "./admin";
 import { registerPaymentRoutes } from "./payments";
+import { registerBoostRoutes } from "./boosts";
 import { registerAuthRoutes } from "./auth";
 
 export async function registerRoutes(app: Express): Promise<Server> {
@@ -21,11 +48,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Business logic routes
   registerVendorListingRoutes(app);
+  registerDealRoutes(app);
+  registerRedemptionRoutes(app);
+  registerSearchRoutes(app);
+  registerReviewRoutes(app);
+  registerMenuRoutes(app);
+  registerHoursRoutes(app);
+  registerPhotoRoutes(app);
+  registerLiveLocationRoutes(app);
+  registerLocationHistoryRoutes(app);
+  registerAnalyticsRoutes(app);
+  registerCustomerRoutes(app);
+  registerRewardRoutes(app);
+  registerBadgeRoutes(app);
+  registerLeaderboardRoutes(app);
+  registerRewardCatalogRoutes(app);
+  registerChallengeRoutes(app);
+  registerNotificationRoutes(app);
+  registerGeofenceRoutes(app);
+  registerAdminRoutes(app);
 
   // Payment & subscription routes (Stripe)
   registerPaymentRoutes(app);
+  registerBoostRoutes(app);
 
   const httpServer = createServer(app);
 
+  // Real-time truck locations for customer maps
+  attachLiveLocationSocket(httpServer);
+
   return httpServer;
 }
@@ -0,0 +1,385 @@
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import {
+  dietaryTagEnum,
+  type Deal,
+  type MenuItem,
+  type VendorListing,
+} from "../shared/schema";
+import { storage } from "./storage";
+import { getBoundingBox, haversineMiles } from "./geo";
+import {
+  getListingsInBounds,
+  toPublicVendor,
+  MAX_SEARCH_RADIUS_MILES,
+} from "./vendor-listings";
+import { toPublicDeal } from "./deals";
+import { getOpenStatuses } from "./hours";
+import { getActiveBoostMap, getBoostMultiplier } from "./boosts";
+
+// Deal price bands (discounted price, dollars) used by the priceRange filter
+export const PRICE_RANGES = {
+  budget: { min: 0, max: 10 },
+  moderate: { min: 10, max: 25 },
+  premium: { min: 25, max: Infinity },
+} as const;
+
+// Radius presets for spoken distances ("something within walking distance")
+export const DISTANCE_PRESETS_MILES = {
+  walking: 1,
+  nearby: 5,
+  driving: 25,
+} as const;
+
+// Field weights for ranking; a name hit outranks a description hit
+const WEIGHTS = {
+  vendorName: 5,
+  vendorCategory: 3,
+  vendorDescription: 1,
+  dealTitle: 4,
+  dealCategory: 3,
+  dealDescription: 1,
+  dealVendorName: 2,
+  menuItem: 3,
+};
+
+// Most listings scored per search; the nearest (or most recently updated) are kept
+// and the response says so, since matches among the rest are missed
+const MAX_CANDIDATES = 300;
+
+const STOP_WORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "any",
+  "at",
+  "for",
+  "find",
+  "food",
+  "i",
+  "in",
+  "is",
+  "me",
+  "near",
+  "of",
+  "on",
+  "or",
+  "place",
+  "places",
+  "show",
+  "some",
+  "the",
+  "to",
+  "want",
+  "where",
+  "with",
+]);
+
+export const searchQuerySchema = z
+  .object({
+    q: z.string().trim().max(200).default(""),
+    category: z.string().trim().max(50).optional(),
+    priceRange: z.enum(["budget", "moderate", "premium"]).optional(),
+    // Comma-separated, e.g. "Vegan,Gluten-Free"; every tag must be on an available menu item
+    dietary: z
+      .preprocess(
+        (v) =>
+          typeof v === "string"
+            ? v
+                .split(",")
+                .map((t) => t.trim())
+                .filter(Boolean)
+            : v,
+        z.array(dietaryTagEnum),
+      )
+      .optional(),
+    // Only vendors whose posted hours say they are open right now
+    openNow: z
+      .enum(["true", "false"])
+      .transform((v) => v === "true")
+      .optional(),
+    lat: z.coerce.number().min(-90).max(90).optional(),
+    lng: z.coerce.number().min(-180).max(180).optional(),
+    radiusMiles: z.coerce
+      .number()
+      .positive()
+      .max(MAX_SEARCH_RADIUS_MILES)
+      .optional(),
+    distance: z.enum(["walking", "nearby", "driving"]).optional(),
+    type: z.enum(["all", "vendors", "deals"]).default("all"),
+    limit: z.coerce.number().int().min(1).max(50).default(20),
+  })
+  .refine((q) => (q.lat === undefined) === (q.lng === undefined), {
+    message: "lat and lng must be provided together",
+  })
+  .refine(
+    (q) =>
+      q.lat !== undefined ||
+      (q.radiusMiles === undefined && q.distance === undefined),
+    {
+      message: "Distance filters require lat and lng",
+    },
+  );
+
+export type SearchParams = z.infer<typeof searchQuerySchema>;
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((t) => t.length > 1 && !STOP_WORDS.has(t));
+}
+
+// Whole-word hits score full weight, word-prefix hits ("taco" in "tacos") most of it
+function scoreField(
+  tokens: string[],
+  text: string | null | undefined,
+  weight: number,
+): number[] {
+  const words = tokenize((text ?? "").replace(/_/g, " "));
+  return tokens.map((token) => {
+    if (words.includes(token)) return weight;
+    if (words.some((w) => w.startsWith(token) || token.startsWith(w)))
+      return weight * 0.75;
+    return 0;
+  });
+}
+
+// Sum, per query token, of the best-matching field's weight
+function scoreDocument(
+  tokens: string[],
+  fields: [string | null | undefined, number][],
+): number {
+  if (tokens.length === 0) return 0;
+  const perField = fields.map(([text, weight]) =>
+    scoreField(tokens, text, weight),
+  );
+  return tokens.reduce(
+    (sum, _t, i) => sum + Math.max(...perField.map((scores) => scores[i])),
+    0,
+  );
+}
+
+function matchesCategory(
+  category: string,
+  ...values: (string | null | undefined)[]
+): boolean {
+  const wanted = category.toLowerCase().replace(/[\s-]+/g, "_");
+  return values.some(
+    (v) => v != null && v.toLowerCase().replace(/[\s-]+/g, "_") === wanted,
+  );
+}
+
+function inPriceRange(deal: Deal, range: keyof typeof PRICE_RANGES): boolean {
+  const { min, max } = PRICE_RANGES[range];
+  return deal.discountedPrice >= min && deal.discountedPrice < max;
+}
+
+function roundMiles(miles: number): number {
+  return Math.round(miles * 100) / 100;
+}
+
+/**
+ * Ranked text search over vendor listings and live deals.
+ * Results are ordered by relevance, then distance when a location is given.
+ */
+export async function runSearch(params: SearchParams) {
+  const tokens = tokenize(params.q);
+  const hasOrigin = params.lat !== undefined && params.lng !== undefined;
+  const radiusMiles =
+    params.radiusMiles ??
+    (params.distance ? DISTANCE_PRESETS_MILES[params.distance] : undefined);
+
+  let listings: VendorListing[];
+  if (hasOrigin && radiusMiles !== undefined) {
+    listings = await getListingsInBounds(
+      getBoundingBox(params.lat!, params.lng!, radiusMiles),
+    );
+  } else {
+    listings = await storage.getVendorListings();
+  }
+
+  const distances = new Map<string, number | null>();
+  for (const listing of listings) {
+    distances.set(
+      listing.id,
+      hasOrigin
+        ? haversineMiles(
+            params.lat!,
+            params.lng!,
+            listing.locationLat,
+            listing.locationLng,
+          )
+        : null,
+    );
+  }
+  if (radiusMiles !== undefined) {
+    listings = listings.filter((l) => distances.get(l.id)! <= radiusMiles);
+  }
+  const truncated = listings.length > MAX_CANDIDATES;
+  if (truncated) {
+    listings = listings
+      .sort((a, b) =>
+        hasOrigin
+          ? distances.get(a.id)! - distances.get(b.id)!
+          : b.updatedAt.getTime() - a.updatedAt.getTime(),
+      )
+      .slice(0, MAX_CANDIDATES);
+  }
+
+  const menus = new Map<string, MenuItem[]>(listings.map((l) => [l.id, []]));
+  for (const item of await storage.getMenuItemsByVendors(
+    listings.map((l) => l.id),
+  )) {
+    menus.get(item.vendorId)!.push(item);
+  }
+  if (params.dietary && params.dietary.length > 0) {
+    const tags = params.dietary;
+    listings = listings.filter((l) =>
+      tags.every((tag) =>
+        menus
+          .get(l.id)!
+          .some((item) => !item.isSoldOut && item.dietaryTags.includes(tag)),
+      ),
+    );
+  }
+  const [statuses, boosts] = await Promise.all([
+    getOpenStatuses(listings),
+    getActiveBoostMap(listings.map((l) => l.id)),
+  ]);
+  if (params.openNow) {
+    listings = listings.filter((l) => statuses.get(l.id)!.isOpen === true);
+  }
+  const listingsById = new Map(listings.map((l) => [l.id, l]));
+
+  const activeDeals = (await storage.getActiveDeals()).filter((d) => {
+    const vendor = listingsById.get(d.vendorId);
+    if (!vendor) return false;
+    if (
+      params.category &&
+      !matchesCategory(params.category, d.category, vendor.category)
+    )
+      return false;
+    if (params.priceRange && !inPriceRange(d, params.priceRange)) return false;
+    return true;
+  });
+
+  // A boost scales relevance up and distance down by the vendor's multiplier
+  type Ranked = { score: number; distanceMiles: number | null; boost: number };
+  const byRank = (a: Ranked, b: Ranked) =>
+    b.score * b.boost - a.score * a.boost ||
+    (a.distanceMiles ?? Infinity) / a.boost -
+      (b.distanceMiles ?? Infinity) / b.boost;
+
+  const deals =
+    params.type === "vendors"
+      ? []
+      : activeDeals
+          .map((deal) => {
+            const vendor = listingsById.get(deal.vendorId)!;
+            const distance = distances.get(vendor.id) ?? null;
+            const linkedItems = menus
+              .get(vendor.id)!
+              .filter((i) => deal.menuItemIds.includes(i.id))
+              .map((i) => i.name)
+              .join(" ");
+            return {
+              ...toPublicDeal(
+                deal,
+                vendor,
+                statuses.get(vendor.id),
+                boosts.get(vendor.id),
+              ),
+              score: scoreDocument(tokens, [
+                [deal.title, WEIGHTS.dealTitle],
+                [linkedItems, WEIGHTS.menuItem],
+                [deal.category, WEIGHTS.dealCategory],
+                [deal.description, WEIGHTS.dealDescription],
+                [vendor.businessName, WEIGHTS.dealVendorName],
+                [vendor.category, WEIGHTS.vendorCategory],
+              ]),
+              distanceMiles: distance !== null ? roundMiles(distance) : null,
+              boost: getBoostMultiplier(boosts.get(vendor.id)),
+            };
+          })
+          .filter((d) => tokens.length === 0 || d.score > 0)
+          .sort(byRank)
+          .slice(0, params.limit)
+          .map(({ boost: _boost, ...deal }) => deal);
+
+  // A price filter only makes sense for vendors through the deals they are running
+  const vendorsWithDeals = new Set(activeDeals.map((d) => d.vendorId));
+
+  const vendors =
+    params.type === "deals"
+      ? []
+      : listings
+          .filter(
+            (v) =>
+              !params.category || matchesCategory(params.category, v.category),
+          )
+          .filter((v) => !params.priceRange || vendorsWithDeals.has(v.id))
+          .map((vendor) => {
+            const distance = distances.get(vendor.id) ?? null;
+            // Vendors also match on the titles of their live deals
+            const dealTitles = activeDeals
+              .filter((d) => d.vendorId === vendor.id)
+              .map((d) => d.title)
+              .join(" ");
+            return {
+              ...toPublicVendor(
+                vendor,
+                statuses.get(vendor.id),
+                boosts.get(vendor.id),
+              ),
+              score: scoreDocument(tokens, [
+                [vendor.businessName, WEIGHTS.vendorName],
+                [vendor.category, WEIGHTS.vendorCategory],
+                [vendor.description, WEIGHTS.vendorDescription],
+                [dealTitles, WEIGHTS.dealVendorName],
+                [
+                  menus
+                    .get(vendor.id)!
+                    .map((i) => `${i.name} ${i.description ?? ""}`)
+                    .join(" "),
+                  WEIGHTS.menuItem,
+                ],
+              ]),
+              distanceMiles: distance !== null ? roundMiles(distance) : null,
+              boost: getBoostMultiplier(boosts.get(vendor.id)),
+            };
+          })
+          .filter((v) => tokens.length === 0 || v.score > 0)
+          .sort(byRank)
+          .slice(0, params.limit)
+          .map(({ boost: _boost, ...vendor }) => vendor);
+
+  return { vendors, deals, count: vendors.length + deals.length, truncated };
+}
+
+export function registerSearchRoutes(app: Express): void {
+  // ==========================================
+  // PUBLIC ROUTES (No auth required)
+  // ==========================================
+
+  // GET /api/search - Ranked search over vendors and live deals
+  app.get("/api/search", async (req: Request, res: Response) => {
+    try {
+      const params = searchQuerySchema.parse(req.query);
+      const results = await runSearch(params);
+
+      res.json({ query: params.q, ...results });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: error.errors,
+        });
+      }
+      console.error("Error searching:", error);
+      res.status(500).json({ error: "Failed to search" });
+    }
+  });
+
+  console.log("Search routes registered");
+}
@@ -1,7 +1,276 @@
-import { eq } from "drizzle-orm";
+import {
+  eq,
+  desc,
+  asc,
+  and,
+  or,
+  lt,
+  lte,
+  gt,
+  gte,
+  isNull,
+  isNotNull,
+  inArray,
+  ilike,
+  sql,
+} from "drizzle-orm";
 import { getDb, schema, isDbAvailable } from "./db";
-import { type User, type InsertUser, users } from "@shared/schema";
-import { randomUUID } from "crypto";
+import {
+  type User,
+  type InsertUser,
+  type UserRole,
+  users,
+  type VendorListing,
+  type InsertVendorListing,
+  vendorListings,
+  type VendorHours,
+  type VendorShift,
+  vendorHours,
+  type VendorSpecialHours,
+  type InsertVendorSpecialHours,
+  vendorSpecialHours,
+  type Subscription,
+  type InsertSubscription,
+  subscriptions,
+  type PaymentHistory,
+  type InsertPaymentHistory,
+  paymentHistory,
+  type Deal,
+  type InsertDeal,
+  deals,
+  type DealRedemption,
+  dealRedemptions,
+  type Review,
+  type InsertReview,
+  type VendorRatingStats,
+  reviews,
+  type MenuSection,
+  type InsertMenuSection,
+  menuSections,
+  type MenuItem,
+  type InsertMenuItem,
+  menuItems,
+  type Photo,
+  type InsertPhoto,
+  type PhotoOwnerType,
+  photos,
+  type LocationSession,
+  type InsertLocationSession,
+  locationSessions,
+  type Boost,
+  type InsertBoost,
+  boosts,
+  type InsertAnalyticsEvent,
+  analyticsEvents,
+  type AnalyticsPeriod,
+  type AnalyticsRollup,
+  type InsertAnalyticsRollup,
+  analyticsRollups,
+  type VendorCheckIn,
+  type InsertVendorCheckIn,
+  vendorCheckIns,
+  type PointsEntry,
+  type InsertPointsEntry,
+  pointsLedger,
+  type UserBadge,
+  type InsertUserBadge,
+  userBadges,
+  type BadgeDefinition,
+  type InsertBadgeDefinition,
+  badgeDefinitions,
+  type RewardItem,
+  type InsertRewardItem,
+  rewardItems,
+  type RewardVoucher,
+  rewardVouchers,
+  type Challenge,
+  type InsertChallenge,
+  challenges,
+  type ChallengeProgress,
+  type InsertChallengeProgress,
+  challengeProgress,
+  type PushToken,
+  type InsertPushToken,
+  pushTokens,
+  type NotificationSubscription,
+  type InsertNotificationSubscription,
+  type NotificationSubscriptionKind,
+  notificationSubscriptions,
+  type Notification,
+  type InsertNotification,
+  notifications,
+  type NotificationPreferences,
+  type UpdateNotificationPreferences,
+  notificationPreferences,
+  type GeofenceZone,
+  type InsertGeofenceZone,
+  geofenceZones,
+  type ContentReport,
+  type InsertContentReport,
+  type ReportStatus,
+  type ReportTargetType,
+  contentReports,
+  type AdminAuditEntry,
+  type InsertAdminAuditEntry,
+  adminAuditLog,
+} from "@shared/schema";
+import { randomUUID, randomInt } from "crypto";
+import type { GeoBounds } from "./geo";
+
+// Outcome of an attempt to redeem a deal
+export type RedeemDealResult =
+  | { status: "redeemed"; deal: Deal; redemption: DealRedemption }
+  | { status: "not_found" | "expired" | "sold_out" | "already_redeemed" };
+
+/**
+ * Check whether a deal can be redeemed right now (ignores per-user limits).
+ */
+function getDealUnavailableReason(
+  deal: Deal | undefined,
+): "not_found" | "expired" | "sold_out" | null {
+  if (!deal) return "not_found";
+
+  const now = Date.now();
+  // A deal an admin hid is treated as over, whatever its dates say
+  if (
+    !deal.isActive ||
+    deal.hiddenAt ||
+    deal.startDate.getTime() > now ||
+    deal.endDate.getTime() <= now
+  ) {
+    return "expired";
+  }
+  if (
+    deal.maxRedemptions != null &&
+    deal.currentRedemptions >= deal.maxRedemptions
+  ) {
+    return "sold_out";
+  }
+  return null;
+}
+
+// Outcome of an attempt to spend points on a catalog item
+export type PurchaseRewardResult =
+  | {
+      status: "purchased";
+      item: RewardItem;
+      voucher: RewardVoucher;
+      balance: number;
+    }
+  | {
+      status: "not_found" | "unavailable" | "sold_out" | "insufficient_points";
+    };
+
+/**
+ * Check whether a catalog item can be bought right now. Raffles stop taking
+ * entries at their draw date.
+ */
+function getRewardItemUnavailableReason(
+  item: RewardItem | undefined,
+): "not_found" | "unavailable" | "sold_out" | null {
+  if (!item) return "not_found";
+  if (!item.isActive) return "unavailable";
+  if (
+    item.kind === "raffle" &&
+    (item.drawnAt || !item.drawAt || item.drawAt.getTime() <= Date.now())
+  ) {
+    return "unavailable";
+  }
+  if (item.stock != null && item.issuedCount >= item.stock) {
+    return "sold_out";
+  }
+  return null;
+}
+
+// Raffle entries are held until the draw; everything else can be used straight away
+function newVoucherFields(item: RewardItem, now: Date) {
+  return item.kind === "raffle"
+    ? { status: "entered", expiresAt: item.drawAt! }
+    : {
+        status: "active",
+        expiresAt: new Date(
+          now.getTime() + item.voucherValidDays * 24 * 60 * 60 * 1000,
+        ),
+      };
+}
+
+/**
+ * Generate the short numeric code a vendor can type in instead of scanning.
+ */
+function generateRedemptionCode(): string {
+  return randomInt(0, 1_000_000).toString().padStart(6, "0");
+}
+
+// Collisions are rare, so a handful of fresh codes is plenty before giving up
+const MAX_CODE_ATTEMPTS = 5;
+
+type DbTransaction = Parameters<
+  Parameters<NonNullable<ReturnType<typeof getDb>>["transaction"]>[0]
+>[0];
+
+function isUniqueViolation(error: unknown, constraint: string): boolean {
+  const pgError = error as { code?: string; constraint?: string } | null;
+  return pgError?.code === "23505" && pgError.constraint === constraint;
+}
+
+/**
+ * Write a row with a freshly generated short code, retrying with a new code
+ * when it collides with an unused one. Each attempt runs in a savepoint so a
+ * collision doesn't abort the caller's transaction. After the first collision
+ * the codes of passes that expired unused are released before trying again.
+ */
+async function withUniqueCode<T>(
+  tx: DbTransaction,
+  constraint: string,
+  releaseExpiredCodes: () => Promise<unknown>,
+  write: (code: string) => Promise<T>,
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await tx.transaction(() => write(generateRedemptionCode()));
+    } catch (error) {
+      if (!isUniqueViolation(error, constraint) || attempt >= MAX_CODE_ATTEMPTS)
+        throw error;
+      if (attempt === 1) await releaseExpiredCodes();
+    }
+  }
+}
+
+// Saves a moderation change and its audit entry in one transaction; a change
+// that didn't apply returns undefined and leaves no entry
+async function withAuditEntry<T>(
+  audit: InsertAdminAuditEntry,
+  change: (tx: DbTransaction) => Promise<T | undefined>,
+): Promise<T | undefined> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db.transaction(async (tx) => {
+    const result = await change(tx);
+    if (result) {
+      await tx.insert(adminAuditLog).values(audit);
+    }
+    return result;
+  });
+}
+
+function releaseExpiredVoucherCodes(
+  tx: DbTransaction,
+  vendorId: string | null,
+) {
+  return tx
+    .update(rewardVouchers)
+    .set({ code: null })
+    .where(
+      and(
+        vendorId
+          ? eq(rewardVouchers.vendorId, vendorId)
+          : isNull(rewardVouchers.vendorId),
+        eq(rewardVouchers.status, "active"),
+        lte(rewardVouchers.expiresAt, new Date()),
+      ),
+    );
+}
 
 // Storage interface for CRUD operations
 export interface IStorage {
@@ -10,9 +279,522 @@ export interface IStorage {
   getUserByEmail(email: string): Promise<User | undefined>;
   getUserByAppleId(appleId: string): Promise<User | undefined>;
   getUserByGoogleId(googleId: string): Promise<User | undefined>;
+  getUsers(ids: string[]): Promise<User[]>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: string, updates: Partial<User>): Promise<User | undefined>;
   deleteUser(id: string): Promise<boolean>;
+
+  // Vendor listings
+  getVendorListing(id: string): Promise<VendorListing | undefined>;
+  getVendorListingByUserId(userId: string): Promise<VendorListing | undefined>;
+  /** Leaves out listings an admin hid, as do the bounds and active deal queries */
+  getVendorListings(): Promise<VendorListing[]>;
+  getVendorListingsByTier(tier: string): Promise<VendorListing[]>;
+  /** Listings inside a lat/lng box; bounds must not cross the antimeridian */
+  getVendorListingsInBounds(bounds: GeoBounds): Promise<VendorListing[]>;
+  createVendorListing(
+    userId: string,
+    listing: InsertVendorListing,
+  ): Promise<VendorListing>;
+  updateVendorListing(
+    id: string,
+    updates: Partial<VendorListing>,
+  ): Promise<VendorListing | undefined>;
+  /**
+   * Deletes the listing with everything the vendor published on it. Customers'
+   * own history there (redemptions, check-ins, points, vouchers) is kept.
+   * Photo files are removed by the caller; this only deletes their rows.
+   */
+  deleteVendorListing(id: string): Promise<boolean>;
+
+  // Subscriptions & payment history (written by Stripe webhooks)
+  getSubscription(id: string): Promise<Subscription | undefined>;
+  getSubscriptionByStripeId(
+    stripeSubscriptionId: string,
+  ): Promise<Subscription | undefined>;
+  getSubscriptionByVendorId(
+    vendorId: string,
+  ): Promise<Subscription | undefined>;
+  upsertSubscription(subscription: InsertSubscription): Promise<Subscription>;
+  updateSubscription(
+    id: string,
+    updates: Partial<Subscription>,
+  ): Promise<Subscription | undefined>;
+  getPaymentHistory(vendorId: string): Promise<PaymentHistory[]>;
+  /** Updates the existing row for the same invoice or checkout session, so webhook redeliveries don't duplicate it */
+  upsertPaymentHistory(payment: InsertPaymentHistory): Promise<PaymentHistory>;
+
+  // Boosts (paid featured placement)
+  getBoost(id: string): Promise<Boost | undefined>;
+  getBoostByCheckoutSession(
+    stripeCheckoutSessionId: string,
+  ): Promise<Boost | undefined>;
+  /** Newest first */
+  getBoostsByVendor(vendorId: string): Promise<Boost[]>;
+  /** Paid boosts whose window contains now */
+  getActiveBoosts(vendorIds: string[], now?: Date): Promise<Boost[]>;
+  createBoost(boost: InsertBoost): Promise<Boost>;
+  updateBoost(id: string, updates: Partial<Boost>): Promise<Boost | undefined>;
+
+  // Deals
+  getDeal(id: string): Promise<Deal | undefined>;
+  getDealsByVendor(vendorId: string): Promise<Deal[]>;
+  getActiveDeals(): Promise<Deal[]>;
+  /** Marks live flash deals nobody has been told about yet; returns only the ones this call marked */
+  claimUnannouncedFlashDeals(now: Date): Promise<Deal[]>;
+  createDeal(vendorId: string, deal: InsertDeal): Promise<Deal>;
+  updateDeal(id: string, updates: Partial<Deal>): Promise<Deal | undefined>;
+  deleteDeal(id: string): Promise<boolean>;
+  /** Atomically claim one redemption slot for a customer */
+  redeemDeal(dealId: string, userId: string): Promise<RedeemDealResult>;
+  getDealRedemption(
+    dealId: string,
+    userId: string,
+  ): Promise<DealRedemption | undefined>;
+  getDealRedemptionById(id: string): Promise<DealRedemption | undefined>;
+  /** Find a vendor's unused redemption by its numeric code */
+  getDealRedemptionByCode(
+    vendorId: string,
+    code: string,
+  ): Promise<DealRedemption | undefined>;
+  getDealRedemptionsByUser(userId: string): Promise<DealRedemption[]>;
+  /** Mark a redemption as used; returns undefined if it was already used */
+  verifyDealRedemption(
+    id: string,
+    verifiedBy: string,
+    listingId: string,
+  ): Promise<DealRedemption | undefined>;
+  /** Whether the customer has had any redemption verified at this vendor */
+  hasVerifiedRedemptionAtVendor(
+    userId: string,
+    vendorId: string,
+  ): Promise<boolean>;
+  /** Every verified redemption of the vendor's deals, newest first */
+  getVerifiedRedemptionsByVendor(vendorId: string): Promise<DealRedemption[]>;
+  /** Redemptions verified at or after since (all of them when since is null), across all users */
+  getVerifiedRedemptionsSince(since: Date | null): Promise<DealRedemption[]>;
+
+  // Check-ins
+  /** Returns undefined if the customer already checked in at this vendor on that local date */
+  createCheckIn(
+    checkIn: InsertVendorCheckIn,
+  ): Promise<VendorCheckIn | undefined>;
+  getCheckInsByVendor(vendorId: string): Promise<VendorCheckIn[]>;
+  getCheckInsByUser(userId: string): Promise<VendorCheckIn[]>;
+
+  // Rewards (ledger entries are append-only, newest first)
+  /** Returns undefined if the same reason and reference were already awarded to the user */
+  createPointsEntry(entry: InsertPointsEntry): Promise<PointsEntry | undefined>;
+  getPointsLedger(userId: string): Promise<PointsEntry[]>;
+  /** Entries created at or after since (all of them when since is null) and before until if given, across all users */
+  getPointsLedgerSince(
+    since: Date | null,
+    until?: Date,
+  ): Promise<PointsEntry[]>;
+  getUserBadges(userId: string): Promise<UserBadge[]>;
+  /** Returns only the badges that weren't already unlocked */
+  createUserBadges(badges: InsertUserBadge[]): Promise<UserBadge[]>;
+
+  // Badge definitions
+  /** All definitions, including inactive and seasonal ones, in display order */
+  getBadgeDefinitions(): Promise<BadgeDefinition[]>;
+  getBadgeDefinition(id: string): Promise<BadgeDefinition | undefined>;
+  /** Returns only the definitions whose id wasn't already taken */
+  createBadgeDefinitions(
+    definitions: InsertBadgeDefinition[],
+  ): Promise<BadgeDefinition[]>;
+  updateBadgeDefinition(
+    id: string,
+    updates: Partial<InsertBadgeDefinition>,
+  ): Promise<BadgeDefinition | undefined>;
+
+  // Challenges
+  createChallenge(challenge: InsertChallenge): Promise<Challenge>;
+  getChallenge(id: string): Promise<Challenge | undefined>;
+  /** Active challenges that haven't ended by the given time (running or upcoming), ending soonest first */
+  getLiveChallenges(at: Date): Promise<Challenge[]>;
+  /** A vendor's sponsored challenges, or the platform's when vendorId is null, newest first */
+  getChallengesBySponsor(vendorId: string | null): Promise<Challenge[]>;
+  updateChallenge(
+    id: string,
+    updates: Partial<InsertChallenge>,
+  ): Promise<Challenge | undefined>;
+  /** Returns undefined if this step was already counted */
+  createChallengeProgress(
+    step: InsertChallengeProgress,
+  ): Promise<ChallengeProgress | undefined>;
+  getChallengeProgressByUser(
+    userId: string,
+    challengeIds: string[],
+  ): Promise<ChallengeProgress[]>;
+
+  // Rewards catalog
+  createRewardItem(item: InsertRewardItem): Promise<RewardItem>;
+  getRewardItem(id: string): Promise<RewardItem | undefined>;
+  /** Active items from every vendor and the platform, cheapest first */
+  getActiveRewardItems(): Promise<RewardItem[]>;
+  /** A vendor's items, or the platform's when vendorId is null, newest first */
+  getRewardItemsByOwner(vendorId: string | null): Promise<RewardItem[]>;
+  updateRewardItem(
+    id: string,
+    updates: Partial<InsertRewardItem>,
+  ): Promise<RewardItem | undefined>;
+  /** Atomically deduct the item's cost from the customer's points and issue a voucher */
+  purchaseReward(itemId: string, userId: string): Promise<PurchaseRewardResult>;
+  getRewardVoucherById(id: string): Promise<RewardVoucher | undefined>;
+  /** Find an unused voucher for one vendor by its numeric code */
+  getRewardVoucherByCode(
+    vendorId: string,
+    code: string,
+  ): Promise<RewardVoucher | undefined>;
+  getRewardVouchersByUser(userId: string): Promise<RewardVoucher[]>;
+  getRewardVouchersByItem(itemId: string): Promise<RewardVoucher[]>;
+  /** Mark a voucher as used; returns undefined if it wasn't active */
+  useRewardVoucher(
+    id: string,
+    usedBy: string,
+    listingId: string,
+  ): Promise<RewardVoucher | undefined>;
+  /**
+   * Close a raffle: the winning entry becomes an active voucher valid until
+   * expiresAt and the rest are lost. Returns undefined if it was already drawn.
+   */
+  drawRaffle(
+    itemId: string,
+    winnerId: string | null,
+    expiresAt: Date,
+  ): Promise<RewardItem | undefined>;
+
+  // Reviews
+  getReview(id: string): Promise<Review | undefined>;
+  getReviewByUser(
+    vendorId: string,
+    userId: string,
+  ): Promise<Review | undefined>;
+  /** Newest first */
+  getReviewsByVendor(
+    vendorId: string,
+    limit: number,
+    offset: number,
+  ): Promise<Review[]>;
+  getVendorRatingStats(vendorId: string): Promise<VendorRatingStats>;
+  /** Returns undefined if the customer has already reviewed this vendor */
+  createReview(
+    userId: string,
+    review: InsertReview,
+  ): Promise<Review | undefined>;
+  /** Set the vendor's public reply; returns undefined if the review already has one */
+  setReviewReply(id: string, reply: string): Promise<Review | undefined>;
+
+  // Menus (ordered by position)
+  getMenuSections(vendorId: string): Promise<MenuSection[]>;
+  getMenuSection(id: string): Promise<MenuSection | undefined>;
+  createMenuSection(
+    vendorId: string,
+    section: InsertMenuSection,
+  ): Promise<MenuSection>;
+  updateMenuSection(
+    id: string,
+    updates: Partial<MenuSection>,
+  ): Promise<MenuSection | undefined>;
+  /** Deletes the section together with its items */
+  deleteMenuSection(id: string): Promise<boolean>;
+  getMenuItems(vendorId: string): Promise<MenuItem[]>;
+  /** Items of several vendors in one query, ordered by position within each vendor */
+  getMenuItemsByVendors(vendorIds: string[]): Promise<MenuItem[]>;
+  getMenuItem(id: string): Promise<MenuItem | undefined>;
+  createMenuItem(vendorId: string, item: InsertMenuItem): Promise<MenuItem>;
+  updateMenuItem(
+    id: string,
+    updates: Partial<MenuItem>,
+  ): Promise<MenuItem | undefined>;
+  deleteMenuItem(id: string): Promise<boolean>;
+
+  // Operating hours
+  getVendorHours(vendorIds: string[]): Promise<VendorHours[]>;
+  /** Replaces the vendor's whole week of shifts */
+  replaceVendorHours(
+    vendorId: string,
+    shifts: VendorShift[],
+  ): Promise<VendorHours[]>;
+  /** Closures and special hours on or after fromDate, earliest first */
+  getSpecialHours(
+    vendorIds: string[],
+    fromDate: string,
+  ): Promise<VendorSpecialHours[]>;
+  getSpecialHoursEntry(id: string): Promise<VendorSpecialHours | undefined>;
+  createSpecialHours(
+    vendorId: string,
+    entry: InsertVendorSpecialHours,
+  ): Promise<VendorSpecialHours>;
+  deleteSpecialHours(id: string): Promise<boolean>;
+
+  // Photos (ordered by position)
+  getPhotos(ownerType: PhotoOwnerType, ownerIds: string[]): Promise<Photo[]>;
+  getPhoto(id: string): Promise<Photo | undefined>;
+  createPhoto(photo: InsertPhoto): Promise<Photo>;
+  /** Sets positions to match the order of photoIds; ids not owned by the owner are ignored */
+  reorderPhotos(
+    ownerType: PhotoOwnerType,
+    ownerId: string,
+    photoIds: string[],
+  ): Promise<Photo[]>;
+  deletePhoto(id: string): Promise<boolean>;
+
+  // Location sessions (go-live history, newest first)
+  getLocationSessions(
+    vendorId: string,
+    limit?: number,
+  ): Promise<LocationSession[]>;
+  getLocationSession(id: string): Promise<LocationSession | undefined>;
+  /** The vendor's session that hasn't ended yet, if any */
+  getOpenLocationSession(
+    vendorId: string,
+  ): Promise<LocationSession | undefined>;
+  createLocationSession(
+    session: InsertLocationSession,
+  ): Promise<LocationSession>;
+  updateLocationSession(
+    id: string,
+    updates: Partial<LocationSession>,
+  ): Promise<LocationSession | undefined>;
+
+  // Analytics (raw events are append-only)
+  createAnalyticsEvents(events: InsertAnalyticsEvent[]): Promise<void>;
+  /** Adds each row's count and value to its bucket, creating the bucket if needed; rows must have distinct keys */
+  incrementAnalyticsRollups(rows: InsertAnalyticsRollup[]): Promise<void>;
+  /** Buckets between fromBucket and toBucket inclusive; dealId "" reads the vendor-wide totals */
+  getAnalyticsRollups(
+    vendorId: string,
+    dealId: string,
+    period: AnalyticsPeriod,
+    fromBucket: string,
+    toBucket: string,
+  ): Promise<AnalyticsRollup[]>;
+
+  // Push tokens
+  /** Registers a device's token, moving it to this user if another account had it */
+  savePushToken(token: InsertPushToken): Promise<PushToken>;
+  getPushTokensByUsers(userIds: string[]): Promise<PushToken[]>;
+  deletePushTokens(tokens: string[]): Promise<void>;
+  /** Returns false if the user didn't have this token */
+  deleteUserPushToken(userId: string, token: string): Promise<boolean>;
+
+  // Notification subscriptions
+  getNotificationSubscriptionsByUser(
+    userId: string,
+  ): Promise<NotificationSubscription[]>;
+  /** Returns undefined if the user was already subscribed */
+  createNotificationSubscription(
+    subscription: InsertNotificationSubscription,
+  ): Promise<NotificationSubscription | undefined>;
+  /** Returns false if the user wasn't subscribed */
+  deleteNotificationSubscription(
+    userId: string,
+    kind: NotificationSubscriptionKind,
+    target: string,
+  ): Promise<boolean>;
+  /** Users subscribed to the vendor or, case-insensitively, to the deal category */
+  getSubscribedUserIds(
+    vendorId: string,
+    category: string | null,
+  ): Promise<string[]>;
+  /** Users with a subscription of exactly this kind and target */
+  getSubscriberIds(
+    kind: NotificationSubscriptionKind,
+    target: string,
+  ): Promise<string[]>;
+
+  // Notification inbox
+  createNotifications(
+    notifications: InsertNotification[],
+  ): Promise<Notification[]>;
+  /** Newest first */
+  getNotificationsByUser(
+    userId: string,
+    limit: number,
+  ): Promise<Notification[]>;
+  countUnreadNotifications(userId: string): Promise<number>;
+  /** Returns undefined if the user has no such notification; already-read ones keep their readAt */
+  markNotificationRead(
+    userId: string,
+    id: string,
+  ): Promise<Notification | undefined>;
+  /** Returns how many notifications were unread */
+  markAllNotificationsRead(userId: string): Promise<number>;
+  /** Pushes a user got in the categories on a local date, for the daily cap */
+  countPushedNotifications(
+    userId: string,
+    localDate: string,
+    categories: readonly string[],
+  ): Promise<number>;
+
+  // Notification preferences
+  /** Users who never saved preferences have no row */
+  getNotificationPreferencesByUsers(
+    userIds: string[],
+  ): Promise<NotificationPreferences[]>;
+  saveNotificationPreferences(
+    userId: string,
+    updates: UpdateNotificationPreferences,
+  ): Promise<NotificationPreferences>;
+
+  // Geofence zones
+  /** Ordered by city, then name */
+  getGeofenceZones(activeOnly?: boolean): Promise<GeofenceZone[]>;
+  getGeofenceZone(id: string): Promise<GeofenceZone | undefined>;
+  /** Skips zones whose id is taken; returns only the ones created */
+  createGeofenceZones(zones: InsertGeofenceZone[]): Promise<GeofenceZone[]>;
+  updateGeofenceZone(
+    id: string,
+    updates: Partial<InsertGeofenceZone>,
+  ): Promise<GeofenceZone | undefined>;
+
+  // Admin search
+  /** Matches email, username or name, case-insensitively; newest first */
+  searchUsers(
+    query: string,
+    filters: AdminUserFilters,
+    limit: number,
+  ): Promise<User[]>;
+  /** Matches business name or city, case-insensitively, hidden listings included; newest first */
+  searchVendorListings(
+    query: string,
+    filters: AdminListingFilters,
+    limit: number,
+  ): Promise<VendorListing[]>;
+
+  // Content reports
+  /** Returns undefined if the user already reported this target */
+  createContentReport(
+    report: InsertContentReport,
+  ): Promise<ContentReport | undefined>;
+  getContentReport(id: string): Promise<ContentReport | undefined>;
+  /** Oldest first, so the queue is worked in order */
+  getContentReports(
+    filters: ContentReportFilters,
+    limit: number,
+  ): Promise<ContentReport[]>;
+  /** Only open reports can be closed; returns undefined for others */
+  closeContentReport(
+    id: string,
+    status: ReportStatus,
+    resolvedBy: string,
+    resolution: string,
+    audit: InsertAdminAuditEntry,
+  ): Promise<ContentReport | undefined>;
+
+  // Moderation - each change is saved together with its audit entry, and
+  // returns undefined (logging nothing) when the target was already in that state
+  /** Also hides the user's listing and its deals */
+  suspendUser(
+    id: string,
+    reason: string,
+    audit: InsertAdminAuditEntry,
+  ): Promise<User | undefined>;
+  /** Restores what the suspension hid; anything hidden separately stays hidden */
+  unsuspendUser(
+    id: string,
+    audit: InsertAdminAuditEntry,
+  ): Promise<User | undefined>;
+  changeUserRole(
+    id: string,
+    from: UserRole,
+    to: UserRole,
+    audit: InsertAdminAuditEntry,
+  ): Promise<User | undefined>;
+  /** A reason hides the listing, null restores it */
+  setVendorListingHidden(
+    id: string,
+    reason: string | null,
+    audit: InsertAdminAuditEntry,
+  ): Promise<VendorListing | undefined>;
+  setDealHidden(
+    id: string,
+    reason: string | null,
+    audit: InsertAdminAuditEntry,
+  ): Promise<Deal | undefined>;
+  setReviewHidden(
+    id: string,
+    reason: string | null,
+    audit: InsertAdminAuditEntry,
+  ): Promise<Review | undefined>;
+  setPhotoHidden(
+    id: string,
+    reason: string | null,
+    audit: InsertAdminAuditEntry,
+  ): Promise<Photo | undefined>;
+
+  // Admin audit log
+  /** Newest first */
+  getAdminAuditLog(
+    filters: AdminAuditFilters,
+    limit: number,
+  ): Promise<AdminAuditEntry[]>;
+}
+
+export interface AdminUserFilters {
+  role?: UserRole;
+  suspended?: boolean;
+}
+
+export interface AdminListingFilters {
+  hidden?: boolean;
+}
+
+export interface ContentReportFilters {
+  status?: ReportStatus;
+  targetType?: ReportTargetType;
+}
+
+export interface AdminAuditFilters {
+  adminId?: string;
+  targetType?: string;
+  targetId?: string;
+}
+
+// Subscription kinds whose target is a listing id
+const LISTING_SUBSCRIPTION_KINDS: NotificationSubscriptionKind[] = [
+  "vendor",
+  "favorite",
+];
+
+// "%query%" for ILIKE, with the query's own wildcards matched literally
+function containsPattern(query: string): string {
+  return `%${query.replace(/[\\%_]/g, "\\$&")}%`;
+}
+
+function byPosition<T extends { position: number; createdAt: Date }>(
+  a: T,
+  b: T,
+): number {
+  return (
+    a.position - b.position || a.createdAt.getTime() - b.createdAt.getTime()
+  );
+}
+
+function buildRatingStats(
+  counts: { rating: number; count: number }[],
+): VendorRatingStats {
+  const distribution: VendorRatingStats["distribution"] = {
+    1: 0,
+    2: 0,
+    3: 0,
+    4: 0,
+    5: 0,
+  };
+  let total = 0;
+  let sum = 0;
+  for (const { rating, count } of counts) {
+    distribution[rating as 1 | 2 | 3 | 4 | 5] = count;
+    total += count;
+    sum += rating * count;
+  }
+  return {
+    averageRating: total > 0 ? Math.round((sum / total) * 10) / 10 : null,
+    reviewCount: total,
+    distribution,
+  };
 }
 
 // PostgreSQL Database Storage
@@ -21,7 +803,11 @@ export class DbStorage implements IStorage {
     const db = getDb();
     if (!db) throw new Error("Database not available");
 
-    const result = await db.select().from(users).where(eq(users.id, id)).limit(1);
+    const result = await db
+      .select()
+      .from(users)
+      .where(eq(users.id, id))
+      .limit(1);
     return result[0];
   }
 
@@ -29,7 +815,11 @@ export class DbStorage implements IStorage {
     const db = getDb();
     if (!db) throw new Error("Database not available");
 
-    const result = await db.select().from(users).where(eq(users.username, username)).limit(1);
+    const result = await db
+      .select()
+      .from(users)
+      .where(eq(users.username, username))
+      .limit(1);
     return result[0];
   }
 
@@ -37,7 +827,11 @@ export class DbStorage implements IStorage {
     const db = getDb();
     if (!db) throw new Error("Database not available");
 
-    const result = await db.select().from(users).where(eq(users.email, email.toLowerCase())).limit(1);
+    const result = await db
+      .select()
+      .from(users)
+      .where(eq(users.email, email.toLowerCase()))
+      .limit(1);
     return result[0];
   }
 
@@ -45,7 +839,11 @@ export class DbStorage implements IStorage {
     const db = getDb();
     if (!db) throw new Error("Database not available");
 
-    const result = await db.select().from(users).where(eq(users.appleId, appleId)).limit(1);
+    const result = await db
+      .select()
+      .from(users)
+      .where(eq(users.appleId, appleId))
+      .limit(1);
     return result[0];
   }
 
@@ -53,27 +851,46 @@ export class DbStorage implements IStorage {
     const db = getDb();
     if (!db) throw new Error("Database not available");
 
-    const result = await db.select().from(users).where(eq(users.googleId, googleId)).limit(1);
+    const result = await db
+      .select()
+      .from(users)
+      .where(eq(users.googleId, googleId))
+      .limit(1);
     return result[0];
   }
 
+  async getUsers(ids: string[]): Promise<User[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+    if (ids.length === 0) return [];
+
+    return db.select().from(users).where(inArray(users.id, ids));
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const db = getDb();
     if (!db) throw new Error("Database not available");
 
-    const result = await db.insert(users).values({
-      ...insertUser,
-      email: insertUser.email.toLowerCase(),
-    }).returning();
+    const result = await db
+      .insert(users)
+      .values({
+        ...insertUser,
+        email: insertUser.email.toLowerCase(),
+      })
+      .returning();
 
     return result[0];
   }
 
-  async updateUser(id: string, updates: Partial<User>): Promise<User | undefined> {
+  async updateUser(
+    id: string,
+    updates: Partial<User>,
+  ): Promise<User | undefined> {
     const db = getDb();
     if (!db) throw new Error("Database not available");
 
-    const result = await db.update(users)
+    const result = await db
+      .update(users)
       .set({ ...updates, updatedAt: new Date() })
       .where(eq(users.id, id))
       .returning();
@@ -88,84 +905,4498 @@ export class DbStorage implements IStorage {
     const result = await db.delete(users).where(eq(users.id, id)).returning();
     return result.length > 0;
   }
-}
 
-// In-Memory Storage (fallback for development without database)
-export class MemStorage implements IStorage {
-  private users: Map<string, User>;
+  // Vendor listings
 
-  constructor() {
-    this.users = new Map();
+  async getVendorListing(id: string): Promise<VendorListing | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .select()
+      .from(vendorListings)
+      .where(eq(vendorListings.id, id))
+      .limit(1);
+    return result[0];
   }
 
-  async getUser(id: string): Promise<User | undefined> {
-    return this.users.get(id);
+  async getVendorListingByUserId(
+    userId: string,
+  ): Promise<VendorListing | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .select()
+      .from(vendorListings)
+      .where(eq(vendorListings.userId, userId))
+      .limit(1);
+    return result[0];
   }
 
-  async getUserByUsername(username: string): Promise<User | undefined> {
-    return Array.from(this.users.values()).find(
-      (user) => user.username.toLowerCase() === username.toLowerCase()
-    );
+  async getVendorListings(): Promise<VendorListing[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    return db
+      .select()
+      .from(vendorListings)
+      .where(isNull(vendorListings.hiddenAt));
   }
 
-  async getUserByEmail(email: string): Promise<User | undefined> {
-    return Array.from(this.users.values()).find(
-      (user) => user.email.toLowerCase() === email.toLowerCase()
-    );
+  async getVendorListingsByTier(tier: string): Promise<VendorListing[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    return db
+      .select()
+      .from(vendorListings)
+      .where(
+        and(
+          eq(vendorListings.vendorTier, tier),
+          isNull(vendorListings.hiddenAt),
+        ),
+      );
   }
 
-  async getUserByAppleId(appleId: string): Promise<User | undefined> {
-    return Array.from(this.users.values()).find(
-      (user) => (user as any).appleId === appleId
-    );
+  async getVendorListingsInBounds(bounds: GeoBounds): Promise<VendorListing[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    return db
+      .select()
+      .from(vendorListings)
+      .where(
+        and(
+          gte(vendorListings.locationLat, bounds.south),
+          lte(vendorListings.locationLat, bounds.north),
+          gte(vendorListings.locationLng, bounds.west),
+          lte(vendorListings.locationLng, bounds.east),
+          isNull(vendorListings.hiddenAt),
+        ),
+      );
   }
 
-  async getUserByGoogleId(googleId: string): Promise<User | undefined> {
-    return Array.from(this.users.values()).find(
-      (user) => (user as any).googleId === googleId
-    );
+  async createVendorListing(
+    userId: string,
+    listing: InsertVendorListing,
+  ): Promise<VendorListing> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .insert(vendorListings)
+      .values({ ...listing, userId })
+      .returning();
+    return result[0];
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
-    const id = randomUUID();
-    const now = new Date();
-    const user: User = {
-      ...insertUser,
-      id,
-      email: insertUser.email.toLowerCase(),
-      password: insertUser.password ?? null,
-      role: insertUser.role || "customer",
-      emailVerified: false,
-      createdAt: now,
-      updatedAt: now,
-      lastLoginAt: null,
-      firstName: insertUser.firstName || null,
-      lastName: insertUser.lastName || null,
-      phone: insertUser.phone || null,
-      avatarUrl: insertUser.avatarUrl || null,
-      appleId: (insertUser as any).appleId || null,
-      googleId: (insertUser as any).googleId || null,
-      authProvider: (insertUser as any).authProvider || "email",
-    };
-    this.users.set(id, user);
-    return user;
+  async updateVendorListing(
+    id: string,
+    updates: Partial<VendorListing>,
+  ): Promise<VendorListing | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .update(vendorListings)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(vendorListings.id, id))
+      .returning();
+
+    return result[0];
   }
 
-  async updateUser(id: string, updates: Partial<User>): Promise<User | undefined> {
-    const user = this.users.get(id);
-    if (!user) return undefined;
+  async deleteVendorListing(id: string): Promise<boolean> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
 
-    const updatedUser: User = {
-      ...user,
-      ...updates,
-      updatedAt: new Date(),
-    };
-    this.users.set(id, updatedUser);
-    return updatedUser;
+    return db.transaction(async (tx) => {
+      await tx.delete(deals).where(eq(deals.vendorId, id));
+      await tx.delete(menuItems).where(eq(menuItems.vendorId, id));
+      await tx.delete(menuSections).where(eq(menuSections.vendorId, id));
+      await tx.delete(vendorHours).where(eq(vendorHours.vendorId, id));
+      await tx
+        .delete(vendorSpecialHours)
+        .where(eq(vendorSpecialHours.vendorId, id));
+      await tx.delete(photos).where(eq(photos.vendorId, id));
+      await tx.delete(reviews).where(eq(reviews.vendorId, id));
+      await tx.delete(boosts).where(eq(boosts.vendorId, id));
+      await tx
+        .delete(locationSessions)
+        .where(eq(locationSessions.vendorId, id));
+      await tx.delete(analyticsEvents).where(eq(analyticsEvents.vendorId, id));
+      await tx
+        .delete(analyticsRollups)
+        .where(eq(analyticsRollups.vendorId, id));
+      await tx
+        .delete(notificationSubscriptions)
+        .where(
+          and(
+            inArray(notificationSubscriptions.kind, LISTING_SUBSCRIPTION_KINDS),
+            eq(notificationSubscriptions.target, id),
+          ),
+        );
+
+      const result = await tx
+        .delete(vendorListings)
+        .where(eq(vendorListings.id, id))
+        .returning();
+      return result.length > 0;
+    });
   }
 
-  async deleteUser(id: string): Promise<boolean> {
-    return this.users.delete(id);
+  // Subscriptions & payment history
+
+  async getSubscription(id: string): Promise<Subscription | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .select()
+      .from(subscriptions)
+      .where(eq(subscriptions.id, id))
+      .limit(1);
+    return result[0];
+  }
+
+  async getSubscriptionByStripeId(
+    stripeSubscriptionId: string,
+  ): Promise<Subscription | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .select()
+      .from(subscriptions)
+      .where(eq(subscriptions.stripeSubscriptionId, stripeSubscriptionId))
+      .limit(1);
+    return result[0];
+  }
+
+  async getSubscriptionByVendorId(
+    vendorId: string,
+  ): Promise<Subscription | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .select()
+      .from(subscriptions)
+      .where(eq(subscriptions.vendorId, vendorId))
+      .orderBy(desc(subscriptions.createdAt))
+      .limit(1);
+    return result[0];
+  }
+
+  async upsertSubscription(
+    subscription: InsertSubscription,
+  ): Promise<Subscription> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .insert(subscriptions)
+      .values(subscription)
+      .onConflictDoUpdate({
+        target: subscriptions.stripeSubscriptionId,
+        set: { ...subscription, updatedAt: new Date() },
+      })
+      .returning();
+    return result[0];
+  }
+
+  async updateSubscription(
+    id: string,
+    updates: Partial<Subscription>,
+  ): Promise<Subscription | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .update(subscriptions)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(subscriptions.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async getPaymentHistory(vendorId: string): Promise<PaymentHistory[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    return db
+      .select()
+      .from(paymentHistory)
+      .where(eq(paymentHistory.vendorId, vendorId))
+      .orderBy(desc(paymentHistory.createdAt));
+  }
+
+  async upsertPaymentHistory(
+    payment: InsertPaymentHistory,
+  ): Promise<PaymentHistory> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    // Subscription payments are keyed on the invoice, one-time purchases on the checkout session
+    const target = payment.stripeInvoiceId
+      ? paymentHistory.stripeInvoiceId
+      : payment.stripeCheckoutSessionId
+        ? paymentHistory.stripeCheckoutSessionId
+        : null;
+    if (!target) {
+      const result = await db
+        .insert(paymentHistory)
+        .values(payment)
+        .returning();
+      return result[0];
+    }
+
+    const result = await db
+      .insert(paymentHistory)
+      .values(payment)
+      .onConflictDoUpdate({
+        target,
+        set: {
+          status: payment.status,
+          amount: payment.amount,
+          invoicePdf: payment.invoicePdf,
+        },
+      })
+      .returning();
+    return result[0];
+  }
+
+  // Boosts
+
+  async getBoost(id: string): Promise<Boost | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .select()
+      .from(boosts)
+      .where(eq(boosts.id, id))
+      .limit(1);
+    return result[0];
+  }
+
+  async getBoostByCheckoutSession(
+    stripeCheckoutSessionId: string,
+  ): Promise<Boost | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .select()
+      .from(boosts)
+      .where(eq(boosts.stripeCheckoutSessionId, stripeCheckoutSessionId))
+      .limit(1);
+    return result[0];
+  }
+
+  async getBoostsByVendor(vendorId: string): Promise<Boost[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    return db
+      .select()
+      .from(boosts)
+      .where(eq(boosts.vendorId, vendorId))
+      .orderBy(desc(boosts.createdAt));
+  }
+
+  async getActiveBoosts(
+    vendorIds: string[],
+    now = new Date(),
+  ): Promise<Boost[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+    if (vendorIds.length === 0) return [];
+
+    return db
+      .select()
+      .from(boosts)
+      .where(
+        and(
+          inArray(boosts.vendorId, vendorIds),
+          eq(boosts.status, "active"),
+          lte(boosts.startsAt, now),
+          gt(boosts.endsAt, now),
+        ),
+      );
+  }
+
+  async createBoost(boost: InsertBoost): Promise<Boost> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db.insert(boosts).values(boost).returning();
+    return result[0];
+  }
+
+  async updateBoost(
+    id: string,
+    updates: Partial<Boost>,
+  ): Promise<Boost | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .update(boosts)
+      .set(updates)
+      .where(eq(boosts.id, id))
+      .returning();
+    return result[0];
+  }
+
+  // Deals
+
+  async getDeal(id: string): Promise<Deal | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .select()
+      .from(deals)
+      .where(eq(deals.id, id))
+      .limit(1);
+    return result[0];
+  }
+
+  async getDealsByVendor(vendorId: string): Promise<Deal[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    return db
+      .select()
+      .from(deals)
+      .where(eq(deals.vendorId, vendorId))
+      .orderBy(desc(deals.createdAt));
+  }
+
+  async getActiveDeals(): Promise<Deal[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const now = new Date();
+    return db
+      .select()
+      .from(deals)
+      .where(
+        and(
+          eq(deals.isActive, true),
+          isNull(deals.hiddenAt),
+          lte(deals.startDate, now),
+          gt(deals.endDate, now),
+        ),
+      )
+      .orderBy(desc(deals.createdAt));
+  }
+
+  async claimUnannouncedFlashDeals(now: Date): Promise<Deal[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    // Conditional update so each deal is announced once, even with several server instances
+    return db
+      .update(deals)
+      .set({ flashNotifiedAt: now })
+      .where(
+        and(
+          eq(deals.isFlash, true),
+          isNull(deals.flashNotifiedAt),
+          eq(deals.isActive, true),
+          isNull(deals.hiddenAt),
+          lte(deals.startDate, now),
+          gt(deals.endDate, now),
+        ),
+      )
+      .returning();
+  }
+
+  async createDeal(vendorId: string, deal: InsertDeal): Promise<Deal> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .insert(deals)
+      .values({ ...deal, vendorId })
+      .returning();
+    return result[0];
+  }
+
+  async updateDeal(
+    id: string,
+    updates: Partial<Deal>,
+  ): Promise<Deal | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .update(deals)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(deals.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteDeal(id: string): Promise<boolean> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db.delete(deals).where(eq(deals.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async redeemDeal(dealId: string, userId: string): Promise<RedeemDealResult> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    return db.transaction(async (tx) => {
+      // Lock the deal row so concurrent redemptions are serialized
+      const [deal] = await tx
+        .select()
+        .from(deals)
+        .where(eq(deals.id, dealId))
+        .for("update");
+
+      const reason = getDealUnavailableReason(deal);
+      if (reason) return { status: reason };
+
+      // The unique (deal_id, user_id) index backs up this check
+      const [redemption] = await withUniqueCode(
+        tx,
+        "deal_redemptions_vendor_code_idx",
+        () =>
+          tx
+            .update(dealRedemptions)
+            .set({ code: null })
+            .where(
+              and(
+                eq(dealRedemptions.vendorId, deal.vendorId),
+                isNull(dealRedemptions.verifiedAt),
+                lte(dealRedemptions.expiresAt, new Date()),
+              ),
+            ),
+        (code) =>
+          tx
+            .insert(dealRedemptions)
+            .values({
+              dealId,
+              userId,
+              vendorId: deal.vendorId,
+              code,
+              expiresAt: deal.endDate,
+            })
+            .onConflictDoNothing({
+              target: [dealRedemptions.dealId, dealRedemptions.userId],
+            })
+            .returning(),
+      );
+      if (!redemption) return { status: "already_redeemed" as const };
+
+      const [updatedDeal] = await tx
+        .update(deals)
+        .set({
+          currentRedemptions: sql`${deals.currentRedemptions} + 1`,
+          updatedAt: new Date(),
+        })
+        .where(eq(deals.id, dealId))
+        .returning();
+
+      return { status: "redeemed" as const, deal: updatedDeal, redemption };
+    });
+  }
+
+  async getDealRedemption(
+    dealId: string,
+    userId: string,
+  ): Promise<DealRedemption | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .select()
+      .from(dealRedemptions)
+      .where(
+        and(
+          eq(dealRedemptions.dealId, dealId),
+          eq(dealRedemptions.userId, userId),
+        ),
+      )
+      .limit(1);
+    return result[0];
+  }
+
+  async getDealRedemptionById(id: string): Promise<DealRedemption | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .select()
+      .from(dealRedemptions)
+      .where(eq(dealRedemptions.id, id))
+      .limit(1);
+    return result[0];
+  }
+
+  async getDealRedemptionByCode(
+    vendorId: string,
+    code: string,
+  ): Promise<DealRedemption | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .select()
+      .from(dealRedemptions)
+      .where(
+        and(
+          eq(dealRedemptions.vendorId, vendorId),
+          eq(dealRedemptions.code, code),
+          isNull(dealRedemptions.verifiedAt),
+        ),
+      )
+      .limit(1);
+    return result[0];
+  }
+
+  async getDealRedemptionsByUser(userId: string): Promise<DealRedemption[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    return db
+      .select()
+      .from(dealRedemptions)
+      .where(eq(dealRedemptions.userId, userId))
+      .orderBy(desc(dealRedemptions.createdAt));
+  }
+
+  async verifyDealRedemption(
+    id: string,
+    verifiedBy: string,
+    listingId: string,
+  ): Promise<DealRedemption | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    // Conditional update so a code can only be used once, even under concurrent scans
+    const result = await db
+      .update(dealRedemptions)
+      .set({ verifiedAt: new Date(), verifiedBy, verifiedListingId: listingId })
+      .where(
+        and(eq(dealRedemptions.id, id), isNull(dealRedemptions.verifiedAt)),
+      )
+      .returning();
+    return result[0];
+  }
+
+  async hasVerifiedRedemptionAtVendor(
+    userId: string,
+    vendorId: string,
+  ): Promise<boolean> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .select({ id: dealRedemptions.id })
+      .from(dealRedemptions)
+      .where(
+        and(
+          eq(dealRedemptions.userId, userId),
+          eq(dealRedemptions.vendorId, vendorId),
+          isNotNull(dealRedemptions.verifiedAt),
+        ),
+      )
+      .limit(1);
+    return result.length > 0;
+  }
+
+  async getVerifiedRedemptionsByVendor(
+    vendorId: string,
+  ): Promise<DealRedemption[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    return db
+      .select()
+      .from(dealRedemptions)
+      .where(
+        and(
+          eq(dealRedemptions.vendorId, vendorId),
+          isNotNull(dealRedemptions.verifiedAt),
+        ),
+      )
+      .orderBy(desc(dealRedemptions.verifiedAt));
+  }
+
+  async getVerifiedRedemptionsSince(
+    since: Date | null,
+  ): Promise<DealRedemption[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    return db
+      .select()
+      .from(dealRedemptions)
+      .where(
+        since
+          ? gte(dealRedemptions.verifiedAt, since)
+          : isNotNull(dealRedemptions.verifiedAt),
+      );
+  }
+
+  async createCheckIn(
+    checkIn: InsertVendorCheckIn,
+  ): Promise<VendorCheckIn | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .insert(vendorCheckIns)
+      .values(checkIn)
+      .onConflictDoNothing({
+        target: [
+          vendorCheckIns.vendorId,
+          vendorCheckIns.userId,
+          vendorCheckIns.localDate,
+        ],
+      })
+      .returning();
+    return result[0];
+  }
+
+  async getCheckInsByVendor(vendorId: string): Promise<VendorCheckIn[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    return db
+      .select()
+      .from(vendorCheckIns)
+      .where(eq(vendorCheckIns.vendorId, vendorId))
+      .orderBy(desc(vendorCheckIns.createdAt));
+  }
+
+  async getCheckInsByUser(userId: string): Promise<VendorCheckIn[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    return db
+      .select()
+      .from(vendorCheckIns)
+      .where(eq(vendorCheckIns.userId, userId))
+      .orderBy(desc(vendorCheckIns.createdAt));
+  }
+
+  async createPointsEntry(
+    entry: InsertPointsEntry,
+  ): Promise<PointsEntry | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .insert(pointsLedger)
+      .values(entry)
+      .onConflictDoNothing({
+        target: [
+          pointsLedger.userId,
+          pointsLedger.reason,
+          pointsLedger.referenceId,
+        ],
+      })
+      .returning();
+    return result[0];
+  }
+
+  async getPointsLedger(userId: string): Promise<PointsEntry[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    return db
+      .select()
+      .from(pointsLedger)
+      .where(eq(pointsLedger.userId, userId))
+      .orderBy(desc(pointsLedger.createdAt));
+  }
+
+  async getPointsLedgerSince(
+    since: Date | null,
+    until?: Date,
+  ): Promise<PointsEntry[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    return db
+      .select()
+      .from(pointsLedger)
+      .where(
+        and(
+          since ? gte(pointsLedger.createdAt, since) : undefined,
+          until ? lt(pointsLedger.createdAt, until) : undefined,
+        ),
+      );
+  }
+
+  async getUserBadges(userId: string): Promise<UserBadge[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    return db
+      .select()
+      .from(userBadges)
+      .where(eq(userBadges.userId, userId))
+      .orderBy(asc(userBadges.unlockedAt));
+  }
+
+  async createUserBadges(badges: InsertUserBadge[]): Promise<UserBadge[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+    if (badges.length === 0) return [];
+
+    return db
+      .insert(userBadges)
+      .values(badges)
+      .onConflictDoNothing({ target: [userBadges.userId, userBadges.badgeId] })
+      .returning();
+  }
+
+  async getBadgeDefinitions(): Promise<BadgeDefinition[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    return db
+      .select()
+      .from(badgeDefinitions)
+      .orderBy(
+        asc(badgeDefinitions.sortOrder),
+        asc(badgeDefinitions.createdAt),
+      );
+  }
+
+  async getBadgeDefinition(id: string): Promise<BadgeDefinition | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .select()
+      .from(badgeDefinitions)
+      .where(eq(badgeDefinitions.id, id));
+    return result[0];
+  }
+
+  async createBadgeDefinitions(
+    definitions: InsertBadgeDefinition[],
+  ): Promise<BadgeDefinition[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+    if (definitions.length === 0) return [];
+
+    return db
+      .insert(badgeDefinitions)
+      .values(definitions)
+      .onConflictDoNothing({ target: badgeDefinitions.id })
+      .returning();
+  }
+
+  async updateBadgeDefinition(
+    id: string,
+    updates: Partial<InsertBadgeDefinition>,
+  ): Promise<BadgeDefinition | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .update(badgeDefinitions)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(badgeDefinitions.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async createChallenge(challenge: InsertChallenge): Promise<Challenge> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db.insert(challenges).values(challenge).returning();
+    return result[0];
+  }
+
+  async getChallenge(id: string): Promise<Challenge | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .select()
+      .from(challenges)
+      .where(eq(challenges.id, id))
+      .limit(1);
+    return result[0];
+  }
+
+  async getLiveChallenges(at: Date): Promise<Challenge[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    return db
+      .select()
+      .from(challenges)
+      .where(and(eq(challenges.isActive, true), gt(challenges.endsAt, at)))
+      .orderBy(asc(challenges.endsAt));
+  }
+
+  async getChallengesBySponsor(vendorId: string | null): Promise<Challenge[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    return db
+      .select()
+      .from(challenges)
+      .where(
+        vendorId
+          ? eq(challenges.sponsorVendorId, vendorId)
+          : isNull(challenges.sponsorVendorId),
+      )
+      .orderBy(desc(challenges.createdAt));
+  }
+
+  async updateChallenge(
+    id: string,
+    updates: Partial<InsertChallenge>,
+  ): Promise<Challenge | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .update(challenges)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(challenges.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async createChallengeProgress(
+    step: InsertChallengeProgress,
+  ): Promise<ChallengeProgress | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .insert(challengeProgress)
+      .values(step)
+      .onConflictDoNothing({
+        target: [
+          challengeProgress.challengeId,
+          challengeProgress.userId,
+          challengeProgress.countKey,
+        ],
+      })
+      .returning();
+    return result[0];
+  }
+
+  async getChallengeProgressByUser(
+    userId: string,
+    challengeIds: string[],
+  ): Promise<ChallengeProgress[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+    if (challengeIds.length === 0) return [];
+
+    return db
+      .select()
+      .from(challengeProgress)
+      .where(
+        and(
+          eq(challengeProgress.userId, userId),
+          inArray(challengeProgress.challengeId, challengeIds),
+        ),
+      );
+  }
+
+  async createRewardItem(item: InsertRewardItem): Promise<RewardItem> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db.insert(rewardItems).values(item).returning();
+    return result[0];
+  }
+
+  async getRewardItem(id: string): Promise<RewardItem | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .select()
+      .from(rewardItems)
+      .where(eq(rewardItems.id, id))
+      .limit(1);
+    return result[0];
+  }
+
+  async getActiveRewardItems(): Promise<RewardItem[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    return db
+      .select()
+      .from(rewardItems)
+      .where(eq(rewardItems.isActive, true))
+      .orderBy(asc(rewardItems.pointsCost));
+  }
+
+  async getRewardItemsByOwner(vendorId: string | null): Promise<RewardItem[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    return db
+      .select()
+      .from(rewardItems)
+      .where(
+        vendorId
+          ? eq(rewardItems.vendorId, vendorId)
+          : isNull(rewardItems.vendorId),
+      )
+      .orderBy(desc(rewardItems.createdAt));
+  }
+
+  async updateRewardItem(
+    id: string,
+    updates: Partial<InsertRewardItem>,
+  ): Promise<RewardItem | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .update(rewardItems)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(rewardItems.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async purchaseReward(
+    itemId: string,
+    userId: string,
+  ): Promise<PurchaseRewardResult> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    return db.transaction(async (tx) => {
+      // Lock the customer and the item so concurrent purchases can't spend the same points or stock twice
+      await tx
+        .select({ id: users.id })
+        .from(users)
+        .where(eq(users.id, userId))
+        .for("update");
+      const [item] = await tx
+        .select()
+        .from(rewardItems)
+        .where(eq(rewardItems.id, itemId))
+        .for("update");
+
+      const reason = getRewardItemUnavailableReason(item);
+      if (reason) return { status: reason };
+
+      const [{ total }] = await tx
+        .select({
+          total: sql<string>`coalesce(sum(${pointsLedger.amount}), 0)`,
+        })
+        .from(pointsLedger)
+        .where(eq(pointsLedger.userId, userId));
+      const available = Number(total);
+      if (available < item.pointsCost)
+        return { status: "insufficient_points" as const };
+
+      const [voucher] = await withUniqueCode(
+        tx,
+        "reward_vouchers_code_idx",
+        () => releaseExpiredVoucherCodes(tx, item.vendorId),
+        (code) =>
+          tx
+            .insert(rewardVouchers)
+            .values({
+              itemId,
+              userId,
+              vendorId: item.vendorId,
+              code,
+              pointsSpent: item.pointsCost,
+              ...newVoucherFields(item, new Date()),
+            })
+            .returning(),
+      );
+
+      await tx.insert(pointsLedger).values({
+        userId,
+        amount: -item.pointsCost,
+        reason: "voucher",
+        referenceId: voucher.id,
+        vendorId: item.vendorId,
+      });
+
+      const [updatedItem] = await tx
+        .update(rewardItems)
+        .set({
+          issuedCount: sql`${rewardItems.issuedCount} + 1`,
+          updatedAt: new Date(),
+        })
+        .where(eq(rewardItems.id, itemId))
+        .returning();
+
+      return {
+        status: "purchased" as const,
+        item: updatedItem,
+        voucher,
+        balance: available - item.pointsCost,
+      };
+    });
+  }
+
+  async getRewardVoucherById(id: string): Promise<RewardVoucher | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .select()
+      .from(rewardVouchers)
+      .where(eq(rewardVouchers.id, id))
+      .limit(1);
+    return result[0];
+  }
+
+  async getRewardVoucherByCode(
+    vendorId: string,
+    code: string,
+  ): Promise<RewardVoucher | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .select()
+      .from(rewardVouchers)
+      .where(
+        and(
+          eq(rewardVouchers.vendorId, vendorId),
+          eq(rewardVouchers.code, code),
+          eq(rewardVouchers.status, "active"),
+        ),
+      )
+      .limit(1);
+    return result[0];
+  }
+
+  async getRewardVouchersByUser(userId: string): Promise<RewardVoucher[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    return db
+      .select()
+      .from(rewardVouchers)
+      .where(eq(rewardVouchers.userId, userId))
+      .orderBy(desc(rewardVouchers.createdAt));
+  }
+
+  async getRewardVouchersByItem(itemId: string): Promise<RewardVoucher[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    return db
+      .select()
+      .from(rewardVouchers)
+      .where(eq(rewardVouchers.itemId, itemId));
+  }
+
+  async useRewardVoucher(
+    id: string,
+    usedBy: string,
+    listingId: string,
+  ): Promise<RewardVoucher | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    // Conditional update so a voucher can only be used once, even under concurrent scans
+    const result = await db
+      .update(rewardVouchers)
+      .set({
+        status: "used",
+        usedAt: new Date(),
+        usedBy,
+        usedListingId: listingId,
+      })
+      .where(
+        and(eq(rewardVouchers.id, id), eq(rewardVouchers.status, "active")),
+      )
+      .returning();
+    return result[0];
+  }
+
+  async drawRaffle(
+    itemId: string,
+    winnerId: string | null,
+    expiresAt: Date,
+  ): Promise<RewardItem | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    return db.transaction(async (tx) => {
+      const [item] = await tx
+        .update(rewardItems)
+        .set({ drawnAt: new Date(), isActive: false, updatedAt: new Date() })
+        .where(and(eq(rewardItems.id, itemId), isNull(rewardItems.drawnAt)))
+        .returning();
+      if (!item) return undefined;
+
+      await tx
+        .update(rewardVouchers)
+        .set({ status: "lost" })
+        .where(
+          and(
+            eq(rewardVouchers.itemId, itemId),
+            eq(rewardVouchers.status, "entered"),
+            ...(winnerId ? [sql`${rewardVouchers.id} <> ${winnerId}`] : []),
+          ),
+        );
+      if (winnerId) {
+        await withUniqueCode(
+          tx,
+          "reward_vouchers_code_idx",
+          () => releaseExpiredVoucherCodes(tx, item.vendorId),
+          (code) =>
+            tx
+              .update(rewardVouchers)
+              .set({ status: "active", code, expiresAt })
+              .where(eq(rewardVouchers.id, winnerId)),
+        );
+      }
+      return item;
+    });
+  }
+
+  async getReview(id: string): Promise<Review | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .select()
+      .from(reviews)
+      .where(eq(reviews.id, id))
+      .limit(1);
+    return result[0];
+  }
+
+  async getReviewByUser(
+    vendorId: string,
+    userId: string,
+  ): Promise<Review | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .select()
+      .from(reviews)
+      .where(and(eq(reviews.vendorId, vendorId), eq(reviews.userId, userId)))
+      .limit(1);
+    return result[0];
+  }
+
+  async getReviewsByVendor(
+    vendorId: string,
+    limit: number,
+    offset: number,
+  ): Promise<Review[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    return db
+      .select()
+      .from(reviews)
+      .where(and(eq(reviews.vendorId, vendorId), isNull(reviews.hiddenAt)))
+      .orderBy(desc(reviews.createdAt), desc(reviews.id))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  async getVendorRatingStats(vendorId: string): Promise<VendorRatingStats> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const counts = await db
+      .select({ rating: reviews.rating, count: sql<number>`count(*)::int` })
+      .from(reviews)
+      .where(and(eq(reviews.vendorId, vendorId), isNull(reviews.hiddenAt)))
+      .groupBy(reviews.rating);
+    return buildRatingStats(counts);
+  }
+
+  async createReview(
+    userId: string,
+    review: InsertReview,
+  ): Promise<Review | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .insert(reviews)
+      .values({ ...review, userId })
+      .onConflictDoNothing({ target: [reviews.vendorId, reviews.userId] })
+      .returning();
+    return result[0];
+  }
+
+  async setReviewReply(id: string, reply: string): Promise<Review | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    // Conditional update so a review can only ever get one reply
+    const now = new Date();
+    const result = await db
+      .update(reviews)
+      .set({ reply, repliedAt: now, updatedAt: now })
+      .where(and(eq(reviews.id, id), isNull(reviews.repliedAt)))
+      .returning();
+    return result[0];
+  }
+
+  async getMenuSections(vendorId: string): Promise<MenuSection[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    return db
+      .select()
+      .from(menuSections)
+      .where(eq(menuSections.vendorId, vendorId))
+      .orderBy(asc(menuSections.position), asc(menuSections.createdAt));
+  }
+
+  async getMenuSection(id: string): Promise<MenuSection | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .select()
+      .from(menuSections)
+      .where(eq(menuSections.id, id))
+      .limit(1);
+    return result[0];
+  }
+
+  async createMenuSection(
+    vendorId: string,
+    section: InsertMenuSection,
+  ): Promise<MenuSection> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .insert(menuSections)
+      .values({ ...section, vendorId })
+      .returning();
+    return result[0];
+  }
+
+  async updateMenuSection(
+    id: string,
+    updates: Partial<MenuSection>,
+  ): Promise<MenuSection | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .update(menuSections)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(menuSections.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteMenuSection(id: string): Promise<boolean> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    return db.transaction(async (tx) => {
+      await tx.delete(menuItems).where(eq(menuItems.sectionId, id));
+      const result = await tx
+        .delete(menuSections)
+        .where(eq(menuSections.id, id))
+        .returning();
+      return result.length > 0;
+    });
+  }
+
+  async getMenuItems(vendorId: string): Promise<MenuItem[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    return db
+      .select()
+      .from(menuItems)
+      .where(eq(menuItems.vendorId, vendorId))
+      .orderBy(asc(menuItems.position), asc(menuItems.createdAt));
+  }
+
+  async getMenuItemsByVendors(vendorIds: string[]): Promise<MenuItem[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+    if (vendorIds.length === 0) return [];
+
+    return db
+      .select()
+      .from(menuItems)
+      .where(inArray(menuItems.vendorId, vendorIds))
+      .orderBy(asc(menuItems.position), asc(menuItems.createdAt));
+  }
+
+  async getMenuItem(id: string): Promise<MenuItem | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .select()
+      .from(menuItems)
+      .where(eq(menuItems.id, id))
+      .limit(1);
+    return result[0];
+  }
+
+  async createMenuItem(
+    vendorId: string,
+    item: InsertMenuItem,
+  ): Promise<MenuItem> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .insert(menuItems)
+      .values({ ...item, vendorId })
+      .returning();
+    return result[0];
+  }
+
+  async updateMenuItem(
+    id: string,
+    updates: Partial<MenuItem>,
+  ): Promise<MenuItem | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .update(menuItems)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(menuItems.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteMenuItem(id: string): Promise<boolean> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .delete(menuItems)
+      .where(eq(menuItems.id, id))
+      .returning();
+    return result.length > 0;
+  }
+
+  async getVendorHours(vendorIds: string[]): Promise<VendorHours[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+    if (vendorIds.length === 0) return [];
+
+    return db
+      .select()
+      .from(vendorHours)
+      .where(inArray(vendorHours.vendorId, vendorIds))
+      .orderBy(asc(vendorHours.dayOfWeek), asc(vendorHours.opensAt));
+  }
+
+  async replaceVendorHours(
+    vendorId: string,
+    shifts: VendorShift[],
+  ): Promise<VendorHours[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    await db.transaction(async (tx) => {
+      await tx.delete(vendorHours).where(eq(vendorHours.vendorId, vendorId));
+      if (shifts.length > 0) {
+        await tx
+          .insert(vendorHours)
+          .values(shifts.map((shift) => ({ ...shift, vendorId })));
+      }
+    });
+    return this.getVendorHours([vendorId]);
+  }
+
+  async getSpecialHours(
+    vendorIds: string[],
+    fromDate: string,
+  ): Promise<VendorSpecialHours[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+    if (vendorIds.length === 0) return [];
+
+    return db
+      .select()
+      .from(vendorSpecialHours)
+      .where(
+        and(
+          inArray(vendorSpecialHours.vendorId, vendorIds),
+          gte(vendorSpecialHours.date, fromDate),
+        ),
+      )
+      .orderBy(asc(vendorSpecialHours.date), asc(vendorSpecialHours.opensAt));
+  }
+
+  async getSpecialHoursEntry(
+    id: string,
+  ): Promise<VendorSpecialHours | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .select()
+      .from(vendorSpecialHours)
+      .where(eq(vendorSpecialHours.id, id))
+      .limit(1);
+    return result[0];
+  }
+
+  async createSpecialHours(
+    vendorId: string,
+    entry: InsertVendorSpecialHours,
+  ): Promise<VendorSpecialHours> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .insert(vendorSpecialHours)
+      .values({ ...entry, vendorId })
+      .returning();
+    return result[0];
+  }
+
+  async deleteSpecialHours(id: string): Promise<boolean> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .delete(vendorSpecialHours)
+      .where(eq(vendorSpecialHours.id, id))
+      .returning();
+    return result.length > 0;
+  }
+  async getPhotos(
+    ownerType: PhotoOwnerType,
+    ownerIds: string[],
+  ): Promise<Photo[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+    if (ownerIds.length === 0) return [];
+
+    return db
+      .select()
+      .from(photos)
+      .where(
+        and(
+          eq(photos.ownerType, ownerType),
+          inArray(photos.ownerId, ownerIds),
+          isNull(photos.hiddenAt),
+        ),
+      )
+      .orderBy(asc(photos.position), asc(photos.createdAt));
+  }
+
+  async getPhoto(id: string): Promise<Photo | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .select()
+      .from(photos)
+      .where(eq(photos.id, id))
+      .limit(1);
+    return result[0];
+  }
+
+  async createPhoto(photo: InsertPhoto): Promise<Photo> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db.insert(photos).values(photo).returning();
+    return result[0];
+  }
+
+  async reorderPhotos(
+    ownerType: PhotoOwnerType,
+    ownerId: string,
+    photoIds: string[],
+  ): Promise<Photo[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    await db.transaction(async (tx) => {
+      for (const [position, id] of photoIds.entries()) {
+        await tx
+          .update(photos)
+          .set({ position })
+          .where(
+            and(
+              eq(photos.id, id),
+              eq(photos.ownerType, ownerType),
+              eq(photos.ownerId, ownerId),
+            ),
+          );
+      }
+    });
+    return this.getPhotos(ownerType, [ownerId]);
+  }
+
+  async deletePhoto(id: string): Promise<boolean> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db.delete(photos).where(eq(photos.id, id)).returning();
+    return result.length > 0;
+  }
+
+  // Location sessions
+
+  async getLocationSessions(
+    vendorId: string,
+    limit?: number,
+  ): Promise<LocationSession[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const query = db
+      .select()
+      .from(locationSessions)
+      .where(eq(locationSessions.vendorId, vendorId))
+      .orderBy(desc(locationSessions.startedAt));
+    return limit !== undefined ? query.limit(limit) : query;
+  }
+
+  async getLocationSession(id: string): Promise<LocationSession | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .select()
+      .from(locationSessions)
+      .where(eq(locationSessions.id, id))
+      .limit(1);
+    return result[0];
+  }
+
+  async getOpenLocationSession(
+    vendorId: string,
+  ): Promise<LocationSession | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .select()
+      .from(locationSessions)
+      .where(
+        and(
+          eq(locationSessions.vendorId, vendorId),
+          isNull(locationSessions.endedAt),
+        ),
+      )
+      .orderBy(desc(locationSessions.startedAt))
+      .limit(1);
+    return result[0];
+  }
+
+  async createLocationSession(
+    session: InsertLocationSession,
+  ): Promise<LocationSession> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .insert(locationSessions)
+      .values(session)
+      .returning();
+    return result[0];
+  }
+
+  async updateLocationSession(
+    id: string,
+    updates: Partial<LocationSession>,
+  ): Promise<LocationSession | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .update(locationSessions)
+      .set(updates)
+      .where(eq(locationSessions.id, id))
+      .returning();
+    return result[0];
+  }
+  async createAnalyticsEvents(events: InsertAnalyticsEvent[]): Promise<void> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    if (events.length === 0) return;
+    await db.insert(analyticsEvents).values(events);
+  }
+
+  async incrementAnalyticsRollups(
+    rows: InsertAnalyticsRollup[],
+  ): Promise<void> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    if (rows.length === 0) return;
+    await db
+      .insert(analyticsRollups)
+      .values(rows)
+      .onConflictDoUpdate({
+        target: [
+          analyticsRollups.vendorId,
+          analyticsRollups.dealId,
+          analyticsRollups.period,
+          analyticsRollups.bucket,
+          analyticsRollups.type,
+        ],
+        set: {
+          count: sql`${analyticsRollups.count} + excluded.count`,
+          value: sql`${analyticsRollups.value} + excluded.value`,
+        },
+      });
+  }
+
+  async getAnalyticsRollups(
+    vendorId: string,
+    dealId: string,
+    period: AnalyticsPeriod,
+    fromBucket: string,
+    toBucket: string,
+  ): Promise<AnalyticsRollup[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    return db
+      .select()
+      .from(analyticsRollups)
+      .where(
+        and(
+          eq(analyticsRollups.vendorId, vendorId),
+          eq(analyticsRollups.dealId, dealId),
+          eq(analyticsRollups.period, period),
+          gte(analyticsRollups.bucket, fromBucket),
+          lte(analyticsRollups.bucket, toBucket),
+        ),
+      )
+      .orderBy(asc(analyticsRollups.bucket));
+  }
+
+  async savePushToken(token: InsertPushToken): Promise<PushToken> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .insert(pushTokens)
+      .values(token)
+      .onConflictDoUpdate({
+        target: pushTokens.token,
+        set: {
+          userId: token.userId,
+          platform: token.platform,
+          lastSeenAt: new Date(),
+        },
+      })
+      .returning();
+    return result[0];
+  }
+
+  async getPushTokensByUsers(userIds: string[]): Promise<PushToken[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+    if (userIds.length === 0) return [];
+
+    return db
+      .select()
+      .from(pushTokens)
+      .where(inArray(pushTokens.userId, userIds));
+  }
+
+  async deletePushTokens(tokens: string[]): Promise<void> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+    if (tokens.length === 0) return;
+
+    await db.delete(pushTokens).where(inArray(pushTokens.token, tokens));
+  }
+
+  async deleteUserPushToken(userId: string, token: string): Promise<boolean> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .delete(pushTokens)
+      .where(and(eq(pushTokens.userId, userId), eq(pushTokens.token, token)))
+      .returning();
+    return result.length > 0;
+  }
+
+  async getNotificationSubscriptionsByUser(
+    userId: string,
+  ): Promise<NotificationSubscription[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    return db
+      .select()
+      .from(notificationSubscriptions)
+      .where(eq(notificationSubscriptions.userId, userId))
+      .orderBy(asc(notificationSubscriptions.createdAt));
+  }
+
+  async createNotificationSubscription(
+    subscription: InsertNotificationSubscription,
+  ): Promise<NotificationSubscription | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .insert(notificationSubscriptions)
+      .values(subscription)
+      .onConflictDoNothing({
+        target: [
+          notificationSubscriptions.userId,
+          notificationSubscriptions.kind,
+          notificationSubscriptions.target,
+        ],
+      })
+      .returning();
+    return result[0];
+  }
+
+  async deleteNotificationSubscription(
+    userId: string,
+    kind: NotificationSubscriptionKind,
+    target: string,
+  ): Promise<boolean> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .delete(notificationSubscriptions)
+      .where(
+        and(
+          eq(notificationSubscriptions.userId, userId),
+          eq(notificationSubscriptions.kind, kind),
+          eq(notificationSubscriptions.target, target),
+        ),
+      )
+      .returning();
+    return result.length > 0;
+  }
+
+  async getSubscribedUserIds(
+    vendorId: string,
+    category: string | null,
+  ): Promise<string[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const forVendor = and(
+      eq(notificationSubscriptions.kind, "vendor"),
+      eq(notificationSubscriptions.target, vendorId),
+    );
+    const rows = await db
+      .selectDistinct({ userId: notificationSubscriptions.userId })
+      .from(notificationSubscriptions)
+      .where(
+        category
+          ? or(
+              forVendor,
+              and(
+                eq(notificationSubscriptions.kind, "category"),
+                sql`lower(${notificationSubscriptions.target}) = ${category.toLowerCase()}`,
+              ),
+            )
+          : forVendor,
+      );
+    return rows.map((r) => r.userId);
+  }
+
+  async getSubscriberIds(
+    kind: NotificationSubscriptionKind,
+    target: string,
+  ): Promise<string[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const rows = await db
+      .select({ userId: notificationSubscriptions.userId })
+      .from(notificationSubscriptions)
+      .where(
+        and(
+          eq(notificationSubscriptions.kind, kind),
+          eq(notificationSubscriptions.target, target),
+        ),
+      );
+    return rows.map((r) => r.userId);
+  }
+
+  async createNotifications(
+    rows: InsertNotification[],
+  ): Promise<Notification[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+    if (rows.length === 0) return [];
+
+    return db.insert(notifications).values(rows).returning();
+  }
+
+  async getNotificationsByUser(
+    userId: string,
+    limit: number,
+  ): Promise<Notification[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    return db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt))
+      .limit(limit);
+  }
+
+  async countUnreadNotifications(userId: string): Promise<number> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(notifications)
+      .where(
+        and(eq(notifications.userId, userId), isNull(notifications.readAt)),
+      );
+    return result[0]?.count ?? 0;
+  }
+
+  async markNotificationRead(
+    userId: string,
+    id: string,
+  ): Promise<Notification | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .update(notifications)
+      .set({ readAt: sql`coalesce(${notifications.readAt}, now())` })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .returning();
+    return result[0];
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<number> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(
+        and(eq(notifications.userId, userId), isNull(notifications.readAt)),
+      )
+      .returning({ id: notifications.id });
+    return result.length;
+  }
+
+  async countPushedNotifications(
+    userId: string,
+    localDate: string,
+    categories: readonly string[],
+  ): Promise<number> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+    if (categories.length === 0) return 0;
+
+    const result = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(notifications)
+      .where(
+        and(
+          eq(notifications.userId, userId),
+          eq(notifications.localDate, localDate),
+          eq(notifications.pushed, true),
+          inArray(notifications.category, [...categories]),
+        ),
+      );
+    return result[0]?.count ?? 0;
+  }
+
+  async getNotificationPreferencesByUsers(
+    userIds: string[],
+  ): Promise<NotificationPreferences[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+    if (userIds.length === 0) return [];
+
+    return db
+      .select()
+      .from(notificationPreferences)
+      .where(inArray(notificationPreferences.userId, userIds));
+  }
+
+  async saveNotificationPreferences(
+    userId: string,
+    updates: UpdateNotificationPreferences,
+  ): Promise<NotificationPreferences> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .insert(notificationPreferences)
+      .values({ ...updates, userId })
+      .onConflictDoUpdate({
+        target: notificationPreferences.userId,
+        set: { ...updates, updatedAt: new Date() },
+      })
+      .returning();
+    return result[0];
+  }
+
+  async getGeofenceZones(activeOnly = false): Promise<GeofenceZone[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    return db
+      .select()
+      .from(geofenceZones)
+      .where(activeOnly ? eq(geofenceZones.isActive, true) : undefined)
+      .orderBy(asc(geofenceZones.city), asc(geofenceZones.name));
+  }
+
+  async getGeofenceZone(id: string): Promise<GeofenceZone | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .select()
+      .from(geofenceZones)
+      .where(eq(geofenceZones.id, id))
+      .limit(1);
+    return result[0];
+  }
+
+  async createGeofenceZones(
+    zones: InsertGeofenceZone[],
+  ): Promise<GeofenceZone[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+    if (zones.length === 0) return [];
+
+    return db
+      .insert(geofenceZones)
+      .values(zones)
+      .onConflictDoNothing({ target: geofenceZones.id })
+      .returning();
+  }
+
+  async updateGeofenceZone(
+    id: string,
+    updates: Partial<InsertGeofenceZone>,
+  ): Promise<GeofenceZone | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .update(geofenceZones)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(geofenceZones.id, id))
+      .returning();
+    return result[0];
+  }
+
+  // Admin search
+
+  async searchUsers(
+    query: string,
+    filters: AdminUserFilters,
+    limit: number,
+  ): Promise<User[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const pattern = containsPattern(query);
+    return db
+      .select()
+      .from(users)
+      .where(
+        and(
+          query
+            ? or(
+                ilike(users.email, pattern),
+                ilike(users.username, pattern),
+                ilike(users.firstName, pattern),
+                ilike(users.lastName, pattern),
+              )
+            : undefined,
+          filters.role ? eq(users.role, filters.role) : undefined,
+          filters.suspended === undefined
+            ? undefined
+            : filters.suspended
+              ? isNotNull(users.suspendedAt)
+              : isNull(users.suspendedAt),
+        ),
+      )
+      .orderBy(desc(users.createdAt))
+      .limit(limit);
+  }
+
+  async searchVendorListings(
+    query: string,
+    filters: AdminListingFilters,
+    limit: number,
+  ): Promise<VendorListing[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const pattern = containsPattern(query);
+    return db
+      .select()
+      .from(vendorListings)
+      .where(
+        and(
+          query
+            ? or(
+                ilike(vendorListings.businessName, pattern),
+                ilike(vendorListings.city, pattern),
+              )
+            : undefined,
+          filters.hidden === undefined
+            ? undefined
+            : filters.hidden
+              ? isNotNull(vendorListings.hiddenAt)
+              : isNull(vendorListings.hiddenAt),
+        ),
+      )
+      .orderBy(desc(vendorListings.createdAt))
+      .limit(limit);
+  }
+
+  // Content reports
+
+  async createContentReport(
+    report: InsertContentReport,
+  ): Promise<ContentReport | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .insert(contentReports)
+      .values(report)
+      .onConflictDoNothing({
+        target: [
+          contentReports.reporterId,
+          contentReports.targetType,
+          contentReports.targetId,
+        ],
+      })
+      .returning();
+    return result[0];
+  }
+
+  async getContentReport(id: string): Promise<ContentReport | undefined> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    const result = await db
+      .select()
+      .from(contentReports)
+      .where(eq(contentReports.id, id))
+      .limit(1);
+    return result[0];
+  }
+
+  async getContentReports(
+    filters: ContentReportFilters,
+    limit: number,
+  ): Promise<ContentReport[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    return db
+      .select()
+      .from(contentReports)
+      .where(
+        and(
+          filters.status
+            ? eq(contentReports.status, filters.status)
+            : undefined,
+          filters.targetType
+            ? eq(contentReports.targetType, filters.targetType)
+            : undefined,
+        ),
+      )
+      .orderBy(asc(contentReports.createdAt))
+      .limit(limit);
+  }
+
+  async closeContentReport(
+    id: string,
+    status: ReportStatus,
+    resolvedBy: string,
+    resolution: string,
+    audit: InsertAdminAuditEntry,
+  ): Promise<ContentReport | undefined> {
+    return withAuditEntry(audit, async (tx) => {
+      const result = await tx
+        .update(contentReports)
+        .set({ status, resolvedBy, resolution, resolvedAt: new Date() })
+        .where(
+          and(eq(contentReports.id, id), eq(contentReports.status, "open")),
+        )
+        .returning();
+      return result[0];
+    });
+  }
+
+  // Moderation
+
+  async suspendUser(
+    id: string,
+    reason: string,
+    audit: InsertAdminAuditEntry,
+  ): Promise<User | undefined> {
+    const now = new Date();
+    return withAuditEntry(audit, async (tx) => {
+      const [user] = await tx
+        .update(users)
+        .set({ suspendedAt: now, suspensionReason: reason, updatedAt: now })
+        .where(and(eq(users.id, id), isNull(users.suspendedAt)))
+        .returning();
+      if (!user) return undefined;
+
+      // Hidden at the suspension's timestamp, so lifting it restores exactly these
+      const [listing] = await tx
+        .select({ id: vendorListings.id })
+        .from(vendorListings)
+        .where(eq(vendorListings.userId, id))
+        .limit(1);
+      if (listing) {
+        await tx
+          .update(vendorListings)
+          .set({ hiddenAt: now, hiddenReason: reason, updatedAt: now })
+          .where(
+            and(
+              eq(vendorListings.id, listing.id),
+              isNull(vendorListings.hiddenAt),
+            ),
+          );
+        await tx
+          .update(deals)
+          .set({ hiddenAt: now, hiddenReason: reason, updatedAt: now })
+          .where(and(eq(deals.vendorId, listing.id), isNull(deals.hiddenAt)));
+      }
+      return user;
+    });
+  }
+
+  async unsuspendUser(
+    id: string,
+    audit: InsertAdminAuditEntry,
+  ): Promise<User | undefined> {
+    return withAuditEntry(audit, async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(users)
+        .where(eq(users.id, id))
+        .limit(1);
+      if (!current?.suspendedAt) return undefined;
+
+      const now = new Date();
+      const [user] = await tx
+        .update(users)
+        .set({ suspendedAt: null, suspensionReason: null, updatedAt: now })
+        .where(
+          and(eq(users.id, id), eq(users.suspendedAt, current.suspendedAt)),
+        )
+        .returning();
+      if (!user) return undefined;
+
+      const [listing] = await tx
+        .select({ id: vendorListings.id })
+        .from(vendorListings)
+        .where(eq(vendorListings.userId, id))
+        .limit(1);
+      if (listing) {
+        await tx
+          .update(vendorListings)
+          .set({ hiddenAt: null, hiddenReason: null, updatedAt: now })
+          .where(
+            and(
+              eq(vendorListings.id, listing.id),
+              eq(vendorListings.hiddenAt, current.suspendedAt),
+            ),
+          );
+        await tx
+          .update(deals)
+          .set({ hiddenAt: null, hiddenReason: null, updatedAt: now })
+          .where(
+            and(
+              eq(deals.vendorId, listing.id),
+              eq(deals.hiddenAt, current.suspendedAt),
+            ),
+          );
+      }
+      return user;
+    });
+  }
+
+  async changeUserRole(
+    id: string,
+    from: UserRole,
+    to: UserRole,
+    audit: InsertAdminAuditEntry,
+  ): Promise<User | undefined> {
+    return withAuditEntry(audit, async (tx) => {
+      const result = await tx
+        .update(users)
+        .set({ role: to, updatedAt: new Date() })
+        .where(and(eq(users.id, id), eq(users.role, from)))
+        .returning();
+      return result[0];
+    });
+  }
+
+  async setVendorListingHidden(
+    id: string,
+    reason: string | null,
+    audit: InsertAdminAuditEntry,
+  ): Promise<VendorListing | undefined> {
+    return withAuditEntry(audit, async (tx) => {
+      const result = await tx
+        .update(vendorListings)
+        .set({
+          hiddenAt: reason ? new Date() : null,
+          hiddenReason: reason,
+          updatedAt: new Date(),
+        })
+        .where(
+          and(
+            eq(vendorListings.id, id),
+            reason
+              ? isNull(vendorListings.hiddenAt)
+              : isNotNull(vendorListings.hiddenAt),
+          ),
+        )
+        .returning();
+      return result[0];
+    });
+  }
+
+  async setDealHidden(
+    id: string,
+    reason: string | null,
+    audit: InsertAdminAuditEntry,
+  ): Promise<Deal | undefined> {
+    return withAuditEntry(audit, async (tx) => {
+      const result = await tx
+        .update(deals)
+        .set({
+          hiddenAt: reason ? new Date() : null,
+          hiddenReason: reason,
+          updatedAt: new Date(),
+        })
+        .where(
+          and(
+            eq(deals.id, id),
+            reason ? isNull(deals.hiddenAt) : isNotNull(deals.hiddenAt),
+          ),
+        )
+        .returning();
+      return result[0];
+    });
+  }
+
+  async setReviewHidden(
+    id: string,
+    reason: string | null,
+    audit: InsertAdminAuditEntry,
+  ): Promise<Review | undefined> {
+    return withAuditEntry(audit, async (tx) => {
+      const result = await tx
+        .update(reviews)
+        .set({
+          hiddenAt: reason ? new Date() : null,
+          hiddenReason: reason,
+          updatedAt: new Date(),
+        })
+        .where(
+          and(
+            eq(reviews.id, id),
+            reason ? isNull(reviews.hiddenAt) : isNotNull(reviews.hiddenAt),
+          ),
+        )
+        .returning();
+      return result[0];
+    });
+  }
+
+  async setPhotoHidden(
+    id: string,
+    reason: string | null,
+    audit: InsertAdminAuditEntry,
+  ): Promise<Photo | undefined> {
+    return withAuditEntry(audit, async (tx) => {
+      const result = await tx
+        .update(photos)
+        .set({ hiddenAt: reason ? new Date() : null, hiddenReason: reason })
+        .where(
+          and(
+            eq(photos.id, id),
+            reason ? isNull(photos.hiddenAt) : isNotNull(photos.hiddenAt),
+          ),
+        )
+        .returning();
+      return result[0];
+    });
+  }
+
+  // Admin audit log
+
+  async getAdminAuditLog(
+    filters: AdminAuditFilters,
+    limit: number,
+  ): Promise<AdminAuditEntry[]> {
+    const db = getDb();
+    if (!db) throw new Error("Database not available");
+
+    return db
+      .select()
+      .from(adminAuditLog)
+      .where(
+        and(
+          filters.adminId
+            ? eq(adminAuditLog.adminId, filters.adminId)
+            : undefined,
+          filters.targetType
+            ? eq(adminAuditLog.targetType, filters.targetType)
+            : undefined,
+          filters.targetId
+            ? eq(adminAuditLog.targetId, filters.targetId)
+            : undefined,
+        ),
+      )
+      .orderBy(desc(adminAuditLog.createdAt))
+      .limit(limit);
+  }
+}
+
+// In-Memory Storage (fallback for development without database)
+export class MemStorage implements IStorage {
+  private users: Map<string, User>;
+  private vendorListings: Map<string, VendorListing>;
+  private subscriptions: Map<string, Subscription>;
+  private paymentHistory: Map<string, PaymentHistory>;
+  private deals: Map<string, Deal>;
+  private dealRedemptions: Map<string, DealRedemption>;
+  private reviews: Map<string, Review>;
+  private menuSections: Map<string, MenuSection>;
+  private menuItems: Map<string, MenuItem>;
+  private vendorHours: Map<string, VendorHours>;
+  private vendorSpecialHours: Map<string, VendorSpecialHours>;
+  private photos: Map<string, Photo>;
+  private locationSessions: Map<string, LocationSession>;
+  private boosts: Map<string, Boost>;
+  private analyticsEvents: InsertAnalyticsEvent[];
+  private analyticsRollups: Map<string, AnalyticsRollup>;
+  private vendorCheckIns: Map<string, VendorCheckIn>;
+  private pointsLedger: Map<string, PointsEntry>;
+  private userBadges: Map<string, UserBadge>;
+  private badgeDefinitions: Map<string, BadgeDefinition>;
+  private rewardItems: Map<string, RewardItem>;
+  private rewardVouchers: Map<string, RewardVoucher>;
+  private challenges: Map<string, Challenge>;
+  private challengeProgress: Map<string, ChallengeProgress>;
+  private pushTokens: Map<string, PushToken>;
+  private notificationSubscriptions: Map<string, NotificationSubscription>;
+  private notifications: Map<string, Notification>;
+  private notificationPreferences: Map<string, NotificationPreferences>;
+  private geofenceZones: Map<string, GeofenceZone>;
+  private contentReports: Map<string, ContentReport>;
+  private adminAuditLog: AdminAuditEntry[];
+
+  constructor() {
+    this.users = new Map();
+    this.vendorListings = new Map();
+    this.subscriptions = new Map();
+    this.paymentHistory = new Map();
+    this.deals = new Map();
+    this.dealRedemptions = new Map();
+    this.reviews = new Map();
+    this.menuSections = new Map();
+    this.menuItems = new Map();
+    this.vendorHours = new Map();
+    this.vendorSpecialHours = new Map();
+    this.photos = new Map();
+    this.locationSessions = new Map();
+    this.boosts = new Map();
+    this.analyticsEvents = [];
+    this.analyticsRollups = new Map();
+    this.vendorCheckIns = new Map();
+    this.pointsLedger = new Map();
+    this.userBadges = new Map();
+    this.badgeDefinitions = new Map();
+    this.rewardItems = new Map();
+    this.rewardVouchers = new Map();
+    this.challenges = new Map();
+    this.challengeProgress = new Map();
+    this.pushTokens = new Map();
+    this.notificationSubscriptions = new Map();
+    this.notifications = new Map();
+    this.notificationPreferences = new Map();
+    this.geofenceZones = new Map();
+    this.contentReports = new Map();
+    this.adminAuditLog = [];
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(
+      (user) => user.username.toLowerCase() === username.toLowerCase(),
+    );
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(
+      (user) => user.email.toLowerCase() === email.toLowerCase(),
+    );
+  }
+
+  async getUserByAppleId(appleId: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(
+      (user) => (user as any).appleId === appleId,
+    );
+  }
+
+  async getUserByGoogleId(googleId: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(
+      (user) => (user as any).googleId === googleId,
+    );
+  }
+
+  async getUsers(ids: string[]): Promise<User[]> {
+    return ids
+      .map((id) => this.users.get(id))
+      .filter((user): user is User => !!user);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const id = randomUUID();
+    const now = new Date();
+    const user: User = {
+      ...insertUser,
+      id,
+      email: insertUser.email.toLowerCase(),
+      password: insertUser.password ?? null,
+      role: insertUser.role || "customer",
+      emailVerified: false,
+      createdAt: now,
+      updatedAt: now,
+      lastLoginAt: null,
+      firstName: insertUser.firstName || null,
+      lastName: insertUser.lastName || null,
+      phone: insertUser.phone || null,
+      avatarUrl: insertUser.avatarUrl || null,
+      appleId: (insertUser as any).appleId || null,
+      googleId: (insertUser as any).googleId || null,
+      authProvider: (insertUser as any).authProvider || "email",
+      shareWithVendors: insertUser.shareWithVendors ?? true,
+      profileHidden: insertUser.profileHidden ?? false,
+      suspendedAt: null,
+      suspensionReason: null,
+      tokensRevokedAt: null,
+    };
+    this.users.set(id, user);
+    return user;
+  }
+
+  async updateUser(
+    id: string,
+    updates: Partial<User>,
+  ): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+
+    const updatedUser: User = {
+      ...user,
+      ...updates,
+      updatedAt: new Date(),
+    };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
+  async deleteUser(id: string): Promise<boolean> {
+    return this.users.delete(id);
+  }
+
+  // Vendor listings
+
+  async getVendorListing(id: string): Promise<VendorListing | undefined> {
+    return this.vendorListings.get(id);
+  }
+
+  async getVendorListingByUserId(
+    userId: string,
+  ): Promise<VendorListing | undefined> {
+    return Array.from(this.vendorListings.values()).find(
+      (listing) => listing.userId === userId,
+    );
+  }
+
+  async getVendorListings(): Promise<VendorListing[]> {
+    return Array.from(this.vendorListings.values()).filter((l) => !l.hiddenAt);
+  }
+
+  async getVendorListingsByTier(tier: string): Promise<VendorListing[]> {
+    return Array.from(this.vendorListings.values()).filter(
+      (listing) => listing.vendorTier === tier && !listing.hiddenAt,
+    );
+  }
+
+  async getVendorListingsInBounds(bounds: GeoBounds): Promise<VendorListing[]> {
+    return Array.from(this.vendorListings.values()).filter(
+      (l) =>
+        !l.hiddenAt &&
+        l.locationLat >= bounds.south &&
+        l.locationLat <= bounds.north &&
+        l.locationLng >= bounds.west &&
+        l.locationLng <= bounds.east,
+    );
+  }
+
+  async createVendorListing(
+    userId: string,
+    listing: InsertVendorListing,
+  ): Promise<VendorListing> {
+    const id = randomUUID();
+    const now = new Date();
+    const vendorListing: VendorListing = {
+      id,
+      userId,
+      businessName: listing.businessName,
+      category: listing.category,
+      description: listing.description ?? null,
+      phone: listing.phone ?? null,
+      locationLat: listing.locationLat,
+      locationLng: listing.locationLng,
+      city: listing.city,
+      state: listing.state,
+      vendorTier: listing.vendorTier || "free",
+      timezone: listing.timezone || "UTC",
+      acceptsRewardVouchers: listing.acceptsRewardVouchers ?? false,
+      hiddenAt: null,
+      hiddenReason: null,
+      createdAt: now,
+      updatedAt: now,
+      lastLocationUpdate: now,
+    };
+    this.vendorListings.set(id, vendorListing);
+    return vendorListing;
+  }
+
+  async updateVendorListing(
+    id: string,
+    updates: Partial<VendorListing>,
+  ): Promise<VendorListing | undefined> {
+    const listing = this.vendorListings.get(id);
+    if (!listing) return undefined;
+
+    const updatedListing: VendorListing = {
+      ...listing,
+      ...updates,
+      updatedAt: new Date(),
+    };
+    this.vendorListings.set(id, updatedListing);
+    return updatedListing;
+  }
+
+  async deleteVendorListing(id: string): Promise<boolean> {
+    for (const map of [
+      this.deals,
+      this.menuItems,
+      this.menuSections,
+      this.vendorHours,
+      this.vendorSpecialHours,
+      this.photos,
+      this.reviews,
+      this.boosts,
+      this.locationSessions,
+      this.analyticsRollups,
+    ] as Map<string, { vendorId: string }>[]) {
+      for (const [key, row] of map) {
+        if (row.vendorId === id) map.delete(key);
+      }
+    }
+    this.analyticsEvents = this.analyticsEvents.filter(
+      (e) => e.vendorId !== id,
+    );
+    for (const [key, sub] of this.notificationSubscriptions) {
+      if (
+        LISTING_SUBSCRIPTION_KINDS.includes(
+          sub.kind as NotificationSubscriptionKind,
+        ) &&
+        sub.target === id
+      ) {
+        this.notificationSubscriptions.delete(key);
+      }
+    }
+    return this.vendorListings.delete(id);
+  }
+
+  // Subscriptions & payment history
+
+  async getSubscription(id: string): Promise<Subscription | undefined> {
+    return this.subscriptions.get(id);
+  }
+
+  async getSubscriptionByStripeId(
+    stripeSubscriptionId: string,
+  ): Promise<Subscription | undefined> {
+    return Array.from(this.subscriptions.values()).find(
+      (sub) => sub.stripeSubscriptionId === stripeSubscriptionId,
+    );
+  }
+
+  async getSubscriptionByVendorId(
+    vendorId: string,
+  ): Promise<Subscription | undefined> {
+    return Array.from(this.subscriptions.values())
+      .filter((sub) => sub.vendorId === vendorId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+  }
+
+  async upsertSubscription(
+    subscription: InsertSubscription,
+  ): Promise<Subscription> {
+    const existing = await this.getSubscriptionByStripeId(
+      subscription.stripeSubscriptionId,
+    );
+    const now = new Date();
+    const record: Subscription = {
+      id: existing?.id ?? randomUUID(),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      ...subscription,
+      status: subscription.status ?? "active",
+      cancelAtPeriodEnd: subscription.cancelAtPeriodEnd ?? false,
+    };
+    this.subscriptions.set(record.id, record);
+    return record;
+  }
+
+  async updateSubscription(
+    id: string,
+    updates: Partial<Subscription>,
+  ): Promise<Subscription | undefined> {
+    const subscription = this.subscriptions.get(id);
+    if (!subscription) return undefined;
+
+    const updatedSubscription: Subscription = {
+      ...subscription,
+      ...updates,
+      updatedAt: new Date(),
+    };
+    this.subscriptions.set(id, updatedSubscription);
+    return updatedSubscription;
+  }
+
+  async getPaymentHistory(vendorId: string): Promise<PaymentHistory[]> {
+    return Array.from(this.paymentHistory.values())
+      .filter((payment) => payment.vendorId === vendorId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async upsertPaymentHistory(
+    payment: InsertPaymentHistory,
+  ): Promise<PaymentHistory> {
+    const existing =
+      payment.stripeInvoiceId || payment.stripeCheckoutSessionId
+        ? Array.from(this.paymentHistory.values()).find((p) =>
+            payment.stripeInvoiceId
+              ? p.stripeInvoiceId === payment.stripeInvoiceId
+              : p.stripeCheckoutSessionId === payment.stripeCheckoutSessionId,
+          )
+        : undefined;
+
+    const record: PaymentHistory = {
+      id: existing?.id ?? randomUUID(),
+      createdAt: existing?.createdAt ?? new Date(),
+      vendorId: payment.vendorId,
+      stripeInvoiceId: payment.stripeInvoiceId ?? null,
+      stripeCheckoutSessionId: payment.stripeCheckoutSessionId ?? null,
+      stripePaymentIntentId: payment.stripePaymentIntentId ?? null,
+      amount: payment.amount,
+      currency: payment.currency ?? "usd",
+      status: payment.status,
+      description: payment.description ?? null,
+      invoicePdf: payment.invoicePdf ?? null,
+    };
+    this.paymentHistory.set(record.id, record);
+    return record;
+  }
+
+  // Boosts
+
+  async getBoost(id: string): Promise<Boost | undefined> {
+    return this.boosts.get(id);
+  }
+
+  async getBoostByCheckoutSession(
+    stripeCheckoutSessionId: string,
+  ): Promise<Boost | undefined> {
+    return Array.from(this.boosts.values()).find(
+      (b) => b.stripeCheckoutSessionId === stripeCheckoutSessionId,
+    );
+  }
+
+  async getBoostsByVendor(vendorId: string): Promise<Boost[]> {
+    return Array.from(this.boosts.values())
+      .filter((b) => b.vendorId === vendorId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getActiveBoosts(
+    vendorIds: string[],
+    now = new Date(),
+  ): Promise<Boost[]> {
+    return Array.from(this.boosts.values()).filter(
+      (b) =>
+        vendorIds.includes(b.vendorId) &&
+        b.status === "active" &&
+        b.startsAt !== null &&
+        b.startsAt <= now &&
+        b.endsAt !== null &&
+        b.endsAt > now,
+    );
+  }
+
+  async createBoost(boost: InsertBoost): Promise<Boost> {
+    const id = randomUUID();
+    const newBoost: Boost = {
+      ...boost,
+      id,
+      status: boost.status ?? "pending",
+      currency: boost.currency ?? "usd",
+      stripeCheckoutSessionId: boost.stripeCheckoutSessionId ?? null,
+      stripePaymentIntentId: boost.stripePaymentIntentId ?? null,
+      startsAt: boost.startsAt ?? null,
+      endsAt: boost.endsAt ?? null,
+      createdAt: new Date(),
+    };
+    this.boosts.set(id, newBoost);
+    return newBoost;
+  }
+
+  async updateBoost(
+    id: string,
+    updates: Partial<Boost>,
+  ): Promise<Boost | undefined> {
+    const boost = this.boosts.get(id);
+    if (!boost) return undefined;
+
+    const updated = { ...boost, ...updates };
+    this.boosts.set(id, updated);
+    return updated;
+  }
+
+  // Deals
+
+  async getDeal(id: string): Promise<Deal | undefined> {
+    return this.deals.get(id);
+  }
+
+  async getDealsByVendor(vendorId: string): Promise<Deal[]> {
+    return Array.from(this.deals.values())
+      .filter((deal) => deal.vendorId === vendorId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getActiveDeals(): Promise<Deal[]> {
+    const now = Date.now();
+    return Array.from(this.deals.values())
+      .filter(
+        (deal) =>
+          deal.isActive &&
+          !deal.hiddenAt &&
+          deal.startDate.getTime() <= now &&
+          deal.endDate.getTime() > now,
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async claimUnannouncedFlashDeals(now: Date): Promise<Deal[]> {
+    const claimed: Deal[] = [];
+    for (const deal of this.deals.values()) {
+      if (
+        deal.isFlash &&
+        !deal.flashNotifiedAt &&
+        deal.isActive &&
+        !deal.hiddenAt &&
+        deal.startDate <= now &&
+        deal.endDate > now
+      ) {
+        const updated: Deal = { ...deal, flashNotifiedAt: now };
+        this.deals.set(deal.id, updated);
+        claimed.push(updated);
+      }
+    }
+    return claimed;
+  }
+
+  async createDeal(vendorId: string, deal: InsertDeal): Promise<Deal> {
+    const id = randomUUID();
+    const now = new Date();
+    const newDeal: Deal = {
+      id,
+      vendorId,
+      title: deal.title,
+      description: deal.description,
+      originalPrice: deal.originalPrice,
+      discountedPrice: deal.discountedPrice,
+      category: deal.category ?? null,
+      imageUrl: deal.imageUrl ?? null,
+      startDate: deal.startDate ?? now,
+      endDate: deal.endDate,
+      isActive: deal.isActive ?? true,
+      isFlash: deal.isFlash ?? false,
+      flashNotifiedAt: null,
+      maxRedemptions: deal.maxRedemptions ?? null,
+      currentRedemptions: 0,
+      menuItemIds: deal.menuItemIds ?? [],
+      hiddenAt: null,
+      hiddenReason: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.deals.set(id, newDeal);
+    return newDeal;
+  }
+
+  async updateDeal(
+    id: string,
+    updates: Partial<Deal>,
+  ): Promise<Deal | undefined> {
+    const deal = this.deals.get(id);
+    if (!deal) return undefined;
+
+    const updatedDeal: Deal = {
+      ...deal,
+      ...updates,
+      updatedAt: new Date(),
+    };
+    this.deals.set(id, updatedDeal);
+    return updatedDeal;
+  }
+
+  async deleteDeal(id: string): Promise<boolean> {
+    return this.deals.delete(id);
+  }
+
+  async redeemDeal(dealId: string, userId: string): Promise<RedeemDealResult> {
+    // No awaits between check and update, so this is atomic in a single process
+    const deal = this.deals.get(dealId);
+
+    const reason = getDealUnavailableReason(deal);
+    if (reason) return { status: reason };
+
+    const key = `${dealId}:${userId}`;
+    if (this.dealRedemptions.has(key)) {
+      return { status: "already_redeemed" };
+    }
+
+    const redemption: DealRedemption = {
+      id: randomUUID(),
+      dealId,
+      vendorId: deal!.vendorId,
+      userId,
+      code: this.generateUnusedCode(deal!.vendorId),
+      expiresAt: deal!.endDate,
+      verifiedAt: null,
+      verifiedBy: null,
+      verifiedListingId: null,
+      createdAt: new Date(),
+    };
+    this.dealRedemptions.set(key, redemption);
+
+    const updatedDeal: Deal = {
+      ...deal!,
+      currentRedemptions: deal!.currentRedemptions + 1,
+      updatedAt: new Date(),
+    };
+    this.deals.set(dealId, updatedDeal);
+
+    return { status: "redeemed", deal: updatedDeal, redemption };
+  }
+
+  async getDealRedemption(
+    dealId: string,
+    userId: string,
+  ): Promise<DealRedemption | undefined> {
+    return this.dealRedemptions.get(`${dealId}:${userId}`);
+  }
+
+  async getDealRedemptionById(id: string): Promise<DealRedemption | undefined> {
+    return Array.from(this.dealRedemptions.values()).find((r) => r.id === id);
+  }
+
+  async getDealRedemptionByCode(
+    vendorId: string,
+    code: string,
+  ): Promise<DealRedemption | undefined> {
+    return Array.from(this.dealRedemptions.values()).find(
+      (r) => r.vendorId === vendorId && r.code === code && !r.verifiedAt,
+    );
+  }
+
+  async getDealRedemptionsByUser(userId: string): Promise<DealRedemption[]> {
+    return Array.from(this.dealRedemptions.values())
+      .filter((r) => r.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async verifyDealRedemption(
+    id: string,
+    verifiedBy: string,
+    listingId: string,
+  ): Promise<DealRedemption | undefined> {
+    const redemption = await this.getDealRedemptionById(id);
+    if (!redemption || redemption.verifiedAt) return undefined;
+
+    const verified: DealRedemption = {
+      ...redemption,
+      verifiedAt: new Date(),
+      verifiedBy,
+      verifiedListingId: listingId,
+    };
+    this.dealRedemptions.set(
+      `${redemption.dealId}:${redemption.userId}`,
+      verified,
+    );
+    return verified;
+  }
+
+  async hasVerifiedRedemptionAtVendor(
+    userId: string,
+    vendorId: string,
+  ): Promise<boolean> {
+    return Array.from(this.dealRedemptions.values()).some(
+      (r) =>
+        r.userId === userId && r.vendorId === vendorId && r.verifiedAt !== null,
+    );
+  }
+
+  async getVerifiedRedemptionsByVendor(
+    vendorId: string,
+  ): Promise<DealRedemption[]> {
+    return Array.from(this.dealRedemptions.values())
+      .filter((r) => r.vendorId === vendorId && r.verifiedAt !== null)
+      .sort((a, b) => b.verifiedAt!.getTime() - a.verifiedAt!.getTime());
+  }
+
+  async getVerifiedRedemptionsSince(
+    since: Date | null,
+  ): Promise<DealRedemption[]> {
+    return Array.from(this.dealRedemptions.values()).filter(
+      (r) => r.verifiedAt !== null && (!since || r.verifiedAt >= since),
+    );
+  }
+
+  async createCheckIn(
+    checkIn: InsertVendorCheckIn,
+  ): Promise<VendorCheckIn | undefined> {
+    const existing = Array.from(this.vendorCheckIns.values()).find(
+      (c) =>
+        c.vendorId === checkIn.vendorId &&
+        c.userId === checkIn.userId &&
+        c.localDate === checkIn.localDate,
+    );
+    if (existing) return undefined;
+
+    const id = randomUUID();
+    const newCheckIn: VendorCheckIn = {
+      id,
+      vendorId: checkIn.vendorId,
+      userId: checkIn.userId,
+      localDate: checkIn.localDate,
+      latitude: checkIn.latitude,
+      longitude: checkIn.longitude,
+      createdAt: new Date(),
+    };
+    this.vendorCheckIns.set(id, newCheckIn);
+    return newCheckIn;
+  }
+
+  async getCheckInsByVendor(vendorId: string): Promise<VendorCheckIn[]> {
+    return Array.from(this.vendorCheckIns.values())
+      .filter((c) => c.vendorId === vendorId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getCheckInsByUser(userId: string): Promise<VendorCheckIn[]> {
+    return Array.from(this.vendorCheckIns.values())
+      .filter((c) => c.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async createPointsEntry(
+    entry: InsertPointsEntry,
+  ): Promise<PointsEntry | undefined> {
+    const existing = Array.from(this.pointsLedger.values()).find(
+      (e) =>
+        e.userId === entry.userId &&
+        e.reason === entry.reason &&
+        e.referenceId === entry.referenceId,
+    );
+    if (existing) return undefined;
+
+    const id = randomUUID();
+    const newEntry: PointsEntry = {
+      id,
+      userId: entry.userId,
+      amount: entry.amount,
+      reason: entry.reason,
+      referenceId: entry.referenceId,
+      vendorId: entry.vendorId ?? null,
+      activityDate: entry.activityDate ?? null,
+      createdAt: new Date(),
+    };
+    this.pointsLedger.set(id, newEntry);
+    return newEntry;
+  }
+
+  async getPointsLedger(userId: string): Promise<PointsEntry[]> {
+    return Array.from(this.pointsLedger.values())
+      .filter((e) => e.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getPointsLedgerSince(
+    since: Date | null,
+    until?: Date,
+  ): Promise<PointsEntry[]> {
+    return Array.from(this.pointsLedger.values()).filter(
+      (e) =>
+        (!since || e.createdAt >= since) && (!until || e.createdAt < until),
+    );
+  }
+
+  async getUserBadges(userId: string): Promise<UserBadge[]> {
+    return Array.from(this.userBadges.values())
+      .filter((b) => b.userId === userId)
+      .sort((a, b) => a.unlockedAt.getTime() - b.unlockedAt.getTime());
+  }
+
+  async createUserBadges(badges: InsertUserBadge[]): Promise<UserBadge[]> {
+    const created: UserBadge[] = [];
+    for (const badge of badges) {
+      const unlocked = Array.from(this.userBadges.values()).some(
+        (b) => b.userId === badge.userId && b.badgeId === badge.badgeId,
+      );
+      if (unlocked) continue;
+
+      const id = randomUUID();
+      const newBadge: UserBadge = {
+        id,
+        userId: badge.userId,
+        badgeId: badge.badgeId,
+        unlockedAt: new Date(),
+      };
+      this.userBadges.set(id, newBadge);
+      created.push(newBadge);
+    }
+    return created;
+  }
+
+  async getBadgeDefinitions(): Promise<BadgeDefinition[]> {
+    return Array.from(this.badgeDefinitions.values()).sort(
+      (a, b) =>
+        a.sortOrder - b.sortOrder ||
+        a.createdAt.getTime() - b.createdAt.getTime(),
+    );
+  }
+
+  async getBadgeDefinition(id: string): Promise<BadgeDefinition | undefined> {
+    return this.badgeDefinitions.get(id);
+  }
+
+  async createBadgeDefinitions(
+    definitions: InsertBadgeDefinition[],
+  ): Promise<BadgeDefinition[]> {
+    const created: BadgeDefinition[] = [];
+    for (const definition of definitions) {
+      if (this.badgeDefinitions.has(definition.id)) continue;
+
+      const now = new Date();
+      const newDefinition: BadgeDefinition = {
+        id: definition.id,
+        name: definition.name,
+        description: definition.description,
+        icon: definition.icon,
+        rarity: definition.rarity ?? "common",
+        requirement: definition.requirement,
+        rule: definition.rule,
+        startsAt: definition.startsAt ?? null,
+        endsAt: definition.endsAt ?? null,
+        sortOrder: definition.sortOrder ?? 0,
+        isActive: definition.isActive ?? true,
+        createdAt: now,
+        updatedAt: now,
+      };
+      this.badgeDefinitions.set(definition.id, newDefinition);
+      created.push(newDefinition);
+    }
+    return created;
+  }
+
+  async updateBadgeDefinition(
+    id: string,
+    updates: Partial<InsertBadgeDefinition>,
+  ): Promise<BadgeDefinition | undefined> {
+    const definition = this.badgeDefinitions.get(id);
+    if (!definition) return undefined;
+
+    const updated: BadgeDefinition = {
+      ...definition,
+      ...updates,
+      id,
+      updatedAt: new Date(),
+    };
+    this.badgeDefinitions.set(id, updated);
+    return updated;
+  }
+
+  async createChallenge(challenge: InsertChallenge): Promise<Challenge> {
+    const id = randomUUID();
+    const now = new Date();
+    const newChallenge: Challenge = {
+      id,
+      sponsorVendorId: challenge.sponsorVendorId ?? null,
+      createdBy: challenge.createdBy,
+      title: challenge.title,
+      description: challenge.description ?? null,
+      action: challenge.action,
+      target: challenge.target,
+      countBy: challenge.countBy ?? "event",
+      cuisine: challenge.cuisine ?? null,
+      vendorCategory: challenge.vendorCategory ?? null,
+      city: challenge.city ?? null,
+      state: challenge.state ?? null,
+      areaName: challenge.areaName ?? null,
+      areaLat: challenge.areaLat ?? null,
+      areaLng: challenge.areaLng ?? null,
+      areaRadiusMiles: challenge.areaRadiusMiles ?? null,
+      startsAt: challenge.startsAt,
+      endsAt: challenge.endsAt,
+      rewardPoints: challenge.rewardPoints ?? 0,
+      badgeName: challenge.badgeName ?? null,
+      badgeIcon: challenge.badgeIcon ?? null,
+      isActive: challenge.isActive ?? true,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.challenges.set(id, newChallenge);
+    return newChallenge;
+  }
+
+  async getChallenge(id: string): Promise<Challenge | undefined> {
+    return this.challenges.get(id);
+  }
+
+  async getLiveChallenges(at: Date): Promise<Challenge[]> {
+    return Array.from(this.challenges.values())
+      .filter((c) => c.isActive && c.endsAt > at)
+      .sort((a, b) => a.endsAt.getTime() - b.endsAt.getTime());
+  }
+
+  async getChallengesBySponsor(vendorId: string | null): Promise<Challenge[]> {
+    return Array.from(this.challenges.values())
+      .filter((c) => c.sponsorVendorId === vendorId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async updateChallenge(
+    id: string,
+    updates: Partial<InsertChallenge>,
+  ): Promise<Challenge | undefined> {
+    const challenge = this.challenges.get(id);
+    if (!challenge) return undefined;
+
+    const updated: Challenge = {
+      ...challenge,
+      ...updates,
+      updatedAt: new Date(),
+    };
+    this.challenges.set(id, updated);
+    return updated;
+  }
+
+  async createChallengeProgress(
+    step: InsertChallengeProgress,
+  ): Promise<ChallengeProgress | undefined> {
+    const key = `${step.challengeId}:${step.userId}:${step.countKey}`;
+    if (this.challengeProgress.has(key)) return undefined;
+
+    const newStep: ChallengeProgress = {
+      id: randomUUID(),
+      challengeId: step.challengeId,
+      userId: step.userId,
+      countKey: step.countKey,
+      createdAt: new Date(),
+    };
+    this.challengeProgress.set(key, newStep);
+    return newStep;
+  }
+
+  async getChallengeProgressByUser(
+    userId: string,
+    challengeIds: string[],
+  ): Promise<ChallengeProgress[]> {
+    const ids = new Set(challengeIds);
+    return Array.from(this.challengeProgress.values()).filter(
+      (p) => p.userId === userId && ids.has(p.challengeId),
+    );
+  }
+
+  async createRewardItem(item: InsertRewardItem): Promise<RewardItem> {
+    const id = randomUUID();
+    const now = new Date();
+    const newItem: RewardItem = {
+      id,
+      vendorId: item.vendorId ?? null,
+      createdBy: item.createdBy,
+      kind: item.kind,
+      title: item.title,
+      description: item.description ?? null,
+      pointsCost: item.pointsCost,
+      discountAmount: item.discountAmount ?? null,
+      stock: item.stock ?? null,
+      issuedCount: 0,
+      voucherValidDays: item.voucherValidDays ?? 30,
+      drawAt: item.drawAt ?? null,
+      drawnAt: null,
+      isActive: item.isActive ?? true,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.rewardItems.set(id, newItem);
+    return newItem;
+  }
+
+  async getRewardItem(id: string): Promise<RewardItem | undefined> {
+    return this.rewardItems.get(id);
+  }
+
+  async getActiveRewardItems(): Promise<RewardItem[]> {
+    return Array.from(this.rewardItems.values())
+      .filter((i) => i.isActive)
+      .sort((a, b) => a.pointsCost - b.pointsCost);
+  }
+
+  async getRewardItemsByOwner(vendorId: string | null): Promise<RewardItem[]> {
+    return Array.from(this.rewardItems.values())
+      .filter((i) => i.vendorId === vendorId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async updateRewardItem(
+    id: string,
+    updates: Partial<InsertRewardItem>,
+  ): Promise<RewardItem | undefined> {
+    const item = this.rewardItems.get(id);
+    if (!item) return undefined;
+
+    const updated: RewardItem = { ...item, ...updates, updatedAt: new Date() };
+    this.rewardItems.set(id, updated);
+    return updated;
+  }
+
+  async purchaseReward(
+    itemId: string,
+    userId: string,
+  ): Promise<PurchaseRewardResult> {
+    // No awaits between check and update, so this is atomic in a single process
+    const item = this.rewardItems.get(itemId);
+
+    const reason = getRewardItemUnavailableReason(item);
+    if (reason) return { status: reason };
+
+    const available = Array.from(this.pointsLedger.values())
+      .filter((e) => e.userId === userId)
+      .reduce((sum, e) => sum + e.amount, 0);
+    if (available < item!.pointsCost) return { status: "insufficient_points" };
+
+    const now = new Date();
+    const fields = newVoucherFields(item!, now);
+    const voucher: RewardVoucher = {
+      id: randomUUID(),
+      itemId,
+      userId,
+      vendorId: item!.vendorId,
+      code:
+        fields.status === "active"
+          ? this.generateUnusedVoucherCode(item!.vendorId)
+          : generateRedemptionCode(),
+      pointsSpent: item!.pointsCost,
+      status: fields.status,
+      expiresAt: fields.expiresAt,
+      usedAt: null,
+      usedBy: null,
+      usedListingId: null,
+      createdAt: now,
+    };
+    this.rewardVouchers.set(voucher.id, voucher);
+
+    const entryId = randomUUID();
+    this.pointsLedger.set(entryId, {
+      id: entryId,
+      userId,
+      amount: -item!.pointsCost,
+      reason: "voucher",
+      referenceId: voucher.id,
+      vendorId: item!.vendorId,
+      activityDate: null,
+      createdAt: now,
+    });
+
+    const updatedItem: RewardItem = {
+      ...item!,
+      issuedCount: item!.issuedCount + 1,
+      updatedAt: now,
+    };
+    this.rewardItems.set(itemId, updatedItem);
+
+    return {
+      status: "purchased",
+      item: updatedItem,
+      voucher,
+      balance: available - item!.pointsCost,
+    };
+  }
+
+  async getRewardVoucherById(id: string): Promise<RewardVoucher | undefined> {
+    return this.rewardVouchers.get(id);
+  }
+
+  async getRewardVoucherByCode(
+    vendorId: string,
+    code: string,
+  ): Promise<RewardVoucher | undefined> {
+    return Array.from(this.rewardVouchers.values()).find(
+      (v) =>
+        v.vendorId === vendorId && v.code === code && v.status === "active",
+    );
+  }
+
+  async getRewardVouchersByUser(userId: string): Promise<RewardVoucher[]> {
+    return Array.from(this.rewardVouchers.values())
+      .filter((v) => v.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getRewardVouchersByItem(itemId: string): Promise<RewardVoucher[]> {
+    return Array.from(this.rewardVouchers.values()).filter(
+      (v) => v.itemId === itemId,
+    );
+  }
+
+  async useRewardVoucher(
+    id: string,
+    usedBy: string,
+    listingId: string,
+  ): Promise<RewardVoucher | undefined> {
+    const voucher = this.rewardVouchers.get(id);
+    if (!voucher || voucher.status !== "active") return undefined;
+
+    const used: RewardVoucher = {
+      ...voucher,
+      status: "used",
+      usedAt: new Date(),
+      usedBy,
+      usedListingId: listingId,
+    };
+    this.rewardVouchers.set(id, used);
+    return used;
+  }
+
+  async drawRaffle(
+    itemId: string,
+    winnerId: string | null,
+    expiresAt: Date,
+  ): Promise<RewardItem | undefined> {
+    const item = this.rewardItems.get(itemId);
+    if (!item || item.drawnAt) return undefined;
+
+    const drawn: RewardItem = {
+      ...item,
+      drawnAt: new Date(),
+      isActive: false,
+      updatedAt: new Date(),
+    };
+    this.rewardItems.set(itemId, drawn);
+    for (const voucher of Array.from(this.rewardVouchers.values())) {
+      if (voucher.itemId !== itemId || voucher.status !== "entered") continue;
+      this.rewardVouchers.set(
+        voucher.id,
+        voucher.id === winnerId
+          ? {
+              ...voucher,
+              status: "active",
+              code: this.generateUnusedVoucherCode(item.vendorId),
+              expiresAt,
+            }
+          : { ...voucher, status: "lost" },
+      );
+    }
+    return drawn;
+  }
+
+  async getReview(id: string): Promise<Review | undefined> {
+    return this.reviews.get(id);
+  }
+
+  async getReviewByUser(
+    vendorId: string,
+    userId: string,
+  ): Promise<Review | undefined> {
+    return Array.from(this.reviews.values()).find(
+      (r) => r.vendorId === vendorId && r.userId === userId,
+    );
+  }
+
+  async getReviewsByVendor(
+    vendorId: string,
+    limit: number,
+    offset: number,
+  ): Promise<Review[]> {
+    return Array.from(this.reviews.values())
+      .filter((r) => r.vendorId === vendorId && !r.hiddenAt)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(offset, offset + limit);
+  }
+
+  async getVendorRatingStats(vendorId: string): Promise<VendorRatingStats> {
+    const counts = new Map<number, number>();
+    for (const review of this.reviews.values()) {
+      if (review.vendorId === vendorId && !review.hiddenAt) {
+        counts.set(review.rating, (counts.get(review.rating) ?? 0) + 1);
+      }
+    }
+    return buildRatingStats(
+      Array.from(counts, ([rating, count]) => ({ rating, count })),
+    );
+  }
+
+  async createReview(
+    userId: string,
+    review: InsertReview,
+  ): Promise<Review | undefined> {
+    if (await this.getReviewByUser(review.vendorId, userId)) return undefined;
+
+    const id = randomUUID();
+    const now = new Date();
+    const newReview: Review = {
+      id,
+      vendorId: review.vendorId,
+      userId,
+      rating: review.rating,
+      text: review.text,
+      photoUrls: review.photoUrls ?? [],
+      reply: null,
+      repliedAt: null,
+      hiddenAt: null,
+      hiddenReason: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.reviews.set(id, newReview);
+    return newReview;
+  }
+
+  async setReviewReply(id: string, reply: string): Promise<Review | undefined> {
+    const review = this.reviews.get(id);
+    if (!review || review.repliedAt) return undefined;
+
+    const now = new Date();
+    const updated: Review = {
+      ...review,
+      reply,
+      repliedAt: now,
+      updatedAt: now,
+    };
+    this.reviews.set(id, updated);
+    return updated;
+  }
+
+  async getMenuSections(vendorId: string): Promise<MenuSection[]> {
+    return Array.from(this.menuSections.values())
+      .filter((s) => s.vendorId === vendorId)
+      .sort(byPosition);
+  }
+
+  async getMenuSection(id: string): Promise<MenuSection | undefined> {
+    return this.menuSections.get(id);
+  }
+
+  async createMenuSection(
+    vendorId: string,
+    section: InsertMenuSection,
+  ): Promise<MenuSection> {
+    const id = randomUUID();
+    const now = new Date();
+    const newSection: MenuSection = {
+      id,
+      vendorId,
+      name: section.name,
+      position: section.position ?? 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.menuSections.set(id, newSection);
+    return newSection;
+  }
+
+  async updateMenuSection(
+    id: string,
+    updates: Partial<MenuSection>,
+  ): Promise<MenuSection | undefined> {
+    const section = this.menuSections.get(id);
+    if (!section) return undefined;
+
+    const updatedSection: MenuSection = {
+      ...section,
+      ...updates,
+      updatedAt: new Date(),
+    };
+    this.menuSections.set(id, updatedSection);
+    return updatedSection;
+  }
+
+  async deleteMenuSection(id: string): Promise<boolean> {
+    for (const item of Array.from(this.menuItems.values())) {
+      if (item.sectionId === id) this.menuItems.delete(item.id);
+    }
+    return this.menuSections.delete(id);
+  }
+
+  async getMenuItems(vendorId: string): Promise<MenuItem[]> {
+    return Array.from(this.menuItems.values())
+      .filter((i) => i.vendorId === vendorId)
+      .sort(byPosition);
+  }
+
+  async getMenuItemsByVendors(vendorIds: string[]): Promise<MenuItem[]> {
+    return Array.from(this.menuItems.values())
+      .filter((i) => vendorIds.includes(i.vendorId))
+      .sort(byPosition);
+  }
+
+  async getMenuItem(id: string): Promise<MenuItem | undefined> {
+    return this.menuItems.get(id);
+  }
+
+  async createMenuItem(
+    vendorId: string,
+    item: InsertMenuItem,
+  ): Promise<MenuItem> {
+    const id = randomUUID();
+    const now = new Date();
+    const newItem: MenuItem = {
+      id,
+      vendorId,
+      sectionId: item.sectionId,
+      name: item.name,
+      description: item.description ?? null,
+      price: item.price,
+      photoUrl: item.photoUrl ?? null,
+      dietaryTags: item.dietaryTags ?? [],
+      isSoldOut: item.isSoldOut ?? false,
+      position: item.position ?? 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.menuItems.set(id, newItem);
+    return newItem;
+  }
+
+  async updateMenuItem(
+    id: string,
+    updates: Partial<MenuItem>,
+  ): Promise<MenuItem | undefined> {
+    const item = this.menuItems.get(id);
+    if (!item) return undefined;
+
+    const updatedItem: MenuItem = {
+      ...item,
+      ...updates,
+      updatedAt: new Date(),
+    };
+    this.menuItems.set(id, updatedItem);
+    return updatedItem;
+  }
+
+  async deleteMenuItem(id: string): Promise<boolean> {
+    return this.menuItems.delete(id);
+  }
+
+  async getVendorHours(vendorIds: string[]): Promise<VendorHours[]> {
+    return Array.from(this.vendorHours.values())
+      .filter((h) => vendorIds.includes(h.vendorId))
+      .sort(
+        (a, b) =>
+          a.dayOfWeek - b.dayOfWeek || a.opensAt.localeCompare(b.opensAt),
+      );
+  }
+
+  async replaceVendorHours(
+    vendorId: string,
+    shifts: VendorShift[],
+  ): Promise<VendorHours[]> {
+    for (const hours of Array.from(this.vendorHours.values())) {
+      if (hours.vendorId === vendorId) this.vendorHours.delete(hours.id);
+    }
+    const now = new Date();
+    for (const shift of shifts) {
+      const id = randomUUID();
+      this.vendorHours.set(id, { id, vendorId, ...shift, createdAt: now });
+    }
+    return this.getVendorHours([vendorId]);
+  }
+
+  async getSpecialHours(
+    vendorIds: string[],
+    fromDate: string,
+  ): Promise<VendorSpecialHours[]> {
+    return Array.from(this.vendorSpecialHours.values())
+      .filter((h) => vendorIds.includes(h.vendorId) && h.date >= fromDate)
+      .sort(
+        (a, b) =>
+          a.date.localeCompare(b.date) ||
+          (a.opensAt ?? "").localeCompare(b.opensAt ?? ""),
+      );
+  }
+
+  async getSpecialHoursEntry(
+    id: string,
+  ): Promise<VendorSpecialHours | undefined> {
+    return this.vendorSpecialHours.get(id);
+  }
+
+  async createSpecialHours(
+    vendorId: string,
+    entry: InsertVendorSpecialHours,
+  ): Promise<VendorSpecialHours> {
+    const id = randomUUID();
+    const newEntry: VendorSpecialHours = {
+      id,
+      vendorId,
+      date: entry.date,
+      isClosed: entry.isClosed ?? false,
+      opensAt: entry.opensAt ?? null,
+      closesAt: entry.closesAt ?? null,
+      note: entry.note ?? null,
+      createdAt: new Date(),
+    };
+    this.vendorSpecialHours.set(id, newEntry);
+    return newEntry;
+  }
+
+  async deleteSpecialHours(id: string): Promise<boolean> {
+    return this.vendorSpecialHours.delete(id);
+  }
+
+  async getPhotos(
+    ownerType: PhotoOwnerType,
+    ownerIds: string[],
+  ): Promise<Photo[]> {
+    return Array.from(this.photos.values())
+      .filter(
+        (p) =>
+          p.ownerType === ownerType &&
+          ownerIds.includes(p.ownerId) &&
+          !p.hiddenAt,
+      )
+      .sort(byPosition);
+  }
+
+  async getPhoto(id: string): Promise<Photo | undefined> {
+    return this.photos.get(id);
+  }
+
+  async createPhoto(photo: InsertPhoto): Promise<Photo> {
+    const id = randomUUID();
+    const newPhoto: Photo = {
+      ...photo,
+      id,
+      position: photo.position ?? 0,
+      caption: photo.caption ?? null,
+      hiddenAt: null,
+      hiddenReason: null,
+      createdAt: new Date(),
+    };
+    this.photos.set(id, newPhoto);
+    return newPhoto;
+  }
+
+  async reorderPhotos(
+    ownerType: PhotoOwnerType,
+    ownerId: string,
+    photoIds: string[],
+  ): Promise<Photo[]> {
+    photoIds.forEach((id, position) => {
+      const photo = this.photos.get(id);
+      if (photo && photo.ownerType === ownerType && photo.ownerId === ownerId) {
+        this.photos.set(id, { ...photo, position });
+      }
+    });
+    return this.getPhotos(ownerType, [ownerId]);
+  }
+
+  async deletePhoto(id: string): Promise<boolean> {
+    return this.photos.delete(id);
+  }
+
+  async getLocationSessions(
+    vendorId: string,
+    limit?: number,
+  ): Promise<LocationSession[]> {
+    const sessions = Array.from(this.locationSessions.values())
+      .filter((s) => s.vendorId === vendorId)
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+    return limit !== undefined ? sessions.slice(0, limit) : sessions;
+  }
+
+  async getLocationSession(id: string): Promise<LocationSession | undefined> {
+    return this.locationSessions.get(id);
+  }
+
+  async getOpenLocationSession(
+    vendorId: string,
+  ): Promise<LocationSession | undefined> {
+    return (await this.getLocationSessions(vendorId)).find((s) => !s.endedAt);
+  }
+
+  async createLocationSession(
+    session: InsertLocationSession,
+  ): Promise<LocationSession> {
+    const id = randomUUID();
+    const newSession: LocationSession = {
+      ...session,
+      id,
+      address: session.address ?? null,
+      startedAt: session.startedAt ?? new Date(),
+      endedAt: session.endedAt ?? null,
+      customersServed: session.customersServed ?? null,
+      revenue: session.revenue ?? null,
+      notes: session.notes ?? null,
+    };
+    this.locationSessions.set(id, newSession);
+    return newSession;
+  }
+
+  async updateLocationSession(
+    id: string,
+    updates: Partial<LocationSession>,
+  ): Promise<LocationSession | undefined> {
+    const session = this.locationSessions.get(id);
+    if (!session) return undefined;
+
+    const updated = { ...session, ...updates };
+    this.locationSessions.set(id, updated);
+    return updated;
+  }
+
+  async createAnalyticsEvents(events: InsertAnalyticsEvent[]): Promise<void> {
+    for (const event of events) {
+      this.analyticsEvents.push({
+        ...event,
+        id: randomUUID(),
+        createdAt: new Date(),
+      });
+    }
+  }
+
+  async incrementAnalyticsRollups(
+    rows: InsertAnalyticsRollup[],
+  ): Promise<void> {
+    for (const row of rows) {
+      const dealId = row.dealId ?? "";
+      const key = [row.vendorId, dealId, row.period, row.bucket, row.type].join(
+        "|",
+      );
+      const existing = this.analyticsRollups.get(key);
+      this.analyticsRollups.set(key, {
+        id: existing?.id ?? randomUUID(),
+        vendorId: row.vendorId,
+        dealId,
+        period: row.period,
+        bucket: row.bucket,
+        type: row.type,
+        count: (existing?.count ?? 0) + (row.count ?? 0),
+        value: (existing?.value ?? 0) + (row.value ?? 0),
+      });
+    }
+  }
+
+  async getAnalyticsRollups(
+    vendorId: string,
+    dealId: string,
+    period: AnalyticsPeriod,
+    fromBucket: string,
+    toBucket: string,
+  ): Promise<AnalyticsRollup[]> {
+    return Array.from(this.analyticsRollups.values())
+      .filter(
+        (r) =>
+          r.vendorId === vendorId &&
+          r.dealId === dealId &&
+          r.period === period &&
+          r.bucket >= fromBucket &&
+          r.bucket <= toBucket,
+      )
+      .sort((a, b) => a.bucket.localeCompare(b.bucket));
+  }
+
+  async savePushToken(token: InsertPushToken): Promise<PushToken> {
+    const existing = this.pushTokens.get(token.token);
+    const now = new Date();
+    const saved: PushToken = {
+      id: existing?.id ?? randomUUID(),
+      userId: token.userId,
+      token: token.token,
+      platform: token.platform,
+      createdAt: existing?.createdAt ?? now,
+      lastSeenAt: now,
+    };
+    this.pushTokens.set(token.token, saved);
+    return saved;
+  }
+
+  async getPushTokensByUsers(userIds: string[]): Promise<PushToken[]> {
+    const ids = new Set(userIds);
+    return Array.from(this.pushTokens.values()).filter((t) =>
+      ids.has(t.userId),
+    );
+  }
+
+  async deletePushTokens(tokens: string[]): Promise<void> {
+    for (const token of tokens) this.pushTokens.delete(token);
+  }
+
+  async deleteUserPushToken(userId: string, token: string): Promise<boolean> {
+    if (this.pushTokens.get(token)?.userId !== userId) return false;
+    return this.pushTokens.delete(token);
+  }
+
+  async getNotificationSubscriptionsByUser(
+    userId: string,
+  ): Promise<NotificationSubscription[]> {
+    return Array.from(this.notificationSubscriptions.values())
+      .filter((s) => s.userId === userId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async createNotificationSubscription(
+    subscription: InsertNotificationSubscription,
+  ): Promise<NotificationSubscription | undefined> {
+    const key = `${subscription.userId}:${subscription.kind}:${subscription.target}`;
+    if (this.notificationSubscriptions.has(key)) return undefined;
+
+    const newSubscription: NotificationSubscription = {
+      id: randomUUID(),
+      userId: subscription.userId,
+      kind: subscription.kind,
+      target: subscription.target,
+      createdAt: new Date(),
+    };
+    this.notificationSubscriptions.set(key, newSubscription);
+    return newSubscription;
+  }
+
+  async deleteNotificationSubscription(
+    userId: string,
+    kind: NotificationSubscriptionKind,
+    target: string,
+  ): Promise<boolean> {
+    return this.notificationSubscriptions.delete(`${userId}:${kind}:${target}`);
+  }
+
+  async getSubscribedUserIds(
+    vendorId: string,
+    category: string | null,
+  ): Promise<string[]> {
+    const userIds = Array.from(this.notificationSubscriptions.values())
+      .filter((s) =>
+        s.kind === "vendor"
+          ? s.target === vendorId
+          : !!category && s.target.toLowerCase() === category.toLowerCase(),
+      )
+      .map((s) => s.userId);
+    return Array.from(new Set(userIds));
+  }
+
+  async getSubscriberIds(
+    kind: NotificationSubscriptionKind,
+    target: string,
+  ): Promise<string[]> {
+    return Array.from(this.notificationSubscriptions.values())
+      .filter((s) => s.kind === kind && s.target === target)
+      .map((s) => s.userId);
+  }
+
+  async createNotifications(
+    rows: InsertNotification[],
+  ): Promise<Notification[]> {
+    const now = new Date();
+    return rows.map((row) => {
+      const notification: Notification = {
+        id: randomUUID(),
+        userId: row.userId,
+        category: row.category,
+        title: row.title,
+        body: row.body,
+        data: row.data ?? null,
+        pushed: row.pushed ?? false,
+        localDate: row.localDate,
+        readAt: null,
+        createdAt: now,
+      };
+      this.notifications.set(notification.id, notification);
+      return notification;
+    });
+  }
+
+  async getNotificationsByUser(
+    userId: string,
+    limit: number,
+  ): Promise<Notification[]> {
+    return Array.from(this.notifications.values())
+      .filter((n) => n.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async countUnreadNotifications(userId: string): Promise<number> {
+    return Array.from(this.notifications.values()).filter(
+      (n) => n.userId === userId && !n.readAt,
+    ).length;
+  }
+
+  async markNotificationRead(
+    userId: string,
+    id: string,
+  ): Promise<Notification | undefined> {
+    const notification = this.notifications.get(id);
+    if (!notification || notification.userId !== userId) return undefined;
+
+    notification.readAt = notification.readAt ?? new Date();
+    return notification;
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<number> {
+    const now = new Date();
+    let count = 0;
+    for (const notification of Array.from(this.notifications.values())) {
+      if (notification.userId === userId && !notification.readAt) {
+        notification.readAt = now;
+        count++;
+      }
+    }
+    return count;
+  }
+
+  async countPushedNotifications(
+    userId: string,
+    localDate: string,
+    categories: readonly string[],
+  ): Promise<number> {
+    return Array.from(this.notifications.values()).filter(
+      (n) =>
+        n.userId === userId &&
+        n.localDate === localDate &&
+        n.pushed &&
+        categories.includes(n.category),
+    ).length;
+  }
+
+  async getNotificationPreferencesByUsers(
+    userIds: string[],
+  ): Promise<NotificationPreferences[]> {
+    return userIds
+      .map((id) => this.notificationPreferences.get(id))
+      .filter((p): p is NotificationPreferences => !!p);
+  }
+
+  async saveNotificationPreferences(
+    userId: string,
+    updates: UpdateNotificationPreferences,
+  ): Promise<NotificationPreferences> {
+    const existing = this.notificationPreferences.get(userId);
+    const saved: NotificationPreferences = {
+      userId,
+      pushEnabled: true,
+      dealAlerts: true,
+      flashDeals: true,
+      priceDrops: true,
+      newStores: false,
+      weeklyDigest: true,
+      quietHoursStart: null,
+      quietHoursEnd: null,
+      timezone: "UTC",
+      maxPromoPushesPerDay: null,
+      ...existing,
+      ...updates,
+      updatedAt: new Date(),
+    };
+    this.notificationPreferences.set(userId, saved);
+    return saved;
+  }
+
+  async getGeofenceZones(activeOnly = false): Promise<GeofenceZone[]> {
+    return Array.from(this.geofenceZones.values())
+      .filter((z) => !activeOnly || z.isActive)
+      .sort(
+        (a, b) => a.city.localeCompare(b.city) || a.name.localeCompare(b.name),
+      );
+  }
+
+  async getGeofenceZone(id: string): Promise<GeofenceZone | undefined> {
+    return this.geofenceZones.get(id);
+  }
+
+  async createGeofenceZones(
+    zones: InsertGeofenceZone[],
+  ): Promise<GeofenceZone[]> {
+    const created: GeofenceZone[] = [];
+    for (const zone of zones) {
+      const id = zone.id ?? randomUUID();
+      if (this.geofenceZones.has(id)) continue;
+
+      const now = new Date();
+      const newZone: GeofenceZone = {
+        id,
+        name: zone.name,
+        city: zone.city,
+        state: zone.state ?? null,
+        shape: zone.shape,
+        centerLat: zone.centerLat,
+        centerLng: zone.centerLng,
+        radiusMeters: zone.radiusMeters ?? null,
+        polygon: zone.polygon ?? null,
+        notifyOnEnter: zone.notifyOnEnter ?? true,
+        notifyOnExit: zone.notifyOnExit ?? false,
+        isActive: zone.isActive ?? true,
+        createdAt: now,
+        updatedAt: now,
+      };
+      this.geofenceZones.set(id, newZone);
+      created.push(newZone);
+    }
+    return created;
+  }
+
+  async updateGeofenceZone(
+    id: string,
+    updates: Partial<InsertGeofenceZone>,
+  ): Promise<GeofenceZone | undefined> {
+    const zone = this.geofenceZones.get(id);
+    if (!zone) return undefined;
+
+    const updated: GeofenceZone = {
+      ...zone,
+      ...updates,
+      id,
+      updatedAt: new Date(),
+    };
+    this.geofenceZones.set(id, updated);
+    return updated;
+  }
+
+  // Admin search
+
+  async searchUsers(
+    query: string,
+    filters: AdminUserFilters,
+    limit: number,
+  ): Promise<User[]> {
+    const q = query.toLowerCase();
+    return Array.from(this.users.values())
+      .filter(
+        (u) =>
+          (!q ||
+            [u.email, u.username, u.firstName, u.lastName].some((f) =>
+              f?.toLowerCase().includes(q),
+            )) &&
+          (!filters.role || u.role === filters.role) &&
+          (filters.suspended === undefined ||
+            !!u.suspendedAt === filters.suspended),
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async searchVendorListings(
+    query: string,
+    filters: AdminListingFilters,
+    limit: number,
+  ): Promise<VendorListing[]> {
+    const q = query.toLowerCase();
+    return Array.from(this.vendorListings.values())
+      .filter(
+        (l) =>
+          (!q ||
+            l.businessName.toLowerCase().includes(q) ||
+            l.city.toLowerCase().includes(q)) &&
+          (filters.hidden === undefined || !!l.hiddenAt === filters.hidden),
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  // Content reports
+
+  async createContentReport(
+    report: InsertContentReport,
+  ): Promise<ContentReport | undefined> {
+    const duplicate = Array.from(this.contentReports.values()).some(
+      (r) =>
+        r.reporterId === report.reporterId &&
+        r.targetType === report.targetType &&
+        r.targetId === report.targetId,
+    );
+    if (duplicate) return undefined;
+
+    const newReport: ContentReport = {
+      id: randomUUID(),
+      reporterId: report.reporterId,
+      targetType: report.targetType,
+      targetId: report.targetId,
+      reason: report.reason,
+      details: report.details ?? null,
+      status: report.status ?? "open",
+      resolvedBy: null,
+      resolution: null,
+      resolvedAt: null,
+      createdAt: new Date(),
+    };
+    this.contentReports.set(newReport.id, newReport);
+    return newReport;
+  }
+
+  async getContentReport(id: string): Promise<ContentReport | undefined> {
+    return this.contentReports.get(id);
+  }
+
+  async getContentReports(
+    filters: ContentReportFilters,
+    limit: number,
+  ): Promise<ContentReport[]> {
+    return Array.from(this.contentReports.values())
+      .filter(
+        (r) =>
+          (!filters.status || r.status === filters.status) &&
+          (!filters.targetType || r.targetType === filters.targetType),
+      )
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async closeContentReport(
+    id: string,
+    status: ReportStatus,
+    resolvedBy: string,
+    resolution: string,
+    audit: InsertAdminAuditEntry,
+  ): Promise<ContentReport | undefined> {
+    const report = this.contentReports.get(id);
+    if (!report || report.status !== "open") return undefined;
+
+    const closed: ContentReport = {
+      ...report,
+      status,
+      resolvedBy,
+      resolution,
+      resolvedAt: new Date(),
+    };
+    this.contentReports.set(id, closed);
+    this.logAdminAction(audit);
+    return closed;
+  }
+
+  // Moderation
+
+  async suspendUser(
+    id: string,
+    reason: string,
+    audit: InsertAdminAuditEntry,
+  ): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user || user.suspendedAt) return undefined;
+
+    const now = new Date();
+    const suspended: User = {
+      ...user,
+      suspendedAt: now,
+      suspensionReason: reason,
+      updatedAt: now,
+    };
+    this.users.set(id, suspended);
+    const listing = Array.from(this.vendorListings.values()).find(
+      (l) => l.userId === id,
+    );
+    if (listing) {
+      if (!listing.hiddenAt) {
+        this.vendorListings.set(listing.id, {
+          ...listing,
+          hiddenAt: now,
+          hiddenReason: reason,
+          updatedAt: now,
+        });
+      }
+      for (const deal of this.deals.values()) {
+        if (deal.vendorId === listing.id && !deal.hiddenAt) {
+          this.deals.set(deal.id, {
+            ...deal,
+            hiddenAt: now,
+            hiddenReason: reason,
+            updatedAt: now,
+          });
+        }
+      }
+    }
+    this.logAdminAction(audit);
+    return suspended;
+  }
+
+  async unsuspendUser(
+    id: string,
+    audit: InsertAdminAuditEntry,
+  ): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user?.suspendedAt) return undefined;
+
+    const suspendedAt = user.suspendedAt.getTime();
+    const now = new Date();
+    const restored: User = {
+      ...user,
+      suspendedAt: null,
+      suspensionReason: null,
+      updatedAt: now,
+    };
+    this.users.set(id, restored);
+    const listing = Array.from(this.vendorListings.values()).find(
+      (l) => l.userId === id,
+    );
+    if (listing) {
+      if (listing.hiddenAt?.getTime() === suspendedAt) {
+        this.vendorListings.set(listing.id, {
+          ...listing,
+          hiddenAt: null,
+          hiddenReason: null,
+          updatedAt: now,
+        });
+      }
+      for (const deal of this.deals.values()) {
+        if (
+          deal.vendorId === listing.id &&
+          deal.hiddenAt?.getTime() === suspendedAt
+        ) {
+          this.deals.set(deal.id, {
+            ...deal,
+            hiddenAt: null,
+            hiddenReason: null,
+            updatedAt: now,
+          });
+        }
+      }
+    }
+    this.logAdminAction(audit);
+    return restored;
+  }
+
+  async changeUserRole(
+    id: string,
+    from: UserRole,
+    to: UserRole,
+    audit: InsertAdminAuditEntry,
+  ): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user || user.role !== from) return undefined;
+
+    const updated: User = { ...user, role: to, updatedAt: new Date() };
+    this.users.set(id, updated);
+    this.logAdminAction(audit);
+    return updated;
+  }
+
+  async setVendorListingHidden(
+    id: string,
+    reason: string | null,
+    audit: InsertAdminAuditEntry,
+  ): Promise<VendorListing | undefined> {
+    const listing = this.vendorListings.get(id);
+    if (!listing || !!listing.hiddenAt === !!reason) return undefined;
+
+    const updated: VendorListing = {
+      ...listing,
+      hiddenAt: reason ? new Date() : null,
+      hiddenReason: reason,
+      updatedAt: new Date(),
+    };
+    this.vendorListings.set(id, updated);
+    this.logAdminAction(audit);
+    return updated;
+  }
+
+  async setDealHidden(
+    id: string,
+    reason: string | null,
+    audit: InsertAdminAuditEntry,
+  ): Promise<Deal | undefined> {
+    const deal = this.deals.get(id);
+    if (!deal || !!deal.hiddenAt === !!reason) return undefined;
+
+    const updated: Deal = {
+      ...deal,
+      hiddenAt: reason ? new Date() : null,
+      hiddenReason: reason,
+      updatedAt: new Date(),
+    };
+    this.deals.set(id, updated);
+    this.logAdminAction(audit);
+    return updated;
+  }
+
+  async setReviewHidden(
+    id: string,
+    reason: string | null,
+    audit: InsertAdminAuditEntry,
+  ): Promise<Review | undefined> {
+    const review = this.reviews.get(id);
+    if (!review || !!review.hiddenAt === !!reason) return undefined;
+
+    const updated: Review = {
+      ...review,
+      hiddenAt: reason ? new Date() : null,
+      hiddenReason: reason,
+      updatedAt: new Date(),
+    };
+    this.reviews.set(id, updated);
+    this.logAdminAction(audit);
+    return updated;
+  }
+
+  async setPhotoHidden(
+    id: string,
+    reason: string | null,
+    audit: InsertAdminAuditEntry,
+  ): Promise<Photo | undefined> {
+    const photo = this.photos.get(id);
+    if (!photo || !!photo.hiddenAt === !!reason) return undefined;
+
+    const updated: Photo = {
+      ...photo,
+      hiddenAt: reason ? new Date() : null,
+      hiddenReason: reason,
+    };
+    this.photos.set(id, updated);
+    this.logAdminAction(audit);
+    return updated;
+  }
+
+  // Admin audit log
+
+  private logAdminAction(entry: InsertAdminAuditEntry): void {
+    this.adminAuditLog.push({
+      id: randomUUID(),
+      adminId: entry.adminId,
+      action: entry.action,
+      targetType: entry.targetType,
+      targetId: entry.targetId,
+      reason: entry.reason,
+      details: entry.details ?? null,
+      createdAt: new Date(),
+    });
+  }
+
+  async getAdminAuditLog(
+    filters: AdminAuditFilters,
+    limit: number,
+  ): Promise<AdminAuditEntry[]> {
+    return this.adminAuditLog
+      .filter(
+        (e) =>
+          (!filters.adminId || e.adminId === filters.adminId) &&
+          (!filters.targetType || e.targetType === filters.targetType) &&
+          (!filters.targetId || e.targetId === filters.targetId),
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  private generateUnusedCode(vendorId: string): string {
+    // Passes that expired unused give their codes back, as in the database
+    const now = Date.now();
+    for (const [key, r] of this.dealRedemptions) {
+      if (
+        r.vendorId === vendorId &&
+        r.code &&
+        !r.verifiedAt &&
+        r.expiresAt.getTime() <= now
+      ) {
+        this.dealRedemptions.set(key, { ...r, code: null });
+      }
+    }
+
+    let code = generateRedemptionCode();
+    while (
+      Array.from(this.dealRedemptions.values()).some(
+        (r) => r.vendorId === vendorId && r.code === code && !r.verifiedAt,
+      )
+    ) {
+      code = generateRedemptionCode();
+    }
+    return code;
+  }
+
+  private generateUnusedVoucherCode(vendorId: string | null): string {
+    const now = Date.now();
+    for (const v of this.rewardVouchers.values()) {
+      if (
+        v.vendorId === vendorId &&
+        v.code &&
+        v.status === "active" &&
+        v.expiresAt.getTime() <= now
+      ) {
+        this.rewardVouchers.set(v.id, { ...v, code: null });
+      }
+    }
+
+    let code = generateRedemptionCode();
+    while (
+      Array.from(this.rewardVouchers.values()).some(
+        (v) =>
+          v.vendorId === vendorId && v.code === code && v.status === "active",
+      )
+    ) {
+      code = generateRedemptionCode();
+    }
+    return code;
   }
 
   // Helper method to get all users (for debugging)
@@ -203,7 +5434,9 @@ function createStorage(): IStorage {
  */
 export function fallbackToMemStorage() {
   if (_storage instanceof MemStorage) return;
-  console.log("[Storage] Falling back to in-memory storage (database unreachable)");
+  console.log(
+    "[Storage] Falling back to in-memory storage (database unreachable)",
+  );
   _storage = new MemStorage();
 }
 
@@ -2,39 +2,153 @@ import type { Express, Request, Response } from "express";
 import {
   insertVendorListingSchema,
   updateVendorLocationSchema,
+  type Boost,
   type VendorListing,
-  type InsertVendorListing,
-  type UpdateVendorLocation,
 } from "../shared/schema";
 import { z } from "zod";
 import { authMiddleware } from "./auth";
+import { storage } from "./storage";
+import {
+  getBoundingBox,
+  haversineMiles,
+  splitAtAntimeridian,
+  type GeoBounds,
+} from "./geo";
+import { getOpenStatuses, type OpenStatus } from "./hours";
+import { deletePhotosFor, getPhotosFor } from "./photos";
+import { getActiveBoostMap, getBoostMultiplier, toFeatured } from "./boosts";
+
+// Rate limiting for location updates (1 update per hour for free tier).
+// Based on the listing's persisted lastLocationUpdate so it survives restarts.
+const LOCATION_UPDATE_COOLDOWN_MS = 60 * 60 * 1000; // 1 hour
 
-// In-memory storage for vendor listings (replace with database in production)
-// This can be easily migrated to PostgreSQL with Drizzle when ready
-const vendorListings: Map<string, VendorListing> = new Map();
+// Geospatial search limits
+const DEFAULT_SEARCH_RADIUS_MILES = 10;
+export const MAX_SEARCH_RADIUS_MILES = 100;
+const MAX_GEO_RESULTS = 200;
+
+const nearbyQuerySchema = z.object({
+  lat: z.coerce.number().min(-90).max(90),
+  lng: z.coerce.number().min(-180).max(180),
+  radiusMiles: z.coerce
+    .number()
+    .positive()
+    .max(MAX_SEARCH_RADIUS_MILES)
+    .default(DEFAULT_SEARCH_RADIUS_MILES),
+});
+
+const inBoundsQuerySchema = z
+  .object({
+    north: z.coerce.number().min(-90).max(90),
+    south: z.coerce.number().min(-90).max(90),
+    east: z.coerce.number().min(-180).max(180),
+    west: z.coerce.number().min(-180).max(180),
+    // Optional reference point for distances; defaults to the box center
+    lat: z.coerce.number().min(-90).max(90).optional(),
+    lng: z.coerce.number().min(-180).max(180).optional(),
+  })
+  .refine((q) => q.north >= q.south, { message: "north must be >= south" });
+
+// Public vendor shape (excludes sensitive data: userId, phone, etc.)
+export function toPublicVendor(
+  v: VendorListing,
+  status?: OpenStatus,
+  boost?: Boost,
+) {
+  return {
+    id: v.id,
+    businessName: v.businessName,
+    category: v.category,
+    description: v.description,
+    locationLat: v.locationLat,
+    locationLng: v.locationLng,
+    city: v.city,
+    state: v.state,
+    lastLocationUpdate: v.lastLocationUpdate,
+    isOpen: status?.isOpen ?? null,
+    statusLabel: status?.statusLabel ?? null,
+    featured: toFeatured(boost),
+  };
+}
 
-// Rate limiting for location updates (1 update per hour for free tier)
-const locationUpdateTimestamps: Map<string, Date> = new Map();
-const LOCATION_UPDATE_COOLDOWN_MS = 60 * 60 * 1000; // 1 hour
+export async function getListingsInBounds(
+  bounds: GeoBounds,
+): Promise<VendorListing[]> {
+  const parts = await Promise.all(
+    splitAtAntimeridian(bounds).map((b) =>
+      storage.getVendorListingsInBounds(b),
+    ),
+  );
+  return parts.flat();
+}
 
-function generateId(): string {
-  return `vl_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+// Attach distance from the reference point and sort nearest first; boosted
+// vendors rank as if they were closer by their boost multiplier
+async function withDistances(
+  listings: VendorListing[],
+  lat: number,
+  lng: number,
+) {
+  const [statuses, boosts] = await Promise.all([
+    getOpenStatuses(listings),
+    getActiveBoostMap(listings.map((v) => v.id)),
+  ]);
+  const rankDistance = (v: { id: string; distanceMiles: number }) =>
+    v.distanceMiles / getBoostMultiplier(boosts.get(v.id));
+  return listings
+    .map((v) => ({
+      ...toPublicVendor(v, statuses.get(v.id), boosts.get(v.id)),
+      distanceMiles:
+        Math.round(
+          haversineMiles(lat, lng, v.locationLat, v.locationLng) * 100,
+        ) / 100,
+    }))
+    .sort((a, b) => rankDistance(a) - rankDistance(b));
 }
 
-function canUpdateLocation(userId: string): { allowed: boolean; waitTime?: number } {
-  const lastUpdate = locationUpdateTimestamps.get(userId);
+export function getTierLimits(tier: string) {
+  const isFree = tier === "free";
+  const isPro = tier === "pro_monthly" || tier === "pro_yearly";
+  return {
+    staticLocationOnly: isFree,
+    locationUpdateCooldownMinutes: isFree ? 60 : 0,
+    noRealTimeTracking: isFree,
+    noPromotions: isFree,
+    noPriorityPlacement: isFree,
+    noSponsoredChallenges: !isPro,
+    // Uploaded photos allowed per listing / menu item / deal
+    maxPhotos: {
+      listing: isFree ? 3 : 12,
+      menu_item: isFree ? 1 : 4,
+      deal: isFree ? 1 : 4,
+    },
+  };
+}
+
+function canUpdateLocation(listing: VendorListing): {
+  allowed: boolean;
+  waitTime?: number;
+} {
+  // Paid tiers are not rate limited
+  if (listing.vendorTier !== "free") {
+    return { allowed: true };
+  }
+
+  const lastUpdate = listing.lastLocationUpdate;
   if (!lastUpdate) {
     return { allowed: true };
   }
 
-  const timeSinceUpdate = Date.now() - lastUpdate.getTime();
+  const timeSinceUpdate = Date.now() - new Date(lastUpdate).getTime();
   if (timeSinceUpdate >= LOCATION_UPDATE_COOLDOWN_MS) {
     return { allowed: true };
   }
 
   return {
     allowed: false,
-    waitTime: Math.ceil((LOCATION_UPDATE_COOLDOWN_MS - timeSinceUpdate) / 60000)
+    waitTime: Math.ceil(
+      (LOCATION_UPDATE_COOLDOWN_MS - timeSinceUpdate) / 60000,
+    ),
   };
 }
 
@@ -44,22 +158,21 @@ export function registerVendorListingRoutes(app: Express): void {
   // ==========================================
 
   // GET /api/vendors/public - Get all free vendor listings for map display
-  app.get("/api/vendors/public", (_req: Request, res: Response) => {
+  app.get("/api/vendors/public", async (_req: Request, res: Response) => {
     try {
-      const listings = Array.from(vendorListings.values())
-        .filter((v) => v.vendorTier === "free")
-        .map((v) => ({
-          id: v.id,
-          businessName: v.businessName,
-          category: v.category,
-          description: v.description,
-          locationLat: v.locationLat,
-          locationLng: v.locationLng,
-          city: v.city,
-          state: v.state,
-          lastLocationUpdate: v.lastLocationUpdate,
-          // Exclude sensitive data: userId, phone, etc.
-        }));
+      const all = await storage.getVendorListingsByTier("free");
+      const [statuses, boosts] = await Promise.all([
+        getOpenStatuses(all),
+        getActiveBoostMap(all.map((v) => v.id)),
+      ]);
+      // Featured vendors first, strongest boost first
+      const listings = [...all]
+        .sort(
+          (a, b) =>
+            getBoostMultiplier(boosts.get(b.id)) -
+            getBoostMultiplier(boosts.get(a.id)),
+        )
+        .map((v) => toPublicVendor(v, statuses.get(v.id), boosts.get(v.id)));
 
       res.json({ vendors: listings, count: listings.length });
     } catch (error) {
@@ -68,15 +181,81 @@ export function registerVendorListingRoutes(app: Express): void {
     }
   });
 
+  // GET /api/vendors/nearby - Vendors within radiusMiles of a point, nearest first
+  app.get("/api/vendors/nearby", async (req: Request, res: Response) => {
+    try {
+      const { lat, lng, radiusMiles } = nearbyQuerySchema.parse(req.query);
+
+      const candidates = await getListingsInBounds(
+        getBoundingBox(lat, lng, radiusMiles),
+      );
+      const vendors = (await withDistances(candidates, lat, lng))
+        .filter((v) => v.distanceMiles <= radiusMiles)
+        .slice(0, MAX_GEO_RESULTS);
+
+      res.json({ vendors, count: vendors.length, radiusMiles });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: error.errors,
+        });
+      }
+      console.error("Error fetching nearby vendors:", error);
+      res.status(500).json({ error: "Failed to fetch vendors" });
+    }
+  });
+
+  // GET /api/vendors/in-bounds - Vendors inside a map viewport, nearest to its center first
+  app.get("/api/vendors/in-bounds", async (req: Request, res: Response) => {
+    try {
+      const { north, south, east, west, lat, lng } = inBoundsQuerySchema.parse(
+        req.query,
+      );
+
+      const centerLat = lat ?? (north + south) / 2;
+      // Midpoint of a viewport that crosses the antimeridian wraps around
+      const centerLng =
+        lng ??
+        (west <= east
+          ? (west + east) / 2
+          : (((west + east + 360) / 2 + 180) % 360) - 180);
+
+      const candidates = await getListingsInBounds({
+        north,
+        south,
+        east,
+        west,
+      });
+      const vendors = (
+        await withDistances(candidates, centerLat, centerLng)
+      ).slice(0, MAX_GEO_RESULTS);
+
+      res.json({ vendors, count: vendors.length });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: error.errors,
+        });
+      }
+      console.error("Error fetching vendors in bounds:", error);
+      res.status(500).json({ error: "Failed to fetch vendors" });
+    }
+  });
+
   // GET /api/vendors/public/:id - Get single vendor public info
-  app.get("/api/vendors/public/:id", (req: Request, res: Response) => {
+  app.get("/api/vendors/public/:id", async (req: Request, res: Response) => {
     try {
-      const vendor = vendorListings.get(req.params.id);
+      const vendor = await storage.getVendorListing(req.params.id);
 
-      if (!vendor || vendor.vendorTier !== "free") {
+      if (!vendor || vendor.vendorTier !== "free" || vendor.hiddenAt) {
         return res.status(404).json({ error: "Vendor not found" });
       }
 
+      const status = (await getOpenStatuses([vendor])).get(vendor.id)!;
+      const boost = (await getActiveBoostMap([vendor.id])).get(vendor.id);
+
       res.json({
         id: vendor.id,
         businessName: vendor.businessName,
@@ -88,6 +267,10 @@ export function registerVendorListingRoutes(app: Express): void {
         city: vendor.city,
         state: vendor.state,
         lastLocationUpdate: vendor.lastLocationUpdate,
+        timezone: vendor.timezone,
+        productPhotos: await getPhotosFor("listing", vendor.id),
+        ...status,
+        featured: toFeatured(boost),
       });
     } catch (error) {
       console.error("Error fetching vendor:", error);
@@ -100,223 +283,245 @@ export function registerVendorListingRoutes(app: Express): void {
   // ==========================================
 
   // POST /api/vendors/listing - Create a new vendor listing
-  app.post("/api/vendors/listing", authMiddleware, (req: Request, res: Response) => {
-    try {
-      const userId = req.user!.userId;
-      const { userId: _ignoredUserId, ...listingData } = req.body;
+  app.post(
+    "/api/vendors/listing",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const userId = req.user!.userId;
+        const { userId: _ignoredUserId, ...listingData } = req.body;
+
+        // Check if vendor already has a listing
+        const existingListing = await storage.getVendorListingByUserId(userId);
+
+        if (existingListing) {
+          return res.status(400).json({
+            error: "You already have a listing. Use PUT to update it.",
+            existingId: existingListing.id,
+          });
+        }
 
-      // Check if vendor already has a listing
-      const existingListing = Array.from(vendorListings.values()).find(
-        (v) => v.userId === userId
-      );
+        // Validate input
+        const validatedData = insertVendorListingSchema.parse(listingData);
 
-      if (existingListing) {
-        return res.status(400).json({
-          error: "You already have a listing. Use PUT to update it.",
-          existingId: existingListing.id
+        const newListing = await storage.createVendorListing(userId, {
+          ...validatedData,
+          vendorTier: "free",
         });
-      }
 
-      // Validate input
-      const validatedData = insertVendorListingSchema.parse(listingData);
-
-      const now = new Date();
-      const newListing: VendorListing = {
-        id: generateId(),
-        userId,
-        businessName: validatedData.businessName,
-        category: validatedData.category,
-        description: validatedData.description ?? null,
-        phone: validatedData.phone ?? null,
-        locationLat: validatedData.locationLat,
-        locationLng: validatedData.locationLng,
-        city: validatedData.city,
-        state: validatedData.state,
-        vendorTier: "free",
-        createdAt: now,
-        updatedAt: now,
-        lastLocationUpdate: now,
-      };
-
-      vendorListings.set(newListing.id, newListing);
-      locationUpdateTimestamps.set(userId, now);
-
-      res.status(201).json({
-        message: "Listing created successfully",
-        listing: newListing
-      });
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({
-          error: "Validation failed",
-          details: error.errors
+        res.status(201).json({
+          message: "Listing created successfully",
+          listing: newListing,
         });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error creating listing:", error);
+        res.status(500).json({ error: "Failed to create listing" });
       }
-      console.error("Error creating listing:", error);
-      res.status(500).json({ error: "Failed to create listing" });
-    }
-  });
+    },
+  );
 
   // GET /api/vendors/listing/my - Get current vendor's listing
-  app.get("/api/vendors/listing/my", authMiddleware, (req: Request, res: Response) => {
-    try {
-      const userId = req.user!.userId;
-
-      const listing = Array.from(vendorListings.values()).find(
-        (v) => v.userId === userId
-      );
+  app.get(
+    "/api/vendors/listing/my",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const userId = req.user!.userId;
+
+        const listing = await storage.getVendorListingByUserId(userId);
+
+        if (!listing) {
+          return res
+            .status(404)
+            .json({ error: "No listing found", hasListing: false });
+        }
 
-      if (!listing) {
-        return res.status(404).json({ error: "No listing found", hasListing: false });
+        // Check if location can be updated
+        const locationUpdateStatus = canUpdateLocation(listing);
+
+        res.json({
+          listing: {
+            ...listing,
+            productPhotos: await getPhotosFor("listing", listing.id),
+          },
+          hasListing: true,
+          canUpdateLocation: locationUpdateStatus.allowed,
+          locationUpdateWaitMinutes: locationUpdateStatus.waitTime || 0,
+          tier: listing.vendorTier,
+          tierLimits: getTierLimits(listing.vendorTier),
+        });
+      } catch (error) {
+        console.error("Error fetching my listing:", error);
+        res.status(500).json({ error: "Failed to fetch listing" });
       }
-
-      // Check if location can be updated
-      const locationUpdateStatus = canUpdateLocation(userId);
-
-      res.json({
-        listing,
-        hasListing: true,
-        canUpdateLocation: locationUpdateStatus.allowed,
-        locationUpdateWaitMinutes: locationUpdateStatus.waitTime || 0,
-        tier: "free",
-        tierLimits: {
-          staticLocationOnly: true,
-          locationUpdateCooldownMinutes: 60,
-          noRealTimeTracking: true,
-          noPromotions: true,
-          noPriorityPlacement: true,
-        }
-      });
-    } catch (error) {
-      console.error("Error fetching my listing:", error);
-      res.status(500).json({ error: "Failed to fetch listing" });
-    }
-  });
+    },
+  );
 
   // PUT /api/vendors/listing/:id - Update vendor listing details
-  app.put("/api/vendors/listing/:id", authMiddleware, (req: Request, res: Response) => {
-    try {
-      const userId = req.user!.userId;
-      const listingId = req.params.id;
+  app.put(
+    "/api/vendors/listing/:id",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const userId = req.user!.userId;
+        const listingId = req.params.id;
+
+        const listing = await storage.getVendorListing(listingId);
+
+        if (!listing) {
+          return res.status(404).json({ error: "Listing not found" });
+        }
 
-      const listing = vendorListings.get(listingId);
+        if (listing.userId !== userId) {
+          return res
+            .status(403)
+            .json({ error: "Not authorized to update this listing" });
+        }
 
-      if (!listing) {
-        return res.status(404).json({ error: "Listing not found" });
-      }
+        const {
+          businessName,
+          category,
+          description,
+          phone,
+          acceptsRewardVouchers,
+        } = req.body;
+
+        const updatedListing = await storage.updateVendorListing(listingId, {
+          businessName: businessName || listing.businessName,
+          category: category || listing.category,
+          description:
+            description !== undefined ? description : listing.description,
+          phone: phone !== undefined ? phone : listing.phone,
+          acceptsRewardVouchers:
+            typeof acceptsRewardVouchers === "boolean"
+              ? acceptsRewardVouchers
+              : listing.acceptsRewardVouchers,
+        });
 
-      if (listing.userId !== userId) {
-        return res.status(403).json({ error: "Not authorized to update this listing" });
+        res.json({
+          message: "Listing updated successfully",
+          listing: updatedListing,
+        });
+      } catch (error) {
+        console.error("Error updating listing:", error);
+        res.status(500).json({ error: "Failed to update listing" });
       }
-
-      const { businessName, category, description, phone } = req.body;
-
-      const updatedListing: VendorListing = {
-        ...listing,
-        businessName: businessName || listing.businessName,
-        category: category || listing.category,
-        description: description !== undefined ? description : listing.description,
-        phone: phone !== undefined ? phone : listing.phone,
-        updatedAt: new Date(),
-      };
-
-      vendorListings.set(listingId, updatedListing);
-
-      res.json({
-        message: "Listing updated successfully",
-        listing: updatedListing
-      });
-    } catch (error) {
-      console.error("Error updating listing:", error);
-      res.status(500).json({ error: "Failed to update listing" });
-    }
-  });
+    },
+  );
 
   // PATCH /api/vendors/listing/:id/location - Update location (rate limited)
-  app.patch("/api/vendors/listing/:id/location", authMiddleware, (req: Request, res: Response) => {
-    try {
-      const userId = req.user!.userId;
-      const listingId = req.params.id;
+  app.patch(
+    "/api/vendors/listing/:id/location",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const userId = req.user!.userId;
+        const listingId = req.params.id;
+
+        const listing = await storage.getVendorListing(listingId);
+
+        if (!listing) {
+          return res.status(404).json({ error: "Listing not found" });
+        }
 
-      const listing = vendorListings.get(listingId);
+        if (listing.userId !== userId) {
+          return res
+            .status(403)
+            .json({ error: "Not authorized to update this listing" });
+        }
 
-      if (!listing) {
-        return res.status(404).json({ error: "Listing not found" });
-      }
+        // Check rate limit
+        const updateStatus = canUpdateLocation(listing);
+        if (!updateStatus.allowed) {
+          return res.status(429).json({
+            error: "Location update rate limit exceeded",
+            waitMinutes: updateStatus.waitTime,
+            message: `Free tier allows 1 location update per hour. Please wait ${updateStatus.waitTime} minutes.`,
+          });
+        }
 
-      if (listing.userId !== userId) {
-        return res.status(403).json({ error: "Not authorized to update this listing" });
-      }
+        // Validate location data
+        const validatedLocation = updateVendorLocationSchema.parse(req.body);
 
-      // Check rate limit
-      const updateStatus = canUpdateLocation(userId);
-      if (!updateStatus.allowed) {
-        return res.status(429).json({
-          error: "Location update rate limit exceeded",
-          waitMinutes: updateStatus.waitTime,
-          message: `Free tier allows 1 location update per hour. Please wait ${updateStatus.waitTime} minutes.`
+        const now = new Date();
+        const updatedListing = await storage.updateVendorListing(listingId, {
+          locationLat: validatedLocation.locationLat,
+          locationLng: validatedLocation.locationLng,
+          city: validatedLocation.city || listing.city,
+          state: validatedLocation.state || listing.state,
+          lastLocationUpdate: now,
         });
-      }
-
-      // Validate location data
-      const validatedLocation = updateVendorLocationSchema.parse(req.body);
 
-      const now = new Date();
-      const updatedListing: VendorListing = {
-        ...listing,
-        locationLat: validatedLocation.locationLat,
-        locationLng: validatedLocation.locationLng,
-        city: validatedLocation.city || listing.city,
-        state: validatedLocation.state || listing.state,
-        updatedAt: now,
-        lastLocationUpdate: now,
-      };
-
-      vendorListings.set(listingId, updatedListing);
-      locationUpdateTimestamps.set(userId, now);
-
-      res.json({
-        message: "Location updated successfully",
-        listing: updatedListing,
-        nextUpdateAvailable: new Date(now.getTime() + LOCATION_UPDATE_COOLDOWN_MS).toISOString()
-      });
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({
-          error: "Validation failed",
-          details: error.errors
+        res.json({
+          message: "Location updated successfully",
+          listing: updatedListing,
+          nextUpdateAvailable: new Date(
+            now.getTime() + LOCATION_UPDATE_COOLDOWN_MS,
+          ).toISOString(),
         });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: error.errors,
+          });
+        }
+        console.error("Error updating location:", error);
+        res.status(500).json({ error: "Failed to update location" });
       }
-      console.error("Error updating location:", error);
-      res.status(500).json({ error: "Failed to update location" });
-    }
-  });
+    },
+  );
 
   // DELETE /api/vendors/listing/:id - Delete vendor listing
-  app.delete("/api/vendors/listing/:id", authMiddleware, (req: Request, res: Response) => {
-    try {
-      const userId = req.user!.userId;
-      const listingId = req.params.id;
-
-      const listing = vendorListings.get(listingId);
+  app.delete(
+    "/api/vendors/listing/:id",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const userId = req.user!.userId;
+        const listingId = req.params.id;
+
+        const listing = await storage.getVendorListing(listingId);
+
+        if (!listing) {
+          return res.status(404).json({ error: "Listing not found" });
+        }
 
-      if (!listing) {
-        return res.status(404).json({ error: "Listing not found" });
-      }
+        if (listing.userId !== userId) {
+          return res
+            .status(403)
+            .json({ error: "Not authorized to delete this listing" });
+        }
 
-      if (listing.userId !== userId) {
-        return res.status(403).json({ error: "Not authorized to delete this listing" });
+        const [menuItems, deals] = await Promise.all([
+          storage.getMenuItems(listingId),
+          storage.getDealsByVendor(listingId),
+        ]);
+        await deletePhotosFor("listing", [listingId]);
+        await deletePhotosFor(
+          "menu_item",
+          menuItems.map((i) => i.id),
+        );
+        await deletePhotosFor(
+          "deal",
+          deals.map((d) => d.id),
+        );
+
+        await storage.deleteVendorListing(listingId);
+
+        res.json({ message: "Listing deleted successfully" });
+      } catch (error) {
+        console.error("Error deleting listing:", error);
+        res.status(500).json({ error: "Failed to delete listing" });
       }
-
-      vendorListings.delete(listingId);
-      locationUpdateTimestamps.delete(userId);
-
-      res.json({ message: "Listing deleted successfully" });
-    } catch (error) {
-      console.error("Error deleting listing:", error);
-      res.status(500).json({ error: "Failed to delete listing" });
-    }
-  });
+    },
+  );
 
   console.log("Vendor listing routes registered");
 }
@@ -1,5 +1,16 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, doublePrecision, integer, boolean } from "drizzle-orm/pg-core";
+import {
+  pgTable,
+  text,
+  varchar,
+  timestamp,
+  doublePrecision,
+  integer,
+  boolean,
+  jsonb,
+  index,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -7,6 +18,9 @@ import { z } from "zod";
 export const userRoleEnum = z.enum(["customer", "vendor", "admin"]);
 export type UserRole = z.infer<typeof userRoleEnum>;
 
+// Roles a user may pick for themselves; admins are only granted by another admin
+export const signupRoleEnum = z.enum(["customer", "vendor"]);
+
 export const users = pgTable("users", {
   id: varchar("id")
     .primaryKey()
@@ -24,6 +38,11 @@ export const users = pgTable("users", {
   appleId: text("apple_id").unique(),
   googleId: text("google_id").unique(),
   authProvider: text("auth_provider").notNull().default("email"), // email, apple, google
+  shareWithVendors: boolean("share_with_vendors").notNull().default(true), // false hides the customer from vendor customer lists
+  profileHidden: boolean("profile_hidden").notNull().default(false), // Shown as "Anonymous" on leaderboards
+  suspendedAt: timestamp("suspended_at"), // Set by an admin; suspended users can't sign in
+  suspensionReason: text("suspension_reason"),
+  tokensRevokedAt: timestamp("tokens_revoked_at"), // Access tokens issued before this are rejected
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
   lastLoginAt: timestamp("last_login_at"),
@@ -34,7 +53,7 @@ export const registerUserSchema = z.object({
   email: z.string().email("Invalid email address"),
   username: z.string().min(3, "Username must be at least 3 characters").max(30),
   password: z.string().min(8, "Password must be at least 8 characters"),
-  role: userRoleEnum.default("customer"),
+  role: signupRoleEnum.default("customer"),
   firstName: z.string().max(50).optional(),
   lastName: z.string().max(50).optional(),
 });
@@ -49,7 +68,7 @@ export const loginUserSchema = z.object({
 export const socialAuthSchema = z.object({
   provider: z.enum(["apple", "google"]),
   identityToken: z.string().min(1, "Identity token is required"),
-  role: userRoleEnum.optional(),
+  role: signupRoleEnum.optional(),
   firstName: z.string().max(50).optional(),
   lastName: z.string().max(50).optional(),
 });
@@ -62,12 +81,19 @@ export const insertUserSchema = createInsertSchema(users).omit({
   updatedAt: true,
   lastLoginAt: true,
   emailVerified: true,
+  suspendedAt: true,
+  suspensionReason: true,
+  tokensRevokedAt: true,
 });
 
 export const selectUserSchema = createSelectSchema(users);
 
 // Safe user type (without password and social auth IDs — authProvider is kept for client UI)
-export const safeUserSchema = selectUserSchema.omit({ password: true, appleId: true, googleId: true });
+export const safeUserSchema = selectUserSchema.omit({
+  password: true,
+  appleId: true,
+  googleId: true,
+});
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
@@ -121,32 +147,75 @@ export const vendorCategoryEnum = z.enum([
 export type VendorCategory = z.infer<typeof vendorCategoryEnum>;
 
 // Vendor tier enum
-export const vendorTierEnum = z.enum(["free", "starter", "pro_monthly", "pro_yearly"]);
+export const vendorTierEnum = z.enum([
+  "free",
+  "starter",
+  "pro_monthly",
+  "pro_yearly",
+]);
 export type VendorTier = z.infer<typeof vendorTierEnum>;
 
 // Subscription status enum
-export const subscriptionStatusEnum = z.enum(["active", "canceled", "past_due", "trialing", "incomplete"]);
+export const subscriptionStatusEnum = z.enum([
+  "active",
+  "canceled",
+  "past_due",
+  "trialing",
+  "incomplete",
+]);
 export type SubscriptionStatus = z.infer<typeof subscriptionStatusEnum>;
 
 // Vendor Listings table for the FREE "Listed & Discovery" tier
-export const vendorListings = pgTable("vendor_listings", {
-  id: varchar("id")
-    .primaryKey()
-    .default(sql`gen_random_uuid()`),
-  userId: varchar("user_id").notNull(), // Owner of this listing (vendor)
-  businessName: text("business_name").notNull(),
-  category: text("category").notNull(), // food_truck, restaurant, vendor
-  description: text("description"),
-  phone: text("phone"),
-  locationLat: doublePrecision("location_lat").notNull(),
-  locationLng: doublePrecision("location_lng").notNull(),
-  city: text("city").notNull(),
-  state: text("state").notNull(),
-  vendorTier: text("vendor_tier").notNull().default("free"),
-  createdAt: timestamp("created_at").defaultNow().notNull(),
-  updatedAt: timestamp("updated_at").defaultNow().notNull(),
-  lastLocationUpdate: timestamp("last_location_update").defaultNow().notNull(),
-});
+export const vendorListings = pgTable(
+  "vendor_listings",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull(), // Owner of this listing (vendor)
+    businessName: text("business_name").notNull(),
+    category: text("category").notNull(), // food_truck, restaurant, vendor
+    description: text("description"),
+    phone: text("phone"),
+    locationLat: doublePrecision("location_lat").notNull(),
+    locationLng: doublePrecision("location_lng").notNull(),
+    city: text("city").notNull(),
+    state: text("state").notNull(),
+    vendorTier: text("vendor_tier").notNull().default("free"),
+    timezone: text("timezone").notNull().default("UTC"), // IANA zone the operating hours are in
+    acceptsRewardVouchers: boolean("accepts_reward_vouchers")
+      .notNull()
+      .default(false), // Honors platform-wide catalog vouchers
+    hiddenAt: timestamp("hidden_at"), // Hidden by an admin; left out of public results until restored
+    hiddenReason: text("hidden_reason"), // Shown to the vendor
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+    lastLocationUpdate: timestamp("last_location_update")
+      .defaultNow()
+      .notNull(),
+  },
+  // Serves the bounding-box prefilter for nearby / in-bounds queries
+  (table) => [
+    index("vendor_listings_location_idx").on(
+      table.locationLat,
+      table.locationLng,
+    ),
+  ],
+);
+
+// IANA time zone name, e.g. "America/Los_Angeles"
+export const timeZoneSchema = z
+  .string()
+  .min(1)
+  .max(64)
+  .refine((tz) => {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone: tz });
+      return true;
+    } catch {
+      return false;
+    }
+  }, "Unknown time zone");
 
 // Zod schemas for vendor listings
 export const insertVendorListingSchema = createInsertSchema(vendorListings, {
@@ -159,7 +228,16 @@ export const insertVendorListingSchema = createInsertSchema(vendorListings, {
   city: z.string().min(1, "City is required").max(100),
   state: z.string().min(1, "State is required").max(50),
   vendorTier: vendorTierEnum.default("free"),
-}).omit({ id: true, userId: true, createdAt: true, updatedAt: true, lastLocationUpdate: true });
+  timezone: timeZoneSchema.optional(),
+}).omit({
+  id: true,
+  userId: true,
+  hiddenAt: true,
+  hiddenReason: true,
+  createdAt: true,
+  updatedAt: true,
+  lastLocationUpdate: true,
+});
 
 export const updateVendorLocationSchema = z.object({
   locationLat: z.number().min(-90).max(90),
@@ -168,12 +246,113 @@ export const updateVendorLocationSchema = z.object({
   state: z.string().min(1).max(50).optional(),
 });
 
+// GPS fix published by a vendor while their truck is live
+export const liveLocationSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  heading: z.number().min(0).max(360).optional(),
+  address: z.string().max(200).optional(),
+});
+
 export const selectVendorListingSchema = createSelectSchema(vendorListings);
 
 export type InsertVendorListing = z.infer<typeof insertVendorListingSchema>;
 export type UpdateVendorLocation = z.infer<typeof updateVendorLocationSchema>;
+export type LiveLocation = z.infer<typeof liveLocationSchema>;
 export type VendorListing = typeof vendorListings.$inferSelect;
 
+// Weekly operating hours in the vendor's timezone. Several rows on one day
+// make split shifts; a closing time before the opening time runs past midnight,
+// and equal times mean open 24 hours.
+export const vendorHours = pgTable(
+  "vendor_hours",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    vendorId: varchar("vendor_id").notNull(), // vendor_listings.id
+    dayOfWeek: integer("day_of_week").notNull(), // 0 = Sunday
+    opensAt: text("opens_at").notNull(), // "HH:MM", 24-hour
+    closesAt: text("closes_at").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("vendor_hours_vendor_idx").on(table.vendorId)],
+);
+
+// One-off closures or special hours on a local date; replace the weekly hours for that date
+export const vendorSpecialHours = pgTable(
+  "vendor_special_hours",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    vendorId: varchar("vendor_id").notNull(), // vendor_listings.id
+    date: text("date").notNull(), // "YYYY-MM-DD" in the vendor's timezone
+    isClosed: boolean("is_closed").notNull().default(false),
+    opensAt: text("opens_at"), // Required unless closed
+    closesAt: text("closes_at"),
+    note: text("note"), // e.g. "Thanksgiving"
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("vendor_special_hours_vendor_date_idx").on(
+      table.vendorId,
+      table.date,
+    ),
+  ],
+);
+
+export const calendarDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD")
+  .refine(
+    (d) =>
+      !isNaN(Date.parse(`${d}T00:00:00Z`)) &&
+      new Date(`${d}T00:00:00Z`).toISOString().startsWith(d),
+    "Invalid date",
+  );
+const timeOfDaySchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use 24-hour HH:MM");
+
+export const vendorShiftSchema = z.object({
+  dayOfWeek: z.number().int().min(0).max(6),
+  opensAt: timeOfDaySchema,
+  closesAt: timeOfDaySchema,
+});
+
+// Replaces the whole week at once so the editor can send split shifts together
+export const weeklyHoursSchema = z.object({
+  timezone: timeZoneSchema.optional(),
+  shifts: z.array(vendorShiftSchema).max(28),
+});
+
+export const insertVendorSpecialHoursSchema = createInsertSchema(
+  vendorSpecialHours,
+  {
+    date: calendarDateSchema,
+    isClosed: z.boolean().default(false),
+    opensAt: timeOfDaySchema.optional(),
+    closesAt: timeOfDaySchema.optional(),
+    note: z.string().trim().max(100).optional(),
+  },
+)
+  .omit({ id: true, vendorId: true, createdAt: true })
+  .refine(
+    (s) => s.isClosed || (s.opensAt !== undefined && s.closesAt !== undefined),
+    {
+      message: "Give opening and closing times, or mark the day closed",
+    },
+  );
+
+export type VendorShift = z.infer<typeof vendorShiftSchema>;
+export type WeeklyHours = z.infer<typeof weeklyHoursSchema>;
+export type VendorHours = typeof vendorHours.$inferSelect;
+export type InsertVendorSpecialHours = z.infer<
+  typeof insertVendorSpecialHoursSchema
+>;
+export type VendorSpecialHours = typeof vendorSpecialHours.$inferSelect;
+
 // Subscriptions table
 export const subscriptions = pgTable("subscriptions", {
   id: varchar("id")
@@ -209,6 +388,7 @@ export const paymentHistory = pgTable("payment_history", {
     .default(sql`gen_random_uuid()`),
   vendorId: varchar("vendor_id").notNull(),
   stripeInvoiceId: text("stripe_invoice_id").unique(),
+  stripeCheckoutSessionId: text("stripe_checkout_session_id").unique(), // One-time purchases
   stripePaymentIntentId: text("stripe_payment_intent_id"),
   amount: integer("amount").notNull(), // Amount in cents
   currency: text("currency").notNull().default("usd"),
@@ -218,7 +398,9 @@ export const paymentHistory = pgTable("payment_history", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
-export const insertPaymentHistorySchema = createInsertSchema(paymentHistory).omit({
+export const insertPaymentHistorySchema = createInsertSchema(
+  paymentHistory,
+).omit({
   id: true,
   createdAt: true,
 });
@@ -228,4 +410,1287 @@ export const selectPaymentHistorySchema = createSelectSchema(paymentHistory);
 export type InsertPaymentHistory = z.infer<typeof insertPaymentHistorySchema>;
 export type PaymentHistory = typeof paymentHistory.$inferSelect;
 
+// Boosts - paid featured placement, active only once Stripe confirms payment
+export const boostLevels = ["basic", "premium", "spotlight"] as const;
+export const boostLevelEnum = z.enum(boostLevels);
+export type BoostLevel = z.infer<typeof boostLevelEnum>;
+
+export const boosts = pgTable(
+  "boosts",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    vendorId: varchar("vendor_id").notNull(), // vendor_listings.id
+    level: text("level").notNull(), // basic | premium | spotlight
+    status: text("status").notNull().default("pending"), // pending, active, expired (checkout abandoned)
+    amount: integer("amount").notNull(), // Amount in cents
+    currency: text("currency").notNull().default("usd"),
+    stripeCheckoutSessionId: text("stripe_checkout_session_id").unique(),
+    stripePaymentIntentId: text("stripe_payment_intent_id"),
+    // Set when payment is confirmed; the boost counts only between these
+    startsAt: timestamp("starts_at"),
+    endsAt: timestamp("ends_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("boosts_vendor_idx").on(table.vendorId, table.status, table.endsAt),
+  ],
+);
+
+export const boostCheckoutSchema = z.object({
+  level: boostLevelEnum,
+  successUrl: z.string().url().max(2000).optional(),
+  cancelUrl: z.string().url().max(2000).optional(),
+});
+
+export type InsertBoost = typeof boosts.$inferInsert;
+export type Boost = typeof boosts.$inferSelect;
+
+// Deals table - promotions published by vendors and shown to customers
+export const deals = pgTable("deals", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  vendorId: varchar("vendor_id").notNull(), // vendor_listings.id
+  title: text("title").notNull(),
+  description: text("description").notNull(),
+  originalPrice: doublePrecision("original_price").notNull(), // Dollars
+  discountedPrice: doublePrecision("discounted_price").notNull(), // Dollars
+  category: text("category"), // Customer-facing category label (e.g. "Mexican")
+  imageUrl: text("image_url"),
+  startDate: timestamp("start_date").defaultNow().notNull(),
+  endDate: timestamp("end_date").notNull(),
+  isActive: boolean("is_active").notNull().default(true),
+  // Flash deals: short-lived with optional global redemption cap
+  isFlash: boolean("is_flash").notNull().default(false),
+  flashNotifiedAt: timestamp("flash_notified_at"), // When subscribers were told the flash deal is live
+  maxRedemptions: integer("max_redemptions"), // null = unlimited
+  currentRedemptions: integer("current_redemptions").notNull().default(0),
+  // Menu items the deal applies to (menu_items.id), e.g. "20% off tacos"
+  menuItemIds: text("menu_item_ids")
+    .array()
+    .notNull()
+    .default(sql`'{}'::text[]`),
+  hiddenAt: timestamp("hidden_at"), // Hidden by an admin; the vendor can't reactivate it
+  hiddenReason: text("hidden_reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertDealSchema = createInsertSchema(deals, {
+  title: z.string().min(1, "Title is required").max(100),
+  description: z.string().min(1, "Description is required").max(500),
+  originalPrice: z.number().nonnegative(),
+  discountedPrice: z.number().nonnegative(),
+  category: z.string().max(50).optional(),
+  imageUrl: z.string().url().max(500).optional(),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date(),
+  isActive: z.boolean().default(true),
+  isFlash: z.boolean().default(false),
+  maxRedemptions: z.number().int().positive().optional(),
+  menuItemIds: z.array(z.string().min(1)).max(20).default([]),
+})
+  .omit({
+    id: true,
+    vendorId: true,
+    flashNotifiedAt: true,
+    currentRedemptions: true,
+    hiddenAt: true,
+    hiddenReason: true,
+    createdAt: true,
+    updatedAt: true,
+  })
+  .refine((deal) => deal.discountedPrice <= deal.originalPrice, {
+    message: "Discounted price cannot exceed original price",
+    path: ["discountedPrice"],
+  })
+  .refine((deal) => deal.endDate > (deal.startDate ?? new Date()), {
+    message: "End date must be after start date",
+    path: ["endDate"],
+  });
+
+export const updateDealSchema = createInsertSchema(deals, {
+  title: z.string().min(1).max(100),
+  description: z.string().min(1).max(500),
+  originalPrice: z.number().nonnegative(),
+  discountedPrice: z.number().nonnegative(),
+  category: z.string().max(50).nullable(),
+  imageUrl: z.string().url().max(500).nullable(),
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+  isActive: z.boolean(),
+  maxRedemptions: z.number().int().positive().nullable(),
+  menuItemIds: z.array(z.string().min(1)).max(20),
+})
+  .omit({
+    id: true,
+    vendorId: true,
+    isFlash: true,
+    flashNotifiedAt: true,
+    currentRedemptions: true,
+    hiddenAt: true,
+    hiddenReason: true,
+    createdAt: true,
+    updatedAt: true,
+  })
+  .partial();
+
+export const selectDealSchema = createSelectSchema(deals);
+
+export type InsertDeal = z.infer<typeof insertDealSchema>;
+export type UpdateDeal = z.infer<typeof updateDealSchema>;
+export type Deal = typeof deals.$inferSelect;
+
+// Dietary tags on menu items; the vendor-level summary uses the same labels
+export const dietaryTagEnum = z.enum([
+  "Vegetarian",
+  "Vegan",
+  "Gluten-Free",
+  "Halal",
+  "Organic",
+  "Spicy",
+]);
+export type DietaryTag = z.infer<typeof dietaryTagEnum>;
+
+// Menu sections (e.g. "Tacos", "Drinks") - ordered by position within a vendor's menu
+export const menuSections = pgTable(
+  "menu_sections",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    vendorId: varchar("vendor_id").notNull(), // vendor_listings.id
+    name: text("name").notNull(),
+    position: integer("position").notNull().default(0),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [index("menu_sections_vendor_idx").on(table.vendorId)],
+);
+
+// Menu items - belong to one section of one vendor's menu
+export const menuItems = pgTable(
+  "menu_items",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    vendorId: varchar("vendor_id").notNull(), // vendor_listings.id
+    sectionId: varchar("section_id").notNull(), // menu_sections.id
+    name: text("name").notNull(),
+    description: text("description"),
+    price: doublePrecision("price").notNull(), // Dollars
+    photoUrl: text("photo_url"),
+    dietaryTags: text("dietary_tags")
+      .array()
+      .notNull()
+      .default(sql`'{}'::text[]`),
+    isSoldOut: boolean("is_sold_out").notNull().default(false),
+    position: integer("position").notNull().default(0),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("menu_items_vendor_idx").on(table.vendorId),
+    index("menu_items_section_idx").on(table.sectionId),
+  ],
+);
+
+export const insertMenuSectionSchema = createInsertSchema(menuSections, {
+  name: z.string().trim().min(1, "Section name is required").max(60),
+  position: z.number().int().min(0).optional(),
+}).omit({ id: true, vendorId: true, createdAt: true, updatedAt: true });
+
+export const updateMenuSectionSchema = insertMenuSectionSchema.partial();
+
+export const insertMenuItemSchema = createInsertSchema(menuItems, {
+  sectionId: z.string().min(1),
+  name: z.string().trim().min(1, "Item name is required").max(100),
+  description: z.string().max(300).optional(),
+  price: z.number().nonnegative().max(10000),
+  photoUrl: z.string().url().max(500).optional(),
+  dietaryTags: z.array(dietaryTagEnum).default([]),
+  isSoldOut: z.boolean().default(false),
+  position: z.number().int().min(0).optional(),
+}).omit({ id: true, vendorId: true, createdAt: true, updatedAt: true });
+
+export const updateMenuItemSchema = createInsertSchema(menuItems, {
+  sectionId: z.string().min(1),
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(300).nullable(),
+  price: z.number().nonnegative().max(10000),
+  photoUrl: z.string().url().max(500).nullable(),
+  dietaryTags: z.array(dietaryTagEnum),
+  isSoldOut: z.boolean(),
+  position: z.number().int().min(0),
+})
+  .omit({ id: true, vendorId: true, createdAt: true, updatedAt: true })
+  .partial();
+
+export type InsertMenuSection = z.infer<typeof insertMenuSectionSchema>;
+export type UpdateMenuSection = z.infer<typeof updateMenuSectionSchema>;
+export type MenuSection = typeof menuSections.$inferSelect;
+export type InsertMenuItem = z.infer<typeof insertMenuItemSchema>;
+export type UpdateMenuItem = z.infer<typeof updateMenuItemSchema>;
+export type MenuItem = typeof menuItems.$inferSelect;
+
+// Deal redemptions - one row per customer per deal
+export const dealRedemptions = pgTable(
+  "deal_redemptions",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    dealId: varchar("deal_id").notNull(),
+    vendorId: varchar("vendor_id").notNull(), // vendor_listings.id
+    userId: varchar("user_id").notNull(), // Customer who redeemed
+    // Short numeric code shown alongside the QR; cleared if the pass expires unused so it can be reissued
+    code: varchar("code", { length: 6 }),
+    expiresAt: timestamp("expires_at").notNull(),
+    verifiedAt: timestamp("verified_at"), // Set once when the vendor scans or enters the code
+    verifiedBy: varchar("verified_by"), // Vendor user who verified
+    verifiedListingId: varchar("verified_listing_id"), // vendor_listings.id where it was used
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("deal_redemptions_deal_user_idx").on(
+      table.dealId,
+      table.userId,
+    ),
+    // Numeric codes only need to be unique among a vendor's unused codes
+    uniqueIndex("deal_redemptions_vendor_code_idx")
+      .on(table.vendorId, table.code)
+      .where(sql`${table.verifiedAt} is null`),
+  ],
+);
+
+export type DealRedemption = typeof dealRedemptions.$inferSelect;
+
+// Reviews - one per customer per vendor, gated on a verified redemption there
+export const reviews = pgTable(
+  "reviews",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    vendorId: varchar("vendor_id").notNull(), // vendor_listings.id
+    userId: varchar("user_id").notNull(), // Customer who wrote the review
+    rating: integer("rating").notNull(), // 1-5 stars
+    text: text("text").notNull(),
+    photoUrls: text("photo_urls")
+      .array()
+      .notNull()
+      .default(sql`'{}'::text[]`),
+    // Single public reply from the vendor
+    reply: text("reply"),
+    repliedAt: timestamp("replied_at"),
+    hiddenAt: timestamp("hidden_at"), // Hidden by an admin; left out of the listing's reviews and rating
+    hiddenReason: text("hidden_reason"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("reviews_vendor_user_idx").on(table.vendorId, table.userId),
+    index("reviews_vendor_created_idx").on(table.vendorId, table.createdAt),
+  ],
+);
+
+export const insertReviewSchema = createInsertSchema(reviews, {
+  vendorId: z.string().min(1),
+  rating: z.number().int().min(1).max(5),
+  text: z.string().trim().min(1, "Review text is required").max(1000),
+  photoUrls: z.array(z.string().url().max(500)).max(4).default([]),
+}).omit({
+  id: true,
+  userId: true,
+  reply: true,
+  repliedAt: true,
+  hiddenAt: true,
+  hiddenReason: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const reviewReplySchema = z.object({
+  reply: z.string().trim().min(1, "Reply is required").max(500),
+});
+
+export type InsertReview = z.infer<typeof insertReviewSchema>;
+export type Review = typeof reviews.$inferSelect;
+
+export interface VendorRatingStats {
+  averageRating: number | null; // null until the first review
+  reviewCount: number;
+  distribution: Record<1 | 2 | 3 | 4 | 5, number>;
+}
+
+// Uploaded photos - ordered galleries attached to a listing, menu item or deal
+export const photoOwnerTypes = ["listing", "menu_item", "deal"] as const;
+export const photoOwnerTypeEnum = z.enum(photoOwnerTypes);
+export type PhotoOwnerType = z.infer<typeof photoOwnerTypeEnum>;
+
+export const photos = pgTable(
+  "photos",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    vendorId: varchar("vendor_id").notNull(), // vendor_listings.id
+    ownerType: text("owner_type").notNull(), // listing | menu_item | deal
+    ownerId: varchar("owner_id").notNull(),
+    position: integer("position").notNull().default(0),
+    // Blob store keys; each size is re-encoded without EXIF metadata
+    originalKey: text("original_key").notNull(),
+    mediumKey: text("medium_key").notNull(),
+    thumbnailKey: text("thumbnail_key").notNull(),
+    url: text("url").notNull(),
+    mediumUrl: text("medium_url").notNull(),
+    thumbnailUrl: text("thumbnail_url").notNull(),
+    width: integer("width").notNull(),
+    height: integer("height").notNull(),
+    caption: text("caption"),
+    hiddenAt: timestamp("hidden_at"), // Hidden by an admin; left out of every gallery
+    hiddenReason: text("hidden_reason"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("photos_owner_idx").on(
+      table.ownerType,
+      table.ownerId,
+      table.position,
+    ),
+    index("photos_vendor_idx").on(table.vendorId),
+  ],
+);
+
+export const photoUploadSchema = z.object({
+  ownerType: photoOwnerTypeEnum,
+  ownerId: z.string().min(1),
+  caption: z.string().trim().max(200).optional(),
+});
+
+export const photoOrderSchema = z.object({
+  ownerType: photoOwnerTypeEnum,
+  ownerId: z.string().min(1),
+  photoIds: z.array(z.string().min(1)).max(50),
+});
+
+export type InsertPhoto = typeof photos.$inferInsert;
+export type Photo = typeof photos.$inferSelect;
+
+// Go-live sessions - where a truck parked and how it did there
+export const locationSessions = pgTable(
+  "location_sessions",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    vendorId: varchar("vendor_id").notNull(), // vendor_listings.id
+    latitude: doublePrecision("latitude").notNull(),
+    longitude: doublePrecision("longitude").notNull(),
+    address: text("address"),
+    startedAt: timestamp("started_at").defaultNow().notNull(),
+    endedAt: timestamp("ended_at"), // null while live
+    customersServed: integer("customers_served"),
+    revenue: doublePrecision("revenue"), // Dollars
+    notes: text("notes"),
+  },
+  (table) => [
+    index("location_sessions_vendor_idx").on(table.vendorId, table.startedAt),
+  ],
+);
+
+// Stats a vendor reports when going offline, or edits afterwards
+export const locationSessionStatsSchema = z.object({
+  customersServed: z
+    .number()
+    .int()
+    .nonnegative()
+    .max(100000)
+    .nullable()
+    .optional(),
+  revenue: z.number().nonnegative().max(1000000).nullable().optional(),
+  notes: z.string().trim().max(500).nullable().optional(),
+});
+
+export type LocationSessionStats = z.infer<typeof locationSessionStatsSchema>;
+export type InsertLocationSession = typeof locationSessions.$inferInsert;
+export type LocationSession = typeof locationSessions.$inferSelect;
+
+// Check-ins - a customer confirming they're at a truck, at most once per local day
+export const vendorCheckIns = pgTable(
+  "vendor_check_ins",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    vendorId: varchar("vendor_id").notNull(), // vendor_listings.id
+    userId: varchar("user_id").notNull(),
+    localDate: varchar("local_date", { length: 10 }).notNull(), // "2026-10-19" in the vendor's timezone
+    latitude: doublePrecision("latitude").notNull(),
+    longitude: doublePrecision("longitude").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("vendor_check_ins_vendor_user_date_idx").on(
+      table.vendorId,
+      table.userId,
+      table.localDate,
+    ),
+  ],
+);
+
+export const checkInSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+});
+
+export type InsertVendorCheckIn = typeof vendorCheckIns.$inferInsert;
+export type VendorCheckIn = typeof vendorCheckIns.$inferSelect;
+
+// Points ledger - one row per award, never edited. Balances, levels and
+// streaks are all computed from it on the server.
+export const pointsLedger = pgTable(
+  "points_ledger",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull(),
+    amount: integer("amount").notNull(),
+    reason: varchar("reason", { length: 20 }).notNull(), // redemption, check_in, share, achievement, challenge, voucher (spent)
+    referenceId: varchar("reference_id").notNull(), // What was awarded for: redemption, check-in, achievement or challenge id, or "vendorId:date" for shares; voucher id when spent
+    vendorId: varchar("vendor_id"), // vendor_listings.id, when the award came from a visit or share
+    activityDate: varchar("activity_date", { length: 10 }), // Local date of the activity, for streaks
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    // The same thing is never awarded twice
+    uniqueIndex("points_ledger_award_idx").on(
+      table.userId,
+      table.reason,
+      table.referenceId,
+    ),
+    index("points_ledger_user_idx").on(table.userId, table.createdAt),
+  ],
+);
+
+// Badges a customer has unlocked; evaluated whenever points are awarded
+export const userBadges = pgTable(
+  "user_badges",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull(),
+    badgeId: varchar("badge_id", { length: 64 }).notNull(), // Badge rule id, or "challenge:<id>" for challenge badges
+    unlockedAt: timestamp("unlocked_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("user_badges_user_badge_idx").on(table.userId, table.badgeId),
+  ],
+);
+
+export const shareRewardSchema = z.object({
+  vendorId: z.string().min(1),
+  dealId: z.string().min(1).optional(),
+});
+
+export type InsertPointsEntry = typeof pointsLedger.$inferInsert;
+export type PointsEntry = typeof pointsLedger.$inferSelect;
+export type InsertUserBadge = typeof userBadges.$inferInsert;
+export type UserBadge = typeof userBadges.$inferSelect;
+
+// Badge rules - a small language over the customer's activity. Every rule
+// counts activity events (verified redemptions, check-ins and shares) that
+// pass its filter, timed in the vendor's local time.
+export const badgeRarities = ["common", "rare", "epic", "legendary"] as const;
+export const badgeEvents = [
+  "redemption",
+  "check_in",
+  "share",
+  "visit",
+  "any",
+] as const; // visit: a redemption or a check-in
+export const badgeDistinctFields = [
+  "vendor",
+  "cuisine",
+  "vendor_category",
+  "day",
+] as const;
+
+const badgeRuleFilterSchema = z
+  .object({
+    cuisines: z.array(z.string().trim().min(1).max(50)).min(1).optional(), // Deal categories, e.g. "Korean"
+    vendorCategories: z.array(vendorCategoryEnum).min(1).optional(),
+    // Local hours [from, to); wraps past midnight when from > to
+    hours: z
+      .object({
+        from: z.number().int().min(0).max(23),
+        to: z.number().int().min(1).max(24),
+      })
+      .optional(),
+    daysOfWeek: z.array(z.number().int().min(0).max(6)).min(1).optional(), // 0 is Sunday
+  })
+  .strict();
+
+const badgeRuleBase = {
+  event: z.enum(badgeEvents),
+  filter: badgeRuleFilterSchema.optional(),
+};
+
+export const badgeRuleSchema = z.discriminatedUnion("metric", [
+  // How many matching events
+  z.object({ metric: z.literal("count"), ...badgeRuleBase }).strict(),
+  // How many different vendors, cuisines, vendor categories or days; with
+  // perVendor, the most at any one vendor (e.g. days at a favourite truck)
+  z
+    .object({
+      metric: z.literal("distinct"),
+      ...badgeRuleBase,
+      of: z.enum(badgeDistinctFields),
+      perVendor: z.boolean().optional(),
+    })
+    .strict(),
+  // Dollars saved on matching redemptions
+  z
+    .object({
+      metric: z.literal("sum"),
+      ...badgeRuleBase,
+      of: z.literal("savings"),
+    })
+    .strict(),
+  // Consecutive days with a matching event
+  z
+    .object({
+      metric: z.literal("streak"),
+      ...badgeRuleBase,
+      streak: z.enum(["longest", "current"]).default("longest"),
+    })
+    .strict(),
+]);
+
+export type BadgeRule = z.infer<typeof badgeRuleSchema>;
+export type BadgeRuleFilter = z.infer<typeof badgeRuleFilterSchema>;
+
+// Badge definitions - unlocked when a rule's progress reaches the requirement.
+// Seasonal badges only count activity inside their window and disappear
+// afterwards for customers who didn't earn them.
+export const badgeDefinitions = pgTable("badge_definitions", {
+  id: varchar("id", { length: 40 }).primaryKey(), // Slug, e.g. "early_bird"; stored on user_badges
+  name: text("name").notNull(),
+  description: text("description").notNull(),
+  icon: text("icon").notNull(),
+  rarity: varchar("rarity", { length: 20 }).notNull().default("common"),
+  requirement: integer("requirement").notNull(),
+  rule: jsonb("rule").$type<BadgeRule>().notNull(),
+  startsAt: timestamp("starts_at"),
+  endsAt: timestamp("ends_at"),
+  sortOrder: integer("sort_order").notNull().default(0),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertBadgeDefinitionSchema = z
+  .object({
+    id: z
+      .string()
+      .min(2)
+      .max(40)
+      .regex(/^[a-z0-9_]+$/, "Use lowercase letters, numbers and underscores"),
+    name: z.string().min(1, "Name is required").max(50),
+    description: z.string().min(1).max(200),
+    icon: z.string().min(1).max(8),
+    rarity: z.enum(badgeRarities).default("common"),
+    requirement: z.number().int().min(1).max(100_000),
+    rule: badgeRuleSchema,
+    startsAt: z.coerce.date().optional(),
+    endsAt: z.coerce.date().optional(),
+    sortOrder: z.number().int().default(0),
+  })
+  .refine((b) => !b.startsAt || !b.endsAt || b.endsAt > b.startsAt, {
+    message: "endsAt must be after startsAt",
+    path: ["endsAt"],
+  });
+
+// The id is fixed once customers may hold the badge
+export const updateBadgeDefinitionSchema = z.object({
+  name: z.string().min(1).max(50).optional(),
+  description: z.string().min(1).max(200).optional(),
+  icon: z.string().min(1).max(8).optional(),
+  rarity: z.enum(badgeRarities).optional(),
+  requirement: z.number().int().min(1).max(100_000).optional(),
+  rule: badgeRuleSchema.optional(),
+  startsAt: z.coerce.date().nullable().optional(),
+  endsAt: z.coerce.date().nullable().optional(),
+  sortOrder: z.number().int().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export type InsertBadgeDefinition = typeof badgeDefinitions.$inferInsert;
+export type BadgeDefinition = typeof badgeDefinitions.$inferSelect;
+
+// Time-limited challenges - admins run platform-wide ones; Pro vendors sponsor
+// ones that only count activity at their own truck
+export const challengeActions = [
+  "redeem",
+  "check_in",
+  "visit",
+  "share",
+] as const; // visit: a redemption or a check-in
+export const challengeCountModes = ["event", "vendor", "day"] as const; // What each step of progress is distinct by
+
+export const challenges = pgTable(
+  "challenges",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    sponsorVendorId: varchar("sponsor_vendor_id"), // vendor_listings.id; null for platform challenges
+    createdBy: varchar("created_by").notNull(),
+    title: text("title").notNull(),
+    description: text("description"),
+    action: varchar("action", { length: 20 }).notNull(),
+    target: integer("target").notNull(),
+    countBy: varchar("count_by", { length: 10 }).notNull().default("event"),
+    // Optional filters on where the activity happened; all given filters must match
+    cuisine: text("cuisine"), // Deal category, e.g. "Korean"
+    vendorCategory: text("vendor_category"),
+    city: text("city"),
+    state: text("state"),
+    areaName: text("area_name"), // e.g. "Wynwood"
+    areaLat: doublePrecision("area_lat"),
+    areaLng: doublePrecision("area_lng"),
+    areaRadiusMiles: doublePrecision("area_radius_miles"),
+    startsAt: timestamp("starts_at").notNull(),
+    endsAt: timestamp("ends_at").notNull(),
+    rewardPoints: integer("reward_points").notNull().default(0),
+    badgeName: text("badge_name"), // Completing awards this badge when set
+    badgeIcon: text("badge_icon"),
+    isActive: boolean("is_active").notNull().default(true),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [index("challenges_window_idx").on(table.startsAt, table.endsAt)],
+);
+
+// One row per counted step, so replays of the same activity never count twice
+export const challengeProgress = pgTable(
+  "challenge_progress",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    challengeId: varchar("challenge_id").notNull(),
+    userId: varchar("user_id").notNull(),
+    countKey: varchar("count_key").notNull(), // Event id, vendor id or local date, per countBy
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("challenge_progress_step_idx").on(
+      table.challengeId,
+      table.userId,
+      table.countKey,
+    ),
+  ],
+);
+
+export const insertChallengeSchema = z
+  .object({
+    title: z.string().min(1, "Title is required").max(100),
+    description: z.string().max(500).optional(),
+    action: z.enum(challengeActions),
+    target: z.number().int().min(1).max(1000),
+    countBy: z.enum(challengeCountModes).default("event"),
+    cuisine: z.string().min(1).max(50).optional(),
+    vendorCategory: vendorCategoryEnum.optional(),
+    city: z.string().min(1).max(100).optional(),
+    state: z.string().min(1).max(50).optional(),
+    areaName: z.string().min(1).max(100).optional(),
+    areaLat: z.number().min(-90).max(90).optional(),
+    areaLng: z.number().min(-180).max(180).optional(),
+    areaRadiusMiles: z.number().positive().max(50).optional(),
+    startsAt: z.coerce.date(),
+    endsAt: z.coerce.date(),
+    rewardPoints: z.number().int().min(0).max(100_000).default(0),
+    badgeName: z.string().min(1).max(50).optional(),
+    badgeIcon: z.string().min(1).max(8).optional(),
+  })
+  .refine((c) => c.endsAt > c.startsAt, {
+    message: "endsAt must be after startsAt",
+    path: ["endsAt"],
+  })
+  .refine((c) => c.rewardPoints > 0 || c.badgeName, {
+    message: "Challenges need bonus points or a badge",
+    path: ["rewardPoints"],
+  })
+  .refine(
+    (c) =>
+      [c.areaLat, c.areaLng, c.areaRadiusMiles].every((v) => v === undefined) ||
+      [c.areaLat, c.areaLng, c.areaRadiusMiles].every((v) => v !== undefined),
+    {
+      message: "An area needs a center and a radius",
+      path: ["areaRadiusMiles"],
+    },
+  );
+
+// Rules stay fixed once customers are making progress; only the wording, end and status change
+export const updateChallengeSchema = z.object({
+  title: z.string().min(1).max(100).optional(),
+  description: z.string().max(500).nullable().optional(),
+  endsAt: z.coerce.date().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export type ChallengeAction = (typeof challengeActions)[number];
+export type ChallengeCountMode = (typeof challengeCountModes)[number];
+export type InsertChallenge = typeof challenges.$inferInsert;
+export type Challenge = typeof challenges.$inferSelect;
+export type InsertChallengeProgress = typeof challengeProgress.$inferInsert;
+export type ChallengeProgress = typeof challengeProgress.$inferSelect;
+
+// Things customers can spend points on
+export const rewardItemKinds = ["discount", "add_on", "raffle"] as const;
+export const rewardItemKindEnum = z.enum(rewardItemKinds);
+export type RewardItemKind = z.infer<typeof rewardItemKindEnum>;
+
+// Rewards catalog - stocked by vendors for their own truck, or by admins for
+// every truck that accepts reward vouchers (vendorId null)
+export const rewardItems = pgTable(
+  "reward_items",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    vendorId: varchar("vendor_id"), // vendor_listings.id; null for platform-wide items
+    createdBy: varchar("created_by").notNull(), // Vendor or admin user
+    kind: varchar("kind", { length: 20 }).notNull(),
+    title: text("title").notNull(),
+    description: text("description"),
+    pointsCost: integer("points_cost").notNull(),
+    discountAmount: doublePrecision("discount_amount"), // Dollars off, for discount items
+    stock: integer("stock"), // null for unlimited
+    issuedCount: integer("issued_count").notNull().default(0),
+    voucherValidDays: integer("voucher_valid_days").notNull().default(30),
+    drawAt: timestamp("draw_at"), // Raffles: entries close and a winner can be drawn from here
+    drawnAt: timestamp("drawn_at"),
+    isActive: boolean("is_active").notNull().default(true),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [index("reward_items_vendor_idx").on(table.vendorId)],
+);
+
+export const voucherStatuses = ["active", "used", "entered", "lost"] as const;
+export type VoucherStatus = (typeof voucherStatuses)[number];
+
+// A customer's purchase from the catalog. Raffle entries start as "entered"
+// and only the winner's becomes an active voucher.
+export const rewardVouchers = pgTable(
+  "reward_vouchers",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    itemId: varchar("item_id").notNull(),
+    userId: varchar("user_id").notNull(),
+    vendorId: varchar("vendor_id"), // Copied from the item; null means any participating truck
+    // Short numeric code shown alongside the QR; cleared if the voucher expires unused so it can be reissued
+    code: varchar("code", { length: 6 }),
+    pointsSpent: integer("points_spent").notNull(),
+    status: varchar("status", { length: 10 }).notNull().default("active"),
+    expiresAt: timestamp("expires_at").notNull(),
+    usedAt: timestamp("used_at"),
+    usedBy: varchar("used_by"), // Vendor user who verified
+    usedListingId: varchar("used_listing_id"), // vendor_listings.id where it was used
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("reward_vouchers_user_idx").on(table.userId, table.createdAt),
+    index("reward_vouchers_item_idx").on(table.itemId),
+    // Typed codes are only looked up at the voucher's own truck, so unused codes are unique per
+    // vendor. Platform vouchers (no vendor) have to be scanned and never conflict.
+    uniqueIndex("reward_vouchers_code_idx")
+      .on(table.vendorId, table.code)
+      .where(sql`${table.status} = 'active'`),
+  ],
+);
+
+const rewardItemFields = {
+  kind: rewardItemKindEnum,
+  title: z.string().min(1, "Title is required").max(100),
+  description: z.string().max(500).optional(),
+  pointsCost: z.number().int().positive().max(1_000_000),
+  discountAmount: z.number().positive().max(1000).optional(),
+  stock: z.number().int().positive().optional(),
+  voucherValidDays: z.number().int().min(1).max(365).default(30),
+  drawAt: z.coerce.date().optional(),
+  isActive: z.boolean().default(true),
+};
+
+export const insertRewardItemSchema = z
+  .object(rewardItemFields)
+  .refine(
+    (item) => item.kind !== "discount" || item.discountAmount !== undefined,
+    {
+      message: "Discount items need a discount amount",
+      path: ["discountAmount"],
+    },
+  )
+  .refine((item) => item.kind !== "raffle" || item.drawAt !== undefined, {
+    message: "Raffles need a draw date",
+    path: ["drawAt"],
+  });
+
+export const updateRewardItemSchema = z.object({
+  title: rewardItemFields.title.optional(),
+  description: z.string().max(500).nullable().optional(),
+  pointsCost: rewardItemFields.pointsCost.optional(),
+  discountAmount: rewardItemFields.discountAmount.optional(),
+  stock: z.number().int().positive().nullable().optional(),
+  voucherValidDays: z.number().int().min(1).max(365).optional(),
+  drawAt: z.coerce.date().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export type InsertRewardItem = typeof rewardItems.$inferInsert;
+export type RewardItem = typeof rewardItems.$inferSelect;
+export type InsertRewardVoucher = typeof rewardVouchers.$inferInsert;
+export type RewardVoucher = typeof rewardVouchers.$inferSelect;
+
+// Engagement events - appended as they arrive and never edited; the vendor
+// dashboard reads the rollups instead
+export const analyticsEventTypes = [
+  "impression",
+  "page_view",
+  "directions",
+  "share",
+  "redemption",
+] as const;
+export const analyticsEventTypeEnum = z.enum(analyticsEventTypes);
+export type AnalyticsEventType = z.infer<typeof analyticsEventTypeEnum>;
+
+export const analyticsEvents = pgTable(
+  "analytics_events",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    vendorId: varchar("vendor_id").notNull(), // vendor_listings.id
+    dealId: varchar("deal_id"), // Set when the event is about one deal
+    type: varchar("type", { length: 20 }).notNull(),
+    userId: varchar("user_id"), // Signed-in customer, if any
+    value: doublePrecision("value"), // Dollars; redemptions carry the deal price
+    occurredAt: timestamp("occurred_at").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("analytics_events_vendor_idx").on(table.vendorId, table.occurredAt),
+  ],
+);
+
+// Event counts per vendor and per deal, bucketed by the vendor's local hour and day
+export const analyticsRollups = pgTable(
+  "analytics_rollups",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    vendorId: varchar("vendor_id").notNull(), // vendor_listings.id
+    dealId: varchar("deal_id").notNull().default(""), // "" = all of the vendor's events
+    period: varchar("period", { length: 4 }).notNull(), // "hour" | "day"
+    bucket: varchar("bucket", { length: 13 }).notNull(), // "2026-10-19T07" or "2026-10-19"
+    type: varchar("type", { length: 20 }).notNull(),
+    count: integer("count").notNull().default(0),
+    value: doublePrecision("value").notNull().default(0), // Dollars
+  },
+  (table) => [
+    uniqueIndex("analytics_rollups_key_idx").on(
+      table.vendorId,
+      table.dealId,
+      table.period,
+      table.bucket,
+      table.type,
+    ),
+  ],
+);
+
+// What the app batches to POST /api/analytics/events. Redemptions are recorded
+// by the server when a vendor verifies a code, so clients can't send them.
+export const analyticsEventSchema = z.object({
+  type: analyticsEventTypeEnum.exclude(["redemption"]),
+  vendorId: z.string().min(1),
+  dealId: z.string().min(1).optional(),
+  occurredAt: z.coerce.date().optional(),
+});
+
+export const analyticsBatchSchema = z.object({
+  events: z.array(analyticsEventSchema).min(1).max(100),
+});
+
+export type AnalyticsPeriod = "hour" | "day";
+export type InsertAnalyticsEvent = typeof analyticsEvents.$inferInsert;
+export type AnalyticsEvent = typeof analyticsEvents.$inferSelect;
+export type InsertAnalyticsRollup = typeof analyticsRollups.$inferInsert;
+export type AnalyticsRollup = typeof analyticsRollups.$inferSelect;
+
+// Expo push tokens, one row per device. A token signed in under a new account
+// moves to that account.
+export const pushTokens = pgTable(
+  "push_tokens",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull(),
+    token: text("token").notNull().unique(), // "ExponentPushToken[...]"
+    platform: varchar("platform", { length: 10 }).notNull(), // ios, android
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    lastSeenAt: timestamp("last_seen_at").defaultNow().notNull(),
+  },
+  (table) => [index("push_tokens_user_idx").on(table.userId)],
+);
+
+export const registerPushTokenSchema = z.object({
+  token: z
+    .string()
+    .regex(/^Expo(nent)?PushToken\[[^\]]+\]$/, "Invalid Expo push token"),
+  platform: z.enum(["ios", "android"]),
+});
+
+// What a customer wants to hear about: flash deals from a vendor or a deal
+// category, and favorite trucks ("favorite") arriving in a geofence zone ("zone")
+export const notificationSubscriptionKinds = [
+  "vendor",
+  "category",
+  "zone",
+  "favorite",
+] as const;
+
+export const notificationSubscriptions = pgTable(
+  "notification_subscriptions",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull(),
+    kind: varchar("kind", { length: 10 }).notNull(),
+    target: text("target").notNull(), // vendor_listings.id, geofence_zones.id, or a deal category such as "Korean"
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("notification_subscriptions_key_idx").on(
+      table.userId,
+      table.kind,
+      table.target,
+    ),
+    index("notification_subscriptions_target_idx").on(table.kind, table.target),
+  ],
+);
+
+export const notificationSubscriptionSchema = z.object({
+  kind: z.enum(notificationSubscriptionKinds),
+  target: z.string().trim().min(1).max(100),
+});
+
+export type NotificationSubscriptionKind =
+  (typeof notificationSubscriptionKinds)[number];
+export type InsertPushToken = typeof pushTokens.$inferInsert;
+export type PushToken = typeof pushTokens.$inferSelect;
+export type InsertNotificationSubscription =
+  typeof notificationSubscriptions.$inferInsert;
+export type NotificationSubscription =
+  typeof notificationSubscriptions.$inferSelect;
+
+// Every notification sent to a user lands here, pushed or not, so the app can
+// show it in an inbox
+export const notificationCategories = [
+  "flash_deal",
+  "deal_alert",
+  "price_drop",
+  "new_store",
+  "weekly_digest",
+  "zone_alert",
+  "rewards",
+] as const;
+
+// Marketing notifications; these count toward a user's daily push cap
+export const promotionalNotificationCategories: readonly NotificationCategory[] =
+  [
+    "flash_deal",
+    "deal_alert",
+    "price_drop",
+    "new_store",
+    "weekly_digest",
+    "zone_alert",
+  ];
+
+export const notifications = pgTable(
+  "notifications",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull(),
+    category: varchar("category", { length: 20 }).notNull(),
+    title: text("title").notNull(),
+    body: text("body").notNull(),
+    data: jsonb("data").$type<Record<string, unknown>>(), // Deep link, e.g. { type: "flash_deal", dealId, vendorId }
+    pushed: boolean("pushed").notNull().default(false), // false when quiet hours, the daily cap or push settings held it back
+    localDate: varchar("local_date", { length: 10 }).notNull(), // "2026-10-19" in the user's timezone, for the daily cap
+    readAt: timestamp("read_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("notifications_user_created_idx").on(table.userId, table.createdAt),
+    index("notifications_user_date_idx").on(table.userId, table.localDate),
+  ],
+);
+
+// Server copy of the app's notification settings; users without a row get the defaults
+export const notificationPreferences = pgTable("notification_preferences", {
+  userId: varchar("user_id").primaryKey(),
+  pushEnabled: boolean("push_enabled").notNull().default(true),
+  dealAlerts: boolean("deal_alerts").notNull().default(true),
+  flashDeals: boolean("flash_deals").notNull().default(true),
+  priceDrops: boolean("price_drops").notNull().default(true),
+  newStores: boolean("new_stores").notNull().default(false),
+  weeklyDigest: boolean("weekly_digest").notNull().default(true),
+  quietHoursStart: text("quiet_hours_start"), // "HH:MM", null when quiet hours are off
+  quietHoursEnd: text("quiet_hours_end"), // May be earlier than the start to span midnight
+  timezone: text("timezone").notNull().default("UTC"), // IANA zone quiet hours and the daily cap use
+  maxPromoPushesPerDay: integer("max_promo_pushes_per_day"), // null for no limit
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const notificationPreferencesSchema = z
+  .object({
+    pushEnabled: z.boolean(),
+    dealAlerts: z.boolean(),
+    flashDeals: z.boolean(),
+    priceDrops: z.boolean(),
+    newStores: z.boolean(),
+    weeklyDigest: z.boolean(),
+    quietHoursStart: timeOfDaySchema.nullable(),
+    quietHoursEnd: timeOfDaySchema.nullable(),
+    timezone: timeZoneSchema,
+    maxPromoPushesPerDay: z.number().int().min(0).max(50).nullable(),
+  })
+  .partial()
+  .refine(
+    (data) =>
+      (data.quietHoursStart === undefined) ===
+        (data.quietHoursEnd === undefined) &&
+      (data.quietHoursStart === null) === (data.quietHoursEnd === null),
+    "Set quietHoursStart and quietHoursEnd together",
+  );
+
+export type NotificationCategory = (typeof notificationCategories)[number];
+export type InsertNotification = typeof notifications.$inferInsert;
+export type Notification = typeof notifications.$inferSelect;
+export type UpdateNotificationPreferences = z.infer<
+  typeof notificationPreferencesSchema
+>;
+export type NotificationPreferences =
+  typeof notificationPreferences.$inferSelect;
+
+// Areas customers watch for their favorite trucks. Circles use the center
+// and radius; polygons store their outline and use the center for the map.
+export const geofenceShapes = ["circle", "polygon"] as const;
+
+export const geoPointSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+});
+
+export type GeoPoint = z.infer<typeof geoPointSchema>;
+
+export const geofenceZones = pgTable(
+  "geofence_zones",
+  {
+    id: varchar("id", { length: 40 })
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    name: text("name").notNull(), // e.g. "Wynwood"
+    city: text("city").notNull(),
+    state: text("state"),
+    shape: varchar("shape", { length: 10 }).$type<GeofenceShape>().notNull(),
+    centerLat: doublePrecision("center_lat").notNull(),
+    centerLng: doublePrecision("center_lng").notNull(),
+    radiusMeters: doublePrecision("radius_meters"), // Circles only
+    polygon: jsonb("polygon").$type<GeoPoint[]>(), // Polygons only
+    notifyOnEnter: boolean("notify_on_enter").notNull().default(true),
+    notifyOnExit: boolean("notify_on_exit").notNull().default(false),
+    isActive: boolean("is_active").notNull().default(true),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [index("geofence_zones_city_idx").on(table.city)],
+);
+
+const geofenceZoneFieldsSchema = z.object({
+  id: z
+    .string()
+    .regex(/^[a-z0-9_]+$/, "Use lowercase letters, digits and underscores")
+    .max(40)
+    .optional(),
+  name: z.string().trim().min(1).max(100),
+  city: z.string().trim().min(1).max(100),
+  state: z.string().trim().max(50).nullable().optional(),
+  shape: z.enum(geofenceShapes),
+  centerLat: z.number().min(-90).max(90).optional(),
+  centerLng: z.number().min(-180).max(180).optional(),
+  radiusMeters: z.number().positive().max(50000).nullable().optional(),
+  polygon: z.array(geoPointSchema).min(3).max(200).nullable().optional(),
+  notifyOnEnter: z.boolean().optional(),
+  notifyOnExit: z.boolean().optional(),
+  isActive: z.boolean().optional(),
+});
+
+type GeofenceShapeFields = Pick<
+  z.infer<typeof geofenceZoneFieldsSchema>,
+  "shape" | "centerLat" | "centerLng" | "radiusMeters" | "polygon"
+>;
+
+// Circles need a center and radius, polygons an outline
+export function getGeofenceShapeError(
+  zone: GeofenceShapeFields,
+): string | null {
+  if (zone.shape === "circle") {
+    return zone.centerLat == null ||
+      zone.centerLng == null ||
+      !zone.radiusMeters
+      ? "Circle zones need centerLat, centerLng and radiusMeters"
+      : null;
+  }
+  return !zone.polygon
+    ? "Polygon zones need a polygon of at least 3 points"
+    : null;
+}
+
+export const insertGeofenceZoneSchema = geofenceZoneFieldsSchema.superRefine(
+  (zone, ctx) => {
+    const error = getGeofenceShapeError(zone);
+    if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+  },
+);
+
+// Checked against the existing zone's shape in the route
+export const updateGeofenceZoneSchema = geofenceZoneFieldsSchema
+  .omit({ id: true })
+  .partial();
+
+export type GeofenceShape = (typeof geofenceShapes)[number];
+export type InsertGeofenceZone = typeof geofenceZones.$inferInsert;
+export type GeofenceZone = typeof geofenceZones.$inferSelect;
+export type UpdateGeofenceZone = z.infer<typeof updateGeofenceZoneSchema>;
+
+// Content users flag for admins to review. One report per user per target;
+// resolving it records what the admin did.
+export const reportTargetTypes = [
+  "listing",
+  "deal",
+  "review",
+  "photo",
+  "user",
+] as const;
+export const reportReasons = [
+  "spam",
+  "inappropriate",
+  "misleading",
+  "harassment",
+  "other",
+] as const;
+export const reportStatuses = ["open", "resolved", "dismissed"] as const;
+
+export const contentReports = pgTable(
+  "content_reports",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    reporterId: varchar("reporter_id").notNull(),
+    targetType: varchar("target_type", { length: 10 })
+      .$type<ReportTargetType>()
+      .notNull(),
+    targetId: varchar("target_id").notNull(),
+    reason: varchar("reason", { length: 20 }).notNull(),
+    details: text("details"),
+    status: varchar("status", { length: 10 })
+      .$type<ReportStatus>()
+      .notNull()
+      .default("open"),
+    resolvedBy: varchar("resolved_by"), // Admin's users.id
+    resolution: text("resolution"),
+    resolvedAt: timestamp("resolved_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("content_reports_reporter_target_idx").on(
+      table.reporterId,
+      table.targetType,
+      table.targetId,
+    ),
+    index("content_reports_status_created_idx").on(
+      table.status,
+      table.createdAt,
+    ),
+    index("content_reports_target_idx").on(table.targetType, table.targetId),
+  ],
+);
+
+export const createReportSchema = z.object({
+  targetType: z.enum(reportTargetTypes),
+  targetId: z.string().trim().min(1).max(100),
+  reason: z.enum(reportReasons),
+  details: z.string().trim().max(1000).optional(),
+});
+
+// Every admin write is logged with who did it and why
+export const adminAuditLog = pgTable(
+  "admin_audit_log",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    adminId: varchar("admin_id").notNull(),
+    action: varchar("action", { length: 40 }).notNull(), // e.g. "user.suspend", "deal.hide"
+    targetType: varchar("target_type", { length: 20 }).notNull(),
+    targetId: varchar("target_id").notNull(),
+    reason: text("reason").notNull(),
+    details: jsonb("details").$type<Record<string, unknown>>(), // e.g. { from: "customer", to: "vendor" }
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("admin_audit_log_created_idx").on(table.createdAt),
+    index("admin_audit_log_target_idx").on(table.targetType, table.targetId),
+  ],
+);
+
+const adminReasonSchema = z.string().trim().min(3, "Give a reason").max(500);
+
+// Body of every admin moderation action; the reason goes in the audit log
+export const adminActionSchema = z.object({
+  reason: adminReasonSchema,
+});
+
+export const adminRoleChangeSchema = adminActionSchema.extend({
+  role: userRoleEnum,
+});
+
+export const closeReportSchema = adminActionSchema.extend({
+  status: z.enum(["resolved", "dismissed"]),
+});
+
+export type ReportTargetType = (typeof reportTargetTypes)[number];
+export type ReportStatus = (typeof reportStatuses)[number];
+export type CreateReport = z.infer<typeof createReportSchema>;
+export type InsertContentReport = typeof contentReports.$inferInsert;
+export type ContentReport = typeof contentReports.$inferSelect;
+export type InsertAdminAuditEntry = typeof adminAuditLog.$inferInsert;
+export type AdminAuditEntry = typeof adminAuditLog.$inferSelect;
+
 export * from "./models/chat";